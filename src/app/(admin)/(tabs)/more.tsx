@@ -67,6 +67,105 @@ export default function MoreScreen() {
               style={styles.listItem}
             />
             <Divider />
+            <List.Item
+              title="Meal Schedule"
+              description="Meal timings per weekday and grace periods"
+              left={(props) => <List.Icon {...props} icon="clock-outline" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/meal-schedule')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="Meal Forecast"
+              description="Expected headcount for upcoming meals"
+              left={(props) => <List.Icon {...props} icon="chart-timeline-variant" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/meal-forecast')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="Leave Requests"
+              description="Approve student mess-off requests"
+              left={(props) => <List.Icon {...props} icon="calendar-remove" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/leave-requests')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="Reports"
+              description="Export roster, attendance and payments as CSV or PDF"
+              left={(props) => <List.Icon {...props} icon="file-chart-outline" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/reports')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="Import Attendance"
+              description="Apply a paper register from a CSV file"
+              left={(props) => <List.Icon {...props} icon="file-upload-outline" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/import-attendance')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="UPI Payments"
+              description="Verify UPI references submitted by students"
+              left={(props) => <List.Icon {...props} icon="cellphone-check" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/upi-payments')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="Bank Statement"
+              description="Match a bank CSV against recorded payments"
+              left={(props) => <List.Icon {...props} icon="bank-check" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/import-statement')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="Balance Check"
+              description="Find and fix balances that don't match payments"
+              left={(props) => <List.Icon {...props} icon="scale-balance" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/balance-check')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="Billing"
+              description="Mess details, UPI ID and document numbering"
+              left={(props) => <List.Icon {...props} icon="receipt" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/billing-settings')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="Payment Methods"
+              description="Methods, reference numbers and cash in hand"
+              left={(props) => <List.Icon {...props} icon="credit-card-settings" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/payment-methods')}
+              style={styles.listItem}
+            />
+            <Divider />
+            <List.Item
+              title="Late Fees"
+              description="Grace period, fee rules and daily charges"
+              left={(props) => <List.Icon {...props} icon="clock-alert-outline" color="#7B2CBF" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push('/(admin)/late-fees')}
+              style={styles.listItem}
+            />
+            <Divider />
             <List.Item
               title="QR Code Generator"
               description="Generate QR code for attendance"
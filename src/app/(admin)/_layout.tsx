@@ -85,6 +85,14 @@ export default function AdminLayout() {
       <Stack.Screen name="edit-plan" />
       <Stack.Screen name="students" options={{ presentation: 'card' }} />
       <Stack.Screen name="add-student" />
+      <Stack.Screen name="import-students" />
+      <Stack.Screen name="import-attendance" />
+      <Stack.Screen name="import-statement" />
+      <Stack.Screen name="balance-check" />
+      <Stack.Screen name="billing-settings" />
+      <Stack.Screen name="payment-methods" />
+      <Stack.Screen name="late-fees" />
+      <Stack.Screen name="upi-payments" />
       <Stack.Screen name="student-detail" />
       <Stack.Screen name="edit-student" />
       <Stack.Screen name="attendance" options={{ presentation: 'card' }} />
@@ -93,7 +101,12 @@ export default function AdminLayout() {
       <Stack.Screen name="payment-detail" />
       <Stack.Screen name="edit-payment" />
       <Stack.Screen name="notification-settings" options={{ presentation: 'card' }} />
+      <Stack.Screen name="meal-schedule" />
+      <Stack.Screen name="meal-forecast" />
+      <Stack.Screen name="leave-requests" />
+      <Stack.Screen name="reports" />
       <Stack.Screen name="qr-generator" />
+      <Stack.Screen name="kiosk" options={{ gestureEnabled: false, animation: 'fade' }} />
     </Stack>
   )
 }
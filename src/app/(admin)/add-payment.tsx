@@ -6,6 +6,8 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useStudents } from '@/hooks/useStudents'
 import { useCreatePayment } from '@/hooks/usePayments'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { findPaymentMethod, validatePaymentReference } from '@/lib/payment-methods'
 import { PaymentMethodSelector } from '@/components/payments/PaymentMethodSelector'
 import { StudentBalanceDisplay } from '@/components/payments/StudentBalanceDisplay'
 import { SimpleDatePicker } from '@/components/shared/SimpleDatePicker'
@@ -28,6 +30,8 @@ export default function AddPaymentScreen() {
   const [amount, setAmount] = useState(params.amount || '')
   const [paymentDate, setPaymentDate] = useState(formatDateLocal(new Date()))
   const [method, setMethod] = useState('')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [snackbarVisible, setSnackbarVisible] = useState(false)
   const [snackbarMessage, setSnackbarMessage] = useState('')
@@ -44,6 +48,11 @@ export default function AddPaymentScreen() {
     limit: 1000, // Get all active students for search
   })
   const createMutation = useCreatePayment()
+  const { data: methods } = usePaymentMethods()
+
+  // Cash in hand has no reference unless the admin made it required
+  const selectedMethod = findPaymentMethod(method, methods)
+  const showReference = !!selectedMethod && (selectedMethod.requiresReference || !selectedMethod.cashInHand)
 
   const allStudents = studentsData?.students || []
   const selectedStudent = allStudents.find((s) => s.id === parseInt(selectedStudentId))
@@ -80,14 +89,10 @@ export default function AddPaymentScreen() {
 
     if (!method) {
       newErrors.method = 'Please select a payment method'
-    }
-
-    // Validate payment doesn't exceed balance
-    if (selectedStudent && amount) {
-      const amountNum = parseFloat(amount)
-      const currentBalance = Number(selectedStudent.balance)
-      if (amountNum > currentBalance) {
-        newErrors.amount = `Amount exceeds remaining balance (₹${currentBalance.toFixed(2)}). Maximum allowed: ₹${currentBalance.toFixed(2)}`
+    } else {
+      const referenceError = validatePaymentReference(method, reference, methods)
+      if (referenceError) {
+        newErrors.reference = referenceError
       }
     }
 
@@ -104,6 +109,8 @@ export default function AddPaymentScreen() {
         amount: parseFloat(amount),
         paymentDate,
         method,
+        reference: showReference ? reference : null,
+        notes,
       })
 
       setSnackbarMessage('✅ Payment recorded successfully!')
@@ -283,6 +290,7 @@ export default function AddPaymentScreen() {
               paid: Number(selectedStudent.paid),
               balance: Number(selectedStudent.balance),
               price: Number(selectedStudent.price),
+              guestCharges: Number(selectedStudent.guestCharges || 0),
             }}
           />
         )}
@@ -347,6 +355,14 @@ export default function AddPaymentScreen() {
                 </Text>
               </View>
             )}
+            {!errors.amount && selectedStudent && parseFloat(amount) > Number(selectedStudent.balance) && (
+              <View style={styles.errorContainer}>
+                <MaterialCommunityIcons name="information" size={16} color="#10B981" />
+                <Text variant="bodySmall" style={styles.creditHint}>
+                  ₹{(parseFloat(amount) - Number(selectedStudent.balance)).toFixed(2)} more than the balance will be kept as credit
+                </Text>
+              </View>
+            )}
           </Card.Content>
         </Card>
 
@@ -393,6 +409,45 @@ export default function AddPaymentScreen() {
               }}
               error={errors.method}
             />
+            {showReference && (
+              <TextInput
+                label={
+                  selectedMethod?.requiresReference
+                    ? 'Reference / UTR / Cheque No. *'
+                    : 'UTR / Transaction ID (optional)'
+                }
+                value={reference}
+                onChangeText={(text) => {
+                  setReference(text)
+                  if (errors.reference) {
+                    setErrors({ ...errors, reference: '' })
+                  }
+                }}
+                mode="outlined"
+                autoCapitalize="characters"
+                style={[styles.input, styles.referenceInput]}
+                outlineStyle={styles.inputOutline}
+                error={!!errors.reference}
+              />
+            )}
+            {showReference && errors.reference && (
+              <View style={styles.errorContainer}>
+                <MaterialCommunityIcons name="alert-circle" size={16} color="#EF4444" />
+                <Text variant="bodySmall" style={styles.error}>
+                  {errors.reference}
+                </Text>
+              </View>
+            )}
+            <TextInput
+              label="Notes (optional)"
+              value={notes}
+              onChangeText={setNotes}
+              mode="outlined"
+              multiline
+              maxLength={500}
+              style={[styles.input, styles.referenceInput]}
+              outlineStyle={styles.inputOutline}
+            />
           </Card.Content>
         </Card>
 
@@ -555,6 +610,13 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     borderWidth: 1.5,
   },
+  referenceInput: {
+    marginTop: 16,
+  },
+  creditHint: {
+    color: '#10B981',
+    flex: 1,
+  },
   errorContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -6,6 +6,7 @@ import { useRouter } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useCreatePlan } from '@/hooks/usePlans'
 import { MealSelector, type MealSelection } from '@/components/plans/MealSelector'
+import { serializePlanMeals } from '@/lib/meal-schedule'
 
 export default function AddPlanScreen() {
   const router = useRouter()
@@ -18,11 +19,7 @@ export default function AddPlanScreen() {
     durationDays: '',
   })
 
-  const [selectedMeals, setSelectedMeals] = useState<MealSelection>({
-    breakfast: false,
-    lunch: false,
-    dinner: false,
-  })
+  const [selectedMeals, setSelectedMeals] = useState<MealSelection>([])
 
   const [errors, setErrors] = useState<{
     name?: string
@@ -33,13 +30,6 @@ export default function AddPlanScreen() {
   const [snackbarVisible, setSnackbarVisible] = useState(false)
   const [snackbarMessage, setSnackbarMessage] = useState('')
 
-  const updateMealsString = (meals: MealSelection): string => {
-    return Object.entries(meals)
-      .filter(([_, checked]) => checked)
-      .map(([key]) => key.charAt(0).toUpperCase() + key.slice(1))
-      .join(', ')
-  }
-
   const handleSubmit = async () => {
     const newErrors: typeof errors = {}
 
@@ -49,7 +39,7 @@ export default function AddPlanScreen() {
     }
 
     // Validate meals
-    if (!selectedMeals.breakfast && !selectedMeals.lunch && !selectedMeals.dinner) {
+    if (selectedMeals.length === 0) {
       newErrors.meals = 'Please select at least one meal'
     }
 
@@ -75,7 +65,7 @@ export default function AddPlanScreen() {
     setErrors({})
 
     try {
-      const mealsString = updateMealsString(selectedMeals)
+      const mealsString = serializePlanMeals(selectedMeals)
       const plan = await createMutation.mutateAsync({
         name: formData.name.trim(),
         meals: mealsString,
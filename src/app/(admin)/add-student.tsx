@@ -5,8 +5,11 @@ import { useRouter } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useCreateStudent, useSendCredentialsEmail } from '@/hooks/useStudents'
 import { usePlans } from '@/hooks/usePlans'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { validatePaymentMethodChoice } from '@/lib/payment-methods'
 import { CredentialsDisplay } from '@/components/students/CredentialsDisplay'
 import { SimpleDatePicker } from '@/components/shared/SimpleDatePicker'
+import { PaymentMethodFields } from '@/components/payments/PaymentMethodFields'
 import { format } from 'date-fns'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 
@@ -25,6 +28,7 @@ export default function AddStudentScreen() {
   const sendEmailMutation = useSendCredentialsEmail()
   const { data: plansData } = usePlans()
   const plans = plansData?.plans || []
+  const { data: paymentMethods } = usePaymentMethods()
 
   const [formData, setFormData] = useState({
     name: '',
@@ -34,6 +38,8 @@ export default function AddStudentScreen() {
     joinDate: formatDateLocal(new Date()),
     endDate: '',
     paid: '',
+    method: '',
+    reference: '',
   })
 
   const [selectedPlan, setSelectedPlan] = useState<typeof plans[0] | null>(null)
@@ -123,6 +129,13 @@ export default function AddStudentScreen() {
       }
     }
 
+    if ((parseFloat(formData.paid) || 0) > 0) {
+      const methodError = validatePaymentMethodChoice(formData.method, formData.reference, paymentMethods)
+      if (methodError) {
+        newErrors.method = methodError
+      }
+    }
+
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors)
       return
@@ -146,6 +159,8 @@ export default function AddStudentScreen() {
         joinDate: formData.joinDate,
         endDate: formatDateLocal(endDate),
         paid: parseFloat(formData.paid) || 0,
+        method: formData.method || undefined,
+        reference: formData.reference.trim() || null,
       })
 
       // Automatically send credentials email after successful creation
@@ -507,6 +522,25 @@ export default function AddStudentScreen() {
                 </TouchableOpacity>
               ))}
             </View>
+            {(parseFloat(formData.paid) || 0) > 0 && (
+              <PaymentMethodFields
+                method={formData.method}
+                reference={formData.reference}
+                onChangeMethod={(method) => {
+                  setFormData({ ...formData, method })
+                  if (errors.method) {
+                    setErrors({ ...errors, method: '' })
+                  }
+                }}
+                onChangeReference={(reference) => {
+                  setFormData({ ...formData, reference })
+                  if (errors.method) {
+                    setErrors({ ...errors, method: '' })
+                  }
+                }}
+                error={errors.method}
+              />
+            )}
           </Card.Content>
         </Card>
 
@@ -12,37 +12,50 @@ import {
 } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useAttendanceView, useMarkAttendance, useUpdateAttendance, useDeleteAttendance, useMarkBulkAttendance } from '@/hooks/useAttendance'
-import { getCurrentMeal } from '@/lib/attendance'
+import { getCurrentMeal, getCachedMealSchedule, getMealName, type MealKey } from '@/lib/meal-schedule'
+import { isMealMarked } from '@/lib/attendance'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
 import { MealSelector } from '@/components/attendance/MealSelector'
 import { EnhancedStudentCard } from '@/components/attendance/EnhancedStudentCard'
 import { QuickFiltersBar, MealFilter, StatusFilter } from '@/components/attendance/QuickFiltersBar'
 import { BulkMarkModal } from '@/components/attendance/BulkMarkModal'
+import { PinPadModal } from '@/components/attendance/PinPadModal'
+import { GuestMealModal } from '@/components/attendance/GuestMealModal'
+import { AttendanceHistoryModal } from '@/components/attendance/AttendanceHistoryModal'
 import { EditAttendanceModal } from '@/components/attendance/EditAttendanceModal'
 import { SimpleDatePicker } from '@/components/shared/SimpleDatePicker'
-import { ConfirmDialog } from '@/components/shared/ConfirmDialog'
+import { ReasonDialog } from '@/components/shared/ReasonDialog'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 
 export default function AttendanceScreen() {
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0])
-  const [selectedMeal, setSelectedMeal] = useState<'breakfast' | 'lunch' | 'dinner' | null>(
-    getCurrentMeal()
+  const [selectedMeal, setSelectedMeal] = useState<MealKey | null>(
+    () => getCurrentMeal(getCachedMealSchedule())
   )
   const [searchQuery, setSearchQuery] = useState('')
   const [mealFilter, setMealFilter] = useState<MealFilter>('all')
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
   const [refreshing, setRefreshing] = useState(false)
   const [bulkMarkVisible, setBulkMarkVisible] = useState(false)
+  const [pinPadVisible, setPinPadVisible] = useState(false)
+  const [guestMealVisible, setGuestMealVisible] = useState(false)
   const [editModalVisible, setEditModalVisible] = useState(false)
   const [deleteConfirmVisible, setDeleteConfirmVisible] = useState(false)
   const [selectedStudent, setSelectedStudent] = useState<any>(null)
   const [deleteId, setDeleteId] = useState<number | null>(null)
+  const [pendingUnmark, setPendingUnmark] = useState<{ student: any; meal: MealKey } | null>(null)
+  const [pendingMark, setPendingMark] = useState<{ student: any; meals: MealKey[] } | null>(null)
+  const [pendingBulkMark, setPendingBulkMark] = useState<{ studentIds: number[]; meal: MealKey } | null>(null)
+  const [unmarkAllVisible, setUnmarkAllVisible] = useState(false)
+  const [historyStudent, setHistoryStudent] = useState<any>(null)
   const [snackbarVisible, setSnackbarVisible] = useState(false)
   const [snackbarMessage, setSnackbarMessage] = useState('')
-  const [mealLoading, setMealLoading] = useState<'breakfast' | 'lunch' | 'dinner' | null>(null)
+  const [mealLoading, setMealLoading] = useState<MealKey | null>(null)
   const [showMealSelector, setShowMealSelector] = useState(true)
   const [showSearchResults, setShowSearchResults] = useState(false)
 
   const { data: attendanceView, isLoading, refetch } = useAttendanceView(selectedDate, selectedMeal)
+  const { data: mealSchedule } = useMealSchedule()
   const markMutation = useMarkAttendance()
   const updateMutation = useUpdateAttendance()
   const deleteMutation = useDeleteAttendance()
@@ -56,15 +69,9 @@ export default function AttendanceScreen() {
 
   // Get status for a student
   const getStudentStatus = (student: any): 'full' | 'partial' | 'none' => {
-    const { breakfast, lunch, dinner } = student.attendance
-    const planMeals = student.plan.meals.map((m: string) => m.toLowerCase())
+    const eligibleMeals = student.plan.meals as MealKey[]
     
-    const eligibleMeals = []
-    if (planMeals.some(m => m.includes('breakfast'))) eligibleMeals.push(breakfast)
-    if (planMeals.some(m => m.includes('lunch'))) eligibleMeals.push(lunch)
-    if (planMeals.some(m => m.includes('dinner'))) eligibleMeals.push(dinner)
-    
-    const mealCount = eligibleMeals.filter(Boolean).length
+    const mealCount = eligibleMeals.filter((meal) => isMealMarked(student.attendance.marks, meal)).length
     const totalEligibleMeals = eligibleMeals.length
     
     if (mealCount === totalEligibleMeals && totalEligibleMeals > 0) return 'full'
@@ -73,21 +80,31 @@ export default function AttendanceScreen() {
   }
 
   // Check if student has meal marked
-  const hasMealMarked = (student: any, meal: 'breakfast' | 'lunch' | 'dinner' | null) => {
+  const hasMealMarked = (student: any, meal: MealKey | null) => {
     if (!meal) return false
-    return student.attendance[meal]
+    return isMealMarked(student.attendance.marks, meal)
+  }
+
+  // Check if student has any meal marked
+  const hasAnyMealMarked = (student: any) => {
+    return Object.keys(student.attendance.marks).length > 0
   }
 
   // Check if student is eligible for meal
-  const isEligibleForMeal = (student: any, meal: 'breakfast' | 'lunch' | 'dinner') => {
-    return student.plan.meals.some((m: string) => m.toLowerCase().includes(meal))
+  const isEligibleForMeal = (student: any, meal: MealKey) => {
+    return student.plan.meals.includes(meal)
   }
 
   // Search results - only when typing (Instagram-style)
   const searchResults = useMemo(() => {
     if (!attendanceView || !searchQuery.trim()) return []
     
-    const allStudents = [...attendanceView.students.present, ...attendanceView.students.missing]
+    // Students on leave can still be found and marked if they turn up
+    const allStudents = [
+      ...attendanceView.students.present,
+      ...attendanceView.students.missing,
+      ...attendanceView.students.onLeave,
+    ]
     const query = searchQuery.toLowerCase()
     return allStudents.filter((student) =>
       student.name.toLowerCase().includes(query) ||
@@ -129,9 +146,7 @@ export default function AttendanceScreen() {
       })
     } else if (!selectedMeal && mealFilter !== 'all') {
       filtered = filtered.filter((student) => {
-        const hasAny = student.attendance.breakfast || 
-                      student.attendance.lunch || 
-                      student.attendance.dinner
+        const hasAny = hasAnyMealMarked(student)
         
         if (mealFilter === 'present') return hasAny
         if (mealFilter === 'missing') return !hasAny
@@ -150,32 +165,48 @@ export default function AttendanceScreen() {
     return filtered
   }, [attendanceView, searchQuery, mealFilter, statusFilter, selectedMeal])
 
-  const handleToggleMeal = async (student: any, meal: 'breakfast' | 'lunch' | 'dinner') => {
+  const handleToggleMeal = async (student: any, meal: MealKey) => {
     if (!isEligibleForMeal(student, meal)) {
-      setSnackbarMessage(`Student plan does not include ${meal.charAt(0).toUpperCase() + meal.slice(1)}`)
+      setSnackbarMessage(`Student plan does not include ${getMealName(meal)}`)
       setSnackbarVisible(true)
       return
     }
 
-    setMealLoading(meal)
-    const currentStatus = student.attendance[meal]
-    
+    // Unmarking changes a recorded meal, so ask why first
+    if (hasMealMarked(student, meal)) {
+      setPendingUnmark({ student, meal })
+      return
+    }
+
+    setPendingMark({ student, meals: [meal] })
+  }
+
+  // Manual marks are logged in the attendance history, so they need a reason too
+  const confirmMark = async (reason: string) => {
+    if (!pendingMark) return
+    const { student, meals } = pendingMark
+
+    if (meals.length === 1) {
+      setMealLoading(meals[0])
+    }
     try {
-      if (student.attendance.id && student.attendance.id > 0) {
-        await updateMutation.mutateAsync({
-          id: student.attendance.id,
-          data: { [meal]: !currentStatus },
-        })
-      } else {
-        await markMutation.mutateAsync({
-          studentId: student.studentId,
-          date: selectedDate,
-          [meal]: !currentStatus,
-        })
-      }
-      
+      const attendanceData: Partial<Record<MealKey, boolean>> = {}
+      meals.forEach(meal => {
+        attendanceData[meal] = true
+      })
+
+      await markMutation.mutateAsync({
+        studentId: student.studentId,
+        date: selectedDate,
+        meals: attendanceData,
+        reason,
+      })
+
+      setPendingMark(null)
       await refetch()
-      setSnackbarMessage(`${meal.charAt(0).toUpperCase() + meal.slice(1)} attendance ${!currentStatus ? 'marked' : 'unmarked'}`)
+      setSnackbarMessage(meals.length === 1
+        ? `${getMealName(meals[0])} attendance marked`
+        : `Marked ${meals.length} meals for ${student.name}`)
       setSnackbarVisible(true)
     } catch (error: any) {
       setSnackbarMessage(error.message || 'Failed to mark attendance')
@@ -185,10 +216,34 @@ export default function AttendanceScreen() {
     }
   }
 
+  const confirmUnmark = async (reason: string) => {
+    if (!pendingUnmark) return
+    const { student, meal } = pendingUnmark
+
+    setMealLoading(meal)
+    try {
+      await updateMutation.mutateAsync({
+        id: student.attendance.id,
+        data: { [meal]: false },
+        reason,
+      })
+
+      setPendingUnmark(null)
+      await refetch()
+      setSnackbarMessage(`${getMealName(meal)} attendance unmarked`)
+      setSnackbarVisible(true)
+    } catch (error: any) {
+      setSnackbarMessage(error.message || 'Failed to unmark attendance')
+      setSnackbarVisible(true)
+    } finally {
+      setMealLoading(null)
+    }
+  }
+
   const handleMarkAll = async (student: any) => {
-    const eligibleMeals = (['breakfast', 'lunch', 'dinner'] as const).filter(m => 
-      isEligibleForMeal(student, m)
-    )
+    const eligibleMeals = mealSchedule.mealTypes
+      .map((type) => type.key)
+      .filter((meal) => isEligibleForMeal(student, meal))
 
     if (eligibleMeals.length === 0) {
       setSnackbarMessage('Student has no eligible meals in their plan')
@@ -196,7 +251,7 @@ export default function AttendanceScreen() {
       return
     }
 
-    const mealsToMark = eligibleMeals.filter(meal => !student.attendance[meal])
+    const mealsToMark = eligibleMeals.filter(meal => !hasMealMarked(student, meal))
 
     if (mealsToMark.length === 0) {
       setSnackbarMessage('All eligible meals are already marked')
@@ -204,32 +259,7 @@ export default function AttendanceScreen() {
       return
     }
 
-    try {
-      const attendanceData: { breakfast?: boolean; lunch?: boolean; dinner?: boolean } = {}
-      mealsToMark.forEach(meal => {
-        attendanceData[meal] = true
-      })
-
-      if (student.attendance.id && student.attendance.id > 0) {
-        await updateMutation.mutateAsync({
-          id: student.attendance.id,
-          data: attendanceData,
-        })
-      } else {
-        await markMutation.mutateAsync({
-          studentId: student.studentId,
-          date: selectedDate,
-          ...attendanceData,
-        })
-      }
-      
-      await refetch()
-      setSnackbarMessage(`Marked ${mealsToMark.length} meal${mealsToMark.length !== 1 ? 's' : ''} for ${student.name}`)
-      setSnackbarVisible(true)
-    } catch (error: any) {
-      setSnackbarMessage(error.message || 'Failed to mark attendance')
-      setSnackbarVisible(true)
-    }
+    setPendingMark({ student, meals: mealsToMark })
   }
 
   const handleEdit = (student: any) => {
@@ -237,26 +267,18 @@ export default function AttendanceScreen() {
     setEditModalVisible(true)
   }
 
-  const handleSaveEdit = async (data: { breakfast: boolean; lunch: boolean; dinner: boolean }) => {
+  const handleSaveEdit = async (data: Record<MealKey, boolean>, reason: string) => {
     if (!selectedStudent) {
       setSnackbarMessage('No student selected')
       setSnackbarVisible(true)
       return
     }
 
-    const planMeals = selectedStudent.plan.meals.map((m: string) => m.toLowerCase())
-    if (data.breakfast && !planMeals.some(m => m.includes('breakfast'))) {
-      setSnackbarMessage('Student plan does not include Breakfast')
-      setSnackbarVisible(true)
-      return
-    }
-    if (data.lunch && !planMeals.some(m => m.includes('lunch'))) {
-      setSnackbarMessage('Student plan does not include Lunch')
-      setSnackbarVisible(true)
-      return
-    }
-    if (data.dinner && !planMeals.some(m => m.includes('dinner'))) {
-      setSnackbarMessage('Student plan does not include Dinner')
+    const ineligibleMeal = Object.keys(data).find(
+      (meal) => data[meal] && !isEligibleForMeal(selectedStudent, meal)
+    )
+    if (ineligibleMeal) {
+      setSnackbarMessage(`Student plan does not include ${getMealName(ineligibleMeal)}`)
       setSnackbarVisible(true)
       return
     }
@@ -266,14 +288,14 @@ export default function AttendanceScreen() {
         await updateMutation.mutateAsync({
           id: selectedStudent.attendance.id,
           data,
+          reason,
         })
       } else {
         await markMutation.mutateAsync({
           studentId: selectedStudent.studentId,
           date: selectedDate,
-          breakfast: data.breakfast,
-          lunch: data.lunch,
-          dinner: data.dinner,
+          meals: data,
+          reason,
         })
       }
       
@@ -298,7 +320,7 @@ export default function AttendanceScreen() {
     setDeleteConfirmVisible(true)
   }
 
-  const confirmDelete = async () => {
+  const confirmDelete = async (reason: string) => {
     if (!deleteId || deleteId <= 0) {
       setSnackbarMessage('No attendance record selected for deletion')
       setSnackbarVisible(true)
@@ -308,7 +330,7 @@ export default function AttendanceScreen() {
     }
 
     try {
-      await deleteMutation.mutateAsync({ id: deleteId, date: selectedDate })
+      await deleteMutation.mutateAsync({ id: deleteId, date: selectedDate, reason })
       await refetch()
       setDeleteConfirmVisible(false)
       setDeleteId(null)
@@ -331,26 +353,35 @@ export default function AttendanceScreen() {
     let mealToUse = selectedMeal
     
     if (!mealToUse) {
-      const currentMeal = getCurrentMeal()
+      const currentMeal = getCurrentMeal(mealSchedule)
       if (currentMeal) {
         mealToUse = currentMeal
         setSelectedMeal(currentMeal)
       } else {
-        mealToUse = 'breakfast'
-        setSelectedMeal('breakfast')
+        mealToUse = mealSchedule.mealTypes[0].key
+        setSelectedMeal(mealToUse)
       }
     }
 
+    setPendingBulkMark({ studentIds, meal: mealToUse })
+  }
+
+  const confirmBulkMark = async (reason: string) => {
+    if (!pendingBulkMark) return
+    const { studentIds, meal } = pendingBulkMark
+
     try {
       await bulkMarkMutation.mutateAsync({
         studentIds,
         date: selectedDate,
-        meal: mealToUse,
+        meal,
+        reason,
       })
-      
+
+      setPendingBulkMark(null)
       await refetch()
       setBulkMarkVisible(false)
-      setSnackbarMessage(`Marked ${studentIds.length} student${studentIds.length !== 1 ? 's' : ''} for ${mealToUse.charAt(0).toUpperCase() + mealToUse.slice(1)}`)
+      setSnackbarMessage(`Marked ${studentIds.length} student${studentIds.length !== 1 ? 's' : ''} for ${getMealName(meal)}`)
       setSnackbarVisible(true)
     } catch (error: any) {
       setSnackbarMessage(error.message || 'Failed to mark attendance')
@@ -381,44 +412,52 @@ export default function AttendanceScreen() {
     await handleBulkMark(studentIds)
   }
 
-  const handleMarkAllPresent = async () => {
+  // Students currently marked for the selected meal
+  const getPresentStudents = (meal: MealKey) =>
+    filteredStudents.filter(student => isEligibleForMeal(student, meal) && hasMealMarked(student, meal))
+
+  const handleMarkAllPresent = () => {
     if (!selectedMeal) {
       setSnackbarMessage('Please select a meal first')
       setSnackbarVisible(true)
       return
     }
 
-    const presentStudents = filteredStudents.filter(student => {
-      const isEligible = isEligibleForMeal(student, selectedMeal)
-      const hasMeal = hasMealMarked(student, selectedMeal)
-      return isEligible && hasMeal
-    })
-
-    if (presentStudents.length === 0) {
+    if (getPresentStudents(selectedMeal).length === 0) {
       setSnackbarMessage('No students are currently marked for this meal')
       setSnackbarVisible(true)
       return
     }
 
+    setUnmarkAllVisible(true)
+  }
+
+  const confirmUnmarkAll = async (reason: string) => {
+    if (!selectedMeal) return
+    const presentStudents = getPresentStudents(selectedMeal)
+
     try {
       const promises = presentStudents.map(async (student) => {
         if (student.attendance.id && student.attendance.id > 0) {
           return updateMutation.mutateAsync({
             id: student.attendance.id,
             data: { [selectedMeal]: false },
+            reason,
           })
         } else {
           return markMutation.mutateAsync({
             studentId: student.studentId,
             date: selectedDate,
-            [selectedMeal]: false,
+            meals: { [selectedMeal]: false },
+            reason,
           })
         }
       })
 
       await Promise.all(promises)
+      setUnmarkAllVisible(false)
       await refetch()
-      setSnackbarMessage(`Unmarked ${presentStudents.length} student${presentStudents.length !== 1 ? 's' : ''} for ${selectedMeal.charAt(0).toUpperCase() + selectedMeal.slice(1)}`)
+      setSnackbarMessage(`Unmarked ${presentStudents.length} student${presentStudents.length !== 1 ? 's' : ''} for ${getMealName(selectedMeal)}`)
       setSnackbarVisible(true)
     } catch (error: any) {
       setSnackbarMessage(error.message || 'Failed to unmark attendance')
@@ -444,10 +483,11 @@ export default function AttendanceScreen() {
   // Calculate stats
   const totalStudents = filteredStudents.length
   const missingCount = filteredStudents.filter(s => {
-    if (!selectedMeal) return !(s.attendance.breakfast || s.attendance.lunch || s.attendance.dinner)
+    if (!selectedMeal) return !hasAnyMealMarked(s)
     return isEligibleForMeal(s, selectedMeal) && !hasMealMarked(s, selectedMeal)
   }).length
   const presentCount = totalStudents - missingCount
+  const onLeaveCount = attendanceView?.students.onLeave.length ?? 0
 
   return (
     <KeyboardAvoidingView
@@ -464,17 +504,38 @@ export default function AttendanceScreen() {
             </Text>
             <Text variant="bodySmall" style={styles.subtitle}>
               {totalStudents} students • {presentCount} present • {missingCount} missing
+              {onLeaveCount > 0 ? ` • ${onLeaveCount} on leave` : ''}
             </Text>
           </View>
-          <Button
-            mode="text"
-            icon={showMealSelector ? 'chevron-up' : 'chevron-down'}
-            onPress={() => setShowMealSelector(!showMealSelector)}
-            textColor="#7B2CBF"
-            compact
-          >
-            {showMealSelector ? 'Hide' : 'Meals'}
-          </Button>
+          <View style={styles.headerActions}>
+            <Button
+              mode="text"
+              icon="dialpad"
+              onPress={() => setPinPadVisible(true)}
+              textColor="#7B2CBF"
+              compact
+            >
+              PIN
+            </Button>
+            <Button
+              mode="text"
+              icon="account-multiple-plus-outline"
+              onPress={() => setGuestMealVisible(true)}
+              textColor="#7B2CBF"
+              compact
+            >
+              Guests
+            </Button>
+            <Button
+              mode="text"
+              icon={showMealSelector ? 'chevron-up' : 'chevron-down'}
+              onPress={() => setShowMealSelector(!showMealSelector)}
+              textColor="#7B2CBF"
+              compact
+            >
+              {showMealSelector ? 'Hide' : 'Meals'}
+            </Button>
+          </View>
         </View>
       </View>
 
@@ -551,7 +612,7 @@ export default function AttendanceScreen() {
               <MealSelector
                 selectedMeal={selectedMeal}
                 onSelectMeal={setSelectedMeal}
-                stats={attendanceView.stats}
+                stats={attendanceView.stats.meals}
               />
             </Card.Content>
           </Card>
@@ -682,6 +743,7 @@ export default function AttendanceScreen() {
                   onMarkAll={() => handleMarkAll(student)}
                   onEdit={() => handleEdit(student)}
                   onDelete={() => handleDelete(student)}
+                  onHistory={() => setHistoryStudent(student)}
                   loading={markMutation.isPending || updateMutation.isPending}
                   mealLoading={mealLoading}
                 />
@@ -726,11 +788,11 @@ export default function AttendanceScreen() {
                 icon="account-multiple-plus"
                 onPress={() => {
                   if (!selectedMeal) {
-                    const currentMeal = getCurrentMeal()
+                    const currentMeal = getCurrentMeal(mealSchedule)
                     if (currentMeal) {
                       setSelectedMeal(currentMeal)
                     } else {
-                      setSelectedMeal('breakfast')
+                      setSelectedMeal(mealSchedule.mealTypes[0].key)
                     }
                   }
                   setBulkMarkVisible(true)
@@ -758,12 +820,39 @@ export default function AttendanceScreen() {
             if (!selectedMeal) return true
             return isEligibleForMeal(s, selectedMeal) && !hasMealMarked(s, selectedMeal)
           })}
-          currentMeal={selectedMeal || 'breakfast'}
+          currentMeal={selectedMeal || mealSchedule.mealTypes[0].key}
           onMark={handleBulkMark}
           loading={bulkMarkMutation.isPending}
         />
       )}
 
+      {/* Roll number + PIN entry for students without their phone */}
+      <PinPadModal
+        visible={pinPadVisible}
+        onDismiss={() => setPinPadVisible(false)}
+      />
+
+      {/* Guests charged to a host student */}
+      <GuestMealModal
+        visible={guestMealVisible}
+        onDismiss={() => setGuestMealVisible(false)}
+        date={selectedDate}
+        students={
+          attendanceView
+            ? [
+                ...attendanceView.students.present,
+                ...attendanceView.students.missing,
+                ...attendanceView.students.onLeave,
+              ]
+            : []
+        }
+        initialMeal={selectedMeal}
+        onRecorded={(message) => {
+          setSnackbarMessage(message)
+          setSnackbarVisible(true)
+        }}
+      />
+
       {/* Edit Modal */}
       <EditAttendanceModal
         visible={editModalVisible}
@@ -778,10 +867,10 @@ export default function AttendanceScreen() {
       />
 
       {/* Delete Confirmation */}
-      <ConfirmDialog
+      <ReasonDialog
         visible={deleteConfirmVisible}
         title="Delete Attendance"
-        message="Are you sure you want to delete this attendance record? This action cannot be undone."
+        message="Are you sure you want to delete this attendance record? The meals marked and your reason are kept in the attendance history."
         confirmLabel="Delete"
         cancelLabel="Cancel"
         onConfirm={confirmDelete}
@@ -793,6 +882,68 @@ export default function AttendanceScreen() {
         confirmColor="#EF4444"
       />
 
+      {/* Marking one or more meals for a student */}
+      <ReasonDialog
+        visible={!!pendingMark}
+        title="Mark Attendance"
+        message={pendingMark
+          ? `Mark ${pendingMark.meals.map((meal) => getMealName(meal)).join(', ')} for ${pendingMark.student.name}?`
+          : ''}
+        confirmLabel="Mark"
+        onConfirm={confirmMark}
+        onCancel={() => setPendingMark(null)}
+        loading={markMutation.isPending}
+        confirmColor="#10B981"
+      />
+
+      {/* Marking a meal for several students */}
+      <ReasonDialog
+        visible={!!pendingBulkMark}
+        title="Mark Attendance"
+        message={pendingBulkMark
+          ? `Mark ${getMealName(pendingBulkMark.meal)} for ${pendingBulkMark.studentIds.length} student${pendingBulkMark.studentIds.length !== 1 ? 's' : ''}?`
+          : ''}
+        confirmLabel="Mark"
+        onConfirm={confirmBulkMark}
+        onCancel={() => setPendingBulkMark(null)}
+        loading={bulkMarkMutation.isPending}
+        confirmColor="#10B981"
+      />
+
+      {/* Unmarking a single meal */}
+      <ReasonDialog
+        visible={!!pendingUnmark}
+        title={`Unmark ${pendingUnmark ? getMealName(pendingUnmark.meal) : ''}`}
+        message={`Remove ${pendingUnmark?.student.name ?? 'this student'}'s ${pendingUnmark ? getMealName(pendingUnmark.meal) : ''} attendance?`}
+        confirmLabel="Unmark"
+        onConfirm={confirmUnmark}
+        onCancel={() => setPendingUnmark(null)}
+        loading={updateMutation.isPending}
+        confirmColor="#EF4444"
+      />
+
+      {/* Unmark All */}
+      <ReasonDialog
+        visible={unmarkAllVisible}
+        title="Unmark All"
+        message={selectedMeal
+          ? `Remove ${getMealName(selectedMeal)} attendance for ${getPresentStudents(selectedMeal).length} students?`
+          : ''}
+        confirmLabel="Unmark All"
+        onConfirm={confirmUnmarkAll}
+        onCancel={() => setUnmarkAllVisible(false)}
+        loading={updateMutation.isPending || markMutation.isPending}
+        confirmColor="#EF4444"
+      />
+
+      {/* Manual changes for the student on this day */}
+      <AttendanceHistoryModal
+        visible={!!historyStudent}
+        onDismiss={() => setHistoryStudent(null)}
+        student={historyStudent}
+        date={selectedDate}
+      />
+
       {/* Snackbar */}
       <Snackbar
         visible={snackbarVisible}
@@ -826,6 +977,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   title: {
     fontWeight: '700',
     color: '#1A1A1A',
@@ -0,0 +1,347 @@
+import React, { useMemo, useState } from 'react'
+import { View, StyleSheet, ScrollView } from 'react-native'
+import { Text, Button, Card, Checkbox, ActivityIndicator, Snackbar } from 'react-native-paper'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format, parseISO } from 'date-fns'
+import { useLatestBalanceCheck, useRunBalanceCheck, useReconcileBalances } from '@/hooks/useReconciliation'
+import { ReasonDialog } from '@/components/shared/ReasonDialog'
+import { describeBalanceIssue, MAX_RECONCILE_STUDENTS, type BalanceDiscrepancy } from '@/lib/reconciliation'
+
+const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`
+
+// Only the figures that are off, as "stored → expected"
+const describeTotals = (discrepancy: BalanceDiscrepancy): string[] => {
+  const lines: string[] = []
+  if (discrepancy.storedPaid !== discrepancy.expectedPaid) {
+    lines.push(`Paid ${formatCurrency(discrepancy.storedPaid)} → ${formatCurrency(discrepancy.expectedPaid)}`)
+  }
+  if (discrepancy.storedBalance !== discrepancy.expectedBalance) {
+    lines.push(`Balance ${formatCurrency(discrepancy.storedBalance)} → ${formatCurrency(discrepancy.expectedBalance)}`)
+  }
+  if (discrepancy.storedCredit !== discrepancy.expectedCredit) {
+    lines.push(`Credit ${formatCurrency(discrepancy.storedCredit)} → ${formatCurrency(discrepancy.expectedCredit)}`)
+  }
+  return lines
+}
+
+export default function BalanceCheckScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const { data: run, isLoading, error } = useLatestBalanceCheck()
+  const runCheck = useRunBalanceCheck()
+  const reconcile = useReconcileBalances()
+
+  const [selected, setSelected] = useState<number[]>([])
+  const [reasonVisible, setReasonVisible] = useState(false)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  const discrepancies = useMemo(() => run?.discrepancies ?? [], [run])
+
+  const toggleSelection = (studentId: number) => {
+    setSelected((current) =>
+      current.includes(studentId) ? current.filter((id) => id !== studentId) : [...current, studentId]
+    )
+  }
+
+  const allSelected = discrepancies.length > 0 && selected.length === discrepancies.length
+
+  const handleRunCheck = async () => {
+    try {
+      const result = await runCheck.mutateAsync()
+      setSelected([])
+      setSnackbarMessage(
+        result.discrepancyCount === 0
+          ? `All ${result.studentsChecked} balances match their records`
+          : `${result.discrepancyCount} of ${result.studentsChecked} students need attention`
+      )
+    } catch (checkError: any) {
+      setSnackbarMessage(`⚠️ ${checkError?.message || 'Failed to check balances'}`)
+    }
+  }
+
+  const handleReconcile = async (reason: string) => {
+    try {
+      const results = await reconcile.mutateAsync({ studentIds: selected, reason })
+      setReasonVisible(false)
+
+      const failed = results.filter((result) => !result.success)
+      // Check again so the list shows what's left
+      await runCheck.mutateAsync()
+      setSelected([])
+      setSnackbarMessage(
+        failed.length === 0
+          ? `Reconciled ${results.length} ${results.length === 1 ? 'student' : 'students'}`
+          : `⚠️ ${failed.length} of ${results.length} could not be reconciled: ${failed[0].error || 'Unknown error'}`
+      )
+    } catch (reconcileError: any) {
+      setReasonVisible(false)
+      setSnackbarMessage(`⚠️ ${reconcileError?.message || 'Failed to reconcile balances'}`)
+    }
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Balance Check
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        {/* Last run */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Last Check
+            </Text>
+            {isLoading ? (
+              <ActivityIndicator color="#7B2CBF" />
+            ) : error ? (
+              <Text variant="bodySmall" style={styles.errorText}>
+                {(error as Error).message || 'Failed to load the last check'}
+              </Text>
+            ) : run ? (
+              <>
+                <Text variant="bodyMedium">
+                  {format(parseISO(run.ranAt), 'dd MMM yyyy, h:mm a')} •{' '}
+                  {run.source === 'scheduled' ? 'Nightly check' : `Run by ${run.ranByEmail || 'an admin'}`}
+                </Text>
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={styles.summaryValue}>
+                      {run.studentsChecked}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>Checked</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text
+                      variant="headlineSmall"
+                      style={[styles.summaryValue, run.discrepancyCount > 0 ? styles.errorText : styles.successText]}
+                    >
+                      {run.discrepancyCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>Don't match</Text>
+                  </View>
+                </View>
+              </>
+            ) : (
+              <Text variant="bodySmall" style={styles.muted}>
+                Balances haven't been checked yet
+              </Text>
+            )}
+            <Text variant="bodySmall" style={styles.hint}>
+              Compares each student's paid amount and balance with their plan terms, payments, guest meals and
+              statement entries.
+            </Text>
+            <Button
+              mode="contained"
+              icon="scale-balance"
+              onPress={handleRunCheck}
+              loading={runCheck.isPending}
+              disabled={runCheck.isPending || reconcile.isPending}
+              style={styles.primaryButton}
+              buttonColor="#7B2CBF"
+            >
+              Check Now
+            </Button>
+          </Card.Content>
+        </Card>
+
+        {/* Discrepancies */}
+        {discrepancies.length > 0 && (
+          <>
+            <View style={styles.listHeader}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Needs Attention
+              </Text>
+              <Button
+                mode="text"
+                compact
+                textColor="#7B2CBF"
+                onPress={() =>
+                  setSelected(allSelected ? [] : discrepancies.slice(0, MAX_RECONCILE_STUDENTS).map((item) => item.studentId))
+                }
+              >
+                {allSelected ? 'Clear' : 'Select All'}
+              </Button>
+            </View>
+
+            {discrepancies.map((discrepancy) => (
+              <Card key={discrepancy.studentId} style={styles.card}>
+                <Card.Content style={styles.row}>
+                  <Checkbox
+                    status={selected.includes(discrepancy.studentId) ? 'checked' : 'unchecked'}
+                    onPress={() => toggleSelection(discrepancy.studentId)}
+                    color="#7B2CBF"
+                  />
+                  <View style={styles.rowInfo}>
+                    <Text variant="bodyMedium" style={styles.rowName}>
+                      {discrepancy.name}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>
+                      {discrepancy.rollNumber || 'No roll number'}
+                    </Text>
+                    {describeTotals(discrepancy).map((line) => (
+                      <Text key={line} variant="bodySmall" style={styles.errorText}>
+                        {line}
+                      </Text>
+                    ))}
+                    {discrepancy.issues.map((issue) => (
+                      <Text key={`${issue.type}-${issue.recordId}`} variant="bodySmall" style={styles.issue}>
+                        • {describeBalanceIssue(issue)}
+                      </Text>
+                    ))}
+                    <Button
+                      mode="text"
+                      compact
+                      textColor="#7B2CBF"
+                      style={styles.viewButton}
+                      onPress={() => router.push(`/(admin)/student-detail?id=${discrepancy.studentId}`)}
+                    >
+                      View Statement
+                    </Button>
+                  </View>
+                </Card.Content>
+              </Card>
+            ))}
+
+            <Button
+              mode="contained"
+              onPress={() => setReasonVisible(true)}
+              disabled={selected.length === 0 || reconcile.isPending || runCheck.isPending}
+              loading={reconcile.isPending}
+              style={styles.primaryButton}
+              buttonColor="#7B2CBF"
+            >
+              Reconcile {selected.length} {selected.length === 1 ? 'Student' : 'Students'}
+            </Button>
+          </>
+        )}
+      </ScrollView>
+
+      <ReasonDialog
+        visible={reasonVisible}
+        title="Reconcile Balances"
+        message={`Rebuild the balance of ${selected.length} ${selected.length === 1 ? 'student' : 'students'} from their records. The before and after amounts are saved in the audit log.`}
+        confirmLabel="Reconcile"
+        confirmColor="#7B2CBF"
+        onConfirm={handleReconcile}
+        onCancel={() => setReasonVisible(false)}
+        loading={reconcile.isPending}
+      />
+
+      <Snackbar
+        visible={!!snackbarMessage}
+        onDismiss={() => setSnackbarMessage('')}
+        duration={4000}
+        action={{
+          label: 'Dismiss',
+          onPress: () => setSnackbarMessage(''),
+        }}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  muted: {
+    color: '#666',
+  },
+  hint: {
+    color: '#666',
+    marginTop: 6,
+  },
+  primaryButton: {
+    marginTop: 16,
+    borderRadius: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginVertical: 8,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  successText: {
+    color: '#10B981',
+  },
+  errorText: {
+    color: '#EF4444',
+  },
+  listHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowName: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  issue: {
+    color: '#1a1a1a',
+  },
+  viewButton: {
+    alignSelf: 'flex-start',
+    marginLeft: -8,
+  },
+})
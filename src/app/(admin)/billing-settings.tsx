@@ -0,0 +1,424 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native'
+import { Text, TextInput, Button, Card, Snackbar, ActivityIndicator } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format } from 'date-fns'
+import { useBillingSettings, useUpdateBillingSettings } from '@/hooks/useBilling'
+import {
+  DEFAULT_BILLING_SETTINGS,
+  formatDocumentNumber,
+  validateDocumentFormat,
+  type BillingSettings,
+} from '@/lib/billing'
+
+type BillingForm = Omit<BillingSettings, 'sequenceDigits' | 'fiscalYearStartMonth'> & {
+  sequenceDigits: string
+  fiscalYearStartMonth: string
+}
+
+const toForm = (settings: BillingSettings): BillingForm => ({
+  ...settings,
+  sequenceDigits: String(settings.sequenceDigits),
+  fiscalYearStartMonth: String(settings.fiscalYearStartMonth),
+})
+
+export default function BillingSettingsScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const { data: savedSettings = DEFAULT_BILLING_SETTINGS, isFetching } = useBillingSettings()
+  const updateMutation = useUpdateBillingSettings()
+
+  const [form, setForm] = useState<BillingForm>(toForm(savedSettings))
+  const [error, setError] = useState<string | null>(null)
+  const [snackbarVisible, setSnackbarVisible] = useState(false)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  // Reset the form whenever the saved settings load or change
+  useEffect(() => {
+    setForm(toForm(savedSettings))
+  }, [savedSettings])
+
+  const updateField = (field: keyof BillingForm, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }))
+    setError(null)
+  }
+
+  const digits = parseInt(form.sequenceDigits)
+  const startMonth = parseInt(form.fiscalYearStartMonth)
+  const today = format(new Date(), 'yyyy-MM-dd')
+
+  // What the next number would look like in a fresh series
+  const preview = (documentFormat: string) =>
+    validateDocumentFormat(documentFormat.trim()) ??
+    `e.g. ${formatDocumentNumber(
+      documentFormat.trim(),
+      today,
+      1,
+      isNaN(digits) ? DEFAULT_BILLING_SETTINGS.sequenceDigits : Math.min(Math.max(digits, 1), 8),
+      isNaN(startMonth) ? DEFAULT_BILLING_SETTINGS.fiscalYearStartMonth : Math.min(Math.max(startMonth, 1), 12)
+    )}`
+
+  const handleSave = async () => {
+    const sequenceDigits = parseInt(form.sequenceDigits)
+    const fiscalYearStartMonth = parseInt(form.fiscalYearStartMonth)
+    if (!form.messName.trim()) {
+      setError('Mess name is required')
+      return
+    }
+    if (isNaN(sequenceDigits) || sequenceDigits < 1 || sequenceDigits > 8) {
+      setError('Number digits must be between 1 and 8')
+      return
+    }
+    if (isNaN(fiscalYearStartMonth) || fiscalYearStartMonth < 1 || fiscalYearStartMonth > 12) {
+      setError('Financial year start must be a month from 1 to 12')
+      return
+    }
+
+    setError(null)
+
+    try {
+      await updateMutation.mutateAsync({ ...form, sequenceDigits, fiscalYearStartMonth })
+      setSnackbarMessage('Billing settings saved')
+      setSnackbarVisible(true)
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to save billing settings'
+      setError(errorMessage)
+      setSnackbarMessage(errorMessage)
+      setSnackbarVisible(true)
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Billing
+          </Text>
+          <View style={{ width: 60 }}>
+            {isFetching && <ActivityIndicator size="small" color="#7B2CBF" />}
+          </View>
+        </View>
+
+        {/* Mess Details */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Mess Details
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Printed at the top of every invoice and receipt
+            </Text>
+            <TextInput
+              label="Mess Name"
+              value={form.messName}
+              onChangeText={(text) => updateField('messName', text)}
+              mode="outlined"
+              style={styles.input}
+              outlineStyle={styles.inputOutline}
+            />
+            <TextInput
+              label="Address"
+              value={form.address}
+              onChangeText={(text) => updateField('address', text)}
+              mode="outlined"
+              multiline
+              numberOfLines={3}
+              style={styles.input}
+              outlineStyle={styles.inputOutline}
+            />
+            <View style={styles.row}>
+              <TextInput
+                label="Phone"
+                value={form.phone}
+                onChangeText={(text) => updateField('phone', text)}
+                mode="outlined"
+                keyboardType="phone-pad"
+                style={styles.halfInput}
+                outlineStyle={styles.inputOutline}
+              />
+              <TextInput
+                label="Email"
+                value={form.email}
+                onChangeText={(text) => updateField('email', text)}
+                mode="outlined"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                style={styles.halfInput}
+                outlineStyle={styles.inputOutline}
+              />
+            </View>
+            <TextInput
+              label="GSTIN (optional)"
+              value={form.taxId}
+              onChangeText={(text) => updateField('taxId', text)}
+              mode="outlined"
+              autoCapitalize="characters"
+              style={styles.input}
+              outlineStyle={styles.inputOutline}
+            />
+            <TextInput
+              label="Logo URL (optional)"
+              value={form.logoUrl}
+              onChangeText={(text) => updateField('logoUrl', text)}
+              mode="outlined"
+              autoCapitalize="none"
+              keyboardType="url"
+              placeholder="https://"
+              style={styles.input}
+              outlineStyle={styles.inputOutline}
+            />
+            <TextInput
+              label="Footer Note (optional)"
+              value={form.footerNote}
+              onChangeText={(text) => updateField('footerNote', text)}
+              mode="outlined"
+              multiline
+              style={styles.input}
+              outlineStyle={styles.inputOutline}
+            />
+          </Card.Content>
+        </Card>
+
+        {/* UPI */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              UPI
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Students see a UPI QR code and link for their balance, paid to this UPI ID in the mess name. Leave empty to turn UPI payments off.
+            </Text>
+            <TextInput
+              label="UPI ID (optional)"
+              value={form.upiVpa}
+              onChangeText={(text) => updateField('upiVpa', text)}
+              mode="outlined"
+              autoCapitalize="none"
+              keyboardType="email-address"
+              placeholder="messname@bank"
+              style={styles.input}
+              outlineStyle={styles.inputOutline}
+            />
+          </Card.Content>
+        </Card>
+
+        {/* Numbering */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Numbering
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Use {'{FY}'} for the financial year, {'{YYYY}'} for the year and {'{SEQ}'} for the running number.
+              Each financial year starts again from 1. Numbers already issued don't change.
+            </Text>
+            <TextInput
+              label="Invoice Format"
+              value={form.invoiceFormat}
+              onChangeText={(text) => updateField('invoiceFormat', text)}
+              mode="outlined"
+              autoCapitalize="characters"
+              style={styles.input}
+              outlineStyle={styles.inputOutline}
+            />
+            <Text variant="bodySmall" style={styles.preview}>
+              {preview(form.invoiceFormat)}
+            </Text>
+            <TextInput
+              label="Receipt Format"
+              value={form.receiptFormat}
+              onChangeText={(text) => updateField('receiptFormat', text)}
+              mode="outlined"
+              autoCapitalize="characters"
+              style={styles.input}
+              outlineStyle={styles.inputOutline}
+            />
+            <Text variant="bodySmall" style={styles.preview}>
+              {preview(form.receiptFormat)}
+            </Text>
+            <TextInput
+              label="Credit Note Format"
+              value={form.creditNoteFormat}
+              onChangeText={(text) => updateField('creditNoteFormat', text)}
+              mode="outlined"
+              autoCapitalize="characters"
+              style={styles.input}
+              outlineStyle={styles.inputOutline}
+            />
+            <Text variant="bodySmall" style={styles.preview}>
+              {preview(form.creditNoteFormat)}
+            </Text>
+            <View style={styles.row}>
+              <TextInput
+                label="Number Digits"
+                value={form.sequenceDigits}
+                onChangeText={(text) => updateField('sequenceDigits', text)}
+                mode="outlined"
+                keyboardType="number-pad"
+                style={styles.halfInput}
+                outlineStyle={styles.inputOutline}
+              />
+              <TextInput
+                label="FY Starts (month)"
+                value={form.fiscalYearStartMonth}
+                onChangeText={(text) => updateField('fiscalYearStartMonth', text)}
+                mode="outlined"
+                keyboardType="number-pad"
+                style={styles.halfInput}
+                outlineStyle={styles.inputOutline}
+              />
+            </View>
+          </Card.Content>
+        </Card>
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <MaterialCommunityIcons name="alert-circle" size={16} color="#EF4444" />
+            <Text variant="bodySmall" style={styles.error}>
+              {error}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Sticky Action Buttons */}
+      <View style={[styles.stickyButtonContainer, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.actions}>
+          <Button
+            mode="outlined"
+            onPress={() => router.back()}
+            style={styles.cancelButton}
+          >
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            loading={updateMutation.isPending}
+            disabled={updateMutation.isPending}
+            style={styles.submitButton}
+            buttonColor="#7B2CBF"
+          >
+            Save
+          </Button>
+        </View>
+      </View>
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={3000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    color: '#666',
+    marginBottom: 12,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 8,
+  },
+  halfInput: {
+    flex: 1,
+  },
+  inputOutline: {
+    borderWidth: 1,
+  },
+  preview: {
+    color: '#7B2CBF',
+    marginBottom: 12,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  error: {
+    color: '#EF4444',
+    fontSize: 13,
+    flex: 1,
+  },
+  stickyButtonContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: '#7B2CBF',
+  },
+})
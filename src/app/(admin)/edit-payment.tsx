@@ -4,6 +4,8 @@ import { Text, TextInput, Button, ActivityIndicator, Snackbar } from 'react-nati
 import { useRouter, useLocalSearchParams } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { usePayment, useUpdatePayment } from '@/hooks/usePayments'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { validatePaymentReference } from '@/lib/payment-methods'
 import { PaymentMethodSelector } from '@/components/payments/PaymentMethodSelector'
 import { StudentBalanceDisplay } from '@/components/payments/StudentBalanceDisplay'
 import { SimpleDatePicker } from '@/components/shared/SimpleDatePicker'
@@ -17,18 +19,23 @@ export default function EditPaymentScreen() {
   const [amount, setAmount] = useState('')
   const [paymentDate, setPaymentDate] = useState('')
   const [method, setMethod] = useState('')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [snackbarVisible, setSnackbarVisible] = useState(false)
   const [snackbarMessage, setSnackbarMessage] = useState('')
 
   const { data: payment, isLoading, error } = usePayment(paymentId)
   const updateMutation = useUpdatePayment()
+  const { data: methods } = usePaymentMethods()
 
   useEffect(() => {
     if (payment) {
       setAmount(payment.amount.toString())
       setPaymentDate(payment.paymentDate)
       setMethod(payment.method || '')
+      setReference(payment.reference || '')
+      setNotes(payment.notes || '')
     }
   }, [payment])
 
@@ -46,6 +53,11 @@ export default function EditPaymentScreen() {
 
     if (!method) {
       newErrors.method = 'Please select a payment method'
+    } else {
+      const referenceError = validatePaymentReference(method, reference, methods)
+      if (referenceError) {
+        newErrors.reference = referenceError
+      }
     }
 
     if (Object.keys(newErrors).length > 0) {
@@ -62,6 +74,8 @@ export default function EditPaymentScreen() {
           amount: parseFloat(amount),
           paymentDate,
           method,
+          reference,
+          notes,
         },
       })
 
@@ -219,6 +233,46 @@ export default function EditPaymentScreen() {
           error={errors.method}
         />
 
+        {/* Reference */}
+        <View style={[styles.section, styles.referenceSection]}>
+          <Text variant="labelLarge" style={styles.label}>
+            Reference / UTR / Cheque No.
+          </Text>
+          <TextInput
+            mode="outlined"
+            value={reference}
+            onChangeText={(text) => {
+              setReference(text)
+              if (errors.reference) {
+                setErrors({ ...errors, reference: '' })
+              }
+            }}
+            autoCapitalize="characters"
+            error={!!errors.reference}
+            style={styles.input}
+          />
+          {errors.reference && (
+            <Text variant="bodySmall" style={styles.error}>
+              {errors.reference}
+            </Text>
+          )}
+        </View>
+
+        {/* Notes */}
+        <View style={styles.section}>
+          <Text variant="labelLarge" style={styles.label}>
+            Notes
+          </Text>
+          <TextInput
+            mode="outlined"
+            value={notes}
+            onChangeText={setNotes}
+            multiline
+            maxLength={500}
+            style={styles.input}
+          />
+        </View>
+
       </ScrollView>
 
       {/* Sticky Submit Button */}
@@ -305,6 +359,9 @@ const styles = StyleSheet.create({
   input: {
     marginBottom: 4,
   },
+  referenceSection: {
+    marginTop: 16,
+  },
   error: {
     color: '#EF4444',
     marginTop: 4,
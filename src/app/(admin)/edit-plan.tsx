@@ -6,6 +6,7 @@ import { useRouter, useLocalSearchParams } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { usePlan, useUpdatePlan } from '@/hooks/usePlans'
 import { MealSelector, type MealSelection } from '@/components/plans/MealSelector'
+import { parsePlanMeals, serializePlanMeals } from '@/lib/meal-schedule'
 
 export default function EditPlanScreen() {
   const router = useRouter()
@@ -24,11 +25,7 @@ export default function EditPlanScreen() {
     durationDays: '',
   })
 
-  const [selectedMeals, setSelectedMeals] = useState<MealSelection>({
-    breakfast: false,
-    lunch: false,
-    dinner: false,
-  })
+  const [selectedMeals, setSelectedMeals] = useState<MealSelection>([])
 
   const [errors, setErrors] = useState<{
     name?: string
@@ -39,16 +36,6 @@ export default function EditPlanScreen() {
   const [snackbarVisible, setSnackbarVisible] = useState(false)
   const [snackbarMessage, setSnackbarMessage] = useState('')
 
-  // Parse meals string to checkboxes
-  const parseMealsToCheckboxes = (mealsString: string): MealSelection => {
-    const mealsLower = mealsString.toLowerCase()
-    return {
-      breakfast: mealsLower.includes('breakfast') || mealsLower.includes('b'),
-      lunch: mealsLower.includes('lunch') || mealsLower.includes('l'),
-      dinner: mealsLower.includes('dinner') || mealsLower.includes('d'),
-    }
-  }
-
   // Update form when plan loads
   useEffect(() => {
     if (plan) {
@@ -57,17 +44,10 @@ export default function EditPlanScreen() {
         price: plan.price.toString(),
         durationDays: plan.durationDays.toString(),
       })
-      setSelectedMeals(parseMealsToCheckboxes(plan.meals))
+      setSelectedMeals(parsePlanMeals(plan.meals))
     }
   }, [plan])
 
-  const updateMealsString = (meals: MealSelection): string => {
-    return Object.entries(meals)
-      .filter(([_, checked]) => checked)
-      .map(([key]) => key.charAt(0).toUpperCase() + key.slice(1))
-      .join(', ')
-  }
-
   const handleSubmit = async () => {
     const newErrors: typeof errors = {}
 
@@ -77,7 +57,7 @@ export default function EditPlanScreen() {
     }
 
     // Validate meals
-    if (!selectedMeals.breakfast && !selectedMeals.lunch && !selectedMeals.dinner) {
+    if (selectedMeals.length === 0) {
       newErrors.meals = 'Please select at least one meal'
     }
 
@@ -103,7 +83,7 @@ export default function EditPlanScreen() {
     setErrors({})
 
     try {
-      const mealsString = updateMealsString(selectedMeals)
+      const mealsString = serializePlanMeals(selectedMeals)
       await updateMutation.mutateAsync({
         id: planId,
         data: {
@@ -0,0 +1,463 @@
+import React, { useMemo, useState } from 'react'
+import { View, StyleSheet, ScrollView } from 'react-native'
+import { Text, Button, Card, Chip, ActivityIndicator, TextInput, Snackbar } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format, parseISO } from 'date-fns'
+import { useImportAttendance } from '@/hooks/useAttendance'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { pickCsvFile } from '@/lib/csv'
+import { getMealName, getMealSchedule, type MealKey } from '@/lib/meal-schedule'
+import { MAX_CHANGE_REASON_LENGTH, validateChangeReason } from '@/lib/attendance-history'
+import {
+  ATTENDANCE_IMPORT_COLUMNS,
+  loadAttendanceImportContext,
+  parseAttendanceImport,
+  previewAttendanceImport,
+  type AttendanceImportPreview,
+} from '@/lib/attendance-import'
+
+type RowFilter = 'changes' | 'errors' | 'all'
+
+const ROW_FILTERS: { value: RowFilter; label: string }[] = [
+  { value: 'changes', label: 'Changes' },
+  { value: 'errors', label: 'Errors' },
+  { value: 'all', label: 'All Rows' },
+]
+
+export default function ImportAttendanceScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const { data: schedule } = useMealSchedule()
+  const importMutation = useImportAttendance()
+
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [preview, setPreview] = useState<AttendanceImportPreview | null>(null)
+  const [reading, setReading] = useState(false)
+  const [rowFilter, setRowFilter] = useState<RowFilter>('changes')
+  const [reason, setReason] = useState('')
+  const [changed, setChanged] = useState<number | null>(null)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  const mealNames = (meals: MealKey[]) => meals.map((meal) => getMealName(meal, schedule)).join(', ')
+
+  const visibleRows = useMemo(() => {
+    if (!preview) return []
+    return preview.rows.filter((row) => {
+      if (rowFilter === 'errors') return row.errors.length > 0
+      if (rowFilter === 'changes') return row.added.length > 0 || row.removed.length > 0
+      return true
+    })
+  }, [preview, rowFilter])
+
+  const handlePickFile = async () => {
+    setReading(true)
+    try {
+      const file = await pickCsvFile()
+      if (!file) return
+
+      const currentSchedule = await getMealSchedule()
+      const parsed = parseAttendanceImport(file.text, currentSchedule)
+      if (parsed.error) {
+        setSnackbarMessage(`⚠️ ${parsed.error.message}`)
+        return
+      }
+
+      const loaded = await loadAttendanceImportContext(parsed.file, currentSchedule)
+      if (loaded.error) {
+        setSnackbarMessage(`⚠️ ${loaded.error.message}`)
+        return
+      }
+
+      const nextPreview = previewAttendanceImport(parsed.file, loaded.context, currentSchedule)
+      setFileName(file.name)
+      setPreview(nextPreview)
+      setChanged(null)
+      setRowFilter(nextPreview.errorCount > 0 ? 'errors' : 'changes')
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error?.message || 'Failed to read file'}`)
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!preview) return
+
+    const reasonError = validateChangeReason(reason)
+    if (reasonError) {
+      setSnackbarMessage(`⚠️ ${reasonError}`)
+      return
+    }
+
+    try {
+      const count = await importMutation.mutateAsync({ rows: preview.rows, reason })
+      setChanged(count)
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error?.message || 'Failed to import attendance'}`)
+    }
+  }
+
+  const handleReset = () => {
+    setFileName(null)
+    setPreview(null)
+    setChanged(null)
+    setReason('')
+  }
+
+  const canImport = !!preview && preview.errorCount === 0 && preview.changedCount > 0 && !!reason.trim()
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Import Attendance
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        {/* Instructions */}
+        {!preview && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                CSV Format
+              </Text>
+              <Text variant="bodySmall" style={styles.muted}>
+                One row per student per day. The header needs these columns and one column per meal:
+              </Text>
+              <Text variant="bodyMedium" style={styles.columns}>
+                {Object.values(ATTENDANCE_IMPORT_COLUMNS).map((column) => column.label).join(', ')},{' '}
+                {(schedule?.mealTypes || []).map((type) => type.name.toLowerCase()).join(', ')}
+              </Text>
+              <Text variant="bodySmall" style={styles.muted}>
+                In meal columns, 1, Y or P marks the meal, 0, N or A unmarks it and a blank cell leaves it as it is.
+                Dates can be YYYY-MM-DD or DD/MM/YYYY. Nothing changes until you review the preview.
+              </Text>
+              <Button
+                mode="contained"
+                icon="file-upload-outline"
+                onPress={handlePickFile}
+                loading={reading}
+                disabled={reading}
+                style={styles.primaryButton}
+                buttonColor="#7B2CBF"
+              >
+                Choose CSV File
+              </Button>
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Preview */}
+        {preview && changed === null && (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  {fileName}
+                </Text>
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={[styles.summaryValue, styles.successText]}>
+                      {preview.changedCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>Changes</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={styles.summaryValue}>
+                      {preview.unchangedCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>Unchanged</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={[styles.summaryValue, preview.errorCount > 0 && styles.errorText]}>
+                      {preview.errorCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>With errors</Text>
+                  </View>
+                </View>
+                {preview.errorCount > 0 && (
+                  <Text variant="bodySmall" style={styles.errorText}>
+                    The file is imported all at once, so fix the rows with errors and choose the file again.
+                  </Text>
+                )}
+              </Card.Content>
+            </Card>
+
+            <View style={styles.chipRow}>
+              {ROW_FILTERS.map((filter) => (
+                <Chip
+                  key={filter.value}
+                  selected={rowFilter === filter.value}
+                  onPress={() => setRowFilter(filter.value)}
+                  style={[styles.chip, rowFilter === filter.value && styles.chipSelected]}
+                  textStyle={rowFilter === filter.value ? styles.chipTextSelected : undefined}
+                  showSelectedCheck={false}
+                >
+                  {filter.label}
+                </Chip>
+              ))}
+            </View>
+
+            <Card style={styles.card}>
+              <Card.Content>
+                {visibleRows.length === 0 ? (
+                  <Text variant="bodySmall" style={styles.muted}>
+                    No rows to show
+                  </Text>
+                ) : (
+                  visibleRows.map((row) => {
+                    const hasErrors = row.errors.length > 0
+                    const hasChanges = row.added.length > 0 || row.removed.length > 0
+
+                    return (
+                      <View key={row.line} style={styles.row}>
+                        <MaterialCommunityIcons
+                          name={hasErrors ? 'alert-circle' : hasChanges ? 'pencil-circle' : 'check-circle'}
+                          size={20}
+                          color={hasErrors ? '#EF4444' : hasChanges ? '#7B2CBF' : '#9CA3AF'}
+                        />
+                        <View style={styles.rowInfo}>
+                          <Text variant="bodyMedium" style={styles.rowName}>
+                            {row.studentName || row.rollNumber || `Line ${row.line}`}
+                          </Text>
+                          <Text variant="bodySmall" style={styles.muted}>
+                            Line {row.line} • {row.rollNumber || '(no roll number)'} •{' '}
+                            {/^\d{4}-\d{2}-\d{2}$/.test(row.date) ? format(parseISO(row.date), 'dd MMM yyyy') : row.date || '(no date)'}
+                          </Text>
+                          {row.added.length > 0 && (
+                            <Text variant="bodySmall" style={styles.successText}>
+                              Mark: {mealNames(row.added)}
+                            </Text>
+                          )}
+                          {row.removed.length > 0 && (
+                            <Text variant="bodySmall" style={styles.errorText}>
+                              Unmark: {mealNames(row.removed)}
+                            </Text>
+                          )}
+                          {!hasErrors && !hasChanges && (
+                            <Text variant="bodySmall" style={styles.muted}>
+                              Already matches
+                            </Text>
+                          )}
+                          {row.errors.map((error) => (
+                            <Text key={error} variant="bodySmall" style={styles.errorText}>
+                              {error}
+                            </Text>
+                          ))}
+                        </View>
+                      </View>
+                    )
+                  })
+                )}
+              </Card.Content>
+            </Card>
+
+            {preview.errorCount === 0 && preview.changedCount > 0 && (
+              <Card style={styles.card}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={styles.sectionTitle}>
+                    Reason
+                  </Text>
+                  <TextInput
+                    mode="outlined"
+                    value={reason}
+                    onChangeText={setReason}
+                    placeholder="e.g. Paper register from 12 Jul power cut"
+                    maxLength={MAX_CHANGE_REASON_LENGTH}
+                    multiline
+                    outlineColor="#E5E7EB"
+                    activeOutlineColor="#7B2CBF"
+                  />
+                  <Text variant="bodySmall" style={styles.hint}>
+                    Saved with every change in the attendance history, tagged as imported.
+                  </Text>
+                </Card.Content>
+              </Card>
+            )}
+
+            <View style={styles.actions}>
+              <Button mode="outlined" onPress={handleReset} style={styles.actionButton}>
+                Choose Another File
+              </Button>
+              <Button
+                mode="contained"
+                onPress={handleImport}
+                loading={importMutation.isPending}
+                disabled={!canImport || importMutation.isPending}
+                style={styles.actionButton}
+                buttonColor="#7B2CBF"
+              >
+                Apply {preview.changedCount} {preview.changedCount === 1 ? 'Change' : 'Changes'}
+              </Button>
+            </View>
+          </>
+        )}
+
+        {/* Done */}
+        {changed !== null && (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Import Complete
+                </Text>
+                <Text variant="bodyMedium">
+                  {changed} attendance {changed === 1 ? 'record' : 'records'} updated from {fileName}
+                </Text>
+                <Text variant="bodySmall" style={styles.muted}>
+                  Each change is listed in the student's attendance history as imported.
+                </Text>
+              </Card.Content>
+            </Card>
+
+            <Button mode="outlined" onPress={handleReset} style={styles.doneButton}>
+              Import Another File
+            </Button>
+          </>
+        )}
+
+        {reading && preview === null && <ActivityIndicator style={styles.loading} color="#7B2CBF" />}
+      </ScrollView>
+
+      <Snackbar
+        visible={!!snackbarMessage}
+        onDismiss={() => setSnackbarMessage('')}
+        duration={4000}
+        action={{
+          label: 'Dismiss',
+          onPress: () => setSnackbarMessage(''),
+        }}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  muted: {
+    color: '#666',
+  },
+  hint: {
+    color: '#666',
+    marginTop: 6,
+  },
+  columns: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginVertical: 8,
+  },
+  primaryButton: {
+    marginTop: 16,
+    borderRadius: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginVertical: 8,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  successText: {
+    color: '#10B981',
+  },
+  errorText: {
+    color: '#EF4444',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowName: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+  },
+  doneButton: {
+    borderRadius: 8,
+  },
+  loading: {
+    marginTop: 24,
+  },
+})
@@ -0,0 +1,623 @@
+import React, { useMemo, useState } from 'react'
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native'
+import { Text, Button, Card, Chip, ActivityIndicator, Snackbar, Dialog, Portal, Searchbar } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format, parseISO } from 'date-fns'
+import { useImportBankStatement } from '@/hooks/usePayments'
+import { pickCsvFile } from '@/lib/csv'
+import { getPaymentMethodName } from '@/lib/payment-methods'
+import {
+  STATEMENT_IMPORT_COLUMNS,
+  STATEMENT_OPTIONAL_COLUMNS,
+  assignStatementRow,
+  loadStatementImportContext,
+  parseStatementImport,
+  previewStatementImport,
+  type StatementImportPreview,
+  type StatementImportResult,
+  type StatementImportRow,
+  type StatementImportStudent,
+} from '@/lib/statement-import'
+
+type RowFilter = 'record' | 'unmatched' | 'matched' | 'errors' | 'all'
+
+const ROW_FILTERS: { value: RowFilter; label: string }[] = [
+  { value: 'record', label: 'To Record' },
+  { value: 'unmatched', label: 'Unmatched' },
+  { value: 'matched', label: 'Matched' },
+  { value: 'errors', label: 'Errors' },
+  { value: 'all', label: 'All' },
+]
+
+const formatDate = (date: string) => (/^\d{4}-\d{2}-\d{2}$/.test(date) ? format(parseISO(date), 'dd MMM yyyy') : date)
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`
+
+export default function ImportStatementScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const importMutation = useImportBankStatement()
+
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [preview, setPreview] = useState<StatementImportPreview | null>(null)
+  const [students, setStudents] = useState<StatementImportStudent[]>([])
+  const [reading, setReading] = useState(false)
+  const [rowFilter, setRowFilter] = useState<RowFilter>('record')
+  const [assigning, setAssigning] = useState<StatementImportRow | null>(null)
+  const [studentQuery, setStudentQuery] = useState('')
+  const [result, setResult] = useState<StatementImportResult | null>(null)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  const visibleRows = useMemo(() => {
+    if (!preview) return []
+    return preview.rows.filter((row) => {
+      if (rowFilter === 'record') return row.status === 'new' || row.status === 'request'
+      if (rowFilter === 'unmatched') return row.status === 'unmatched'
+      if (rowFilter === 'matched') return row.status === 'recorded'
+      if (rowFilter === 'errors') return row.status === 'error'
+      return true
+    })
+  }, [preview, rowFilter])
+
+  const studentResults = useMemo(() => {
+    const query = studentQuery.trim().toLowerCase()
+    if (!query) return []
+    return students
+      .filter((student) =>
+        student.name.toLowerCase().includes(query) ||
+        student.rollNumber?.toLowerCase().includes(query)
+      )
+      .slice(0, 8)
+  }, [students, studentQuery])
+
+  const handlePickFile = async () => {
+    setReading(true)
+    try {
+      const file = await pickCsvFile()
+      if (!file) return
+
+      const parsed = parseStatementImport(file.text)
+      if (parsed.error) {
+        setSnackbarMessage(`⚠️ ${parsed.error.message}`)
+        return
+      }
+
+      const loaded = await loadStatementImportContext(parsed.file)
+      if (loaded.error) {
+        setSnackbarMessage(`⚠️ ${loaded.error.message}`)
+        return
+      }
+
+      const nextPreview = previewStatementImport(parsed.file, loaded.context)
+      setFileName(file.name)
+      setStudents(loaded.context.students)
+      setPreview(nextPreview)
+      setResult(null)
+      setRowFilter(nextPreview.errorCount > 0 ? 'errors' : 'record')
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error?.message || 'Failed to read file'}`)
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleAssign = (student: { id: number; name: string } | null, row: StatementImportRow | null = assigning) => {
+    if (!preview || !row) return
+    setPreview(assignStatementRow(preview, row.line, student))
+    setAssigning(null)
+    setStudentQuery('')
+  }
+
+  const handleImport = async () => {
+    if (!preview || !fileName) return
+
+    try {
+      const imported = await importMutation.mutateAsync({ preview, fileName })
+      setResult(imported)
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error?.message || 'Failed to import statement'}`)
+    }
+  }
+
+  const handleReset = () => {
+    setFileName(null)
+    setPreview(null)
+    setStudents([])
+    setResult(null)
+  }
+
+  const canImport = !!preview && preview.errorCount === 0 && !!preview.startDate
+
+  const renderRowStatus = (row: StatementImportRow) => {
+    switch (row.status) {
+      case 'recorded':
+        return (
+          <Text variant="bodySmall" style={styles.muted}>
+            Already recorded for {row.studentName} (by {row.matchedBy})
+          </Text>
+        )
+      case 'request':
+        return (
+          <Text variant="bodySmall" style={styles.successText}>
+            Confirms {row.studentName}'s UPI payment
+          </Text>
+        )
+      case 'new':
+        return (
+          <Text variant="bodySmall" style={styles.successText}>
+            New {getPaymentMethodName(row.method)} payment for {row.studentName}
+            {row.matchedBy === 'name' ? ' (matched by name)' : ''}
+          </Text>
+        )
+      case 'unmatched':
+        return (
+          <Text variant="bodySmall" style={styles.warningText}>
+            No student found - assign one or leave it out
+          </Text>
+        )
+      default:
+        return null
+    }
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Bank Statement
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        {/* Instructions */}
+        {!preview && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                CSV Statement
+              </Text>
+              <Text variant="bodySmall" style={styles.muted}>
+                Download the statement from your bank as CSV. It needs these columns:
+              </Text>
+              <Text variant="bodyMedium" style={styles.columns}>
+                {Object.values(STATEMENT_IMPORT_COLUMNS).map((column) => column.label).join(', ')}
+              </Text>
+              <Text variant="bodySmall" style={styles.muted}>
+                A {Object.values(STATEMENT_OPTIONAL_COLUMNS).slice(0, 3).map((column) => column.label).join(', ')} column
+                helps match credits to students. Only credits are read. Credits are matched to payments by UTR, then by
+                amount and payer name; nothing changes until you review the preview.
+              </Text>
+              <Button
+                mode="contained"
+                icon="file-upload-outline"
+                onPress={handlePickFile}
+                loading={reading}
+                disabled={reading}
+                style={styles.primaryButton}
+                buttonColor="#7B2CBF"
+              >
+                Choose CSV File
+              </Button>
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Preview */}
+        {preview && result === null && (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  {fileName}
+                </Text>
+                {preview.startDate && preview.endDate && (
+                  <Text variant="bodySmall" style={styles.muted}>
+                    {formatDate(preview.startDate)} to {formatDate(preview.endDate)} • {preview.skippedCount} debits skipped
+                  </Text>
+                )}
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={[styles.summaryValue, styles.successText]}>
+                      {preview.newCount + preview.requestCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>To record</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={styles.summaryValue}>
+                      {preview.recordedCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>Matched</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={[styles.summaryValue, preview.unmatchedCount > 0 && styles.warningText]}>
+                      {preview.unmatchedCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>Unmatched</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={[styles.summaryValue, preview.errorCount > 0 && styles.errorText]}>
+                      {preview.errorCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>With errors</Text>
+                  </View>
+                </View>
+                {preview.errorCount > 0 && (
+                  <Text variant="bodySmall" style={styles.errorText}>
+                    The statement is imported all at once, so fix the rows with errors and choose the file again.
+                  </Text>
+                )}
+              </Card.Content>
+            </Card>
+
+            {/* Payments recorded in the app that the bank doesn't show */}
+            {preview.missingPayments.length > 0 && (
+              <Card style={[styles.card, styles.missingCard]}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={[styles.sectionTitle, styles.errorText]}>
+                    Not in Statement ({preview.missingPayments.length})
+                  </Text>
+                  <Text variant="bodySmall" style={styles.muted}>
+                    These bank payments have no matching credit. They'll be flagged in the payments list.
+                  </Text>
+                  {preview.missingPayments.map((payment) => (
+                    <TouchableOpacity
+                      key={payment.id}
+                      onPress={() => router.push(`/(admin)/payment-detail?id=${payment.id}`)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.row}>
+                        <MaterialCommunityIcons name="bank-remove" size={20} color="#EF4444" />
+                        <View style={styles.rowInfo}>
+                          <Text variant="bodyMedium" style={styles.rowName}>
+                            {payment.studentName} • {formatAmount(payment.amount)}
+                          </Text>
+                          <Text variant="bodySmall" style={styles.muted}>
+                            {formatDate(payment.paymentDate)} • {getPaymentMethodName(payment.method)}
+                            {payment.reference ? ` • ${payment.reference}` : ''}
+                          </Text>
+                        </View>
+                      </View>
+                    </TouchableOpacity>
+                  ))}
+                </Card.Content>
+              </Card>
+            )}
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {ROW_FILTERS.map((filter) => (
+                <Chip
+                  key={filter.value}
+                  selected={rowFilter === filter.value}
+                  onPress={() => setRowFilter(filter.value)}
+                  style={[styles.chip, rowFilter === filter.value && styles.chipSelected]}
+                  textStyle={rowFilter === filter.value ? styles.chipTextSelected : undefined}
+                  showSelectedCheck={false}
+                >
+                  {filter.label}
+                </Chip>
+              ))}
+            </ScrollView>
+
+            <Card style={styles.card}>
+              <Card.Content>
+                {visibleRows.length === 0 ? (
+                  <Text variant="bodySmall" style={styles.muted}>
+                    No rows to show
+                  </Text>
+                ) : (
+                  visibleRows.map((row) => (
+                    <View key={row.line} style={styles.row}>
+                      <MaterialCommunityIcons
+                        name={
+                          row.status === 'error' ? 'alert-circle'
+                            : row.status === 'recorded' ? 'check-circle'
+                              : row.status === 'unmatched' ? 'help-circle'
+                                : 'plus-circle'
+                        }
+                        size={20}
+                        color={
+                          row.status === 'error' ? '#EF4444'
+                            : row.status === 'recorded' ? '#9CA3AF'
+                              : row.status === 'unmatched' ? '#F59E0B'
+                                : '#7B2CBF'
+                        }
+                      />
+                      <View style={styles.rowInfo}>
+                        <Text variant="bodyMedium" style={styles.rowName}>
+                          {formatAmount(row.amount)} • {formatDate(row.date)}
+                        </Text>
+                        <Text variant="bodySmall" style={styles.muted} numberOfLines={2}>
+                          Line {row.line}
+                          {row.reference ? ` • ${row.reference}` : ''}
+                          {row.payer ? ` • ${row.payer}` : ''}
+                        </Text>
+                        {renderRowStatus(row)}
+                        {row.notes.map((note) => (
+                          <Text key={note} variant="bodySmall" style={styles.warningText}>
+                            {note}
+                          </Text>
+                        ))}
+                        {row.errors.map((error) => (
+                          <Text key={error} variant="bodySmall" style={styles.errorText}>
+                            {error}
+                          </Text>
+                        ))}
+                        {(row.status === 'new' || row.status === 'unmatched') && (
+                          <View style={styles.rowActions}>
+                            <Button
+                              mode="text"
+                              compact
+                              icon="account-search"
+                              textColor="#7B2CBF"
+                              onPress={() => setAssigning(row)}
+                            >
+                              {row.status === 'new' ? 'Change Student' : 'Assign Student'}
+                            </Button>
+                            {row.status === 'new' && (
+                              <Button mode="text" compact textColor="#666" onPress={() => handleAssign(null, row)}>
+                                Leave Out
+                              </Button>
+                            )}
+                          </View>
+                        )}
+                      </View>
+                    </View>
+                  ))
+                )}
+              </Card.Content>
+            </Card>
+
+            <View style={styles.actions}>
+              <Button mode="outlined" onPress={handleReset} style={styles.actionButton}>
+                Choose Another File
+              </Button>
+              <Button
+                mode="contained"
+                onPress={handleImport}
+                loading={importMutation.isPending}
+                disabled={!canImport || importMutation.isPending}
+                style={styles.actionButton}
+                buttonColor="#7B2CBF"
+              >
+                Apply Statement
+              </Button>
+            </View>
+          </>
+        )}
+
+        {/* Done */}
+        {result !== null && (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Import Complete
+                </Text>
+                <Text variant="bodyMedium">
+                  {result.created} {result.created === 1 ? 'payment' : 'payments'} recorded, {result.confirmed} UPI{' '}
+                  {result.confirmed === 1 ? 'payment' : 'payments'} confirmed and {result.matched} matched from {fileName}.
+                </Text>
+                {result.missing > 0 && (
+                  <Text variant="bodySmall" style={styles.errorText}>
+                    {result.missing} {result.missing === 1 ? 'payment is' : 'payments are'} not in the statement and
+                    flagged in the payments list.
+                  </Text>
+                )}
+              </Card.Content>
+            </Card>
+
+            <View style={styles.actions}>
+              <Button mode="outlined" onPress={handleReset} style={styles.actionButton}>
+                Import Another File
+              </Button>
+              {result.missing > 0 && (
+                <Button
+                  mode="contained"
+                  onPress={() => router.push('/(admin)/payments')}
+                  style={styles.actionButton}
+                  buttonColor="#7B2CBF"
+                >
+                  View Payments
+                </Button>
+              )}
+            </View>
+          </>
+        )}
+
+        {reading && preview === null && <ActivityIndicator style={styles.loading} color="#7B2CBF" />}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={!!assigning} onDismiss={() => setAssigning(null)}>
+          <Dialog.Title>Assign Student</Dialog.Title>
+          <Dialog.Content>
+            {assigning && (
+              <Text variant="bodyMedium" style={styles.dialogText}>
+                {formatAmount(assigning.amount)} on {formatDate(assigning.date)}
+                {assigning.payer ? `\n${assigning.payer}` : ''}
+              </Text>
+            )}
+            <Searchbar
+              placeholder="Search by name or roll number"
+              value={studentQuery}
+              onChangeText={setStudentQuery}
+              style={styles.searchbar}
+            />
+            {studentResults.map((student) => (
+              <TouchableOpacity key={student.id} onPress={() => handleAssign(student)} activeOpacity={0.7}>
+                <View style={styles.studentRow}>
+                  <Text variant="bodyMedium" style={styles.rowName}>
+                    {student.name}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.muted}>
+                    {student.rollNumber || 'No roll number'} • Balance {formatAmount(student.balance)}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setAssigning(null)}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      <Snackbar
+        visible={!!snackbarMessage}
+        onDismiss={() => setSnackbarMessage('')}
+        duration={4000}
+        action={{
+          label: 'Dismiss',
+          onPress: () => setSnackbarMessage(''),
+        }}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  missingCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#EF4444',
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  muted: {
+    color: '#666',
+  },
+  columns: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginVertical: 8,
+  },
+  primaryButton: {
+    marginTop: 16,
+    borderRadius: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginVertical: 8,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  successText: {
+    color: '#10B981',
+  },
+  warningText: {
+    color: '#B45309',
+  },
+  errorText: {
+    color: '#EF4444',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowName: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 4,
+    marginLeft: -8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+  },
+  dialogText: {
+    color: '#666',
+    marginBottom: 12,
+  },
+  searchbar: {
+    marginBottom: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  studentRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  loading: {
+    marginTop: 24,
+  },
+})
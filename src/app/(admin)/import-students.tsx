@@ -0,0 +1,477 @@
+import React, { useMemo, useState } from 'react'
+import { View, StyleSheet, ScrollView } from 'react-native'
+import { Text, Button, Card, Chip, ActivityIndicator, ProgressBar, Snackbar } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { usePlans } from '@/hooks/usePlans'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { useImportStudents } from '@/hooks/useStudents'
+import { pickCsvFile } from '@/lib/csv'
+import { shareReport } from '@/lib/reports'
+import {
+  buildStudentImportResults,
+  getRegisteredEmails,
+  parseStudentImport,
+  STUDENT_IMPORT_COLUMNS,
+  type StudentImportPreview,
+  type StudentImportResult,
+} from '@/lib/student-import'
+
+export default function ImportStudentsScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const { data: plansData } = usePlans()
+  const { data: paymentMethods } = usePaymentMethods()
+  const importMutation = useImportStudents()
+
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [preview, setPreview] = useState<StudentImportPreview | null>(null)
+  const [reading, setReading] = useState(false)
+  const [errorsOnly, setErrorsOnly] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [results, setResults] = useState<StudentImportResult[] | null>(null)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  const plans = plansData?.plans || []
+
+  const visibleRows = useMemo(
+    () => (preview ? preview.rows.filter((row) => !errorsOnly || row.errors.length > 0) : []),
+    [preview, errorsOnly]
+  )
+
+  const handlePickFile = async () => {
+    setReading(true)
+    try {
+      const file = await pickCsvFile()
+      if (!file) return
+
+      // First pass finds the emails to check, second pass flags registered ones
+      const firstPass = parseStudentImport(file.text, plans, new Set(), paymentMethods)
+      if (firstPass.error) {
+        setSnackbarMessage(`⚠️ ${firstPass.error.message}`)
+        return
+      }
+
+      const registered = await getRegisteredEmails(firstPass.preview.rows.map((row) => row.email))
+      if (registered.error) {
+        setSnackbarMessage(`⚠️ ${registered.error.message}`)
+        return
+      }
+
+      const parsed = parseStudentImport(file.text, plans, registered.emails, paymentMethods)
+      if (parsed.error) {
+        setSnackbarMessage(`⚠️ ${parsed.error.message}`)
+        return
+      }
+
+      setFileName(file.name)
+      setPreview(parsed.preview)
+      setResults(null)
+      setErrorsOnly(parsed.preview.errorCount > 0)
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error?.message || 'Failed to read file'}`)
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!preview) return
+
+    setProgress({ done: 0, total: preview.validCount })
+    try {
+      const imported = await importMutation.mutateAsync({
+        rows: preview.rows,
+        onProgress: (done, total) => setProgress({ done, total }),
+      })
+      setResults(imported)
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error?.message || 'Failed to import students'}`)
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleShareResults = async () => {
+    if (!results || !preview) return
+    try {
+      await shareReport(
+        buildStudentImportResults(results, preview.rows.filter((row) => row.errors.length > 0)),
+        'csv'
+      )
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error?.message || 'Failed to share results'}`)
+    }
+  }
+
+  const handleReset = () => {
+    setFileName(null)
+    setPreview(null)
+    setResults(null)
+  }
+
+  const createdCount = results?.filter((result) => result.success).length ?? 0
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Import Students
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        {/* Instructions */}
+        {!preview && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                CSV Format
+              </Text>
+              <Text variant="bodySmall" style={styles.muted}>
+                The first row must be a header with these columns (any order):
+              </Text>
+              <Text variant="bodyMedium" style={styles.columns}>
+                {Object.values(STUDENT_IMPORT_COLUMNS).map((column) => column.label).join(', ')}
+              </Text>
+              <Text variant="bodySmall" style={styles.muted}>
+                Plan names must match an existing plan. Join dates can be YYYY-MM-DD or DD/MM/YYYY. Paid is optional;
+                an amount paid needs its payment method, and a reference when the method asks for one.
+                Nothing is created until you review the preview.
+              </Text>
+              <Button
+                mode="contained"
+                icon="file-upload-outline"
+                onPress={handlePickFile}
+                loading={reading}
+                disabled={reading || plans.length === 0}
+                style={styles.primaryButton}
+                buttonColor="#7B2CBF"
+              >
+                Choose CSV File
+              </Button>
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Preview */}
+        {preview && !results && (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  {fileName}
+                </Text>
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={styles.summaryValue}>
+                      {preview.rows.length}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>Rows</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={[styles.summaryValue, styles.successText]}>
+                      {preview.validCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>Ready</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text variant="headlineSmall" style={[styles.summaryValue, preview.errorCount > 0 && styles.errorText]}>
+                      {preview.errorCount}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>With errors</Text>
+                  </View>
+                </View>
+                {preview.errorCount > 0 && (
+                  <Text variant="bodySmall" style={styles.muted}>
+                    Rows with errors are skipped. Fix them in the file and import it again, or import the ready rows now.
+                  </Text>
+                )}
+              </Card.Content>
+            </Card>
+
+            <View style={styles.chipRow}>
+              <Chip
+                selected={!errorsOnly}
+                onPress={() => setErrorsOnly(false)}
+                style={[styles.chip, !errorsOnly && styles.chipSelected]}
+                textStyle={!errorsOnly ? styles.chipTextSelected : undefined}
+                showSelectedCheck={false}
+              >
+                All Rows
+              </Chip>
+              <Chip
+                selected={errorsOnly}
+                onPress={() => setErrorsOnly(true)}
+                style={[styles.chip, errorsOnly && styles.chipSelected]}
+                textStyle={errorsOnly ? styles.chipTextSelected : undefined}
+                showSelectedCheck={false}
+              >
+                Errors Only
+              </Chip>
+            </View>
+
+            <Card style={styles.card}>
+              <Card.Content>
+                {visibleRows.length === 0 ? (
+                  <Text variant="bodySmall" style={styles.muted}>
+                    No rows with errors
+                  </Text>
+                ) : (
+                  visibleRows.map((row) => (
+                    <View key={row.line} style={styles.row}>
+                      <MaterialCommunityIcons
+                        name={row.errors.length > 0 ? 'alert-circle' : 'check-circle'}
+                        size={20}
+                        color={row.errors.length > 0 ? '#EF4444' : '#10B981'}
+                      />
+                      <View style={styles.rowInfo}>
+                        <Text variant="bodyMedium" style={styles.rowName}>
+                          Line {row.line}: {row.name || '(no name)'}
+                        </Text>
+                        <Text variant="bodySmall" style={styles.muted}>
+                          {row.email || '(no email)'} • {row.planName || '(no plan)'} • {row.joinDate || '(no date)'}
+                          {row.paid > 0 ? ` • ₹${row.paid.toFixed(2)} paid` : ''}
+                        </Text>
+                        {row.errors.map((error) => (
+                          <Text key={error} variant="bodySmall" style={styles.errorText}>
+                            {error}
+                          </Text>
+                        ))}
+                      </View>
+                    </View>
+                  ))
+                )}
+              </Card.Content>
+            </Card>
+
+            {progress ? (
+              <Card style={styles.card}>
+                <Card.Content>
+                  <Text variant="bodyMedium" style={styles.progressLabel}>
+                    Creating students... {progress.done} of {progress.total}
+                  </Text>
+                  <ProgressBar
+                    progress={progress.total > 0 ? progress.done / progress.total : 0}
+                    color="#7B2CBF"
+                  />
+                </Card.Content>
+              </Card>
+            ) : (
+              <View style={styles.actions}>
+                <Button mode="outlined" onPress={handleReset} style={styles.actionButton}>
+                  Choose Another File
+                </Button>
+                <Button
+                  mode="contained"
+                  onPress={handleImport}
+                  disabled={preview.validCount === 0 || importMutation.isPending}
+                  style={styles.actionButton}
+                  buttonColor="#7B2CBF"
+                >
+                  Import {preview.validCount} {preview.validCount === 1 ? 'Student' : 'Students'}
+                </Button>
+              </View>
+            )}
+          </>
+        )}
+
+        {/* Results */}
+        {results && (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Import Complete
+                </Text>
+                <Text variant="bodyMedium">
+                  {createdCount} created
+                  {results.length - createdCount > 0 ? `, ${results.length - createdCount} failed` : ''}
+                  {preview && preview.errorCount > 0 ? `, ${preview.errorCount} skipped` : ''}
+                </Text>
+                <Text variant="bodySmall" style={styles.muted}>
+                  The results file lists each student's roll number, PIN and temporary password. It is the only copy of
+                  the passwords - share it securely.
+                </Text>
+                <Button
+                  mode="contained"
+                  icon="share-variant"
+                  onPress={handleShareResults}
+                  style={styles.primaryButton}
+                  buttonColor="#7B2CBF"
+                >
+                  Share Results File
+                </Button>
+              </Card.Content>
+            </Card>
+
+            <Card style={styles.card}>
+              <Card.Content>
+                {results.map((result) => (
+                  <View key={result.line} style={styles.row}>
+                    <MaterialCommunityIcons
+                      name={result.success ? 'check-circle' : 'alert-circle'}
+                      size={20}
+                      color={result.success ? '#10B981' : '#EF4444'}
+                    />
+                    <View style={styles.rowInfo}>
+                      <Text variant="bodyMedium" style={styles.rowName}>
+                        {result.name}
+                        {result.rollNumber ? ` • ${result.rollNumber}` : ''}
+                      </Text>
+                      <Text variant="bodySmall" style={result.success ? styles.muted : styles.errorText}>
+                        {result.success ? result.email : `Line ${result.line}: ${result.error}`}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </Card.Content>
+            </Card>
+
+            <Button mode="outlined" onPress={handleReset} style={styles.doneButton}>
+              Import Another File
+            </Button>
+          </>
+        )}
+
+        {reading && preview === null && <ActivityIndicator style={styles.loading} color="#7B2CBF" />}
+      </ScrollView>
+
+      <Snackbar
+        visible={!!snackbarMessage}
+        onDismiss={() => setSnackbarMessage('')}
+        duration={4000}
+        action={{
+          label: 'Dismiss',
+          onPress: () => setSnackbarMessage(''),
+        }}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  muted: {
+    color: '#666',
+  },
+  columns: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginVertical: 8,
+  },
+  primaryButton: {
+    marginTop: 16,
+    borderRadius: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginVertical: 8,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  successText: {
+    color: '#10B981',
+  },
+  errorText: {
+    color: '#EF4444',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowName: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  progressLabel: {
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+  },
+  doneButton: {
+    borderRadius: 8,
+  },
+  loading: {
+    marginTop: 24,
+  },
+})
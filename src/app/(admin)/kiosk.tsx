@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react'
+import { View, StyleSheet, FlatList, BackHandler, StatusBar, useWindowDimensions } from 'react-native'
+import { Text, Button, Portal, Dialog, TextInput } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useKeepAwake } from 'expo-keep-awake'
+import { format } from 'date-fns'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { useAuth } from '@/context/AuthContext'
+import { useQRCode } from '@/hooks/useQRCode'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { useRecentScans } from '@/hooks/useAttendance'
+import { QRCodeDisplay } from '@/components/qr-code/QRCodeDisplay'
+import { PinPadModal } from '@/components/attendance/PinPadModal'
+import { getCurrentMeal, getMealName, getMealWindow, formatMealWindow } from '@/lib/meal-schedule'
+
+export default function KioskScreen() {
+  useKeepAwake()
+
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const { width, height } = useWindowDimensions()
+  const { user, signIn } = useAuth()
+  const { data: qrData, isLoading: qrLoading, error: qrError } = useQRCode()
+  const { data: mealSchedule } = useMealSchedule()
+
+  // Re-evaluate the current meal every minute
+  const [now, setNow] = useState(new Date())
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const currentMeal = getCurrentMeal(mealSchedule, now)
+  const { data: recentScans = [] } = useRecentScans(currentMeal)
+
+  const [pinPadVisible, setPinPadVisible] = useState(false)
+  const [exitDialogVisible, setExitDialogVisible] = useState(false)
+  const [password, setPassword] = useState('')
+  const [exitError, setExitError] = useState<string | null>(null)
+  const [verifying, setVerifying] = useState(false)
+
+  // The hardware back button asks for the admin password instead of leaving
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      setExitDialogVisible(true)
+      return true
+    })
+    return () => subscription.remove()
+  }, [])
+
+  const closeExitDialog = () => {
+    setExitDialogVisible(false)
+    setPassword('')
+    setExitError(null)
+  }
+
+  const handleExit = async () => {
+    if (!user?.email || !password) {
+      setExitError('Enter the admin password')
+      return
+    }
+
+    setVerifying(true)
+    try {
+      // Re-authenticating is the only way to check the password
+      await signIn(user.email, password)
+      closeExitDialog()
+      router.back()
+    } catch (error) {
+      setExitError('Incorrect password')
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  const isLandscape = width > height
+  const qrSize = Math.min(isLandscape ? width * 0.4 : width * 0.75, height * 0.55)
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 16 }]}>
+      <StatusBar hidden />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <View>
+          <Text variant="headlineMedium" style={styles.title}>
+            {currentMeal ? getMealName(currentMeal, mealSchedule) : 'No Meal Being Served'}
+          </Text>
+          <Text variant="titleMedium" style={styles.subtitle}>
+            {currentMeal
+              ? formatMealWindow(getMealWindow(mealSchedule, currentMeal, now))
+              : format(now, 'EEEE, MMM d')}
+          </Text>
+        </View>
+        <View style={styles.headerActions}>
+          <Button
+            icon="dialpad"
+            mode="contained-tonal"
+            onPress={() => setPinPadVisible(true)}
+          >
+            Use PIN
+          </Button>
+          <Button
+            icon="lock"
+            mode="text"
+            textColor="rgba(255, 255, 255, 0.7)"
+            onPress={() => setExitDialogVisible(true)}
+          >
+            Exit
+          </Button>
+        </View>
+      </View>
+
+      <View style={[styles.body, isLandscape && styles.bodyLandscape]}>
+        {/* Rotating QR */}
+        <View style={styles.qrSection}>
+          <QRCodeDisplay
+            qrCode={qrData?.qrCode || null}
+            loading={qrLoading}
+            error={qrError || null}
+            rotationSeconds={qrData?.rotationSeconds}
+            size={qrSize}
+          />
+        </View>
+
+        {/* Live scan list */}
+        <View style={styles.scansSection}>
+          <View style={styles.scansHeader}>
+            <MaterialCommunityIcons name="account-check" size={22} color="#FFFFFF" />
+            <Text variant="titleMedium" style={styles.scansTitle}>
+              Just Scanned
+            </Text>
+            {currentMeal && (
+              <Text variant="titleMedium" style={styles.scansCount}>
+                {recentScans.length}
+              </Text>
+            )}
+          </View>
+          <FlatList
+            data={recentScans}
+            keyExtractor={(item) => String(item.id)}
+            renderItem={({ item, index }) => (
+              <View style={[styles.scanRow, index === 0 && styles.scanRowLatest]}>
+                <View style={styles.scanInfo}>
+                  <Text variant="titleMedium" style={styles.scanName} numberOfLines={1}>
+                    {item.name}
+                  </Text>
+                  {item.rollNumber && (
+                    <Text variant="bodySmall" style={styles.scanRoll}>
+                      Roll No: {item.rollNumber}
+                    </Text>
+                  )}
+                </View>
+                <Text variant="bodySmall" style={styles.scanTime}>
+                  {format(new Date(item.markedAt), 'h:mm a')}
+                </Text>
+              </View>
+            )}
+            ListEmptyComponent={
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                {currentMeal ? 'Waiting for the first scan...' : 'Scans will appear here during meal hours'}
+              </Text>
+            }
+          />
+        </View>
+      </View>
+
+      {/* Students without their phone mark with roll number + PIN */}
+      <PinPadModal visible={pinPadVisible} onDismiss={() => setPinPadVisible(false)} />
+
+      {/* Exit requires the admin password */}
+      <Portal>
+        <Dialog visible={exitDialogVisible} onDismiss={closeExitDialog}>
+          <Dialog.Title>Exit Kiosk Mode</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium" style={styles.dialogText}>
+              Enter the password for {user?.email}
+            </Text>
+            <TextInput
+              label="Admin Password"
+              value={password}
+              onChangeText={(text) => {
+                setPassword(text)
+                setExitError(null)
+              }}
+              secureTextEntry
+              autoFocus
+              mode="outlined"
+              error={!!exitError}
+              onSubmitEditing={handleExit}
+            />
+            {exitError && (
+              <Text variant="bodySmall" style={styles.dialogError}>
+                {exitError}
+              </Text>
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeExitDialog}>Cancel</Button>
+            <Button onPress={handleExit} loading={verifying} disabled={verifying}>
+              Exit
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#3C096C',
+    paddingHorizontal: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  subtitle: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 4,
+  },
+  body: {
+    flex: 1,
+    gap: 16,
+  },
+  bodyLandscape: {
+    flexDirection: 'row',
+  },
+  qrSection: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scansSection: {
+    flex: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 16,
+    padding: 16,
+  },
+  scansHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  scansTitle: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+    flex: 1,
+  },
+  scansCount: {
+    color: '#C77DFF',
+    fontWeight: '700',
+  },
+  scanRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    marginBottom: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+  },
+  scanRowLatest: {
+    backgroundColor: 'rgba(16, 185, 129, 0.25)',
+  },
+  scanInfo: {
+    flex: 1,
+  },
+  scanName: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  scanRoll: {
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  scanTime: {
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  emptyText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  dialogText: {
+    marginBottom: 12,
+  },
+  dialogError: {
+    color: '#EF4444',
+    marginTop: 4,
+  },
+})
@@ -0,0 +1,483 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native'
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  Snackbar,
+  Switch,
+  Divider,
+  ActivityIndicator,
+  IconButton,
+  SegmentedButtons,
+} from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format, parseISO } from 'date-fns'
+import { useLateFeeRules, useUpdateLateFeeRules, useLatestLateFeeRun, useRunLateFees } from '@/hooks/useLateFees'
+import {
+  createLateFeeRule,
+  describeLateFeeRule,
+  validateLateFeeRules,
+  LATE_FEE_TYPE_LABELS,
+  MAX_LATE_FEE_RULES,
+  type LateFeeRule,
+  type LateFeeType,
+} from '@/lib/late-fees'
+
+// Numbers are kept as typed until the rules are saved
+interface RuleDraft {
+  id: string
+  name: string
+  graceDays: string
+  type: LateFeeType
+  amount: string
+  cap: string
+  waivable: boolean
+}
+
+const toDraft = (rule: LateFeeRule): RuleDraft => ({
+  id: rule.id,
+  name: rule.name,
+  graceDays: String(rule.graceDays),
+  type: rule.type,
+  amount: String(rule.amount),
+  cap: rule.cap === null ? '' : String(rule.cap),
+  waivable: rule.waivable,
+})
+
+const fromDraft = (draft: RuleDraft): LateFeeRule => ({
+  id: draft.id,
+  name: draft.name,
+  graceDays: draft.graceDays.trim() === '' ? NaN : Number(draft.graceDays),
+  type: draft.type,
+  amount: parseFloat(draft.amount) || 0,
+  cap: draft.type === 'percent' && draft.cap.trim() ? parseFloat(draft.cap) || 0 : null,
+  waivable: draft.waivable,
+})
+
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`
+
+export default function LateFeesScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const { data: savedRules, isLoading, isFetching } = useLateFeeRules()
+  const updateMutation = useUpdateLateFeeRules()
+  const { data: run, isLoading: runLoading, error: runError } = useLatestLateFeeRun()
+  const runMutation = useRunLateFees()
+
+  const [rules, setRules] = useState<RuleDraft[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [snackbarVisible, setSnackbarVisible] = useState(false)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  // Reset the form whenever the saved rules load or change
+  useEffect(() => {
+    setRules((savedRules || []).map(toDraft))
+  }, [savedRules])
+
+  const showMessage = (message: string) => {
+    setSnackbarMessage(message)
+    setSnackbarVisible(true)
+  }
+
+  const updateRule = (id: string, updates: Partial<Omit<RuleDraft, 'id'>>) => {
+    setRules((current) => current.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)))
+    setError(null)
+  }
+
+  const handleAddRule = () => {
+    if (rules.length >= MAX_LATE_FEE_RULES) {
+      setError(`At most ${MAX_LATE_FEE_RULES} late fee rules can be added`)
+      return
+    }
+
+    const name = rules.length === 0 ? 'Late fee' : `Late fee ${rules.length + 1}`
+    setRules((current) => [...current, toDraft(createLateFeeRule({ name }))])
+    setError(null)
+  }
+
+  const handleRemoveRule = (id: string) => {
+    // Fees already charged under the rule stay on the statements
+    setRules((current) => current.filter((rule) => rule.id !== id))
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    const parsed = rules.map(fromDraft)
+    const validationError = validateLateFeeRules(parsed)
+    if (validationError) {
+      setError(validationError)
+      showMessage('Please fix the errors in the late fee rules')
+      return
+    }
+
+    setError(null)
+
+    try {
+      await updateMutation.mutateAsync(parsed)
+      showMessage('Late fee rules saved')
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to save late fee rules'
+      setError(errorMessage)
+      showMessage(errorMessage)
+    }
+  }
+
+  const handleRunNow = async () => {
+    try {
+      const result = await runMutation.mutateAsync()
+      showMessage(
+        result.feesCharged === 0
+          ? 'No late fees were due'
+          : `Charged ${result.feesCharged} late ${result.feesCharged === 1 ? 'fee' : 'fees'} (${formatCurrency(result.totalCharged)})`
+      )
+    } catch (runNowError: any) {
+      showMessage(`⚠️ ${runNowError?.message || 'Failed to charge late fees'}`)
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Late Fees
+          </Text>
+          <View style={{ width: 60 }}>
+            {isFetching && <ActivityIndicator size="small" color="#7B2CBF" />}
+          </View>
+        </View>
+
+        {/* Last run */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Last Run
+            </Text>
+            {runLoading ? (
+              <ActivityIndicator color="#7B2CBF" />
+            ) : runError ? (
+              <Text variant="bodySmall" style={styles.error}>
+                {(runError as Error).message || 'Failed to load the last run'}
+              </Text>
+            ) : run ? (
+              <Text variant="bodyMedium">
+                {format(parseISO(run.ranAt), 'dd MMM yyyy, h:mm a')} •{' '}
+                {run.source === 'scheduled' ? 'Daily run' : `Run by ${run.ranByEmail || 'an admin'}`}
+                {'\n'}
+                {run.feesCharged === 0
+                  ? 'No fees charged'
+                  : `${run.feesCharged} ${run.feesCharged === 1 ? 'fee' : 'fees'} charged, ${formatCurrency(run.totalCharged)}`}
+              </Text>
+            ) : (
+              <Text variant="bodySmall" style={styles.sectionDescription}>
+                Late fees haven't been charged yet
+              </Text>
+            )}
+            <Text variant="bodySmall" style={styles.hint}>
+              Late fees are charged once a day. Each rule charges a term, or each of its installments, once, and the student is notified.
+            </Text>
+            <Button
+              mode="contained"
+              icon="clock-alert-outline"
+              onPress={handleRunNow}
+              loading={runMutation.isPending}
+              disabled={runMutation.isPending || updateMutation.isPending}
+              style={styles.runButton}
+              buttonColor="#7B2CBF"
+            >
+              Charge Now
+            </Button>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Rules
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              A fee is charged when a term, or an installment of it, still has money due after its grace period.
+              Changes apply from the next run; fees already charged stay as they are.
+            </Text>
+
+            {isLoading ? (
+              <ActivityIndicator color="#7B2CBF" />
+            ) : rules.length === 0 ? (
+              <Text variant="bodySmall" style={styles.sectionDescription}>
+                No rules yet, so no late fees are charged
+              </Text>
+            ) : (
+              rules.map((rule, index) => {
+                const parsed = fromDraft(rule)
+                return (
+                  <View key={rule.id}>
+                    {index > 0 && <Divider style={styles.divider} />}
+                    <View style={styles.ruleRow}>
+                      <TextInput
+                        label="Name on statement"
+                        value={rule.name}
+                        onChangeText={(name) => updateRule(rule.id, { name })}
+                        mode="outlined"
+                        dense
+                        maxLength={40}
+                        style={styles.flexInput}
+                        outlineStyle={styles.inputOutline}
+                      />
+                      <IconButton
+                        icon="delete-outline"
+                        size={20}
+                        iconColor="#EF4444"
+                        onPress={() => handleRemoveRule(rule.id)}
+                      />
+                    </View>
+                    <SegmentedButtons
+                      value={rule.type}
+                      onValueChange={(type) => updateRule(rule.id, { type: type as LateFeeType })}
+                      buttons={(Object.keys(LATE_FEE_TYPE_LABELS) as LateFeeType[]).map((type) => ({
+                        value: type,
+                        label: LATE_FEE_TYPE_LABELS[type],
+                      }))}
+                      style={styles.segmented}
+                    />
+                    <View style={styles.ruleRow}>
+                      <TextInput
+                        label="Grace days"
+                        value={rule.graceDays}
+                        onChangeText={(text) => updateRule(rule.id, { graceDays: text.replace(/[^0-9]/g, '') })}
+                        mode="outlined"
+                        dense
+                        keyboardType="number-pad"
+                        style={styles.flexInput}
+                        outlineStyle={styles.inputOutline}
+                      />
+                      <TextInput
+                        label={rule.type === 'flat' ? 'Fee (₹)' : 'Fee (%)'}
+                        value={rule.amount}
+                        onChangeText={(text) => updateRule(rule.id, { amount: text.replace(/[^0-9.]/g, '') })}
+                        mode="outlined"
+                        dense
+                        keyboardType="decimal-pad"
+                        style={styles.flexInput}
+                        outlineStyle={styles.inputOutline}
+                      />
+                      {rule.type === 'percent' && (
+                        <TextInput
+                          label="Cap (₹)"
+                          value={rule.cap}
+                          onChangeText={(text) => updateRule(rule.id, { cap: text.replace(/[^0-9.]/g, '') })}
+                          mode="outlined"
+                          dense
+                          keyboardType="decimal-pad"
+                          placeholder="None"
+                          style={styles.flexInput}
+                          outlineStyle={styles.inputOutline}
+                        />
+                      )}
+                    </View>
+                    <View style={styles.switchRow}>
+                      <Text variant="bodySmall" style={styles.switchLabel}>
+                        Admins can waive it
+                      </Text>
+                      <Switch
+                        value={rule.waivable}
+                        onValueChange={(waivable) => updateRule(rule.id, { waivable })}
+                        color="#7B2CBF"
+                      />
+                    </View>
+                    {Number.isInteger(parsed.graceDays) && parsed.amount > 0 && (
+                      <Text variant="bodySmall" style={styles.ruleSummary}>
+                        {describeLateFeeRule(parsed)}
+                      </Text>
+                    )}
+                  </View>
+                )
+              })
+            )}
+
+            <Button
+              mode="contained-tonal"
+              icon="plus"
+              onPress={handleAddRule}
+              disabled={isLoading || rules.length >= MAX_LATE_FEE_RULES}
+              style={styles.addButton}
+            >
+              Add Rule
+            </Button>
+          </Card.Content>
+        </Card>
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <MaterialCommunityIcons name="alert-circle" size={16} color="#EF4444" />
+            <Text variant="bodySmall" style={styles.error}>
+              {error}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Sticky Action Buttons */}
+      <View style={[styles.stickyButtonContainer, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.actions}>
+          <Button
+            mode="outlined"
+            onPress={() => router.back()}
+            style={styles.cancelButton}
+          >
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            loading={updateMutation.isPending}
+            disabled={updateMutation.isPending || isLoading}
+            style={styles.submitButton}
+            buttonColor="#7B2CBF"
+          >
+            Save Rules
+          </Button>
+        </View>
+      </View>
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={3000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    color: '#666',
+    marginBottom: 12,
+  },
+  hint: {
+    color: '#666',
+    marginTop: 8,
+  },
+  runButton: {
+    marginTop: 12,
+  },
+  inputOutline: {
+    borderWidth: 1,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  flexInput: {
+    flex: 1,
+  },
+  segmented: {
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingLeft: 8,
+  },
+  switchLabel: {
+    color: '#666',
+  },
+  ruleSummary: {
+    color: '#7B2CBF',
+    marginTop: 4,
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  addButton: {
+    marginTop: 16,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  error: {
+    color: '#EF4444',
+    fontSize: 13,
+    flex: 1,
+  },
+  stickyButtonContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: '#7B2CBF',
+  },
+})
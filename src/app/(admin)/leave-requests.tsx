@@ -0,0 +1,434 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native'
+import { Text, TextInput, Button, Card, Snackbar, Chip, ActivityIndicator, Dialog, Portal } from 'react-native-paper'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import {
+  useLeavePolicy,
+  useUpdateLeavePolicy,
+  useLeaveRequests,
+  useReviewLeaveRequest,
+} from '@/hooks/useLeave'
+import {
+  calculateRebateDays,
+  countLeaveDays,
+  formatLeaveRange,
+  DEFAULT_LEAVE_POLICY,
+  LEAVE_STATUS_COLORS,
+  LEAVE_STATUS_LABELS,
+  type LeavePolicy,
+  type LeaveRequest,
+  type LeaveStatus,
+} from '@/lib/leave'
+
+const STATUS_FILTERS: LeaveStatus[] = ['pending', 'approved', 'rejected', 'cancelled']
+
+const POLICY_FIELDS: { key: keyof LeavePolicy; label: string }[] = [
+  { key: 'minNoticeDays', label: 'Notice (days)' },
+  { key: 'maxLeaveDays', label: 'Max leave (days)' },
+  { key: 'minRebateDays', label: 'Min days for rebate' },
+  { key: 'rebatePercent', label: 'Rebate (%)' },
+]
+
+const toPolicyForm = (policy: LeavePolicy) =>
+  Object.fromEntries(POLICY_FIELDS.map(({ key }) => [key, String(policy[key])])) as Record<keyof LeavePolicy, string>
+
+export default function LeaveRequestsScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+
+  const [statusFilter, setStatusFilter] = useState<LeaveStatus>('pending')
+  const [reviewing, setReviewing] = useState<{ leave: LeaveRequest; decision: 'approved' | 'rejected' } | null>(null)
+  const [reviewNote, setReviewNote] = useState('')
+  const [snackbarVisible, setSnackbarVisible] = useState(false)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  const { data: policy = DEFAULT_LEAVE_POLICY } = useLeavePolicy()
+  const updatePolicyMutation = useUpdateLeavePolicy()
+  const [policyForm, setPolicyForm] = useState(toPolicyForm(policy))
+
+  const { data: leaveRequests, isLoading, isFetching } = useLeaveRequests({ status: statusFilter })
+  const reviewMutation = useReviewLeaveRequest()
+
+  // Reset the form whenever the saved policy loads or changes
+  useEffect(() => {
+    setPolicyForm(toPolicyForm(policy))
+  }, [policy])
+
+  const showMessage = (message: string) => {
+    setSnackbarMessage(message)
+    setSnackbarVisible(true)
+  }
+
+  const handleSavePolicy = async () => {
+    const values = Object.fromEntries(
+      POLICY_FIELDS.map(({ key }) => [key, parseInt(policyForm[key], 10)])
+    ) as unknown as LeavePolicy
+
+    if (POLICY_FIELDS.some(({ key }) => isNaN(values[key]) || values[key] < 0)) {
+      showMessage('Policy values must be whole numbers')
+      return
+    }
+
+    try {
+      await updatePolicyMutation.mutateAsync(values)
+      showMessage('Leave policy saved')
+    } catch (error: any) {
+      showMessage(error.message || 'Failed to save leave policy')
+    }
+  }
+
+  const openReview = (leave: LeaveRequest, decision: 'approved' | 'rejected') => {
+    setReviewNote('')
+    setReviewing({ leave, decision })
+  }
+
+  const handleReview = async () => {
+    if (!reviewing) return
+
+    try {
+      await reviewMutation.mutateAsync({
+        id: reviewing.leave.id,
+        decision: reviewing.decision,
+        note: reviewNote.trim() || undefined,
+      })
+      showMessage(reviewing.decision === 'approved' ? 'Leave approved' : 'Leave rejected')
+      setReviewing(null)
+    } catch (error: any) {
+      showMessage(error.message || 'Failed to review leave request')
+    }
+  }
+
+  const rebateFor = (leave: LeaveRequest) =>
+    leave.status === 'pending'
+      ? leave.student ? calculateRebateDays(policy, leave, leave.student) : 0
+      : leave.rebateDays
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Leave Requests
+          </Text>
+          <View style={{ width: 60 }}>
+            {isFetching && <ActivityIndicator size="small" color="#7B2CBF" />}
+          </View>
+        </View>
+
+        {/* Policy */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Leave Policy
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Approved leave of at least the minimum length extends the student's plan by the rebate share of the leave days
+            </Text>
+            <View style={styles.policyGrid}>
+              {POLICY_FIELDS.map(({ key, label }) => (
+                <TextInput
+                  key={key}
+                  label={label}
+                  value={policyForm[key]}
+                  onChangeText={(text) => setPolicyForm((current) => ({ ...current, [key]: text.replace(/[^0-9]/g, '') }))}
+                  mode="outlined"
+                  keyboardType="numeric"
+                  style={styles.policyInput}
+                />
+              ))}
+            </View>
+            <Button
+              mode="contained"
+              onPress={handleSavePolicy}
+              loading={updatePolicyMutation.isPending}
+              disabled={updatePolicyMutation.isPending}
+              style={styles.saveButton}
+            >
+              Save Policy
+            </Button>
+          </Card.Content>
+        </Card>
+
+        {/* Status filter */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterChips}
+        >
+          {STATUS_FILTERS.map((status) => (
+            <Chip
+              key={status}
+              selected={statusFilter === status}
+              onPress={() => setStatusFilter(status)}
+              style={[styles.filterChip, statusFilter === status && styles.filterChipSelected]}
+              textStyle={statusFilter === status ? styles.filterChipTextSelected : undefined}
+              showSelectedCheck={false}
+            >
+              {LEAVE_STATUS_LABELS[status]}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        {/* Requests */}
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color="#7B2CBF" />
+        ) : !leaveRequests || leaveRequests.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No {LEAVE_STATUS_LABELS[statusFilter].toLowerCase()} leave requests
+          </Text>
+        ) : (
+          leaveRequests.map((leave) => {
+            const days = countLeaveDays(leave.startDate, leave.endDate)
+            const rebate = rebateFor(leave)
+
+            return (
+              <Card key={leave.id} style={styles.card}>
+                <Card.Content>
+                  <View style={styles.requestHeader}>
+                    <View style={styles.requestTitle}>
+                      <Text variant="titleMedium" style={styles.studentName}>
+                        {leave.student?.name ?? `Student #${leave.studentId}`}
+                      </Text>
+                      {leave.student?.rollNumber && (
+                        <Text variant="bodySmall" style={styles.requestMeta}>
+                          Roll No. {leave.student.rollNumber}
+                        </Text>
+                      )}
+                    </View>
+                    <Chip
+                      compact
+                      style={{ backgroundColor: LEAVE_STATUS_COLORS[leave.status].background }}
+                      textStyle={{ color: LEAVE_STATUS_COLORS[leave.status].color }}
+                    >
+                      {LEAVE_STATUS_LABELS[leave.status]}
+                    </Chip>
+                  </View>
+
+                  <Text variant="bodyMedium" style={styles.requestDates}>
+                    {formatLeaveRange(leave)} • {days} day{days !== 1 ? 's' : ''}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.requestMeta}>
+                    {leave.status === 'pending'
+                      ? rebate > 0
+                        ? `Approving extends the plan by ${rebate} day${rebate !== 1 ? 's' : ''}`
+                        : 'Approving does not extend the plan'
+                      : leave.status === 'approved'
+                        ? `Plan extended by ${rebate} day${rebate !== 1 ? 's' : ''}`
+                        : `Requested ${new Date(leave.createdAt).toLocaleDateString()}`}
+                  </Text>
+
+                  {leave.reason && (
+                    <Text variant="bodyMedium" style={styles.requestReason}>
+                      “{leave.reason}”
+                    </Text>
+                  )}
+                  {leave.reviewNote && (
+                    <Text variant="bodySmall" style={styles.reviewNote}>
+                      Note: {leave.reviewNote}
+                    </Text>
+                  )}
+
+                  {leave.status === 'pending' && (
+                    <View style={styles.actions}>
+                      <Button
+                        mode="outlined"
+                        onPress={() => openReview(leave, 'rejected')}
+                        textColor="#EF4444"
+                        style={styles.actionButton}
+                      >
+                        Reject
+                      </Button>
+                      <Button
+                        mode="contained"
+                        onPress={() => openReview(leave, 'approved')}
+                        style={styles.actionButton}
+                      >
+                        Approve
+                      </Button>
+                    </View>
+                  )}
+                </Card.Content>
+              </Card>
+            )
+          })
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={!!reviewing} onDismiss={() => setReviewing(null)}>
+          <Dialog.Title>
+            {reviewing?.decision === 'approved' ? 'Approve Leave' : 'Reject Leave'}
+          </Dialog.Title>
+          <Dialog.Content>
+            {reviewing && (
+              <Text variant="bodyMedium" style={styles.dialogText}>
+                {reviewing.leave.student?.name} • {formatLeaveRange(reviewing.leave)}
+                {reviewing.decision === 'approved' && rebateFor(reviewing.leave) > 0
+                  ? `\nThe plan will be extended by ${rebateFor(reviewing.leave)} day${rebateFor(reviewing.leave) !== 1 ? 's' : ''}.`
+                  : ''}
+              </Text>
+            )}
+            <TextInput
+              label="Note for the student (optional)"
+              value={reviewNote}
+              onChangeText={setReviewNote}
+              mode="outlined"
+              multiline
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setReviewing(null)} disabled={reviewMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onPress={handleReview}
+              loading={reviewMutation.isPending}
+              disabled={reviewMutation.isPending}
+              textColor={reviewing?.decision === 'rejected' ? '#EF4444' : '#7B2CBF'}
+            >
+              {reviewing?.decision === 'approved' ? 'Approve' : 'Reject'}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={3000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    color: '#666',
+    marginBottom: 12,
+  },
+  policyGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  policyInput: {
+    flexBasis: '45%',
+    flexGrow: 1,
+  },
+  saveButton: {
+    marginTop: 16,
+  },
+  filterChips: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  filterChip: {
+    backgroundColor: '#FFFFFF',
+  },
+  filterChipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  filterChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  loading: {
+    marginTop: 24,
+  },
+  emptyText: {
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  requestTitle: {
+    flex: 1,
+  },
+  studentName: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  requestDates: {
+    color: '#1a1a1a',
+    marginTop: 8,
+  },
+  requestMeta: {
+    color: '#666',
+    marginTop: 2,
+  },
+  requestReason: {
+    color: '#374151',
+    marginTop: 8,
+  },
+  reviewNote: {
+    color: '#6B7280',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    minWidth: 100,
+  },
+  dialogText: {
+    color: '#374151',
+    marginBottom: 12,
+  },
+})
@@ -0,0 +1,234 @@
+import React, { useState } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
+import { Text, Button, Card, Chip, ActivityIndicator } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format, parseISO, isToday, isTomorrow } from 'date-fns'
+import { useMealForecast } from '@/hooks/useMealRSVP'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { getMealColors, getMealIcon, getMealName } from '@/lib/meal-schedule'
+import { FORECAST_HISTORY_WEEKS } from '@/lib/meal-forecast'
+
+const FORECAST_DAY_OPTIONS = [3, 5, 7]
+
+const formatForecastDate = (date: string) => {
+  const parsed = parseISO(date)
+  if (isToday(parsed)) return `Today, ${format(parsed, 'dd MMM')}`
+  if (isTomorrow(parsed)) return `Tomorrow, ${format(parsed, 'dd MMM')}`
+  return format(parsed, 'EEEE, dd MMM')
+}
+
+export default function MealForecastScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const [days, setDays] = useState(3)
+
+  const { data: mealSchedule } = useMealSchedule()
+  const { data: forecast, isLoading, isFetching, error, refetch } = useMealForecast(days)
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+        refreshControl={<RefreshControl refreshing={isFetching && !isLoading} onRefresh={refetch} />}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Meal Forecast
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <Text variant="bodySmall" style={styles.description}>
+          Expected headcount = students who confirmed + students who haven't answered × their attendance rate on the same weekday over the last {FORECAST_HISTORY_WEEKS} weeks. Students on leave or who opted out are left out.
+        </Text>
+
+        <View style={styles.dayOptions}>
+          {FORECAST_DAY_OPTIONS.map((option) => (
+            <Chip
+              key={option}
+              selected={days === option}
+              onPress={() => setDays(option)}
+              style={[styles.dayChip, days === option && styles.dayChipSelected]}
+              textStyle={days === option ? styles.dayChipTextSelected : undefined}
+              showSelectedCheck={false}
+            >
+              {option} days
+            </Chip>
+          ))}
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color="#7B2CBF" />
+        ) : error ? (
+          <Text variant="bodyMedium" style={styles.errorText}>
+            {(error as Error).message || 'Failed to load forecast'}
+          </Text>
+        ) : (
+          forecast?.map((day) => (
+            <Card key={day.date} style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.dayTitle}>
+                  {formatForecastDate(day.date)}
+                </Text>
+
+                {day.meals.length === 0 ? (
+                  <Text variant="bodySmall" style={styles.noMeals}>
+                    No meals served
+                  </Text>
+                ) : (
+                  day.meals.map((mealForecast) => {
+                    const colors = getMealColors(mealForecast.meal, mealSchedule)
+
+                    return (
+                      <View key={mealForecast.meal} style={styles.mealRow}>
+                        <View style={[styles.mealIcon, { backgroundColor: colors.background }]}>
+                          <MaterialCommunityIcons
+                            name={getMealIcon(mealForecast.meal, mealSchedule) as keyof typeof MaterialCommunityIcons.glyphMap}
+                            size={20}
+                            color={colors.dark}
+                          />
+                        </View>
+                        <View style={styles.mealInfo}>
+                          <Text variant="bodyLarge" style={styles.mealName}>
+                            {getMealName(mealForecast.meal, mealSchedule)}
+                          </Text>
+                          <Text variant="bodySmall" style={styles.mealBreakdown}>
+                            {mealForecast.eligible} eligible • {mealForecast.confirmed} confirmed • {mealForecast.optedOut} opted out
+                            {mealForecast.onLeave > 0 ? ` • ${mealForecast.onLeave} on leave` : ''}
+                          </Text>
+                          <Text variant="bodySmall" style={styles.mealBreakdown}>
+                            {mealForecast.attendanceRate === null
+                              ? 'No attendance history yet'
+                              : `Usually ${Math.round(mealForecast.attendanceRate * 100)}% attend`}
+                          </Text>
+                        </View>
+                        <View style={styles.expected}>
+                          <Text variant="headlineSmall" style={[styles.expectedValue, { color: colors.dark }]}>
+                            {mealForecast.expected}
+                          </Text>
+                          <Text variant="bodySmall" style={styles.expectedLabel}>
+                            expected
+                          </Text>
+                        </View>
+                      </View>
+                    )
+                  })
+                )}
+              </Card.Content>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  description: {
+    color: '#666',
+    marginBottom: 12,
+  },
+  dayOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  dayChip: {
+    backgroundColor: '#FFFFFF',
+  },
+  dayChipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  dayChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  loading: {
+    marginTop: 24,
+  },
+  errorText: {
+    color: '#EF4444',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  dayTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  noMeals: {
+    color: '#666',
+  },
+  mealRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  mealIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  mealInfo: {
+    flex: 1,
+  },
+  mealName: {
+    fontWeight: '500',
+    color: '#1a1a1a',
+  },
+  mealBreakdown: {
+    color: '#666',
+  },
+  expected: {
+    alignItems: 'center',
+    minWidth: 64,
+  },
+  expectedValue: {
+    fontWeight: 'bold',
+  },
+  expectedLabel: {
+    color: '#666',
+  },
+})
@@ -0,0 +1,600 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native'
+import { Text, TextInput, Button, Card, Snackbar, Chip, Switch, Divider, ActivityIndicator, IconButton } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { useMealSchedule, useUpdateMealSchedule } from '@/hooks/useMealSchedule'
+import {
+  MEAL_ICON_OPTIONS,
+  NEW_MEAL_WINDOW,
+  WEEKDAY_NAMES,
+  toMealKey,
+  validateMealSchedule,
+  type MealKey,
+  type MealSchedule,
+  type MealType,
+  type MealWindow,
+} from '@/lib/meal-schedule'
+
+export default function MealScheduleScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const { data: savedSchedule, isFetching } = useMealSchedule()
+  const updateMutation = useUpdateMealSchedule()
+
+  const [schedule, setSchedule] = useState<MealSchedule>(savedSchedule)
+  const [selectedDay, setSelectedDay] = useState(new Date().getDay())
+  const [graceBefore, setGraceBefore] = useState(String(savedSchedule.graceBeforeMinutes))
+  const [graceAfter, setGraceAfter] = useState(String(savedSchedule.graceAfterMinutes))
+  const [rsvpCutoff, setRsvpCutoff] = useState(String(savedSchedule.rsvpCutoffMinutes))
+  const [newMealName, setNewMealName] = useState('')
+  const [iconPickerFor, setIconPickerFor] = useState<MealKey | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [snackbarVisible, setSnackbarVisible] = useState(false)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  // Reset the form whenever the saved schedule loads or changes
+  useEffect(() => {
+    setSchedule(savedSchedule)
+    setGraceBefore(String(savedSchedule.graceBeforeMinutes))
+    setGraceAfter(String(savedSchedule.graceAfterMinutes))
+    setRsvpCutoff(String(savedSchedule.rsvpCutoffMinutes))
+  }, [savedSchedule])
+
+  const updateWindow = (meal: MealKey, updates: Partial<MealWindow>) => {
+    setSchedule((current) => ({
+      ...current,
+      days: current.days.map((day, index) =>
+        index === selectedDay ? { ...day, [meal]: { ...day[meal], ...updates } } : day
+      ),
+    }))
+    setError(null)
+  }
+
+  const updateMealType = (meal: MealKey, updates: Partial<Omit<MealType, 'key'>>) => {
+    setSchedule((current) => ({
+      ...current,
+      mealTypes: current.mealTypes.map((type) => (type.key === meal ? { ...type, ...updates } : type)),
+    }))
+    setError(null)
+  }
+
+  const handleAddMealType = () => {
+    const name = newMealName.trim()
+    if (!name) return
+
+    const key = toMealKey(name)
+    if (schedule.mealTypes.some((type) => type.key === key)) {
+      setError(`A meal type called "${name}" already exists`)
+      return
+    }
+
+    // New meal types start switched off on every day until timings are set
+    setSchedule((current) => ({
+      ...current,
+      mealTypes: [...current.mealTypes, { key, name, icon: 'silverware-fork-knife' }],
+      days: current.days.map((day) => ({ ...day, [key]: { ...NEW_MEAL_WINDOW } })),
+    }))
+    setNewMealName('')
+    setError(null)
+  }
+
+  const handleMoveMealType = (index: number, offset: -1 | 1) => {
+    setSchedule((current) => {
+      const mealTypes = [...current.mealTypes]
+      const [moved] = mealTypes.splice(index, 1)
+      mealTypes.splice(index + offset, 0, moved)
+      return { ...current, mealTypes }
+    })
+  }
+
+  const handleRemoveMealType = (meal: MealKey) => {
+    if (schedule.mealTypes.length <= 1) {
+      setError('At least one meal type is required')
+      return
+    }
+
+    // Past attendance for the meal is kept; it just stops being offered
+    setSchedule((current) => ({
+      ...current,
+      mealTypes: current.mealTypes.filter((type) => type.key !== meal),
+      days: current.days.map(({ [meal]: _removed, ...day }) => day),
+    }))
+    setError(null)
+  }
+
+  const handleApplyToAllDays = () => {
+    const source = schedule.days[selectedDay]
+    setSchedule((current) => ({
+      ...current,
+      days: current.days.map(() =>
+        Object.fromEntries(current.mealTypes.map((type) => [type.key, { ...source[type.key] }]))
+      ),
+    }))
+    setSnackbarMessage(`${WEEKDAY_NAMES[selectedDay]} timings copied to every day`)
+    setSnackbarVisible(true)
+  }
+
+  const handleSave = async () => {
+    const graceBeforeMinutes = parseInt(graceBefore)
+    const graceAfterMinutes = parseInt(graceAfter)
+    const rsvpCutoffMinutes = parseInt(rsvpCutoff)
+    if (isNaN(graceBeforeMinutes) || isNaN(graceAfterMinutes)) {
+      setError('Grace periods must be a number of minutes')
+      return
+    }
+    if (isNaN(rsvpCutoffMinutes)) {
+      setError('RSVP cut-off must be a number of minutes')
+      return
+    }
+
+    const newSchedule: MealSchedule = { ...schedule, graceBeforeMinutes, graceAfterMinutes, rsvpCutoffMinutes }
+    const validationError = validateMealSchedule(newSchedule)
+    if (validationError) {
+      setError(validationError)
+      setSnackbarMessage('Please fix the errors in the schedule')
+      setSnackbarVisible(true)
+      return
+    }
+
+    setError(null)
+
+    try {
+      await updateMutation.mutateAsync(newSchedule)
+      setSnackbarMessage('Meal schedule saved')
+      setSnackbarVisible(true)
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to save meal schedule'
+      setError(errorMessage)
+      setSnackbarMessage(errorMessage)
+      setSnackbarVisible(true)
+    }
+  }
+
+  const day = schedule.days[selectedDay]
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Meal Schedule
+          </Text>
+          <View style={{ width: 60 }}>
+            {isFetching && <ActivityIndicator size="small" color="#7B2CBF" />}
+          </View>
+        </View>
+
+        {/* Grace Periods */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Grace Periods
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Attendance can be marked this many minutes before a meal starts and after it ends
+            </Text>
+            <View style={styles.row}>
+              <TextInput
+                label="Before (min)"
+                value={graceBefore}
+                onChangeText={(text) => {
+                  setGraceBefore(text)
+                  setError(null)
+                }}
+                mode="outlined"
+                keyboardType="number-pad"
+                style={styles.halfInput}
+                outlineStyle={styles.inputOutline}
+              />
+              <TextInput
+                label="After (min)"
+                value={graceAfter}
+                onChangeText={(text) => {
+                  setGraceAfter(text)
+                  setError(null)
+                }}
+                mode="outlined"
+                keyboardType="number-pad"
+                style={styles.halfInput}
+                outlineStyle={styles.inputOutline}
+              />
+            </View>
+          </Card.Content>
+        </Card>
+
+        {/* RSVP Cut-off */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Meal RSVP
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Students can opt in or out of a meal until this many minutes before it starts
+            </Text>
+            <TextInput
+              label="Cut-off (min)"
+              value={rsvpCutoff}
+              onChangeText={(text) => {
+                setRsvpCutoff(text)
+                setError(null)
+              }}
+              mode="outlined"
+              keyboardType="number-pad"
+              outlineStyle={styles.inputOutline}
+            />
+          </Card.Content>
+        </Card>
+
+        {/* Meal Types */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Meal Types
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Meals served at the mess, in the order they are shown. Removing a meal type keeps its past attendance.
+            </Text>
+
+            {schedule.mealTypes.map((type, index) => (
+              <View key={type.key}>
+                <View style={styles.mealTypeRow}>
+                  <IconButton
+                    icon={type.icon}
+                    mode={iconPickerFor === type.key ? 'contained' : 'outlined'}
+                    size={20}
+                    onPress={() => setIconPickerFor(iconPickerFor === type.key ? null : type.key)}
+                  />
+                  <TextInput
+                    value={type.name}
+                    onChangeText={(name) => updateMealType(type.key, { name })}
+                    mode="outlined"
+                    dense
+                    style={styles.mealTypeInput}
+                    outlineStyle={styles.inputOutline}
+                  />
+                  <IconButton
+                    icon="chevron-up"
+                    size={20}
+                    disabled={index === 0}
+                    onPress={() => handleMoveMealType(index, -1)}
+                  />
+                  <IconButton
+                    icon="chevron-down"
+                    size={20}
+                    disabled={index === schedule.mealTypes.length - 1}
+                    onPress={() => handleMoveMealType(index, 1)}
+                  />
+                  <IconButton
+                    icon="delete-outline"
+                    size={20}
+                    iconColor="#EF4444"
+                    onPress={() => handleRemoveMealType(type.key)}
+                  />
+                </View>
+                {iconPickerFor === type.key && (
+                  <View style={styles.iconOptions}>
+                    {MEAL_ICON_OPTIONS.map((icon) => (
+                      <IconButton
+                        key={icon}
+                        icon={icon}
+                        size={20}
+                        mode={type.icon === icon ? 'contained' : undefined}
+                        onPress={() => {
+                          updateMealType(type.key, { icon })
+                          setIconPickerFor(null)
+                        }}
+                      />
+                    ))}
+                  </View>
+                )}
+              </View>
+            ))}
+
+            <View style={styles.mealTypeRow}>
+              <TextInput
+                label="New meal type"
+                value={newMealName}
+                onChangeText={setNewMealName}
+                onSubmitEditing={handleAddMealType}
+                mode="outlined"
+                dense
+                placeholder="e.g. Evening Snacks"
+                style={styles.mealTypeInput}
+                outlineStyle={styles.inputOutline}
+              />
+              <Button
+                mode="contained-tonal"
+                icon="plus"
+                onPress={handleAddMealType}
+                disabled={!newMealName.trim()}
+              >
+                Add
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+
+        {/* Weekday Selector */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.dayChips}
+        >
+          {WEEKDAY_NAMES.map((name, index) => (
+            <Chip
+              key={name}
+              selected={selectedDay === index}
+              onPress={() => setSelectedDay(index)}
+              style={[styles.dayChip, selectedDay === index && styles.dayChipSelected]}
+              textStyle={selectedDay === index ? styles.dayChipTextSelected : undefined}
+              showSelectedCheck={false}
+            >
+              {name.slice(0, 3)}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        {/* Meal Windows for the selected day */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              {WEEKDAY_NAMES[selectedDay]}
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Use 24-hour times, e.g. 07:30 or 19:45
+            </Text>
+
+            {schedule.mealTypes.map(({ key: meal, name }, index) => (
+              <View key={meal}>
+                {index > 0 && <Divider style={styles.divider} />}
+                <View style={styles.mealHeader}>
+                  <Text variant="labelLarge" style={styles.mealName}>
+                    {name}
+                  </Text>
+                  <View style={styles.switchRow}>
+                    <Text variant="bodySmall" style={styles.switchLabel}>
+                      {day[meal].enabled ? 'Served' : 'Not served'}
+                    </Text>
+                    <Switch
+                      value={day[meal].enabled}
+                      onValueChange={(enabled) => updateWindow(meal, { enabled })}
+                      color="#7B2CBF"
+                    />
+                  </View>
+                </View>
+                {day[meal].enabled && (
+                  <View style={styles.row}>
+                    <TextInput
+                      label="Start"
+                      value={day[meal].start}
+                      onChangeText={(start) => updateWindow(meal, { start })}
+                      mode="outlined"
+                      placeholder="HH:mm"
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={5}
+                      style={styles.halfInput}
+                      outlineStyle={styles.inputOutline}
+                    />
+                    <TextInput
+                      label="End"
+                      value={day[meal].end}
+                      onChangeText={(end) => updateWindow(meal, { end })}
+                      mode="outlined"
+                      placeholder="HH:mm"
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={5}
+                      style={styles.halfInput}
+                      outlineStyle={styles.inputOutline}
+                    />
+                  </View>
+                )}
+              </View>
+            ))}
+
+            <Button
+              mode="text"
+              icon="content-copy"
+              onPress={handleApplyToAllDays}
+              textColor="#7B2CBF"
+              style={styles.copyButton}
+            >
+              Apply {WEEKDAY_NAMES[selectedDay]} timings to all days
+            </Button>
+          </Card.Content>
+        </Card>
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <MaterialCommunityIcons name="alert-circle" size={16} color="#EF4444" />
+            <Text variant="bodySmall" style={styles.error}>
+              {error}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Sticky Action Buttons */}
+      <View style={[styles.stickyButtonContainer, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.actions}>
+          <Button
+            mode="outlined"
+            onPress={() => router.back()}
+            style={styles.cancelButton}
+          >
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            loading={updateMutation.isPending}
+            disabled={updateMutation.isPending}
+            style={styles.submitButton}
+            buttonColor="#7B2CBF"
+          >
+            Save Schedule
+          </Button>
+        </View>
+      </View>
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={3000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    color: '#666',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 8,
+  },
+  halfInput: {
+    flex: 1,
+  },
+  inputOutline: {
+    borderWidth: 1,
+  },
+  dayChips: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  dayChip: {
+    backgroundColor: '#FFFFFF',
+  },
+  dayChipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  dayChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  mealHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  mealName: {
+    color: '#1a1a1a',
+    fontWeight: '600',
+  },
+  mealTypeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 8,
+  },
+  mealTypeInput: {
+    flex: 1,
+  },
+  iconOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  switchLabel: {
+    color: '#666',
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  copyButton: {
+    marginTop: 8,
+    alignSelf: 'flex-start',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  error: {
+    color: '#EF4444',
+    fontSize: 13,
+    flex: 1,
+  },
+  stickyButtonContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: '#7B2CBF',
+  },
+})
@@ -2,12 +2,15 @@ import { View, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-nat
 import { Text, Switch, Card, Button, Divider, Snackbar, List } from 'react-native-paper'
 import { useNotifications } from '@/context/NotificationContext'
 import { NotificationFrequency } from '@/lib/notifications'
+import { getDaySchedule, getMealColors, formatMealWindow } from '@/lib/meal-schedule'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useState } from 'react'
 import { format } from 'date-fns'
 import { useRouter } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 
+
 const FREQUENCY_OPTIONS: Array<{ value: NotificationFrequency; label: string }> = [
   { value: 5, label: 'Every 5 minutes' },
   { value: 10, label: 'Every 10 minutes' },
@@ -29,6 +32,8 @@ export default function NotificationSettingsScreen() {
     requestPermissions,
     lastNotificationTime,
   } = useNotifications()
+  const { data: mealSchedule } = useMealSchedule()
+  const todaySchedule = getDaySchedule(mealSchedule)
 
   const [snackbarVisible, setSnackbarVisible] = useState(false)
   const [snackbarMessage, setSnackbarMessage] = useState('')
@@ -252,37 +257,32 @@ export default function NotificationSettingsScreen() {
               Active Hours
             </Text>
             <Text variant="bodySmall" style={styles.sectionDescription}>
-              Notifications are only sent during meal hours
+              Notifications are only sent during today's meal hours
             </Text>
           </Card.Content>
+          {mealSchedule.mealTypes.map(({ key: meal, name, icon }) => (
+            <View key={meal}>
+              <List.Item
+                title={name}
+                description={todaySchedule[meal]?.enabled ? formatMealWindow(todaySchedule[meal]) : 'Not served today'}
+                left={(props) => (
+                  <List.Icon {...props} icon={icon} color={getMealColors(meal, mealSchedule).color} />
+                )}
+                titleStyle={styles.listTitle}
+                descriptionStyle={styles.listDescription}
+                style={styles.listItem}
+              />
+              <Divider />
+            </View>
+          ))}
           <List.Item
-            title="Breakfast"
-            description="7:00 AM - 10:00 AM"
-            left={(props) => (
-              <List.Icon {...props} icon="weather-sunset-up" color="#f59e0b" />
-            )}
-            titleStyle={styles.listTitle}
-            descriptionStyle={styles.listDescription}
-            style={styles.listItem}
-          />
-          <Divider />
-          <List.Item
-            title="Lunch"
-            description="12:00 PM - 3:00 PM"
-            left={(props) => (
-              <List.Icon {...props} icon="weather-sunny" color="#10b981" />
-            )}
-            titleStyle={styles.listTitle}
-            descriptionStyle={styles.listDescription}
-            style={styles.listItem}
-          />
-          <Divider />
-          <List.Item
-            title="Dinner"
-            description="7:00 PM - 10:00 PM"
+            title="Edit Meal Schedule"
+            description="Timings per weekday and grace periods"
             left={(props) => (
-              <List.Icon {...props} icon="weather-night" color="#6366f1" />
+              <List.Icon {...props} icon="clock-edit-outline" color="#7B2CBF" />
             )}
+            right={(props) => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => router.push('/(admin)/meal-schedule')}
             titleStyle={styles.listTitle}
             descriptionStyle={styles.listDescription}
             style={styles.lastListItem}
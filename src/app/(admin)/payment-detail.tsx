@@ -5,6 +5,12 @@ import { useRouter, useLocalSearchParams } from 'expo-router'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { format } from 'date-fns'
 import { usePayment, useDeletePayment } from '@/hooks/usePayments'
+import { useShareReceipt } from '@/hooks/useBilling'
+import { useRefunds, useCreateRefund } from '@/hooks/useRefunds'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { getPaymentMethodName, getPaymentMethodStyle } from '@/lib/payment-methods'
+import { getRefundableAmount, type RefundType } from '@/lib/refunds'
+import { RefundDialog } from '@/components/payments/RefundDialog'
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog'
 import { StudentBalanceDisplay } from '@/components/payments/StudentBalanceDisplay'
 
@@ -14,11 +20,16 @@ export default function PaymentDetailScreen() {
   const paymentId = id ? parseInt(id) : 0
 
   const [deleteConfirmVisible, setDeleteConfirmVisible] = useState(false)
+  const [refundVisible, setRefundVisible] = useState(false)
   const [snackbarVisible, setSnackbarVisible] = useState(false)
   const [snackbarMessage, setSnackbarMessage] = useState('')
 
   const { data: payment, isLoading, error } = usePayment(paymentId)
   const deleteMutation = useDeletePayment()
+  const shareReceipt = useShareReceipt()
+  const { data: refunds } = useRefunds({ paymentId })
+  const createRefund = useCreateRefund()
+  const { data: methods } = usePaymentMethods()
 
   const handleDelete = () => {
     setDeleteConfirmVisible(true)
@@ -41,29 +52,31 @@ export default function PaymentDetailScreen() {
     }
   }
 
-  const getMethodIcon = (method: string | null) => {
-    switch (method) {
-      case 'Cash':
-        return 'cash'
-      case 'UPI':
-        return 'cellphone'
-      case 'Online':
-        return 'credit-card'
-      default:
-        return 'currency-inr'
+  const handleRefund = async (data: { type: RefundType; amount: number; method: string | null; reason: string }) => {
+    if (!payment) return
+
+    try {
+      await createRefund.mutateAsync({
+        studentId: payment.studentId,
+        paymentId: payment.id,
+        ...data,
+        refundDate: format(new Date(), 'yyyy-MM-dd'),
+      })
+      setRefundVisible(false)
+      setSnackbarMessage('✅ Refund issued')
+      setSnackbarVisible(true)
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error.message || 'Failed to issue refund'}`)
+      setSnackbarVisible(true)
     }
   }
 
-  const getMethodColor = (method: string | null) => {
-    switch (method) {
-      case 'Cash':
-        return '#10B981'
-      case 'UPI':
-        return '#6366F1'
-      case 'Online':
-        return '#8B5CF6'
-      default:
-        return '#6B7280'
+  const handleShareReceipt = async () => {
+    try {
+      await shareReceipt.mutateAsync(paymentId)
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error.message || 'Failed to share receipt'}`)
+      setSnackbarVisible(true)
     }
   }
 
@@ -95,6 +108,9 @@ export default function PaymentDetailScreen() {
     )
   }
 
+  const paymentRefunds = refunds || []
+  const refundable = getRefundableAmount(Number(payment.amount), paymentRefunds, payment.id)
+
   return (
     <View style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
@@ -114,17 +130,61 @@ export default function PaymentDetailScreen() {
               </Text>
               <View style={styles.methodBadge}>
                 <MaterialCommunityIcons
-                  name={getMethodIcon(payment.method) as any}
+                  name={getPaymentMethodStyle(payment.method, methods).icon as any}
                   size={20}
-                  color={getMethodColor(payment.method)}
+                  color={getPaymentMethodStyle(payment.method, methods).color}
                 />
-                <Text variant="bodyMedium" style={[styles.method, { color: getMethodColor(payment.method) }]}>
-                  {payment.method || 'N/A'}
+                <Text
+                  variant="bodyMedium"
+                  style={[styles.method, { color: getPaymentMethodStyle(payment.method, methods).color }]}
+                >
+                  {getPaymentMethodName(payment.method, methods)}
                 </Text>
               </View>
             </View>
 
             <View style={styles.details}>
+              <View style={styles.detailRow}>
+                <Text variant="bodySmall" style={styles.detailLabel}>
+                  Receipt No.:
+                </Text>
+                <Text variant="bodyMedium" style={styles.detailValue}>
+                  {payment.receiptNumber || 'N/A'}
+                </Text>
+              </View>
+              {payment.reference && (
+                <View style={styles.detailRow}>
+                  <Text variant="bodySmall" style={styles.detailLabel}>
+                    Reference:
+                  </Text>
+                  <Text variant="bodyMedium" style={styles.detailValue} selectable>
+                    {payment.reference}
+                  </Text>
+                </View>
+              )}
+              {payment.notes && (
+                <View style={styles.detailRow}>
+                  <Text variant="bodySmall" style={styles.detailLabel}>
+                    Notes:
+                  </Text>
+                  <Text variant="bodyMedium" style={[styles.detailValue, styles.notesValue]} selectable>
+                    {payment.notes}
+                  </Text>
+                </View>
+              )}
+              {payment.statementStatus && (
+                <View style={styles.detailRow}>
+                  <Text variant="bodySmall" style={styles.detailLabel}>
+                    Bank Statement:
+                  </Text>
+                  <Text
+                    variant="bodyMedium"
+                    style={[styles.detailValue, { color: payment.statementStatus === 'missing' ? '#EF4444' : '#10B981' }]}
+                  >
+                    {payment.statementStatus === 'missing' ? 'Not found' : 'Matched'}
+                  </Text>
+                </View>
+              )}
               <View style={styles.detailRow}>
                 <Text variant="bodySmall" style={styles.detailLabel}>
                   Payment Date:
@@ -141,6 +201,16 @@ export default function PaymentDetailScreen() {
                   {format(new Date(payment.createdAt), 'dd MMM yyyy, hh:mm a')}
                 </Text>
               </View>
+              {paymentRefunds.map((refund) => (
+                <View key={refund.id} style={styles.detailRow}>
+                  <Text variant="bodySmall" style={styles.detailLabel}>
+                    Refunded {format(new Date(refund.refundDate), 'dd MMM yyyy')} ({getPaymentMethodName(refund.method, methods)}):
+                  </Text>
+                  <Text variant="bodyMedium" style={[styles.detailValue, styles.refundValue]}>
+                    −₹{refund.amount.toFixed(2)}
+                  </Text>
+                </View>
+              ))}
             </View>
           </Card.Content>
         </Card>
@@ -202,6 +272,27 @@ export default function PaymentDetailScreen() {
 
         {/* Actions */}
         <View style={styles.actions}>
+          <Button
+            mode="outlined"
+            onPress={handleShareReceipt}
+            loading={shareReceipt.isPending}
+            disabled={shareReceipt.isPending}
+            style={styles.receiptButton}
+            icon="file-pdf-box"
+            textColor="#7B2CBF"
+          >
+            Share Receipt
+          </Button>
+          <Button
+            mode="outlined"
+            onPress={() => setRefundVisible(true)}
+            disabled={refundable <= 0}
+            style={styles.receiptButton}
+            icon="cash-refund"
+            textColor="#7B2CBF"
+          >
+            {refundable <= 0 ? 'Fully Refunded' : 'Refund Payment'}
+          </Button>
           <Button
             mode="contained"
             onPress={() => router.push(`/(admin)/edit-payment?id=${payment.id}`)}
@@ -222,6 +313,16 @@ export default function PaymentDetailScreen() {
         </View>
       </ScrollView>
 
+      {/* Refund */}
+      <RefundDialog
+        visible={refundVisible}
+        types={['refund']}
+        refundLimit={refundable}
+        onConfirm={handleRefund}
+        onCancel={() => setRefundVisible(false)}
+        loading={createRefund.isPending}
+      />
+
       {/* Delete Confirmation */}
       <ConfirmDialog
         visible={deleteConfirmVisible}
@@ -312,6 +413,11 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#1A1A1A',
   },
+  notesValue: {
+    flexShrink: 1,
+    marginLeft: 16,
+    textAlign: 'right',
+  },
   sectionTitle: {
     fontWeight: '600',
     color: '#1A1A1A',
@@ -325,6 +431,13 @@ const styles = StyleSheet.create({
     marginTop: 8,
     marginBottom: 24,
   },
+  refundValue: {
+    color: '#EF4444',
+  },
+  receiptButton: {
+    borderRadius: 8,
+    borderColor: '#7B2CBF',
+  },
   editButton: {
     borderRadius: 8,
     backgroundColor: '#7B2CBF',
@@ -0,0 +1,387 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native'
+import { Text, TextInput, Button, Card, Snackbar, Switch, Divider, ActivityIndicator, IconButton } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { usePaymentMethods, useUpdatePaymentMethods } from '@/hooks/usePaymentMethods'
+import {
+  MAX_PAYMENT_METHODS,
+  PAYMENT_METHOD_ICON_OPTIONS,
+  toPaymentMethodKey,
+  validatePaymentMethods,
+  type PaymentMethod,
+} from '@/lib/payment-methods'
+
+export default function PaymentMethodsScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const { data: savedMethods, isFetching } = usePaymentMethods()
+  const updateMutation = useUpdatePaymentMethods()
+
+  const [methods, setMethods] = useState<PaymentMethod[]>(savedMethods)
+  const [newMethodName, setNewMethodName] = useState('')
+  const [iconPickerFor, setIconPickerFor] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [snackbarVisible, setSnackbarVisible] = useState(false)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  // Reset the form whenever the saved methods load or change
+  useEffect(() => {
+    setMethods(savedMethods)
+  }, [savedMethods])
+
+  const updateMethod = (key: string, updates: Partial<Omit<PaymentMethod, 'key'>>) => {
+    setMethods((current) => current.map((method) => (method.key === key ? { ...method, ...updates } : method)))
+    setError(null)
+  }
+
+  const handleAddMethod = () => {
+    const name = newMethodName.trim()
+    if (!name) return
+
+    const key = toPaymentMethodKey(name)
+    if (methods.some((method) => method.key.toLowerCase() === key.toLowerCase())) {
+      setError(`A payment method called "${name}" already exists`)
+      return
+    }
+    if (methods.length >= MAX_PAYMENT_METHODS) {
+      setError(`At most ${MAX_PAYMENT_METHODS} payment methods can be added`)
+      return
+    }
+
+    setMethods((current) => [
+      ...current,
+      { key, name, icon: 'currency-inr', requiresReference: false, cashInHand: false },
+    ])
+    setNewMethodName('')
+    setError(null)
+  }
+
+  const handleMoveMethod = (index: number, offset: -1 | 1) => {
+    setMethods((current) => {
+      const next = [...current]
+      const [moved] = next.splice(index, 1)
+      next.splice(index + offset, 0, moved)
+      return next
+    })
+  }
+
+  const handleRemoveMethod = (key: string) => {
+    if (methods.length <= 1) {
+      setError('At least one payment method is required')
+      return
+    }
+
+    // Payments already recorded with the method keep it
+    setMethods((current) => current.filter((method) => method.key !== key))
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    const validationError = validatePaymentMethods(methods)
+    if (validationError) {
+      setError(validationError)
+      setSnackbarMessage('Please fix the errors in the payment methods')
+      setSnackbarVisible(true)
+      return
+    }
+
+    setError(null)
+
+    try {
+      await updateMutation.mutateAsync(methods)
+      setSnackbarMessage('Payment methods saved')
+      setSnackbarVisible(true)
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to save payment methods'
+      setError(errorMessage)
+      setSnackbarMessage(errorMessage)
+      setSnackbarVisible(true)
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Payment Methods
+          </Text>
+          <View style={{ width: 60 }}>
+            {isFetching && <ActivityIndicator size="small" color="#7B2CBF" />}
+          </View>
+        </View>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Methods
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Ways payments are taken, in the order they are shown. Removing a method keeps the payments already
+              recorded with it.
+            </Text>
+
+            {methods.map((method, index) => (
+              <View key={method.key}>
+                {index > 0 && <Divider style={styles.divider} />}
+                <View style={styles.methodRow}>
+                  <IconButton
+                    icon={method.icon}
+                    mode={iconPickerFor === method.key ? 'contained' : 'outlined'}
+                    size={20}
+                    onPress={() => setIconPickerFor(iconPickerFor === method.key ? null : method.key)}
+                  />
+                  <TextInput
+                    value={method.name}
+                    onChangeText={(name) => updateMethod(method.key, { name })}
+                    mode="outlined"
+                    dense
+                    style={styles.methodInput}
+                    outlineStyle={styles.inputOutline}
+                  />
+                  <IconButton
+                    icon="chevron-up"
+                    size={20}
+                    disabled={index === 0}
+                    onPress={() => handleMoveMethod(index, -1)}
+                  />
+                  <IconButton
+                    icon="chevron-down"
+                    size={20}
+                    disabled={index === methods.length - 1}
+                    onPress={() => handleMoveMethod(index, 1)}
+                  />
+                  <IconButton
+                    icon="delete-outline"
+                    size={20}
+                    iconColor="#EF4444"
+                    onPress={() => handleRemoveMethod(method.key)}
+                  />
+                </View>
+                {iconPickerFor === method.key && (
+                  <View style={styles.iconOptions}>
+                    {PAYMENT_METHOD_ICON_OPTIONS.map((icon) => (
+                      <IconButton
+                        key={icon}
+                        icon={icon}
+                        size={20}
+                        mode={method.icon === icon ? 'contained' : undefined}
+                        onPress={() => {
+                          updateMethod(method.key, { icon })
+                          setIconPickerFor(null)
+                        }}
+                      />
+                    ))}
+                  </View>
+                )}
+                <View style={styles.switchRow}>
+                  <Text variant="bodySmall" style={styles.switchLabel}>
+                    Reference number required
+                  </Text>
+                  <Switch
+                    value={method.requiresReference}
+                    onValueChange={(requiresReference) => updateMethod(method.key, { requiresReference })}
+                    color="#7B2CBF"
+                  />
+                </View>
+                <View style={styles.switchRow}>
+                  <Text variant="bodySmall" style={styles.switchLabel}>
+                    Counts as cash in hand
+                  </Text>
+                  <Switch
+                    value={method.cashInHand}
+                    onValueChange={(cashInHand) => updateMethod(method.key, { cashInHand })}
+                    color="#7B2CBF"
+                  />
+                </View>
+              </View>
+            ))}
+
+            <View style={[styles.methodRow, styles.addRow]}>
+              <TextInput
+                label="New payment method"
+                value={newMethodName}
+                onChangeText={setNewMethodName}
+                onSubmitEditing={handleAddMethod}
+                mode="outlined"
+                dense
+                placeholder="e.g. Cheque"
+                style={styles.methodInput}
+                outlineStyle={styles.inputOutline}
+              />
+              <Button
+                mode="contained-tonal"
+                icon="plus"
+                onPress={handleAddMethod}
+                disabled={!newMethodName.trim()}
+              >
+                Add
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <MaterialCommunityIcons name="alert-circle" size={16} color="#EF4444" />
+            <Text variant="bodySmall" style={styles.error}>
+              {error}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Sticky Action Buttons */}
+      <View style={[styles.stickyButtonContainer, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.actions}>
+          <Button
+            mode="outlined"
+            onPress={() => router.back()}
+            style={styles.cancelButton}
+          >
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            loading={updateMutation.isPending}
+            disabled={updateMutation.isPending}
+            style={styles.submitButton}
+            buttonColor="#7B2CBF"
+          >
+            Save Methods
+          </Button>
+        </View>
+      </View>
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={3000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </KeyboardAvoidingView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    color: '#666',
+    marginBottom: 12,
+  },
+  inputOutline: {
+    borderWidth: 1,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 8,
+  },
+  addRow: {
+    marginTop: 16,
+  },
+  methodInput: {
+    flex: 1,
+  },
+  iconOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingLeft: 8,
+  },
+  switchLabel: {
+    color: '#666',
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  error: {
+    color: '#EF4444',
+    fontSize: 13,
+    flex: 1,
+  },
+  stickyButtonContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: '#7B2CBF',
+  },
+})
@@ -13,65 +13,42 @@ import {
 } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { usePayments, usePaymentStats, useDeletePayment } from '@/hooks/usePayments'
+import { useUpiPaymentRequests } from '@/hooks/useUpiPayments'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { getPaymentMethodName } from '@/lib/payment-methods'
 import { PaymentCard } from '@/components/payments/PaymentCard'
 import { PaymentStatsCards } from '@/components/payments/PaymentStatsCards'
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog'
 import { useRouter } from 'expo-router'
+import { getPaymentDateRange, type PaymentDateFilter } from '@/lib/payments'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 
-type DateFilter = 'all' | 'today' | 'week' | 'month'
-
 export default function PaymentsScreen() {
   const router = useRouter()
   const [searchQuery, setSearchQuery] = useState('')
   const [showSearchResults, setShowSearchResults] = useState(false)
-  const [dateFilter, setDateFilter] = useState<DateFilter>('all')
+  const [dateFilter, setDateFilter] = useState<PaymentDateFilter>('all')
   const [methodFilter, setMethodFilter] = useState<string>('all')
   const [methodMenuVisible, setMethodMenuVisible] = useState(false)
+  const { data: methods } = usePaymentMethods()
+  const [missingOnly, setMissingOnly] = useState(false)
   const [refreshing, setRefreshing] = useState(false)
   const [deleteConfirmVisible, setDeleteConfirmVisible] = useState(false)
   const [deleteId, setDeleteId] = useState<number | null>(null)
   const [snackbarVisible, setSnackbarVisible] = useState(false)
   const [snackbarMessage, setSnackbarMessage] = useState('')
 
-  // Calculate date range based on filter
-  const getDateRange = () => {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-
-    switch (dateFilter) {
-      case 'today':
-        return {
-          startDate: today.toISOString().split('T')[0],
-          endDate: today.toISOString().split('T')[0],
-        }
-      case 'week':
-        const weekStart = new Date(today)
-        weekStart.setDate(today.getDate() - today.getDay())
-        return {
-          startDate: weekStart.toISOString().split('T')[0],
-          endDate: today.toISOString().split('T')[0],
-        }
-      case 'month':
-        const monthStart = new Date(today.getFullYear(), today.getMonth(), 1)
-        return {
-          startDate: monthStart.toISOString().split('T')[0],
-          endDate: today.toISOString().split('T')[0],
-        }
-      default:
-        return {}
-    }
-  }
-
-  const dateRange = getDateRange()
+  const dateRange = getPaymentDateRange(dateFilter)
   const { data: paymentsData, isLoading, refetch } = usePayments({
     search: searchQuery || undefined,
     startDate: dateRange.startDate,
     endDate: dateRange.endDate,
     method: methodFilter !== 'all' ? methodFilter : undefined,
+    statementStatus: missingOnly ? 'missing' : undefined,
   })
 
   const { data: stats, isLoading: statsLoading } = usePaymentStats()
+  const { data: pendingUpi, refetch: refetchPendingUpi } = useUpiPaymentRequests({ status: 'pending' })
   const deleteMutation = useDeletePayment()
 
   const payments = paymentsData?.payments || []
@@ -90,7 +67,7 @@ export default function PaymentsScreen() {
 
   const handleRefresh = async () => {
     setRefreshing(true)
-    await refetch()
+    await Promise.all([refetch(), refetchPendingUpi()])
     setRefreshing(false)
   }
 
@@ -158,6 +135,21 @@ export default function PaymentsScreen() {
         {/* Stats Cards */}
         {stats && <PaymentStatsCards stats={stats} onStatPress={handleStatPress} />}
 
+        {/* UPI payments waiting for verification */}
+        {pendingUpi && pendingUpi.length > 0 && (
+          <TouchableOpacity onPress={() => router.push('/(admin)/upi-payments')} activeOpacity={0.7}>
+            <Card style={styles.pendingCard}>
+              <Card.Content style={styles.pendingContent}>
+                <MaterialCommunityIcons name="cellphone-check" size={22} color="#B45309" />
+                <Text variant="bodyMedium" style={styles.pendingText}>
+                  {pendingUpi.length} UPI {pendingUpi.length === 1 ? 'payment' : 'payments'} pending verification
+                </Text>
+                <MaterialCommunityIcons name="chevron-right" size={22} color="#B45309" />
+              </Card.Content>
+            </Card>
+          </TouchableOpacity>
+        )}
+
         {/* Search */}
         <View style={styles.searchContainer}>
           <Searchbar
@@ -309,7 +301,7 @@ export default function PaymentsScreen() {
                       selectedColor="#6366F1"
                       mode={methodFilter !== 'all' ? 'flat' : 'outlined'}
                     >
-                      {methodFilter === 'all' ? 'All Methods' : methodFilter}
+                      {methodFilter === 'all' ? 'All Methods' : getPaymentMethodName(methodFilter, methods)}
                     </Chip>
                   }
                 >
@@ -320,29 +312,36 @@ export default function PaymentsScreen() {
                     }}
                     title="All Methods"
                   />
-                  <Menu.Item
-                    onPress={() => {
-                      setMethodFilter('Cash')
-                      setMethodMenuVisible(false)
-                    }}
-                    title="Cash"
-                  />
-                  <Menu.Item
-                    onPress={() => {
-                      setMethodFilter('UPI')
-                      setMethodMenuVisible(false)
-                    }}
-                    title="UPI"
-                  />
-                  <Menu.Item
-                    onPress={() => {
-                      setMethodFilter('Online')
-                      setMethodMenuVisible(false)
-                    }}
-                    title="Online"
-                  />
+                  {methods.map((method) => (
+                    <Menu.Item
+                      key={method.key}
+                      onPress={() => {
+                        setMethodFilter(method.key)
+                        setMethodMenuVisible(false)
+                      }}
+                      title={method.name}
+                    />
+                  ))}
                 </Menu>
               </View>
+
+              <View style={styles.filterGroup}>
+                <Text variant="labelSmall" style={styles.filterLabel}>
+                  Bank Statement
+                </Text>
+                <View style={styles.chipContainer}>
+                  <Chip
+                    selected={missingOnly}
+                    onPress={() => setMissingOnly(!missingOnly)}
+                    style={[styles.chip, missingOnly && styles.chipSelected]}
+                    selectedColor="#EF4444"
+                    icon="bank-remove"
+                    mode={missingOnly ? 'flat' : 'outlined'}
+                  >
+                    Not in statement
+                  </Chip>
+                </View>
+              </View>
             </View>
           </View>
         </View>
@@ -369,11 +368,11 @@ export default function PaymentsScreen() {
                   No payments found
                 </Text>
                 <Text variant="bodySmall" style={styles.emptyText}>
-                  {searchQuery || dateFilter !== 'all' || methodFilter !== 'all'
+                  {searchQuery || dateFilter !== 'all' || methodFilter !== 'all' || missingOnly
                     ? 'Try adjusting your filters or search terms'
                     : 'Start by recording a payment using the + button'}
                 </Text>
-                {!searchQuery && dateFilter === 'all' && methodFilter === 'all' && (
+                {!searchQuery && dateFilter === 'all' && methodFilter === 'all' && !missingOnly && (
                   <Button
                     mode="contained"
                     onPress={() => router.push('/(admin)/add-payment')}
@@ -539,6 +538,22 @@ const styles = StyleSheet.create({
   subtitle: {
     color: '#666',
   },
+  pendingCard: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 12,
+    elevation: 0,
+    marginBottom: 12,
+  },
+  pendingContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  pendingText: {
+    flex: 1,
+    color: '#B45309',
+    fontWeight: '600',
+  },
   searchContainer: {
     marginBottom: 16,
   },
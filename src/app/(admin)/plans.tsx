@@ -7,6 +7,7 @@ import { usePlans, useDeletePlan } from '@/hooks/usePlans'
 import { PlanCard } from '@/components/plans/PlanCard'
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { formatPlanMeals } from '@/lib/meal-schedule'
 
 export default function PlansScreen() {
   const router = useRouter()
@@ -28,7 +29,7 @@ export default function PlansScreen() {
     return allPlans.filter(
       (plan) =>
         plan.name.toLowerCase().includes(query) ||
-        plan.meals.toLowerCase().includes(query)
+        formatPlanMeals(plan.meals).toLowerCase().includes(query)
     )
   }, [allPlans, searchQuery])
   
@@ -39,7 +40,7 @@ export default function PlansScreen() {
     return allPlans.filter(
       (plan) =>
         plan.name.toLowerCase().includes(query) ||
-        plan.meals.toLowerCase().includes(query)
+        formatPlanMeals(plan.meals).toLowerCase().includes(query)
     )
   }, [allPlans, searchQuery])
 
@@ -186,7 +187,7 @@ export default function PlansScreen() {
                           </Text>
                           <View style={styles.resultItemDetails}>
                             <Text variant="bodySmall" style={styles.resultItemDetail}>
-                              {plan.meals}
+                              {formatPlanMeals(plan.meals)}
                             </Text>
                             <Text variant="bodySmall" style={styles.resultItemDetail}>
                               ₹{plan.price.toFixed(2)}
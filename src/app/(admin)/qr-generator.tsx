@@ -1,18 +1,14 @@
 import { View, StyleSheet, ScrollView } from 'react-native'
-import { Text, Card, Snackbar } from 'react-native-paper'
+import { Text, Card, Snackbar, Button } from 'react-native-paper'
 import { useRouter } from 'expo-router'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useQRCode } from '@/hooks/useQRCode'
 import { QRCodeDisplay } from '@/components/qr-code/QRCodeDisplay'
-import { QRCodeInfo } from '@/components/qr-code/QRCodeInfo'
-import { QRCodeActions } from '@/components/qr-code/QRCodeActions'
-import { useQueryClient } from '@tanstack/react-query'
 import { useState } from 'react'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 
 export default function QRGeneratorScreen() {
   const router = useRouter()
-  const queryClient = useQueryClient()
   const { data, isLoading, error, refetch, isRefetching } = useQRCode()
   const [snackbarVisible, setSnackbarVisible] = useState(false)
   const [snackbarMessage, setSnackbarMessage] = useState('')
@@ -62,20 +58,33 @@ export default function QRGeneratorScreen() {
           qrCode={data?.qrCode || null}
           loading={isLoading}
           error={error || null}
+          rotationSeconds={data?.rotationSeconds}
         />
 
-        {/* QR Code Info (URL) */}
-        {data?.url && (
-          <QRCodeInfo url={data.url} />
-        )}
-
         {/* Action Buttons */}
         {data?.qrCode && (
-          <QRCodeActions
-            qrCode={data.qrCode}
-            onRefresh={handleRefresh}
-            refreshing={isRefetching}
-          />
+          <View style={styles.actions}>
+            <Button
+              mode="contained"
+              icon="tablet"
+              onPress={() => router.push('/(admin)/kiosk')}
+              buttonColor="#7B2CBF"
+              style={styles.actionButton}
+            >
+              Start Kiosk Mode
+            </Button>
+            <Button
+              mode="outlined"
+              icon="refresh"
+              onPress={handleRefresh}
+              loading={isRefetching}
+              disabled={isRefetching}
+              textColor="#7B2CBF"
+              style={styles.actionButton}
+            >
+              Refresh Now
+            </Button>
+          </View>
         )}
 
         {/* Instructions */}
@@ -92,7 +101,7 @@ export default function QRGeneratorScreen() {
                   How to Use
                 </Text>
                 <Text variant="bodySmall" style={styles.instructionsBody}>
-                  Display this QR code at the mess entrance. Students can scan it with any QR code scanner to open the attendance page and mark their attendance.
+                  Start kiosk mode on a tablet at the mess entrance. The code is signed and changes automatically, so students must scan it live from the app - photos or printouts of an old code will be rejected. Exiting kiosk mode asks for your password.
                 </Text>
               </View>
             </View>
@@ -189,6 +198,15 @@ const styles = StyleSheet.create({
   subtitle: {
     color: '#666',
   },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+  },
   instructionsCard: {
     marginTop: 8,
     elevation: 2,
@@ -0,0 +1,397 @@
+import React, { useState } from 'react'
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native'
+import { Text, Button, Card, Chip, Searchbar, Snackbar, IconButton } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { addMonths, format, parseISO } from 'date-fns'
+import { QuickFilters } from '@/components/students/QuickFilters'
+import { SimpleDatePicker } from '@/components/shared/SimpleDatePicker'
+import { useExportReport, type ReportRequest } from '@/hooks/useReports'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { getPaymentDateRange, type PaymentDateFilter } from '@/lib/payments'
+import type { FilterType } from '@/lib/student-filters'
+import type { ReportFormat } from '@/lib/reports'
+
+type ReportKind = ReportRequest['report']
+
+const REPORT_OPTIONS: Array<{ key: ReportKind; title: string; description: string; icon: string }> = [
+  { key: 'roster', title: 'Student Roster', description: 'Plan, dates and balance for each student', icon: 'account-group' },
+  { key: 'attendance', title: 'Attendance', description: 'Monthly matrix of students × days × meals', icon: 'calendar-check' },
+  { key: 'payments', title: 'Payments Register', description: 'Every payment with totals by method', icon: 'cash-multiple' },
+]
+
+const DATE_FILTER_OPTIONS: Array<{ key: PaymentDateFilter | 'custom'; label: string }> = [
+  { key: 'all', label: 'All Time' },
+  { key: 'today', label: 'Today' },
+  { key: 'week', label: 'This Week' },
+  { key: 'month', label: 'This Month' },
+  { key: 'custom', label: 'Custom' },
+]
+
+export default function ReportsScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+  const today = format(new Date(), 'yyyy-MM-dd')
+
+  const [report, setReport] = useState<ReportKind>('roster')
+  const [studentFilter, setStudentFilter] = useState<FilterType>('all')
+  const [search, setSearch] = useState('')
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'))
+  const [dateFilter, setDateFilter] = useState<PaymentDateFilter | 'custom'>('month')
+  const [customStart, setCustomStart] = useState(format(new Date(), 'yyyy-MM-01'))
+  const [customEnd, setCustomEnd] = useState(today)
+  const [methodFilter, setMethodFilter] = useState<string>('all')
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+  const [exportingFormat, setExportingFormat] = useState<ReportFormat | null>(null)
+
+  const exportMutation = useExportReport()
+  const { data: methods } = usePaymentMethods()
+
+  const buildRequest = (reportFormat: ReportFormat): ReportRequest => {
+    const trimmedSearch = search.trim() || undefined
+
+    switch (report) {
+      case 'attendance':
+        return { report, format: reportFormat, params: { month, filter: studentFilter, search: trimmedSearch } }
+      case 'payments': {
+        const range =
+          dateFilter === 'custom' ? { startDate: customStart, endDate: customEnd } : getPaymentDateRange(dateFilter)
+        return {
+          report,
+          format: reportFormat,
+          params: {
+            ...range,
+            method: methodFilter !== 'all' ? methodFilter : undefined,
+            search: trimmedSearch,
+          },
+        }
+      }
+      default:
+        return { report: 'roster', format: reportFormat, params: { filter: studentFilter, search: trimmedSearch } }
+    }
+  }
+
+  const handleExport = async (reportFormat: ReportFormat) => {
+    setExportingFormat(reportFormat)
+    try {
+      await exportMutation.mutateAsync(buildRequest(reportFormat))
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error?.message || 'Failed to export report'}`)
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
+  const isCurrentMonth = month >= format(new Date(), 'yyyy-MM')
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            Reports
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <Text variant="bodySmall" style={styles.description}>
+          Reports are generated on this device from the latest data and shared as a CSV (for spreadsheets) or a PDF.
+        </Text>
+
+        {/* Report Type */}
+        {REPORT_OPTIONS.map((option) => {
+          const selected = report === option.key
+          return (
+            <TouchableOpacity key={option.key} onPress={() => setReport(option.key)} activeOpacity={0.7}>
+              <Card style={[styles.card, selected && styles.cardSelected]}>
+                <Card.Content style={styles.reportOption}>
+                  <MaterialCommunityIcons
+                    name={option.icon as keyof typeof MaterialCommunityIcons.glyphMap}
+                    size={28}
+                    color={selected ? '#7B2CBF' : '#6B7280'}
+                  />
+                  <View style={styles.reportInfo}>
+                    <Text variant="titleMedium" style={styles.reportTitle}>
+                      {option.title}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.reportDescription}>
+                      {option.description}
+                    </Text>
+                  </View>
+                  <MaterialCommunityIcons
+                    name={selected ? 'radiobox-marked' : 'radiobox-blank'}
+                    size={22}
+                    color={selected ? '#7B2CBF' : '#9CA3AF'}
+                  />
+                </Card.Content>
+              </Card>
+            </TouchableOpacity>
+          )
+        })}
+
+        {/* Options */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Options
+            </Text>
+
+            {report === 'attendance' && (
+              <View style={styles.monthRow}>
+                <IconButton icon="chevron-left" onPress={() => setMonth(format(addMonths(parseISO(`${month}-01`), -1), 'yyyy-MM'))} />
+                <Text variant="titleMedium" style={styles.monthLabel}>
+                  {format(parseISO(`${month}-01`), 'MMMM yyyy')}
+                </Text>
+                <IconButton
+                  icon="chevron-right"
+                  disabled={isCurrentMonth}
+                  onPress={() => setMonth(format(addMonths(parseISO(`${month}-01`), 1), 'yyyy-MM'))}
+                />
+              </View>
+            )}
+
+            {report === 'payments' ? (
+              <>
+                <Text variant="labelSmall" style={styles.filterLabel}>
+                  Date Range
+                </Text>
+                <View style={styles.chipContainer}>
+                  {DATE_FILTER_OPTIONS.map((option) => (
+                    <Chip
+                      key={option.key}
+                      selected={dateFilter === option.key}
+                      onPress={() => setDateFilter(option.key)}
+                      style={[styles.chip, dateFilter === option.key && styles.chipSelected]}
+                      textStyle={dateFilter === option.key ? styles.chipTextSelected : undefined}
+                      showSelectedCheck={false}
+                    >
+                      {option.label}
+                    </Chip>
+                  ))}
+                </View>
+                {dateFilter === 'custom' && (
+                  <View style={styles.dateRange}>
+                    <SimpleDatePicker
+                      label="From"
+                      value={customStart}
+                      onChange={(date) => {
+                        setCustomStart(date)
+                        if (date > customEnd) setCustomEnd(date)
+                      }}
+                      maximumDate={new Date()}
+                    />
+                    <SimpleDatePicker
+                      label="To"
+                      value={customEnd}
+                      onChange={setCustomEnd}
+                      minimumDate={parseISO(customStart)}
+                      maximumDate={new Date()}
+                    />
+                  </View>
+                )}
+
+                <Text variant="labelSmall" style={styles.filterLabel}>
+                  Payment Method
+                </Text>
+                <View style={styles.chipContainer}>
+                  {[{ key: 'all', name: 'All Methods' }, ...methods].map((method) => (
+                    <Chip
+                      key={method.key}
+                      selected={methodFilter === method.key}
+                      onPress={() => setMethodFilter(method.key)}
+                      style={[styles.chip, methodFilter === method.key && styles.chipSelected]}
+                      textStyle={methodFilter === method.key ? styles.chipTextSelected : undefined}
+                      showSelectedCheck={false}
+                    >
+                      {method.name}
+                    </Chip>
+                  ))}
+                </View>
+              </>
+            ) : (
+              <>
+                <Text variant="labelSmall" style={styles.filterLabel}>
+                  Students
+                </Text>
+                <View style={styles.quickFilters}>
+                  <QuickFilters activeFilter={studentFilter} onFilterChange={setStudentFilter} />
+                </View>
+              </>
+            )}
+
+            <Searchbar
+              placeholder={report === 'payments' ? 'Student name or roll number' : 'Name, email, roll or phone'}
+              onChangeText={setSearch}
+              value={search}
+              style={styles.search}
+            />
+          </Card.Content>
+        </Card>
+
+        {/* Export */}
+        <View style={styles.exportButtons}>
+          <Button
+            mode="outlined"
+            icon="file-delimited-outline"
+            onPress={() => handleExport('csv')}
+            loading={exportingFormat === 'csv'}
+            disabled={exportMutation.isPending}
+            style={styles.exportButton}
+          >
+            Export CSV
+          </Button>
+          <Button
+            mode="contained"
+            icon="file-pdf-box"
+            onPress={() => handleExport('pdf')}
+            loading={exportingFormat === 'pdf'}
+            disabled={exportMutation.isPending}
+            style={styles.exportButton}
+            buttonColor="#7B2CBF"
+          >
+            Export PDF
+          </Button>
+        </View>
+      </ScrollView>
+
+      <Snackbar
+        visible={!!snackbarMessage}
+        onDismiss={() => setSnackbarMessage('')}
+        duration={4000}
+        action={{
+          label: 'Dismiss',
+          onPress: () => setSnackbarMessage(''),
+        }}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  description: {
+    color: '#666',
+    marginBottom: 16,
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  cardSelected: {
+    borderColor: '#7B2CBF',
+  },
+  reportOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  reportInfo: {
+    flex: 1,
+  },
+  reportTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  reportDescription: {
+    color: '#666',
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  monthLabel: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  filterLabel: {
+    color: '#6B7280',
+    fontWeight: '600',
+    fontSize: 12,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  quickFilters: {
+    marginHorizontal: -16,
+    marginBottom: 8,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  dateRange: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  search: {
+    marginTop: 8,
+    elevation: 0,
+    backgroundColor: '#F9FAFB',
+  },
+  exportButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  exportButton: {
+    flex: 1,
+    borderRadius: 8,
+  },
+})
@@ -5,11 +5,18 @@ import { useRouter, useLocalSearchParams } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useStudent, useDeleteStudent, useSendCredentialsEmail, useExtendPlan, useRenewPlan } from '@/hooks/useStudents'
+import type { ExtendPlanData, RenewPlanData } from '@/lib/students'
 import { usePlans } from '@/hooks/usePlans'
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog'
 import { ExtendPlanModal } from '@/components/students/ExtendPlanModal'
 import { RenewPlanModal } from '@/components/students/RenewPlanModal'
+import { AttendanceHistoryList } from '@/components/attendance/AttendanceHistoryList'
+import { SubscriptionHistoryList } from '@/components/students/SubscriptionHistoryList'
+import { StatementOfAccount } from '@/components/payments/StatementOfAccount'
+import { RefundHistory } from '@/components/payments/RefundHistory'
+import { InstallmentsCard } from '@/components/payments/InstallmentsCard'
 import { format } from 'date-fns'
+import { formatPlanMeals } from '@/lib/meal-schedule'
 
 export default function StudentDetailScreen() {
   const router = useRouter()
@@ -68,7 +75,7 @@ export default function StudentDetailScreen() {
     }
   }
 
-  const handleExtend = async (data: { days: number; startDate: string; paid: number }) => {
+  const handleExtend = async (data: ExtendPlanData) => {
     try {
       await extendMutation.mutateAsync({ id: studentId, data })
       setExtendModalVisible(false)
@@ -80,7 +87,7 @@ export default function StudentDetailScreen() {
     }
   }
 
-  const handleRenew = async (data: { planId: number; paid: number; extendFromCurrent: boolean }) => {
+  const handleRenew = async (data: RenewPlanData) => {
     try {
       await renewMutation.mutateAsync({ id: studentId, data })
       setRenewModalVisible(false)
@@ -220,7 +227,7 @@ export default function StudentDetailScreen() {
           <View style={styles.detailRow}>
             <Text variant="bodySmall" style={styles.detailLabel}>Meals:</Text>
             <Text variant="bodyMedium" style={styles.detailValue}>
-              {student.plan.meals}
+              {formatPlanMeals(student.plan.meals)}
             </Text>
           </View>
           <View style={styles.detailRow}>
@@ -287,13 +294,13 @@ export default function StudentDetailScreen() {
             Financial Information
           </Text>
           <View style={styles.detailRow}>
-            <Text variant="bodySmall" style={styles.detailLabel}>Plan Price:</Text>
+            <Text variant="bodySmall" style={styles.detailLabel}>Current Term Price:</Text>
             <Text variant="bodyMedium" style={styles.detailValue}>
               {formatCurrency(student.price)}
             </Text>
           </View>
           <View style={styles.detailRow}>
-            <Text variant="bodySmall" style={styles.detailLabel}>Paid:</Text>
+            <Text variant="bodySmall" style={styles.detailLabel}>Paid This Term:</Text>
             <Text variant="bodyMedium" style={styles.detailValue}>
               {formatCurrency(student.paid)}
             </Text>
@@ -313,6 +320,69 @@ export default function StudentDetailScreen() {
         </Card.Content>
       </Card>
 
+      {/* Upcoming and overdue installments */}
+      <InstallmentsCard studentId={student.id} style={styles.card} />
+
+      {/* Plan History Card */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text variant="titleMedium" style={styles.cardTitle}>
+            Plan History
+          </Text>
+          <SubscriptionHistoryList
+            studentId={student.id}
+            onMessage={(message) => {
+              setSnackbarMessage(message)
+              setSnackbarVisible(true)
+            }}
+          />
+        </Card.Content>
+      </Card>
+
+      {/* Statement of Account Card */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text variant="titleMedium" style={styles.cardTitle}>
+            Statement of Account
+          </Text>
+          <StatementOfAccount
+            student={student}
+            canAdjust
+            onMessage={(message) => {
+              setSnackbarMessage(message)
+              setSnackbarVisible(true)
+            }}
+          />
+        </Card.Content>
+      </Card>
+
+      {/* Refunds Card */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text variant="titleMedium" style={styles.cardTitle}>
+            Refunds & Credit Notes
+          </Text>
+          <RefundHistory
+            student={{ id: student.id, credit: Number(student.credit || 0) }}
+            canIssue
+            onMessage={(message) => {
+              setSnackbarMessage(message)
+              setSnackbarVisible(true)
+            }}
+          />
+        </Card.Content>
+      </Card>
+
+      {/* Attendance History Card */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text variant="titleMedium" style={styles.cardTitle}>
+            Attendance Changes
+          </Text>
+          <AttendanceHistoryList studentId={student.id} />
+        </Card.Content>
+      </Card>
+
       {/* Actions */}
       <View style={styles.actions}>
         <Button
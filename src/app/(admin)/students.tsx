@@ -1,6 +1,6 @@
 import React, { useState, useMemo } from 'react'
 import { View, StyleSheet, ScrollView, RefreshControl, TouchableOpacity } from 'react-native'
-import { Text, FAB, ActivityIndicator, Searchbar, Snackbar, Portal, Dialog, Button, Card } from 'react-native-paper'
+import { Text, FAB, ActivityIndicator, Searchbar, Snackbar, Portal, Dialog, Button, Card, IconButton } from 'react-native-paper'
 import { useRouter } from 'expo-router'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useStudents, useStudentStats, useDeleteStudent, useSendCredentialsEmail } from '@/hooks/useStudents'
@@ -109,6 +109,12 @@ export default function StudentsScreen() {
             Manage student registrations
           </Text>
         </View>
+        <IconButton
+          icon="file-upload-outline"
+          iconColor="#7B2CBF"
+          onPress={() => router.push('/(admin)/import-students')}
+          accessibilityLabel="Import students from CSV"
+        />
       </View>
 
       {/* Statistics Cards */}
@@ -375,6 +381,9 @@ const styles = StyleSheet.create({
     backgroundColor: '#FAFAFA',
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     backgroundColor: '#FFFFFF',
     paddingHorizontal: 20,
     paddingBottom: 12,
@@ -0,0 +1,463 @@
+import React, { useState } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl, Linking } from 'react-native'
+import { Text, TextInput, Button, Card, Snackbar, Chip, ActivityIndicator, Dialog, Portal, Checkbox } from 'react-native-paper'
+import { useRouter } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format } from 'date-fns'
+import {
+  useUpiPaymentRequests,
+  useConfirmUpiPayment,
+  useRejectUpiPaymentRequest,
+} from '@/hooks/useUpiPayments'
+import {
+  getUpiScreenshotUrl,
+  UPI_STATUS_COLORS,
+  UPI_STATUS_LABELS,
+  type UpiPaymentRequest,
+  type UpiRequestStatus,
+} from '@/lib/upi'
+
+const STATUS_FILTERS: UpiRequestStatus[] = ['pending', 'confirmed', 'rejected', 'cancelled']
+
+export default function UpiPaymentsScreen() {
+  const router = useRouter()
+  const insets = useSafeAreaInsets()
+
+  const [statusFilter, setStatusFilter] = useState<UpiRequestStatus>('pending')
+  const [confirming, setConfirming] = useState<UpiPaymentRequest | null>(null)
+  const [confirmAmount, setConfirmAmount] = useState('')
+  const [overrideAmount, setOverrideAmount] = useState(false)
+  const [rejecting, setRejecting] = useState<UpiPaymentRequest | null>(null)
+  const [rejectNote, setRejectNote] = useState('')
+  const [openingScreenshot, setOpeningScreenshot] = useState<number | null>(null)
+  const [refreshing, setRefreshing] = useState(false)
+  const [snackbarVisible, setSnackbarVisible] = useState(false)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  const { data: requests, isLoading, isFetching, refetch } = useUpiPaymentRequests({ status: statusFilter })
+  const confirmMutation = useConfirmUpiPayment()
+  const rejectMutation = useRejectUpiPaymentRequest()
+
+  const showMessage = (message: string) => {
+    setSnackbarMessage(message)
+    setSnackbarVisible(true)
+  }
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    await refetch()
+    setRefreshing(false)
+  }
+
+  const openConfirm = (request: UpiPaymentRequest) => {
+    setConfirmAmount(String(request.amount))
+    setOverrideAmount(false)
+    setConfirming(request)
+  }
+
+  const openReject = (request: UpiPaymentRequest) => {
+    setRejectNote('')
+    setRejecting(request)
+  }
+
+  // A different amount than the student submitted is only recorded once ticked
+  const amountDiffers = !!confirming &&
+    Math.round((parseFloat(confirmAmount) || 0) * 100) !== Math.round(confirming.amount * 100)
+
+  const handleConfirm = async () => {
+    if (!confirming) return
+
+    const amount = parseFloat(confirmAmount)
+    if (isNaN(amount) || amount <= 0) {
+      showMessage('⚠️ Enter the amount received')
+      return
+    }
+
+    if (amountDiffers && !overrideAmount) {
+      showMessage(`⚠️ The student submitted ₹${confirming.amount.toLocaleString('en-IN')}. Tick the box to record a different amount.`)
+      return
+    }
+
+    try {
+      await confirmMutation.mutateAsync({
+        request: confirming,
+        amount,
+        overrideAmount: amountDiffers,
+        // The day the student paid, not the day it was checked
+        paymentDate: format(new Date(confirming.createdAt), 'yyyy-MM-dd'),
+      })
+      showMessage('✅ Payment recorded')
+      setConfirming(null)
+    } catch (error: any) {
+      showMessage(`⚠️ ${error.message || 'Failed to confirm payment'}`)
+    }
+  }
+
+  const handleReject = async () => {
+    if (!rejecting) return
+
+    try {
+      await rejectMutation.mutateAsync({ id: rejecting.id, note: rejectNote })
+      showMessage('Payment rejected')
+      setRejecting(null)
+    } catch (error: any) {
+      showMessage(`⚠️ ${error.message || 'Failed to reject payment'}`)
+    }
+  }
+
+  const handleViewScreenshot = async (request: UpiPaymentRequest) => {
+    if (!request.screenshotPath) return
+
+    setOpeningScreenshot(request.id)
+    const result = await getUpiScreenshotUrl(request.screenshotPath)
+    setOpeningScreenshot(null)
+
+    if (result.error) {
+      showMessage(`⚠️ ${result.error.message}`)
+      return
+    }
+    await Linking.openURL(result.url)
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingTop: insets.top + 8 }]}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor="#7B2CBF" />}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Button
+            icon="arrow-left"
+            onPress={() => router.back()}
+            mode="text"
+            textColor="#666"
+          >
+            Back
+          </Button>
+          <Text variant="headlineSmall" style={styles.title}>
+            UPI Payments
+          </Text>
+          <View style={{ width: 60 }}>
+            {isFetching && <ActivityIndicator size="small" color="#7B2CBF" />}
+          </View>
+        </View>
+
+        <Text variant="bodySmall" style={styles.description}>
+          Check each reference against the bank statement or UPI app before confirming. Confirming records the payment with its reference.
+        </Text>
+
+        {/* Status filter */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterChips}
+        >
+          {STATUS_FILTERS.map((status) => (
+            <Chip
+              key={status}
+              selected={statusFilter === status}
+              onPress={() => setStatusFilter(status)}
+              style={[styles.filterChip, statusFilter === status && styles.filterChipSelected]}
+              textStyle={statusFilter === status ? styles.filterChipTextSelected : undefined}
+              showSelectedCheck={false}
+            >
+              {UPI_STATUS_LABELS[status]}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        {/* Requests */}
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color="#7B2CBF" />
+        ) : !requests || requests.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No {UPI_STATUS_LABELS[statusFilter].toLowerCase()} UPI payments
+          </Text>
+        ) : (
+          requests.map((request) => (
+            <Card key={request.id} style={styles.card}>
+              <Card.Content>
+                <View style={styles.requestHeader}>
+                  <View style={styles.requestTitle}>
+                    <Text variant="titleMedium" style={styles.studentName}>
+                      {request.student?.name ?? `Student #${request.studentId}`}
+                    </Text>
+                    {request.student?.rollNumber && (
+                      <Text variant="bodySmall" style={styles.requestMeta}>
+                        Roll No. {request.student.rollNumber}
+                      </Text>
+                    )}
+                  </View>
+                  <Chip
+                    compact
+                    style={{ backgroundColor: UPI_STATUS_COLORS[request.status].background }}
+                    textStyle={{ color: UPI_STATUS_COLORS[request.status].color }}
+                  >
+                    {UPI_STATUS_LABELS[request.status]}
+                  </Chip>
+                </View>
+
+                <Text variant="headlineSmall" style={styles.amount}>
+                  ₹{request.amount.toLocaleString('en-IN')}
+                </Text>
+                <Text variant="bodyMedium" style={styles.reference} selectable>
+                  UTR {request.reference}
+                </Text>
+                <Text variant="bodySmall" style={styles.requestMeta}>
+                  Submitted {format(new Date(request.createdAt), 'dd MMM yyyy, hh:mm a')}
+                  {request.status === 'pending' && request.student
+                    ? ` • Balance ₹${request.student.balance.toLocaleString('en-IN')}`
+                    : ''}
+                </Text>
+                {request.reviewNote && (
+                  <Text variant="bodySmall" style={styles.reviewNote}>
+                    Note: {request.reviewNote}
+                  </Text>
+                )}
+
+                <View style={styles.actions}>
+                  {request.screenshotPath && (
+                    <Button
+                      mode="text"
+                      icon="image"
+                      onPress={() => handleViewScreenshot(request)}
+                      loading={openingScreenshot === request.id}
+                      textColor="#7B2CBF"
+                    >
+                      Screenshot
+                    </Button>
+                  )}
+                  {request.paymentId && (
+                    <Button
+                      mode="text"
+                      onPress={() => router.push(`/(admin)/payment-detail?id=${request.paymentId}`)}
+                      textColor="#7B2CBF"
+                    >
+                      View Payment
+                    </Button>
+                  )}
+                  {request.status === 'pending' && (
+                    <>
+                      <Button
+                        mode="outlined"
+                        onPress={() => openReject(request)}
+                        textColor="#EF4444"
+                        style={styles.actionButton}
+                      >
+                        Reject
+                      </Button>
+                      <Button
+                        mode="contained"
+                        onPress={() => openConfirm(request)}
+                        buttonColor="#7B2CBF"
+                        style={styles.actionButton}
+                      >
+                        Confirm
+                      </Button>
+                    </>
+                  )}
+                </View>
+              </Card.Content>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={!!confirming} onDismiss={() => setConfirming(null)}>
+          <Dialog.Title>Confirm UPI Payment</Dialog.Title>
+          <Dialog.Content>
+            {confirming && (
+              <Text variant="bodyMedium" style={styles.dialogText}>
+                {confirming.student?.name} • UTR {confirming.reference}
+                {`\nRecorded as a UPI payment on ${format(new Date(confirming.createdAt), 'dd MMM yyyy')}.`}
+              </Text>
+            )}
+            <TextInput
+              label="Amount received (₹)"
+              value={confirmAmount}
+              onChangeText={(text) => setConfirmAmount(text.replace(/[^0-9.]/g, ''))}
+              mode="outlined"
+              keyboardType="decimal-pad"
+            />
+            {confirming && amountDiffers && (
+              <Checkbox.Item
+                label={`Record this instead of the ₹${confirming.amount.toLocaleString('en-IN')} the student submitted`}
+                status={overrideAmount ? 'checked' : 'unchecked'}
+                onPress={() => setOverrideAmount(!overrideAmount)}
+                color="#7B2CBF"
+                position="leading"
+                labelVariant="bodyMedium"
+                style={styles.overrideItem}
+                labelStyle={styles.overrideLabel}
+              />
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setConfirming(null)} disabled={confirmMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onPress={handleConfirm}
+              loading={confirmMutation.isPending}
+              disabled={confirmMutation.isPending}
+              textColor="#7B2CBF"
+            >
+              Confirm
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={!!rejecting} onDismiss={() => setRejecting(null)}>
+          <Dialog.Title>Reject UPI Payment</Dialog.Title>
+          <Dialog.Content>
+            {rejecting && (
+              <Text variant="bodyMedium" style={styles.dialogText}>
+                {rejecting.student?.name} • ₹{rejecting.amount.toLocaleString('en-IN')} • UTR {rejecting.reference}
+              </Text>
+            )}
+            <TextInput
+              label="Note for the student (optional)"
+              value={rejectNote}
+              onChangeText={setRejectNote}
+              placeholder="e.g. No matching transfer found"
+              mode="outlined"
+              multiline
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setRejecting(null)} disabled={rejectMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onPress={handleReject}
+              loading={rejectMutation.isPending}
+              disabled={rejectMutation.isPending}
+              textColor="#EF4444"
+            >
+              Reject
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={3000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  description: {
+    color: '#666',
+    marginBottom: 16,
+  },
+  card: {
+    elevation: 2,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  filterChips: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  filterChip: {
+    backgroundColor: '#FFFFFF',
+  },
+  filterChipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  filterChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  loading: {
+    marginTop: 24,
+  },
+  emptyText: {
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  requestTitle: {
+    flex: 1,
+  },
+  studentName: {
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  amount: {
+    fontWeight: '700',
+    color: '#10B981',
+    marginTop: 8,
+  },
+  reference: {
+    color: '#1a1a1a',
+    fontFamily: 'monospace',
+    marginTop: 4,
+  },
+  requestMeta: {
+    color: '#666',
+    marginTop: 2,
+  },
+  reviewNote: {
+    color: '#6B7280',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    minWidth: 100,
+  },
+  dialogText: {
+    color: '#374151',
+    marginBottom: 12,
+  },
+  overrideItem: {
+    paddingHorizontal: 0,
+    marginTop: 8,
+  },
+  overrideLabel: {
+    textAlign: 'left',
+    color: '#374151',
+  },
+})
@@ -7,8 +7,11 @@ import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useAuth } from '@/context/AuthContext'
 import { getStudentByUserId } from '@/lib/students'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
-import { getCurrentMeal } from '@/lib/qr-attendance'
+import { getCurrentMeal, getDaySchedule, getMealName, formatMealWindow, parsePlanMeals } from '@/lib/meal-schedule'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { usePendingScans, useSyncPendingScans } from '@/hooks/useAttendanceQueue'
 import { supabase } from '@/lib/supabase'
+import { formatMealMark, isMealMarked, type MealMarks } from '@/lib/attendance'
 import { format } from 'date-fns'
 import { logger } from '@/lib/logger'
 
@@ -21,6 +24,9 @@ export default function StudentAttendanceScreen() {
   const [refreshing, setRefreshing] = useState(false)
   const [historyFilter, setHistoryFilter] = useState<'week' | 'month' | 'all'>('week')
 
+  const { data: pendingScans = [] } = usePendingScans(user?.id)
+  const syncMutation = useSyncPendingScans()
+
   const { data: studentData, isLoading } = useQuery({
     queryKey: ['student', user?.id],
     queryFn: async () => {
@@ -39,23 +45,25 @@ export default function StudentAttendanceScreen() {
       const today = new Date().toISOString().split('T')[0]
       const { data, error } = await supabase
         .from('Attendance')
-        .select('breakfast, lunch, dinner')
+        .select('mealMarks')
         .eq('studentId', studentData.id)
         .eq('date', today)
         .maybeSingle()
 
       if (error && error.code !== 'PGRST116') throw error
-      return data || { breakfast: false, lunch: false, dinner: false }
+      return (data || { mealMarks: {} }) as { mealMarks: MealMarks }
     },
     enabled: !!studentData?.id,
   })
 
-  const currentMeal = getCurrentMeal()
-  const todayStatus = todayAttendance || {
-    breakfast: false,
-    lunch: false,
-    dinner: false,
-  }
+  const { data: mealSchedule } = useMealSchedule()
+  const currentMeal = getCurrentMeal(mealSchedule)
+  const todayStatus = todayAttendance || { mealMarks: {} as MealMarks }
+
+  // Meal types in the student's plan, in schedule order
+  const planMealTypes = mealSchedule.mealTypes.filter((type) =>
+    parsePlanMeals(studentData?.plan?.meals, mealSchedule).includes(type.key)
+  )
 
   // Calculate date range for history
   const getHistoryDateRange = () => {
@@ -114,7 +122,7 @@ export default function StudentAttendanceScreen() {
       // Fetch all records first, then filter in memory to ensure we get today's record
       const { data, error } = await supabase
         .from('Attendance')
-        .select('date, breakfast, lunch, dinner')
+        .select('date, mealMarks')
         .eq('studentId', studentData.id)
         .order('date', { ascending: false })
         .limit(100) // Get last 100 records
@@ -146,9 +154,7 @@ export default function StudentAttendanceScreen() {
 
       return filtered as Array<{
         date: string
-        breakfast: boolean
-        lunch: boolean
-        dinner: boolean
+        mealMarks: MealMarks | null
       }>
     },
     enabled: !!studentData?.id,
@@ -156,6 +162,9 @@ export default function StudentAttendanceScreen() {
 
   const handleRefresh = async () => {
     setRefreshing(true)
+    if (pendingScans.length > 0 && user?.id) {
+      await syncMutation.mutateAsync(user.id)
+    }
     await Promise.all([
       queryClient.invalidateQueries({ queryKey: ['today-attendance', studentData?.id] }),
       queryClient.invalidateQueries({ queryKey: ['attendance-history', studentData?.id] }),
@@ -166,10 +175,10 @@ export default function StudentAttendanceScreen() {
   // Calculate statistics
   const history = attendanceHistory || []
   const totalMeals = history.reduce((sum, record) => {
-    return sum + (record.breakfast ? 1 : 0) + (record.lunch ? 1 : 0) + (record.dinner ? 1 : 0)
+    return sum + planMealTypes.filter((type) => isMealMarked(record.mealMarks, type.key)).length
   }, 0)
   const totalDays = history.length
-  const possibleMeals = totalDays * 3 // Assuming 3 meals per day
+  const possibleMeals = totalDays * planMealTypes.length
   const attendancePercentage = possibleMeals > 0 ? Math.round((totalMeals / possibleMeals) * 100) : 0
 
   return (
@@ -218,56 +227,70 @@ export default function StudentAttendanceScreen() {
               <ActivityIndicator size="small" color="#7B2CBF" style={styles.loadingIndicator} />
             ) : (
               <View style={styles.mealStatus}>
-                <View style={styles.mealRow}>
-                  <MaterialCommunityIcons
-                    name={todayStatus.breakfast ? 'check-circle' : 'circle-outline'}
-                    size={20}
-                    color={todayStatus.breakfast ? '#10B981' : '#9CA3AF'}
-                  />
-                  <Text variant="bodyMedium" style={styles.mealLabel}>
-                    Breakfast
-                  </Text>
-                  {todayStatus.breakfast && (
-                    <Text variant="bodySmall" style={styles.mealStatusText}>
-                      Marked
-                    </Text>
-                  )}
-                </View>
-                <View style={styles.mealRow}>
-                  <MaterialCommunityIcons
-                    name={todayStatus.lunch ? 'check-circle' : 'circle-outline'}
-                    size={20}
-                    color={todayStatus.lunch ? '#10B981' : '#9CA3AF'}
-                  />
-                  <Text variant="bodyMedium" style={styles.mealLabel}>
-                    Lunch
-                  </Text>
-                  {todayStatus.lunch && (
-                    <Text variant="bodySmall" style={styles.mealStatusText}>
-                      Marked
-                    </Text>
-                  )}
-                </View>
-                <View style={styles.mealRow}>
-                  <MaterialCommunityIcons
-                    name={todayStatus.dinner ? 'check-circle' : 'circle-outline'}
-                    size={20}
-                    color={todayStatus.dinner ? '#10B981' : '#9CA3AF'}
-                  />
-                  <Text variant="bodyMedium" style={styles.mealLabel}>
-                    Dinner
-                  </Text>
-                  {todayStatus.dinner && (
-                    <Text variant="bodySmall" style={styles.mealStatusText}>
-                      Marked
-                    </Text>
-                  )}
-                </View>
+                {planMealTypes.map((type) => {
+                  const marked = isMealMarked(todayStatus.mealMarks, type.key)
+                  return (
+                    <View key={type.key} style={styles.mealRow}>
+                      <MaterialCommunityIcons
+                        name={marked ? 'check-circle' : 'circle-outline'}
+                        size={20}
+                        color={marked ? '#10B981' : '#9CA3AF'}
+                      />
+                      <Text variant="bodyMedium" style={styles.mealLabel}>
+                        {type.name}
+                      </Text>
+                      {marked && (
+                        <Text variant="bodySmall" style={styles.mealStatusText}>
+                          {formatMealMark(todayStatus.mealMarks[type.key]) ?? 'Marked'}
+                        </Text>
+                      )}
+                    </View>
+                  )
+                })}
               </View>
             )}
           </Card.Content>
         </Card>
 
+        {/* Scans saved offline, waiting to sync */}
+        {pendingScans.length > 0 && (
+          <Card style={[styles.card, styles.pendingCard]}>
+            <Card.Content>
+              <View style={styles.cardHeader}>
+                <MaterialCommunityIcons name="cloud-clock" size={24} color="#F59E0B" />
+                <Text variant="titleMedium" style={styles.cardTitle}>
+                  Pending Sync
+                </Text>
+              </View>
+              <Text variant="bodySmall" style={styles.pendingDescription}>
+                These scans were saved while offline and will be sent automatically when you're back online.
+              </Text>
+              {pendingScans.map((scan) => (
+                <View key={scan.id} style={styles.mealRow}>
+                  <MaterialCommunityIcons name="clock-outline" size={20} color="#F59E0B" />
+                  <Text variant="bodyMedium" style={styles.mealLabel}>
+                    {format(new Date(scan.scannedAt), 'MMM d, h:mm a')}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.pendingStatusText}>
+                    Pending
+                  </Text>
+                </View>
+              ))}
+              <Button
+                mode="outlined"
+                icon="sync"
+                onPress={() => user?.id && syncMutation.mutate(user.id)}
+                loading={syncMutation.isPending}
+                disabled={syncMutation.isPending}
+                textColor="#B45309"
+                style={styles.syncButton}
+              >
+                Sync Now
+              </Button>
+            </Card.Content>
+          </Card>
+        )}
+
         {/* Scan QR Code Button */}
         <Card style={styles.card}>
           <Card.Content style={styles.scanCardContent}>
@@ -280,7 +303,7 @@ export default function StudentAttendanceScreen() {
             </Text>
             {currentMeal && (
               <Text variant="bodySmall" style={styles.currentMealText}>
-                Current meal: {currentMeal.charAt(0).toUpperCase() + currentMeal.slice(1)}
+                Current meal: {getMealName(currentMeal, mealSchedule)}
               </Text>
             )}
             <Button
@@ -404,7 +427,10 @@ export default function StudentAttendanceScreen() {
                 {history.map((record) => {
                   const recordDate = new Date(record.date)
                   const isToday = record.date === new Date().toISOString().split('T')[0]
-                  const mealsCount = (record.breakfast ? 1 : 0) + (record.lunch ? 1 : 0) + (record.dinner ? 1 : 0)
+                  const mealsCount = planMealTypes.filter((type) => isMealMarked(record.mealMarks, type.key)).length
+                  const markDetails = planMealTypes
+                    .filter((type) => formatMealMark(record.mealMarks?.[type.key]))
+                    .map((type) => `${type.name.charAt(0)} ${formatMealMark(record.mealMarks?.[type.key])}`)
 
                   return (
                     <View key={record.date} style={styles.historyItem}>
@@ -415,41 +441,31 @@ export default function StudentAttendanceScreen() {
                         <Text variant="bodySmall" style={styles.historyDayText}>
                           {format(recordDate, 'EEEE')}
                         </Text>
+                        {markDetails.length > 0 && (
+                          <Text variant="bodySmall" style={styles.historyMarksText}>
+                            {markDetails.join('  ')}
+                          </Text>
+                        )}
                       </View>
                       <View style={styles.historyMeals}>
-                        <View style={styles.mealBadge}>
-                          <MaterialCommunityIcons
-                            name={record.breakfast ? 'check-circle' : 'circle-outline'}
-                            size={16}
-                            color={record.breakfast ? '#10B981' : '#D1D5DB'}
-                          />
-                          <Text variant="bodySmall" style={[styles.mealBadgeText, record.breakfast && styles.mealBadgeTextActive]}>
-                            B
-                          </Text>
-                        </View>
-                        <View style={styles.mealBadge}>
-                          <MaterialCommunityIcons
-                            name={record.lunch ? 'check-circle' : 'circle-outline'}
-                            size={16}
-                            color={record.lunch ? '#10B981' : '#D1D5DB'}
-                          />
-                          <Text variant="bodySmall" style={[styles.mealBadgeText, record.lunch && styles.mealBadgeTextActive]}>
-                            L
-                          </Text>
-                        </View>
-                        <View style={styles.mealBadge}>
-                          <MaterialCommunityIcons
-                            name={record.dinner ? 'check-circle' : 'circle-outline'}
-                            size={16}
-                            color={record.dinner ? '#10B981' : '#D1D5DB'}
-                          />
-                          <Text variant="bodySmall" style={[styles.mealBadgeText, record.dinner && styles.mealBadgeTextActive]}>
-                            D
-                          </Text>
-                        </View>
+                        {planMealTypes.map((type) => {
+                          const marked = isMealMarked(record.mealMarks, type.key)
+                          return (
+                            <View key={type.key} style={styles.mealBadge}>
+                              <MaterialCommunityIcons
+                                name={marked ? 'check-circle' : 'circle-outline'}
+                                size={16}
+                                color={marked ? '#10B981' : '#D1D5DB'}
+                              />
+                              <Text variant="bodySmall" style={[styles.mealBadgeText, marked && styles.mealBadgeTextActive]}>
+                                {type.name.charAt(0)}
+                              </Text>
+                            </View>
+                          )
+                        })}
                         <View style={styles.mealsCount}>
                           <Text variant="bodySmall" style={styles.mealsCountText}>
-                            {mealsCount}/3
+                            {mealsCount}/{planMealTypes.length}
                           </Text>
                         </View>
                       </View>
@@ -476,10 +492,10 @@ export default function StudentAttendanceScreen() {
                 2. Point camera at QR code at mess{'\n'}
                 3. Attendance will be marked automatically{'\n'}
                 4. You'll see a confirmation message{'\n\n'}
-                Meal Timings:{'\n'}
-                Breakfast: 7:00 AM - 11:00 AM{'\n'}
-                Lunch: 12:00 PM - 4:00 PM{'\n'}
-                Dinner: 7:00 PM - 11:00 PM
+                Today's Meal Timings:
+                {mealSchedule.mealTypes
+                  .filter((type) => getDaySchedule(mealSchedule)[type.key]?.enabled)
+                  .map((type) => `\n${type.name}: ${formatMealWindow(getDaySchedule(mealSchedule)[type.key])}`)}
               </Text>
             </View>
           </Card.Content>
@@ -565,6 +581,22 @@ const styles = StyleSheet.create({
     color: '#10B981',
     fontWeight: '600',
   },
+  pendingCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#F59E0B',
+  },
+  pendingDescription: {
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  pendingStatusText: {
+    color: '#B45309',
+    fontWeight: '600',
+  },
+  syncButton: {
+    marginTop: 8,
+    borderColor: '#F59E0B',
+  },
   scanCardContent: {
     alignItems: 'center',
     padding: 8,
@@ -672,6 +704,11 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     fontSize: 12,
   },
+  historyMarksText: {
+    color: '#9CA3AF',
+    fontSize: 11,
+    marginTop: 2,
+  },
   historyMeals: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -7,9 +7,12 @@ import { useRouter } from 'expo-router'
 import { useAuth } from '@/context/AuthContext'
 import { getStudentByUserId } from '@/lib/students'
 import { useQuery } from '@tanstack/react-query'
-import { getCurrentMeal } from '@/lib/qr-attendance'
+import { formatPlanMeals, getCurrentMeal, getMealName } from '@/lib/meal-schedule'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
 import { useUnreadNotifications } from '@/hooks/useUnreadNotifications'
 import { NotificationBanner } from '@/components/student/dashboard/NotificationBanner'
+import { UpcomingMealsCard } from '@/components/student/dashboard/UpcomingMealsCard'
+import { InstallmentsCard } from '@/components/payments/InstallmentsCard'
 import { supabase } from '@/lib/supabase'
 
 export default function StudentDashboardScreen() {
@@ -28,7 +31,8 @@ export default function StudentDashboardScreen() {
     enabled: !!user?.id,
   })
 
-  const currentMeal = getCurrentMeal()
+  const { data: mealSchedule } = useMealSchedule()
+  const currentMeal = getCurrentMeal(mealSchedule)
   const student = studentData
   const { unreadCount } = useUnreadNotifications()
   const [dismissedNotificationId, setDismissedNotificationId] = useState<number | null>(null)
@@ -217,7 +221,7 @@ export default function StudentDashboardScreen() {
               <View style={styles.planRow}>
                 <Text variant="bodyMedium" style={styles.planLabel}>Meals:</Text>
                 <Text variant="bodyLarge" style={styles.planValue}>
-                  {student.plan.meals}
+                  {formatPlanMeals(student.plan.meals)}
                 </Text>
               </View>
               <View style={styles.planRow}>
@@ -250,7 +254,7 @@ export default function StudentDashboardScreen() {
               <View style={styles.currentMealBadge}>
                 <MaterialCommunityIcons name="clock-outline" size={16} color="#7B2CBF" />
                 <Text variant="bodySmall" style={styles.currentMealText}>
-                  Current: {currentMeal.charAt(0).toUpperCase() + currentMeal.slice(1)}
+                  Current: {getMealName(currentMeal, mealSchedule)}
                 </Text>
               </View>
             )}
@@ -267,6 +271,9 @@ export default function StudentDashboardScreen() {
           </Card.Content>
         </Card>
 
+        {/* Meal RSVPs */}
+        <UpcomingMealsCard student={student} />
+
         {/* Balance Card */}
         <Card style={styles.card}>
           <Card.Content>
@@ -287,6 +294,9 @@ export default function StudentDashboardScreen() {
           </Card.Content>
         </Card>
 
+        {/* Installments still to pay */}
+        <InstallmentsCard studentId={student.id} style={styles.card} />
+
         {/* Quick Stats */}
         <View style={styles.statsContainer}>
           <Text variant="titleMedium" style={styles.sectionTitle}>
@@ -1,11 +1,21 @@
 import React, { useState } from 'react'
 import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
-import { Text, Card, ActivityIndicator, Chip } from 'react-native-paper'
+import { Text, Card, ActivityIndicator, Chip, Snackbar, Button } from 'react-native-paper'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useAuth } from '@/context/AuthContext'
 import { getStudentByUserId } from '@/lib/students'
 import { getPayments, Payment } from '@/lib/payments'
+import { getMealName } from '@/lib/meal-schedule'
+import { useGuestMeals } from '@/hooks/useGuestMeals'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { getPaymentMethodName, getPaymentMethodStyle } from '@/lib/payment-methods'
+import { useLedger } from '@/hooks/useLedger'
+import { useBillingSettings, useShareReceipt } from '@/hooks/useBilling'
+import { useUpiPaymentRequests } from '@/hooks/useUpiPayments'
+import { StatementOfAccount } from '@/components/payments/StatementOfAccount'
+import { UpiPayCard } from '@/components/payments/UpiPayCard'
 import { useQuery } from '@tanstack/react-query'
 import { format } from 'date-fns'
 import { logger } from '@/lib/logger'
@@ -17,6 +27,16 @@ export default function StudentPaymentsScreen() {
   const { user } = useAuth()
   const [dateFilter, setDateFilter] = useState<DateFilter>('all')
   const [refreshing, setRefreshing] = useState(false)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+  const shareReceipt = useShareReceipt()
+
+  const handleShareReceipt = async (paymentId: number) => {
+    try {
+      await shareReceipt.mutateAsync(paymentId)
+    } catch (error: any) {
+      setSnackbarMessage(`⚠️ ${error?.message || 'Failed to share receipt'}`)
+    }
+  }
 
   // Get student data
   const { data: studentData, isLoading: studentLoading } = useQuery({
@@ -118,9 +138,23 @@ export default function StudentPaymentsScreen() {
 
   const payments = paymentsData || []
 
+  // Guest meals charged to this student
+  const { data: guestMeals, refetch: refetchGuestMeals } = useGuestMeals(
+    { studentId: studentData?.id },
+    !!studentData?.id
+  )
+  const { data: mealSchedule } = useMealSchedule()
+  const { data: methods } = usePaymentMethods()
+  const { refetch: refetchLedger } = useLedger(studentData?.id)
+  const { data: billingSettings } = useBillingSettings()
+  const { refetch: refetchUpiRequests } = useUpiPaymentRequests(
+    { studentId: studentData?.id },
+    !!studentData?.id
+  )
+
   const handleRefresh = async () => {
     setRefreshing(true)
-    await refetch()
+    await Promise.all([refetch(), refetchGuestMeals(), refetchLedger(), refetchUpiRequests()])
     setRefreshing(false)
   }
 
@@ -137,31 +171,7 @@ export default function StudentPaymentsScreen() {
     })
     .reduce((sum, p) => sum + Number(p.amount || 0), 0)
 
-  const getMethodIcon = (method: string | null) => {
-    switch (method) {
-      case 'Cash':
-        return 'cash'
-      case 'UPI':
-        return 'cellphone'
-      case 'Online':
-        return 'credit-card'
-      default:
-        return 'currency-inr'
-    }
-  }
-
-  const getMethodColor = (method: string | null) => {
-    switch (method) {
-      case 'Cash':
-        return '#10B981'
-      case 'UPI':
-        return '#6366F1'
-      case 'Online':
-        return '#8B5CF6'
-      default:
-        return '#6B7280'
-    }
-  }
+  const getMethodColor = (method: string | null) => getPaymentMethodStyle(method, methods).color
 
   return (
     <View style={styles.container}>
@@ -229,14 +239,54 @@ export default function StudentPaymentsScreen() {
                 </Text>
               </View>
             </View>
-            <View style={styles.summaryItem}>
-              <Text variant="bodySmall" style={styles.summaryLabel}>
-                Plan Total
-              </Text>
-              <Text variant="headlineSmall" style={styles.summaryValue}>
-                ₹{Number(studentData.price || 0).toLocaleString('en-IN')}
+            <View style={[styles.summaryGrid, styles.summaryGridLast]}>
+              <View style={styles.summaryItem}>
+                <Text variant="bodySmall" style={styles.summaryLabel}>
+                  Plan Total
+                </Text>
+                <Text variant="headlineSmall" style={styles.summaryValue}>
+                  ₹{Number(studentData.price || 0).toLocaleString('en-IN')}
+                </Text>
+              </View>
+              {studentData.guestCharges > 0 && (
+                <View style={styles.summaryItem}>
+                  <Text variant="bodySmall" style={styles.summaryLabel}>
+                    Guest Meals
+                  </Text>
+                  <Text variant="headlineSmall" style={styles.summaryValue}>
+                    ₹{studentData.guestCharges.toLocaleString('en-IN')}
+                  </Text>
+                </View>
+              )}
+            </View>
+          </Card.Content>
+        </Card>
+
+        {/* Pay by UPI */}
+        {billingSettings?.upiVpa ? (
+          <Card style={styles.card}>
+            <Card.Content>
+              <View style={styles.cardHeader}>
+                <MaterialCommunityIcons name="cellphone-check" size={24} color="#7B2CBF" />
+                <Text variant="titleMedium" style={styles.cardTitle}>
+                  Pay by UPI
+                </Text>
+              </View>
+              <UpiPayCard student={studentData} onMessage={setSnackbarMessage} />
+            </Card.Content>
+          </Card>
+        ) : null}
+
+        {/* Statement of Account */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.cardHeader}>
+              <MaterialCommunityIcons name="file-document-outline" size={24} color="#7B2CBF" />
+              <Text variant="titleMedium" style={styles.cardTitle}>
+                Statement of Account
               </Text>
             </View>
+            <StatementOfAccount student={studentData} onMessage={setSnackbarMessage} />
           </Card.Content>
         </Card>
 
@@ -335,7 +385,7 @@ export default function StudentPaymentsScreen() {
                         ]}
                       >
                         <MaterialCommunityIcons
-                          name={getMethodIcon(payment.method)}
+                          name={getPaymentMethodStyle(payment.method, methods).icon as any}
                           size={14}
                           color={getMethodColor(payment.method)}
                         />
@@ -343,7 +393,7 @@ export default function StudentPaymentsScreen() {
                           variant="labelSmall"
                           style={[styles.methodText, { color: getMethodColor(payment.method) }]}
                         >
-                          {payment.method || 'N/A'}
+                          {getPaymentMethodName(payment.method, methods)}
                         </Text>
                       </View>
                     </View>
@@ -353,6 +403,22 @@ export default function StudentPaymentsScreen() {
                         {format(new Date(payment.paymentDate), 'dd MMMM yyyy')}
                       </Text>
                     </View>
+                    <View style={styles.receiptRow}>
+                      <Text variant="bodySmall" style={styles.dateText}>
+                        {payment.receiptNumber ? `Receipt ${payment.receiptNumber}` : 'Receipt'}
+                      </Text>
+                      <Button
+                        mode="text"
+                        icon="file-pdf-box"
+                        onPress={() => handleShareReceipt(payment.id)}
+                        loading={shareReceipt.isPending && shareReceipt.variables === payment.id}
+                        disabled={shareReceipt.isPending}
+                        textColor="#7B2CBF"
+                        compact
+                      >
+                        Share
+                      </Button>
+                    </View>
                   </View>
                 </View>
               </Card.Content>
@@ -360,6 +426,45 @@ export default function StudentPaymentsScreen() {
           ))
         )}
 
+        {/* Guest Meals */}
+        {guestMeals && guestMeals.length > 0 && (
+          <>
+            <View style={styles.sectionHeader}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Guest Meals
+              </Text>
+              <Text variant="bodySmall" style={styles.sectionSubtitle}>
+                Added to your balance
+              </Text>
+            </View>
+            {guestMeals.map((guestMeal) => (
+              <Card key={guestMeal.id} style={styles.paymentCard}>
+                <Card.Content>
+                  <View style={styles.amountRow}>
+                    <Text variant="titleMedium" style={[styles.amount, styles.guestAmount]}>
+                      ₹{guestMeal.amount.toLocaleString('en-IN')}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.dateText}>
+                      {guestMeal.count} × {getMealName(guestMeal.meal, mealSchedule)} @ ₹{guestMeal.rate.toLocaleString('en-IN')}
+                    </Text>
+                  </View>
+                  <View style={styles.dateRow}>
+                    <MaterialCommunityIcons name="calendar" size={16} color="#9CA3AF" />
+                    <Text variant="bodyMedium" style={styles.dateText}>
+                      {format(new Date(guestMeal.date), 'dd MMMM yyyy')}
+                    </Text>
+                  </View>
+                  {guestMeal.note && (
+                    <Text variant="bodySmall" style={styles.dateText}>
+                      {guestMeal.note}
+                    </Text>
+                  )}
+                </Card.Content>
+              </Card>
+            ))}
+          </>
+        )}
+
         {/* This Month Summary */}
         {dateFilter === 'all' && thisMonthTotal > 0 && (
           <Card style={[styles.card, styles.summaryCard]}>
@@ -375,6 +480,14 @@ export default function StudentPaymentsScreen() {
         )}
         </ScrollView>
       )}
+
+      <Snackbar
+        visible={!!snackbarMessage}
+        onDismiss={() => setSnackbarMessage('')}
+        duration={4000}
+      >
+        {`⚠️ ${snackbarMessage}`}
+      </Snackbar>
     </View>
   )
 }
@@ -441,6 +554,9 @@ const styles = StyleSheet.create({
     gap: 16,
     marginBottom: 16,
   },
+  summaryGridLast: {
+    marginBottom: 0,
+  },
   summaryItem: {
     flex: 1,
   },
@@ -516,6 +632,9 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '700',
   },
+  guestAmount: {
+    color: '#F59E0B',
+  },
   dateRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -525,6 +644,12 @@ const styles = StyleSheet.create({
     color: '#666',
     fontSize: 14,
   },
+  receiptRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 4,
+  },
   emptyContent: {
     alignItems: 'center',
     paddingVertical: 48,
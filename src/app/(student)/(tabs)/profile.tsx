@@ -7,6 +7,7 @@ import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useAuth } from '@/context/AuthContext'
 import { getStudentByUserId } from '@/lib/students'
 import { useQuery } from '@tanstack/react-query'
+import { formatPlanMeals } from '@/lib/meal-schedule'
 
 // Feature flag: Set to true to show PIN reset UI, false to hide it
 const ENABLE_PIN_RESET = false
@@ -129,7 +130,7 @@ export default function StudentProfileScreen() {
                   <View style={styles.infoRow}>
                     <Text variant="bodyMedium" style={styles.infoLabel}>Meals:</Text>
                     <Text variant="bodyLarge" style={styles.infoValue}>
-                      {student.plan.meals}
+                      {formatPlanMeals(student.plan.meals)}
                     </Text>
                   </View>
                   <View style={styles.infoRow}>
@@ -145,6 +146,14 @@ export default function StudentProfileScreen() {
                     </Text>
                   </View>
                 </View>
+                <Button
+                  mode="outlined"
+                  onPress={() => router.push('/(student)/leave')}
+                  style={styles.leaveButton}
+                  icon="calendar-remove"
+                >
+                  Leave Requests
+                </Button>
               </Card.Content>
             </Card>
 
@@ -264,6 +273,9 @@ const styles = StyleSheet.create({
   pinButton: {
     marginTop: 8,
   },
+  leaveButton: {
+    marginTop: 16,
+  },
   logoutButton: {
     marginTop: 8,
     borderColor: '#EF4444',
@@ -4,6 +4,7 @@ import { useAuth } from '@/context/AuthContext'
 import { getProfileByUserId } from '@/lib/profiles'
 import { View, ActivityIndicator, StyleSheet } from 'react-native'
 import { Text } from 'react-native-paper'
+import { useAttendanceQueueSync } from '@/hooks/useAttendanceQueue'
 
 export default function StudentLayout() {
   const { session, loading: authLoading, user } = useAuth()
@@ -11,6 +12,9 @@ export default function StudentLayout() {
   const [checkingRole, setCheckingRole] = useState(true)
   const [isAuthorized, setIsAuthorized] = useState(false)
 
+  // Send scans captured offline as soon as the server is reachable
+  useAttendanceQueueSync(isAuthorized ? user?.id : undefined)
+
   useEffect(() => {
     const checkStudentAccess = async () => {
       if (authLoading) return
@@ -81,6 +85,7 @@ export default function StudentLayout() {
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="reset-pin" options={{ presentation: 'card' }} />
+      <Stack.Screen name="leave" options={{ presentation: 'card' }} />
       <Stack.Screen name="qr-scanner" options={{ headerShown: false, animation: 'fade' }} />
     </Stack>
   )
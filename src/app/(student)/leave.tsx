@@ -0,0 +1,358 @@
+import React, { useState } from 'react'
+import { View, StyleSheet, ScrollView, Alert } from 'react-native'
+import { Text, TextInput, Button, Card, Chip, Snackbar, ActivityIndicator } from 'react-native-paper'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { format, addDays, parseISO } from 'date-fns'
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '@/context/AuthContext'
+import { getStudentByUserId } from '@/lib/students'
+import { SimpleDatePicker } from '@/components/shared/SimpleDatePicker'
+import {
+  calculateRebateDays,
+  countLeaveDays,
+  validateLeaveDates,
+  LEAVE_STATUS_COLORS,
+  LEAVE_STATUS_LABELS,
+  formatLeaveRange,
+  type LeaveRequest,
+} from '@/lib/leave'
+import {
+  useLeavePolicy,
+  useLeaveRequests,
+  useRequestLeave,
+  useCancelLeaveRequest,
+} from '@/hooks/useLeave'
+
+export default function LeaveScreen() {
+  const insets = useSafeAreaInsets()
+  const { user } = useAuth()
+
+  const { data: policy } = useLeavePolicy()
+  const minNoticeDays = policy?.minNoticeDays ?? 1
+  const earliestStart = format(addDays(new Date(), minNoticeDays), 'yyyy-MM-dd')
+
+  const [startDate, setStartDate] = useState(earliestStart)
+  const [endDate, setEndDate] = useState(earliestStart)
+  const [reason, setReason] = useState('')
+  const [snackbarVisible, setSnackbarVisible] = useState(false)
+  const [snackbarMessage, setSnackbarMessage] = useState('')
+
+  const { data: student } = useQuery({
+    queryKey: ['student', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return null
+      const result = await getStudentByUserId(user.id)
+      if (result.error) throw result.error
+      return result.student
+    },
+    enabled: !!user?.id,
+  })
+
+  // Students only see their own requests
+  const { data: leaveRequests, isLoading } = useLeaveRequests()
+  const requestMutation = useRequestLeave()
+  const cancelMutation = useCancelLeaveRequest()
+
+  const showMessage = (message: string) => {
+    setSnackbarMessage(message)
+    setSnackbarVisible(true)
+  }
+
+  const leaveDays = countLeaveDays(startDate, endDate)
+  const expectedRebate = policy && student
+    ? calculateRebateDays(policy, { startDate, endDate }, student)
+    : 0
+
+  const handleStartDateChange = (date: string) => {
+    setStartDate(date)
+    if (endDate < date) setEndDate(date)
+  }
+
+  const handleSubmit = async () => {
+    if (!policy) return
+
+    const invalidReason = validateLeaveDates(policy, startDate, endDate, format(new Date(), 'yyyy-MM-dd'))
+    if (invalidReason) {
+      showMessage(invalidReason)
+      return
+    }
+
+    try {
+      await requestMutation.mutateAsync({ startDate, endDate, reason: reason.trim() || undefined })
+      setReason('')
+      showMessage('Leave request submitted')
+    } catch (error: any) {
+      showMessage(error.message || 'Failed to submit leave request')
+    }
+  }
+
+  const handleCancel = (leave: LeaveRequest) => {
+    Alert.alert(
+      'Cancel Leave Request',
+      `Withdraw your leave request for ${formatLeaveRange(leave)}?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Withdraw',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await cancelMutation.mutateAsync(leave.id)
+              showMessage('Leave request withdrawn')
+            } catch (error: any) {
+              showMessage(error.message || 'Failed to cancel leave request')
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+        <MaterialCommunityIcons name="calendar-remove" size={32} color="#7B2CBF" />
+        <View style={styles.headerText}>
+          <Text variant="headlineSmall" style={styles.title}>
+            Leave Requests
+          </Text>
+          <Text variant="bodySmall" style={styles.subtitle}>
+            Tell the mess when you'll be away
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.cardTitle}>
+              Request Leave
+            </Text>
+            <Text variant="bodyMedium" style={styles.infoText}>
+              {minNoticeDays > 0
+                ? `Leave must be requested at least ${minNoticeDays} day${minNoticeDays !== 1 ? 's' : ''} in advance. `
+                : ''}
+              {policy && policy.minRebateDays > 1
+                ? `Approved leave of ${policy.minRebateDays} days or more extends your plan.`
+                : 'Approved leave extends your plan.'}
+            </Text>
+
+            <SimpleDatePicker
+              label="From"
+              value={startDate}
+              onChange={handleStartDateChange}
+              minimumDate={parseISO(earliestStart)}
+            />
+            <SimpleDatePicker
+              label="To"
+              value={endDate}
+              onChange={setEndDate}
+              minimumDate={parseISO(startDate)}
+            />
+
+            <TextInput
+              label="Reason (optional)"
+              value={reason}
+              onChangeText={setReason}
+              mode="outlined"
+              multiline
+              style={styles.input}
+            />
+
+            <Text variant="bodySmall" style={styles.summaryText}>
+              {leaveDays} day{leaveDays !== 1 ? 's' : ''}
+              {expectedRebate > 0 ? ` • plan extended by ${expectedRebate} day${expectedRebate !== 1 ? 's' : ''} if approved` : ''}
+            </Text>
+
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              loading={requestMutation.isPending}
+              disabled={requestMutation.isPending || !policy}
+              style={styles.button}
+              icon="send"
+            >
+              Submit Request
+            </Button>
+          </Card.Content>
+        </Card>
+
+        <Text variant="titleMedium" style={styles.sectionTitle}>
+          My Requests
+        </Text>
+
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color="#7B2CBF" />
+        ) : !leaveRequests || leaveRequests.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            You haven't requested any leave yet.
+          </Text>
+        ) : (
+          leaveRequests.map((leave) => (
+            <Card key={leave.id} style={styles.card}>
+              <Card.Content>
+                <View style={styles.requestHeader}>
+                  <Text variant="titleSmall" style={styles.requestDates}>
+                    {formatLeaveRange(leave)}
+                  </Text>
+                  <Chip
+                    compact
+                    style={{ backgroundColor: LEAVE_STATUS_COLORS[leave.status].background }}
+                    textStyle={{ color: LEAVE_STATUS_COLORS[leave.status].color }}
+                  >
+                    {LEAVE_STATUS_LABELS[leave.status]}
+                  </Chip>
+                </View>
+                <Text variant="bodySmall" style={styles.requestMeta}>
+                  {countLeaveDays(leave.startDate, leave.endDate)} day
+                  {countLeaveDays(leave.startDate, leave.endDate) !== 1 ? 's' : ''}
+                  {leave.status === 'approved' && leave.rebateDays > 0
+                    ? ` • plan extended by ${leave.rebateDays} day${leave.rebateDays !== 1 ? 's' : ''}`
+                    : ''}
+                </Text>
+                {leave.reason && (
+                  <Text variant="bodyMedium" style={styles.requestReason}>
+                    {leave.reason}
+                  </Text>
+                )}
+                {leave.reviewNote && (
+                  <Text variant="bodySmall" style={styles.reviewNote}>
+                    Note from mess: {leave.reviewNote}
+                  </Text>
+                )}
+                {leave.status === 'pending' && (
+                  <Button
+                    mode="text"
+                    onPress={() => handleCancel(leave)}
+                    textColor="#EF4444"
+                    compact
+                    style={styles.cancelButton}
+                  >
+                    Withdraw
+                  </Button>
+                )}
+              </Card.Content>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={3000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FAFAFA',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontWeight: '700',
+    color: '#1A1A1A',
+    marginBottom: 4,
+    fontSize: 22,
+    letterSpacing: -0.3,
+  },
+  subtitle: {
+    color: '#666',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    elevation: 0,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  cardTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 8,
+  },
+  infoText: {
+    color: '#666',
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  input: {
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  summaryText: {
+    color: '#666',
+  },
+  button: {
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginTop: 8,
+  },
+  loading: {
+    marginTop: 16,
+  },
+  emptyText: {
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  requestDates: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    flex: 1,
+  },
+  requestMeta: {
+    color: '#666',
+    marginTop: 4,
+  },
+  requestReason: {
+    color: '#374151',
+    marginTop: 8,
+  },
+  reviewNote: {
+    color: '#6B7280',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  cancelButton: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+  },
+})
@@ -51,12 +51,15 @@ export default function QRScannerScreen() {
 
     setLoading(true)
     try {
-      const result = await markAttendanceFromQR(user.id)
+      const result = await markAttendanceFromQR(qrData)
       setResult(result)
       setShowResult(true)
       // Invalidate attendance queries to refresh data
       await queryClient.invalidateQueries({ queryKey: ['today-attendance', studentData?.id] })
       await queryClient.invalidateQueries({ queryKey: ['attendance-history', studentData?.id] })
+      if (result.queued) {
+        await queryClient.invalidateQueries({ queryKey: ['pending-scans', user.id] })
+      }
     } catch (error) {
       setResult({
         success: false,
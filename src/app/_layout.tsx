@@ -63,11 +63,14 @@ function DeepLinkHandler() {
       // Mark attendance
       try {
         logger.info('Marking attendance from deep link', { userId: user.id })
-        const result = await markAttendanceFromQR(user.id)
+        const result = await markAttendanceFromQR(url)
         
         // Invalidate attendance queries to refresh data
         await queryClient.invalidateQueries({ queryKey: ['today-attendance'] })
         await queryClient.invalidateQueries({ queryKey: ['attendance-history'] })
+        if (result.queued) {
+          await queryClient.invalidateQueries({ queryKey: ['pending-scans', user.id] })
+        }
         
         // Navigate to dashboard if not already there
         const currentRoute = segments[segments.length - 1]
@@ -84,7 +87,7 @@ function DeepLinkHandler() {
           )
         } else {
           Alert.alert(
-            'Attendance Not Marked',
+            result.queued ? 'Scan Saved Offline' : 'Attendance Not Marked',
             result.message,
             [{ text: 'OK' }]
           )
@@ -0,0 +1,154 @@
+import React from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Text, ActivityIndicator } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { format, parseISO } from 'date-fns'
+import { useAttendanceChanges } from '@/hooks/useAttendance'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { getMealName, type MealKey } from '@/lib/meal-schedule'
+import {
+  ATTENDANCE_CHANGE_ACTION_LABELS,
+  diffMealMarks,
+  type AttendanceChangeAction,
+} from '@/lib/attendance-history'
+
+interface AttendanceHistoryListProps {
+  studentId: number
+  date?: string // Only this day's changes; all days when left out
+}
+
+const ACTION_ICONS: Record<AttendanceChangeAction, keyof typeof MaterialCommunityIcons.glyphMap> = {
+  create: 'plus-circle-outline',
+  update: 'pencil-outline',
+  delete: 'delete-outline',
+}
+
+/**
+ * Logged manual and imported changes to a student's attendance, newest first
+ */
+export function AttendanceHistoryList({ studentId, date }: AttendanceHistoryListProps) {
+  const { data: schedule } = useMealSchedule()
+  const { data: changes, isLoading, error } = useAttendanceChanges(studentId, date)
+
+  const mealNames = (meals: MealKey[]) => meals.map((meal) => getMealName(meal, schedule)).join(', ')
+
+  if (isLoading) {
+    return <ActivityIndicator style={styles.loading} color="#7B2CBF" />
+  }
+
+  if (error) {
+    return (
+      <Text variant="bodySmall" style={styles.error}>
+        {(error as Error).message || 'Failed to load history'}
+      </Text>
+    )
+  }
+
+  if (!changes || changes.length === 0) {
+    return (
+      <Text variant="bodySmall" style={styles.empty}>
+        No changes recorded
+      </Text>
+    )
+  }
+
+  return (
+    <View>
+      {changes.map((change) => {
+        const { added, removed } = diffMealMarks(change.previousMarks, change.newMarks)
+
+        return (
+          <View key={change.id} style={styles.entry}>
+            <MaterialCommunityIcons name={ACTION_ICONS[change.action]} size={20} color="#6B7280" />
+            <View style={styles.details}>
+              <View style={styles.header}>
+                <Text variant="bodyMedium" style={styles.action}>
+                  {ATTENDANCE_CHANGE_ACTION_LABELS[change.action]}
+                  {!date ? ` • ${format(parseISO(change.date), 'dd MMM yyyy')}` : ''}
+                </Text>
+                {change.source === 'import' && (
+                  <Text variant="labelSmall" style={styles.importTag}>
+                    Imported
+                  </Text>
+                )}
+              </View>
+              {added.length > 0 && (
+                <Text variant="bodySmall" style={styles.added}>
+                  Marked: {mealNames(added)}
+                </Text>
+              )}
+              {removed.length > 0 && (
+                <Text variant="bodySmall" style={styles.removed}>
+                  Unmarked: {mealNames(removed)}
+                </Text>
+              )}
+              <Text variant="bodySmall" style={styles.muted}>
+                Before: {mealNames(Object.keys(change.previousMarks || {})) || 'none'} → After:{' '}
+                {mealNames(Object.keys(change.newMarks || {})) || 'none'}
+              </Text>
+              <Text variant="bodySmall" style={styles.reason}>
+                “{change.reason}”
+              </Text>
+              <Text variant="bodySmall" style={styles.muted}>
+                {change.changedByEmail || 'Unknown admin'} • {format(new Date(change.changedAt), 'dd MMM yyyy, h:mm a')}
+              </Text>
+            </View>
+          </View>
+        )
+      })}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 16,
+  },
+  error: {
+    color: '#EF4444',
+  },
+  empty: {
+    color: '#666',
+  },
+  entry: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  details: {
+    flex: 1,
+    gap: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  action: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  importTag: {
+    color: '#7B2CBF',
+    backgroundColor: '#F3E8FF',
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  added: {
+    color: '#10B981',
+  },
+  removed: {
+    color: '#EF4444',
+  },
+  reason: {
+    color: '#1A1A1A',
+    fontStyle: 'italic',
+  },
+  muted: {
+    color: '#666',
+  },
+})
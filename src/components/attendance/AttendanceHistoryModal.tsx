@@ -0,0 +1,80 @@
+import React from 'react'
+import { View, StyleSheet, ScrollView } from 'react-native'
+import { Modal, Text, Button, Portal } from 'react-native-paper'
+import { AttendanceHistoryList } from './AttendanceHistoryList'
+
+interface AttendanceHistoryModalProps {
+  visible: boolean
+  onDismiss: () => void
+  student: { studentId: number; name: string } | null
+  date: string
+}
+
+export function AttendanceHistoryModal({ visible, onDismiss, student, date }: AttendanceHistoryModalProps) {
+  if (!student) return null
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modalContent}
+      >
+        <View style={styles.header}>
+          <Text variant="titleLarge" style={styles.title}>
+            Attendance History
+          </Text>
+          <Text variant="bodyMedium" style={styles.subtitle}>
+            {student.name} - {new Date(date).toLocaleDateString()}
+          </Text>
+        </View>
+
+        <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent}>
+          <AttendanceHistoryList studentId={student.studentId} date={date} />
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <Button mode="outlined" onPress={onDismiss} style={styles.closeButton}>
+            Close
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  modalContent: {
+    backgroundColor: '#FFF',
+    margin: 20,
+    borderRadius: 16,
+    maxHeight: '80%',
+  },
+  header: {
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1A1A1A',
+    marginBottom: 4,
+  },
+  subtitle: {
+    color: '#666',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  closeButton: {
+    borderRadius: 8,
+  },
+})
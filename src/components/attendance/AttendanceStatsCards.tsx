@@ -2,12 +2,13 @@ import React from 'react'
 import { View, StyleSheet } from 'react-native'
 import { Card, Text } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
+import type { MealKey } from '@/lib/meal-schedule'
 
 interface AttendanceStatsCardsProps {
   total: number
   present: number
   missing: number
-  selectedMeal?: 'breakfast' | 'lunch' | 'dinner' | null
+  selectedMeal?: MealKey | null
 }
 
 export function AttendanceStatsCards({ total, present, missing, selectedMeal }: AttendanceStatsCardsProps) {
@@ -2,12 +2,13 @@ import React, { useState } from 'react'
 import { View, StyleSheet, ScrollView } from 'react-native'
 import { Modal, Text, Button, Checkbox, Portal } from 'react-native-paper'
 import type { StudentAttendance } from '@/lib/attendance'
+import { getMealName, type MealKey } from '@/lib/meal-schedule'
 
 interface BulkMarkModalProps {
   visible: boolean
   onDismiss: () => void
   students: StudentAttendance[]
-  currentMeal: 'breakfast' | 'lunch' | 'dinner'
+  currentMeal: MealKey
   onMark: (studentIds: number[]) => void
   loading?: boolean
 }
@@ -45,12 +46,6 @@ export function BulkMarkModal({
     setSelectedIds(new Set())
   }
 
-  const mealLabels = {
-    breakfast: 'Breakfast',
-    lunch: 'Lunch',
-    dinner: 'Dinner',
-  }
-
   return (
     <Portal>
       <Modal
@@ -60,7 +55,7 @@ export function BulkMarkModal({
       >
         <View style={styles.header}>
           <Text variant="titleLarge" style={styles.title}>
-            Mark {mealLabels[currentMeal]} for Multiple Students
+            Mark {getMealName(currentMeal)} for Multiple Students
           </Text>
           <Text variant="bodySmall" style={styles.subtitle}>
             Select students to mark attendance
@@ -83,9 +78,7 @@ export function BulkMarkModal({
         <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
           {students.map((student) => {
             const isSelected = selectedIds.has(student.studentId)
-            const isEligible = student.plan.meals.some((m) =>
-              m.toLowerCase().includes(currentMeal)
-            )
+            const isEligible = student.plan.meals.includes(currentMeal)
 
             if (!isEligible) return null
 
@@ -1,15 +1,17 @@
 import React, { useState } from 'react'
 import { View, StyleSheet } from 'react-native'
-import { Modal, Text, Button, Checkbox, Portal } from 'react-native-paper'
+import { Modal, Text, Button, Checkbox, Portal, TextInput } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
-import type { StudentAttendance } from '@/lib/attendance'
+import { isMealMarked, type StudentAttendance } from '@/lib/attendance'
+import { formatMealWindow, getMealWindow, type MealKey } from '@/lib/meal-schedule'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
 
 interface EditAttendanceModalProps {
   visible: boolean
   onDismiss: () => void
   student: StudentAttendance | null
   date: string
-  onSave: (data: { breakfast: boolean; lunch: boolean; dinner: boolean }) => void
+  onSave: (data: Record<MealKey, boolean>, reason: string) => void
   loading?: boolean
 }
 
@@ -21,43 +23,43 @@ export function EditAttendanceModal({
   onSave,
   loading = false,
 }: EditAttendanceModalProps) {
-  const [breakfast, setBreakfast] = useState(false)
-  const [lunch, setLunch] = useState(false)
-  const [dinner, setDinner] = useState(false)
+  const { data: schedule } = useMealSchedule()
+  const [marked, setMarked] = useState<Record<MealKey, boolean>>({})
+  const [reason, setReason] = useState('')
 
   React.useEffect(() => {
+    setReason('')
     if (student) {
-      setBreakfast(student.attendance.breakfast)
-      setLunch(student.attendance.lunch)
-      setDinner(student.attendance.dinner)
+      setMarked(
+        Object.fromEntries(
+          schedule.mealTypes.map((type) => [type.key, isMealMarked(student.attendance.marks, type.key)])
+        )
+      )
     }
-  }, [student])
+  }, [student, schedule])
 
   // Helper function to check meal eligibility
-  const isMealEligible = (meal: 'breakfast' | 'lunch' | 'dinner') => {
+  const isMealEligible = (meal: MealKey) => {
     if (!student) return false
-    return student.plan.meals.some((m) => m.toLowerCase().includes(meal))
+    return student.plan.meals.includes(meal)
   }
 
   const handleSave = () => {
     // Only save meals that are eligible for the student's plan
-    onSave({ 
-      breakfast: isMealEligible('breakfast') ? breakfast : false,
-      lunch: isMealEligible('lunch') ? lunch : false,
-      dinner: isMealEligible('dinner') ? dinner : false,
-    })
+    onSave(
+      Object.fromEntries(
+        schedule.mealTypes.map((type) => [type.key, isMealEligible(type.key) ? !!marked[type.key] : false])
+      ),
+      reason.trim()
+    )
   }
 
   const handleMarkAll = () => {
-    setBreakfast(isMealEligible('breakfast'))
-    setLunch(isMealEligible('lunch'))
-    setDinner(isMealEligible('dinner'))
+    setMarked(Object.fromEntries(schedule.mealTypes.map((type) => [type.key, isMealEligible(type.key)])))
   }
 
   const handleUnmarkAll = () => {
-    setBreakfast(false)
-    setLunch(false)
-    setDinner(false)
+    setMarked({})
   }
 
   if (!student) return null
@@ -99,86 +101,54 @@ export function EditAttendanceModal({
             </Button>
           </View>
 
-          <View style={styles.checkboxRow}>
-            <Checkbox
-              status={breakfast ? 'checked' : 'unchecked'}
-              onPress={() => {
-                if (isMealEligible('breakfast')) {
-                  setBreakfast(!breakfast)
-                }
-              }}
-              disabled={!isMealEligible('breakfast')}
-            />
-            <View style={styles.checkboxInfo}>
-              <View style={styles.checkboxHeader}>
-                <Text variant="bodyLarge" style={[styles.checkboxLabel, !isMealEligible('breakfast') && styles.disabledText]}>
-                  Breakfast
-                </Text>
-                {isMealEligible('breakfast') && (
-                  <View style={[styles.mealBadge, { backgroundColor: '#F3F4F6' }]}>
-                    <MaterialCommunityIcons name="weather-sunny" size={14} color="#6B7280" />
-                  </View>
-                )}
-              </View>
-              <Text variant="bodySmall" style={styles.checkboxDesc}>
-                {isMealEligible('breakfast') ? 'Morning meal attendance' : 'Not included in plan'}
-              </Text>
-            </View>
-          </View>
+          {schedule.mealTypes.map((type) => {
+            const eligible = isMealEligible(type.key)
+            const window = getMealWindow(schedule, type.key, new Date(date))
 
-          <View style={styles.checkboxRow}>
-            <Checkbox
-              status={lunch ? 'checked' : 'unchecked'}
-              onPress={() => {
-                if (isMealEligible('lunch')) {
-                  setLunch(!lunch)
-                }
-              }}
-              disabled={!isMealEligible('lunch')}
-            />
-            <View style={styles.checkboxInfo}>
-              <View style={styles.checkboxHeader}>
-                <Text variant="bodyLarge" style={[styles.checkboxLabel, !isMealEligible('lunch') && styles.disabledText]}>
-                  Lunch
-                </Text>
-                {isMealEligible('lunch') && (
-                  <View style={[styles.mealBadge, { backgroundColor: '#F3F4F6' }]}>
-                    <MaterialCommunityIcons name="weather-sunset" size={14} color="#6B7280" />
+            return (
+              <View key={type.key} style={styles.checkboxRow}>
+                <Checkbox
+                  status={marked[type.key] ? 'checked' : 'unchecked'}
+                  onPress={() => {
+                    if (eligible) {
+                      setMarked((current) => ({ ...current, [type.key]: !current[type.key] }))
+                    }
+                  }}
+                  disabled={!eligible}
+                />
+                <View style={styles.checkboxInfo}>
+                  <View style={styles.checkboxHeader}>
+                    <Text variant="bodyLarge" style={[styles.checkboxLabel, !eligible && styles.disabledText]}>
+                      {type.name}
+                    </Text>
+                    {eligible && (
+                      <View style={[styles.mealBadge, { backgroundColor: '#F3F4F6' }]}>
+                        <MaterialCommunityIcons name={type.icon as keyof typeof MaterialCommunityIcons.glyphMap} size={14} color="#6B7280" />
+                      </View>
+                    )}
                   </View>
-                )}
+                  <Text variant="bodySmall" style={styles.checkboxDesc}>
+                    {!eligible
+                      ? 'Not included in plan'
+                      : window.enabled
+                        ? formatMealWindow(window)
+                        : 'Not served on this day'}
+                  </Text>
+                </View>
               </View>
-              <Text variant="bodySmall" style={styles.checkboxDesc}>
-                {isMealEligible('lunch') ? 'Afternoon meal attendance' : 'Not included in plan'}
-              </Text>
-            </View>
-          </View>
+            )
+          })}
 
-          <View style={styles.checkboxRow}>
-            <Checkbox
-              status={dinner ? 'checked' : 'unchecked'}
-              onPress={() => {
-                if (isMealEligible('dinner')) {
-                  setDinner(!dinner)
-                }
-              }}
-              disabled={!isMealEligible('dinner')}
-            />
-            <View style={styles.checkboxInfo}>
-              <View style={styles.checkboxHeader}>
-                <Text variant="bodyLarge" style={[styles.checkboxLabel, !isMealEligible('dinner') && styles.disabledText]}>
-                  Dinner
-                </Text>
-                {isMealEligible('dinner') && (
-                  <View style={[styles.mealBadge, { backgroundColor: '#F3F4F6' }]}>
-                    <MaterialCommunityIcons name="weather-night" size={14} color="#6B7280" />
-                  </View>
-                )}
-              </View>
-              <Text variant="bodySmall" style={styles.checkboxDesc}>
-                {isMealEligible('dinner') ? 'Evening meal attendance' : 'Not included in plan'}
-              </Text>
-            </View>
-          </View>
+          {/* Every manual edit is logged with a reason */}
+          <TextInput
+            label="Reason for change (required)"
+            value={reason}
+            onChangeText={setReason}
+            mode="outlined"
+            multiline
+            maxLength={500}
+            style={styles.reasonInput}
+          />
         </View>
 
         <View style={styles.footer}>
@@ -194,7 +164,7 @@ export function EditAttendanceModal({
             mode="contained"
             onPress={handleSave}
             style={styles.saveButton}
-            disabled={loading}
+            disabled={loading || !reason.trim()}
             loading={loading}
           >
             Save Changes
@@ -272,6 +242,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  reasonInput: {
+    marginTop: 16,
+  },
   disabledText: {
     color: '#9CA3AF',
     opacity: 0.6,
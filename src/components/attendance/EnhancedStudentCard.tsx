@@ -2,16 +2,19 @@ import React from 'react'
 import { View, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native'
 import { Text, Card, IconButton } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
-import type { StudentAttendance } from '@/lib/attendance'
+import { formatMealMark, isMealMarked, type StudentAttendance } from '@/lib/attendance'
+import { getMealColors, type MealKey } from '@/lib/meal-schedule'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
 
 interface EnhancedStudentCardProps {
   student: StudentAttendance
-  onToggleMeal: (meal: 'breakfast' | 'lunch' | 'dinner') => void
+  onToggleMeal: (meal: MealKey) => void
   onMarkAll?: () => void
   onEdit?: () => void
   onDelete?: () => void
+  onHistory?: () => void
   loading?: boolean
-  mealLoading?: 'breakfast' | 'lunch' | 'dinner' | null
+  mealLoading?: MealKey | null
 }
 
 export function EnhancedStudentCard({
@@ -20,27 +23,28 @@ export function EnhancedStudentCard({
   onMarkAll,
   onEdit,
   onDelete,
+  onHistory,
   loading = false,
   mealLoading = null,
 }: EnhancedStudentCardProps) {
+  const { data: schedule } = useMealSchedule()
+
   // Helper to check if meal is in plan
-  const isMealInPlan = (meal: 'breakfast' | 'lunch' | 'dinner') => {
-    return student.plan.meals.some((m) => m.toLowerCase().includes(meal))
+  const isMealInPlan = (meal: MealKey) => {
+    return student.plan.meals.includes(meal)
   }
 
+  const isMarked = (meal: MealKey) => isMealMarked(student.attendance.marks, meal)
+
+  const eligibleMeals = schedule.mealTypes.map((type) => type.key).filter(isMealInPlan)
+  const allMarked = eligibleMeals.every(isMarked)
+  const hasAnyMarked = eligibleMeals.some(isMarked)
+
   const getStatus = () => {
-    const { breakfast, lunch, dinner } = student.attendance
-    const planMeals = student.plan.meals.map((m) => m.toLowerCase())
-    
     // Only count meals that are in the student's plan
-    const eligibleMeals = []
-    if (planMeals.some(m => m.includes('breakfast'))) eligibleMeals.push(breakfast)
-    if (planMeals.some(m => m.includes('lunch'))) eligibleMeals.push(lunch)
-    if (planMeals.some(m => m.includes('dinner'))) eligibleMeals.push(dinner)
-    
-    const mealCount = eligibleMeals.filter(Boolean).length
+    const mealCount = eligibleMeals.filter(isMarked).length
     const totalEligibleMeals = eligibleMeals.length
-    
+
     if (mealCount === totalEligibleMeals && totalEligibleMeals > 0) {
       return { text: 'Full', color: '#FFFFFF', bg: '#10B981' }
     }
@@ -51,20 +55,11 @@ export function EnhancedStudentCard({
   }
 
   const status = getStatus()
-  const eligibleMeals = ['breakfast', 'lunch', 'dinner'].filter(m => 
-    isMealInPlan(m as 'breakfast' | 'lunch' | 'dinner')
-  )
-  const allMarked = eligibleMeals.every(meal => 
-    student.attendance[meal as 'breakfast' | 'lunch' | 'dinner']
-  )
-  const hasAnyMarked = eligibleMeals.some(meal => 
-    student.attendance[meal as 'breakfast' | 'lunch' | 'dinner']
-  )
 
-  const mealConfig = {
-    breakfast: { label: 'B', color: '#F59E0B', bg: '#FEF3C7' },
-    lunch: { label: 'L', color: '#3B82F6', bg: '#DBEAFE' },
-    dinner: { label: 'D', color: '#6366F1', bg: '#E0E7FF' },
+  const mealConfig = (meal: MealKey) => {
+    const type = schedule.mealTypes.find((mealType) => mealType.key === meal)
+    const colors = getMealColors(meal, schedule)
+    return { label: (type?.name ?? meal).charAt(0).toUpperCase(), color: colors.color, bg: colors.background }
   }
 
   return (
@@ -95,11 +90,11 @@ export function EnhancedStudentCard({
 
         {/* Inline Meal Toggles */}
         <View style={styles.mealsContainer}>
-          {(['breakfast', 'lunch', 'dinner'] as const).map((meal) => {
+          {schedule.mealTypes.map(({ key: meal }) => {
             const isEligible = isMealInPlan(meal)
-            const isMarked = student.attendance[meal]
+            const mealMarked = isMarked(meal)
             const isLoading = mealLoading === meal
-            const config = mealConfig[meal]
+            const config = mealConfig(meal)
 
             if (!isEligible) {
               return (
@@ -119,17 +114,17 @@ export function EnhancedStudentCard({
                 key={meal}
                 style={[
                   styles.mealBadge,
-                  isMarked ? [styles.mealBadgeMarked, { backgroundColor: config.color }] : [styles.mealBadgeUnmarked, { borderColor: config.color, backgroundColor: config.bg }],
+                  mealMarked ? [styles.mealBadgeMarked, { backgroundColor: config.color }] : [styles.mealBadgeUnmarked, { borderColor: config.color, backgroundColor: config.bg }],
                 ]}
                 onPress={() => !isLoading && onToggleMeal(meal)}
                 activeOpacity={0.7}
                 disabled={loading || isLoading}
               >
                 {isLoading ? (
-                  <ActivityIndicator size={12} color={isMarked ? '#FFFFFF' : config.color} />
+                  <ActivityIndicator size={12} color={mealMarked ? '#FFFFFF' : config.color} />
                 ) : (
                   <>
-                    {isMarked && (
+                    {mealMarked && (
                       <MaterialCommunityIcons
                         name="check"
                         size={14}
@@ -141,7 +136,7 @@ export function EnhancedStudentCard({
                       variant="labelSmall"
                       style={[
                         styles.mealLabel,
-                        isMarked ? styles.mealLabelMarked : { color: config.color, fontWeight: '700' },
+                        mealMarked ? styles.mealLabelMarked : { color: config.color, fontWeight: '700' },
                       ]}
                     >
                       {config.label}
@@ -153,6 +148,21 @@ export function EnhancedStudentCard({
           })}
         </View>
 
+        {/* When and how each meal was marked */}
+        {hasAnyMarked && (
+          <View style={styles.marksRow}>
+            {schedule.mealTypes.map(({ key: meal }) => {
+              const markText = formatMealMark(student.attendance.marks[meal])
+              if (!markText) return null
+              return (
+                <Text key={meal} variant="labelSmall" style={styles.markText}>
+                  {mealConfig(meal).label} {markText}
+                </Text>
+              )
+            })}
+          </View>
+        )}
+
         {/* Quick Actions */}
         <View style={styles.actionsRow}>
           {onMarkAll && eligibleMeals.length > 1 && (
@@ -192,6 +202,17 @@ export function EnhancedStudentCard({
               style={styles.actionIcon}
             />
           )}
+
+          {/* History stays available after a record is deleted */}
+          {onHistory && (
+            <IconButton
+              icon="history"
+              size={18}
+              iconColor="#6B7280"
+              onPress={onHistory}
+              style={styles.actionIcon}
+            />
+          )}
         </View>
       </Card.Content>
     </Card>
@@ -292,6 +313,17 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '400',
   },
+  marksRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    columnGap: 12,
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  markText: {
+    color: '#6B7280',
+    fontSize: 11,
+  },
   actionsRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,405 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native'
+import { Modal, Text, Button, Portal, TextInput, Chip, IconButton, ActivityIndicator } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { useGuestMeals, useGuestMealRates, useRecordGuestMeal, useDeleteGuestMeal } from '@/hooks/useGuestMeals'
+import { getMealName, type MealKey } from '@/lib/meal-schedule'
+import { sumGuestCharges, validateGuestMeal } from '@/lib/guest-meals'
+import type { StudentAttendance } from '@/lib/attendance'
+
+const MAX_MATCHES = 5
+
+interface GuestMealModalProps {
+  visible: boolean
+  onDismiss: () => void
+  date: string
+  students: StudentAttendance[]
+  initialMeal: MealKey | null
+  onRecorded: (message: string) => void
+}
+
+export function GuestMealModal({
+  visible,
+  onDismiss,
+  date,
+  students,
+  initialMeal,
+  onRecorded,
+}: GuestMealModalProps) {
+  const { data: mealSchedule } = useMealSchedule()
+  const { data: rates } = useGuestMealRates()
+  const { data: guestMeals, isLoading } = useGuestMeals({ date }, visible)
+  const recordMutation = useRecordGuestMeal()
+  const deleteMutation = useDeleteGuestMeal()
+
+  const [search, setSearch] = useState('')
+  const [host, setHost] = useState<StudentAttendance | null>(null)
+  const [meal, setMeal] = useState<MealKey>(initialMeal || mealSchedule.mealTypes[0].key)
+  const [count, setCount] = useState('1')
+  const [rate, setRate] = useState('')
+  const [note, setNote] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (visible && initialMeal) setMeal(initialMeal)
+  }, [visible, initialMeal])
+
+  // Prefill the last rate used for this meal
+  useEffect(() => {
+    const savedRate = rates?.[meal]
+    setRate(savedRate !== undefined ? String(savedRate) : '')
+  }, [rates, meal])
+
+  const matches = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    if (!query) return []
+    return students
+      .filter((student) =>
+        student.name.toLowerCase().includes(query) ||
+        student.rollNumber?.toLowerCase().includes(query)
+      )
+      .slice(0, MAX_MATCHES)
+  }, [students, search])
+
+  const guestCount = parseInt(count, 10)
+  const guestRate = parseFloat(rate)
+  const total = Number.isFinite(guestCount * guestRate) ? guestCount * guestRate : 0
+
+  const reset = () => {
+    setSearch('')
+    setHost(null)
+    setCount('1')
+    setNote('')
+    setError(null)
+  }
+
+  const handleDismiss = () => {
+    reset()
+    onDismiss()
+  }
+
+  const handleRecord = async () => {
+    if (!host) {
+      setError('Choose the student who brought the guests')
+      return
+    }
+
+    const input = { studentId: host.studentId, date, meal, count: guestCount, rate: guestRate, note }
+    const validationError = validateGuestMeal(input)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    try {
+      setError(null)
+      await recordMutation.mutateAsync(input)
+      onRecorded(`Charged ₹${total.toFixed(2)} to ${host.name} for ${guestCount} guest${guestCount === 1 ? '' : 's'}`)
+      reset()
+    } catch (err: any) {
+      setError(err.message || 'Failed to record guest meal')
+    }
+  }
+
+  const handleDelete = async (guestMealId: number) => {
+    try {
+      setError(null)
+      await deleteMutation.mutateAsync(guestMealId)
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete guest meal')
+    }
+  }
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={handleDismiss}
+        contentContainerStyle={styles.modalContent}
+      >
+        <View style={styles.header}>
+          <Text variant="titleLarge" style={styles.title}>
+            Guest Meals
+          </Text>
+          <Text variant="bodySmall" style={styles.subtitle}>
+            Charged to the host student's account
+          </Text>
+        </View>
+
+        <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent} keyboardShouldPersistTaps="handled">
+          {host ? (
+            <View style={styles.host}>
+              <MaterialCommunityIcons name="account" size={20} color="#7B2CBF" />
+              <View style={styles.hostInfo}>
+                <Text variant="bodyLarge" style={styles.hostName}>
+                  {host.name}
+                </Text>
+                {host.rollNumber && (
+                  <Text variant="bodySmall" style={styles.muted}>
+                    Roll: {host.rollNumber}
+                  </Text>
+                )}
+              </View>
+              <Button mode="text" compact textColor="#7B2CBF" onPress={() => setHost(null)}>
+                Change
+              </Button>
+            </View>
+          ) : (
+            <View>
+              <TextInput
+                label="Host student (name or roll number)"
+                value={search}
+                onChangeText={setSearch}
+                mode="outlined"
+                autoCorrect={false}
+              />
+              {matches.map((student) => (
+                <TouchableOpacity
+                  key={student.studentId}
+                  style={styles.match}
+                  onPress={() => {
+                    setHost(student)
+                    setSearch('')
+                  }}
+                >
+                  <Text variant="bodyMedium" style={styles.hostName}>
+                    {student.name}
+                  </Text>
+                  {student.rollNumber && (
+                    <Text variant="bodySmall" style={styles.muted}>
+                      {student.rollNumber}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.meals}>
+            {mealSchedule.mealTypes.map((type) => (
+              <Chip
+                key={type.key}
+                selected={meal === type.key}
+                onPress={() => setMeal(type.key)}
+                style={[styles.mealChip, meal === type.key && styles.mealChipSelected]}
+                textStyle={meal === type.key ? styles.mealChipTextSelected : undefined}
+                showSelectedCheck={false}
+              >
+                {type.name}
+              </Chip>
+            ))}
+          </View>
+
+          <View style={styles.row}>
+            <TextInput
+              label="Guests"
+              value={count}
+              onChangeText={setCount}
+              mode="outlined"
+              keyboardType="number-pad"
+              style={styles.rowInput}
+            />
+            <TextInput
+              label="Rate per guest (₹)"
+              value={rate}
+              onChangeText={setRate}
+              mode="outlined"
+              keyboardType="decimal-pad"
+              style={styles.rowInput}
+            />
+          </View>
+
+          <TextInput
+            label="Note (optional)"
+            value={note}
+            onChangeText={setNote}
+            mode="outlined"
+            style={styles.note}
+          />
+
+          {error && (
+            <Text variant="bodySmall" style={styles.error}>
+              {error}
+            </Text>
+          )}
+
+          <Button
+            mode="contained"
+            icon="account-plus"
+            onPress={handleRecord}
+            loading={recordMutation.isPending}
+            disabled={recordMutation.isPending || !host}
+            buttonColor="#7B2CBF"
+            style={styles.recordButton}
+          >
+            {`Charge ₹${total.toFixed(2)}`}
+          </Button>
+
+          <Text variant="titleSmall" style={styles.sectionTitle}>
+            Recorded for this day
+          </Text>
+          {isLoading ? (
+            <ActivityIndicator color="#7B2CBF" />
+          ) : !guestMeals || guestMeals.length === 0 ? (
+            <Text variant="bodySmall" style={styles.muted}>
+              No guest meals yet
+            </Text>
+          ) : (
+            <>
+              {guestMeals.map((guestMeal) => (
+                <View key={guestMeal.id} style={styles.entry}>
+                  <View style={styles.hostInfo}>
+                    <Text variant="bodyMedium" style={styles.hostName}>
+                      {guestMeal.student?.name ?? `Student #${guestMeal.studentId}`}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.muted}>
+                      {getMealName(guestMeal.meal, mealSchedule)} • {guestMeal.count} × ₹{guestMeal.rate.toFixed(2)} = ₹{guestMeal.amount.toFixed(2)}
+                    </Text>
+                    {guestMeal.note && (
+                      <Text variant="bodySmall" style={styles.muted}>
+                        {guestMeal.note}
+                      </Text>
+                    )}
+                  </View>
+                  <IconButton
+                    icon="delete-outline"
+                    iconColor="#EF4444"
+                    size={20}
+                    onPress={() => handleDelete(guestMeal.id)}
+                    disabled={deleteMutation.isPending}
+                  />
+                </View>
+              ))}
+              <Text variant="bodySmall" style={styles.total}>
+                Total charged: ₹{sumGuestCharges(guestMeals).toFixed(2)}
+              </Text>
+            </>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <Button mode="outlined" onPress={handleDismiss} style={styles.closeButton}>
+            Close
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  modalContent: {
+    backgroundColor: '#FFF',
+    margin: 20,
+    borderRadius: 16,
+    maxWidth: 480,
+    maxHeight: '85%',
+    width: '90%',
+    alignSelf: 'center',
+  },
+  header: {
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1A1A1A',
+    marginBottom: 4,
+  },
+  subtitle: {
+    color: '#666',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  host: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3E8FF',
+  },
+  hostInfo: {
+    flex: 1,
+  },
+  hostName: {
+    fontWeight: '500',
+    color: '#1A1A1A',
+  },
+  muted: {
+    color: '#666',
+  },
+  match: {
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  meals: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  mealChip: {
+    backgroundColor: '#F3F4F6',
+  },
+  mealChipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  mealChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  note: {
+    marginTop: 12,
+  },
+  error: {
+    color: '#EF4444',
+    marginTop: 12,
+  },
+  recordButton: {
+    marginTop: 16,
+    borderRadius: 8,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  total: {
+    color: '#1A1A1A',
+    fontWeight: '600',
+    textAlign: 'right',
+    marginTop: 8,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  closeButton: {
+    borderRadius: 8,
+  },
+})
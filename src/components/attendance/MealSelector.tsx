@@ -2,50 +2,31 @@ import React from 'react'
 import { View, StyleSheet, TouchableOpacity } from 'react-native'
 import { Text } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { getMealColors, type MealKey } from '@/lib/meal-schedule'
+import type { MealStats } from '@/lib/attendance'
 
 interface MealSelectorProps {
-  selectedMeal: 'breakfast' | 'lunch' | 'dinner' | null
-  onSelectMeal: (meal: 'breakfast' | 'lunch' | 'dinner' | null) => void
-  stats: {
-    breakfast: { present: number; total: number }
-    lunch: { present: number; total: number }
-    dinner: { present: number; total: number }
-  }
+  selectedMeal: MealKey | null
+  onSelectMeal: (meal: MealKey | null) => void
+  stats: Record<MealKey, MealStats>
 }
 
 export function MealSelector({ selectedMeal, onSelectMeal, stats }: MealSelectorProps) {
-  const meals = [
-    {
-      key: 'breakfast' as const,
-      label: 'Breakfast',
-      icon: 'weather-sunny',
-      color: '#F59E0B',
-      lightBg: '#FEF3C7',
-      defaultBg: '#FFFFFF',
-      borderColor: '#FCD34D',
-      gradient: ['#FEF3C7', '#FDE68A'],
-    },
-    {
-      key: 'lunch' as const,
-      label: 'Lunch',
-      icon: 'weather-sunset',
-      color: '#3B82F6',
-      lightBg: '#DBEAFE',
-      defaultBg: '#FFFFFF',
-      borderColor: '#93C5FD',
-      gradient: ['#DBEAFE', '#BFDBFE'],
-    },
-    {
-      key: 'dinner' as const,
-      label: 'Dinner',
-      icon: 'weather-night',
-      color: '#6366F1',
-      lightBg: '#E0E7FF',
+  const { data: schedule } = useMealSchedule()
+
+  const meals = schedule.mealTypes.map((type) => {
+    const colors = getMealColors(type.key, schedule)
+    return {
+      key: type.key,
+      label: type.name,
+      icon: type.icon,
+      color: colors.color,
+      lightBg: colors.background,
       defaultBg: '#FFFFFF',
-      borderColor: '#A5B4FC',
-      gradient: ['#E0E7FF', '#C7D2FE'],
-    },
-  ]
+      borderColor: `${colors.color}80`,
+    }
+  })
 
   const formatPercentage = (present: number, total: number) => {
     if (total === 0) return 0
@@ -56,7 +37,7 @@ export function MealSelector({ selectedMeal, onSelectMeal, stats }: MealSelector
     <View style={styles.container}>
       {meals.map((meal) => {
         const isSelected = selectedMeal === meal.key
-        const mealStats = stats[meal.key]
+        const mealStats = stats[meal.key] ?? { present: 0, total: 0 }
         const percentage = formatPercentage(mealStats.present, mealStats.total)
 
         return (
@@ -132,6 +113,11 @@ export function MealSelector({ selectedMeal, onSelectMeal, stats }: MealSelector
                     </Text>
                   </View>
                 </View>
+                {!!mealStats.guests && (
+                  <Text variant="labelSmall" style={[styles.guestsText, { color: meal.color }]}>
+                    +{mealStats.guests} guest{mealStats.guests === 1 ? '' : 's'}
+                  </Text>
+                )}
               </View>
 
               {isSelected && (
@@ -180,6 +166,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 8,
   },
+  guestsText: {
+    fontSize: 11,
+    marginTop: 4,
+  },
   statsRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2,44 +2,30 @@ import React from 'react'
 import { View, StyleSheet, TouchableOpacity } from 'react-native'
 import { Text } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { getMealColors, type MealKey } from '@/lib/meal-schedule'
+import type { MealStats } from '@/lib/attendance'
 
 interface MealTabsProps {
-  selectedMeal: 'breakfast' | 'lunch' | 'dinner' | null
-  onSelectMeal: (meal: 'breakfast' | 'lunch' | 'dinner' | null) => void
-  stats: {
-    breakfast: { present: number; total: number }
-    lunch: { present: number; total: number }
-    dinner: { present: number; total: number }
-  }
+  selectedMeal: MealKey | null
+  onSelectMeal: (meal: MealKey | null) => void
+  stats: Record<MealKey, MealStats>
 }
 
 export function MealTabs({ selectedMeal, onSelectMeal, stats }: MealTabsProps) {
-  const meals = [
-    {
-      key: 'breakfast' as const,
-      label: 'Breakfast',
-      icon: 'food-croissant',
-      color: '#F59E0B',
-      bgColor: '#FEF3C7',
-      stats: stats.breakfast,
-    },
-    {
-      key: 'lunch' as const,
-      label: 'Lunch',
-      icon: 'food',
-      color: '#22C55E',
-      bgColor: '#D1FAE5',
-      stats: stats.lunch,
-    },
-    {
-      key: 'dinner' as const,
-      label: 'Dinner',
-      icon: 'silverware-fork-knife',
-      color: '#8B5CF6',
-      bgColor: '#EDE9FE',
-      stats: stats.dinner,
-    },
-  ]
+  const { data: schedule } = useMealSchedule()
+
+  const meals = schedule.mealTypes.map((type) => {
+    const colors = getMealColors(type.key, schedule)
+    return {
+      key: type.key,
+      label: type.name,
+      icon: type.icon,
+      color: colors.color,
+      bgColor: colors.background,
+      stats: stats[type.key] ?? { present: 0, total: 0 },
+    }
+  })
 
   return (
     <View style={styles.container}>
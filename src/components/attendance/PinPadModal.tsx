@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react'
+import { View, StyleSheet, TouchableOpacity } from 'react-native'
+import { Modal, Text, Button, Portal, TextInput } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useMarkAttendanceWithPin } from '@/hooks/useAttendance'
+import type { MarkAttendanceResult } from '@/lib/qr-attendance'
+
+const PIN_LENGTH = 4
+const RESULT_DISPLAY_MS = 4000 // Clear the pad for the next student
+
+interface PinPadModalProps {
+  visible: boolean
+  onDismiss: () => void
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'backspace']
+
+export function PinPadModal({ visible, onDismiss }: PinPadModalProps) {
+  const [rollNumber, setRollNumber] = useState('')
+  const [pin, setPin] = useState('')
+  const [result, setResult] = useState<MarkAttendanceResult | null>(null)
+  const markWithPin = useMarkAttendanceWithPin()
+
+  const reset = () => {
+    setRollNumber('')
+    setPin('')
+    setResult(null)
+  }
+
+  useEffect(() => {
+    if (!result) return
+    const timeout = setTimeout(reset, RESULT_DISPLAY_MS)
+    return () => clearTimeout(timeout)
+  }, [result])
+
+  const handleDismiss = () => {
+    reset()
+    onDismiss()
+  }
+
+  const submit = async (enteredPin: string) => {
+    const marked = await markWithPin.mutateAsync({ rollNumber: rollNumber.trim(), pin: enteredPin })
+    setResult(marked)
+    setPin('')
+  }
+
+  const handleKey = (key: string) => {
+    if (markWithPin.isPending || result) return
+
+    if (key === 'clear') {
+      setPin('')
+    } else if (key === 'backspace') {
+      setPin(pin.slice(0, -1))
+    } else if (pin.length < PIN_LENGTH) {
+      const nextPin = pin + key
+      setPin(nextPin)
+      if (nextPin.length === PIN_LENGTH && rollNumber.trim()) {
+        submit(nextPin)
+      }
+    }
+  }
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={handleDismiss}
+        contentContainerStyle={styles.modalContent}
+      >
+        <View style={styles.header}>
+          <Text variant="titleLarge" style={styles.title}>
+            Mark Attendance with PIN
+          </Text>
+          <Text variant="bodySmall" style={styles.subtitle}>
+            Enter your roll number and 4-digit PIN
+          </Text>
+        </View>
+
+        {result ? (
+          <View style={styles.result}>
+            <MaterialCommunityIcons
+              name={result.success ? 'check-circle' : 'close-circle'}
+              size={64}
+              color={result.success ? '#10B981' : '#EF4444'}
+            />
+            {result.studentName && (
+              <Text variant="titleMedium" style={styles.resultName}>
+                {result.studentName}
+              </Text>
+            )}
+            <Text variant="bodyMedium" style={styles.resultMessage}>
+              {result.message}
+            </Text>
+            <Button mode="outlined" onPress={reset} style={styles.nextButton}>
+              Next Student
+            </Button>
+          </View>
+        ) : (
+          <View style={styles.body}>
+            <TextInput
+              label="Roll Number"
+              value={rollNumber}
+              onChangeText={setRollNumber}
+              mode="outlined"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              disabled={markWithPin.isPending}
+            />
+
+            <View style={styles.dots}>
+              {Array.from({ length: PIN_LENGTH }).map((_, index) => (
+                <View
+                  key={index}
+                  style={[styles.dot, index < pin.length && styles.dotFilled]}
+                />
+              ))}
+            </View>
+
+            <View style={styles.keypad}>
+              {KEYS.map((key) => (
+                <TouchableOpacity
+                  key={key}
+                  style={styles.key}
+                  onPress={() => handleKey(key)}
+                  disabled={markWithPin.isPending || (!rollNumber.trim() && /\d/.test(key))}
+                >
+                  {key === 'clear' ? (
+                    <Text variant="labelLarge" style={styles.keyAction}>
+                      Clear
+                    </Text>
+                  ) : key === 'backspace' ? (
+                    <MaterialCommunityIcons name="backspace-outline" size={24} color="#666" />
+                  ) : (
+                    <Text variant="headlineSmall" style={styles.keyText}>
+                      {key}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {markWithPin.isPending && (
+              <Text variant="bodySmall" style={styles.pending}>
+                Checking PIN...
+              </Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.footer}>
+          <Button mode="outlined" onPress={handleDismiss} style={styles.closeButton}>
+            Close
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  modalContent: {
+    backgroundColor: '#FFF',
+    margin: 20,
+    borderRadius: 16,
+    maxWidth: 420,
+    width: '90%',
+    alignSelf: 'center',
+  },
+  header: {
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#1A1A1A',
+    marginBottom: 4,
+  },
+  subtitle: {
+    color: '#666',
+  },
+  body: {
+    padding: 20,
+  },
+  dots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+    marginVertical: 20,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#6366F1',
+  },
+  dotFilled: {
+    backgroundColor: '#6366F1',
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: 10,
+  },
+  key: {
+    width: '31%',
+    height: 56,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyText: {
+    color: '#1A1A1A',
+    fontWeight: '600',
+  },
+  keyAction: {
+    color: '#666',
+  },
+  pending: {
+    color: '#6366F1',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  result: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  resultName: {
+    fontWeight: 'bold',
+    color: '#1A1A1A',
+    marginTop: 12,
+  },
+  resultMessage: {
+    color: '#444',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  nextButton: {
+    marginTop: 20,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  closeButton: {
+    borderRadius: 8,
+  },
+})
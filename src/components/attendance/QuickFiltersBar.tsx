@@ -2,6 +2,7 @@ import React from 'react'
 import { View, StyleSheet } from 'react-native'
 import { Chip, Searchbar, Text } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { getMealName, type MealKey } from '@/lib/meal-schedule'
 
 export type MealFilter = 'all' | 'missing' | 'present'
 export type StatusFilter = 'all' | 'full' | 'partial' | 'none'
@@ -15,7 +16,7 @@ interface QuickFiltersBarProps {
   onMealFilterChange: (filter: MealFilter) => void
   statusFilter: StatusFilter
   onStatusFilterChange: (filter: StatusFilter) => void
-  selectedMeal: 'breakfast' | 'lunch' | 'dinner' | null
+  selectedMeal: MealKey | null
 }
 
 export function QuickFiltersBar({
@@ -129,7 +130,7 @@ export function QuickFiltersBar({
       {selectedMeal && (
         <View style={styles.mealIndicator}>
           <Text style={styles.mealIndicatorText}>
-            Filtering by: {selectedMeal.charAt(0).toUpperCase() + selectedMeal.slice(1)}
+            Filtering by: {getMealName(selectedMeal)}
           </Text>
         </View>
       )}
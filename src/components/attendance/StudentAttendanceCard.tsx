@@ -2,11 +2,13 @@ import React from 'react'
 import { View, StyleSheet, TouchableOpacity } from 'react-native'
 import { Text, Card, IconButton } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
-import type { StudentAttendance } from '@/lib/attendance'
+import { formatMealMark, isMealMarked, type StudentAttendance } from '@/lib/attendance'
+import { getMealColors, getMealName, type MealKey } from '@/lib/meal-schedule'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
 
 interface StudentAttendanceCardProps {
   student: StudentAttendance
-  currentMeal: 'breakfast' | 'lunch' | 'dinner' | null
+  currentMeal: MealKey | null
   onToggle: () => void
   onEdit?: () => void
   onDelete?: () => void
@@ -19,23 +21,21 @@ export function StudentAttendanceCard({
   onEdit,
   onDelete,
 }: StudentAttendanceCardProps) {
+  const { data: schedule } = useMealSchedule()
+
   // Helper to check if meal is in plan
-  const isMealInPlan = (meal: 'breakfast' | 'lunch' | 'dinner') => {
-    return student.plan.meals.some((m) => m.toLowerCase().includes(meal))
+  const isMealInPlan = (meal: MealKey) => {
+    return student.plan.meals.includes(meal)
   }
 
+  const isMarked = (meal: MealKey) => isMealMarked(student.attendance.marks, meal)
+
+  const planMealTypes = schedule.mealTypes.filter((type) => isMealInPlan(type.key))
+
   const getStatus = () => {
-    const { breakfast, lunch, dinner } = student.attendance
-    const planMeals = student.plan.meals.map((m) => m.toLowerCase())
-    
     // Only count meals that are in the student's plan
-    const eligibleMeals = []
-    if (planMeals.some(m => m.includes('breakfast'))) eligibleMeals.push(breakfast)
-    if (planMeals.some(m => m.includes('lunch'))) eligibleMeals.push(lunch)
-    if (planMeals.some(m => m.includes('dinner'))) eligibleMeals.push(dinner)
-    
-    const mealCount = eligibleMeals.filter(Boolean).length
-    const totalEligibleMeals = eligibleMeals.length
+    const mealCount = planMealTypes.filter((type) => isMarked(type.key)).length
+    const totalEligibleMeals = planMealTypes.length
     
     if (mealCount === totalEligibleMeals && totalEligibleMeals > 0) {
       return { text: 'Full', color: '#FFFFFF', bg: '#10B981', icon: 'check-circle' }
@@ -51,15 +51,10 @@ export function StudentAttendanceCard({
     ? isMealInPlan(currentMeal)
     : true
 
-  const isPresent = currentMeal 
-    ? student.attendance[currentMeal]
-    : (() => {
-        // Check only meals that are in the student's plan
-        if (isMealInPlan('breakfast') && student.attendance.breakfast) return true
-        if (isMealInPlan('lunch') && student.attendance.lunch) return true
-        if (isMealInPlan('dinner') && student.attendance.dinner) return true
-        return false
-      })()
+  // Check only meals that are in the student's plan
+  const isPresent = currentMeal
+    ? isMarked(currentMeal)
+    : planMealTypes.some((type) => isMarked(type.key))
 
   if (!isEligible) {
     return (
@@ -76,7 +71,7 @@ export function StudentAttendanceCard({
               <View style={[styles.statusBadge, { backgroundColor: '#F3F4F6' }]}>
                 <MaterialCommunityIcons name="information" size={12} color="#6B7280" />
                 <Text variant="labelSmall" style={styles.statusText}>
-                  Not eligible for {currentMeal}
+                  Not eligible for {currentMeal && getMealName(currentMeal, schedule).toLowerCase()}
                 </Text>
               </View>
             </View>
@@ -116,43 +111,29 @@ export function StudentAttendanceCard({
 
             {/* Meal indicators - Only show meals in student's plan */}
             <View style={styles.meals}>
-              {isMealInPlan('breakfast') && (
-                <View style={[styles.mealBadge, student.attendance.breakfast && styles.mealBadgeActive]}>
-                  <MaterialCommunityIcons
-                    name={student.attendance.breakfast ? 'check-circle' : 'circle-outline'}
-                    size={14}
-                    color={student.attendance.breakfast ? '#10B981' : '#9CA3AF'}
-                  />
-                  <Text variant="labelSmall" style={[styles.mealLabel, student.attendance.breakfast && styles.mealLabelActive]}>
-                    B
-                  </Text>
-                </View>
-              )}
-              {isMealInPlan('lunch') && (
-                <View style={[styles.mealBadge, student.attendance.lunch && styles.mealBadgeActive]}>
-                  <MaterialCommunityIcons
-                    name={student.attendance.lunch ? 'check-circle' : 'circle-outline'}
-                    size={14}
-                    color={student.attendance.lunch ? '#3B82F6' : '#9CA3AF'}
-                  />
-                  <Text variant="labelSmall" style={[styles.mealLabel, student.attendance.lunch && styles.mealLabelActive]}>
-                    L
-                  </Text>
-                </View>
-              )}
-              {isMealInPlan('dinner') && (
-                <View style={[styles.mealBadge, student.attendance.dinner && styles.mealBadgeActive]}>
-                  <MaterialCommunityIcons
-                    name={student.attendance.dinner ? 'check-circle' : 'circle-outline'}
-                    size={14}
-                    color={student.attendance.dinner ? '#6366F1' : '#9CA3AF'}
-                  />
-                  <Text variant="labelSmall" style={[styles.mealLabel, student.attendance.dinner && styles.mealLabelActive]}>
-                    D
-                  </Text>
-                </View>
-              )}
+              {planMealTypes.map((type) => {
+                const marked = isMarked(type.key)
+                return (
+                  <View key={type.key} style={[styles.mealBadge, marked && styles.mealBadgeActive]}>
+                    <MaterialCommunityIcons
+                      name={marked ? 'check-circle' : 'circle-outline'}
+                      size={14}
+                      color={marked ? getMealColors(type.key, schedule).color : '#9CA3AF'}
+                    />
+                    <Text variant="labelSmall" style={[styles.mealLabel, marked && styles.mealLabelActive]}>
+                      {type.name.charAt(0).toUpperCase()}
+                    </Text>
+                  </View>
+                )
+              })}
             </View>
+
+            {/* When and how the meal was marked */}
+            {currentMeal && isPresent && formatMealMark(student.attendance.marks[currentMeal]) && (
+              <Text variant="labelSmall" style={styles.markText}>
+                Marked {formatMealMark(student.attendance.marks[currentMeal])}
+              </Text>
+            )}
           </View>
 
           <View style={styles.actions}>
@@ -296,6 +277,10 @@ const styles = StyleSheet.create({
     color: '#1E40AF',
     fontWeight: '700',
   },
+  markText: {
+    color: '#6B7280',
+    marginTop: 6,
+  },
   actions: {
     flexDirection: 'row',
     alignItems: 'center',
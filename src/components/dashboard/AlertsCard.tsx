@@ -38,16 +38,26 @@ export function AlertsCard({ alerts, loading }: AlertsCardProps) {
   }
 
   const getAlertIcon = (type: Alert['type']) => {
-    return type === 'expiring' ? 'calendar-alert' : 'alert-circle'
+    switch (type) {
+      case 'expiring':
+        return 'calendar-alert'
+      case 'overdue_installment':
+        return 'calendar-remove'
+      default:
+        return 'alert-circle'
+    }
   }
 
   const getAlertColor = (type: Alert['type']) => {
-    return type === 'expiring' ? '#ef4444' : '#f59e0b'
+    return type === 'low_balance' ? '#f59e0b' : '#ef4444'
   }
 
   const getAlertText = (alert: Alert) => {
     if (alert.type === 'expiring') {
       return `${alert.count} student${alert.count !== 1 ? 's' : ''} expiring in 3 days`
+    } else if (alert.type === 'overdue_installment') {
+      const overdue = (alert.students || []).reduce((sum, student) => sum + (student.overdue || 0), 0)
+      return `${alert.count} student${alert.count !== 1 ? 's' : ''} with overdue installments (₹${overdue.toLocaleString('en-IN')})`
     } else {
       return `${alert.count} student${alert.count !== 1 ? 's' : ''} with low balance`
     }
@@ -3,6 +3,7 @@ import { Text } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useRouter } from 'expo-router'
 import { CurrentMealStatus } from '@/lib/dashboard'
+import { getMealColors, getMealIcon } from '@/lib/meal-schedule'
 import { LinearGradient } from 'expo-linear-gradient'
 
 interface CurrentMealBannerProps {
@@ -18,20 +19,9 @@ export function CurrentMealBanner({ data, loading }: CurrentMealBannerProps) {
     return null
   }
 
-  const mealIcons = {
-    breakfast: 'weather-sunset-up',
-    lunch: 'weather-sunny',
-    dinner: 'weather-night',
-  }
-
-  const mealColors = {
-    breakfast: ['#f59e0b', '#d97706'],
-    lunch: ['#10b981', '#059669'],
-    dinner: ['#6366f1', '#4f46e5'],
-  }
-
-  const icon = mealIcons[data.meal]
-  const colors = mealColors[data.meal]
+  const icon = getMealIcon(data.meal)
+  const mealColors = getMealColors(data.meal)
+  const colors = [mealColors.color, mealColors.dark]
 
   return (
     <TouchableOpacity
@@ -3,6 +3,7 @@ import { Text, Card, Button } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useRouter } from 'expo-router'
 import { CurrentMealStatus } from '@/lib/dashboard'
+import { getMealColors, getMealIcon } from '@/lib/meal-schedule'
 import { ProgressBar } from './ProgressBar'
 import { TrendIndicator } from './TrendIndicator'
 
@@ -14,18 +15,6 @@ interface CurrentMealCardProps {
 export function CurrentMealCard({ data, loading }: CurrentMealCardProps) {
   const router = useRouter()
 
-  const mealIcons = {
-    breakfast: 'weather-sunset-up',
-    lunch: 'weather-sunny',
-    dinner: 'weather-night',
-  }
-
-  const mealColors = {
-    breakfast: '#f59e0b',
-    lunch: '#10b981',
-    dinner: '#6366f1',
-  }
-
   if (loading) {
     return (
       <Card style={styles.card}>
@@ -56,8 +45,8 @@ export function CurrentMealCard({ data, loading }: CurrentMealCardProps) {
     )
   }
 
-  const icon = mealIcons[data.meal]
-  const color = mealColors[data.meal]
+  const icon = getMealIcon(data.meal)
+  const color = getMealColors(data.meal).color
 
   return (
     <Card style={[styles.card, { borderLeftColor: color }]}>
@@ -85,6 +74,7 @@ export function CurrentMealCard({ data, loading }: CurrentMealCardProps) {
             </Text>
             <Text variant="bodySmall" style={styles.statLabel}>
               / {data.total} students
+              {data.guests > 0 ? ` + ${data.guests} guest${data.guests === 1 ? '' : 's'}` : ''}
             </Text>
           </View>
           <View style={styles.percentageContainer}>
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react'
+import { View, StyleSheet, ScrollView } from 'react-native'
+import { Dialog, Text, Button, Portal, TextInput, SegmentedButtons } from 'react-native-paper'
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { SimpleDatePicker } from '@/components/shared/SimpleDatePicker'
+import type { SubscriptionPeriod } from '@/lib/subscriptions'
+import {
+  splitIntoInstallments,
+  validateInstallments,
+  type Installment,
+  type InstallmentInput,
+} from '@/lib/installments'
+
+interface InstallmentScheduleDialogProps {
+  visible: boolean
+  period: SubscriptionPeriod | null
+  current: Installment[] // The term's schedule so far, if any
+  onSave: (installments: InstallmentInput[]) => void
+  onCancel: () => void
+  loading?: boolean
+}
+
+// Installment counts offered; the schedule can be edited after picking one
+const INSTALLMENT_COUNTS = [2, 3, 4]
+
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`
+
+// Length of the term in days, as set_period_installments() counts it
+const getTermDays = (period: SubscriptionPeriod) =>
+  Math.max(differenceInCalendarDays(parseISO(period.endDate), parseISO(period.startDate)), 1)
+
+/**
+ * Splits an existing term's price into installments, or edits its schedule
+ */
+export function InstallmentScheduleDialog({
+  visible,
+  period,
+  current,
+  onSave,
+  onCancel,
+  loading = false,
+}: InstallmentScheduleDialogProps) {
+  const [installments, setInstallments] = useState<Array<{ dueDate: string; amount: string }>>([])
+  const [error, setError] = useState('')
+
+  const split = (count: number) => {
+    if (!period) return
+    setInstallments(
+      splitIntoInstallments(period.price, count, period.startDate, getTermDays(period)).map((installment) => ({
+        dueDate: installment.dueDate,
+        amount: String(installment.amount),
+      }))
+    )
+    setError('')
+  }
+
+  // Start from the saved schedule, or an even split in two
+  useEffect(() => {
+    if (!visible || !period) return
+    if (current.length > 0) {
+      setInstallments(current.map((installment) => ({ dueDate: installment.dueDate, amount: String(installment.amount) })))
+      setError('')
+    } else {
+      split(INSTALLMENT_COUNTS[0])
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, period?.id])
+
+  if (!period) return null
+
+  const durationDays = getTermDays(period)
+
+  const parsed: InstallmentInput[] = installments.map((installment) => ({
+    dueDate: installment.dueDate,
+    amount: parseFloat(installment.amount) || 0,
+  }))
+
+  const updateInstallment = (index: number, updates: Partial<{ dueDate: string; amount: string }>) => {
+    setInstallments((rows) => rows.map((row, i) => (i === index ? { ...row, ...updates } : row)))
+    setError('')
+  }
+
+  const handleSave = () => {
+    const validationError = validateInstallments(parsed, period.price, durationDays)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    onSave(parsed)
+  }
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onCancel} style={styles.dialog}>
+        <Dialog.Title>Installments</Dialog.Title>
+        <Dialog.ScrollArea style={styles.scrollArea}>
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text variant="bodyMedium" style={styles.message}>
+              Split the {formatCurrency(period.price)} for this term into parts with their own due dates.
+              What's already been paid counts towards the earliest ones.
+            </Text>
+            <SegmentedButtons
+              value={INSTALLMENT_COUNTS.includes(installments.length) ? String(installments.length) : ''}
+              onValueChange={(value) => split(Number(value))}
+              buttons={INSTALLMENT_COUNTS.map((count) => ({
+                value: String(count),
+                label: `${count} parts`,
+                disabled: loading,
+              }))}
+              style={styles.segmented}
+            />
+            {installments.map((installment, index) => (
+              <View key={index} style={styles.row}>
+                <View style={styles.dueDate}>
+                  <SimpleDatePicker
+                    value={installment.dueDate}
+                    onChange={(dueDate) => updateInstallment(index, { dueDate })}
+                    label={`Installment ${index + 1} due`}
+                    disabled={loading}
+                  />
+                </View>
+                <TextInput
+                  label="Amount (₹)"
+                  value={installment.amount}
+                  onChangeText={(text) => updateInstallment(index, { amount: text.replace(/[^0-9.]/g, '') })}
+                  mode="outlined"
+                  keyboardType="decimal-pad"
+                  disabled={loading}
+                  style={styles.amount}
+                />
+              </View>
+            ))}
+            {error ? (
+              <Text variant="bodySmall" style={styles.error}>
+                {error}
+              </Text>
+            ) : null}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions style={styles.actions}>
+          {current.length > 0 && (
+            <Button onPress={() => onSave([])} disabled={loading} textColor="#EF4444">
+              Remove
+            </Button>
+          )}
+          <Button onPress={onCancel} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onPress={handleSave}
+            mode="contained"
+            loading={loading}
+            disabled={loading || installments.length === 0}
+            buttonColor="#7B2CBF"
+            textColor="#fff"
+          >
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  dialog: {
+    borderRadius: 12,
+    maxHeight: '85%',
+  },
+  scrollArea: {
+    paddingHorizontal: 0,
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingVertical: 8,
+  },
+  message: {
+    marginBottom: 12,
+  },
+  segmented: {
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  dueDate: {
+    flex: 1,
+  },
+  amount: {
+    width: 110,
+  },
+  error: {
+    color: '#EF4444',
+    marginTop: 4,
+  },
+  actions: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+})
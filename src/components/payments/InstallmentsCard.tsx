@@ -0,0 +1,119 @@
+import React from 'react'
+import { View, StyleSheet, type StyleProp, type ViewStyle } from 'react-native'
+import { Text, Card } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { format, parseISO } from 'date-fns'
+import { useInstallments } from '@/hooks/useStudents'
+import {
+  getInstallmentDue,
+  getInstallmentStatus,
+  INSTALLMENT_STATUS_LABELS,
+  type InstallmentStatus,
+} from '@/lib/installments'
+
+interface InstallmentsCardProps {
+  studentId: number
+  style?: StyleProp<ViewStyle>
+}
+
+const STATUS_COLORS: Record<InstallmentStatus, string> = {
+  paid: '#10B981',
+  overdue: '#EF4444',
+  upcoming: '#F59E0B',
+}
+
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`
+
+/**
+ * Installments still to be paid, overdue first. Hidden when there are none.
+ */
+export function InstallmentsCard({ studentId, style }: InstallmentsCardProps) {
+  const { data: installments } = useInstallments(studentId)
+  const today = format(new Date(), 'yyyy-MM-dd')
+
+  const unpaid = (installments || [])
+    .map((installment) => ({ ...installment, status: getInstallmentStatus(installment, today) }))
+    .filter((installment) => installment.status !== 'paid')
+
+  if (unpaid.length === 0) return null
+
+  const overdueTotal = unpaid
+    .filter((installment) => installment.status === 'overdue')
+    .reduce((sum, installment) => sum + getInstallmentDue(installment), 0)
+
+  return (
+    <Card style={style}>
+      <Card.Content>
+        <View style={styles.header}>
+          <MaterialCommunityIcons name="calendar-clock" size={22} color="#7B2CBF" />
+          <Text variant="titleMedium" style={styles.title}>
+            Installments
+          </Text>
+        </View>
+        {overdueTotal > 0 && (
+          <Text variant="bodySmall" style={styles.overdueNote}>
+            {formatCurrency(overdueTotal)} overdue
+          </Text>
+        )}
+
+        {unpaid.map((installment) => (
+          <View key={installment.id} style={styles.row}>
+            <View style={styles.info}>
+              <Text variant="bodyMedium" style={styles.amount}>
+                {formatCurrency(getInstallmentDue(installment))}
+                {installment.paid > 0 ? ` of ${formatCurrency(installment.amount)}` : ''}
+              </Text>
+              <Text variant="bodySmall" style={styles.date}>
+                Due {format(parseISO(installment.dueDate), 'dd MMM yyyy')}
+              </Text>
+            </View>
+            <Text
+              variant="labelSmall"
+              style={[styles.status, { color: STATUS_COLORS[installment.status] }]}
+            >
+              {INSTALLMENT_STATUS_LABELS[installment.status]}
+            </Text>
+          </View>
+        ))}
+      </Card.Content>
+    </Card>
+  )
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  title: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  overdueNote: {
+    color: '#EF4444',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  info: {
+    flex: 1,
+  },
+  amount: {
+    fontWeight: '500',
+    color: '#1A1A1A',
+  },
+  date: {
+    color: '#6B7280',
+  },
+  status: {
+    fontWeight: '600',
+  },
+})
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react'
+import { StyleSheet } from 'react-native'
+import { Dialog, Text, Button, Portal, TextInput } from 'react-native-paper'
+import type { LedgerAdjustmentKind } from '@/lib/ledger'
+
+interface LedgerAdjustmentDialogProps {
+  visible: boolean
+  kind: LedgerAdjustmentKind
+  onConfirm: (data: { amount: number; description: string }) => void
+  onCancel: () => void
+  loading?: boolean
+}
+
+const COPY: Record<LedgerAdjustmentKind, { title: string; message: string; placeholder: string }> = {
+  fee: {
+    title: 'Add Fee',
+    message: 'The fee is added to what the student owes.',
+    placeholder: 'e.g. Late fee',
+  },
+  discount: {
+    title: 'Add Discount',
+    message: 'The discount is taken off what the student owes.',
+    placeholder: 'e.g. Sibling discount',
+  },
+}
+
+/**
+ * Asks for the amount and description of a fee or discount
+ */
+export function LedgerAdjustmentDialog({
+  visible,
+  kind,
+  onConfirm,
+  onCancel,
+  loading = false,
+}: LedgerAdjustmentDialogProps) {
+  const [amount, setAmount] = useState('')
+  const [description, setDescription] = useState('')
+
+  // Start empty every time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      setAmount('')
+      setDescription('')
+    }
+  }, [visible])
+
+  const amountNum = parseFloat(amount) || 0
+  const copy = COPY[kind]
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onCancel} style={styles.dialog}>
+        <Dialog.Title>{copy.title}</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.message}>
+            {copy.message}
+          </Text>
+          <TextInput
+            label="Amount (₹)"
+            value={amount}
+            onChangeText={(text) => setAmount(text.replace(/[^0-9.]/g, ''))}
+            mode="outlined"
+            keyboardType="decimal-pad"
+            left={<TextInput.Icon icon="currency-inr" size={18} />}
+            disabled={loading}
+            style={styles.input}
+          />
+          <TextInput
+            label="Description"
+            value={description}
+            onChangeText={setDescription}
+            placeholder={copy.placeholder}
+            mode="outlined"
+            maxLength={200}
+            disabled={loading}
+          />
+        </Dialog.Content>
+        <Dialog.Actions style={styles.actions}>
+          <Button onPress={onCancel} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onPress={() => onConfirm({ amount: amountNum, description: description.trim() })}
+            mode="contained"
+            loading={loading}
+            disabled={loading || amountNum <= 0 || !description.trim()}
+            buttonColor="#7B2CBF"
+            textColor="#fff"
+          >
+            {copy.title}
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  dialog: {
+    borderRadius: 12,
+  },
+  message: {
+    marginBottom: 12,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  actions: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+})
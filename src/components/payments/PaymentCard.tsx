@@ -4,6 +4,8 @@ import { Text, Card, IconButton, Chip } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { format } from 'date-fns'
 import type { Payment } from '@/lib/payments'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { getPaymentMethodName, getPaymentMethodStyle } from '@/lib/payment-methods'
 
 interface PaymentCardProps {
   payment: Payment
@@ -13,33 +15,8 @@ interface PaymentCardProps {
 }
 
 export function PaymentCard({ payment, onPress, onEdit, onDelete }: PaymentCardProps) {
-  const getMethodIcon = (method: string | null) => {
-    switch (method) {
-      case 'Cash':
-        return 'cash'
-      case 'UPI':
-        return 'cellphone'
-      case 'Online':
-        return 'credit-card'
-      default:
-        return 'currency-inr'
-    }
-  }
-
-  const getMethodColor = (method: string | null) => {
-    switch (method) {
-      case 'Cash':
-        return { color: '#10B981', bg: '#D1FAE5', iconBg: '#A7F3D0' }
-      case 'UPI':
-        return { color: '#6366F1', bg: '#E0E7FF', iconBg: '#C7D2FE' }
-      case 'Online':
-        return { color: '#8B5CF6', bg: '#EDE9FE', iconBg: '#DDD6FE' }
-      default:
-        return { color: '#6B7280', bg: '#F3F4F6', iconBg: '#E5E7EB' }
-    }
-  }
-
-  const methodStyle = getMethodColor(payment.method)
+  const { data: methods } = usePaymentMethods()
+  const methodStyle = getPaymentMethodStyle(payment.method, methods)
 
   return (
     <Card 
@@ -67,16 +44,16 @@ export function PaymentCard({ payment, onPress, onEdit, onDelete }: PaymentCardP
             </View>
             
             <View style={styles.detailsRow}>
-              <View style={[styles.methodBadge, { backgroundColor: methodStyle.bg }]}>
-                <View style={[styles.methodIconWrapper, { backgroundColor: methodStyle.iconBg }]}>
+              <View style={[styles.methodBadge, { backgroundColor: methodStyle.background }]}>
+                <View style={[styles.methodIconWrapper, { backgroundColor: methodStyle.iconBackground }]}>
                   <MaterialCommunityIcons
-                    name={getMethodIcon(payment.method)}
+                    name={methodStyle.icon as any}
                     size={14}
                     color={methodStyle.color}
                   />
                 </View>
                 <Text variant="labelSmall" style={[styles.methodText, { color: methodStyle.color }]}>
-                  {payment.method || 'N/A'}
+                  {getPaymentMethodName(payment.method, methods)}
                 </Text>
               </View>
               <View style={styles.dateContainer}>
@@ -85,6 +62,14 @@ export function PaymentCard({ payment, onPress, onEdit, onDelete }: PaymentCardP
                   {format(new Date(payment.paymentDate), 'dd MMM yyyy')}
                 </Text>
               </View>
+              {payment.statementStatus === 'missing' && (
+                <View style={styles.missingBadge}>
+                  <MaterialCommunityIcons name="bank-remove" size={14} color="#EF4444" />
+                  <Text variant="labelSmall" style={styles.missingText}>
+                    Not in statement
+                  </Text>
+                </View>
+              )}
             </View>
           </View>
           
@@ -202,6 +187,20 @@ const styles = StyleSheet.create({
     backgroundColor: '#F9FAFB',
     borderRadius: 6,
   },
+  missingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 6,
+  },
+  missingText: {
+    color: '#EF4444',
+    fontSize: 11,
+    fontWeight: '700',
+  },
   date: {
     color: '#6B7280',
     fontSize: 11,
@@ -0,0 +1,65 @@
+import React from 'react'
+import { View, StyleSheet } from 'react-native'
+import { TextInput } from 'react-native-paper'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { findPaymentMethod } from '@/lib/payment-methods'
+import { PaymentMethodSelector } from './PaymentMethodSelector'
+
+interface PaymentMethodFieldsProps {
+  method: string
+  reference: string
+  onChangeMethod: (method: string) => void
+  onChangeReference: (reference: string) => void
+  error?: string
+  disabled?: boolean
+}
+
+/**
+ * Method and reference for money taken when a student joins, renews or
+ * extends; the same choice the add payment screen asks for
+ */
+export function PaymentMethodFields({
+  method,
+  reference,
+  onChangeMethod,
+  onChangeReference,
+  error,
+  disabled = false,
+}: PaymentMethodFieldsProps) {
+  const { data: methods } = usePaymentMethods()
+
+  // Cash in hand has no reference unless the admin made it required
+  const selectedMethod = findPaymentMethod(method, methods)
+  const showReference = !!selectedMethod && (selectedMethod.requiresReference || !selectedMethod.cashInHand)
+
+  return (
+    <View style={styles.container}>
+      <PaymentMethodSelector selectedMethod={method} onSelect={onChangeMethod} error={error} />
+      {showReference && (
+        <TextInput
+          label={
+            selectedMethod?.requiresReference
+              ? 'Reference / UTR / Cheque No. *'
+              : 'UTR / Transaction ID (optional)'
+          }
+          value={reference}
+          onChangeText={onChangeReference}
+          mode="outlined"
+          autoCapitalize="characters"
+          style={styles.referenceInput}
+          disabled={disabled}
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  referenceInput: {
+    marginTop: 16,
+    backgroundColor: '#FFFFFF',
+  },
+})
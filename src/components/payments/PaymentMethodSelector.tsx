@@ -2,6 +2,8 @@ import React from 'react'
 import { View, StyleSheet, TouchableOpacity } from 'react-native'
 import { Text, RadioButton } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { getPaymentMethodName, getPaymentMethodStyle } from '@/lib/payment-methods'
 
 interface PaymentMethodSelectorProps {
   selectedMethod: string
@@ -9,17 +11,24 @@ interface PaymentMethodSelectorProps {
   error?: string
 }
 
-const paymentMethods = [
-  { value: 'Cash', label: 'Cash', icon: 'cash', color: '#10B981' },
-  { value: 'UPI', label: 'UPI', icon: 'cellphone', color: '#6366F1' },
-  { value: 'Online', label: 'Online', icon: 'credit-card', color: '#8B5CF6' },
-]
-
 export function PaymentMethodSelector({
   selectedMethod,
   onSelect,
   error,
 }: PaymentMethodSelectorProps) {
+  const { data: methods } = usePaymentMethods()
+
+  // A payment being edited keeps its method even if the admin has removed it
+  const keys = methods.map((method) => method.key)
+  if (selectedMethod && !keys.includes(selectedMethod)) {
+    keys.push(selectedMethod)
+  }
+  const paymentMethods = keys.map((key) => ({
+    value: key,
+    label: getPaymentMethodName(key, methods),
+    ...getPaymentMethodStyle(key, methods),
+  }))
+
   return (
     <View style={styles.container}>
       <View style={styles.sectionHeader}>
@@ -3,6 +3,8 @@ import { View, StyleSheet, TouchableOpacity } from 'react-native'
 import { Text, Card } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import type { PaymentStats } from '@/lib/payments'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { getPaymentMethodName, getPaymentMethodStyle } from '@/lib/payment-methods'
 
 interface PaymentStatsCardsProps {
   stats: PaymentStats
@@ -10,6 +12,8 @@ interface PaymentStatsCardsProps {
 }
 
 export function PaymentStatsCards({ stats, onStatPress }: PaymentStatsCardsProps) {
+  const { data: methods } = usePaymentMethods()
+
   const formatCurrency = (amount: number) => {
     return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`
   }
@@ -46,39 +50,87 @@ export function PaymentStatsCards({ stats, onStatPress }: PaymentStatsCardsProps
 
   return (
     <View style={styles.container}>
-      {statsData.map((stat) => (
-        <TouchableOpacity
-          key={stat.key}
-          style={styles.card}
-          onPress={() => onStatPress?.(stat.key)}
-          activeOpacity={0.7}
-        >
-          <Card style={[styles.cardContent, { backgroundColor: stat.bg }]}>
-            <Card.Content style={styles.cardInner}>
-              <View style={[styles.iconWrapper, { backgroundColor: stat.iconBg }]}>
-                <MaterialCommunityIcons name={stat.icon} size={22} color={stat.color} />
-              </View>
-              <View style={styles.textContainer}>
-                <Text variant="labelSmall" style={[styles.label, { color: stat.color }]}>
-                  {stat.label}
-                </Text>
-                <Text variant="headlineSmall" style={[styles.value, { color: stat.color }]}>
-                  {formatCurrency(stat.value)}
-                </Text>
-              </View>
-            </Card.Content>
-          </Card>
-        </TouchableOpacity>
-      ))}
+      <View style={styles.row}>
+        {statsData.map((stat) => (
+          <TouchableOpacity
+            key={stat.key}
+            style={styles.card}
+            onPress={() => onStatPress?.(stat.key)}
+            activeOpacity={0.7}
+          >
+            <Card style={[styles.cardContent, { backgroundColor: stat.bg }]}>
+              <Card.Content style={styles.cardInner}>
+                <View style={[styles.iconWrapper, { backgroundColor: stat.iconBg }]}>
+                  <MaterialCommunityIcons name={stat.icon} size={22} color={stat.color} />
+                </View>
+                <View style={styles.textContainer}>
+                  <Text variant="labelSmall" style={[styles.label, { color: stat.color }]}>
+                    {stat.label}
+                  </Text>
+                  <Text variant="headlineSmall" style={[styles.value, { color: stat.color }]}>
+                    {formatCurrency(stat.value)}
+                  </Text>
+                </View>
+              </Card.Content>
+            </Card>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Collected by method, and how much of it is cash at the mess */}
+      <View style={styles.methodRow}>
+        {Object.entries(stats.byMethod).map(([key, amount]) => {
+          const style = getPaymentMethodStyle(key, methods)
+          return (
+            <View key={key} style={[styles.methodChip, { backgroundColor: style.background }]}>
+              <MaterialCommunityIcons name={style.icon as any} size={14} color={style.color} />
+              <Text variant="labelSmall" style={[styles.methodText, { color: style.color }]}>
+                {getPaymentMethodName(key, methods)} {formatCurrency(amount)}
+              </Text>
+            </View>
+          )
+        })}
+        <View style={[styles.methodChip, styles.cashInHandChip]}>
+          <MaterialCommunityIcons name="wallet" size={14} color="#7B2CBF" />
+          <Text variant="labelSmall" style={[styles.methodText, styles.cashInHandText]}>
+            Cash in hand {formatCurrency(stats.cashInHand)}
+          </Text>
+        </View>
+      </View>
     </View>
   )
 }
 
 const styles = StyleSheet.create({
   container: {
+    marginBottom: 20,
+  },
+  row: {
     flexDirection: 'row',
     gap: 12,
-    marginBottom: 20,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  methodChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  methodText: {
+    fontWeight: '600',
+  },
+  cashInHandChip: {
+    backgroundColor: '#F3E8FF',
+  },
+  cashInHandText: {
+    color: '#7B2CBF',
   },
   card: {
     flex: 1,
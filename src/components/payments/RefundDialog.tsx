@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Dialog, Text, Button, Portal, TextInput, Chip } from 'react-native-paper'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import {
+  MAX_REFUND_REASON_LENGTH,
+  REFUND_TYPE_LABELS,
+  validateRefund,
+  type RefundType,
+} from '@/lib/refunds'
+
+interface RefundDialogProps {
+  visible: boolean
+  types: RefundType[] // Offered in this order; the first is selected
+  refundLimit: number // Most that can be refunded (credit notes have no limit)
+  onConfirm: (data: { type: RefundType; amount: number; method: string | null; reason: string }) => void
+  onCancel: () => void
+  loading?: boolean
+}
+
+const MESSAGES: Record<RefundType, string> = {
+  refund: 'Money paid back to the student. It is added back to what they owe, or taken from their credit.',
+  credit_note: 'Takes the amount off what the student owes, e.g. for days they won\'t use. Anything beyond the balance stays as credit for their next term.',
+}
+
+/**
+ * Asks for the amount, method and reason of a refund or credit note
+ */
+export function RefundDialog({
+  visible,
+  types,
+  refundLimit,
+  onConfirm,
+  onCancel,
+  loading = false,
+}: RefundDialogProps) {
+  const { data: methods } = usePaymentMethods()
+  const defaultType = types[0]
+  const [type, setType] = useState<RefundType>(defaultType)
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<string | null>(null)
+  const [reason, setReason] = useState('')
+
+  // Start empty every time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      setType(defaultType)
+      setAmount('')
+      setMethod(null)
+      setReason('')
+    }
+  }, [visible, defaultType])
+
+  const amountNum = parseFloat(amount) || 0
+  const validationError = amount ? validateRefund({ type, amount: amountNum, method, reason }, refundLimit) : null
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onCancel} style={styles.dialog}>
+        <Dialog.Title>Issue {REFUND_TYPE_LABELS[type]}</Dialog.Title>
+        <Dialog.Content>
+          {types.length > 1 && (
+            <View style={styles.chips}>
+              {types.map((option) => (
+                <Chip
+                  key={option}
+                  selected={type === option}
+                  onPress={() => setType(option)}
+                  style={[styles.chip, type === option && styles.chipSelected]}
+                  textStyle={type === option ? styles.chipTextSelected : undefined}
+                  showSelectedCheck={false}
+                  compact
+                  disabled={loading}
+                >
+                  {REFUND_TYPE_LABELS[option]}
+                </Chip>
+              ))}
+            </View>
+          )}
+          <Text variant="bodyMedium" style={styles.message}>
+            {MESSAGES[type]}
+          </Text>
+          <TextInput
+            label="Amount (₹)"
+            value={amount}
+            onChangeText={(text) => setAmount(text.replace(/[^0-9.]/g, ''))}
+            mode="outlined"
+            keyboardType="decimal-pad"
+            left={<TextInput.Icon icon="currency-inr" size={18} />}
+            disabled={loading}
+            style={styles.input}
+          />
+          {type === 'refund' && (
+            <>
+              <Text variant="bodySmall" style={styles.hint}>
+                Up to ₹{refundLimit.toFixed(2)}
+              </Text>
+              <View style={styles.chips}>
+                {/* Same methods payments are taken in */}
+                {methods.map((option) => (
+                  <Chip
+                    key={option.key}
+                    selected={method === option.key}
+                    onPress={() => setMethod(option.key)}
+                    style={[styles.chip, method === option.key && styles.chipSelected]}
+                    textStyle={method === option.key ? styles.chipTextSelected : undefined}
+                    showSelectedCheck={false}
+                    compact
+                    disabled={loading}
+                  >
+                    {option.name}
+                  </Chip>
+                ))}
+              </View>
+            </>
+          )}
+          <TextInput
+            label="Reason"
+            value={reason}
+            onChangeText={setReason}
+            placeholder={type === 'refund' ? 'e.g. Left mid-term' : 'e.g. 10 unused days'}
+            mode="outlined"
+            multiline
+            maxLength={MAX_REFUND_REASON_LENGTH}
+            disabled={loading}
+          />
+          {validationError && (
+            <Text variant="bodySmall" style={styles.error}>
+              {validationError}
+            </Text>
+          )}
+        </Dialog.Content>
+        <Dialog.Actions style={styles.actions}>
+          <Button onPress={onCancel} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onPress={() => onConfirm({ type, amount: amountNum, method: type === 'refund' ? method : null, reason: reason.trim() })}
+            mode="contained"
+            loading={loading}
+            disabled={loading || !amount || !!validationError}
+            buttonColor="#7B2CBF"
+            textColor="#fff"
+          >
+            Issue
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  dialog: {
+    borderRadius: 12,
+  },
+  message: {
+    marginBottom: 12,
+  },
+  input: {
+    marginBottom: 4,
+  },
+  hint: {
+    color: '#666',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+  },
+  chipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  error: {
+    color: '#EF4444',
+    marginTop: 8,
+  },
+  actions: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+})
@@ -0,0 +1,163 @@
+import React, { useState } from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Text, ActivityIndicator, Button } from 'react-native-paper'
+import { format, parseISO } from 'date-fns'
+import { useRefunds, useCreateRefund } from '@/hooks/useRefunds'
+import { REFUND_TYPE_LABELS, type RefundType } from '@/lib/refunds'
+import { RefundDialog } from './RefundDialog'
+
+interface RefundHistoryProps {
+  student: { id: number; credit: number }
+  canIssue?: boolean // Admins can issue refunds and credit notes
+  onMessage?: (message: string) => void
+}
+
+const REFUND_TYPES: RefundType[] = ['credit_note', 'refund']
+
+const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+/**
+ * A student's refunds and credit notes, newest first
+ */
+export function RefundHistory({ student, canIssue = false, onMessage }: RefundHistoryProps) {
+  const [dialogVisible, setDialogVisible] = useState(false)
+  const { data: refunds, isLoading, error } = useRefunds({ studentId: student.id })
+  const createRefund = useCreateRefund()
+
+  const handleIssue = async (data: { type: RefundType; amount: number; method: string | null; reason: string }) => {
+    try {
+      await createRefund.mutateAsync({
+        studentId: student.id,
+        ...data,
+        refundDate: format(new Date(), 'yyyy-MM-dd'),
+      })
+      setDialogVisible(false)
+      onMessage?.(`${REFUND_TYPE_LABELS[data.type]} issued`)
+    } catch (issueError: any) {
+      onMessage?.(issueError?.message || 'Failed to issue refund')
+    }
+  }
+
+  if (isLoading) {
+    return <ActivityIndicator style={styles.loading} color="#7B2CBF" />
+  }
+
+  if (error) {
+    return (
+      <Text variant="bodySmall" style={styles.error}>
+        {(error as Error).message || 'Failed to load refunds'}
+      </Text>
+    )
+  }
+
+  return (
+    <View>
+      {student.credit > 0 && (
+        <Text variant="bodySmall" style={styles.credit}>
+          {formatCurrency(student.credit)} in credit, carried to the next renewal
+        </Text>
+      )}
+
+      {!refunds || refunds.length === 0 ? (
+        <Text variant="bodySmall" style={styles.muted}>
+          No refunds or credit notes
+        </Text>
+      ) : (
+        refunds.map((refund) => (
+          <View key={refund.id} style={styles.entry}>
+            <View style={styles.headerRow}>
+              <Text variant="bodyMedium" style={styles.title}>
+                {refund.type === 'credit_note' && refund.creditNoteNumber
+                  ? `Credit Note ${refund.creditNoteNumber}`
+                  : REFUND_TYPE_LABELS[refund.type]}
+              </Text>
+              <Text variant="bodyMedium" style={refund.type === 'refund' ? styles.debit : styles.creditAmount}>
+                {formatCurrency(refund.amount)}
+              </Text>
+            </View>
+            <Text variant="bodySmall" style={styles.muted}>
+              {formatDate(refund.refundDate)}
+              {refund.method ? ` • ${refund.method}` : ''}
+              {refund.createdByEmail ? ` • ${refund.createdByEmail}` : ''}
+            </Text>
+            <Text variant="bodySmall" style={styles.reason}>
+              {refund.reason}
+            </Text>
+          </View>
+        ))
+      )}
+
+      {canIssue && (
+        <>
+          <Button
+            mode="outlined"
+            icon="cash-refund"
+            onPress={() => setDialogVisible(true)}
+            textColor="#7B2CBF"
+            style={styles.issueButton}
+            compact
+          >
+            Refund / Credit Note
+          </Button>
+          <RefundDialog
+            visible={dialogVisible}
+            types={REFUND_TYPES}
+            refundLimit={student.credit}
+            onConfirm={handleIssue}
+            onCancel={() => setDialogVisible(false)}
+            loading={createRefund.isPending}
+          />
+        </>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 16,
+  },
+  error: {
+    color: '#EF4444',
+  },
+  muted: {
+    color: '#666',
+  },
+  credit: {
+    color: '#10B981',
+    marginBottom: 4,
+  },
+  entry: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    gap: 2,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  title: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  reason: {
+    color: '#1A1A1A',
+  },
+  debit: {
+    color: '#EF4444',
+    fontWeight: '600',
+  },
+  creditAmount: {
+    color: '#10B981',
+    fontWeight: '600',
+  },
+  issueButton: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    borderColor: '#7B2CBF',
+  },
+})
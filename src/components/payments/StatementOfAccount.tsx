@@ -0,0 +1,337 @@
+import React, { useMemo, useState } from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Text, ActivityIndicator, Button, Chip } from 'react-native-paper'
+import { format, parseISO, startOfMonth, subMonths } from 'date-fns'
+import { useLedger, useAddLedgerAdjustment, useExportStatement } from '@/hooks/useLedger'
+import { useLateFees, useWaiveLateFee } from '@/hooks/useLateFees'
+import { buildStatement, formatLedgerBalance, type LedgerAdjustmentKind, type StatementRange } from '@/lib/ledger'
+import type { LateFee } from '@/lib/late-fees'
+import { ReasonDialog } from '@/components/shared/ReasonDialog'
+import { LedgerAdjustmentDialog } from './LedgerAdjustmentDialog'
+
+interface StatementOfAccountProps {
+  student: { id: number; name: string; rollNumber: string | null }
+  canAdjust?: boolean // Admins can add fees and discounts, and waive late fees
+  onMessage?: (message: string) => void
+}
+
+type StatementPeriod = 'all' | 'month' | 'quarter'
+
+const PERIOD_LABELS: Record<StatementPeriod, string> = {
+  all: 'All',
+  month: 'This Month',
+  quarter: 'Last 3 Months',
+}
+
+const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const getRange = (period: StatementPeriod): StatementRange => {
+  const today = new Date()
+  if (period === 'month') {
+    return { from: format(startOfMonth(today), 'yyyy-MM-dd') }
+  }
+  if (period === 'quarter') {
+    return { from: format(startOfMonth(subMonths(today, 2)), 'yyyy-MM-dd') }
+  }
+  return {}
+}
+
+/**
+ * A student's charges and credits with the running balance after each
+ */
+export function StatementOfAccount({ student, canAdjust = false, onMessage }: StatementOfAccountProps) {
+  const [period, setPeriod] = useState<StatementPeriod>('all')
+  const [adjustment, setAdjustment] = useState<LedgerAdjustmentKind | null>(null)
+  const [waiving, setWaiving] = useState<LateFee | null>(null)
+  const { data: entries, isLoading, error } = useLedger(student.id)
+  const { data: lateFees } = useLateFees(canAdjust ? student.id : undefined)
+  const addAdjustment = useAddLedgerAdjustment()
+  const waiveLateFee = useWaiveLateFee()
+  const exportStatement = useExportStatement()
+
+  const range = useMemo(() => getRange(period), [period])
+  const statement = useMemo(() => buildStatement(entries || [], range), [entries, range])
+
+  // Late fees that can still be waived, by the statement entry that charged them
+  const waivableFees = useMemo(
+    () =>
+      new Map(
+        (lateFees || [])
+          .filter((lateFee) => lateFee.waivable && !lateFee.waivedAt && lateFee.ledgerEntryId !== null)
+          .map((lateFee) => [lateFee.ledgerEntryId, lateFee])
+      ),
+    [lateFees]
+  )
+
+  const handleExport = async () => {
+    try {
+      await exportStatement.mutateAsync({ student, range })
+    } catch (exportError: any) {
+      onMessage?.(exportError?.message || 'Failed to export statement')
+    }
+  }
+
+  const handleAdjustment = async (data: { amount: number; description: string }) => {
+    if (!adjustment) return
+    try {
+      await addAdjustment.mutateAsync({
+        studentId: student.id,
+        kind: adjustment,
+        amount: data.amount,
+        description: data.description,
+        entryDate: format(new Date(), 'yyyy-MM-dd'),
+      })
+      setAdjustment(null)
+      onMessage?.(adjustment === 'fee' ? 'Fee added' : 'Discount added')
+    } catch (adjustmentError: any) {
+      onMessage?.(adjustmentError?.message || 'Failed to add adjustment')
+    }
+  }
+
+  const handleWaive = async (reason: string) => {
+    if (!waiving) return
+    try {
+      await waiveLateFee.mutateAsync({ lateFeeId: waiving.id, studentId: student.id, reason })
+      setWaiving(null)
+      onMessage?.('Late fee waived')
+    } catch (waiveError: any) {
+      setWaiving(null)
+      onMessage?.(waiveError?.message || 'Failed to waive late fee')
+    }
+  }
+
+  if (isLoading) {
+    return <ActivityIndicator style={styles.loading} color="#7B2CBF" />
+  }
+
+  if (error) {
+    return (
+      <Text variant="bodySmall" style={styles.error}>
+        {(error as Error).message || 'Failed to load statement'}
+      </Text>
+    )
+  }
+
+  return (
+    <View>
+      <View style={styles.chips}>
+        {(Object.keys(PERIOD_LABELS) as StatementPeriod[]).map((option) => (
+          <Chip
+            key={option}
+            selected={period === option}
+            onPress={() => setPeriod(option)}
+            style={[styles.chip, period === option && styles.chipSelected]}
+            textStyle={period === option ? styles.chipTextSelected : undefined}
+            showSelectedCheck={false}
+            compact
+          >
+            {PERIOD_LABELS[option]}
+          </Chip>
+        ))}
+      </View>
+
+      {range.from && (
+        <View style={styles.totalRow}>
+          <Text variant="bodySmall" style={styles.muted}>
+            Opening balance ({formatDate(range.from)})
+          </Text>
+          <Text variant="bodySmall" style={styles.totalValue}>
+            {formatLedgerBalance(statement.openingBalance)}
+          </Text>
+        </View>
+      )}
+
+      {statement.lines.length === 0 ? (
+        <Text variant="bodySmall" style={[styles.muted, styles.empty]}>
+          No entries in this period
+        </Text>
+      ) : (
+        statement.lines.map(({ entry, balance }) => (
+          <View key={entry.id} style={styles.line}>
+            <View style={styles.lineMain}>
+              <Text variant="bodyMedium" style={styles.description}>
+                {entry.description}
+              </Text>
+              <Text variant="bodySmall" style={styles.muted}>
+                {formatDate(entry.entryDate)}
+              </Text>
+              {canAdjust && waivableFees.has(entry.id) && (
+                <Button
+                  mode="text"
+                  compact
+                  onPress={() => setWaiving(waivableFees.get(entry.id) ?? null)}
+                  textColor="#7B2CBF"
+                  style={styles.waiveButton}
+                >
+                  Waive
+                </Button>
+              )}
+            </View>
+            <View style={styles.lineAmounts}>
+              {entry.debit > 0 ? (
+                <Text variant="bodySmall" style={styles.debit}>
+                  +{formatCurrency(entry.debit)}
+                </Text>
+              ) : (
+                <Text variant="bodySmall" style={styles.credit}>
+                  −{formatCurrency(entry.credit)}
+                </Text>
+              )}
+              <Text variant="bodySmall" style={styles.muted}>
+                {formatLedgerBalance(balance)}
+              </Text>
+            </View>
+          </View>
+        ))
+      )}
+
+      <View style={[styles.totalRow, styles.closingRow]}>
+        <Text variant="bodyMedium" style={styles.totalLabel}>
+          Closing balance
+        </Text>
+        <Text
+          variant="bodyMedium"
+          style={[styles.totalValue, statement.closingBalance > 0 ? styles.debit : styles.credit]}
+        >
+          {formatLedgerBalance(statement.closingBalance)}
+        </Text>
+      </View>
+
+      <View style={styles.actions}>
+        <Button
+          mode="outlined"
+          icon="file-pdf-box"
+          onPress={handleExport}
+          loading={exportStatement.isPending}
+          disabled={exportStatement.isPending}
+          textColor="#7B2CBF"
+          compact
+        >
+          Export PDF
+        </Button>
+        {canAdjust && (
+          <>
+            <Button mode="text" icon="plus" onPress={() => setAdjustment('fee')} textColor="#7B2CBF" compact>
+              Fee
+            </Button>
+            <Button mode="text" icon="minus" onPress={() => setAdjustment('discount')} textColor="#7B2CBF" compact>
+              Discount
+            </Button>
+          </>
+        )}
+      </View>
+
+      {canAdjust && (
+        <LedgerAdjustmentDialog
+          visible={adjustment !== null}
+          kind={adjustment || 'fee'}
+          onConfirm={handleAdjustment}
+          onCancel={() => setAdjustment(null)}
+          loading={addAdjustment.isPending}
+        />
+      )}
+
+      {canAdjust && (
+        <ReasonDialog
+          visible={waiving !== null}
+          title="Waive Late Fee"
+          message={
+            waiving
+              ? `${formatCurrency(waiving.amount)} is taken back off what the student owes. ${formatCurrency(waiving.amountDue)} was still due on ${formatDate(waiving.dueDate)}.`
+              : ''
+          }
+          confirmLabel="Waive"
+          onConfirm={handleWaive}
+          onCancel={() => setWaiving(null)}
+          loading={waiveLateFee.isPending}
+          confirmColor="#7B2CBF"
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 16,
+  },
+  error: {
+    color: '#EF4444',
+  },
+  muted: {
+    color: '#666',
+  },
+  empty: {
+    paddingVertical: 10,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+  },
+  chipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  line: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    gap: 12,
+  },
+  lineMain: {
+    flex: 1,
+    gap: 2,
+  },
+  lineAmounts: {
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  description: {
+    color: '#1A1A1A',
+  },
+  waiveButton: {
+    alignSelf: 'flex-start',
+    marginLeft: -8,
+  },
+  debit: {
+    color: '#EF4444',
+  },
+  credit: {
+    color: '#10B981',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  closingRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    paddingTop: 10,
+  },
+  totalLabel: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  totalValue: {
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+})
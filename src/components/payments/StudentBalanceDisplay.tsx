@@ -10,6 +10,7 @@ interface StudentBalanceDisplayProps {
     paid: number
     balance: number
     price: number
+    guestCharges?: number
   } | null
 }
 
@@ -66,6 +67,16 @@ export function StudentBalanceDisplay({ student }: StudentBalanceDisplayProps) {
               ₹{Number(student.price).toFixed(2)}
             </Text>
           </View>
+          {!!student.guestCharges && (
+            <View style={styles.detailRow}>
+              <Text variant="bodySmall" style={styles.detailLabel}>
+                Guest Meals:
+              </Text>
+              <Text variant="bodyMedium" style={styles.detailValue}>
+                ₹{Number(student.guestCharges).toFixed(2)}
+              </Text>
+            </View>
+          )}
           <View style={styles.detailRow}>
             <Text variant="bodySmall" style={styles.detailLabel}>
               Paid:
@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from 'react'
+import { View, StyleSheet, Linking } from 'react-native'
+import { Text, Button, TextInput, Chip, Divider, ActivityIndicator } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import QRCode from 'react-native-qrcode-svg'
+import * as Clipboard from 'expo-clipboard'
+import { format } from 'date-fns'
+import { useBillingSettings } from '@/hooks/useBilling'
+import {
+  useUpiPaymentRequests,
+  useSubmitUpiPayment,
+  useCancelUpiPaymentRequest,
+} from '@/hooks/useUpiPayments'
+import { pickImageFromGallery } from '@/lib/announcements'
+import {
+  buildUpiLink,
+  validateUpiReference,
+  UPI_STATUS_COLORS,
+  UPI_STATUS_LABELS,
+} from '@/lib/upi'
+
+interface UpiPayCardProps {
+  student: { id: number; balance: number }
+  onMessage?: (message: string) => void // Errors for the screen's snackbar
+}
+
+/**
+ * Pay the outstanding balance by UPI and submit the UTR for verification
+ * Renders nothing until a UPI ID is set in the billing settings.
+ */
+export function UpiPayCard({ student, onMessage }: UpiPayCardProps) {
+  const { data: settings } = useBillingSettings()
+  const { data: requests, isLoading } = useUpiPaymentRequests({ studentId: student.id })
+  const submitMutation = useSubmitUpiPayment()
+  const cancelMutation = useCancelUpiPaymentRequest()
+
+  const balance = Math.max(Number(student.balance || 0), 0)
+  const [amount, setAmount] = useState(balance > 0 ? String(balance) : '')
+  const [reference, setReference] = useState('')
+  const [screenshotUri, setScreenshotUri] = useState<string | null>(null)
+  const [referenceError, setReferenceError] = useState<string | null>(null)
+
+  // Follow the balance as payments are confirmed
+  useEffect(() => {
+    setAmount(balance > 0 ? String(balance) : '')
+  }, [balance])
+
+  if (!settings?.upiVpa) {
+    return null
+  }
+
+  const amountNum = parseFloat(amount) || 0
+  const link = amountNum > 0
+    ? buildUpiLink({ vpa: settings.upiVpa, payeeName: settings.messName, amount: amountNum, note: 'Mess fees' })
+    : null
+
+  const handleOpenApp = async () => {
+    if (!link) return
+    try {
+      await Linking.openURL(link)
+    } catch {
+      onMessage?.('No UPI app found. Scan the QR code from another phone or pay the UPI ID directly.')
+    }
+  }
+
+  const handleCopyVpa = async () => {
+    await Clipboard.setStringAsync(settings.upiVpa)
+  }
+
+  const handlePickScreenshot = async () => {
+    const result = await pickImageFromGallery()
+    if (result.error) {
+      onMessage?.(result.error.message)
+    } else if (result.uri) {
+      setScreenshotUri(result.uri)
+    }
+  }
+
+  const handleSubmit = async () => {
+    const error = validateUpiReference(reference)
+    if (error) {
+      setReferenceError(error)
+      return
+    }
+    if (amountNum <= 0) {
+      onMessage?.('Enter the amount you paid')
+      return
+    }
+
+    try {
+      await submitMutation.mutateAsync({ amount: amountNum, reference, screenshotUri })
+      setReference('')
+      setScreenshotUri(null)
+      setReferenceError(null)
+    } catch (err: any) {
+      onMessage?.(err.message || 'Failed to submit payment')
+    }
+  }
+
+  const handleCancel = async (id: number) => {
+    try {
+      await cancelMutation.mutateAsync(id)
+    } catch (err: any) {
+      onMessage?.(err.message || 'Failed to cancel payment')
+    }
+  }
+
+  return (
+    <View>
+      <TextInput
+        label="Amount (₹)"
+        value={amount}
+        onChangeText={(text) => setAmount(text.replace(/[^0-9.]/g, ''))}
+        mode="outlined"
+        keyboardType="decimal-pad"
+        left={<TextInput.Icon icon="currency-inr" size={18} />}
+        style={styles.input}
+      />
+
+      {link ? (
+        <View style={styles.qrContainer}>
+          <QRCode value={link} size={180} />
+          <Text variant="bodySmall" style={styles.muted}>
+            Scan with any UPI app
+          </Text>
+        </View>
+      ) : null}
+
+      <View style={styles.vpaRow}>
+        <Text variant="bodyMedium" style={styles.vpa}>
+          {settings.upiVpa}
+        </Text>
+        <Button mode="text" icon="content-copy" onPress={handleCopyVpa} textColor="#7B2CBF" compact>
+          Copy
+        </Button>
+      </View>
+
+      <Button
+        mode="contained"
+        icon="cellphone"
+        onPress={handleOpenApp}
+        disabled={!link}
+        buttonColor="#7B2CBF"
+        style={styles.payButton}
+      >
+        Pay ₹{amountNum.toLocaleString('en-IN')} with UPI app
+      </Button>
+
+      <Divider style={styles.divider} />
+
+      <Text variant="titleSmall" style={styles.subheading}>
+        Already paid?
+      </Text>
+      <Text variant="bodySmall" style={styles.muted}>
+        Enter the UTR / transaction ID from your UPI app. The mess will check it and add the payment to your account.
+      </Text>
+      <TextInput
+        label="UTR / Transaction ID"
+        value={reference}
+        onChangeText={(text) => {
+          setReference(text)
+          setReferenceError(null)
+        }}
+        mode="outlined"
+        autoCapitalize="characters"
+        error={!!referenceError}
+        style={styles.input}
+      />
+      {referenceError && (
+        <Text variant="bodySmall" style={styles.error}>
+          {referenceError}
+        </Text>
+      )}
+      <View style={styles.actions}>
+        {screenshotUri ? (
+          <Button mode="text" icon="close" onPress={() => setScreenshotUri(null)} textColor="#666" compact>
+            Remove screenshot
+          </Button>
+        ) : (
+          <Button mode="text" icon="image-plus" onPress={handlePickScreenshot} textColor="#7B2CBF" compact>
+            Add screenshot
+          </Button>
+        )}
+        <Button
+          mode="contained"
+          onPress={handleSubmit}
+          loading={submitMutation.isPending}
+          disabled={submitMutation.isPending || !reference.trim()}
+          buttonColor="#7B2CBF"
+        >
+          Submit
+        </Button>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} color="#7B2CBF" />
+      ) : requests && requests.length > 0 ? (
+        <View style={styles.requests}>
+          {requests.slice(0, 5).map((request) => (
+            <View key={request.id} style={styles.requestRow}>
+              <View style={styles.requestInfo}>
+                <Text variant="bodyMedium" style={styles.requestAmount}>
+                  ₹{request.amount.toLocaleString('en-IN')} • {request.reference}
+                </Text>
+                <Text variant="bodySmall" style={styles.muted}>
+                  {format(new Date(request.createdAt), 'dd MMM yyyy, hh:mm a')}
+                </Text>
+                {request.reviewNote && (
+                  <Text variant="bodySmall" style={styles.note}>
+                    {request.reviewNote}
+                  </Text>
+                )}
+              </View>
+              <View style={styles.requestStatus}>
+                <Chip
+                  compact
+                  style={{ backgroundColor: UPI_STATUS_COLORS[request.status].background }}
+                  textStyle={{ color: UPI_STATUS_COLORS[request.status].color }}
+                >
+                  {UPI_STATUS_LABELS[request.status]}
+                </Chip>
+                {request.status === 'pending' && (
+                  <Button
+                    mode="text"
+                    onPress={() => handleCancel(request.id)}
+                    disabled={cancelMutation.isPending}
+                    textColor="#EF4444"
+                    compact
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  input: {
+    marginBottom: 8,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    gap: 8,
+    marginVertical: 8,
+  },
+  vpaRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 4,
+  },
+  vpa: {
+    color: '#1A1A1A',
+    fontWeight: '600',
+  },
+  payButton: {
+    marginTop: 4,
+  },
+  divider: {
+    marginVertical: 16,
+  },
+  subheading: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 4,
+  },
+  muted: {
+    color: '#666',
+    marginBottom: 8,
+  },
+  error: {
+    color: '#EF4444',
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  loading: {
+    marginTop: 16,
+  },
+  requests: {
+    marginTop: 16,
+    gap: 12,
+  },
+  requestRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  requestInfo: {
+    flex: 1,
+  },
+  requestAmount: {
+    color: '#1A1A1A',
+    fontWeight: '600',
+  },
+  requestStatus: {
+    alignItems: 'flex-end',
+  },
+  note: {
+    color: '#6B7280',
+    fontStyle: 'italic',
+  },
+})
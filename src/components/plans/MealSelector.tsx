@@ -1,12 +1,11 @@
 import React from 'react'
 import { View, StyleSheet, TouchableOpacity } from 'react-native'
 import { Text, Checkbox } from 'react-native-paper'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { formatMealWindow, getMealColors, getMealWindow, type MealKey } from '@/lib/meal-schedule'
 
-export interface MealSelection {
-  breakfast: boolean
-  lunch: boolean
-  dinner: boolean
-}
+// Selected meal type keys, in schedule order
+export type MealSelection = MealKey[]
 
 interface MealSelectorProps {
   selectedMeals: MealSelection
@@ -14,41 +13,31 @@ interface MealSelectorProps {
   error?: string
 }
 
-const meals = [
-  {
-    key: 'breakfast' as const,
-    label: 'Breakfast',
-    time: '7:30 AM - 10:30 AM',
-    color: '#f97316',
-    icon: 'B',
-  },
-  {
-    key: 'lunch' as const,
-    label: 'Lunch',
-    time: '12:30 PM - 3:30 PM',
-    color: '#eab308',
-    icon: 'L',
-  },
-  {
-    key: 'dinner' as const,
-    label: 'Dinner',
-    time: '7:30 PM - 10:30 PM',
-    color: '#6366f1',
-    icon: 'D',
-  },
-]
-
 export function MealSelector({ selectedMeals, onChange, error }: MealSelectorProps) {
-  const handleMealChange = (key: keyof MealSelection, checked: boolean) => {
-    onChange({
-      ...selectedMeals,
-      [key]: checked,
-    })
+  const { data: schedule } = useMealSchedule()
+
+  const meals = schedule.mealTypes.map((type) => {
+    const window = getMealWindow(schedule, type.key)
+    return {
+      key: type.key,
+      label: type.name,
+      time: window.enabled ? formatMealWindow(window) : 'Not served today',
+      color: getMealColors(type.key, schedule).color,
+      icon: type.name.charAt(0).toUpperCase(),
+    }
+  })
+
+  const handleMealChange = (key: MealKey, checked: boolean) => {
+    onChange(
+      schedule.mealTypes
+        .map((type) => type.key)
+        .filter((meal) => (meal === key ? checked : selectedMeals.includes(meal)))
+    )
   }
 
   const getSelectedMealsString = () => {
     return meals
-      .filter((meal) => selectedMeals[meal.key])
+      .filter((meal) => selectedMeals.includes(meal.key))
       .map((meal) => meal.label)
       .join(', ')
   }
@@ -57,7 +46,7 @@ export function MealSelector({ selectedMeals, onChange, error }: MealSelectorPro
     <View style={styles.container}>
       <View style={styles.checkboxContainer}>
         {meals.map((meal) => {
-          const isSelected = selectedMeals[meal.key]
+          const isSelected = selectedMeals.includes(meal.key)
           return (
             <TouchableOpacity
               key={meal.key}
@@ -114,7 +103,7 @@ export function MealSelector({ selectedMeals, onChange, error }: MealSelectorPro
 
       {error && <Text style={styles.errorText}>{error}</Text>}
 
-      {!selectedMeals.breakfast && !selectedMeals.lunch && !selectedMeals.dinner && (
+      {selectedMeals.length === 0 && (
         <Text style={styles.hintText}>Please select at least one meal</Text>
       )}
     </View>
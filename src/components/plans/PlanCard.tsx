@@ -3,6 +3,7 @@ import { View, StyleSheet, TouchableOpacity } from 'react-native'
 import { Card, Text, Button } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { Plan } from '@/lib/plans'
+import { formatPlanMeals } from '@/lib/meal-schedule'
 
 interface PlanCardProps {
   plan: Plan
@@ -61,7 +62,7 @@ export function PlanCard({ plan, index, onPress, onEdit, onDelete }: PlanCardPro
                 {plan.name}
               </Text>
               <Text variant="bodySmall" style={styles.planMeals} numberOfLines={2}>
-                {plan.meals}
+                {formatPlanMeals(plan.meals)}
               </Text>
             </View>
           </View>
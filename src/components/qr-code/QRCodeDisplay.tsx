@@ -5,12 +5,14 @@ import { MaterialCommunityIcons } from '@expo/vector-icons'
 import QRCode from 'react-native-qrcode-svg'
 
 interface QRCodeDisplayProps {
-  qrCode: string | null // QR code data string (e.g., "mess://attendance")
+  qrCode: string | null // Signed QR payload string
   loading: boolean
   error: Error | null
+  rotationSeconds?: number // Shown to staff so they know the code changes
+  size?: number
 }
 
-export function QRCodeDisplay({ qrCode, loading, error }: QRCodeDisplayProps) {
+export function QRCodeDisplay({ qrCode, loading, error, rotationSeconds, size = 300 }: QRCodeDisplayProps) {
   if (loading) {
     return (
       <Card style={styles.card}>
@@ -74,7 +76,7 @@ export function QRCodeDisplay({ qrCode, loading, error }: QRCodeDisplayProps) {
           <View style={styles.qrImageContainer}>
             <QRCode
               value={qrCode}
-              size={300}
+              size={size}
               color="black"
               backgroundColor="white"
               logo={undefined}
@@ -95,6 +97,18 @@ export function QRCodeDisplay({ qrCode, loading, error }: QRCodeDisplayProps) {
               Scan to mark attendance
             </Text>
           </View>
+          {rotationSeconds ? (
+            <View style={styles.rotationContainer}>
+              <MaterialCommunityIcons 
+                name="autorenew" 
+                size={16} 
+                color="#9ca3af" 
+              />
+              <Text variant="bodySmall" style={styles.rotationText}>
+                Refreshes every {rotationSeconds} seconds
+              </Text>
+            </View>
+          ) : null}
         </View>
       </Card.Content>
     </Card>
@@ -170,6 +184,15 @@ const styles = StyleSheet.create({
     color: '#7B2CBF',
     fontWeight: '500',
   },
+  rotationContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  rotationText: {
+    color: '#9ca3af',
+  },
 })
 
 
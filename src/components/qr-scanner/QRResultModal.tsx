@@ -3,6 +3,7 @@ import { View, StyleSheet, Animated, Modal as RNModal } from 'react-native'
 import { Text, Button } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { MarkAttendanceResult } from '@/lib/qr-attendance'
+import { getMealName } from '@/lib/meal-schedule'
 
 interface QRResultModalProps {
   visible: boolean
@@ -37,9 +38,10 @@ export function QRResultModal({ visible, result, onClose }: QRResultModalProps)
   if (!result) return null
 
   const isSuccess = result.success
-  const iconColor = isSuccess ? '#10B981' : '#EF4444'
-  const bgColor = isSuccess ? '#F0FDF4' : '#FEF2F2'
-  const borderColor = isSuccess ? '#10B981' : '#EF4444'
+  const isQueued = !!result.queued
+  const iconColor = isSuccess ? '#10B981' : isQueued ? '#F59E0B' : '#EF4444'
+  const bgColor = isSuccess ? '#F0FDF4' : isQueued ? '#FFFBEB' : '#FEF2F2'
+  const borderColor = iconColor
 
   return (
     <RNModal
@@ -64,6 +66,10 @@ export function QRResultModal({ visible, result, onClose }: QRResultModalProps)
               <View style={styles.successIcon}>
                 <MaterialCommunityIcons name="check-circle" size={64} color={iconColor} />
               </View>
+            ) : isQueued ? (
+              <View style={styles.queuedIcon}>
+                <MaterialCommunityIcons name="cloud-clock" size={64} color={iconColor} />
+              </View>
             ) : (
               <View style={styles.errorIcon}>
                 <MaterialCommunityIcons name="alert-circle" size={64} color={iconColor} />
@@ -72,7 +78,7 @@ export function QRResultModal({ visible, result, onClose }: QRResultModalProps)
           </View>
 
           <Text variant="headlineSmall" style={[styles.title, { color: iconColor }]}>
-            {isSuccess ? 'Attendance Marked!' : 'Unable to Mark Attendance'}
+            {isSuccess ? 'Attendance Marked!' : isQueued ? 'Scan Saved Offline' : 'Unable to Mark Attendance'}
           </Text>
 
           <Text variant="bodyLarge" style={styles.message}>
@@ -83,7 +89,7 @@ export function QRResultModal({ visible, result, onClose }: QRResultModalProps)
             <View style={styles.mealInfo}>
               <MaterialCommunityIcons name="silverware-fork-knife" size={20} color="#10B981" />
               <Text variant="bodyMedium" style={styles.mealText}>
-                {result.meal.charAt(0).toUpperCase() + result.meal.slice(1)} marked
+                {getMealName(result.meal)} marked
               </Text>
             </View>
           )}
@@ -131,6 +137,14 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  queuedIcon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#FFFBEB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   errorIcon: {
     width: 80,
     height: 80,
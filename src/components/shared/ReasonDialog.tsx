@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react'
+import { StyleSheet } from 'react-native'
+import { Dialog, Text, Button, Portal, TextInput } from 'react-native-paper'
+
+interface ReasonDialogProps {
+  visible: boolean
+  title: string
+  message: string
+  confirmLabel?: string
+  cancelLabel?: string
+  onConfirm: (reason: string) => void
+  onCancel: () => void
+  loading?: boolean
+  confirmColor?: string
+}
+
+/**
+ * Confirmation that asks for a reason before a change is made
+ */
+export function ReasonDialog({
+  visible,
+  title,
+  message,
+  confirmLabel = 'Confirm',
+  cancelLabel = 'Cancel',
+  onConfirm,
+  onCancel,
+  loading = false,
+  confirmColor = '#dc2626',
+}: ReasonDialogProps) {
+  const [reason, setReason] = useState('')
+
+  // Start empty every time the dialog opens
+  useEffect(() => {
+    if (visible) setReason('')
+  }, [visible])
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onCancel} style={styles.dialog}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.message}>
+            {message}
+          </Text>
+          <TextInput
+            label="Reason (required)"
+            value={reason}
+            onChangeText={setReason}
+            mode="outlined"
+            multiline
+            maxLength={500}
+            disabled={loading}
+          />
+        </Dialog.Content>
+        <Dialog.Actions style={styles.actions}>
+          <Button onPress={onCancel} disabled={loading}>
+            {cancelLabel}
+          </Button>
+          <Button
+            onPress={() => onConfirm(reason.trim())}
+            mode="contained"
+            loading={loading}
+            disabled={loading || !reason.trim()}
+            buttonColor={confirmColor}
+            textColor="#fff"
+          >
+            {confirmLabel}
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  dialog: {
+    borderRadius: 12,
+  },
+  message: {
+    marginBottom: 12,
+  },
+  actions: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+})
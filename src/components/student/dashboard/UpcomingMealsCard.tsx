@@ -0,0 +1,190 @@
+import { View, StyleSheet, Alert } from 'react-native'
+import { Text, Card, Chip } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { addDays, format, parseISO } from 'date-fns'
+import { useMealSchedule } from '@/hooks/useMealSchedule'
+import { useStudentRSVPs, useSetMealRSVP } from '@/hooks/useMealRSVP'
+import {
+  formatMealTime,
+  getMealIcon,
+  getMealName,
+  getMealWindow,
+  getRSVPCutoff,
+  parsePlanMeals,
+  timeToMinutes,
+  type MealKey,
+} from '@/lib/meal-schedule'
+import type { Student } from '@/lib/students'
+
+interface UpcomingMealsCardProps {
+  student: Student
+}
+
+// Today's remaining meals and tomorrow's
+const RSVP_DAYS_SHOWN = 2
+
+export function UpcomingMealsCard({ student }: UpcomingMealsCardProps) {
+  const { data: mealSchedule } = useMealSchedule()
+  const now = new Date()
+  const dates = Array.from({ length: RSVP_DAYS_SHOWN }, (_, index) => format(addDays(now, index), 'yyyy-MM-dd'))
+
+  const { data: rsvps } = useStudentRSVPs(student.id, dates[0], dates[dates.length - 1])
+  const rsvpMutation = useSetMealRSVP()
+
+  const planMeals = parsePlanMeals(student.plan.meals, mealSchedule)
+  const minutesNow = now.getHours() * 60 + now.getMinutes()
+
+  const upcoming = dates.flatMap((date, dayIndex) => {
+    if (student.joinDate.slice(0, 10) > date || student.endDate.slice(0, 10) < date) return []
+
+    return planMeals
+      .map((meal) => ({ date, meal, window: getMealWindow(mealSchedule, meal, parseISO(date)) }))
+      .filter(({ window }) => window.enabled && (dayIndex > 0 || timeToMinutes(window.start) > minutesNow))
+      .map((slot) => {
+        const cutoff = getRSVPCutoff(mealSchedule, slot.date, slot.meal)
+        return {
+          ...slot,
+          dayLabel: dayIndex === 0 ? 'Today' : 'Tomorrow',
+          open: !!cutoff && cutoff > now,
+          attending: rsvps?.find((rsvp) => rsvp.date === slot.date && rsvp.meal === slot.meal)?.attending,
+        }
+      })
+  })
+
+  if (!student.isActive || upcoming.length === 0) return null
+
+  const handleRSVP = async (date: string, meal: MealKey, attending: boolean, current: boolean | undefined) => {
+    try {
+      // Tapping the current answer again clears it
+      await rsvpMutation.mutateAsync({ date, meal, attending: current === attending ? null : attending })
+    } catch (error: any) {
+      Alert.alert('RSVP', error.message || 'Failed to update RSVP')
+    }
+  }
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <MaterialCommunityIcons name="calendar-check" size={24} color="#7B2CBF" />
+          <Text variant="titleMedium" style={styles.cardTitle}>
+            Upcoming Meals
+          </Text>
+        </View>
+        <Text variant="bodySmall" style={styles.description}>
+          Let the kitchen know if you'll be eating. Answers close {mealSchedule.rsvpCutoffMinutes} minutes before each meal.
+        </Text>
+
+        {upcoming.map(({ date, meal, window, dayLabel, open, attending }) => (
+          <View key={`${date}-${meal}`} style={styles.mealRow}>
+            <MaterialCommunityIcons
+              name={getMealIcon(meal, mealSchedule) as keyof typeof MaterialCommunityIcons.glyphMap}
+              size={22}
+              color="#6B7280"
+            />
+            <View style={styles.mealInfo}>
+              <Text variant="bodyLarge" style={styles.mealName}>
+                {getMealName(meal, mealSchedule)}
+              </Text>
+              <Text variant="bodySmall" style={styles.mealTime}>
+                {dayLabel} • {formatMealTime(window.start)}
+              </Text>
+            </View>
+            {open ? (
+              <View style={styles.choices}>
+                <Chip
+                  compact
+                  selected={attending === true}
+                  showSelectedCheck={false}
+                  onPress={() => handleRSVP(date, meal, true, attending)}
+                  disabled={rsvpMutation.isPending}
+                  style={attending === true ? styles.eatingSelected : styles.choice}
+                  textStyle={attending === true ? styles.choiceTextSelected : undefined}
+                >
+                  Eating
+                </Chip>
+                <Chip
+                  compact
+                  selected={attending === false}
+                  showSelectedCheck={false}
+                  onPress={() => handleRSVP(date, meal, false, attending)}
+                  disabled={rsvpMutation.isPending}
+                  style={attending === false ? styles.skippingSelected : styles.choice}
+                  textStyle={attending === false ? styles.choiceTextSelected : undefined}
+                >
+                  Skipping
+                </Chip>
+              </View>
+            ) : (
+              <Text variant="bodySmall" style={styles.closed}>
+                {attending === true ? 'Eating' : attending === false ? 'Skipping' : 'RSVP closed'}
+              </Text>
+            )}
+          </View>
+        ))}
+      </Card.Content>
+    </Card>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+    elevation: 0,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  description: {
+    color: '#666',
+    marginBottom: 12,
+  },
+  mealRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  mealInfo: {
+    flex: 1,
+  },
+  mealName: {
+    fontWeight: '500',
+    color: '#1A1A1A',
+  },
+  mealTime: {
+    color: '#6B7280',
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  choice: {
+    backgroundColor: '#F3F4F6',
+  },
+  eatingSelected: {
+    backgroundColor: '#10B981',
+  },
+  skippingSelected: {
+    backgroundColor: '#EF4444',
+  },
+  choiceTextSelected: {
+    color: '#FFFFFF',
+  },
+  closed: {
+    color: '#9CA3AF',
+  },
+})
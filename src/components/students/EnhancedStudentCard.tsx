@@ -4,6 +4,7 @@ import { Card, Text, Chip } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { Student } from '@/lib/students'
 import { format, differenceInDays } from 'date-fns'
+import { parsePlanMeals, type MealKey } from '@/lib/meal-schedule'
 
 interface EnhancedStudentCardProps {
   student: Student
@@ -58,12 +59,14 @@ export function EnhancedStudentCard({
 
   // Get meal icons
   const getMealIcons = () => {
-    const meals = student.plan.meals.toLowerCase()
-    const icons = []
-    if (meals.includes('breakfast')) icons.push('🌅')
-    if (meals.includes('lunch')) icons.push('🍽️')
-    if (meals.includes('dinner')) icons.push('🌙')
-    return icons.join(' ')
+    const mealEmojis: Record<MealKey, string> = {
+      breakfast: '🌅',
+      lunch: '🍽️',
+      dinner: '🌙',
+    }
+    return parsePlanMeals(student.plan.meals)
+      .map((meal) => mealEmojis[meal] ?? '🍴')
+      .join(' ')
   }
 
   // Get initials for avatar
@@ -4,13 +4,16 @@ import { Text, TextInput, Button, Card, Snackbar } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { format, addDays } from 'date-fns'
 import { SimpleDatePicker } from '@/components/shared/SimpleDatePicker'
-import type { Student } from '@/lib/students'
+import { PaymentMethodFields } from '@/components/payments/PaymentMethodFields'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { validatePaymentMethodChoice } from '@/lib/payment-methods'
+import type { ExtendPlanData, Student } from '@/lib/students'
 
 interface ExtendPlanModalProps {
   visible: boolean
   onDismiss: () => void
   student: Student | null
-  onExtend: (data: { days: number; startDate: string; paid: number }) => void
+  onExtend: (data: ExtendPlanData) => void
   loading?: boolean
 }
 
@@ -24,7 +27,10 @@ export function ExtendPlanModal({
   const [days, setDays] = useState('30')
   const [startDate, setStartDate] = useState('')
   const [paid, setPaid] = useState('0')
+  const [method, setMethod] = useState('')
+  const [reference, setReference] = useState('')
   const [error, setError] = useState('')
+  const { data: methods } = usePaymentMethods()
   const [showConfirm, setShowConfirm] = useState(false)
 
   // Helper function to format date as YYYY-MM-DD in local timezone
@@ -43,6 +49,8 @@ export function ExtendPlanModal({
       setDays('30')
       setStartDate(formatDateLocal(today))
       setPaid('0')
+      setMethod('')
+      setReference('')
       setError('')
       setShowConfirm(false)
     }
@@ -95,6 +103,13 @@ export function ExtendPlanModal({
       setError('Payment cannot be negative')
       return false
     }
+    if (paidNum > 0) {
+      const methodError = validatePaymentMethodChoice(method, reference, methods)
+      if (methodError) {
+        setError(methodError)
+        return false
+      }
+    }
     setError('')
     return true
   }
@@ -110,6 +125,8 @@ export function ExtendPlanModal({
       days: daysNum,
       startDate: startDate,
       paid: paidNum,
+      method: paidNum > 0 ? method : undefined,
+      reference: paidNum > 0 ? reference.trim() || null : null,
     })
   }
 
@@ -262,6 +279,23 @@ export function ExtendPlanModal({
                 ))}
               </View>
 
+              {/* How the payment was taken */}
+              {paidNum > 0 && (
+                <PaymentMethodFields
+                  method={method}
+                  reference={reference}
+                  onChangeMethod={(value) => {
+                    setMethod(value)
+                    setError('')
+                  }}
+                  onChangeReference={(value) => {
+                    setReference(value)
+                    setError('')
+                  }}
+                  disabled={loading}
+                />
+              )}
+
               {/* Error Message */}
               {error ? (
                 <View style={styles.errorContainer}>
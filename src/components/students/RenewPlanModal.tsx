@@ -1,18 +1,38 @@
 import React, { useState, useEffect, useRef } from 'react'
 import { View, StyleSheet, ScrollView, TouchableOpacity, Modal as RNModal } from 'react-native'
-import { Text, TextInput, Button, Card } from 'react-native-paper'
+import { Text, TextInput, Button, Card, Switch } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { format, addDays } from 'date-fns'
 import { SimpleDatePicker } from '@/components/shared/SimpleDatePicker'
+import { PaymentMethodFields } from '@/components/payments/PaymentMethodFields'
+import { usePaymentMethods } from '@/hooks/usePaymentMethods'
+import { validatePaymentMethodChoice } from '@/lib/payment-methods'
 import type { Student } from '@/lib/students'
 import type { Plan } from '@/hooks/usePlans'
+import {
+  allocateInstallments,
+  splitIntoInstallments,
+  validateInstallments,
+  type InstallmentInput,
+} from '@/lib/installments'
+
+// Installment counts offered; the schedule can be edited after picking one
+const INSTALLMENT_COUNTS = [2, 3, 4]
 
 interface RenewPlanModalProps {
   visible: boolean
   onDismiss: () => void
   student: Student | null
   plans: Plan[]
-  onRenew: (data: { planId: number; paid: number; extendFromCurrent: boolean }) => void
+  onRenew: (data: {
+    planId: number
+    paid: number
+    method?: string
+    reference?: string | null
+    extendFromCurrent: boolean
+    applyCredit: boolean
+    installments: InstallmentInput[]
+  }) => void
   loading?: boolean
 }
 
@@ -26,11 +46,18 @@ export function RenewPlanModal({
 }: RenewPlanModalProps) {
   const [selectedPlanId, setSelectedPlanId] = useState<string>('')
   const [paid, setPaid] = useState('0')
+  const [method, setMethod] = useState('')
+  const [reference, setReference] = useState('')
+  const [applyCredit, setApplyCredit] = useState(true)
   const [startDate, setStartDate] = useState<string>('')
+  const [payInParts, setPayInParts] = useState(false)
+  const [installmentCount, setInstallmentCount] = useState(INSTALLMENT_COUNTS[0])
+  const [installments, setInstallments] = useState<Array<{ dueDate: string; amount: string }>>([])
   const [planDropdownVisible, setPlanDropdownVisible] = useState(false)
   const [error, setError] = useState('')
   const [showConfirm, setShowConfirm] = useState(false)
   const planSelectorRef = useRef<View>(null)
+  const { data: methods } = usePaymentMethods()
 
   // Helper function to format date as YYYY-MM-DD in local timezone
   const formatDateLocal = (date: Date): string => {
@@ -47,13 +74,33 @@ export function RenewPlanModal({
       today.setHours(0, 0, 0, 0)
       setSelectedPlanId('')
       setPaid('0')
+      setMethod('')
+      setReference('')
+      setApplyCredit(true)
       setStartDate(formatDateLocal(today))
+      setPayInParts(false)
+      setInstallmentCount(INSTALLMENT_COUNTS[0])
       setPlanDropdownVisible(false)
       setError('')
       setShowConfirm(false)
     }
   }, [visible, student])
 
+  // A fresh even split whenever the plan, start date or number of parts changes
+  useEffect(() => {
+    const plan = plans.find((p) => p.id.toString() === selectedPlanId)
+    if (!payInParts || !plan || !startDate) {
+      setInstallments([])
+      return
+    }
+    setInstallments(
+      splitIntoInstallments(plan.price, installmentCount, startDate, plan.durationDays).map((installment) => ({
+        dueDate: installment.dueDate,
+        amount: String(installment.amount),
+      }))
+    )
+  }, [payInParts, installmentCount, selectedPlanId, startDate, plans])
+
   if (!student) return null
 
   const selectedPlan = plans.find(p => p.id.toString() === selectedPlanId)
@@ -110,10 +157,24 @@ export function RenewPlanModal({
       setError('Payment cannot be negative')
       return false
     }
+    if (paidNum > 0) {
+      const methodError = validatePaymentMethodChoice(method, reference, methods)
+      if (methodError) {
+        setError(methodError)
+        return false
+      }
+    }
     if (startDate && new Date(startDate) < today) {
       setError('Start date cannot be in the past')
       return false
     }
+    if (payInParts && selectedPlan) {
+      const installmentError = validateInstallments(parsedInstallments, selectedPlan.price, selectedPlan.durationDays)
+      if (installmentError) {
+        setError(installmentError)
+        return false
+      }
+    }
     setError('')
     return true
   }
@@ -128,7 +189,11 @@ export function RenewPlanModal({
     onRenew({
       planId: parseInt(selectedPlanId),
       paid: paidNum,
+      method: paidNum > 0 ? method : undefined,
+      reference: paidNum > 0 ? reference.trim() || null : null,
       extendFromCurrent,
+      applyCredit,
+      installments: payInParts ? parsedInstallments : [],
     })
   }
 
@@ -136,7 +201,27 @@ export function RenewPlanModal({
   const availablePlans = plans.filter(p => p.id !== student.planId)
 
   const totalAmount = selectedPlan ? selectedPlan.price : 0
-  const balanceAfterPayment = totalAmount - paidNum
+  // Credit from earlier terms covers what the payment doesn't
+  const availableCredit = Number(student.credit || 0)
+  const creditApplied = applyCredit ? Math.min(availableCredit, Math.max(totalAmount - paidNum, 0)) : 0
+  const balanceAfterPayment = totalAmount - paidNum - creditApplied
+
+  const parsedInstallments: InstallmentInput[] = installments.map((installment) => ({
+    dueDate: installment.dueDate,
+    amount: parseFloat(installment.amount) || 0,
+  }))
+  // What the payment and credit now cover, earliest installment first
+  const coveredNow = allocateInstallments(
+    parsedInstallments.map((installment, index) => ({ ...installment, index })),
+    paidNum + creditApplied
+  )
+
+  const updateInstallment = (index: number, updates: Partial<{ dueDate: string; amount: string }>) => {
+    setInstallments((current) =>
+      current.map((installment, i) => (i === index ? { ...installment, ...updates } : installment))
+    )
+    setError('')
+  }
 
   return (
     <>
@@ -363,6 +448,117 @@ export function RenewPlanModal({
                 ))}
               </View>
 
+              {/* How the payment was taken */}
+              {paidNum > 0 && (
+                <PaymentMethodFields
+                  method={method}
+                  reference={reference}
+                  onChangeMethod={(value) => {
+                    setMethod(value)
+                    setError('')
+                  }}
+                  onChangeReference={(value) => {
+                    setReference(value)
+                    setError('')
+                  }}
+                  disabled={loading}
+                />
+              )}
+
+              {/* Credit carried forward */}
+              {availableCredit > 0 && (
+                <View style={styles.creditRow}>
+                  <Text variant="bodySmall" style={styles.creditText}>
+                    Use ₹{availableCredit.toFixed(2)} credit towards this term
+                  </Text>
+                  <Switch
+                    value={applyCredit}
+                    onValueChange={setApplyCredit}
+                    color="#7B2CBF"
+                    disabled={loading}
+                  />
+                </View>
+              )}
+
+              {/* Installments */}
+              {selectedPlan && (
+                <View style={styles.creditRow}>
+                  <Text variant="bodySmall" style={styles.installmentToggleText}>
+                    Pay in installments
+                  </Text>
+                  <Switch
+                    value={payInParts}
+                    onValueChange={(value) => {
+                      setPayInParts(value)
+                      setError('')
+                    }}
+                    color="#7B2CBF"
+                    disabled={loading}
+                  />
+                </View>
+              )}
+              {payInParts && selectedPlan && (
+                <View style={styles.installments}>
+                  <View style={styles.quickButtons}>
+                    {INSTALLMENT_COUNTS.map((count) => (
+                      <TouchableOpacity
+                        key={count}
+                        onPress={() => {
+                          setInstallmentCount(count)
+                          setError('')
+                        }}
+                        disabled={loading}
+                        style={[
+                          styles.quickButtonTouchable,
+                          installmentCount === count && styles.quickButtonSelected
+                        ]}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[
+                          styles.quickButtonText,
+                          installmentCount === count && styles.quickButtonTextSelected
+                        ]}>
+                          {count} parts
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  {installments.map((installment, index) => {
+                    const covered = coveredNow.find((allocated) => allocated.index === index && allocated.paid > 0)
+                    return (
+                      <View key={index} style={styles.inputRow}>
+                        <View style={styles.inputGroup}>
+                          <Text variant="labelMedium" style={styles.label}>
+                            Installment {index + 1} due
+                          </Text>
+                          <SimpleDatePicker
+                            value={installment.dueDate}
+                            onChange={(dueDate) => updateInstallment(index, { dueDate })}
+                            label="Due Date"
+                            minimumDate={startDateObj}
+                          />
+                        </View>
+                        <View style={styles.inputGroup}>
+                          <Text variant="labelMedium" style={styles.label}>
+                            {covered ? `Amount (₹${covered.paid.toFixed(0)} paid now)` : 'Amount (₹)'}
+                          </Text>
+                          <TextInput
+                            mode="outlined"
+                            value={installment.amount}
+                            onChangeText={(text) => updateInstallment(index, { amount: text.replace(/[^0-9.]/g, '') })}
+                            keyboardType="decimal-pad"
+                            style={styles.input}
+                            contentStyle={styles.inputContent}
+                            left={<TextInput.Icon icon="currency-inr" size={18} />}
+                            disabled={loading}
+                          />
+                        </View>
+                      </View>
+                    )
+                  })}
+                </View>
+              )}
+
               {/* Error Message */}
               {error ? (
                 <View style={styles.errorContainer}>
@@ -392,6 +588,26 @@ export function RenewPlanModal({
                       {format(newEndDate, 'dd MMM yyyy')}
                     </Text>
                   </View>
+                  {creditApplied > 0 && (
+                    <View style={styles.summaryRow}>
+                      <Text variant="bodySmall" style={styles.summaryLabel}>
+                        Credit Applied:
+                      </Text>
+                      <Text variant="bodySmall" style={styles.summaryValue}>
+                        −₹{creditApplied.toFixed(2)}
+                      </Text>
+                    </View>
+                  )}
+                  {payInParts && installments.length > 0 && (
+                    <View style={styles.summaryRow}>
+                      <Text variant="bodySmall" style={styles.summaryLabel}>
+                        Installments:
+                      </Text>
+                      <Text variant="bodySmall" style={styles.summaryValue}>
+                        {installments.length}, last due {format(new Date(installments[installments.length - 1].dueDate), 'dd MMM yyyy')}
+                      </Text>
+                    </View>
+                  )}
                   {balanceAfterPayment > 0 && (
                     <View style={styles.summaryRow}>
                       <Text variant="bodySmall" style={styles.balanceLabel}>
@@ -779,6 +995,24 @@ const styles = StyleSheet.create({
     color: '#7B2CBF',
     fontSize: 12,
   },
+  creditRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  creditText: {
+    flex: 1,
+    color: '#10B981',
+  },
+  installmentToggleText: {
+    flex: 1,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  installments: {
+    marginBottom: 8,
+  },
   balanceLabel: {
     color: '#374151',
     fontWeight: '600',
@@ -0,0 +1,201 @@
+import React, { useState } from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Text, ActivityIndicator, Button } from 'react-native-paper'
+import { format, parseISO } from 'date-fns'
+import { useSubscriptionPeriods, useInstallments, useSetPeriodInstallments } from '@/hooks/useStudents'
+import { useShareInvoice } from '@/hooks/useBilling'
+import { getPeriodDue, SUBSCRIPTION_PERIOD_KIND_LABELS, type SubscriptionPeriod } from '@/lib/subscriptions'
+import type { InstallmentInput } from '@/lib/installments'
+import { InstallmentScheduleDialog } from '@/components/payments/InstallmentScheduleDialog'
+
+interface SubscriptionHistoryListProps {
+  studentId: number
+  onMessage?: (message: string) => void
+}
+
+const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+/**
+ * Every plan term for a student, newest first, with what's still owed on
+ * each. A term's price can be split into installments from here.
+ */
+export function SubscriptionHistoryList({ studentId, onMessage }: SubscriptionHistoryListProps) {
+  const { data: periods, isLoading, error } = useSubscriptionPeriods(studentId)
+  const { data: installments } = useInstallments(studentId)
+  const shareInvoice = useShareInvoice()
+  const setInstallments = useSetPeriodInstallments()
+  const [schedulePeriod, setSchedulePeriod] = useState<SubscriptionPeriod | null>(null)
+
+  const handleSaveInstallments = async (schedule: InstallmentInput[]) => {
+    if (!schedulePeriod) return
+    try {
+      await setInstallments.mutateAsync({ periodId: schedulePeriod.id, studentId, installments: schedule })
+      setSchedulePeriod(null)
+      onMessage?.(schedule.length > 0 ? 'Installments saved' : 'Installments removed')
+    } catch (saveError: any) {
+      onMessage?.(saveError?.message || 'Failed to save installments')
+    }
+  }
+
+  const handleShareInvoice = async (periodId: number) => {
+    try {
+      await shareInvoice.mutateAsync(periodId)
+    } catch (shareError: any) {
+      onMessage?.(shareError?.message || 'Failed to share invoice')
+    }
+  }
+
+  if (isLoading) {
+    return <ActivityIndicator style={styles.loading} color="#7B2CBF" />
+  }
+
+  if (error) {
+    return (
+      <Text variant="bodySmall" style={styles.error}>
+        {(error as Error).message || 'Failed to load plan history'}
+      </Text>
+    )
+  }
+
+  if (!periods || periods.length === 0) {
+    return (
+      <Text variant="bodySmall" style={styles.muted}>
+        No plan terms recorded
+      </Text>
+    )
+  }
+
+  const earlierDue = periods.slice(1).reduce((sum, period) => sum + getPeriodDue(period), 0)
+
+  return (
+    <View>
+      {earlierDue > 0 && (
+        <Text variant="bodySmall" style={styles.carried}>
+          {formatCurrency(earlierDue)} still owed from earlier terms
+        </Text>
+      )}
+      {periods.map((period, index) => {
+        const due = getPeriodDue(period)
+        const parts = (installments || []).filter((installment) => installment.periodId === period.id).length
+
+        return (
+          <View key={period.id} style={styles.entry}>
+            <View style={styles.headerRow}>
+              <Text variant="bodyMedium" style={styles.planName}>
+                {period.plan?.name || 'Plan'}
+              </Text>
+              {index === 0 && (
+                <Text variant="labelSmall" style={styles.currentTag}>
+                  Current
+                </Text>
+              )}
+            </View>
+            <Text variant="bodySmall" style={styles.muted}>
+              {SUBSCRIPTION_PERIOD_KIND_LABELS[period.kind]} • {formatDate(period.startDate)} – {formatDate(period.endDate)}
+              {period.extendedDays > 0 ? ` (extended ${period.extendedDays} days)` : ''}
+            </Text>
+            <Text variant="bodySmall" style={styles.amounts}>
+              Price {formatCurrency(period.price)} • Paid {formatCurrency(period.paid)}
+              {due > 0 ? ' • ' : ''}
+              {due > 0 && <Text style={styles.due}>Due {formatCurrency(due)}</Text>}
+            </Text>
+            <View style={styles.invoiceRow}>
+              <Text variant="bodySmall" style={styles.muted}>
+                {period.invoiceNumber ? `Invoice ${period.invoiceNumber}` : 'No invoice number'}
+              </Text>
+              <View style={styles.actions}>
+                {period.price > 0 && (
+                  <Button
+                    mode="text"
+                    icon="calendar-clock"
+                    onPress={() => setSchedulePeriod(period)}
+                    textColor="#7B2CBF"
+                    compact
+                  >
+                    {parts > 0 ? `${parts} parts` : 'Installments'}
+                  </Button>
+                )}
+                <Button
+                  mode="text"
+                  icon="file-pdf-box"
+                  onPress={() => handleShareInvoice(period.id)}
+                  loading={shareInvoice.isPending && shareInvoice.variables === period.id}
+                  disabled={shareInvoice.isPending}
+                  textColor="#7B2CBF"
+                  compact
+                >
+                  Invoice
+                </Button>
+              </View>
+            </View>
+          </View>
+        )
+      })}
+
+      <InstallmentScheduleDialog
+        visible={!!schedulePeriod}
+        period={schedulePeriod}
+        current={(installments || []).filter((installment) => installment.periodId === schedulePeriod?.id)}
+        onSave={handleSaveInstallments}
+        onCancel={() => setSchedulePeriod(null)}
+        loading={setInstallments.isPending}
+      />
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 16,
+  },
+  error: {
+    color: '#EF4444',
+  },
+  muted: {
+    color: '#666',
+  },
+  carried: {
+    color: '#EF4444',
+    marginBottom: 4,
+  },
+  entry: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    gap: 2,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  planName: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  currentTag: {
+    color: '#7B2CBF',
+    backgroundColor: '#F3E8FF',
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  amounts: {
+    color: '#1A1A1A',
+  },
+  due: {
+    color: '#EF4444',
+  },
+  invoiceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+})
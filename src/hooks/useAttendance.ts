@@ -10,6 +10,11 @@ import {
   type AttendanceView,
   type AttendanceStats,
 } from '@/lib/attendance'
+import { getRecentScans, type RecentScan } from '@/lib/attendance-tracking'
+import { getAttendanceChanges } from '@/lib/attendance-history'
+import { applyAttendanceImport, type AttendanceImportRow } from '@/lib/attendance-import'
+import type { MealKey } from '@/lib/meal-schedule'
+import { markAttendanceWithPin } from '@/lib/qr-attendance'
 
 /**
  * Hook to get attendance statistics for a date
@@ -27,7 +32,7 @@ export function useAttendanceStats(date: string) {
  */
 export function useAttendanceView(
   date: string,
-  meal?: 'breakfast' | 'lunch' | 'dinner'
+  meal?: MealKey
 ) {
   return useQuery<AttendanceView>({
     queryKey: ['attendance-view', date, meal],
@@ -36,6 +41,19 @@ export function useAttendanceView(
   })
 }
 
+/**
+ * Hook to poll the latest students marked for a meal (kiosk live list)
+ */
+export function useRecentScans(meal: MealKey | null) {
+  return useQuery<RecentScan[]>({
+    queryKey: ['recent-scans', meal],
+    queryFn: () => getRecentScans(meal!),
+    enabled: !!meal,
+    refetchInterval: 5000, // 5 seconds
+    refetchIntervalInBackground: true,
+  })
+}
+
 /**
  * Hook to mark attendance
  */
@@ -54,17 +72,28 @@ export function useMarkAttendance() {
       if (result.success) {
         // Invalidate related queries
         queryClient.invalidateQueries({ queryKey: ['attendance-stats', variables.date] })
+        // Prefix match also covers the meal-specific views
         queryClient.invalidateQueries({ queryKey: ['attendance-view', variables.date] })
-        // Also invalidate any meal-specific queries
-        if (variables.breakfast !== undefined) {
-          queryClient.invalidateQueries({ queryKey: ['attendance-view', variables.date, 'breakfast'] })
-        }
-        if (variables.lunch !== undefined) {
-          queryClient.invalidateQueries({ queryKey: ['attendance-view', variables.date, 'lunch'] })
-        }
-        if (variables.dinner !== undefined) {
-          queryClient.invalidateQueries({ queryKey: ['attendance-view', variables.date, 'dinner'] })
-        }
+        queryClient.invalidateQueries({ queryKey: ['attendance-changes', variables.studentId] })
+      }
+    },
+  })
+}
+
+/**
+ * Hook to mark the current meal from the roll number + PIN pad
+ */
+export function useMarkAttendanceWithPin() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ rollNumber, pin }: { rollNumber: string; pin: string }) =>
+      markAttendanceWithPin(rollNumber, pin),
+    onSuccess: (result) => {
+      if (result.success && !result.alreadyMarked) {
+        queryClient.invalidateQueries({ queryKey: ['recent-scans'] })
+        queryClient.invalidateQueries({ queryKey: ['attendance-stats'] })
+        queryClient.invalidateQueries({ queryKey: ['attendance-view'] })
       }
     },
   })
@@ -81,12 +110,14 @@ export function useMarkBulkAttendance() {
       studentIds,
       date,
       meal,
+      reason,
     }: {
       studentIds: number[]
       date: string
-      meal: 'breakfast' | 'lunch' | 'dinner'
+      meal: MealKey
+      reason: string
     }) => {
-      const result = await markBulkAttendance(studentIds, date, meal)
+      const result = await markBulkAttendance(studentIds, date, meal, reason)
       if (!result.success && result.error) {
         throw result.error
       }
@@ -98,6 +129,7 @@ export function useMarkBulkAttendance() {
         queryClient.invalidateQueries({ queryKey: ['attendance-stats', variables.date] })
         queryClient.invalidateQueries({ queryKey: ['attendance-view', variables.date, variables.meal] })
         queryClient.invalidateQueries({ queryKey: ['attendance-view', variables.date] })
+        queryClient.invalidateQueries({ queryKey: ['attendance-changes'] })
       }
     },
   })
@@ -113,11 +145,13 @@ export function useUpdateAttendance() {
     mutationFn: async ({
       id,
       data,
+      reason,
     }: {
       id: number
-      data: { breakfast?: boolean; lunch?: boolean; dinner?: boolean }
+      data: Partial<Record<MealKey, boolean>>
+      reason: string
     }) => {
-      const result = await updateAttendance(id, data)
+      const result = await updateAttendance(id, data, reason)
       if (!result.success && result.error) {
         throw result.error
       }
@@ -129,6 +163,7 @@ export function useUpdateAttendance() {
         queryClient.invalidateQueries({ queryKey: ['attendance'] })
         queryClient.invalidateQueries({ queryKey: ['attendance-stats'] })
         queryClient.invalidateQueries({ queryKey: ['attendance-view'] })
+        queryClient.invalidateQueries({ queryKey: ['attendance-changes'] })
       }
     },
   })
@@ -141,8 +176,8 @@ export function useDeleteAttendance() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: async ({ id, date }: { id: number; date?: string }) => {
-      const result = await deleteAttendance(id)
+    mutationFn: async ({ id, date, reason }: { id: number; date?: string; reason: string }) => {
+      const result = await deleteAttendance(id, reason)
       if (!result.success && result.error) {
         throw result.error
       }
@@ -153,6 +188,7 @@ export function useDeleteAttendance() {
       queryClient.invalidateQueries({ queryKey: ['attendance'] })
       queryClient.invalidateQueries({ queryKey: ['attendance-stats'] })
       queryClient.invalidateQueries({ queryKey: ['attendance-view'] })
+      queryClient.invalidateQueries({ queryKey: ['attendance-changes'] })
       
       // If date is provided, also invalidate specific date queries
       if (variables.date) {
@@ -166,3 +202,45 @@ export function useDeleteAttendance() {
   })
 }
 
+/**
+ * Hook to apply a previewed attendance import
+ */
+export function useImportAttendance() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ rows, reason }: { rows: AttendanceImportRow[]; reason: string }) => {
+      const result = await applyAttendanceImport(rows, reason)
+      if (result.error) {
+        throw result.error
+      }
+      return result.changed
+    },
+    onSuccess: () => {
+      // Imports can touch any day, so invalidate everything attendance-related
+      queryClient.invalidateQueries({ queryKey: ['attendance'] })
+      queryClient.invalidateQueries({ queryKey: ['attendance-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['attendance-view'] })
+      queryClient.invalidateQueries({ queryKey: ['attendance-changes'] })
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+    },
+  })
+}
+
+/**
+ * Hook to fetch the logged changes for a student, optionally for one day
+ */
+export function useAttendanceChanges(studentId: number | undefined, date?: string) {
+  return useQuery({
+    queryKey: ['attendance-changes', studentId, date],
+    queryFn: async () => {
+      const result = await getAttendanceChanges({ studentId: studentId!, date })
+      if (result.error) {
+        throw result.error
+      }
+      return result.changes
+    },
+    enabled: !!studentId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
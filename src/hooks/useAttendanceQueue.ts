@@ -0,0 +1,94 @@
+import { useEffect } from 'react'
+import { Alert, AppState } from 'react-native'
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { getPendingScans, type QueuedScan } from '@/lib/attendance-queue'
+import { syncPendingScans, type SyncedScan } from '@/lib/qr-attendance'
+import { getMealName } from '@/lib/meal-schedule'
+import { logger } from '@/lib/logger'
+
+const SYNC_RETRY_INTERVAL = 30 * 1000 // 30 seconds
+
+// Tell the student what the server decided for each scan saved offline
+function showSyncedScans(synced: SyncedScan[]) {
+  const lines = synced.map(({ scan, result }) => {
+    const when = format(new Date(scan.scannedAt), 'MMM d, h:mm a')
+    return result.success
+      ? `✓ ${when}: ${result.meal ? getMealName(result.meal) : 'Attendance'} marked`
+      : `✗ ${when}: ${result.message.split('\n')[0]}`
+  })
+
+  Alert.alert('Offline Scans Synced', lines.join('\n'), [{ text: 'OK' }])
+}
+
+async function syncAndRefresh(userId: string, queryClient: QueryClient): Promise<SyncedScan[]> {
+  const synced = await syncPendingScans(userId)
+  await queryClient.invalidateQueries({ queryKey: ['pending-scans', userId] })
+
+  if (synced.length > 0) {
+    await queryClient.invalidateQueries({ queryKey: ['today-attendance'] })
+    await queryClient.invalidateQueries({ queryKey: ['attendance-history'] })
+    showSyncedScans(synced)
+  }
+
+  return synced
+}
+
+/**
+ * Hook to fetch scans saved offline that haven't been synced yet
+ */
+export function usePendingScans(userId: string | undefined) {
+  return useQuery<QueuedScan[], Error>({
+    queryKey: ['pending-scans', userId],
+    queryFn: () => getPendingScans(userId!),
+    enabled: !!userId,
+    staleTime: 0,
+  })
+}
+
+/**
+ * Hook to sync pending scans on demand (e.g. a "Sync Now" button)
+ */
+export function useSyncPendingScans() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (userId: string) => syncAndRefresh(userId, queryClient),
+  })
+}
+
+/**
+ * Keeps trying to sync queued scans: on mount, whenever the app comes
+ * back to the foreground, and every 30 seconds while any are pending
+ */
+export function useAttendanceQueueSync(userId: string | undefined) {
+  const queryClient = useQueryClient()
+  const { data: pendingScans } = usePendingScans(userId)
+  const hasPending = (pendingScans?.length ?? 0) > 0
+
+  useEffect(() => {
+    if (!userId) return
+
+    // A failed run leaves the scans queued for the next attempt
+    const sync = () => {
+      syncAndRefresh(userId, queryClient).catch((error) => {
+        logger.error('Error syncing queued attendance scans', error as Error)
+      })
+    }
+
+    sync()
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        sync()
+      }
+    })
+
+    const interval = hasPending ? setInterval(sync, SYNC_RETRY_INTERVAL) : null
+
+    return () => {
+      subscription.remove()
+      if (interval) clearInterval(interval)
+    }
+  }, [userId, hasPending, queryClient])
+}
@@ -0,0 +1,71 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getBillingSettings,
+  updateBillingSettings,
+  shareInvoice,
+  shareReceipt,
+  DEFAULT_BILLING_SETTINGS,
+  type BillingSettings,
+} from '@/lib/billing'
+
+/**
+ * Hook to fetch the mess details and numbering used on invoices and receipts
+ */
+export function useBillingSettings() {
+  return useQuery<BillingSettings, Error>({
+    queryKey: ['billing-settings'],
+    queryFn: getBillingSettings,
+    placeholderData: DEFAULT_BILLING_SETTINGS,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+/**
+ * Hook to save the billing settings
+ */
+export function useUpdateBillingSettings() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (settings: BillingSettings) => {
+      const result = await updateBillingSettings(settings)
+      if (result.error) {
+        throw result.error
+      }
+      return result.settings
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['billing-settings'], settings)
+    },
+  })
+}
+
+/**
+ * Hook to share a plan term's invoice as a PDF
+ */
+export function useShareInvoice() {
+  return useMutation({
+    mutationFn: async (periodId: number) => {
+      const result = await shareInvoice(periodId)
+      if (result.error) {
+        throw result.error
+      }
+      return result
+    },
+  })
+}
+
+/**
+ * Hook to share a payment's receipt as a PDF
+ */
+export function useShareReceipt() {
+  return useMutation({
+    mutationFn: async (paymentId: number) => {
+      const result = await shareReceipt(paymentId)
+      if (result.error) {
+        throw result.error
+      }
+      return result
+    },
+  })
+}
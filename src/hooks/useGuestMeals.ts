@@ -0,0 +1,89 @@
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
+import {
+  getGuestMeals,
+  getGuestMealRates,
+  recordGuestMeal,
+  deleteGuestMeal,
+  type GuestMealRates,
+  type RecordGuestMealInput,
+} from '@/lib/guest-meals'
+
+// Guest meals change balances and daily meal counts
+const invalidateGuestMealQueries = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: ['guest-meals'] })
+  queryClient.invalidateQueries({ queryKey: ['students'] })
+  queryClient.invalidateQueries({ queryKey: ['student'] })
+  queryClient.invalidateQueries({ queryKey: ['ledger'] })
+  queryClient.invalidateQueries({ queryKey: ['attendance-stats'] })
+  queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+}
+
+/**
+ * Hook to fetch guest meals for a day and/or a host student
+ */
+export function useGuestMeals(params: { date?: string; studentId?: number } = {}, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['guest-meals', params],
+    queryFn: async () => {
+      const result = await getGuestMeals(params)
+      if (result.error) {
+        throw result.error
+      }
+      return result.guestMeals
+    },
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook to fetch the default guest rate for each meal
+ */
+export function useGuestMealRates() {
+  return useQuery<GuestMealRates, Error>({
+    queryKey: ['guest-meal-rates'],
+    queryFn: getGuestMealRates,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+/**
+ * Hook to record guest meals against a student
+ */
+export function useRecordGuestMeal() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: RecordGuestMealInput) => {
+      const result = await recordGuestMeal(input)
+      if (result.error) {
+        throw result.error
+      }
+      return result.guestMeal
+    },
+    onSuccess: () => {
+      invalidateGuestMealQueries(queryClient)
+      queryClient.invalidateQueries({ queryKey: ['guest-meal-rates'] })
+    },
+  })
+}
+
+/**
+ * Hook to delete a guest meal
+ */
+export function useDeleteGuestMeal() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (guestMealId: number) => {
+      const result = await deleteGuestMeal(guestMealId)
+      if (!result.success && result.error) {
+        throw result.error
+      }
+      return result
+    },
+    onSuccess: () => {
+      invalidateGuestMealQueries(queryClient)
+    },
+  })
+}
@@ -0,0 +1,125 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getLateFeeRules,
+  updateLateFeeRules,
+  getLateFees,
+  getLatestLateFeeRun,
+  runLateFees,
+  waiveLateFee,
+  type LateFeeRule,
+} from '@/lib/late-fees'
+
+/**
+ * Hook to fetch the late fee rules
+ */
+export function useLateFeeRules() {
+  return useQuery<LateFeeRule[], Error>({
+    queryKey: ['late-fee-rules'],
+    queryFn: getLateFeeRules,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+/**
+ * Hook to save the late fee rules
+ */
+export function useUpdateLateFeeRules() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (rules: LateFeeRule[]) => {
+      const result = await updateLateFeeRules(rules)
+      if (result.error) {
+        throw result.error
+      }
+      return result.rules
+    },
+    onSuccess: (rules) => {
+      queryClient.setQueryData(['late-fee-rules'], rules)
+    },
+  })
+}
+
+/**
+ * Hook to fetch the late fees charged to a student
+ */
+export function useLateFees(studentId: number | undefined) {
+  return useQuery({
+    queryKey: ['late-fees', studentId],
+    queryFn: async () => {
+      const result = await getLateFees(studentId!)
+      if (result.error) {
+        throw result.error
+      }
+      return result.lateFees
+    },
+    enabled: !!studentId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook to fetch the most recent late fee run
+ */
+export function useLatestLateFeeRun() {
+  return useQuery({
+    queryKey: ['late-fee-run'],
+    queryFn: async () => {
+      const result = await getLatestLateFeeRun()
+      if (result.error) {
+        throw result.error
+      }
+      return result.run
+    },
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+/**
+ * Hook to charge late fees now
+ */
+export function useRunLateFees() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async () => {
+      const result = await runLateFees()
+      if (result.error) {
+        throw result.error
+      }
+      return result.run
+    },
+    onSuccess: (run) => {
+      queryClient.setQueryData(['late-fee-run'], run)
+      queryClient.invalidateQueries({ queryKey: ['late-fees'] })
+      queryClient.invalidateQueries({ queryKey: ['ledger'] })
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['student-stats'] })
+    },
+  })
+}
+
+/**
+ * Hook to waive a late fee with a reason
+ */
+export function useWaiveLateFee() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ lateFeeId, reason }: { lateFeeId: number; studentId: number; reason: string }) => {
+      const result = await waiveLateFee(lateFeeId, reason)
+      if (result.error) {
+        throw result.error
+      }
+      return result.success
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['late-fees', variables.studentId] })
+      queryClient.invalidateQueries({ queryKey: ['ledger', variables.studentId] })
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['student-stats'] })
+    },
+  })
+}
@@ -0,0 +1,134 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getLeavePolicy,
+  updateLeavePolicy,
+  getLeaveRequests,
+  requestLeave,
+  reviewLeaveRequest,
+  cancelLeaveRequest,
+  DEFAULT_LEAVE_POLICY,
+  type LeavePolicy,
+  type LeaveStatus,
+} from '@/lib/leave'
+
+/**
+ * Hook to fetch the leave policy
+ */
+export function useLeavePolicy() {
+  return useQuery<LeavePolicy, Error>({
+    queryKey: ['leave-policy'],
+    queryFn: getLeavePolicy,
+    placeholderData: DEFAULT_LEAVE_POLICY,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+/**
+ * Hook to save the leave policy
+ */
+export function useUpdateLeavePolicy() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (policy: LeavePolicy) => {
+      const result = await updateLeavePolicy(policy)
+      if (result.error) {
+        throw result.error
+      }
+      return result.policy
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(['leave-policy'], policy)
+    },
+  })
+}
+
+/**
+ * Hook to fetch leave requests
+ */
+export function useLeaveRequests(params: { status?: LeaveStatus; studentId?: number } = {}) {
+  return useQuery({
+    queryKey: ['leave-requests', params],
+    queryFn: async () => {
+      const result = await getLeaveRequests(params)
+      if (result.error) {
+        throw result.error
+      }
+      return result.leaveRequests
+    },
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook for a student to request leave
+ */
+export function useRequestLeave() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: { startDate: string; endDate: string; reason?: string }) => {
+      const result = await requestLeave(data)
+      if (result.error) {
+        throw result.error
+      }
+      return result.leaveRequest
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave-requests'] })
+    },
+  })
+}
+
+/**
+ * Hook to approve or reject a leave request
+ */
+export function useReviewLeaveRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      decision,
+      note,
+    }: {
+      id: number
+      decision: 'approved' | 'rejected'
+      note?: string
+    }) => {
+      const result = await reviewLeaveRequest(id, decision, note)
+      if (result.error) {
+        throw result.error
+      }
+      return result.leaveRequest
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave-requests'] })
+      // Approval extends the plan and changes who is expected at meals
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['attendance-view'] })
+      queryClient.invalidateQueries({ queryKey: ['attendance-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+    },
+  })
+}
+
+/**
+ * Hook to withdraw a pending leave request
+ */
+export function useCancelLeaveRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const result = await cancelLeaveRequest(id)
+      if (result.error) {
+        throw result.error
+      }
+      return result.success
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave-requests'] })
+    },
+  })
+}
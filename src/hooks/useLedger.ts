@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getLedgerEntries,
+  addLedgerAdjustment,
+  exportStatement,
+  type LedgerAdjustmentData,
+  type StatementRange,
+} from '@/lib/ledger'
+
+/**
+ * Hook to fetch a student's ledger, oldest first
+ */
+export function useLedger(studentId: number | undefined) {
+  return useQuery({
+    queryKey: ['ledger', studentId],
+    queryFn: async () => {
+      const result = await getLedgerEntries(studentId!)
+      if (result.error) {
+        throw result.error
+      }
+      return result.entries
+    },
+    enabled: !!studentId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook to charge a fee or give a discount
+ */
+export function useAddLedgerAdjustment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: LedgerAdjustmentData) => {
+      const result = await addLedgerAdjustment(data)
+      if (result.error) {
+        throw result.error
+      }
+      return result.success
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['ledger', variables.studentId] })
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['student-stats'] })
+    },
+  })
+}
+
+/**
+ * Hook to export a student's statement as a PDF
+ */
+export function useExportStatement() {
+  return useMutation({
+    mutationFn: async ({
+      student,
+      range,
+    }: {
+      student: { id: number; name: string; rollNumber: string | null }
+      range?: StatementRange
+    }) => {
+      const result = await exportStatement(student, range)
+      if (result.error) {
+        throw result.error
+      }
+      return result
+    },
+  })
+}
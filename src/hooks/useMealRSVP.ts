@@ -0,0 +1,62 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getStudentRSVPs, setMealRSVP } from '@/lib/meal-rsvp'
+import { getMealForecast, type DayForecast } from '@/lib/meal-forecast'
+import type { MealKey } from '@/lib/meal-schedule'
+
+/**
+ * Hook to fetch a student's RSVPs for upcoming days
+ */
+export function useStudentRSVPs(studentId: number | undefined, from: string, to: string) {
+  return useQuery({
+    queryKey: ['meal-rsvps', studentId, from, to],
+    queryFn: async () => {
+      const result = await getStudentRSVPs(studentId!, from, to)
+      if (result.error) {
+        throw result.error
+      }
+      return result.rsvps
+    },
+    enabled: !!studentId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook to confirm, opt out of or clear an RSVP
+ */
+export function useSetMealRSVP() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      date,
+      meal,
+      attending,
+    }: {
+      date: string
+      meal: MealKey
+      attending: boolean | null
+    }) => {
+      const result = await setMealRSVP(date, meal, attending)
+      if (result.error) {
+        throw result.error
+      }
+      return result.rsvp
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['meal-rsvps'] })
+      queryClient.invalidateQueries({ queryKey: ['meal-forecast'] })
+    },
+  })
+}
+
+/**
+ * Hook to fetch the kitchen headcount forecast
+ */
+export function useMealForecast(days: number = 3) {
+  return useQuery<DayForecast[]>({
+    queryKey: ['meal-forecast', days],
+    queryFn: () => getMealForecast(days),
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
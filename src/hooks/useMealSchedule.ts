@@ -0,0 +1,44 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getMealSchedule,
+  getCachedMealSchedule,
+  updateMealSchedule,
+  type MealSchedule,
+} from '@/lib/meal-schedule'
+
+/**
+ * Hook to fetch the meal schedule
+ * Starts from the cached/default schedule so callers always have one
+ */
+export function useMealSchedule() {
+  return useQuery<MealSchedule, Error>({
+    queryKey: ['meal-schedule'],
+    queryFn: getMealSchedule,
+    initialData: getCachedMealSchedule,
+    initialDataUpdatedAt: 0, // Always refetch on first use
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+/**
+ * Hook to save the meal schedule
+ */
+export function useUpdateMealSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (schedule: MealSchedule) => {
+      const result = await updateMealSchedule(schedule)
+      if (result.error) {
+        throw result.error
+      }
+      return result.schedule
+    },
+    onSuccess: (schedule) => {
+      queryClient.setQueryData(['meal-schedule'], schedule)
+      // Current meal banners depend on the schedule
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      queryClient.invalidateQueries({ queryKey: ['attendance-view'] })
+    },
+  })
+}
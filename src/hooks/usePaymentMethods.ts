@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getPaymentMethods,
+  getCachedPaymentMethods,
+  updatePaymentMethods,
+  type PaymentMethod,
+} from '@/lib/payment-methods'
+
+/**
+ * Hook to fetch the payment methods
+ * Starts from the cached/default methods so callers always have some
+ */
+export function usePaymentMethods() {
+  return useQuery<PaymentMethod[], Error>({
+    queryKey: ['payment-methods'],
+    queryFn: getPaymentMethods,
+    initialData: getCachedPaymentMethods,
+    initialDataUpdatedAt: 0, // Always refetch on first use
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+/**
+ * Hook to save the payment methods
+ */
+export function useUpdatePaymentMethods() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (methods: PaymentMethod[]) => {
+      const result = await updatePaymentMethods(methods)
+      if (result.error) {
+        throw result.error
+      }
+      return result.methods
+    },
+    onSuccess: (methods) => {
+      queryClient.setQueryData(['payment-methods'], methods)
+      // Stats group amounts by method
+      queryClient.invalidateQueries({ queryKey: ['payment-stats'] })
+    },
+  })
+}
@@ -12,6 +12,7 @@ import {
   type UpdatePaymentData,
   type GetPaymentsParams,
 } from '@/lib/payments'
+import { applyStatementImport, type StatementImportPreview } from '@/lib/statement-import'
 
 /**
  * Hook to get payments with filters
@@ -84,6 +85,9 @@ export function useCreatePayment() {
       queryClient.invalidateQueries({ queryKey: ['payment-stats'] })
       queryClient.invalidateQueries({ queryKey: ['students'] })
       queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['subscription-periods'] })
+      queryClient.invalidateQueries({ queryKey: ['installments'] })
+      queryClient.invalidateQueries({ queryKey: ['ledger'] })
     },
   })
 }
@@ -109,6 +113,9 @@ export function useUpdatePayment() {
       queryClient.invalidateQueries({ queryKey: ['payment-stats'] })
       queryClient.invalidateQueries({ queryKey: ['students'] })
       queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['subscription-periods'] })
+      queryClient.invalidateQueries({ queryKey: ['installments'] })
+      queryClient.invalidateQueries({ queryKey: ['ledger'] })
     },
   })
 }
@@ -133,8 +140,39 @@ export function useDeletePayment() {
       queryClient.invalidateQueries({ queryKey: ['payment-stats'] })
       queryClient.invalidateQueries({ queryKey: ['students'] })
       queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['subscription-periods'] })
+      queryClient.invalidateQueries({ queryKey: ['installments'] })
+      queryClient.invalidateQueries({ queryKey: ['ledger'] })
     },
   })
 }
 
 
+
+/**
+ * Hook to apply a reviewed bank statement import
+ */
+export function useImportBankStatement() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ preview, fileName }: { preview: StatementImportPreview; fileName: string }) => {
+      const result = await applyStatementImport(preview, fileName)
+      if (result.error) {
+        throw result.error
+      }
+      return result.result
+    },
+    onSuccess: () => {
+      // Imports record payments and confirm UPI payments for many students
+      queryClient.invalidateQueries({ queryKey: ['payments'] })
+      queryClient.invalidateQueries({ queryKey: ['payment-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['upi-payment-requests'] })
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['subscription-periods'] })
+      queryClient.invalidateQueries({ queryKey: ['installments'] })
+      queryClient.invalidateQueries({ queryKey: ['ledger'] })
+    },
+  })
+}
@@ -1,13 +1,15 @@
 import { useQuery } from '@tanstack/react-query'
-import { generateQRCode, QRCodeData } from '@/lib/qr-code'
+import { generateQRCode, QRCodeData, DEFAULT_QR_ROTATION_SECONDS } from '@/lib/qr-code'
 
 export function useQRCode() {
   return useQuery<QRCodeData, Error>({
     queryKey: ['qr-code'],
     queryFn: generateQRCode,
-    staleTime: 5 * 60 * 1000, // 5 minutes
+    staleTime: 0,
+    // Fetch a freshly signed code every rotation
+    refetchInterval: (query) =>
+      (query.state.data?.rotationSeconds ?? DEFAULT_QR_ROTATION_SECONDS) * 1000,
+    refetchIntervalInBackground: true,
     retry: 2,
   })
 }
-
-
@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getLatestBalanceCheck, runBalanceCheck, reconcileBalances } from '@/lib/reconciliation'
+
+/**
+ * Hook to fetch the most recent balance check
+ */
+export function useLatestBalanceCheck() {
+  return useQuery({
+    queryKey: ['balance-check'],
+    queryFn: async () => {
+      const result = await getLatestBalanceCheck()
+      if (result.error) {
+        throw result.error
+      }
+      return result.run
+    },
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+/**
+ * Hook to check every student's balance now
+ */
+export function useRunBalanceCheck() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async () => {
+      const result = await runBalanceCheck()
+      if (result.error) {
+        throw result.error
+      }
+      return result.run
+    },
+    onSuccess: (run) => {
+      queryClient.setQueryData(['balance-check'], run)
+    },
+  })
+}
+
+/**
+ * Hook to rebuild students' balances from their records
+ */
+export function useReconcileBalances() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ studentIds, reason }: { studentIds: number[]; reason: string }) => {
+      const result = await reconcileBalances(studentIds, reason)
+      if (result.error) {
+        throw result.error
+      }
+      return result.results
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['student-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['subscription-periods'] })
+      queryClient.invalidateQueries({ queryKey: ['installments'] })
+      queryClient.invalidateQueries({ queryKey: ['ledger'] })
+    },
+  })
+}
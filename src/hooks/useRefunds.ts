@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getRefunds, createRefund, type CreateRefundData } from '@/lib/refunds'
+
+/**
+ * Hook to fetch a student's or a payment's refunds and credit notes
+ */
+export function useRefunds(params: { studentId?: number; paymentId?: number }) {
+  return useQuery({
+    queryKey: ['refunds', params],
+    queryFn: async () => {
+      const result = await getRefunds(params)
+      if (result.error) {
+        throw result.error
+      }
+      return result.refunds
+    },
+    enabled: !!params.studentId || !!params.paymentId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook to issue a refund or credit note
+ */
+export function useCreateRefund() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: CreateRefundData) => {
+      const result = await createRefund(data)
+      if (result.error) {
+        throw result.error
+      }
+      return result.refund
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['refunds'] })
+      queryClient.invalidateQueries({ queryKey: ['ledger', variables.studentId] })
+      queryClient.invalidateQueries({ queryKey: ['payment'] })
+      queryClient.invalidateQueries({ queryKey: ['payment-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['student-stats'] })
+    },
+  })
+}
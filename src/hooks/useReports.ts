@@ -0,0 +1,36 @@
+import { useMutation } from '@tanstack/react-query'
+import {
+  exportStudentRoster,
+  exportAttendanceMatrix,
+  exportPaymentsRegister,
+  type ReportFormat,
+  type StudentReportParams,
+  type AttendanceReportParams,
+  type PaymentReportParams,
+} from '@/lib/reports'
+
+export type ReportRequest =
+  | { report: 'roster'; format: ReportFormat; params: StudentReportParams }
+  | { report: 'attendance'; format: ReportFormat; params: AttendanceReportParams }
+  | { report: 'payments'; format: ReportFormat; params: PaymentReportParams }
+
+/**
+ * Hook to generate a report on the device and open the share sheet
+ */
+export function useExportReport() {
+  return useMutation({
+    mutationFn: async (request: ReportRequest) => {
+      const result =
+        request.report === 'roster'
+          ? await exportStudentRoster(request.params, request.format)
+          : request.report === 'attendance'
+            ? await exportAttendanceMatrix(request.params, request.format)
+            : await exportPaymentsRegister(request.params, request.format)
+
+      if (result.error) {
+        throw result.error
+      }
+      return result
+    },
+  })
+}
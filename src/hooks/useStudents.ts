@@ -16,6 +16,9 @@ import {
   type ExtendPlanData,
   type RenewPlanData,
 } from '@/lib/students'
+import { importStudents, type StudentImportRow } from '@/lib/student-import'
+import { getSubscriptionPeriods } from '@/lib/subscriptions'
+import { getInstallments, setPeriodInstallments, type InstallmentInput } from '@/lib/installments'
 
 /**
  * Hook to fetch students with filters and pagination
@@ -118,6 +121,9 @@ export function useUpdateStudent() {
       // Invalidate queries
       queryClient.invalidateQueries({ queryKey: ['students'] })
       queryClient.invalidateQueries({ queryKey: ['students', variables.id] })
+      queryClient.invalidateQueries({ queryKey: ['subscription-periods', variables.id] })
+      queryClient.invalidateQueries({ queryKey: ['installments', variables.id] })
+      queryClient.invalidateQueries({ queryKey: ['ledger', variables.id] })
       queryClient.invalidateQueries({ queryKey: ['student-stats'] })
     },
   })
@@ -177,6 +183,9 @@ export function useExtendPlan() {
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['students'] })
       queryClient.invalidateQueries({ queryKey: ['students', variables.id] })
+      queryClient.invalidateQueries({ queryKey: ['subscription-periods', variables.id] })
+      queryClient.invalidateQueries({ queryKey: ['installments', variables.id] })
+      queryClient.invalidateQueries({ queryKey: ['ledger', variables.id] })
       queryClient.invalidateQueries({ queryKey: ['student-stats'] })
     },
   })
@@ -199,8 +208,94 @@ export function useRenewPlan() {
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['students'] })
       queryClient.invalidateQueries({ queryKey: ['students', variables.id] })
+      queryClient.invalidateQueries({ queryKey: ['subscription-periods', variables.id] })
+      queryClient.invalidateQueries({ queryKey: ['installments', variables.id] })
+      queryClient.invalidateQueries({ queryKey: ['ledger', variables.id] })
       queryClient.invalidateQueries({ queryKey: ['student-stats'] })
     },
   })
 }
 
+/**
+ * Hook to fetch a student's plan terms, newest first
+ */
+export function useSubscriptionPeriods(studentId: number | undefined) {
+  return useQuery({
+    queryKey: ['subscription-periods', studentId],
+    queryFn: async () => {
+      const result = await getSubscriptionPeriods(studentId!)
+      if (result.error) {
+        throw result.error
+      }
+      return result.periods
+    },
+    enabled: !!studentId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook to fetch a student's installments, earliest due first
+ */
+export function useInstallments(studentId: number | undefined) {
+  return useQuery({
+    queryKey: ['installments', studentId],
+    queryFn: async () => {
+      const result = await getInstallments(studentId!)
+      if (result.error) {
+        throw result.error
+      }
+      return result.installments
+    },
+    enabled: !!studentId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook to set or replace the installment schedule of an existing term
+ */
+export function useSetPeriodInstallments() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ periodId, installments }: { periodId: number; studentId: number; installments: InstallmentInput[] }) => {
+      const result = await setPeriodInstallments(periodId, installments)
+      if (result.error) {
+        throw result.error
+      }
+      return result.count
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['installments', variables.studentId] })
+      queryClient.invalidateQueries({ queryKey: ['student-stats'] })
+    },
+  })
+}
+
+/**
+ * Hook to create students from validated import rows
+ */
+export function useImportStudents() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      rows,
+      onProgress,
+    }: {
+      rows: StudentImportRow[]
+      onProgress?: (done: number, total: number) => void
+    }) => {
+      const result = await importStudents(rows, onProgress)
+      if (result.error) {
+        throw result.error
+      }
+      return result.results
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student-stats'] })
+    },
+  })
+}
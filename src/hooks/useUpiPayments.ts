@@ -0,0 +1,141 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { createPayment } from '@/lib/payments'
+import { getPaymentMethods, getUpiPaymentMethodKey } from '@/lib/payment-methods'
+import {
+  getUpiPaymentRequests,
+  submitUpiPayment,
+  cancelUpiPaymentRequest,
+  rejectUpiPaymentRequest,
+  type UpiPaymentRequest,
+  type UpiRequestStatus,
+} from '@/lib/upi'
+
+/**
+ * Hook to fetch UPI payment requests
+ */
+export function useUpiPaymentRequests(
+  params: { status?: UpiRequestStatus; studentId?: number } = {},
+  enabled = true
+) {
+  return useQuery({
+    queryKey: ['upi-payment-requests', params],
+    queryFn: async () => {
+      const result = await getUpiPaymentRequests(params)
+      if (result.error) {
+        throw result.error
+      }
+      return result.requests
+    },
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook for a student to submit a UPI payment for verification
+ */
+export function useSubmitUpiPayment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: { amount: number; reference: string; screenshotUri?: string | null }) => {
+      const result = await submitUpiPayment(data)
+      if (result.error) {
+        throw result.error
+      }
+      return result.request
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['upi-payment-requests'] })
+    },
+  })
+}
+
+/**
+ * Hook for a student to withdraw a pending UPI payment
+ */
+export function useCancelUpiPaymentRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const result = await cancelUpiPaymentRequest(id)
+      if (result.error) {
+        throw result.error
+      }
+      return result.success
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['upi-payment-requests'] })
+    },
+  })
+}
+
+/**
+ * Hook to confirm a UPI payment, recording it with its reference
+ */
+export function useConfirmUpiPayment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      request,
+      amount,
+      paymentDate,
+      overrideAmount = false,
+    }: {
+      request: UpiPaymentRequest
+      amount: number
+      paymentDate: string
+      overrideAmount?: boolean // The admin checked the amount differs from what was submitted
+    }) => {
+      const method = getUpiPaymentMethodKey(await getPaymentMethods())
+      if (!method) {
+        throw new Error('Add a payment method that reaches the bank before confirming UPI payments')
+      }
+      const result = await createPayment({
+        studentId: request.studentId,
+        amount,
+        paymentDate,
+        method,
+        reference: request.reference,
+        upiRequestId: request.id,
+        overrideAmount,
+      })
+      if (result.error) {
+        throw result.error
+      }
+      return result.payment
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['upi-payment-requests'] })
+      queryClient.invalidateQueries({ queryKey: ['payments'] })
+      queryClient.invalidateQueries({ queryKey: ['payment-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student'] })
+      queryClient.invalidateQueries({ queryKey: ['subscription-periods'] })
+      queryClient.invalidateQueries({ queryKey: ['installments'] })
+      queryClient.invalidateQueries({ queryKey: ['ledger'] })
+    },
+  })
+}
+
+/**
+ * Hook to reject a UPI payment
+ */
+export function useRejectUpiPaymentRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, note }: { id: number; note: string }) => {
+      const result = await rejectUpiPaymentRequest(id, note)
+      if (result.error) {
+        throw result.error
+      }
+      return result.success
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['upi-payment-requests'] })
+    },
+  })
+}
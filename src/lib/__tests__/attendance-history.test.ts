@@ -0,0 +1,44 @@
+/**
+ * Tests for the attendance change history
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import { diffMealMarks, validateChangeReason, MAX_CHANGE_REASON_LENGTH } from '../attendance-history'
+
+describe('Change Reason', () => {
+  it('should require a reason', () => {
+    expect(validateChangeReason('')).not.toBeNull()
+    expect(validateChangeReason('   ')).not.toBeNull()
+    expect(validateChangeReason(undefined)).not.toBeNull()
+  })
+
+  it('should accept a short explanation', () => {
+    expect(validateChangeReason('Student ate lunch, QR scanner was down')).toBeNull()
+  })
+
+  it('should reject overly long reasons', () => {
+    expect(validateChangeReason('x'.repeat(MAX_CHANGE_REASON_LENGTH + 1))).not.toBeNull()
+  })
+})
+
+describe('Meal Mark Diff', () => {
+  const mark = { at: '2025-01-15T07:30:00.000Z', source: 'qr' as const }
+
+  it('should list newly marked and unmarked meals', () => {
+    expect(diffMealMarks({ breakfast: mark, lunch: mark }, { lunch: mark, dinner: mark })).toEqual({
+      added: ['dinner'],
+      removed: ['breakfast'],
+    })
+  })
+
+  it('should treat a missing record as no meals', () => {
+    expect(diffMealMarks(null, { lunch: mark })).toEqual({ added: ['lunch'], removed: [] })
+    expect(diffMealMarks({ lunch: mark }, undefined)).toEqual({ added: [], removed: ['lunch'] })
+  })
+})
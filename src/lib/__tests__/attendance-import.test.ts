@@ -0,0 +1,101 @@
+/**
+ * Tests for attendance import parsing and preview
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client and native modules used for file access
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+jest.mock('expo-document-picker', () => ({}))
+jest.mock('expo-file-system/legacy', () => ({}))
+
+import { DEFAULT_MEAL_SCHEDULE } from '../meal-schedule'
+import {
+  parseAttendanceImport,
+  parseMealCell,
+  previewAttendanceImport,
+  type AttendanceImportContext,
+} from '../attendance-import'
+
+const schedule = DEFAULT_MEAL_SCHEDULE
+
+const context: AttendanceImportContext = {
+  students: new Map([
+    ['stu-0001', { id: 1, name: 'Asha', rollNumber: 'STU-0001', joinDate: '2025-07-01', endDate: '2025-07-31', planMeals: ['breakfast', 'lunch', 'dinner'] }],
+    ['stu-0002', { id: 2, name: 'Ravi', rollNumber: 'STU-0002', joinDate: '2025-07-01', endDate: '2025-07-31', planMeals: ['lunch'] }],
+  ]),
+  attendance: new Map([['1:2025-07-10', { breakfast: { source: 'qr' as const } }]]),
+  today: '2025-07-20',
+}
+
+const preview = (csv: string) => {
+  const parsed = parseAttendanceImport(csv, schedule)
+  if (parsed.error) throw parsed.error
+  return previewAttendanceImport(parsed.file, context, schedule)
+}
+
+describe('Meal Cells', () => {
+  it('should read present, absent and blank values', () => {
+    expect(parseMealCell('P')).toBe(true)
+    expect(parseMealCell(' yes ')).toBe(true)
+    expect(parseMealCell('0')).toBe(false)
+    expect(parseMealCell('')).toBeUndefined()
+    expect(parseMealCell('maybe')).toBeNull()
+  })
+})
+
+describe('Attendance Import Parsing', () => {
+  it('should report missing key columns', () => {
+    const result = parseAttendanceImport('Name,Lunch\nAsha,1', schedule)
+    expect(result.error?.message).toBe('Missing columns: roll number, date')
+  })
+
+  it('should require at least one meal column', () => {
+    const result = parseAttendanceImport('Roll No,Date,Notes\nSTU-0001,2025-07-10,late', schedule)
+    expect(result.error?.message).toMatch(/No meal columns found/)
+  })
+
+  it('should match meal columns by name and read each row', () => {
+    const result = parseAttendanceImport('Roll Number,Date,Breakfast,Dinner\nSTU-0001,10/07/2025,1,\nSTU-0002,2025-07-32,x,0', schedule)
+
+    expect(result.file?.meals).toEqual(['breakfast', 'dinner'])
+    expect(result.file?.entries[0]).toMatchObject({ line: 2, date: '2025-07-10', meals: { breakfast: true }, errors: [] })
+    expect(result.file?.entries[1].errors[0]).toMatch(/Invalid date/)
+  })
+})
+
+describe('Attendance Import Preview', () => {
+  it('should diff against existing attendance', () => {
+    const result = preview('roll,date,breakfast,lunch,dinner\nstu-0001,2025-07-10,0,1,\nSTU-0001,2025-07-11,,,1\nSTU-0002,2025-07-12,,0,')
+
+    expect(result.rows[0]).toMatchObject({ studentId: 1, added: ['lunch'], removed: ['breakfast'] })
+    expect(result.rows[1]).toMatchObject({ added: ['dinner'], removed: [] })
+    expect(result.rows[2]).toMatchObject({ added: [], removed: [], errors: [] })
+    expect(result.changedCount).toBe(2)
+    expect(result.unchangedCount).toBe(1)
+  })
+
+  it('should flag unknown students, bad dates, duplicates and meals outside the plan', () => {
+    const result = preview([
+      'roll,date,breakfast,lunch',
+      'STU-0009,2025-07-10,1,',
+      'STU-0001,2025-07-25,1,',
+      'STU-0001,2025-06-30,1,',
+      'STU-0001,2025-07-12,1,',
+      'STU-0001,2025-07-12,,1',
+      'STU-0002,2025-07-12,1,1',
+    ].join('\n'))
+
+    expect(result.rows.map((row) => row.errors)).toEqual([
+      ['Unknown roll number "STU-0009"'],
+      ['Date is in the future'],
+      ['Date is outside the plan (2025-07-01 to 2025-07-31)'],
+      [],
+      ['Duplicate of line 5'],
+      ['Plan does not include Breakfast'],
+    ])
+    expect(result.errorCount).toBe(5)
+  })
+})
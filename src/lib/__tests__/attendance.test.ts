@@ -0,0 +1,57 @@
+/**
+ * Tests for per-meal mark details
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import { applyMealMarks, formatMealMark, type MealMark } from '../attendance'
+
+const QR_MARK: MealMark = { at: '2026-01-10T03:00:00.000Z', source: 'qr', by: 'student-1' }
+const MANUAL_MARK: MealMark = { at: '2026-01-10T08:00:00.000Z', source: 'manual', by: 'admin-1' }
+
+describe('Meal Mark Details', () => {
+  it('should add a mark for newly marked meals', () => {
+    const marks = applyMealMarks({}, { lunch: true }, MANUAL_MARK)
+
+    expect(marks).toEqual({ lunch: MANUAL_MARK })
+  })
+
+  it('should keep the original mark for meals that stay marked', () => {
+    const marks = applyMealMarks(
+      { breakfast: QR_MARK },
+      { breakfast: true, lunch: true },
+      MANUAL_MARK
+    )
+
+    expect(marks).toEqual({ breakfast: QR_MARK, lunch: MANUAL_MARK })
+  })
+
+  it('should drop the mark when a meal is unmarked', () => {
+    const marks = applyMealMarks({ breakfast: QR_MARK }, { breakfast: false }, MANUAL_MARK)
+
+    expect(marks).toEqual({})
+  })
+
+  it('should leave meals that are not being changed alone', () => {
+    const marks = applyMealMarks({ dinner: QR_MARK }, { lunch: undefined }, MANUAL_MARK)
+
+    expect(marks).toEqual({ dinner: QR_MARK })
+  })
+
+  it('should keep legacy marks without details', () => {
+    const marks = applyMealMarks({ breakfast: {} }, { breakfast: true, snacks: true }, MANUAL_MARK)
+
+    expect(marks).toEqual({ breakfast: {}, snacks: MANUAL_MARK })
+    expect(formatMealMark(marks.breakfast)).toBeNull()
+  })
+
+  it('should describe a mark with its source', () => {
+    expect(formatMealMark(QR_MARK)).toMatch(/ · QR$/)
+    expect(formatMealMark(undefined)).toBeNull()
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Tests for invoice and receipt numbering and rendering
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client and native modules used for sharing
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+jest.mock('expo-print', () => ({}))
+jest.mock('expo-sharing', () => ({}))
+jest.mock('expo-file-system/legacy', () => ({}))
+
+import {
+  buildInvoiceHtml,
+  buildReceiptHtml,
+  DEFAULT_BILLING_SETTINGS,
+  formatDocumentNumber,
+  isValidUpiId,
+  normalizeBillingSettings,
+  validateDocumentFormat,
+  type Invoice,
+  type Receipt,
+} from '../billing'
+
+const student = { id: 7, name: 'Asha <Rao>', rollNumber: 'R-12', email: 'asha@example.com' }
+
+describe('formatDocumentNumber', () => {
+  it('uses the financial year the date falls in', () => {
+    expect(formatDocumentNumber('MESS/{FY}/{SEQ}', '2026-04-01', 1)).toBe('MESS/2026-27/0001')
+    expect(formatDocumentNumber('MESS/{FY}/{SEQ}', '2027-03-31', 42)).toBe('MESS/2026-27/0042')
+    expect(formatDocumentNumber('MESS/{FY}/{SEQ}', '2099-12-01', 7)).toBe('MESS/2099-00/0007')
+  })
+
+  it('uses the calendar year when the financial year starts in January', () => {
+    expect(formatDocumentNumber('INV-{FY}-{SEQ}', '2026-02-15', 3, 3, 1)).toBe('INV-2026-003')
+    expect(formatDocumentNumber('{YYYY}/{SEQ}', '2026-02-15', 12345, 2)).toBe('2026/12345')
+  })
+
+  it('appends the running number when the format has none', () => {
+    expect(formatDocumentNumber('RCPT', '2026-05-01', 5)).toBe('RCPT/0005')
+  })
+})
+
+describe('billing settings', () => {
+  it('fills in defaults and clamps numbers', () => {
+    const settings = normalizeBillingSettings({ messName: '  ', taxId: ' 29abcde1234f1z5 ', sequenceDigits: 12, fiscalYearStartMonth: 0 })
+
+    expect(settings.messName).toBe(DEFAULT_BILLING_SETTINGS.messName)
+    expect(settings.taxId).toBe('29ABCDE1234F1Z5')
+    expect(settings.sequenceDigits).toBe(8)
+    expect(settings.fiscalYearStartMonth).toBe(1)
+    expect(settings.invoiceFormat).toBe('INV/{FY}/{SEQ}')
+  })
+
+  it('checks UPI IDs look like name@bank', () => {
+    expect(isValidUpiId('sai.mess@okaxis')).toBe(true)
+    expect(isValidUpiId('9876543210@ybl')).toBe(true)
+    expect(isValidUpiId('sai mess@okaxis')).toBe(false)
+    expect(isValidUpiId('saimess')).toBe(false)
+    expect(normalizeBillingSettings({ upiVpa: ' Sai.Mess@OKAXIS ' }).upiVpa).toBe('sai.mess@okaxis')
+  })
+
+  it('requires a running number in the format', () => {
+    expect(validateDocumentFormat('MESS/{FY}')).toBe('Format must include {SEQ}')
+    expect(validateDocumentFormat('MESS/{FY}/{SEQ}')).toBeNull()
+  })
+})
+
+describe('invoice and receipt HTML', () => {
+  const settings = {
+    ...DEFAULT_BILLING_SETTINGS,
+    messName: 'Annapurna Mess',
+    address: '12 MG Road\nPune',
+    taxId: '27AAAAA0000A1Z5',
+  }
+
+  it('renders an invoice with the amount still due', () => {
+    const invoice: Invoice = {
+      id: 3,
+      number: 'INV/2026-27/0003',
+      issuedAt: '2026-06-01T10:00:00Z',
+      kind: 'renewal',
+      planName: 'Full plan',
+      startDate: '2026-06-01',
+      endDate: '2026-06-30',
+      price: 3000,
+      paid: 1000,
+      student,
+    }
+
+    const html = buildInvoiceHtml(invoice, settings)
+
+    expect(html).toContain('Annapurna Mess')
+    expect(html).toContain('12 MG Road<br />Pune')
+    expect(html).toContain('GSTIN: 27AAAAA0000A1Z5')
+    expect(html).toContain('INV/2026-27/0003')
+    expect(html).toContain('Asha &lt;Rao&gt;')
+    expect(html).toContain('Full plan (renewal)')
+    expect(html).toMatch(/Amount Due<\/td><td class="num">₹2,000/)
+  })
+
+  it('renders a receipt against the term invoice', () => {
+    const receipt: Receipt = {
+      id: 9,
+      number: null,
+      paymentDate: '2026-06-05T00:00:00Z',
+      amount: 1000,
+      method: 'UPI',
+      reference: null,
+      invoiceNumber: 'INV/2026-27/0003',
+      planName: 'Full plan',
+      student,
+    }
+
+    const html = buildReceiptHtml(receipt, settings)
+
+    expect(html).toContain('Receipt No. <strong>#9</strong>')
+    expect(html).toContain('Invoice INV/2026-27/0003 (Full plan)')
+    expect(html).toContain('<td>UPI</td>')
+    expect(html).not.toContain('<img')
+
+    expect(buildReceiptHtml({ ...receipt, reference: '412345678901' }, settings)).toContain('UPI<br>Ref. 412345678901')
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Tests for guest meal charges
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import {
+  countGuestsByMeal,
+  normalizeGuestMealRates,
+  sumGuestCharges,
+  validateGuestMeal,
+} from '../guest-meals'
+
+describe('Guest Meal Validation', () => {
+  it('should accept whole guests at a non-negative rate', () => {
+    expect(validateGuestMeal({ count: 2, rate: 60 })).toBeNull()
+    expect(validateGuestMeal({ count: 1, rate: 0 })).toBeNull()
+  })
+
+  it('should reject zero or fractional guests', () => {
+    expect(validateGuestMeal({ count: 0, rate: 60 })).not.toBeNull()
+    expect(validateGuestMeal({ count: 1.5, rate: 60 })).not.toBeNull()
+  })
+
+  it('should reject negative or missing rates', () => {
+    expect(validateGuestMeal({ count: 1, rate: -5 })).not.toBeNull()
+    expect(validateGuestMeal({ count: 1, rate: NaN })).not.toBeNull()
+  })
+})
+
+describe('Guest Meal Totals', () => {
+  it('should count guests per meal', () => {
+    expect(
+      countGuestsByMeal([
+        { meal: 'lunch', count: 2 },
+        { meal: 'dinner', count: 1 },
+        { meal: 'lunch', count: 3 },
+      ])
+    ).toEqual({ lunch: 5, dinner: 1 })
+  })
+
+  it('should sum charges to the paisa', () => {
+    expect(sumGuestCharges([{ amount: 60.1 }, { amount: 45.2 }])).toBe(105.3)
+    expect(sumGuestCharges([])).toBe(0)
+  })
+})
+
+describe('Guest Meal Rates', () => {
+  it('should keep valid rates and drop the rest', () => {
+    expect(normalizeGuestMealRates({ lunch: 60, dinner: '75.5', breakfast: -1, snacks: 'free' })).toEqual({
+      lunch: 60,
+      dinner: 75.5,
+    })
+  })
+
+  it('should fall back to no rates for invalid settings', () => {
+    expect(normalizeGuestMealRates(null)).toEqual({})
+    expect(normalizeGuestMealRates('60')).toEqual({})
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Tests for installment schedules
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import {
+  allocateInstallments,
+  getInstallmentDue,
+  getInstallmentStatus,
+  splitIntoInstallments,
+  validateInstallments,
+} from '../installments'
+
+describe('splitIntoInstallments', () => {
+  it('splits the price evenly through the term, remainder first', () => {
+    expect(splitIntoInstallments(10000, 3, '2026-10-01', 90)).toEqual([
+      { dueDate: '2026-10-01', amount: 3334 },
+      { dueDate: '2026-10-31', amount: 3333 },
+      { dueDate: '2026-11-30', amount: 3333 },
+    ])
+  })
+
+  it('keeps the number of parts within limits', () => {
+    expect(splitIntoInstallments(6000, 1, '2026-10-01', 30)).toHaveLength(2)
+    expect(splitIntoInstallments(6000, 12, '2026-10-01', 30)).toHaveLength(6)
+  })
+
+  it('gives a short term no more parts than it has days, each on its own day', () => {
+    const installments = splitIntoInstallments(6000, 4, '2026-10-01', 3)
+    expect(installments.map((installment) => installment.dueDate)).toEqual([
+      '2026-10-01',
+      '2026-10-02',
+      '2026-10-03',
+    ])
+    expect(validateInstallments(installments, 6000, 3)).toBeNull()
+  })
+})
+
+describe('allocateInstallments', () => {
+  const schedule = [
+    { dueDate: '2026-11-30', amount: 3000 },
+    { dueDate: '2026-10-01', amount: 4000 },
+    { dueDate: '2026-10-31', amount: 3000 },
+  ]
+
+  it('pays the earliest due installment first', () => {
+    expect(allocateInstallments(schedule, 5500).map((installment) => installment.paid)).toEqual([4000, 1500, 0])
+  })
+
+  it('caps each installment at its amount', () => {
+    expect(allocateInstallments(schedule, 20000).map((installment) => installment.paid)).toEqual([4000, 3000, 3000])
+    expect(allocateInstallments(schedule, 0).map((installment) => installment.paid)).toEqual([0, 0, 0])
+  })
+})
+
+describe('getInstallmentStatus', () => {
+  it('is overdue only once the due date has passed unpaid', () => {
+    const installment = { dueDate: '2026-10-15', amount: 3000, paid: 1000 }
+    expect(getInstallmentDue(installment)).toBe(2000)
+    expect(getInstallmentStatus(installment, '2026-10-15')).toBe('upcoming')
+    expect(getInstallmentStatus(installment, '2026-10-16')).toBe('overdue')
+    expect(getInstallmentStatus({ ...installment, paid: 3000 }, '2026-12-01')).toBe('paid')
+  })
+})
+
+describe('validateInstallments', () => {
+  it('accepts a schedule adding up to the price', () => {
+    expect(validateInstallments(splitIntoInstallments(10000, 3, '2026-10-01', 90), 10000, 90)).toBeNull()
+  })
+
+  it('rejects a single part, missing amounts and a wrong total', () => {
+    expect(validateInstallments([{ dueDate: '2026-10-01', amount: 10000 }], 10000, 30)).toBe(
+      'Split the fee into 2 to 6 installments'
+    )
+    expect(
+      validateInstallments(
+        [
+          { dueDate: '2026-10-01', amount: 10000 },
+          { dueDate: '2026-10-31', amount: 0 },
+        ],
+        10000,
+        30
+      )
+    ).toBe('Installment 2: enter an amount above zero')
+    expect(
+      validateInstallments(
+        [
+          { dueDate: '2026-10-01', amount: 5000 },
+          { dueDate: '2026-10-31', amount: 4000 },
+        ],
+        10000,
+        30
+      )
+    ).toBe('Installments add up to ₹9,000, but the plan costs ₹10,000')
+  })
+
+  it('rejects two parts due on the same day and more parts than the term has days', () => {
+    expect(
+      validateInstallments(
+        [
+          { dueDate: '2026-10-01', amount: 5000 },
+          { dueDate: '2026-10-01', amount: 5000 },
+        ],
+        10000,
+        30
+      )
+    ).toBe('Installment 2: another installment is due on the same day')
+    expect(
+      validateInstallments(
+        [
+          { dueDate: '2026-10-01', amount: 3000 },
+          { dueDate: '2026-10-02', amount: 3000 },
+          { dueDate: '2026-10-03', amount: 4000 },
+        ],
+        10000,
+        2
+      )
+    ).toBe('A 2-day term can be split into at most 2 installments')
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Tests for late fee rules
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import {
+  calculateLateFee,
+  createLateFeeRule,
+  describeLateFeeRule,
+  normalizeLateFeeRules,
+  validateLateFeeRules,
+} from '../late-fees'
+
+describe('calculateLateFee', () => {
+  it('charges a flat fee whatever is due', () => {
+    expect(calculateLateFee({ type: 'flat', amount: 100, cap: null }, 50)).toBe(100)
+    expect(calculateLateFee({ type: 'flat', amount: 100, cap: null }, 0)).toBe(0)
+  })
+
+  it('charges a percentage of what is due up to the cap', () => {
+    expect(calculateLateFee({ type: 'percent', amount: 5, cap: null }, 3333)).toBe(166.65)
+    expect(calculateLateFee({ type: 'percent', amount: 5, cap: 100 }, 3333)).toBe(100)
+    expect(calculateLateFee({ type: 'percent', amount: 5, cap: 500 }, 3333)).toBe(166.65)
+  })
+})
+
+describe('normalizeLateFeeRules', () => {
+  it('drops rules that cannot be applied', () => {
+    expect(normalizeLateFeeRules(null)).toEqual([])
+    expect(
+      normalizeLateFeeRules([
+        { id: 'a', name: 'Late fee', graceDays: 7, type: 'weekly', amount: 100 },
+        { id: '', name: 'No id', graceDays: 7, type: 'flat', amount: 100 },
+        { id: 'b', name: 'Free', graceDays: 7, type: 'flat', amount: 0 },
+      ])
+    ).toEqual([])
+  })
+
+  it('fills in missing fields and only keeps a cap on percentage fees', () => {
+    expect(
+      normalizeLateFeeRules([
+        { id: 'a', name: ' ', graceDays: 7.5, type: 'flat', amount: 100, cap: 50 },
+        { id: 'b', name: 'Overdue', graceDays: 15, type: 'percent', amount: 2, cap: 500, waivable: false },
+      ])
+    ).toEqual([
+      { id: 'a', name: 'Late fee', graceDays: 7, type: 'flat', amount: 100, cap: null, waivable: true },
+      { id: 'b', name: 'Overdue', graceDays: 15, type: 'percent', amount: 2, cap: 500, waivable: false },
+    ])
+  })
+})
+
+describe('validateLateFeeRules', () => {
+  it('accepts no rules and a new rule', () => {
+    expect(validateLateFeeRules([])).toBeNull()
+    expect(validateLateFeeRules([createLateFeeRule()])).toBeNull()
+  })
+
+  it('rejects duplicate names, bad grace periods and percentages over 100', () => {
+    expect(validateLateFeeRules([createLateFeeRule(), createLateFeeRule({ name: 'late fee' })])).toBe(
+      'There is more than one late fee rule called late fee'
+    )
+    expect(validateLateFeeRules([createLateFeeRule({ graceDays: 120 })])).toBe(
+      'Late fee: grace period must be 0 to 90 days'
+    )
+    expect(validateLateFeeRules([createLateFeeRule({ type: 'percent', amount: 150 })])).toBe(
+      'Late fee: a percentage fee can be at most 100%'
+    )
+  })
+})
+
+describe('describeLateFeeRule', () => {
+  it('explains the fee and the grace period', () => {
+    expect(describeLateFeeRule(createLateFeeRule({ amount: 100, graceDays: 7 }))).toBe(
+      '₹100 if not paid within 7 days of the term starting or an installment falling due'
+    )
+    expect(describeLateFeeRule(createLateFeeRule({ type: 'percent', amount: 5, cap: 500, graceDays: 0 }))).toBe(
+      '5% of the amount due, up to ₹500, if not paid on the day the term starts or an installment is due'
+    )
+  })
+})
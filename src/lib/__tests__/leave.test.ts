@@ -0,0 +1,94 @@
+/**
+ * Tests for leave request rules
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import {
+  calculateRebateDays,
+  countLeaveDays,
+  normalizeLeavePolicy,
+  validateLeaveDates,
+  DEFAULT_LEAVE_POLICY,
+} from '../leave'
+
+const PLAN = { joinDate: '2026-03-01', endDate: '2026-03-31' }
+
+describe('Leave Requests', () => {
+  describe('countLeaveDays', () => {
+    it('should include both ends of the range', () => {
+      expect(countLeaveDays('2026-03-10', '2026-03-10')).toBe(1)
+      expect(countLeaveDays('2026-03-10', '2026-03-14')).toBe(5)
+    })
+
+    it('should count across months', () => {
+      expect(countLeaveDays('2026-02-27', '2026-03-02')).toBe(4)
+    })
+  })
+
+  describe('validateLeaveDates', () => {
+    it('should accept leave with enough notice', () => {
+      expect(validateLeaveDates(DEFAULT_LEAVE_POLICY, '2026-03-11', '2026-03-12', '2026-03-10')).toBeNull()
+    })
+
+    it('should reject leave without enough notice', () => {
+      expect(validateLeaveDates(DEFAULT_LEAVE_POLICY, '2026-03-10', '2026-03-12', '2026-03-10'))
+        .toMatch(/in advance/)
+
+      const policy = { ...DEFAULT_LEAVE_POLICY, minNoticeDays: 3 }
+      expect(validateLeaveDates(policy, '2026-03-12', '2026-03-14', '2026-03-10')).toMatch(/3 days/)
+      expect(validateLeaveDates(policy, '2026-03-13', '2026-03-14', '2026-03-10')).toBeNull()
+    })
+
+    it('should reject an end date before the start date', () => {
+      expect(validateLeaveDates(DEFAULT_LEAVE_POLICY, '2026-03-14', '2026-03-12', '2026-03-10'))
+        .toMatch(/End date/)
+    })
+
+    it('should reject leave longer than the maximum', () => {
+      const policy = { ...DEFAULT_LEAVE_POLICY, maxLeaveDays: 5 }
+      expect(validateLeaveDates(policy, '2026-03-11', '2026-03-16', '2026-03-10')).toMatch(/at most 5 days/)
+      expect(validateLeaveDates(policy, '2026-03-11', '2026-03-15', '2026-03-10')).toBeNull()
+    })
+  })
+
+  describe('calculateRebateDays', () => {
+    it('should give back every leave day at 100%', () => {
+      expect(calculateRebateDays(DEFAULT_LEAVE_POLICY, { startDate: '2026-03-10', endDate: '2026-03-14' }, PLAN))
+        .toBe(5)
+    })
+
+    it('should give nothing for leave shorter than the minimum', () => {
+      expect(calculateRebateDays(DEFAULT_LEAVE_POLICY, { startDate: '2026-03-10', endDate: '2026-03-11' }, PLAN))
+        .toBe(0)
+    })
+
+    it('should apply the rebate percentage, rounding down', () => {
+      const policy = { ...DEFAULT_LEAVE_POLICY, rebatePercent: 50 }
+      expect(calculateRebateDays(policy, { startDate: '2026-03-10', endDate: '2026-03-14' }, PLAN)).toBe(2)
+    })
+
+    it('should only count days inside the plan', () => {
+      expect(calculateRebateDays(DEFAULT_LEAVE_POLICY, { startDate: '2026-03-28', endDate: '2026-04-05' }, PLAN))
+        .toBe(4)
+      expect(calculateRebateDays(DEFAULT_LEAVE_POLICY, { startDate: '2026-04-01', endDate: '2026-04-05' }, PLAN))
+        .toBe(0)
+    })
+  })
+
+  describe('normalizeLeavePolicy', () => {
+    it('should fall back to defaults for missing or invalid values', () => {
+      expect(normalizeLeavePolicy(null)).toEqual(DEFAULT_LEAVE_POLICY)
+      expect(normalizeLeavePolicy({ minNoticeDays: -1, rebatePercent: 'all' })).toEqual(DEFAULT_LEAVE_POLICY)
+    })
+
+    it('should cap the rebate at 100%', () => {
+      expect(normalizeLeavePolicy({ rebatePercent: 150 }).rebatePercent).toBe(100)
+    })
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * Tests for the student ledger and statement of account
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client and native modules used for sharing
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+jest.mock('expo-print', () => ({}))
+jest.mock('expo-sharing', () => ({}))
+jest.mock('expo-file-system/legacy', () => ({}))
+
+import { buildStatement, buildStatementReport, formatLedgerBalance, type LedgerEntry } from '../ledger'
+
+let nextId = 1
+const makeEntry = (overrides: Partial<LedgerEntry>): LedgerEntry => ({
+  id: nextId++,
+  studentId: 1,
+  entryDate: '2025-01-01',
+  kind: 'plan',
+  description: 'Full plan',
+  debit: 0,
+  credit: 0,
+  periodId: null,
+  paymentId: null,
+  guestMealId: null,
+  createdByEmail: null,
+  createdAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const entries = [
+  makeEntry({ entryDate: '2025-01-01', kind: 'plan', description: 'Full plan', debit: 3000 }),
+  makeEntry({ entryDate: '2025-01-01', kind: 'payment', description: 'Payment (Cash)', credit: 1000 }),
+  makeEntry({ entryDate: '2025-01-20', kind: 'guest_meal', description: '2 guests (lunch)', debit: 160.5 }),
+  makeEntry({ entryDate: '2025-02-05', kind: 'payment', description: 'Payment (UPI)', credit: 2000 }),
+  makeEntry({ entryDate: '2025-02-10', kind: 'discount', description: 'Sibling discount', credit: 300 }),
+]
+
+describe('buildStatement', () => {
+  it('keeps a running balance across every entry', () => {
+    const statement = buildStatement(entries)
+
+    expect(statement.openingBalance).toBe(0)
+    expect(statement.lines.map((line) => line.balance)).toEqual([3000, 2000, 2160.5, 160.5, -139.5])
+    expect(statement.totalDebit).toBe(3160.5)
+    expect(statement.totalCredit).toBe(3300)
+    expect(statement.closingBalance).toBe(-139.5)
+  })
+
+  it('carries entries before the range in as the opening balance', () => {
+    const statement = buildStatement(entries, { from: '2025-02-01' })
+
+    expect(statement.openingBalance).toBe(2160.5)
+    expect(statement.lines.map((line) => line.entry.description)).toEqual(['Payment (UPI)', 'Sibling discount'])
+    expect(statement.totalCredit).toBe(2300)
+    expect(statement.closingBalance).toBe(-139.5)
+  })
+
+  it('leaves out entries after the range', () => {
+    const statement = buildStatement(entries, { from: '2025-01-15', to: '2025-01-31' })
+
+    expect(statement.openingBalance).toBe(2000)
+    expect(statement.lines).toHaveLength(1)
+    expect(statement.closingBalance).toBe(2160.5)
+  })
+})
+
+describe('buildStatementReport', () => {
+  it('lists charges and credits with the balance after each', () => {
+    const statement = buildStatement(entries, { from: '2025-02-01' })
+    const report = buildStatementReport({ name: 'Asha', rollNumber: 'STU-0001' }, statement, new Date(2025, 1, 28))
+
+    expect(report.filename).toBe('statement-stu-0001-2025-02-28')
+    expect(report.filters).toEqual(['Asha (STU-0001)', 'From 01 Feb 2025'])
+    expect(report.rows).toEqual([
+      ['01 Feb 2025', 'Opening balance', null, null, 2160.5],
+      ['05 Feb 2025', 'Payment (UPI)', null, 2000, 160.5],
+      ['10 Feb 2025', 'Sibling discount', null, 300, -139.5],
+    ])
+    expect(report.summary.find((item) => item.label === 'Closing Balance')?.value).toBe(formatLedgerBalance(-139.5))
+  })
+})
+
+describe('formatLedgerBalance', () => {
+  it('marks credit balances', () => {
+    expect(formatLedgerBalance(-139.5)).toMatch(/139\.50 Cr$/)
+    expect(formatLedgerBalance(250)).not.toMatch(/Cr$/)
+  })
+})
@@ -0,0 +1,30 @@
+/**
+ * Tests for the kitchen headcount forecast
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import { estimateHeadcount } from '../meal-forecast'
+
+describe('Headcount Estimate', () => {
+  it('should count confirmed students in full', () => {
+    expect(estimateHeadcount({ confirmed: 12, undecided: 0, attendanceRate: 0.5 })).toBe(12)
+  })
+
+  it('should scale undecided students by the attendance rate', () => {
+    expect(estimateHeadcount({ confirmed: 10, undecided: 30, attendanceRate: 0.8 })).toBe(34)
+  })
+
+  it('should round to whole plates', () => {
+    expect(estimateHeadcount({ confirmed: 0, undecided: 5, attendanceRate: 0.55 })).toBe(3)
+  })
+
+  it('should expect everyone undecided when there is no history', () => {
+    expect(estimateHeadcount({ confirmed: 2, undecided: 20, attendanceRate: null })).toBe(22)
+  })
+})
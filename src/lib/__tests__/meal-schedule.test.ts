@@ -0,0 +1,150 @@
+/**
+ * Tests for the configurable meal schedule
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    auth: {
+      getUser: jest.fn(),
+    },
+  },
+}))
+
+import {
+  DEFAULT_MEAL_SCHEDULE,
+  getCurrentMeal,
+  getRSVPCutoff,
+  normalizeMealSchedule,
+  validateMealSchedule,
+  formatMealWindow,
+  parsePlanMeals,
+  toMealKey,
+  type MealSchedule,
+} from '../meal-schedule'
+
+// Default schedule plus an evening snack between lunch and dinner
+const withSnacks = (): MealSchedule => {
+  const schedule = normalizeMealSchedule(DEFAULT_MEAL_SCHEDULE)
+  schedule.mealTypes.push({ key: 'snacks', name: 'Evening Snacks', icon: 'cookie' })
+  schedule.days.forEach((day) => {
+    day.snacks = { enabled: true, start: '17:00', end: '18:00' }
+  })
+  return schedule
+}
+
+// 2026-10-18 is a Sunday, 2026-10-19 a Monday
+const at = (date: string, time: string) => new Date(`${date}T${time}:00`)
+
+describe('Current Meal', () => {
+  it('should include grace periods around each window', () => {
+    expect(getCurrentMeal(DEFAULT_MEAL_SCHEDULE, at('2026-10-19', '07:00'))).toBe('breakfast')
+    expect(getCurrentMeal(DEFAULT_MEAL_SCHEDULE, at('2026-10-19', '11:00'))).toBe('breakfast')
+    expect(getCurrentMeal(DEFAULT_MEAL_SCHEDULE, at('2026-10-19', '11:01'))).toBeNull()
+    expect(getCurrentMeal(DEFAULT_MEAL_SCHEDULE, at('2026-10-19', '19:15'))).toBe('dinner')
+  })
+
+  it('should use the schedule for the current weekday', () => {
+    const schedule: MealSchedule = normalizeMealSchedule(DEFAULT_MEAL_SCHEDULE)
+    schedule.days[0].dinner = { enabled: true, start: '18:30', end: '20:30' }
+    schedule.days[0].lunch = { enabled: false, start: '12:30', end: '15:30' }
+
+    expect(getCurrentMeal(schedule, at('2026-10-18', '18:05'))).toBe('dinner')
+    expect(getCurrentMeal(schedule, at('2026-10-18', '13:00'))).toBeNull()
+    expect(getCurrentMeal(schedule, at('2026-10-19', '18:05'))).toBeNull()
+  })
+
+  it('should include custom meal types', () => {
+    const schedule = withSnacks()
+
+    expect(getCurrentMeal(schedule, at('2026-10-19', '17:30'))).toBe('snacks')
+    expect(validateMealSchedule(schedule)).toBeNull()
+  })
+})
+
+describe('Schedule Validation', () => {
+  it('should accept the default schedule', () => {
+    expect(validateMealSchedule(DEFAULT_MEAL_SCHEDULE)).toBeNull()
+  })
+
+  it('should reject windows that end before they start', () => {
+    const schedule = normalizeMealSchedule(DEFAULT_MEAL_SCHEDULE)
+    schedule.days[1].lunch = { enabled: true, start: '15:00', end: '13:00' }
+
+    expect(validateMealSchedule(schedule)).toContain('Monday Lunch')
+  })
+
+  it('should reject windows that overlap once grace is included', () => {
+    const schedule = normalizeMealSchedule(DEFAULT_MEAL_SCHEDULE)
+    schedule.days[1].lunch = { enabled: true, start: '11:00', end: '14:00' }
+
+    expect(validateMealSchedule(schedule)).toContain('overlap')
+  })
+
+  it('should reject duplicate meal type names', () => {
+    const schedule = withSnacks()
+    schedule.mealTypes[3].name = 'lunch'
+
+    expect(validateMealSchedule(schedule)).toContain('more than one meal')
+  })
+})
+
+describe('Plan Meals', () => {
+  it('should match meal type keys, legacy names and "all"', () => {
+    const schedule = withSnacks()
+
+    expect(parsePlanMeals('breakfast,snacks', schedule)).toEqual(['breakfast', 'snacks'])
+    expect(parsePlanMeals('Breakfast, Dinner', schedule)).toEqual(['breakfast', 'dinner'])
+    expect(parsePlanMeals('All', schedule)).toEqual(['breakfast', 'lunch', 'dinner', 'snacks'])
+    expect(parsePlanMeals('', schedule)).toEqual([])
+  })
+
+  it('should build keys from meal type names', () => {
+    expect(toMealKey('Evening Tea')).toBe('evening_tea')
+    expect(toMealKey(' 4pm Snack ')).toBe('meal_4pm_snack')
+  })
+})
+
+describe('Schedule Normalization', () => {
+  it('should fill missing or malformed values with defaults', () => {
+    const schedule = normalizeMealSchedule({
+      graceBeforeMinutes: 15,
+      days: [{ dinner: { enabled: true, start: '7pm', end: '21:00' } }],
+    })
+
+    expect(schedule.graceBeforeMinutes).toBe(15)
+    expect(schedule.graceAfterMinutes).toBe(DEFAULT_MEAL_SCHEDULE.graceAfterMinutes)
+    expect(schedule.days).toHaveLength(7)
+    expect(schedule.days[0].dinner).toEqual({ enabled: true, start: '19:30', end: '21:00' })
+    expect(formatMealWindow(schedule.days[0].dinner)).toBe('7:30 PM - 9:00 PM')
+  })
+})
+
+describe('RSVP Cut-off', () => {
+  it('should close RSVPs the configured time before the meal starts', () => {
+    const schedule = { ...normalizeMealSchedule(DEFAULT_MEAL_SCHEDULE), rsvpCutoffMinutes: 90 }
+
+    expect(getRSVPCutoff(schedule, '2026-10-19', 'lunch')).toEqual(at('2026-10-19', '11:00'))
+  })
+
+  it('should roll back to the previous day for early meals', () => {
+    const schedule = { ...normalizeMealSchedule(DEFAULT_MEAL_SCHEDULE), rsvpCutoffMinutes: 600 }
+
+    expect(getRSVPCutoff(schedule, '2026-10-19', 'breakfast')).toEqual(at('2026-10-18', '21:30'))
+  })
+
+  it('should have no cut-off for meals not served that day', () => {
+    const schedule = normalizeMealSchedule(DEFAULT_MEAL_SCHEDULE)
+    schedule.days[1].dinner.enabled = false
+
+    expect(getRSVPCutoff(schedule, '2026-10-19', 'dinner')).toBeNull()
+    expect(getRSVPCutoff(schedule, '2026-10-18', 'dinner')).not.toBeNull()
+  })
+
+  it('should default the cut-off for schedules saved before RSVPs', () => {
+    expect(normalizeMealSchedule({}).rsvpCutoffMinutes).toBe(DEFAULT_MEAL_SCHEDULE.rsvpCutoffMinutes)
+  })
+})
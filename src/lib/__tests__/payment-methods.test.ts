@@ -0,0 +1,123 @@
+/**
+ * Tests for the configurable payment methods
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import {
+  DEFAULT_PAYMENT_METHODS,
+  getBankPaymentMethods,
+  getPaymentMethodName,
+  getPaymentMethodStyle,
+  getUpiPaymentMethodKey,
+  normalizePaymentMethods,
+  toPaymentMethodKey,
+  validatePaymentMethodChoice,
+  validatePaymentMethods,
+  validatePaymentReference,
+  type PaymentMethod,
+} from '../payment-methods'
+import { summarizePaymentStats } from '../payments'
+
+const withCheque = (): PaymentMethod[] => [
+  ...DEFAULT_PAYMENT_METHODS,
+  { key: 'Cheque', name: 'Cheque', icon: 'checkbook', requiresReference: true, cashInHand: false },
+]
+
+describe('normalizePaymentMethods', () => {
+  it('falls back to the defaults when nothing usable is stored', () => {
+    expect(normalizePaymentMethods(null)).toEqual(DEFAULT_PAYMENT_METHODS)
+    expect(normalizePaymentMethods([{ name: 'No key' }])).toEqual(DEFAULT_PAYMENT_METHODS)
+  })
+
+  it('trims names and fills in missing fields', () => {
+    expect(normalizePaymentMethods([{ key: ' Cheque ', name: ' ', requiresReference: 'yes' }])).toEqual([
+      { key: 'Cheque', name: 'Cheque', icon: 'currency-inr', requiresReference: false, cashInHand: false },
+    ])
+  })
+})
+
+describe('validatePaymentMethods', () => {
+  it('accepts the defaults and a new method', () => {
+    expect(validatePaymentMethods(DEFAULT_PAYMENT_METHODS)).toBeNull()
+    expect(validatePaymentMethods(withCheque())).toBeNull()
+  })
+
+  it('rejects an empty list, blank names and duplicates', () => {
+    expect(validatePaymentMethods([])).toBe('Add at least one payment method')
+    expect(validatePaymentMethods([{ ...DEFAULT_PAYMENT_METHODS[0], name: ' ' }])).toBe(
+      'Every payment method needs a name'
+    )
+    expect(
+      validatePaymentMethods([...DEFAULT_PAYMENT_METHODS, { ...DEFAULT_PAYMENT_METHODS[1], key: 'upi-2', name: 'upi' }])
+    ).toBe('There is more than one payment method called upi')
+  })
+})
+
+describe('method display', () => {
+  it('builds keys from names', () => {
+    expect(toPaymentMethodKey('  Bank   Transfer ')).toBe('Bank Transfer')
+  })
+
+  it('shows removed methods by their key in grey', () => {
+    const methods = withCheque()
+    expect(getPaymentMethodName('Cheque', methods)).toBe('Cheque')
+    expect(getPaymentMethodName('Card', methods)).toBe('Card')
+    expect(getPaymentMethodName(null, methods)).toBe('N/A')
+    expect(getPaymentMethodStyle('Cash', methods)).toMatchObject({ icon: 'cash', color: '#10B981' })
+    expect(getPaymentMethodStyle('Card', methods)).toMatchObject({ icon: 'currency-inr', color: '#6B7280' })
+  })
+})
+
+describe('validatePaymentReference', () => {
+  it('requires a reference only for methods that need one', () => {
+    const methods = withCheque()
+    expect(validatePaymentReference('Cheque', ' ', methods)).toBe('Enter the reference number for Cheque payments')
+    expect(validatePaymentReference('Cheque', '004512', methods)).toBeNull()
+    expect(validatePaymentReference('Cash', null, methods)).toBeNull()
+  })
+
+  it('needs a known method for money taken outside the payment screen', () => {
+    const methods = withCheque()
+    expect(validatePaymentMethodChoice('', null, methods)).toBe('Select how the payment was made')
+    expect(validatePaymentMethodChoice('Barter', null, methods)).toBe('Unknown payment method: Barter')
+    expect(validatePaymentMethodChoice('Cheque', null, methods)).toBe('Enter the reference number for Cheque payments')
+    expect(validatePaymentMethodChoice('UPI', null, methods)).toBeNull()
+  })
+})
+
+describe('bank payment methods', () => {
+  it('leaves out cash in hand', () => {
+    expect(getBankPaymentMethods(withCheque()).map((method) => method.key)).toEqual(['UPI', 'Online', 'Cheque'])
+  })
+
+  it('records UPI requests as UPI while it is set up', () => {
+    expect(getUpiPaymentMethodKey(withCheque())).toBe('UPI')
+    expect(getUpiPaymentMethodKey(withCheque().filter((method) => method.key !== 'UPI'))).toBe('Online')
+    expect(getUpiPaymentMethodKey([DEFAULT_PAYMENT_METHODS[0]])).toBeNull()
+  })
+})
+
+describe('summarizePaymentStats by method', () => {
+  it('lists every method and totals cash in hand', () => {
+    const stats = summarizePaymentStats(
+      [
+        { amount: 1000, method: 'Cash', date: '2026-10-19' },
+        { amount: 2000, method: 'Cheque', date: '2026-10-02' },
+        { amount: 300, method: 'Card', date: '2026-10-03' },
+      ],
+      [],
+      '2026-10-19',
+      '2026-10-01',
+      withCheque()
+    )
+
+    expect(stats.byMethod).toEqual({ Cash: 1000, UPI: 0, Online: 0, Cheque: 2000, Card: 300 })
+    expect(stats.cashInHand).toBe(1000)
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * Tests for attendance QR payload handling
+ * Signature and expiry are checked server-side; these cover the client checks
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {
+    functions: {
+      invoke: jest.fn(),
+    },
+    auth: {
+      getSession: jest.fn(),
+    },
+  },
+}))
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js'
+import { supabase } from '../supabase'
+import {
+  parseQRPayload,
+  validateQRCode,
+  markAttendanceFromQR,
+  markAttendanceWithPin,
+  syncPendingScans,
+} from '../qr-attendance'
+import { getPendingScans } from '../attendance-queue'
+
+const SIGNED_PAYLOAD = 'mess-management://attendance?t=1760000000&n=abc123&s=c2lnbmF0dXJl'
+
+describe('QR Payload Parsing', () => {
+  it('should parse a signed payload', () => {
+    expect(parseQRPayload(SIGNED_PAYLOAD)).toEqual({
+      issuedAt: 1760000000,
+      nonce: 'abc123',
+      signature: 'c2lnbmF0dXJl',
+    })
+  })
+
+  it('should reject the old static codes', () => {
+    expect(validateQRCode('mess-management://attendance')).toBe(false)
+    expect(validateQRCode('mess://attendance')).toBe(false)
+  })
+
+  it('should reject payloads with missing or malformed fields', () => {
+    expect(validateQRCode('mess-management://attendance?t=1760000000&n=abc123')).toBe(false)
+    expect(validateQRCode('mess-management://attendance?t=soon&n=abc123&s=sig')).toBe(false)
+    expect(validateQRCode('https://example.com/?t=1760000000&n=abc123&s=sig')).toBe(false)
+    expect(validateQRCode('')).toBe(false)
+  })
+})
+
+describe('Mark Attendance From QR', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(supabase.auth.getSession as jest.Mock<any>).mockResolvedValue({
+      data: { session: { access_token: 'token', user: { id: 'user-1' } } },
+    })
+    return AsyncStorage.clear()
+  })
+
+  it('should send only the scanned payload to the server', async () => {
+    ;(supabase.functions.invoke as jest.Mock<any>).mockResolvedValue({
+      data: { success: true, message: 'Attendance marked successfully!', meal: 'lunch' },
+      error: null,
+    })
+
+    const result = await markAttendanceFromQR(SIGNED_PAYLOAD)
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('mark-attendance', {
+      body: { payload: SIGNED_PAYLOAD },
+      headers: { Authorization: 'Bearer token' },
+    })
+    expect(result).toEqual({ success: true, message: 'Attendance marked successfully!', meal: 'lunch' })
+  })
+
+  it('should pass through rejection reasons for expired codes', async () => {
+    ;(supabase.functions.invoke as jest.Mock<any>).mockResolvedValue({
+      data: { success: false, message: 'This QR code has expired.', rejectionReason: 'expired' },
+      error: null,
+    })
+
+    const result = await markAttendanceFromQR(SIGNED_PAYLOAD)
+
+    expect(result.success).toBe(false)
+    expect(result.rejectionReason).toBe('expired')
+  })
+
+  it('should queue the scan when the server cannot be reached', async () => {
+    ;(supabase.functions.invoke as jest.Mock<any>).mockResolvedValue({
+      data: null,
+      error: new FunctionsFetchError(new TypeError('Network request failed')),
+    })
+
+    const result = await markAttendanceFromQR(SIGNED_PAYLOAD)
+    const pending = await getPendingScans('user-1')
+
+    expect(result.success).toBe(false)
+    expect(result.queued).toBe(true)
+    expect(pending).toHaveLength(1)
+    expect(pending[0].payload).toBe(SIGNED_PAYLOAD)
+  })
+
+  it('should show server errors instead of queueing the scan', async () => {
+    ;(supabase.functions.invoke as jest.Mock<any>).mockResolvedValue({
+      data: null,
+      error: new FunctionsHttpError({ json: async () => ({ error: 'Invalid or expired token' }) }),
+    })
+
+    const result = await markAttendanceFromQR(SIGNED_PAYLOAD)
+
+    expect(result.success).toBe(false)
+    expect(result.queued).toBeUndefined()
+    expect(result.message).toBe('Invalid or expired token')
+    expect(await getPendingScans('user-1')).toHaveLength(0)
+  })
+
+  it('should require a session', async () => {
+    ;(supabase.auth.getSession as jest.Mock<any>).mockResolvedValue({
+      data: { session: null },
+    })
+
+    const result = await markAttendanceFromQR(SIGNED_PAYLOAD)
+
+    expect(result.success).toBe(false)
+    expect(supabase.functions.invoke).not.toHaveBeenCalled()
+  })
+})
+
+describe('Offline Scan Sync', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    ;(supabase.auth.getSession as jest.Mock<any>).mockResolvedValue({
+      data: { session: { access_token: 'token', user: { id: 'user-1' } } },
+    })
+    await AsyncStorage.clear()
+
+    // Queue one scan while offline
+    ;(supabase.functions.invoke as jest.Mock<any>).mockResolvedValueOnce({
+      data: null,
+      error: new FunctionsFetchError(new TypeError('Network request failed')),
+    })
+    await markAttendanceFromQR(SIGNED_PAYLOAD)
+  })
+
+  it('should flag the scan as queued and clear the queue once judged', async () => {
+    ;(supabase.functions.invoke as jest.Mock<any>).mockResolvedValue({
+      data: { success: false, message: 'This scan was not made during meal hours.' },
+      error: null,
+    })
+
+    const synced = await syncPendingScans('user-1')
+
+    expect(supabase.functions.invoke).toHaveBeenLastCalledWith('mark-attendance', {
+      body: { payload: SIGNED_PAYLOAD, queued: true },
+      headers: { Authorization: 'Bearer token' },
+    })
+    expect(synced).toHaveLength(1)
+    expect(synced[0].result.success).toBe(false)
+    expect(await getPendingScans('user-1')).toHaveLength(0)
+  })
+
+  it('should keep scans queued while still offline', async () => {
+    ;(supabase.functions.invoke as jest.Mock<any>).mockResolvedValue({
+      data: null,
+      error: new FunctionsFetchError(new TypeError('Network request failed')),
+    })
+
+    const synced = await syncPendingScans('user-1')
+    const pending = await getPendingScans('user-1')
+
+    expect(synced).toHaveLength(0)
+    expect(pending).toHaveLength(1)
+    expect(pending[0].attempts).toBe(1)
+  })
+
+  it('should not sync another account\'s scans', async () => {
+    const synced = await syncPendingScans('user-2')
+
+    expect(synced).toHaveLength(0)
+    expect(await getPendingScans('user-1')).toHaveLength(1)
+  })
+})
+
+describe('Mark Attendance With PIN', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(supabase.auth.getSession as jest.Mock<any>).mockResolvedValue({
+      data: { session: { access_token: 'token', user: { id: 'admin-1' } } },
+    })
+    return AsyncStorage.clear()
+  })
+
+  it('should send the roll number and PIN to the server', async () => {
+    ;(supabase.functions.invoke as jest.Mock<any>).mockResolvedValue({
+      data: { success: true, message: 'Attendance marked successfully!', meal: 'dinner', studentName: 'Asha' },
+      error: null,
+    })
+
+    const result = await markAttendanceWithPin('R-101', '4821')
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('pin-attendance', {
+      body: { rollNumber: 'R-101', pin: '4821' },
+      headers: { Authorization: 'Bearer token' },
+    })
+    expect(result.success).toBe(true)
+    expect(result.studentName).toBe('Asha')
+  })
+
+  it('should not queue PIN entries when offline', async () => {
+    ;(supabase.functions.invoke as jest.Mock<any>).mockResolvedValue({
+      data: null,
+      error: new FunctionsFetchError(new TypeError('Network request failed')),
+    })
+
+    const result = await markAttendanceWithPin('R-101', '4821')
+
+    expect(result.success).toBe(false)
+    expect(result.queued).toBeUndefined()
+    expect(await getPendingScans('admin-1')).toHaveLength(0)
+  })
+})
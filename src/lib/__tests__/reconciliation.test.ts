@@ -0,0 +1,32 @@
+/**
+ * Tests for balance check descriptions
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import { describeBalanceIssue } from '../reconciliation'
+
+describe('describeBalanceIssue', () => {
+  it('names a payment missing from the ledger', () => {
+    expect(
+      describeBalanceIssue({ type: 'payment_missing', recordId: 42, date: '2025-03-05', expected: 1500, recorded: null })
+    ).toBe('Payment #42 of ₹1500.00 on 05 Mar 2025 is not in the ledger')
+  })
+
+  it('shows both amounts when a record and its entry disagree', () => {
+    expect(
+      describeBalanceIssue({ type: 'guest_meal_mismatch', recordId: 7, date: '2025-03-01', expected: 240, recorded: 120 })
+    ).toBe('Guest meal #7 on 01 Mar 2025 is ₹240.00 but the ledger has ₹120.00')
+  })
+
+  it('compares a term\'s paid with its payments', () => {
+    expect(
+      describeBalanceIssue({ type: 'period_paid', recordId: 3, date: null, expected: 2000, recorded: 2500 })
+    ).toBe('Plan term #3 shows ₹2500.00 paid; its payments add up to ₹2000.00')
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * Tests for refund limits and their effect on collection stats
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+
+import { getRefundableAmount, validateRefund } from '../refunds'
+import { summarizePaymentStats } from '../payments'
+
+describe('getRefundableAmount', () => {
+  it('subtracts earlier refunds against the same payment only', () => {
+    const refunds = [
+      { type: 'refund' as const, amount: 300, paymentId: 5 },
+      { type: 'refund' as const, amount: 150.5, paymentId: 5 },
+      { type: 'refund' as const, amount: 999, paymentId: 6 },
+      { type: 'credit_note' as const, amount: 200, paymentId: null },
+    ]
+    expect(getRefundableAmount(1000, refunds, 5)).toBe(549.5)
+    expect(getRefundableAmount(1000, [], 5)).toBe(1000)
+  })
+
+  it('never goes below zero', () => {
+    expect(getRefundableAmount(100, [{ type: 'refund', amount: 150, paymentId: 1 }], 1)).toBe(0)
+  })
+})
+
+describe('validateRefund', () => {
+  const refund = { type: 'refund' as const, amount: 500, method: 'Cash', reason: 'Left mid-term' }
+
+  it('accepts a refund within the limit', () => {
+    expect(validateRefund(refund, 500)).toBeNull()
+  })
+
+  it('rejects refunds over the limit or without a method', () => {
+    expect(validateRefund(refund, 499.99)).toBe('Refund can be at most ₹499.99')
+    expect(validateRefund({ ...refund, method: null }, 500)).toBe('Choose how the refund was paid')
+  })
+
+  it('does not limit credit notes or ask for a method', () => {
+    expect(validateRefund({ ...refund, type: 'credit_note', method: null }, 0)).toBeNull()
+  })
+
+  it('requires a positive amount and a reason', () => {
+    expect(validateRefund({ ...refund, amount: 0 }, 500)).toBe('Enter an amount greater than zero')
+    expect(validateRefund({ ...refund, reason: '   ' }, 500)).toBe('A reason is required')
+    expect(validateRefund({ ...refund, reason: 'x'.repeat(501) }, 500)).toMatch(/at most 500/)
+  })
+})
+
+describe('summarizePaymentStats', () => {
+  it('takes refunds off the totals for their date and method', () => {
+    const stats = summarizePaymentStats(
+      [
+        { amount: 1000, method: 'Cash', date: '2026-10-19' },
+        { amount: 2000, method: 'UPI', date: '2026-10-02' },
+        { amount: 500, method: 'Online', date: '2026-09-30' },
+      ],
+      [
+        { amount: 300, method: 'Cash', date: '2026-10-19' },
+        { amount: 100, method: 'Online', date: '2026-10-05' },
+      ],
+      '2026-10-19',
+      '2026-10-01'
+    )
+
+    expect(stats).toEqual({
+      total: 3100,
+      today: 700,
+      thisMonth: 2600,
+      refunded: 400,
+      byMethod: { Cash: 700, UPI: 2000, Online: 400 },
+      cashInHand: 700,
+    })
+  })
+})
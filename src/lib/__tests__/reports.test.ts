@@ -0,0 +1,160 @@
+/**
+ * Tests for on-device report generation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client and native modules used for sharing
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+jest.mock('expo-print', () => ({}))
+jest.mock('expo-sharing', () => ({}))
+jest.mock('expo-file-system/legacy', () => ({}))
+
+import {
+  ATTENDANCE_CELL,
+  buildAttendanceMatrix,
+  buildPaymentsRegister,
+  escapeCsvValue,
+  reportToCsv,
+  reportToHtml,
+  type ReportTable,
+} from '../reports'
+import { DEFAULT_MEAL_TYPES, normalizeMealSchedule } from '../meal-schedule'
+import type { Student } from '../students'
+import type { Payment } from '../payments'
+
+const schedule = normalizeMealSchedule({ mealTypes: DEFAULT_MEAL_TYPES })
+
+const makeStudent = (overrides: Partial<Student>): Student => ({
+  id: 1,
+  name: 'Student',
+  rollNumber: null,
+  email: 'student@example.com',
+  contactNumber: null,
+  planId: 1,
+  plan: { id: 1, name: 'Full', meals: 'breakfast,lunch,dinner', price: 3000, durationDays: 30 },
+  joinDate: '2025-01-01',
+  endDate: '2025-12-31',
+  price: 3000,
+  paid: 0,
+  balance: 3000,
+  credit: 0,
+  guestCharges: 0,
+  pin: '1234',
+  isActive: true,
+  ...overrides,
+})
+
+describe('CSV Output', () => {
+  it('should quote values containing commas, quotes or line breaks', () => {
+    expect(escapeCsvValue('plain')).toBe('plain')
+    expect(escapeCsvValue('Doe, Jane')).toBe('"Doe, Jane"')
+    expect(escapeCsvValue('6" sub')).toBe('"6"" sub"')
+    expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"')
+    expect(escapeCsvValue(null)).toBe('')
+  })
+
+  it('should write a header row and fixed-point currency', () => {
+    const report: ReportTable = {
+      title: 'Test',
+      filename: 'test',
+      filters: [],
+      columns: [{ header: 'Name' }, { header: 'Amount', type: 'currency' }],
+      rows: [['Asha', 1500], ['Ravi, K', 20.5]],
+      summary: [],
+    }
+
+    expect(reportToCsv(report)).toBe('Name,Amount\r\nAsha,1500.00\r\n"Ravi, K",20.50')
+  })
+})
+
+describe('PDF Output', () => {
+  it('should escape HTML and merge grouped headers', () => {
+    const html = reportToHtml({
+      title: 'Report <1>',
+      filename: 'test',
+      filters: [],
+      columns: [
+        { header: 'Name' },
+        { header: '01 Breakfast', label: 'B', group: '01' },
+        { header: '01 Lunch', label: 'L', group: '01' },
+      ],
+      rows: [['<script>', 'P', '']],
+      summary: [],
+    })
+
+    expect(html).toContain('Report &lt;1&gt;')
+    expect(html).toContain('&lt;script&gt;')
+    expect(html).toContain('<th colspan="2">01</th>')
+  })
+})
+
+describe('Attendance Matrix', () => {
+  const params = { month: '2025-02', filter: 'all' as const }
+
+  it('should have a column per day and meal plus totals', () => {
+    const report = buildAttendanceMatrix([], [], [], params, schedule)
+    // Name, roll, 28 days x 3 meals, 3 meal totals, overall total
+    expect(report.columns).toHaveLength(2 + 28 * 3 + 3 + 1)
+    expect(report.columns[2].header).toBe('01 Breakfast')
+  })
+
+  it('should mark present, leave and days outside the plan', () => {
+    const student = makeStudent({
+      id: 7,
+      name: 'Asha',
+      plan: { id: 2, name: 'Lunch only', meals: 'lunch', price: 1000, durationDays: 30 },
+      joinDate: '2025-02-02',
+      endDate: '2025-02-28',
+    })
+    const report = buildAttendanceMatrix(
+      [student],
+      [{ studentId: 7, date: '2025-02-03', mealMarks: { lunch: { source: 'qr' } } }],
+      [{ studentId: 7, startDate: '2025-02-04', endDate: '2025-02-05' }],
+      params,
+      schedule
+    )
+
+    const row = report.rows[0]
+    const cell = (day: number, mealIndex: number) => row[2 + (day - 1) * 3 + mealIndex]
+
+    expect(cell(1, 1)).toBe(ATTENDANCE_CELL.notApplicable) // Before joining
+    expect(cell(2, 0)).toBe(ATTENDANCE_CELL.notApplicable) // Breakfast not in plan
+    expect(cell(2, 1)).toBe(ATTENDANCE_CELL.absent)
+    expect(cell(3, 1)).toBe(ATTENDANCE_CELL.present)
+    expect(cell(4, 1)).toBe(ATTENDANCE_CELL.leave)
+    expect(row.slice(-4)).toEqual([0, 1, 0, 1])
+  })
+})
+
+describe('Payments Register', () => {
+  it('should total payments by method', () => {
+    const payment = (id: number, amount: number, method: string | null) =>
+      ({
+        id,
+        studentId: 1,
+        amount,
+        paymentDate: '2025-02-01',
+        method,
+        createdAt: '',
+        updatedAt: '',
+        student: { id: 1, name: 'Asha', rollNumber: 'R1', email: '', paid: 0, balance: 0 },
+      }) as Payment
+
+    const report = buildPaymentsRegister(
+      [payment(1, 1000, 'Cash'), payment(2, 500, 'UPI'), payment(3, 250, 'Cash')],
+      { startDate: '2025-02-01', endDate: '2025-02-28' }
+    )
+
+    expect(report.rows).toHaveLength(3)
+    expect(report.summary).toEqual([
+      { label: 'Payments', value: '3' },
+      { label: 'Total Collected', value: '₹1,750.00' },
+      { label: 'Cash', value: '₹1,250.00' },
+      { label: 'UPI', value: '₹500.00' },
+    ])
+    expect(report.filename).toBe('payments-2025-02-01-to-2025-02-28')
+  })
+})
@@ -0,0 +1,190 @@
+/**
+ * Tests for bank statement parsing and matching
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client and native modules used for file access
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+jest.mock('expo-document-picker', () => ({}))
+jest.mock('expo-file-system/legacy', () => ({}))
+jest.mock('expo-image-picker', () => ({}))
+
+import {
+  assignStatementRow,
+  extractUtr,
+  nameSimilarity,
+  parseStatementAmount,
+  parseStatementDate,
+  parseStatementImport,
+  previewStatementImport,
+  type StatementImportContext,
+} from '../statement-import'
+import { DEFAULT_PAYMENT_METHODS } from '../payment-methods'
+
+const context: StatementImportContext = {
+  students: [
+    { id: 1, name: 'Asha Rao', rollNumber: 'STU-0001', balance: 0 },
+    { id: 2, name: 'Ravi Kumar', rollNumber: 'STU-0002', balance: 3500 },
+    { id: 3, name: 'Ravi Shah', rollNumber: 'STU-0003', balance: 0 },
+    { id: 4, name: 'Meena Iyer', rollNumber: 'STU-0004', balance: 3500 },
+  ],
+  payments: [
+    { id: 10, studentId: 1, studentName: 'Asha Rao', amount: 3500, paymentDate: '2025-07-02', method: 'UPI', reference: '412345678901', statementStatus: null },
+    { id: 11, studentId: 4, studentName: 'Meena Iyer', amount: 3500, paymentDate: '2025-07-04', method: 'Online', reference: null, statementStatus: null },
+    { id: 12, studentId: 3, studentName: 'Ravi Shah', amount: 1200, paymentDate: '2025-07-06', method: 'UPI', reference: null, statementStatus: null },
+    { id: 13, studentId: 3, studentName: 'Ravi Shah', amount: 800, paymentDate: '2025-07-07', method: 'Cash', reference: null, statementStatus: null },
+  ],
+  requests: [
+    { id: 5, studentId: 2, studentName: 'Ravi Kumar', amount: 3000, reference: '498765432109' },
+  ],
+  methods: DEFAULT_PAYMENT_METHODS,
+}
+
+const statement = [
+  'Account No,12345678',
+  'Statement of account,,,,',
+  'Txn Date,Narration,Withdrawal Amt,Deposit Amt,Balance',
+  '02/07/2025,UPI/412345678901/ASHA RAO/asharao@okaxis,,"3,500.00",10000',
+  '03-Jul-2025,UPI/498765432109/RAVI KUMAR/ravik@ybl,,3500.00,13500',
+  '04/07/2025,NEFT-MEENA IYER,,3500,17000',
+  '05/07/2025,ATM WITHDRAWAL,2000,,15000',
+  '06/07/2025,UPI/411122223333/RAVI K/rk@oksbi,,3500,18500',
+  '07/07/2025,IMPS/SBI/UNKNOWN SENDER,,900,19400',
+].join('\n')
+
+describe('parseStatementAmount', () => {
+  it('reads bank amount formats', () => {
+    expect(parseStatementAmount('3,500.00')).toBe(3500)
+    expect(parseStatementAmount('₹ 1,200')).toBe(1200)
+    expect(parseStatementAmount('3500 CR')).toBe(3500)
+    expect(parseStatementAmount('3500 Dr')).toBe(-3500)
+    expect(parseStatementAmount('(200.00)')).toBe(-200)
+  })
+
+  it('tells blank cells from unreadable ones', () => {
+    expect(parseStatementAmount('')).toBeUndefined()
+    expect(parseStatementAmount('-')).toBeUndefined()
+    expect(parseStatementAmount('abc')).toBeNull()
+  })
+})
+
+describe('parseStatementDate', () => {
+  it('accepts import formats, bank month names and a trailing time', () => {
+    expect(parseStatementDate('2025-07-02')).toBe('2025-07-02')
+    expect(parseStatementDate('02-Jul-2025')).toBe('2025-07-02')
+    expect(parseStatementDate('02 JUL 2025')).toBe('2025-07-02')
+    expect(parseStatementDate('02/07/25')).toBe('2025-07-02')
+    expect(parseStatementDate('02/07/2025 10:15:22')).toBe('2025-07-02')
+    expect(parseStatementDate('31/02/2025')).toBeNull()
+  })
+})
+
+describe('extractUtr and nameSimilarity', () => {
+  it('finds the 12-digit UTR in a narration', () => {
+    expect(extractUtr('UPI/412345678901/ASHA RAO/asharao@okaxis')).toBe('412345678901')
+    expect(extractUtr('NEFT-MEENA IYER')).toBeNull()
+  })
+
+  it('scores the share of the name found, including run-together VPAs', () => {
+    expect(nameSimilarity('Asha Rao', 'UPI/412345678901/ASHA RAO')).toBe(1)
+    expect(nameSimilarity('Asha Rao', 'asharao@okaxis')).toBe(1)
+    expect(nameSimilarity('Ravi Kumar', 'RAVI K')).toBe(0.5)
+    expect(nameSimilarity('Meena Iyer', 'ATM WITHDRAWAL')).toBe(0)
+  })
+})
+
+describe('parseStatementImport', () => {
+  it('finds the header below the account details and keeps only credits', () => {
+    const { file, error } = parseStatementImport(statement)
+
+    expect(error).toBeNull()
+    expect(file!.entries).toHaveLength(5)
+    expect(file!.skippedCount).toBe(1)
+    expect(file!.startDate).toBe('2025-07-02')
+    expect(file!.endDate).toBe('2025-07-07')
+    expect(file!.entries[0]).toMatchObject({
+      line: 4,
+      date: '2025-07-02',
+      amount: 3500,
+      reference: '412345678901',
+      method: 'UPI',
+      errors: [],
+    })
+    expect(file!.entries[2]).toMatchObject({ reference: null, method: 'Online' })
+  })
+
+  it('rejects files without date and amount columns', () => {
+    const { error } = parseStatementImport('Name,Remarks\nAsha,paid')
+    expect(error?.message).toBe('No header with date and amount columns found')
+  })
+
+  it('reports rows it cannot read', () => {
+    const { file } = parseStatementImport('Date,Amount,Type\nsoon,500,CR\n02/07/2025,500,DR')
+    expect(file!.entries).toHaveLength(1)
+    expect(file!.entries[0].errors).toEqual(['Invalid date "soon"'])
+    expect(file!.skippedCount).toBe(1)
+  })
+})
+
+describe('previewStatementImport', () => {
+  const { file } = parseStatementImport(statement)
+  const preview = previewStatementImport(file!, context)
+  const byLine = (line: number) => preview.rows.find((row) => row.line === line)!
+
+  it('matches recorded payments by reference, then by amount and name', () => {
+    expect(byLine(4)).toMatchObject({ status: 'recorded', paymentId: 10, matchedBy: 'reference' })
+    expect(byLine(6)).toMatchObject({ status: 'recorded', paymentId: 11, matchedBy: 'amount and name' })
+  })
+
+  it('confirms pending UPI payments by reference and notes a different amount', () => {
+    expect(byLine(5)).toMatchObject({ status: 'request', requestId: 5, studentId: 2 })
+    expect(byLine(5).notes).toEqual(['Student submitted ₹3,000; the bank amount is recorded'])
+  })
+
+  it('proposes new payments by name, using the balance to break ties', () => {
+    expect(byLine(8)).toMatchObject({ status: 'new', studentId: 2, matchedBy: 'name', method: 'UPI' })
+    expect(byLine(9)).toMatchObject({ status: 'unmatched', studentId: null })
+  })
+
+  it('lists UPI and Online payments the bank never saw', () => {
+    expect(preview.missingPayments.map((payment) => payment.id)).toEqual([12])
+    expect(preview).toMatchObject({ recordedCount: 2, requestCount: 1, newCount: 1, unmatchedCount: 1, errorCount: 0 })
+  })
+
+  it('follows the configured methods that reach the bank', () => {
+    const configured = previewStatementImport(file!, {
+      ...context,
+      methods: [
+        DEFAULT_PAYMENT_METHODS[0],
+        { ...DEFAULT_PAYMENT_METHODS[1], cashInHand: true },
+        { key: 'Bank Transfer', name: 'Bank Transfer', icon: 'bank', requiresReference: false, cashInHand: false },
+      ],
+    })
+    expect(configured.rows.find((row) => row.line === 8)).toMatchObject({ status: 'new', method: 'Bank Transfer' })
+    expect(configured.missingPayments).toEqual([])
+  })
+
+  it('lets the admin assign or leave out a credit', () => {
+    const assigned = assignStatementRow(preview, 9, { id: 3, name: 'Ravi Shah' })
+    expect(assigned.rows.find((row) => row.line === 9)).toMatchObject({ status: 'new', studentId: 3, matchedBy: 'assigned' })
+    expect(assigned.newCount).toBe(2)
+
+    const leftOut = assignStatementRow(assigned, 8, null)
+    expect(leftOut.rows.find((row) => row.line === 8)).toMatchObject({ status: 'unmatched', studentId: null })
+    expect(leftOut.newCount).toBe(1)
+
+    // Matched rows aren't reassigned
+    expect(assignStatementRow(preview, 4, null).rows.find((row) => row.line === 4)!.status).toBe('recorded')
+  })
+
+  it('flags a reference that appears twice in the file', () => {
+    const { file: duplicated } = parseStatementImport(
+      'Date,Amount,UTR\n02/07/2025,100,499999999999\n03/07/2025,100,499999999999'
+    )
+    const result = previewStatementImport(duplicated!, context)
+    expect(result.rows[1]).toMatchObject({ status: 'error', errors: ['Same reference as line 2'] })
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Tests for CSV parsing and bulk student import validation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client and native modules used for file access
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+jest.mock('expo-document-picker', () => ({}))
+jest.mock('expo-file-system/legacy', () => ({}))
+jest.mock('expo-print', () => ({}))
+jest.mock('expo-sharing', () => ({}))
+
+import { parseCsv, parseImportDate } from '../csv'
+import { buildStudentImportResults, parseStudentImport } from '../student-import'
+
+const plans = [
+  { id: 1, name: 'Full Board' },
+  { id: 2, name: 'Lunch Only' },
+]
+
+const HEADER = 'Name,Email,Contact,Plan,Join Date,Paid,Method'
+
+describe('CSV Parsing', () => {
+  it('should split rows and cells', () => {
+    expect(parseCsv('a,b\r\nc,d\n')).toEqual([['a', 'b'], ['c', 'd']])
+  })
+
+  it('should handle quoted cells with commas, quotes and line breaks', () => {
+    expect(parseCsv('"Doe, Jane","6"" sub","two\nlines"')).toEqual([['Doe, Jane', '6" sub', 'two\nlines']])
+  })
+
+  it('should drop blank lines and a byte order mark', () => {
+    expect(parseCsv('\uFEFFname\n\n,\nAsha\n')).toEqual([['name'], ['Asha']])
+  })
+})
+
+describe('Import Dates', () => {
+  it('should accept ISO and day-first dates', () => {
+    expect(parseImportDate('2025-07-01')).toBe('2025-07-01')
+    expect(parseImportDate('01/07/2025')).toBe('2025-07-01')
+    expect(parseImportDate('1/7/2025')).toBe('2025-07-01')
+  })
+
+  it('should reject impossible dates', () => {
+    expect(parseImportDate('2025-02-30')).toBeNull()
+    expect(parseImportDate('31/31/2025')).toBeNull()
+    expect(parseImportDate('next monday')).toBeNull()
+  })
+})
+
+describe('Student Import Validation', () => {
+  it('should report missing columns', () => {
+    const result = parseStudentImport('Name,Email\nAsha,asha@example.com', plans)
+    expect(result.error?.message).toBe('Missing columns: contact, plan, join date')
+  })
+
+  it('should accept valid rows and match plans by name', () => {
+    const result = parseStudentImport(
+      `${HEADER}\nAsha,ASHA@example.com,9876543210,full board,01/07/2025,"1,500",upi`,
+      plans
+    )
+
+    expect(result.preview?.validCount).toBe(1)
+    expect(result.preview?.rows[0]).toMatchObject({
+      line: 2,
+      email: 'asha@example.com',
+      planId: 1,
+      joinDate: '2025-07-01',
+      paid: 1500,
+      method: 'UPI',
+      errors: [],
+    })
+  })
+
+  it('should need a known payment method for an amount paid', () => {
+    const csv = [
+      HEADER,
+      'Asha,asha@example.com,98765,Full Board,2025-07-01,1500,',
+      'Ravi,ravi@example.com,98765,Full Board,2025-07-01,1500,Barter',
+      'Meena,meena@example.com,98765,Full Board,2025-07-01,,',
+    ].join('\n')
+
+    const errors = parseStudentImport(csv, plans).preview!.rows.map((row) => row.errors)
+
+    expect(errors[0]).toEqual(['Select how the payment was made'])
+    expect(errors[1]).toEqual(['Unknown payment method: Barter'])
+    expect(errors[2]).toEqual([])
+  })
+
+  it('should flag duplicates, unknown plans, bad dates and registered emails', () => {
+    const csv = [
+      HEADER,
+      'Asha,asha@example.com,98765,Full Board,2025-07-01,',
+      'Asha Again,asha@example.com,98765,Full Board,2025-07-01,',
+      'Ravi,ravi@example.com,98765,Dinner Only,2025-07-01,',
+      'Meena,meena@example.com,98765,Lunch Only,2025-13-01,',
+      'Kiran,kiran@example.com,98765,Lunch Only,2025-07-01,-5',
+      'Old,old@example.com,98765,Lunch Only,2025-07-01,',
+    ].join('\n')
+
+    const result = parseStudentImport(csv, plans, new Set(['old@example.com']))
+    const errors = result.preview!.rows.map((row) => row.errors)
+
+    expect(errors[0]).toEqual([])
+    expect(errors[1]).toEqual(['Duplicate of line 2'])
+    expect(errors[2]).toEqual(['Unknown plan "Dinner Only"'])
+    expect(errors[3][0]).toMatch(/Invalid join date/)
+    expect(errors[4]).toEqual(['Invalid paid amount "-5"'])
+    expect(errors[5]).toEqual(['Email already registered'])
+    expect(result.preview?.errorCount).toBe(5)
+  })
+})
+
+describe('Import Results File', () => {
+  it('should list created, failed and skipped rows in file order', () => {
+    const report = buildStudentImportResults(
+      [
+        { line: 3, name: 'Ravi', email: 'ravi@example.com', success: false, error: 'Email already in use' },
+        { line: 2, name: 'Asha', email: 'asha@example.com', success: true, rollNumber: 'STU-0042', pin: '1234', password: 'Secret1!' },
+      ],
+      [
+        {
+          line: 4,
+          name: 'Meena',
+          email: 'meena@example.com',
+          contactNumber: '98765',
+          planName: 'Dinner Only',
+          planId: null,
+          joinDate: '2025-07-01',
+          paid: 0,
+          method: null,
+          reference: null,
+          errors: ['Unknown plan "Dinner Only"'],
+        },
+      ]
+    )
+
+    expect(report.rows.map((row) => row[3])).toEqual(['Created', 'Failed', 'Skipped'])
+    expect(report.rows[0].slice(4, 7)).toEqual(['STU-0042', 'Secret1!', '1234'])
+    expect(report.summary).toEqual([
+      { label: 'Created', value: '1' },
+      { label: 'Failed', value: '1' },
+      { label: 'Skipped', value: '1' },
+    ])
+  })
+})
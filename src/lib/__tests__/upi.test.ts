@@ -0,0 +1,40 @@
+/**
+ * Tests for UPI payment links and reference checks
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+// Mock Supabase client and native modules used for screenshots
+jest.mock('../supabase', () => ({
+  supabase: {},
+}))
+jest.mock('expo-image-picker', () => ({}))
+jest.mock('expo-file-system/legacy', () => ({}))
+
+import { buildUpiLink, normalizeUpiReference, validateUpiReference } from '../upi'
+
+describe('buildUpiLink', () => {
+  it('encodes the payee, amount and note', () => {
+    expect(buildUpiLink({ vpa: 'mess@okbank', payeeName: 'Sai Mess & Canteen', amount: 2500, note: 'Mess fees' }))
+      .toBe('upi://pay?pa=mess%40okbank&pn=Sai%20Mess%20%26%20Canteen&am=2500.00&cu=INR&tn=Mess%20fees')
+  })
+
+  it('rounds the amount to paise and leaves the note out when empty', () => {
+    expect(buildUpiLink({ vpa: 'mess@okbank', payeeName: 'Mess', amount: 1234.567 }))
+      .toBe('upi://pay?pa=mess%40okbank&pn=Mess&am=1234.57&cu=INR')
+  })
+})
+
+describe('validateUpiReference', () => {
+  it('accepts UTRs and transaction ids, ignoring spaces and case', () => {
+    expect(normalizeUpiReference(' 4123 4567 8901 ')).toBe('412345678901')
+    expect(validateUpiReference('4123 4567 8901')).toBeNull()
+    expect(validateUpiReference('t2410191234abcd')).toBeNull()
+  })
+
+  it('rejects empty, short or punctuated references', () => {
+    expect(validateUpiReference('  ')).toBe('Enter the UTR / transaction ID shown in your UPI app')
+    expect(validateUpiReference('12345')).toBe('The reference should be 6 to 35 letters or digits')
+    expect(validateUpiReference('4123-4567-8901')).toBe('The reference should be 6 to 35 letters or digits')
+  })
+})
@@ -35,7 +35,7 @@ export interface AdminAnnouncement {
  * Read file as ArrayBuffer for Supabase Storage upload
  * (Same pattern as rental app)
  */
-const readFileAsArrayBuffer = async (uri: string): Promise<ArrayBuffer> => {
+export const readFileAsArrayBuffer = async (uri: string): Promise<ArrayBuffer> => {
   try {
     // Use legacy FileSystem API (works with Expo SDK 54)
     const base64 = await FileSystem.readAsStringAsync(uri, {
@@ -64,7 +64,7 @@ const MAX_IMAGE_DIMENSION = 2048 // Max width or height in pixels
 /**
  * Validate image file before upload
  */
-async function validateImageFile(imageUri: string): Promise<{ valid: true } | { valid: false; error: Error }> {
+export async function validateImageFile(imageUri: string): Promise<{ valid: true } | { valid: false; error: Error }> {
   try {
     // Get file info
     const fileInfo = await FileSystem.getInfoAsync(imageUri)
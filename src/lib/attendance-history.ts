@@ -0,0 +1,104 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import type { MealKey } from './meal-schedule'
+import type { MealMarks } from './attendance'
+
+// What a manual change did to the day's attendance record
+export type AttendanceChangeAction = 'create' | 'update' | 'delete'
+
+export const ATTENDANCE_CHANGE_ACTION_LABELS: Record<AttendanceChangeAction, string> = {
+  create: 'Added',
+  update: 'Edited',
+  delete: 'Deleted',
+}
+
+// Where a change came from: made in the app, or applied from a spreadsheet
+export type AttendanceChangeSource = 'manual' | 'import'
+
+export const MAX_CHANGE_REASON_LENGTH = 500
+
+// One logged manual change to a student's attendance for a day
+export interface AttendanceChange {
+  id: number
+  attendanceId: number | null
+  studentId: number
+  date: string
+  action: AttendanceChangeAction
+  previousMarks: MealMarks
+  newMarks: MealMarks
+  reason: string
+  source: AttendanceChangeSource
+  changedBy: string | null
+  changedByEmail: string | null
+  changedAt: string
+}
+
+/**
+ * Check the reason given for a manual change
+ * Returns an error message, or null when it's fine
+ */
+export function validateChangeReason(reason: string | null | undefined): string | null {
+  const trimmed = (reason || '').trim()
+  if (!trimmed) {
+    return 'A reason is required to change attendance'
+  }
+  if (trimmed.length > MAX_CHANGE_REASON_LENGTH) {
+    return `Reason must be ${MAX_CHANGE_REASON_LENGTH} characters or less`
+  }
+  return null
+}
+
+/**
+ * Meals marked and unmarked between two versions of a record
+ */
+export function diffMealMarks(
+  previous: MealMarks | null | undefined,
+  next: MealMarks | null | undefined
+): { added: MealKey[]; removed: MealKey[] } {
+  const before = Object.keys(previous || {})
+  const after = Object.keys(next || {})
+
+  return {
+    added: after.filter((meal) => !before.includes(meal)),
+    removed: before.filter((meal) => !after.includes(meal)),
+  }
+}
+
+/**
+ * Get the logged changes for a student, newest first
+ * Pass a date to see a single day's history.
+ */
+export async function getAttendanceChanges(
+  params: { studentId: number; date?: string; limit?: number }
+): Promise<{ changes: AttendanceChange[]; error: null } | { changes: null; error: Error }> {
+  try {
+    let query = supabase
+      .from('AttendanceChange')
+      .select('*')
+      .eq('studentId', params.studentId)
+      .order('changedAt', { ascending: false })
+      .limit(params.limit ?? 50)
+
+    if (params.date) {
+      query = query.eq('date', params.date)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Error fetching attendance changes', error as Error, params)
+      return { changes: null, error: new Error(error.message) }
+    }
+
+    return {
+      changes: (data || []).map((row) => ({ ...row, date: String(row.date).slice(0, 10) })) as AttendanceChange[],
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Unexpected error fetching attendance changes', error as Error, params)
+    return {
+      changes: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch attendance changes'),
+    }
+  }
+}
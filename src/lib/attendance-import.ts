@@ -0,0 +1,369 @@
+import { format } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { normalizeCsvHeader, parseCsv, parseImportDate } from './csv'
+import { getMealName, parsePlanMeals, type MealKey, type MealSchedule } from './meal-schedule'
+import { applyMealMarks, type MealMarks } from './attendance'
+
+// Key columns: the label shown to admins and the header spellings accepted
+// (compared after normalizeCsvHeader). Meal columns are matched against the
+// meal types' keys and names.
+export const ATTENDANCE_IMPORT_COLUMNS = {
+  rollNumber: { label: 'roll number', aliases: ['rollnumber', 'rollno', 'roll'] },
+  date: { label: 'date', aliases: ['date', 'attendancedate'] },
+} as const
+
+type AttendanceImportField = keyof typeof ATTENDANCE_IMPORT_COLUMNS
+
+// Rows applied in one import-attendance request (and one transaction)
+export const MAX_ATTENDANCE_IMPORT_ROWS = 2000
+
+// Cell values that mark or unmark a meal; a blank cell leaves it as it is
+const PRESENT_VALUES = ['1', 'y', 'yes', 'x', 'p', 'present', 'true']
+const ABSENT_VALUES = ['0', 'n', 'no', 'a', 'absent', 'false']
+
+// One row of the file, as read before looking anything up
+export interface AttendanceImportEntry {
+  line: number // Line in the CSV file (the header is line 1)
+  rollNumber: string
+  date: string // "YYYY-MM-DD" when valid, otherwise as written
+  meals: Partial<Record<MealKey, boolean>> // true marks a meal, false unmarks it
+  errors: string[]
+}
+
+export interface AttendanceImportFile {
+  meals: MealKey[] // Meal columns found in the header, in schedule order
+  entries: AttendanceImportEntry[]
+}
+
+// What the preview needs to know about a student in the file
+export interface AttendanceImportStudent {
+  id: number
+  name: string
+  rollNumber: string
+  joinDate: string
+  endDate: string
+  planMeals: MealKey[]
+}
+
+export interface AttendanceImportContext {
+  students: Map<string, AttendanceImportStudent> // Keyed by lower-cased roll number
+  attendance: Map<string, MealMarks> // Keyed by `${studentId}:${date}`
+  today: string
+}
+
+export interface AttendanceImportRow extends AttendanceImportEntry {
+  studentId: number | null
+  studentName: string | null
+  added: MealKey[] // Meals the import marks
+  removed: MealKey[] // Meals the import unmarks
+}
+
+export interface AttendanceImportPreview {
+  meals: MealKey[]
+  rows: AttendanceImportRow[]
+  changedCount: number
+  unchangedCount: number
+  errorCount: number
+}
+
+/**
+ * Read a cell from a meal column
+ * Returns undefined for a blank cell and null when it can't be understood.
+ */
+export function parseMealCell(value: string): boolean | undefined | null {
+  const normalized = value.trim().toLowerCase()
+  if (!normalized) return undefined
+  if (PRESENT_VALUES.includes(normalized)) return true
+  if (ABSENT_VALUES.includes(normalized)) return false
+  return null
+}
+
+/**
+ * Read an attendance CSV keyed by roll number and date, one column per meal
+ */
+export function parseAttendanceImport(
+  text: string,
+  schedule: MealSchedule
+): { file: AttendanceImportFile; error: null } | { file: null; error: Error } {
+  const [header, ...records] = parseCsv(text)
+
+  if (!header) {
+    return { file: null, error: new Error('The file is empty') }
+  }
+
+  const normalized = header.map(normalizeCsvHeader)
+  const columns: Partial<Record<AttendanceImportField, number>> = {}
+
+  ;(Object.keys(ATTENDANCE_IMPORT_COLUMNS) as AttendanceImportField[]).forEach((field) => {
+    const index = normalized.findIndex((name) => (ATTENDANCE_IMPORT_COLUMNS[field].aliases as readonly string[]).includes(name))
+    if (index >= 0) columns[field] = index
+  })
+
+  const missing = (Object.keys(ATTENDANCE_IMPORT_COLUMNS) as AttendanceImportField[]).filter(
+    (field) => columns[field] === undefined
+  )
+  if (missing.length > 0) {
+    return {
+      file: null,
+      error: new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.map((field) => ATTENDANCE_IMPORT_COLUMNS[field].label).join(', ')}`),
+    }
+  }
+
+  const mealColumns = schedule.mealTypes
+    .map((type) => ({
+      meal: type.key,
+      index: normalized.findIndex((name) => name === normalizeCsvHeader(type.key) || name === normalizeCsvHeader(type.name)),
+    }))
+    .filter((column) => column.index >= 0)
+
+  if (mealColumns.length === 0) {
+    return {
+      file: null,
+      error: new Error(`No meal columns found (use ${schedule.mealTypes.map((type) => type.name).join(', ')})`),
+    }
+  }
+
+  if (records.length === 0) {
+    return { file: null, error: new Error('The file has no attendance rows') }
+  }
+
+  if (records.length > MAX_ATTENDANCE_IMPORT_ROWS) {
+    return { file: null, error: new Error(`At most ${MAX_ATTENDANCE_IMPORT_ROWS} rows can be imported at once`) }
+  }
+
+  const entries = records.map((record, index) => {
+    const cell = (column: number | undefined) => (column === undefined ? '' : (record[column] ?? '').trim())
+
+    const errors: string[] = []
+    const rollNumber = cell(columns.rollNumber)
+    const rawDate = cell(columns.date)
+    const date = rawDate ? parseImportDate(rawDate) : null
+    const meals: Partial<Record<MealKey, boolean>> = {}
+
+    if (!rollNumber) errors.push('Roll number is required')
+
+    if (!rawDate) {
+      errors.push('Date is required')
+    } else if (!date) {
+      errors.push(`Invalid date "${rawDate}" (use YYYY-MM-DD or DD/MM/YYYY)`)
+    }
+
+    mealColumns.forEach(({ meal, index: column }) => {
+      const value = parseMealCell(cell(column))
+      if (value === null) {
+        errors.push(`Invalid ${getMealName(meal, schedule)} value "${cell(column)}"`)
+      } else if (value !== undefined) {
+        meals[meal] = value
+      }
+    })
+
+    if (errors.length === 0 && Object.keys(meals).length === 0) {
+      errors.push('No meals filled in')
+    }
+
+    return { line: index + 2, rollNumber, date: date ?? rawDate, meals, errors }
+  })
+
+  return { file: { meals: mealColumns.map((column) => column.meal), entries }, error: null }
+}
+
+/**
+ * Compare the file with the students and attendance already recorded
+ * The import is all or nothing, so it can only be applied once no row has errors.
+ */
+export function previewAttendanceImport(
+  file: AttendanceImportFile,
+  context: AttendanceImportContext,
+  schedule: MealSchedule
+): AttendanceImportPreview {
+  const seen = new Map<string, number>()
+
+  const rows = file.entries.map((entry): AttendanceImportRow => {
+    const student = context.students.get(entry.rollNumber.toLowerCase()) ?? null
+    const errors = [...entry.errors]
+    let added: MealKey[] = []
+    let removed: MealKey[] = []
+
+    if (entry.rollNumber && !student) {
+      errors.push(`Unknown roll number "${entry.rollNumber}"`)
+    }
+
+    if (student && errors.length === 0) {
+      const key = `${student.id}:${entry.date}`
+      const ineligible = Object.keys(entry.meals).filter(
+        (meal) => entry.meals[meal] && !student.planMeals.includes(meal)
+      )
+
+      if (entry.date > context.today) {
+        errors.push('Date is in the future')
+      } else if (entry.date < student.joinDate || entry.date > student.endDate) {
+        errors.push(`Date is outside the plan (${student.joinDate} to ${student.endDate})`)
+      } else if (seen.has(key)) {
+        errors.push(`Duplicate of line ${seen.get(key)}`)
+      } else if (ineligible.length > 0) {
+        errors.push(`Plan does not include ${ineligible.map((meal) => getMealName(meal, schedule)).join(', ')}`)
+      } else {
+        seen.set(key, entry.line)
+
+        const before = Object.keys(context.attendance.get(key) || {})
+        const after = Object.keys(applyMealMarks(context.attendance.get(key), entry.meals, {}))
+        added = after.filter((meal) => !before.includes(meal))
+        removed = before.filter((meal) => !after.includes(meal))
+      }
+    }
+
+    return {
+      ...entry,
+      studentId: student?.id ?? null,
+      studentName: student?.name ?? null,
+      added,
+      removed,
+      errors,
+    }
+  })
+
+  const errorCount = rows.filter((row) => row.errors.length > 0).length
+  const changedCount = rows.filter((row) => row.added.length > 0 || row.removed.length > 0).length
+
+  return {
+    meals: file.meals,
+    rows,
+    changedCount,
+    unchangedCount: rows.length - errorCount - changedCount,
+    errorCount,
+  }
+}
+
+/**
+ * Look up the students and existing attendance the file refers to
+ */
+export async function loadAttendanceImportContext(
+  file: AttendanceImportFile,
+  schedule: MealSchedule
+): Promise<{ context: AttendanceImportContext; error: null } | { context: null; error: Error }> {
+  try {
+    // Roll numbers are stored upper-case ("STU-0001") but often typed in lower case
+    const rollNumbers = [
+      ...new Set(file.entries.flatMap((entry) => [entry.rollNumber, entry.rollNumber.toUpperCase()]).filter(Boolean)),
+    ]
+    const students = new Map<string, AttendanceImportStudent>()
+
+    // Keep each request's filter list short
+    for (let i = 0; i < rollNumbers.length; i += 100) {
+      const { data, error } = await supabase
+        .from('Student')
+        .select('id, name, rollNumber, joinDate, endDate, plan:Plan(meals)')
+        .in('rollNumber', rollNumbers.slice(i, i + 100))
+
+      if (error) throw error
+
+      data?.forEach((student) => {
+        students.set(String(student.rollNumber).toLowerCase(), {
+          id: student.id,
+          name: student.name,
+          rollNumber: student.rollNumber,
+          joinDate: String(student.joinDate).slice(0, 10),
+          endDate: String(student.endDate).slice(0, 10),
+          planMeals: parsePlanMeals((student.plan as any)?.meals, schedule),
+        })
+      })
+    }
+
+    const dates = file.entries.map((entry) => entry.date).filter((date) => /^\d{4}-\d{2}-\d{2}$/.test(date)).sort()
+    const studentIds = [...students.values()].map((student) => student.id)
+    const attendance = new Map<string, MealMarks>()
+
+    if (dates.length > 0 && studentIds.length > 0) {
+      for (let i = 0; i < studentIds.length; i += 100) {
+        // Page through - a month of a full mess is over the row cap
+        for (let from = 0; ; from += 1000) {
+          const { data, error } = await supabase
+            .from('Attendance')
+            .select('studentId, date, mealMarks')
+            .in('studentId', studentIds.slice(i, i + 100))
+            .gte('date', dates[0])
+            .lte('date', dates[dates.length - 1])
+            .order('id')
+            .range(from, from + 999)
+
+          if (error) throw error
+
+          data?.forEach((row) => {
+            attendance.set(`${row.studentId}:${String(row.date).slice(0, 10)}`, row.mealMarks || {})
+          })
+
+          if (!data || data.length < 1000) break
+        }
+      }
+    }
+
+    return {
+      context: { students, attendance, today: format(new Date(), 'yyyy-MM-dd') },
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Error loading attendance import data', error as Error)
+    return {
+      context: null,
+      error: error instanceof Error ? error : new Error('Failed to check the file against attendance'),
+    }
+  }
+}
+
+/**
+ * Apply the rows that change something, all in one transaction
+ * Every change is logged in the attendance history as imported.
+ */
+export async function applyAttendanceImport(
+  rows: AttendanceImportRow[],
+  reason: string
+): Promise<{ changed: number; error: null } | { changed: null; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { changed: null, error: new Error('Not authenticated') }
+    }
+
+    if (rows.some((row) => row.errors.length > 0)) {
+      return { changed: null, error: new Error('Fix the rows with errors before importing') }
+    }
+
+    const changes = rows.filter((row) => row.studentId !== null && (row.added.length > 0 || row.removed.length > 0))
+    if (changes.length === 0) {
+      return { changed: 0, error: null }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('import-attendance', {
+      body: {
+        rows: changes.map((row) => ({
+          line: row.line,
+          studentId: row.studentId,
+          date: row.date,
+          meals: row.meals,
+        })),
+        reason: reason.trim(),
+      },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      logger.error('Error importing attendance', functionError as Error)
+      return { changed: null, error: new Error(functionError.message || 'Failed to import attendance') }
+    }
+
+    if (!result?.success) {
+      return { changed: null, error: new Error(result?.error || 'Failed to import attendance') }
+    }
+
+    return { changed: Number(result.changed) || 0, error: null }
+  } catch (error) {
+    logger.error('Unexpected error importing attendance', error as Error)
+    return {
+      changed: null,
+      error: error instanceof Error ? error : new Error('Failed to import attendance'),
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { logger } from './logger'
+
+const ATTENDANCE_QUEUE_KEY = '@attendance_scan_queue'
+
+export interface QueuedScan {
+  id: string
+  userId: string // Scans only ever sync under the account that made them
+  payload: string // Signed QR payload exactly as scanned
+  scannedAt: string // ISO timestamp of the original scan, for display only
+  attempts: number
+  lastError: string | null
+}
+
+async function readQueue(): Promise<QueuedScan[]> {
+  try {
+    const stored = await AsyncStorage.getItem(ATTENDANCE_QUEUE_KEY)
+    return stored ? (JSON.parse(stored) as QueuedScan[]) : []
+  } catch (error) {
+    logger.error('Error reading attendance queue', error as Error)
+    return []
+  }
+}
+
+async function writeQueue(queue: QueuedScan[]): Promise<void> {
+  await AsyncStorage.setItem(ATTENDANCE_QUEUE_KEY, JSON.stringify(queue))
+}
+
+/**
+ * Save a scan that couldn't reach the server so it can be synced later
+ */
+export async function enqueueScan(
+  userId: string,
+  payload: string,
+  scannedAt: string
+): Promise<QueuedScan> {
+  const scan: QueuedScan = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    payload,
+    scannedAt,
+    attempts: 0,
+    lastError: null,
+  }
+
+  const queue = await readQueue()
+  // The same code scanned twice offline only needs to be sent once
+  if (!queue.some((queued) => queued.userId === userId && queued.payload === payload)) {
+    queue.push(scan)
+    await writeQueue(queue)
+  }
+
+  logger.info('Attendance scan queued for sync', { scannedAt })
+  return scan
+}
+
+/**
+ * Get scans waiting to be synced for a user, oldest first
+ */
+export async function getPendingScans(userId: string): Promise<QueuedScan[]> {
+  const queue = await readQueue()
+  return queue
+    .filter((scan) => scan.userId === userId)
+    .sort((a, b) => a.scannedAt.localeCompare(b.scannedAt))
+}
+
+/**
+ * Remove a scan once the server has accepted or rejected it
+ */
+export async function removeQueuedScan(id: string): Promise<void> {
+  const queue = await readQueue()
+  await writeQueue(queue.filter((scan) => scan.id !== id))
+}
+
+/**
+ * Record a failed sync attempt so it can be shown to the student
+ */
+export async function markScanAttemptFailed(id: string, message: string): Promise<void> {
+  const queue = await readQueue()
+  await writeQueue(
+    queue.map((scan) =>
+      scan.id === id ? { ...scan, attempts: scan.attempts + 1, lastError: message } : scan
+    )
+  )
+}
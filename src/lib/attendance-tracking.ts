@@ -1,12 +1,14 @@
 import { supabase } from './supabase'
 import { format } from 'date-fns'
 import { logger } from './logger'
+import { getMealSchedule, parsePlanMeals, type MealKey } from './meal-schedule'
+import { isMealMarked, type MealMarks } from './attendance'
 
 export interface AttendanceWindow {
   startTime: Date
   endTime: Date
   meals: Array<{
-    meal: 'breakfast' | 'lunch' | 'dinner'
+    meal: MealKey
     count: number
     students: Array<{ name: string; rollNumber: string | null }>
   }>
@@ -30,15 +32,15 @@ export async function getAttendanceInWindow(
     const startISO = startTime.toISOString()
     const endISO = endTime.toISOString()
 
+    const schedule = await getMealSchedule()
+
     // Get attendance records updated in the time window
     const { data: attendanceRecords, error: attendanceError } = await supabase
       .from('Attendance')
       .select(`
         id,
         studentId,
-        breakfast,
-        lunch,
-        dinner,
+        mealMarks,
         updatedAt,
         student:Student(
           id,
@@ -55,63 +57,38 @@ export async function getAttendanceInWindow(
     if (attendanceError) throw attendanceError
 
     // Group by meal type
-    const breakfastStudents: Array<{ name: string; rollNumber: string | null }> = []
-    const lunchStudents: Array<{ name: string; rollNumber: string | null }> = []
-    const dinnerStudents: Array<{ name: string; rollNumber: string | null }> = []
+    const studentsByMeal = new Map<MealKey, Array<{ name: string; rollNumber: string | null }>>(
+      schedule.mealTypes.map((type) => [type.key, []])
+    )
 
     attendanceRecords?.forEach((record) => {
       const student = record.student as any
       if (!student) return
 
-      const planMeals = (student.plan as any)?.meals || ''
-      const mealArray = planMeals.split(',').map((m: string) => m.trim().toLowerCase())
+      const planMeals = parsePlanMeals(student.plan?.meals, schedule)
 
       // Only include if the meal is part of the student's plan
-      if (record.breakfast && mealArray.some((m: string) => m.includes('breakfast'))) {
-        breakfastStudents.push({
-          name: student.name,
-          rollNumber: student.rollNumber,
-        })
-      }
-      if (record.lunch && mealArray.some((m: string) => m.includes('lunch'))) {
-        lunchStudents.push({
-          name: student.name,
-          rollNumber: student.rollNumber,
-        })
-      }
-      if (record.dinner && mealArray.some((m: string) => m.includes('dinner'))) {
-        dinnerStudents.push({
-          name: student.name,
-          rollNumber: student.rollNumber,
-        })
-      }
+      studentsByMeal.forEach((students, meal) => {
+        if (isMealMarked(record.mealMarks as MealMarks, meal) && planMeals.includes(meal)) {
+          students.push({
+            name: student.name,
+            rollNumber: student.rollNumber,
+          })
+        }
+      })
     })
 
     const meals: AttendanceWindow['meals'] = []
 
-    if (breakfastStudents.length > 0) {
-      meals.push({
-        meal: 'breakfast',
-        count: breakfastStudents.length,
-        students: breakfastStudents,
-      })
-    }
-
-    if (lunchStudents.length > 0) {
-      meals.push({
-        meal: 'lunch',
-        count: lunchStudents.length,
-        students: lunchStudents,
-      })
-    }
-
-    if (dinnerStudents.length > 0) {
-      meals.push({
-        meal: 'dinner',
-        count: dinnerStudents.length,
-        students: dinnerStudents,
-      })
-    }
+    studentsByMeal.forEach((students, meal) => {
+      if (students.length > 0) {
+        meals.push({
+          meal,
+          count: students.length,
+          students,
+        })
+      }
+    })
 
     return {
       startTime,
@@ -146,7 +123,7 @@ export async function getTodayStats(): Promise<TodayStats> {
     // Get attendance records for today
     const { data: attendance, error: attendanceError } = await supabase
       .from('Attendance')
-      .select('studentId, breakfast, lunch, dinner')
+      .select('studentId, mealMarks')
       .eq('date', today)
 
     if (attendanceError) throw attendanceError
@@ -154,7 +131,7 @@ export async function getTodayStats(): Promise<TodayStats> {
     // Count students with at least one meal marked
     const studentsWithAttendance = new Set<number>()
     attendance?.forEach((record) => {
-      if (record.breakfast || record.lunch || record.dinner) {
+      if (Object.keys(record.mealMarks || {}).length > 0) {
         studentsWithAttendance.add(record.studentId)
       }
     })
@@ -174,3 +151,55 @@ export async function getTodayStats(): Promise<TodayStats> {
 }
 
 
+
+export interface RecentScan {
+  id: number
+  name: string
+  rollNumber: string | null
+  markedAt: string
+}
+
+/**
+ * Get the students most recently marked for a meal today, newest first
+ * Used by the kiosk's live scan list
+ */
+export async function getRecentScans(
+  meal: MealKey,
+  limit: number = 30
+): Promise<RecentScan[]> {
+  try {
+    const today = format(new Date(), 'yyyy-MM-dd')
+
+    const { data, error } = await supabase
+      .from('Attendance')
+      .select(`
+        id,
+        updatedAt,
+        student:Student(
+          name,
+          rollNumber
+        )
+      `)
+      .eq('date', today)
+      .contains('mealMarks', { [meal]: {} })
+      .order('updatedAt', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+
+    return (data || [])
+      .filter((record) => record.student)
+      .map((record) => {
+        const student = record.student as any
+        return {
+          id: record.id,
+          name: student.name,
+          rollNumber: student.rollNumber,
+          markedAt: record.updatedAt,
+        }
+      })
+  } catch (error) {
+    logger.error('Error fetching recent scans', error as Error)
+    throw error instanceof Error ? error : new Error('Failed to fetch recent scans')
+  }
+}
@@ -1,5 +1,32 @@
 import { supabase } from './supabase'
 import { logger } from './logger'
+import { getCurrentMeal, getMealSchedule, parsePlanMeals, type MealKey } from './meal-schedule'
+import { getStudentIdsOnLeave } from './leave'
+import { countGuestsByMeal } from './guest-meals'
+import { validateChangeReason } from './attendance-history'
+
+// How a meal was marked
+export type AttendanceSource = 'qr' | 'pin' | 'manual' | 'bulk' | 'import'
+
+export const ATTENDANCE_SOURCE_LABELS: Record<AttendanceSource, string> = {
+  qr: 'QR',
+  pin: 'PIN',
+  manual: 'Manual',
+  bulk: 'Bulk',
+  import: 'Import',
+}
+
+// Details of a single meal mark, stored per meal type in "Attendance"."mealMarks".
+// A meal is attended when it has an entry; entries carried over from before
+// per-meal details were recorded are empty.
+export interface MealMark {
+  at?: string
+  source?: AttendanceSource
+  by?: string
+  byEmail?: string
+}
+
+export type MealMarks = Partial<Record<MealKey, MealMark>>
 
 export interface StudentAttendance {
   id: number
@@ -9,53 +36,98 @@ export interface StudentAttendance {
   email: string
   plan: {
     name: string
-    meals: string[] // Array of meal types
+    meals: MealKey[] // Meal types included in the plan
   }
   attendance: {
-    breakfast: boolean
-    lunch: boolean
-    dinner: boolean
+    marks: MealMarks
     lastUpdated: string | null
     scannedAt: string | null
   }
 }
 
+export interface MealStats {
+  present: number
+  total: number
+  guests?: number // Guests recorded against students, not part of present/total
+}
+
 export interface AttendanceStats {
-  breakfast: { present: number; total: number }
-  lunch: { present: number; total: number }
-  dinner: { present: number; total: number }
+  meals: Record<MealKey, MealStats>
   attendancePercentage: number
+  onLeave: number // Students on approved leave, left out of the totals
 }
 
 export interface AttendanceView {
   date: string
-  currentMeal: 'breakfast' | 'lunch' | 'dinner' | null
+  currentMeal: MealKey | null
   stats: AttendanceStats
   students: {
     present: StudentAttendance[]
     missing: StudentAttendance[]
+    onLeave: StudentAttendance[] // On approved leave and not marked
   }
 }
 
 export interface MarkAttendanceData {
   studentId: number
   date: string
-  breakfast?: boolean
-  lunch?: boolean
-  dinner?: boolean
+  meals: Partial<Record<MealKey, boolean>> // true marks a meal, false unmarks it
+  source?: 'manual' | 'bulk' // Defaults to 'manual'
+  reason: string // Logged with the change in the attendance history
+}
+
+// One change sent to the change-attendance Edge Function: an existing
+// record by id, or a student's record for a day
+interface AttendanceChangeRequest {
+  attendanceId?: number
+  studentId?: number
+  date?: string
+  meals?: Partial<Record<MealKey, boolean>>
+  delete?: boolean
+}
+
+// Same limit as the change-attendance Edge Function
+export const MAX_ATTENDANCE_CHANGES = 500
+
+/**
+ * Check whether a meal has been marked
+ */
+export function isMealMarked(marks: MealMarks | null | undefined, meal: MealKey): boolean {
+  return !!marks && marks[meal] !== undefined
+}
+
+/**
+ * Apply meal changes to a record's mark details
+ * Newly marked meals get a fresh mark; meals that stay marked keep their
+ * original one and unmarked meals lose theirs.
+ */
+export function applyMealMarks(
+  existingMarks: MealMarks | null | undefined,
+  changes: Partial<Record<MealKey, boolean>>,
+  mark: MealMark
+): MealMarks {
+  const marks: MealMarks = { ...(existingMarks || {}) }
+
+  Object.entries(changes).forEach(([meal, value]) => {
+    if (value === undefined) return
+
+    if (!value) {
+      delete marks[meal]
+    } else if (!marks[meal]) {
+      marks[meal] = mark
+    }
+  })
+
+  return marks
 }
 
 /**
- * Get current meal time based on current time
+ * Short description of a meal mark, e.g. "1:05 PM · QR"
  */
-export function getCurrentMeal(): 'breakfast' | 'lunch' | 'dinner' | null {
-  const now = new Date()
-  const hour = now.getHours()
-  
-  if (hour >= 7 && hour < 10) return 'breakfast'
-  if (hour >= 12 && hour < 15) return 'lunch'
-  if (hour >= 19 && hour < 22) return 'dinner'
-  return null
+export function formatMealMark(mark: MealMark | undefined): string | null {
+  if (!mark?.at) return null
+  const time = new Date(mark.at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+  return mark.source ? `${time} · ${ATTENDANCE_SOURCE_LABELS[mark.source] ?? mark.source}` : time
 }
 
 /**
@@ -63,6 +135,8 @@ export function getCurrentMeal(): 'breakfast' | 'lunch' | 'dinner' | null {
  */
 export async function getAttendanceStats(date: string): Promise<AttendanceStats> {
   try {
+    const schedule = await getMealSchedule()
+
     // Get all active students (active on the selected date)
     const { data: students, error: studentsError } = await supabase
       .from('Student')
@@ -73,69 +147,69 @@ export async function getAttendanceStats(date: string): Promise<AttendanceStats>
 
     if (studentsError) throw studentsError
 
-    const totalStudents = students?.length || 0
-
     // Get attendance records for the date
     // Date is stored as Date type in database (YYYY-MM-DD format)
     const { data: attendance, error: attendanceError } = await supabase
       .from('Attendance')
-      .select('studentId, breakfast, lunch, dinner')
+      .select('studentId, mealMarks')
       .eq('date', date)
 
     if (attendanceError) throw attendanceError
 
-    // Calculate stats
-    let breakfastCount = 0
-    let lunchCount = 0
-    let dinnerCount = 0
+    const studentsOnLeave = await getStudentIdsOnLeave(date)
+
+    const { data: guestMeals, error: guestMealsError } = await supabase
+      .from('GuestMeal')
+      .select('meal, count')
+      .eq('date', date)
+
+    if (guestMealsError) throw guestMealsError
+
+    const guests = countGuestsByMeal(guestMeals || [])
+    const meals: Record<MealKey, MealStats> = Object.fromEntries(
+      schedule.mealTypes.map((type) => [type.key, { present: 0, total: 0, guests: guests[type.key] || 0 }])
+    )
     let studentsWithAttendance = 0
+    const attendedStudents = new Set<number>()
 
-    const attendanceMap = new Map<number, { breakfast: boolean; lunch: boolean; dinner: boolean }>()
-    
     attendance?.forEach((record) => {
-      attendanceMap.set(record.studentId, {
-        breakfast: record.breakfast,
-        lunch: record.lunch,
-        dinner: record.dinner,
+      const marks = (record.mealMarks || {}) as MealMarks
+      let hasAny = false
+      Object.keys(meals).forEach((meal) => {
+        if (isMealMarked(marks, meal)) {
+          meals[meal].present++
+          hasAny = true
+        }
       })
-      if (record.breakfast) breakfastCount++
-      if (record.lunch) lunchCount++
-      if (record.dinner) dinnerCount++
-      if (record.breakfast || record.lunch || record.dinner) {
+      if (hasAny) {
         studentsWithAttendance++
+        attendedStudents.add(record.studentId)
       }
     })
 
-    // Count students eligible for each meal based on their plan
-    let breakfastEligible = 0
-    let lunchEligible = 0
-    let dinnerEligible = 0
-
-    students?.forEach((student) => {
-      const planMeals = (student.plan as any)?.meals || ''
-      if (planMeals.includes('Breakfast')) breakfastEligible++
-      if (planMeals.includes('Lunch')) lunchEligible++
-      if (planMeals.includes('Dinner')) dinnerEligible++
+    // Students on leave who didn't eat aren't expected at any meal
+    const expectedStudents = (students || []).filter((student) =>
+      !studentsOnLeave.has(student.id) || attendedStudents.has(student.id)
+    )
+    const totalStudents = expectedStudents.length
+    const onLeave = (students?.length || 0) - totalStudents
+
+    // Count students eligible for each meal based on their plan; a meal no
+    // plan includes has nobody eligible
+    expectedStudents.forEach((student) => {
+      parsePlanMeals((student.plan as any)?.meals, schedule).forEach((meal) => {
+        meals[meal].total++
+      })
     })
 
-    const attendancePercentage = totalStudents > 0 
+    const attendancePercentage = totalStudents > 0
       ? Math.round((studentsWithAttendance / totalStudents) * 100)
       : 0
 
     return {
-      breakfast: {
-        present: breakfastCount,
-        total: breakfastEligible || totalStudents, // Fallback to total if no plan data
-      },
-      lunch: {
-        present: lunchCount,
-        total: lunchEligible || totalStudents,
-      },
-      dinner: {
-        present: dinnerCount,
-        total: dinnerEligible || totalStudents,
-      },
+      meals,
       attendancePercentage,
+      onLeave,
     }
   } catch (error) {
     logger.error('Error fetching attendance stats', error as Error)
@@ -148,10 +222,11 @@ export async function getAttendanceStats(date: string): Promise<AttendanceStats>
  */
 export async function getAttendanceView(
   date: string,
-  meal?: 'breakfast' | 'lunch' | 'dinner'
+  meal?: MealKey
 ): Promise<AttendanceView> {
   try {
-    const currentMeal = meal || getCurrentMeal()
+    const schedule = await getMealSchedule()
+    const currentMeal = meal || getCurrentMeal(schedule)
     const stats = await getAttendanceStats(date)
 
     // Get all active students with their plans
@@ -179,28 +254,26 @@ export async function getAttendanceView(
     // Date is stored as Date type in database (YYYY-MM-DD format)
     const { data: attendance, error: attendanceError } = await supabase
       .from('Attendance')
-      .select('id, studentId, breakfast, lunch, dinner, scannedAt, updatedAt')
+      .select('id, studentId, scannedAt, mealMarks, updatedAt')
       .eq('date', date)
 
     if (attendanceError) throw attendanceError
 
+    const studentsOnLeave = await getStudentIdsOnLeave(date)
+
     // Create attendance map
     const attendanceMap = new Map<number, {
       id: number
-      breakfast: boolean
-      lunch: boolean
-      dinner: boolean
       scannedAt: string | null
+      mealMarks: MealMarks
       updatedAt: string
     }>()
 
     attendance?.forEach((record) => {
       attendanceMap.set(record.studentId, {
         id: record.id,
-        breakfast: record.breakfast,
-        lunch: record.lunch,
-        dinner: record.dinner,
         scannedAt: record.scannedAt,
+        mealMarks: record.mealMarks || {},
         updatedAt: record.updatedAt,
       })
     })
@@ -208,13 +281,13 @@ export async function getAttendanceView(
     // Build student attendance list
     const present: StudentAttendance[] = []
     const missing: StudentAttendance[] = []
+    const onLeave: StudentAttendance[] = []
 
     students?.forEach((student) => {
-      const planMeals = (student.plan as any)?.meals || ''
-      const mealArray = planMeals.split(',').map((m: string) => m.trim()).filter(Boolean)
-      
+      const mealArray = parsePlanMeals((student.plan as any)?.meals, schedule)
+
       const attendanceRecord = attendanceMap.get(student.id)
-      
+
       const studentAttendance: StudentAttendance = {
         id: attendanceRecord?.id || 0,
         studentId: student.id,
@@ -226,9 +299,7 @@ export async function getAttendanceView(
           meals: mealArray,
         },
         attendance: {
-          breakfast: attendanceRecord?.breakfast || false,
-          lunch: attendanceRecord?.lunch || false,
-          dinner: attendanceRecord?.dinner || false,
+          marks: attendanceRecord?.mealMarks || {},
           lastUpdated: attendanceRecord?.updatedAt || null,
           scannedAt: attendanceRecord?.scannedAt || null,
         },
@@ -236,25 +307,27 @@ export async function getAttendanceView(
 
       // Determine if student is present or missing for the current meal
       if (currentMeal) {
-        const hasMeal = studentAttendance.attendance[currentMeal]
-        const isEligible = mealArray.some((m: string) => 
-          m.toLowerCase().includes(currentMeal)
-        )
-        
+        const hasMeal = isMealMarked(studentAttendance.attendance.marks, currentMeal)
+        const isEligible = mealArray.includes(currentMeal)
+
         if (hasMeal && isEligible) {
           present.push(studentAttendance)
         } else if (isEligible) {
-          missing.push(studentAttendance)
+          if (studentsOnLeave.has(student.id)) {
+            onLeave.push(studentAttendance)
+          } else {
+            missing.push(studentAttendance)
+          }
         }
       } else {
         // If no current meal, show all students
-        const hasAnyAttendance = attendanceRecord && (
-          attendanceRecord.breakfast || 
-          attendanceRecord.lunch || 
-          attendanceRecord.dinner
+        const hasAnyAttendance = mealArray.some((planMeal) =>
+          isMealMarked(studentAttendance.attendance.marks, planMeal)
         )
         if (hasAnyAttendance) {
           present.push(studentAttendance)
+        } else if (studentsOnLeave.has(student.id)) {
+          onLeave.push(studentAttendance)
         } else {
           missing.push(studentAttendance)
         }
@@ -268,6 +341,7 @@ export async function getAttendanceView(
       students: {
         present,
         missing,
+        onLeave,
       },
     }
   } catch (error) {
@@ -278,274 +352,131 @@ export async function getAttendanceView(
 
 /**
  * Mark attendance for a student
+ * Needs a reason, which is logged with the change
  */
 export async function markAttendance(
   data: MarkAttendanceData
 ): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    // First, get the student's plan to validate meal eligibility
-    const { data: studentData, error: studentError } = await supabase
-      .from('Student')
-      .select('id, planId, plan:Plan(meals)')
-      .eq('id', data.studentId)
-      .single()
-
-    if (studentError) throw studentError
-    if (!studentData) {
-      return { success: false, error: new Error('Student not found') }
-    }
-
-    const planMeals = (studentData.plan as any)?.meals || ''
-    const mealArray = planMeals.split(',').map((m: string) => m.trim().toLowerCase())
-
-    // Validate meal eligibility - only check if we're trying to mark a meal as true
-    if (data.breakfast !== undefined && data.breakfast && !mealArray.some(m => m.includes('breakfast'))) {
-      return { success: false, error: new Error('Student plan does not include Breakfast') }
-    }
-    if (data.lunch !== undefined && data.lunch && !mealArray.some(m => m.includes('lunch'))) {
-      return { success: false, error: new Error('Student plan does not include Lunch') }
-    }
-    if (data.dinner !== undefined && data.dinner && !mealArray.some(m => m.includes('dinner'))) {
-      return { success: false, error: new Error('Student plan does not include Dinner') }
-    }
-
-    // Check if attendance record already exists
-    const { data: existing, error: checkError } = await supabase
-      .from('Attendance')
-      .select('id, breakfast, lunch, dinner')
-      .eq('studentId', data.studentId)
-      .eq('date', data.date)
-      .single()
-
-    if (checkError && checkError.code !== 'PGRST116') {
-      // PGRST116 is "not found" error, which is expected for new records
-      throw checkError
-    }
-
-    const attendanceData: {
-      studentId: number
-      date: string
-      breakfast: boolean
-      lunch: boolean
-      dinner: boolean
-      scannedAt?: string
-    } = {
-      studentId: data.studentId,
-      date: data.date,
-      breakfast: data.breakfast ?? (existing?.breakfast || false),
-      lunch: data.lunch ?? (existing?.lunch || false),
-      dinner: data.dinner ?? (existing?.dinner || false),
-    }
-
-    // If marking a specific meal, update only that meal
-    if (data.breakfast !== undefined) attendanceData.breakfast = data.breakfast
-    if (data.lunch !== undefined) attendanceData.lunch = data.lunch
-    if (data.dinner !== undefined) attendanceData.dinner = data.dinner
-
-    // Note: scannedAt is only set by QR scanner, not for manual/admin marking
-    // For manual marking, scannedAt remains null
-
-    if (existing) {
-      // Update existing record
-      const { error: updateError } = await supabase
-        .from('Attendance')
-        .update(attendanceData)
-        .eq('id', existing.id)
-
-      if (updateError) throw updateError
-    } else {
-      // Insert new record
-      const { error: insertError } = await supabase
-        .from('Attendance')
-        .insert(attendanceData)
-
-      if (insertError) throw insertError
-    }
-
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Error marking attendance', error as Error)
-    return {
-      success: false,
-      error: error instanceof Error ? error : new Error('Failed to mark attendance'),
-    }
-  }
+  return changeAttendance(
+    [{ studentId: data.studentId, date: data.date, meals: data.meals }],
+    data.source ?? 'manual',
+    data.reason
+  )
 }
 
 /**
  * Mark attendance for multiple students (bulk)
+ * Needs a reason, which is logged for every record that changes
  */
 export async function markBulkAttendance(
   studentIds: number[],
   date: string,
-  meal: 'breakfast' | 'lunch' | 'dinner'
+  meal: MealKey,
+  reason: string
 ): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    // Process each student
-    const promises = studentIds.map((studentId) =>
-      markAttendance({
-        studentId,
-        date,
-        [meal]: true,
-      })
-    )
-
-    const results = await Promise.all(promises)
-    const errors = results.filter((r) => !r.success)
-
-    if (errors.length > 0) {
-      return {
-        success: false,
-        error: new Error(`Failed to mark attendance for ${errors.length} students`),
-      }
-    }
-
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Error in bulk attendance marking', error as Error)
+  if (studentIds.length > MAX_ATTENDANCE_CHANGES) {
     return {
       success: false,
-      error: error instanceof Error ? error : new Error('Failed to mark bulk attendance'),
+      error: new Error(`At most ${MAX_ATTENDANCE_CHANGES} students can be marked at once`),
     }
   }
+
+  return changeAttendance(
+    studentIds.map((studentId) => ({ studentId, date, meals: { [meal]: true } })),
+    'bulk',
+    reason
+  )
 }
 
 /**
  * Update attendance record
+ * Manual edits need a reason, which is logged with the change
  */
 export async function updateAttendance(
   id: number,
-  data: {
-    breakfast?: boolean
-    lunch?: boolean
-    dinner?: boolean
-  }
+  meals: Partial<Record<MealKey, boolean>>,
+  reason: string
 ): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    if (!id || id <= 0) {
-      return {
-        success: false,
-        error: new Error('Invalid attendance ID'),
-      }
-    }
-
-    // Get the attendance record to find student
-    const { data: attendanceRecord, error: attendanceError } = await supabase
-      .from('Attendance')
-      .select('studentId, student:Student(planId, plan:Plan(meals))')
-      .eq('id', id)
-      .single()
-
-    if (attendanceError) throw attendanceError
-    if (!attendanceRecord) {
-      return { success: false, error: new Error('Attendance record not found') }
-    }
-
-    // Get plan meals
-    const student = attendanceRecord.student as any
-    const planMeals = student?.plan?.meals || ''
-    const mealArray = planMeals.split(',').map((m: string) => m.trim().toLowerCase())
-
-    // Validate meal eligibility before updating - only check if we're trying to mark a meal as true
-    if (data.breakfast !== undefined && data.breakfast && !mealArray.some(m => m.includes('breakfast'))) {
-      return { success: false, error: new Error('Student plan does not include Breakfast') }
-    }
-    if (data.lunch !== undefined && data.lunch && !mealArray.some(m => m.includes('lunch'))) {
-      return { success: false, error: new Error('Student plan does not include Lunch') }
-    }
-    if (data.dinner !== undefined && data.dinner && !mealArray.some(m => m.includes('dinner'))) {
-      return { success: false, error: new Error('Student plan does not include Dinner') }
-    }
-
-    const updateData: any = {}
-    if (data.breakfast !== undefined) updateData.breakfast = data.breakfast
-    if (data.lunch !== undefined) updateData.lunch = data.lunch
-    if (data.dinner !== undefined) updateData.dinner = data.dinner
-
-    // Ensure at least one field is being updated
-    if (Object.keys(updateData).length === 0) {
-      return {
-        success: false,
-        error: new Error('No fields to update'),
-      }
-    }
-
-    const { error, data: updatedData } = await supabase
-      .from('Attendance')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-
-    if (error) {
-      logger.error('Supabase update error', error as Error)
-      throw error
-    }
-
-    if (!updatedData || updatedData.length === 0) {
-      return {
-        success: false,
-        error: new Error('Attendance record not found'),
-      }
+  if (!id || id <= 0) {
+    return {
+      success: false,
+      error: new Error('Invalid attendance ID'),
     }
+  }
 
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Error updating attendance', error as Error)
+  // Ensure at least one meal is being updated
+  if (Object.values(meals).every((value) => value === undefined)) {
     return {
       success: false,
-      error: error instanceof Error ? error : new Error('Failed to update attendance'),
+      error: new Error('No fields to update'),
     }
   }
+
+  return changeAttendance([{ attendanceId: id, meals }], 'manual', reason)
 }
 
 /**
  * Delete attendance record
+ * Needs a reason, which is logged along with the meals that were marked
  */
 export async function deleteAttendance(
-  id: number
+  id: number,
+  reason: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  if (!id || id <= 0) {
+    return {
+      success: false,
+      error: new Error('Invalid attendance ID'),
+    }
+  }
+
+  return changeAttendance([{ attendanceId: id, delete: true }], 'manual', reason)
+}
+
+// Apply manual changes through the change-attendance Edge Function, which
+// changes the records and logs their history in one transaction
+async function changeAttendance(
+  changes: AttendanceChangeRequest[],
+  source: 'manual' | 'bulk',
+  reason: string
 ): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
   try {
-    if (!id || id <= 0) {
-      return {
-        success: false,
-        error: new Error('Invalid attendance ID'),
-      }
+    const reasonError = validateChangeReason(reason)
+    if (reasonError) {
+      return { success: false, error: new Error(reasonError) }
     }
 
-    // Delete the record directly (Supabase will return empty array if not found)
-    const { error, data } = await supabase
-      .from('Attendance')
-      .delete()
-      .eq('id', id)
-      .select()
-
-    if (error) {
-      logger.error('Supabase delete error', error as Error)
-      // Handle specific error codes
-      if (error.code === 'PGRST116') {
-        return {
-          success: false,
-          error: new Error('Attendance record not found'),
-        }
-      }
-      throw error
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { success: false, error: new Error('Not authenticated') }
     }
 
-    // Verify deletion - Supabase returns deleted records in data array
-    if (!data || data.length === 0) {
-      return {
-        success: false,
-        error: new Error('Attendance record not found or already deleted'),
-      }
+    const { data: result, error: functionError } = await supabase.functions.invoke('change-attendance', {
+      body: {
+        changes,
+        source,
+        reason: reason.trim(),
+      },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      logger.error('Error changing attendance', functionError as Error)
+      return { success: false, error: new Error(functionError.message || 'Failed to change attendance') }
+    }
+
+    if (!result?.success) {
+      return { success: false, error: new Error(result?.error || 'Failed to change attendance') }
     }
 
     return { success: true, error: null }
   } catch (error) {
-    logger.error('Error deleting attendance', error as Error)
+    logger.error('Unexpected error changing attendance', error as Error)
     return {
       success: false,
-      error: error instanceof Error ? error : new Error('Failed to delete attendance'),
+      error: error instanceof Error ? error : new Error('Failed to change attendance'),
     }
   }
 }
-
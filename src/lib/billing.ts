@@ -0,0 +1,469 @@
+import { format, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { getAppSetting, setAppSetting } from './settings'
+import { getPaymentMethodName } from './payment-methods'
+import { escapeHtml, formatReportCurrency, shareHtmlAsPdf } from './reports'
+
+// Invoices are issued for every plan term and receipts for every payment.
+// The database numbers them when the row is created (see
+// 016_invoices_receipts.sql) from the series saved here; this module holds
+// the mess details printed on them and renders them to PDF.
+export interface BillingSettings {
+  messName: string
+  address: string
+  phone: string
+  email: string
+  taxId: string // GSTIN or similar, printed when set
+  logoUrl: string
+  invoiceFormat: string // Tokens: {FY}, {YYYY}, {SEQ}
+  receiptFormat: string
+  creditNoteFormat: string
+  sequenceDigits: number // {SEQ} is zero-padded to this many digits
+  fiscalYearStartMonth: number // 1-12
+  footerNote: string
+  upiVpa: string // Students can pay by UPI when set (see src/lib/upi.ts)
+}
+
+export interface Invoice {
+  id: number
+  number: string | null
+  issuedAt: string
+  kind: 'join' | 'renewal'
+  planName: string | null
+  startDate: string
+  endDate: string
+  price: number
+  paid: number
+  student: {
+    id: number
+    name: string
+    rollNumber: string | null
+    email: string | null
+  }
+}
+
+export interface Receipt {
+  id: number
+  number: string | null
+  paymentDate: string
+  amount: number
+  method: string | null
+  reference: string | null // UTR or transaction id
+  invoiceNumber: string | null // Invoice of the term the payment went to
+  planName: string | null
+  student: {
+    id: number
+    name: string
+    rollNumber: string | null
+    email: string | null
+  }
+}
+
+export const BILLING_SETTINGS_KEY = 'billing'
+
+export const DEFAULT_BILLING_SETTINGS: BillingSettings = {
+  messName: 'Mess',
+  address: '',
+  phone: '',
+  email: '',
+  taxId: '',
+  logoUrl: '',
+  invoiceFormat: 'INV/{FY}/{SEQ}',
+  receiptFormat: 'RCPT/{FY}/{SEQ}',
+  creditNoteFormat: 'CN/{FY}/{SEQ}',
+  sequenceDigits: 4,
+  fiscalYearStartMonth: 4,
+  footerNote: '',
+  upiVpa: '',
+}
+
+const MAX_FORMAT_LENGTH = 40
+
+/**
+ * Fill in missing or invalid billing values with defaults
+ */
+export function normalizeBillingSettings(raw: unknown): BillingSettings {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<BillingSettings>
+
+  const text = (input: unknown, fallback = '') => (typeof input === 'string' ? input.trim() : fallback)
+  const whole = (number: unknown, fallback: number, min: number, max: number) =>
+    typeof number === 'number' && Number.isFinite(number)
+      ? Math.min(Math.max(Math.round(number), min), max)
+      : fallback
+
+  return {
+    messName: text(value.messName) || DEFAULT_BILLING_SETTINGS.messName,
+    address: text(value.address),
+    phone: text(value.phone),
+    email: text(value.email),
+    taxId: text(value.taxId).toUpperCase(),
+    logoUrl: text(value.logoUrl),
+    invoiceFormat: text(value.invoiceFormat) || DEFAULT_BILLING_SETTINGS.invoiceFormat,
+    receiptFormat: text(value.receiptFormat) || DEFAULT_BILLING_SETTINGS.receiptFormat,
+    creditNoteFormat: text(value.creditNoteFormat) || DEFAULT_BILLING_SETTINGS.creditNoteFormat,
+    sequenceDigits: whole(value.sequenceDigits, DEFAULT_BILLING_SETTINGS.sequenceDigits, 1, 8),
+    fiscalYearStartMonth: whole(value.fiscalYearStartMonth, DEFAULT_BILLING_SETTINGS.fiscalYearStartMonth, 1, 12),
+    footerNote: text(value.footerNote),
+    upiVpa: text(value.upiVpa).toLowerCase(),
+  }
+}
+
+/**
+ * Whether a UPI ID (VPA) looks like name@bank
+ */
+export function isValidUpiId(vpa: string): boolean {
+  return /^[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9.-]{1,63}$/i.test(vpa.trim())
+}
+
+/**
+ * Reason a numbering format can't be used, or null when it can
+ */
+export function validateDocumentFormat(documentFormat: string): string | null {
+  if (!documentFormat.includes('{SEQ}')) {
+    return 'Format must include {SEQ}'
+  }
+  if (documentFormat.length > MAX_FORMAT_LENGTH) {
+    return `Format can be at most ${MAX_FORMAT_LENGTH} characters`
+  }
+  return null
+}
+
+/**
+ * A document number as the database would issue it
+ * Mirrors next_document_number(); used to preview the format in settings.
+ */
+export function formatDocumentNumber(
+  documentFormat: string,
+  date: string, // YYYY-MM-DD
+  sequence: number,
+  digits: number = DEFAULT_BILLING_SETTINGS.sequenceDigits,
+  fiscalYearStartMonth: number = DEFAULT_BILLING_SETTINGS.fiscalYearStartMonth
+): string {
+  const [year, month] = date.slice(0, 10).split('-').map(Number)
+  const fyStart = month < fiscalYearStartMonth ? year - 1 : year
+  const fy = fiscalYearStartMonth === 1
+    ? String(fyStart)
+    : `${fyStart}-${String((fyStart + 1) % 100).padStart(2, '0')}`
+
+  const withSequence = documentFormat.includes('{SEQ}') ? documentFormat : `${documentFormat}/{SEQ}`
+
+  return withSequence
+    .split('{FY}').join(fy)
+    .split('{YYYY}').join(String(year))
+    .split('{SEQ}').join(String(sequence).padStart(digits, '0'))
+}
+
+/**
+ * Load the billing settings
+ * Never throws - falls back to the defaults
+ */
+export async function getBillingSettings(): Promise<BillingSettings> {
+  const result = await getAppSetting<BillingSettings>(BILLING_SETTINGS_KEY)
+
+  if (result.error) {
+    logger.warn('Using default billing settings', { reason: result.error.message })
+    return DEFAULT_BILLING_SETTINGS
+  }
+
+  return normalizeBillingSettings(result.value)
+}
+
+/**
+ * Save the billing settings
+ * Changing a format starts new numbers from the next invoice or receipt;
+ * numbers already issued stay as they are.
+ */
+export async function updateBillingSettings(
+  settings: BillingSettings
+): Promise<{ settings: BillingSettings; error: null } | { settings: null; error: Error }> {
+  const normalized = normalizeBillingSettings(settings)
+
+  const formatError =
+    validateDocumentFormat(normalized.invoiceFormat) ||
+    validateDocumentFormat(normalized.receiptFormat) ||
+    validateDocumentFormat(normalized.creditNoteFormat)
+  if (formatError) {
+    return { settings: null, error: new Error(formatError) }
+  }
+  if (normalized.logoUrl && !/^https:\/\//i.test(normalized.logoUrl)) {
+    return { settings: null, error: new Error('Logo URL must start with https://') }
+  }
+  if (normalized.upiVpa && !isValidUpiId(normalized.upiVpa)) {
+    return { settings: null, error: new Error('UPI ID should look like name@bank') }
+  }
+
+  const result = await setAppSetting(BILLING_SETTINGS_KEY, normalized)
+  if (result.error) {
+    return { settings: null, error: result.error }
+  }
+
+  return { settings: normalized, error: null }
+}
+
+/**
+ * Get the invoice for a plan term
+ * Students can only read their own (enforced by RLS)
+ */
+export async function getInvoice(
+  periodId: number
+): Promise<{ invoice: Invoice; error: null } | { invoice: null; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('SubscriptionPeriod')
+      .select(`
+        id, kind, startDate, endDate, price, paid, invoiceNumber, createdAt,
+        plan:Plan(name),
+        student:Student(id, name, rollNumber, email)
+      `)
+      .eq('id', periodId)
+      .single()
+
+    if (error) {
+      logger.error('Error fetching invoice', error as Error, { periodId })
+      return { invoice: null, error: new Error(error.message) }
+    }
+
+    const row = data as any
+    return {
+      invoice: {
+        id: row.id,
+        number: row.invoiceNumber ?? null,
+        issuedAt: row.createdAt,
+        kind: row.kind,
+        planName: row.plan?.name ?? null,
+        startDate: String(row.startDate).slice(0, 10),
+        endDate: String(row.endDate).slice(0, 10),
+        price: Number(row.price || 0),
+        paid: Number(row.paid || 0),
+        student: row.student,
+      },
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Unexpected error fetching invoice', error as Error, { periodId })
+    return {
+      invoice: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch invoice'),
+    }
+  }
+}
+
+/**
+ * Get the receipt for a payment
+ * Students can only read their own (enforced by RLS)
+ */
+export async function getReceipt(
+  paymentId: number
+): Promise<{ receipt: Receipt; error: null } | { receipt: null; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('Payment')
+      .select(`
+        id, amount, paymentDate, method, reference, receiptNumber,
+        student:Student(id, name, rollNumber, email),
+        period:SubscriptionPeriod(invoiceNumber, plan:Plan(name))
+      `)
+      .eq('id', paymentId)
+      .single()
+
+    if (error) {
+      logger.error('Error fetching receipt', error as Error, { paymentId })
+      return { receipt: null, error: new Error(error.message) }
+    }
+
+    const row = data as any
+    return {
+      receipt: {
+        id: row.id,
+        number: row.receiptNumber ?? null,
+        paymentDate: row.paymentDate,
+        amount: Number(row.amount || 0),
+        method: row.method ?? null,
+        reference: row.reference ?? null,
+        invoiceNumber: row.period?.invoiceNumber ?? null,
+        planName: row.period?.plan?.name ?? null,
+        student: row.student,
+      },
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Unexpected error fetching receipt', error as Error, { paymentId })
+    return {
+      receipt: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch receipt'),
+    }
+  }
+}
+
+const formatDocumentDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const formatMethod = (method: string | null) => (method ? getPaymentMethodName(method) : 'Not recorded')
+
+const documentFilename = (prefix: string, number: string | null, id: number) =>
+  `${prefix}-${(number || String(id)).replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '')}`
+
+// Mess details at the top of both documents
+const renderIssuer = (settings: BillingSettings) => {
+  const contact = [settings.phone, settings.email].filter(Boolean).map(escapeHtml).join(' &middot; ')
+  return `
+    <div class="issuer">
+      ${settings.logoUrl ? `<img class="logo" src="${escapeHtml(settings.logoUrl)}" />` : ''}
+      <div>
+        <div class="mess">${escapeHtml(settings.messName)}</div>
+        ${settings.address ? `<div class="muted">${escapeHtml(settings.address).replace(/\n/g, '<br />')}</div>` : ''}
+        ${contact ? `<div class="muted">${contact}</div>` : ''}
+        ${settings.taxId ? `<div class="muted">GSTIN: ${escapeHtml(settings.taxId)}</div>` : ''}
+      </div>
+    </div>`
+}
+
+const renderDocument = (title: string, settings: BillingSettings, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1a1a1a; padding: 32px; font-size: 13px; }
+  .issuer { display: flex; align-items: center; gap: 16px; border-bottom: 2px solid #7B2CBF; padding-bottom: 16px; }
+  .logo { max-height: 64px; max-width: 120px; }
+  .mess { font-size: 20px; font-weight: bold; }
+  .muted { color: #666; }
+  h1 { color: #7B2CBF; font-size: 22px; margin: 24px 0 4px; }
+  .meta { display: flex; justify-content: space-between; margin-bottom: 24px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #ddd; padding: 8px; text-align: left; }
+  th { background: #f3e8ff; }
+  .num { text-align: right; }
+  .total td { font-weight: bold; border-bottom: none; }
+  .footer { margin-top: 32px; color: #666; font-size: 11px; }
+</style>
+</head>
+<body>
+  ${renderIssuer(settings)}
+  <h1>${escapeHtml(title)}</h1>
+  ${body}
+  ${settings.footerNote ? `<div class="footer">${escapeHtml(settings.footerNote)}</div>` : ''}
+  <div class="footer">This is a computer-generated document and needs no signature.</div>
+</body>
+</html>`
+
+const renderBilledTo = (student: Invoice['student']) => `
+  <div>
+    <div class="muted">Billed to</div>
+    <div><strong>${escapeHtml(student.name)}</strong></div>
+    ${student.rollNumber ? `<div>Roll No. ${escapeHtml(student.rollNumber)}</div>` : ''}
+    ${student.email ? `<div class="muted">${escapeHtml(student.email)}</div>` : ''}
+  </div>`
+
+/**
+ * Invoice for a plan term as an HTML page for printing
+ */
+export function buildInvoiceHtml(invoice: Invoice, settings: BillingSettings): string {
+  const due = Math.max(invoice.price - invoice.paid, 0)
+  const description = `${invoice.planName || 'Mess plan'} (${invoice.kind === 'join' ? 'joining' : 'renewal'})`
+
+  return renderDocument('Invoice', settings, `
+    <div class="meta">
+      ${renderBilledTo(invoice.student)}
+      <div class="num">
+        <div>Invoice No. <strong>${escapeHtml(invoice.number || `#${invoice.id}`)}</strong></div>
+        <div>Date: ${formatDocumentDate(invoice.issuedAt)}</div>
+      </div>
+    </div>
+    <table>
+      <thead><tr><th>Description</th><th>Period</th><th class="num">Amount</th></tr></thead>
+      <tbody>
+        <tr>
+          <td>${escapeHtml(description)}</td>
+          <td>${formatDocumentDate(invoice.startDate)} - ${formatDocumentDate(invoice.endDate)}</td>
+          <td class="num">${formatReportCurrency(invoice.price)}</td>
+        </tr>
+        <tr class="total"><td colspan="2" class="num">Total</td><td class="num">${formatReportCurrency(invoice.price)}</td></tr>
+        <tr class="total"><td colspan="2" class="num">Paid</td><td class="num">${formatReportCurrency(invoice.paid)}</td></tr>
+        <tr class="total"><td colspan="2" class="num">Amount Due</td><td class="num">${formatReportCurrency(due)}</td></tr>
+      </tbody>
+    </table>`)
+}
+
+/**
+ * Receipt for a payment as an HTML page for printing
+ */
+export function buildReceiptHtml(receipt: Receipt, settings: BillingSettings): string {
+  const against = receipt.invoiceNumber
+    ? `Invoice ${receipt.invoiceNumber}${receipt.planName ? ` (${receipt.planName})` : ''}`
+    : 'Mess account'
+
+  return renderDocument('Payment Receipt', settings, `
+    <div class="meta">
+      ${renderBilledTo(receipt.student)}
+      <div class="num">
+        <div>Receipt No. <strong>${escapeHtml(receipt.number || `#${receipt.id}`)}</strong></div>
+        <div>Date: ${formatDocumentDate(receipt.paymentDate)}</div>
+      </div>
+    </div>
+    <table>
+      <thead><tr><th>Received for</th><th>Method</th><th class="num">Amount</th></tr></thead>
+      <tbody>
+        <tr>
+          <td>${escapeHtml(against)}</td>
+          <td>${escapeHtml(formatMethod(receipt.method))}${receipt.reference ? `<br>Ref. ${escapeHtml(receipt.reference)}` : ''}</td>
+          <td class="num">${formatReportCurrency(receipt.amount)}</td>
+        </tr>
+        <tr class="total"><td colspan="2" class="num">Total Received</td><td class="num">${formatReportCurrency(receipt.amount)}</td></tr>
+      </tbody>
+    </table>`)
+}
+
+/**
+ * Share the invoice for a plan term as a PDF
+ */
+export async function shareInvoice(
+  periodId: number
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const [result, settings] = await Promise.all([getInvoice(periodId), getBillingSettings()])
+    if (result.error) throw result.error
+
+    const { invoice } = result
+    await shareHtmlAsPdf(
+      buildInvoiceHtml(invoice, settings),
+      documentFilename('invoice', invoice.number, invoice.id),
+      'Share Invoice'
+    )
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error sharing invoice', error as Error, { periodId })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to share invoice'),
+    }
+  }
+}
+
+/**
+ * Share the receipt for a payment as a PDF
+ */
+export async function shareReceipt(
+  paymentId: number
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const [result, settings] = await Promise.all([getReceipt(paymentId), getBillingSettings()])
+    if (result.error) throw result.error
+
+    const { receipt } = result
+    await shareHtmlAsPdf(
+      buildReceiptHtml(receipt, settings),
+      documentFilename('receipt', receipt.number, receipt.id),
+      'Share Receipt'
+    )
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error sharing receipt', error as Error, { paymentId })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to share receipt'),
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import * as DocumentPicker from 'expo-document-picker'
+import * as FileSystem from 'expo-file-system/legacy'
+import { format, isValid, parse } from 'date-fns'
+
+// Accepted date formats in imported files, first match wins
+const IMPORT_DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'dd-MM-yyyy', 'd/M/yyyy']
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells (with "" escapes and line breaks), CRLF line endings
+ * and a UTF-8 byte order mark. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some((value) => value.trim() !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+/**
+ * Normalise a header cell so "Join Date", "join_date" and "joinDate" match
+ */
+export function normalizeCsvHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Parse a date cell written as YYYY-MM-DD or DD/MM/YYYY
+ */
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim()
+  for (const dateFormat of IMPORT_DATE_FORMATS) {
+    const parsed = parse(trimmed, dateFormat, new Date())
+    if (isValid(parsed) && format(parsed, dateFormat) === trimmed) {
+      return format(parsed, 'yyyy-MM-dd')
+    }
+  }
+  return null
+}
+
+/**
+ * Let the admin pick a CSV file and read it
+ * Returns null when the picker is cancelled
+ */
+export async function pickCsvFile(): Promise<{ name: string; text: string } | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/csv', 'text/comma-separated-values', 'application/vnd.ms-excel', 'text/plain'],
+    copyToCacheDirectory: true,
+  })
+
+  if (result.canceled || !result.assets?.[0]) {
+    return null
+  }
+
+  const file = result.assets[0]
+  const text = await FileSystem.readAsStringAsync(file.uri, {
+    encoding: FileSystem.EncodingType.UTF8,
+  })
+
+  return { name: file.name, text }
+}
@@ -1,15 +1,17 @@
 import { supabase } from './supabase'
-import { getCurrentMeal, getAttendanceStats } from './attendance'
+import { getAttendanceStats, type AttendanceStats } from './attendance'
+import { getCurrentMeal, getMealSchedule, getMealName, getMealWindow, formatMealWindow, type MealKey } from './meal-schedule'
 import { format } from 'date-fns'
 import { logger } from './logger'
 
 export interface CurrentMealStatus {
-  meal: 'breakfast' | 'lunch' | 'dinner' | null
+  meal: MealKey | null
   mealName: string
   timeWindow: string
   present: number
   total: number
   percentage: number
+  guests: number // Guest meals recorded for this meal today
 }
 
 export interface TodaySummary {
@@ -24,9 +26,9 @@ export interface QuickStats {
 }
 
 export interface Alert {
-  type: 'expiring' | 'low_balance'
+  type: 'expiring' | 'low_balance' | 'overdue_installment'
   count: number
-  students?: Array<{ id: number; name: string; daysRemaining?: number; balance?: number }>
+  students?: Array<{ id: number; name: string; daysRemaining?: number; balance?: number; overdue?: number }>
 }
 
 export interface AttendanceTrend {
@@ -64,8 +66,10 @@ export interface DashboardData {
  */
 export async function getCurrentMealStatus(): Promise<CurrentMealStatus> {
   try {
-    const currentMeal = getCurrentMeal()
-    const today = format(new Date(), 'yyyy-MM-dd')
+    const now = new Date()
+    const schedule = await getMealSchedule()
+    const currentMeal = getCurrentMeal(schedule, now)
+    const today = format(now, 'yyyy-MM-dd')
 
     if (!currentMeal) {
       return {
@@ -75,36 +79,26 @@ export async function getCurrentMealStatus(): Promise<CurrentMealStatus> {
         present: 0,
         total: 0,
         percentage: 0,
+        guests: 0,
       }
     }
 
     // Get attendance stats for today
     const stats = await getAttendanceStats(today)
 
-    const mealNames = {
-      breakfast: 'Breakfast',
-      lunch: 'Lunch',
-      dinner: 'Dinner',
-    }
-
-    const timeWindows = {
-      breakfast: '7:00 AM - 10:00 AM',
-      lunch: '12:00 PM - 3:00 PM',
-      dinner: '7:00 PM - 10:00 PM',
-    }
-
-    const mealStats = stats[currentMeal]
-    const present = mealStats.present
-    const total = mealStats.total
+    const mealStats = stats.meals[currentMeal]
+    const present = mealStats?.present ?? 0
+    const total = mealStats?.total ?? 0
     const percentage = total > 0 ? Math.round((present / total) * 100) : 0
 
     return {
       meal: currentMeal,
-      mealName: mealNames[currentMeal],
-      timeWindow: timeWindows[currentMeal],
+      mealName: getMealName(currentMeal, schedule),
+      timeWindow: formatMealWindow(getMealWindow(schedule, currentMeal, now)),
       present,
       total,
       percentage,
+      guests: mealStats?.guests ?? 0,
     }
   } catch (error) {
     logger.error('Error getting current meal status', error as Error)
@@ -115,6 +109,7 @@ export async function getCurrentMealStatus(): Promise<CurrentMealStatus> {
       present: 0,
       total: 0,
       percentage: 0,
+      guests: 0,
     }
   }
 }
@@ -252,6 +247,16 @@ export async function getAlerts(): Promise<Alert[]> {
 
     if (balanceError) throw balanceError
 
+    // Installments past their due date; paid can't be compared to amount in
+    // the query, so fully paid ones are dropped below
+    const { data: pastDueInstallments, error: installmentsError } = await supabase
+      .from('Installment')
+      .select('amount, paid, student:Student!inner(id, name, isActive)')
+      .lt('dueDate', todayStr)
+      .eq('student.isActive', true)
+
+    if (installmentsError) throw installmentsError
+
     const alerts: Alert[] = []
 
     if (expiringStudents && expiringStudents.length > 0) {
@@ -286,6 +291,28 @@ export async function getAlerts(): Promise<Alert[]> {
       })
     }
 
+    // One entry per student with the total overdue
+    const overdueByStudent = new Map<number, { id: number; name: string; overdue: number }>()
+    for (const installment of (pastDueInstallments || []) as any[]) {
+      const due = Math.round((Number(installment.amount || 0) - Number(installment.paid || 0)) * 100) / 100
+      if (due <= 0 || !installment.student) continue
+      const entry = overdueByStudent.get(installment.student.id) || {
+        id: installment.student.id,
+        name: installment.student.name,
+        overdue: 0,
+      }
+      entry.overdue = Math.round((entry.overdue + due) * 100) / 100
+      overdueByStudent.set(entry.id, entry)
+    }
+
+    if (overdueByStudent.size > 0) {
+      alerts.push({
+        type: 'overdue_installment',
+        count: overdueByStudent.size,
+        students: Array.from(overdueByStudent.values()),
+      })
+    }
+
     return alerts
   } catch (error) {
     logger.error('Error getting alerts', error as Error)
@@ -293,6 +320,14 @@ export async function getAlerts(): Promise<Alert[]> {
   }
 }
 
+// Percentage of eligible meals marked across all meal types
+function overallMealPercentage(stats: AttendanceStats): number {
+  const totals = Object.values(stats.meals)
+  const total = totals.reduce((sum, meal) => sum + meal.total, 0)
+  const present = totals.reduce((sum, meal) => sum + meal.present, 0)
+  return total > 0 ? Math.round((present / total) * 100) : 0
+}
+
 /**
  * Get yesterday's attendance percentage
  */
@@ -303,10 +338,7 @@ async function getYesterdayAttendancePercentage(): Promise<number> {
     const yesterdayStr = format(yesterday, 'yyyy-MM-dd')
 
     const stats = await getAttendanceStats(yesterdayStr)
-    const total = stats.breakfast.total + stats.lunch.total + stats.dinner.total
-    const present = stats.breakfast.present + stats.lunch.present + stats.dinner.present
-
-    return total > 0 ? Math.round((present / total) * 100) : 0
+    return overallMealPercentage(stats)
   } catch (error) {
     logger.error('Error getting yesterday attendance', error as Error)
     return 0
@@ -322,9 +354,7 @@ export async function getAttendanceTrend(): Promise<AttendanceTrend> {
     const todayStats = await getAttendanceStats(today)
     const yesterdayPercentage = await getYesterdayAttendancePercentage()
 
-    const total = todayStats.breakfast.total + todayStats.lunch.total + todayStats.dinner.total
-    const present = todayStats.breakfast.present + todayStats.lunch.present + todayStats.dinner.present
-    const todayPercentage = total > 0 ? Math.round((present / total) * 100) : 0
+    const todayPercentage = overallMealPercentage(todayStats)
 
     return {
       todayPercentage,
@@ -0,0 +1,254 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { getAppSetting, setAppSetting } from './settings'
+import type { MealKey } from './meal-schedule'
+
+// Guests a student brought for one meal, charged to the student's account
+export interface GuestMeal {
+  id: number
+  studentId: number
+  date: string
+  meal: MealKey
+  count: number
+  rate: number
+  amount: number
+  note: string | null
+  createdByEmail: string | null
+  createdAt: string
+  student?: {
+    id: number
+    name: string
+    rollNumber: string | null
+  }
+}
+
+// Default price per guest for each meal type, prefilled when recording
+export type GuestMealRates = Record<MealKey, number>
+
+export const GUEST_MEAL_RATES_SETTING_KEY = 'guest_meal_rates'
+
+export interface RecordGuestMealInput {
+  studentId: number
+  date: string
+  meal: MealKey
+  count: number
+  rate: number
+  note?: string
+}
+
+const toNumber = (value: unknown) => (typeof value === 'string' ? parseFloat(value) : Number(value ?? 0))
+
+function transformGuestMeal(row: any): GuestMeal {
+  return {
+    ...row,
+    date: String(row.date).slice(0, 10),
+    rate: toNumber(row.rate),
+    amount: toNumber(row.amount),
+  }
+}
+
+/**
+ * Drop anything that isn't a non-negative rate
+ */
+export function normalizeGuestMealRates(raw: unknown): GuestMealRates {
+  if (!raw || typeof raw !== 'object') return {}
+
+  return Object.entries(raw as Record<string, unknown>).reduce<GuestMealRates>((rates, [meal, value]) => {
+    const rate = toNumber(value)
+    if (Number.isFinite(rate) && rate >= 0) {
+      rates[meal] = Math.round(rate * 100) / 100
+    }
+    return rates
+  }, {})
+}
+
+/**
+ * Validate a guest meal before sending it
+ * Returns an error message, or null when it's fine
+ */
+export function validateGuestMeal(input: Pick<RecordGuestMealInput, 'count' | 'rate'>): string | null {
+  if (!Number.isInteger(input.count) || input.count < 1) {
+    return 'Number of guests must be a whole number of at least 1'
+  }
+  if (!Number.isFinite(input.rate) || input.rate < 0) {
+    return 'Guest rate must be zero or more'
+  }
+  return null
+}
+
+/**
+ * Total number of guests per meal
+ */
+export function countGuestsByMeal(guestMeals: Pick<GuestMeal, 'meal' | 'count'>[]): Record<MealKey, number> {
+  return guestMeals.reduce<Record<MealKey, number>>((counts, guestMeal) => {
+    counts[guestMeal.meal] = (counts[guestMeal.meal] || 0) + guestMeal.count
+    return counts
+  }, {})
+}
+
+/**
+ * Total charged for a list of guest meals
+ */
+export function sumGuestCharges(guestMeals: Pick<GuestMeal, 'amount'>[]): number {
+  const total = guestMeals.reduce((sum, guestMeal) => sum + guestMeal.amount, 0)
+  return Math.round(total * 100) / 100
+}
+
+/**
+ * Get the default guest rate for each meal
+ */
+export async function getGuestMealRates(): Promise<GuestMealRates> {
+  const result = await getAppSetting<GuestMealRates>(GUEST_MEAL_RATES_SETTING_KEY)
+
+  if (result.error) {
+    logger.warn('Using empty guest meal rates', { reason: result.error.message })
+    return {}
+  }
+
+  return normalizeGuestMealRates(result.value)
+}
+
+/**
+ * Save the default guest rates
+ */
+export async function updateGuestMealRates(
+  rates: GuestMealRates
+): Promise<{ rates: GuestMealRates; error: null } | { rates: null; error: Error }> {
+  const normalized = normalizeGuestMealRates(rates)
+
+  const result = await setAppSetting(GUEST_MEAL_RATES_SETTING_KEY, normalized)
+  if (result.error) {
+    return { rates: null, error: result.error }
+  }
+
+  return { rates: normalized, error: null }
+}
+
+/**
+ * Get guest meals for a day and/or a host student, newest first
+ * Students only see their own (enforced by RLS)
+ */
+export async function getGuestMeals(
+  params: { date?: string; studentId?: number } = {}
+): Promise<{ guestMeals: GuestMeal[]; error: null } | { guestMeals: null; error: Error }> {
+  try {
+    let query = supabase
+      .from('GuestMeal')
+      .select(`
+        *,
+        student:Student(id, name, rollNumber)
+      `)
+      .order('date', { ascending: false })
+      .order('createdAt', { ascending: false })
+
+    if (params.date) {
+      query = query.eq('date', params.date)
+    }
+    if (params.studentId) {
+      query = query.eq('studentId', params.studentId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Error fetching guest meals', error as Error, params)
+      return { guestMeals: null, error: new Error(error.message) }
+    }
+
+    return { guestMeals: (data || []).map(transformGuestMeal), error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching guest meals', error as Error, params)
+    return {
+      guestMeals: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch guest meals'),
+    }
+  }
+}
+
+/**
+ * Record guest meals against a host student (admin only)
+ * Uses the guest-meal Edge Function, which adds the charge to the student's
+ * balance in the same transaction
+ */
+export async function recordGuestMeal(
+  input: RecordGuestMealInput
+): Promise<{ guestMeal: GuestMeal; error: null } | { guestMeal: null; error: Error }> {
+  const validationError = validateGuestMeal(input)
+  if (validationError) {
+    return { guestMeal: null, error: new Error(validationError) }
+  }
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { guestMeal: null, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('guest-meal', {
+      body: { action: 'record', ...input },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      return { guestMeal: null, error: new Error(functionError.message || 'Failed to record guest meal') }
+    }
+
+    if (result?.error) {
+      return { guestMeal: null, error: new Error(result.error) }
+    }
+
+    // Remember the rate for next time; the guest meal itself is already saved
+    const rates = await getGuestMealRates()
+    if (rates[input.meal] !== input.rate) {
+      await updateGuestMealRates({ ...rates, [input.meal]: input.rate })
+    }
+
+    return { guestMeal: transformGuestMeal(result.guestMeal), error: null }
+  } catch (error) {
+    logger.error('Error recording guest meal', error as Error, { studentId: input.studentId })
+    return {
+      guestMeal: null,
+      error: error instanceof Error ? error : new Error('Failed to record guest meal'),
+    }
+  }
+}
+
+/**
+ * Delete a guest meal recorded by mistake and take its charge back off the
+ * student's balance (admin only)
+ */
+export async function deleteGuestMeal(
+  guestMealId: number
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { success: false, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('guest-meal', {
+      body: { action: 'delete', guestMealId },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      return { success: false, error: new Error(functionError.message || 'Failed to delete guest meal') }
+    }
+
+    if (result?.error) {
+      return { success: false, error: new Error(result.error) }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error deleting guest meal', error as Error, { guestMealId })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to delete guest meal'),
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import { addDays, format, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+
+// A plan term paid in parts (see 021_installments.sql). The term's paid is
+// allocated to its installments in due date order, so paid here always
+// follows the payments recorded against the term.
+export interface Installment {
+  id: number
+  periodId: number
+  studentId: number
+  dueDate: string // YYYY-MM-DD
+  amount: number
+  paid: number
+}
+
+// One part of a schedule being set up, before it is saved
+export interface InstallmentInput {
+  dueDate: string // YYYY-MM-DD
+  amount: number
+}
+
+export type InstallmentStatus = 'paid' | 'overdue' | 'upcoming'
+
+export const INSTALLMENT_STATUS_LABELS: Record<InstallmentStatus, string> = {
+  paid: 'Paid',
+  overdue: 'Overdue',
+  upcoming: 'Upcoming',
+}
+
+export const MIN_INSTALLMENTS = 2
+
+export const MAX_INSTALLMENTS = 6
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Amount still owed on an installment (never below zero)
+ */
+export function getInstallmentDue(installment: Pick<Installment, 'amount' | 'paid'>): number {
+  return Math.max(round2(installment.amount - installment.paid), 0)
+}
+
+/**
+ * Whether an installment is paid, past its due date or still to come
+ */
+export function getInstallmentStatus(
+  installment: Pick<Installment, 'amount' | 'paid' | 'dueDate'>,
+  today: string // YYYY-MM-DD
+): InstallmentStatus {
+  if (getInstallmentDue(installment) === 0) return 'paid'
+  return installment.dueDate < today ? 'overdue' : 'upcoming'
+}
+
+/**
+ * Split a term's price into equal parts due at even steps through the term,
+ * the first on its start date. Amounts are whole rupees; the first part
+ * takes the remainder. A term gets at most one part per day.
+ */
+export function splitIntoInstallments(
+  price: number,
+  count: number,
+  startDate: string, // YYYY-MM-DD
+  durationDays: number
+): InstallmentInput[] {
+  const parts = Math.min(Math.max(Math.floor(count), MIN_INSTALLMENTS), MAX_INSTALLMENTS, Math.max(Math.floor(durationDays), 1))
+  const share = Math.floor(price / parts)
+  const start = parseISO(startDate)
+
+  return Array.from({ length: parts }, (_, index) => ({
+    dueDate: format(addDays(start, Math.round((index * durationDays) / parts)), 'yyyy-MM-dd'),
+    amount: index === 0 ? round2(price - share * (parts - 1)) : share,
+  }))
+}
+
+/**
+ * Spread what's been paid on a term over its installments, earliest due
+ * first. Same allocation as allocate_installments() in the database.
+ */
+export function allocateInstallments<T extends InstallmentInput>(
+  installments: T[],
+  paid: number
+): Array<T & { paid: number }> {
+  let remaining = Math.max(paid, 0)
+
+  return [...installments]
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    .map((installment) => {
+      const allocated = round2(Math.min(installment.amount, remaining))
+      remaining = round2(remaining - allocated)
+      return { ...installment, paid: allocated }
+    })
+}
+
+/**
+ * Check a schedule before it is saved against a term costing price and
+ * lasting durationDays. Same rules as set_period_installments().
+ * Returns an error message, or null when it is valid
+ */
+export function validateInstallments(
+  installments: InstallmentInput[],
+  price: number,
+  durationDays: number
+): string | null {
+  if (installments.length < MIN_INSTALLMENTS || installments.length > MAX_INSTALLMENTS) {
+    return `Split the fee into ${MIN_INSTALLMENTS} to ${MAX_INSTALLMENTS} installments`
+  }
+
+  if (installments.length > durationDays) {
+    return `A ${durationDays}-day term can be split into at most ${durationDays} installments`
+  }
+
+  const dueDates = new Set<string>()
+  for (const [index, installment] of installments.entries()) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(installment.dueDate)) {
+      return `Installment ${index + 1}: choose a due date`
+    }
+    if (dueDates.has(installment.dueDate)) {
+      return `Installment ${index + 1}: another installment is due on the same day`
+    }
+    if (!(installment.amount > 0)) {
+      return `Installment ${index + 1}: enter an amount above zero`
+    }
+    dueDates.add(installment.dueDate)
+  }
+
+  const total = round2(installments.reduce((sum, installment) => sum + installment.amount, 0))
+  if (total !== round2(price)) {
+    return `Installments add up to ₹${total.toLocaleString('en-IN')}, but the plan costs ₹${round2(price).toLocaleString('en-IN')}`
+  }
+
+  return null
+}
+
+/**
+ * Get a student's installments across all terms, earliest due first
+ */
+export async function getInstallments(
+  studentId: number
+): Promise<{ installments: Installment[]; error: null } | { installments: null; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('Installment')
+      .select('id, periodId, studentId, dueDate, amount, paid')
+      .eq('studentId', studentId)
+      .order('dueDate', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (error) throw error
+
+    return {
+      installments: (data || []).map((row: any) => ({
+        ...row,
+        dueDate: String(row.dueDate).slice(0, 10),
+        amount: Number(row.amount || 0),
+        paid: Number(row.paid || 0),
+      })) as Installment[],
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Error fetching installments', error as Error, { studentId })
+    return {
+      installments: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch installments'),
+    }
+  }
+}
+
+/**
+ * Set or replace the schedule of an existing term, e.g. one started on
+ * joining or by an import. An empty list removes the schedule.
+ * The amounts are checked against the term's price again on the server.
+ */
+export async function setPeriodInstallments(
+  periodId: number,
+  installments: InstallmentInput[]
+): Promise<{ count: number; error: null } | { count: null; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { count: null, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('set-installments', {
+      body: {
+        periodId,
+        installments: installments.map((installment) => ({
+          dueDate: installment.dueDate,
+          amount: round2(installment.amount),
+        })),
+      },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      logger.error('Error setting installments', functionError as Error, { periodId })
+      return { count: null, error: new Error(functionError.message || 'Failed to save installments') }
+    }
+
+    if (!result?.success) {
+      return { count: null, error: new Error(result?.error || 'Failed to save installments') }
+    }
+
+    return { count: Number(result.count || 0), error: null }
+  } catch (error) {
+    logger.error('Unexpected error setting installments', error as Error, { periodId })
+    return {
+      count: null,
+      error: error instanceof Error ? error : new Error('Failed to save installments'),
+    }
+  }
+}
@@ -0,0 +1,369 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { getAppSetting, setAppSetting } from './settings'
+
+// Late fees are charged by the database (see 022_late_fees.sql): once a
+// day, every term that still has money due graceDays after it started is
+// charged under each rule, at most once per rule. A term paid in
+// installments is charged on each installment still unpaid graceDays after
+// its due date instead. The rule's id is what marks a deadline as charged,
+// so editing a rule doesn't charge anyone twice.
+export type LateFeeType = 'flat' | 'percent'
+
+export interface LateFeeRule {
+  id: string
+  name: string // Shown on the student's statement, e.g. "Late fee"
+  graceDays: number // Days after the term starts, or an installment falls due, to pay
+  type: LateFeeType
+  amount: number // Rupees, or percent of the amount due
+  cap: number | null // Most a percentage fee can come to; null for no cap
+  waivable: boolean // Admins can take the fee back off
+}
+
+// A fee charged on a term
+export interface LateFee {
+  id: number
+  studentId: number
+  periodId: number
+  installmentId: number | null // Set when charged on an installment
+  ruleId: string
+  ruleName: string
+  dueDate: string // YYYY-MM-DD, last day to pay before the fee applied
+  amountDue: number // What was still due when it was charged
+  amount: number
+  waivable: boolean
+  ledgerEntryId: number | null
+  waivedAt: string | null
+  waivedByEmail: string | null
+  waiveReason: string | null
+  createdAt: string
+}
+
+export type LateFeeRunSource = 'manual' | 'scheduled'
+
+export interface LateFeeRun {
+  id: number
+  source: LateFeeRunSource
+  feesCharged: number
+  totalCharged: number
+  ranByEmail: string | null
+  ranAt: string
+}
+
+export const LATE_FEE_RULES_SETTING_KEY = 'late_fee_rules'
+
+export const LATE_FEE_TYPE_LABELS: Record<LateFeeType, string> = {
+  flat: 'Flat amount',
+  percent: 'Percent of amount due',
+}
+
+export const MAX_LATE_FEE_RULES = 5
+
+export const MAX_GRACE_DAYS = 90
+
+const MAX_RULE_NAME_LENGTH = 40
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`
+
+/**
+ * A new rule with an id no other rule has
+ */
+export function createLateFeeRule(overrides: Partial<Omit<LateFeeRule, 'id'>> = {}): LateFeeRule {
+  return {
+    id: `rule-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: 'Late fee',
+    graceDays: 7,
+    type: 'flat',
+    amount: 100,
+    cap: null,
+    waivable: true,
+    ...overrides,
+  }
+}
+
+/**
+ * Drop stored rules that can't be applied and fill in missing fields
+ */
+export function normalizeLateFeeRules(raw: unknown): LateFeeRule[] {
+  if (!Array.isArray(raw)) return []
+
+  return raw
+    .filter(
+      (rule): rule is LateFeeRule =>
+        !!rule &&
+        typeof rule.id === 'string' &&
+        !!rule.id &&
+        (rule.type === 'flat' || rule.type === 'percent') &&
+        Number(rule.amount) > 0 &&
+        Number(rule.graceDays) >= 0
+    )
+    .map((rule) => ({
+      id: rule.id,
+      name: typeof rule.name === 'string' && rule.name.trim() ? rule.name.trim() : 'Late fee',
+      graceDays: Math.floor(Number(rule.graceDays)),
+      type: rule.type,
+      amount: round2(Number(rule.amount)),
+      cap: rule.type === 'percent' && Number(rule.cap) > 0 ? round2(Number(rule.cap)) : null,
+      waivable: rule.waivable !== false,
+    }))
+}
+
+/**
+ * Validate the rules before saving
+ * Returns an error message, or null when they are valid
+ */
+export function validateLateFeeRules(rules: LateFeeRule[]): string | null {
+  if (rules.length > MAX_LATE_FEE_RULES) {
+    return `At most ${MAX_LATE_FEE_RULES} late fee rules can be added`
+  }
+
+  const names = new Set<string>()
+  for (const rule of rules) {
+    const name = rule.name.trim()
+    if (!name) {
+      return 'Every late fee rule needs a name'
+    }
+    if (name.length > MAX_RULE_NAME_LENGTH) {
+      return `${name}: use at most ${MAX_RULE_NAME_LENGTH} characters`
+    }
+    if (names.has(name.toLowerCase())) {
+      return `There is more than one late fee rule called ${name}`
+    }
+    names.add(name.toLowerCase())
+
+    if (!Number.isInteger(rule.graceDays) || rule.graceDays < 0 || rule.graceDays > MAX_GRACE_DAYS) {
+      return `${name}: grace period must be 0 to ${MAX_GRACE_DAYS} days`
+    }
+    if (!(rule.amount > 0)) {
+      return `${name}: enter a fee above zero`
+    }
+    if (rule.type === 'percent' && rule.amount > 100) {
+      return `${name}: a percentage fee can be at most 100%`
+    }
+    if (rule.cap !== null && !(rule.cap > 0)) {
+      return `${name}: the cap must be above zero, or left empty`
+    }
+  }
+
+  return null
+}
+
+/**
+ * The fee a rule charges on what's still due
+ * Same as late_fee_amount() in the database.
+ */
+export function calculateLateFee(rule: Pick<LateFeeRule, 'type' | 'amount' | 'cap'>, amountDue: number): number {
+  if (amountDue <= 0) return 0
+  if (rule.type === 'flat') return round2(rule.amount)
+
+  const fee = round2((amountDue * rule.amount) / 100)
+  return rule.cap !== null && rule.cap > 0 ? Math.min(fee, round2(rule.cap)) : fee
+}
+
+/**
+ * One line explaining a rule, e.g. "5% of the amount due, up to ₹500, if not paid within 15 days"
+ */
+export function describeLateFeeRule(rule: LateFeeRule): string {
+  const fee =
+    rule.type === 'flat'
+      ? formatRupees(rule.amount)
+      : `${rule.amount}% of the amount due${rule.cap !== null ? `, up to ${formatRupees(rule.cap)},` : ''}`
+  const within =
+    rule.graceDays === 0
+      ? 'on the day the term starts or an installment is due'
+      : `within ${rule.graceDays} ${rule.graceDays === 1 ? 'day' : 'days'} of the term starting or an installment falling due`
+  return `${fee} if not paid ${within}`
+}
+
+/**
+ * Load the late fee rules
+ * Never throws - falls back to no rules
+ */
+export async function getLateFeeRules(): Promise<LateFeeRule[]> {
+  const result = await getAppSetting<LateFeeRule[]>(LATE_FEE_RULES_SETTING_KEY)
+
+  if (result.error) {
+    logger.warn('Using no late fee rules', { reason: result.error.message })
+    return []
+  }
+
+  return normalizeLateFeeRules(result.value)
+}
+
+/**
+ * Save the late fee rules
+ * Fees already charged stay as they are; changes apply from the next run.
+ */
+export async function updateLateFeeRules(
+  rules: LateFeeRule[]
+): Promise<{ rules: LateFeeRule[]; error: null } | { rules: null; error: Error }> {
+  const validationError = validateLateFeeRules(rules)
+  if (validationError) {
+    return { rules: null, error: new Error(validationError) }
+  }
+
+  const normalized = normalizeLateFeeRules(rules)
+  const result = await setAppSetting(LATE_FEE_RULES_SETTING_KEY, normalized)
+  if (result.error) {
+    return { rules: null, error: result.error }
+  }
+
+  return { rules: normalized, error: null }
+}
+
+/**
+ * Get the late fees charged to a student, newest first
+ */
+export async function getLateFees(
+  studentId: number
+): Promise<{ lateFees: LateFee[]; error: null } | { lateFees: null; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('LateFee')
+      .select(
+        'id, studentId, periodId, installmentId, ruleId, ruleName, dueDate, amountDue, amount, waivable, ledgerEntryId, waivedAt, waivedByEmail, waiveReason, createdAt'
+      )
+      .eq('studentId', studentId)
+      .order('createdAt', { ascending: false })
+
+    if (error) throw error
+
+    return {
+      lateFees: (data || []).map((row: any) => ({
+        ...row,
+        dueDate: String(row.dueDate).slice(0, 10),
+        amountDue: Number(row.amountDue || 0),
+        amount: Number(row.amount || 0),
+      })) as LateFee[],
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Error fetching late fees', error as Error, { studentId })
+    return {
+      lateFees: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch late fees'),
+    }
+  }
+}
+
+function normalizeRun(row: any): LateFeeRun {
+  return {
+    id: row.id,
+    source: row.source,
+    feesCharged: Number(row.feesCharged || 0),
+    totalCharged: Number(row.totalCharged || 0),
+    ranByEmail: row.ranByEmail ?? null,
+    ranAt: row.ranAt,
+  }
+}
+
+/**
+ * Get the most recent late fee run, manual or scheduled
+ */
+export async function getLatestLateFeeRun(): Promise<
+  { run: LateFeeRun | null; error: null } | { run: null; error: Error }
+> {
+  try {
+    const { data, error } = await supabase
+      .from('LateFeeRun')
+      .select('*')
+      .order('ranAt', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching late fee run', error as Error)
+      return { run: null, error: new Error(error.message) }
+    }
+
+    return { run: data ? normalizeRun(data) : null, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching late fee run', error as Error)
+    return {
+      run: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch late fee run'),
+    }
+  }
+}
+
+/**
+ * Charge late fees now instead of waiting for the daily run
+ */
+export async function runLateFees(): Promise<{ run: LateFeeRun; error: null } | { run: null; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { run: null, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('late-fees', {
+      body: { action: 'run' },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      logger.error('Error charging late fees', functionError as Error)
+      return { run: null, error: new Error(functionError.message || 'Failed to charge late fees') }
+    }
+
+    if (!result?.success || !result.run) {
+      return { run: null, error: new Error(result?.error || 'Failed to charge late fees') }
+    }
+
+    return { run: normalizeRun(result.run), error: null }
+  } catch (error) {
+    logger.error('Unexpected error charging late fees', error as Error)
+    return {
+      run: null,
+      error: error instanceof Error ? error : new Error('Failed to charge late fees'),
+    }
+  }
+}
+
+/**
+ * Take a late fee back off the student's balance
+ * The reason is written to the audit log.
+ */
+export async function waiveLateFee(
+  lateFeeId: number,
+  reason: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    if (!reason.trim()) {
+      return { success: false, error: new Error('A reason is required') }
+    }
+
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { success: false, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('late-fees', {
+      body: { action: 'waive', lateFeeId, reason: reason.trim() },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      logger.error('Error waiving late fee', functionError as Error, { lateFeeId })
+      return { success: false, error: new Error(functionError.message || 'Failed to waive late fee') }
+    }
+
+    if (!result?.success) {
+      return { success: false, error: new Error(result?.error || 'Failed to waive late fee') }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error waiving late fee', error as Error, { lateFeeId })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to waive late fee'),
+    }
+  }
+}
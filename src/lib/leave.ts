@@ -0,0 +1,385 @@
+import { format, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { getAppSetting, setAppSetting } from './settings'
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled'
+
+export interface LeaveRequest {
+  id: number
+  studentId: number
+  startDate: string
+  endDate: string
+  reason: string | null
+  status: LeaveStatus
+  rebateDays: number
+  reviewedBy: string | null
+  reviewedAt: string | null
+  reviewNote: string | null
+  createdAt: string
+  updatedAt: string
+  student?: {
+    id: number
+    name: string
+    rollNumber: string | null
+    joinDate: string
+    endDate: string
+  }
+}
+
+// Rules for leave (mess-off) requests, stored in AppSetting under 'leave_policy'.
+// The request-leave and review-leave edge functions apply the same rules.
+export interface LeavePolicy {
+  minNoticeDays: number // Leave must start at least this many days after today
+  minRebateDays: number // Shorter leave doesn't extend the plan
+  rebatePercent: number // Share of leave days added back to the plan
+  maxLeaveDays: number // Longest single request
+}
+
+export const LEAVE_POLICY_SETTING_KEY = 'leave_policy'
+
+export const DEFAULT_LEAVE_POLICY: LeavePolicy = {
+  minNoticeDays: 1,
+  minRebateDays: 3,
+  rebatePercent: 100,
+  maxLeaveDays: 30,
+}
+
+export const LEAVE_STATUS_LABELS: Record<LeaveStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+}
+
+export const LEAVE_STATUS_COLORS: Record<LeaveStatus, { color: string; background: string }> = {
+  pending: { color: '#B45309', background: '#FEF3C7' },
+  approved: { color: '#047857', background: '#D1FAE5' },
+  rejected: { color: '#B91C1C', background: '#FEE2E2' },
+  cancelled: { color: '#6B7280', background: '#F3F4F6' },
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toUTC = (date: string) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+/**
+ * Whole days from `from` to `to` ("YYYY-MM-DD"), negative when `to` is earlier
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUTC(to) - toUTC(from)) / DAY_MS)
+}
+
+/**
+ * Number of days in a leave range, both ends included
+ */
+export function countLeaveDays(startDate: string, endDate: string): number {
+  return Math.max(daysBetween(startDate, endDate) + 1, 0)
+}
+
+/**
+ * Display a leave range, e.g. "03 Mar – 07 Mar 2026"
+ */
+export function formatLeaveRange(leave: { startDate: string; endDate: string }): string {
+  if (leave.startDate === leave.endDate) {
+    return format(parseISO(leave.startDate), 'dd MMM yyyy')
+  }
+  return `${format(parseISO(leave.startDate), 'dd MMM')} – ${format(parseISO(leave.endDate), 'dd MMM yyyy')}`
+}
+
+/**
+ * Fill in missing or invalid policy values with defaults
+ */
+export function normalizeLeavePolicy(raw: unknown): LeavePolicy {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<LeavePolicy>
+
+  const whole = (number: unknown, fallback: number, max = Infinity) =>
+    typeof number === 'number' && Number.isFinite(number) && number >= 0
+      ? Math.min(Math.round(number), max)
+      : fallback
+
+  return {
+    minNoticeDays: whole(value.minNoticeDays, DEFAULT_LEAVE_POLICY.minNoticeDays),
+    minRebateDays: whole(value.minRebateDays, DEFAULT_LEAVE_POLICY.minRebateDays),
+    rebatePercent: whole(value.rebatePercent, DEFAULT_LEAVE_POLICY.rebatePercent, 100),
+    maxLeaveDays: whole(value.maxLeaveDays, DEFAULT_LEAVE_POLICY.maxLeaveDays) || DEFAULT_LEAVE_POLICY.maxLeaveDays,
+  }
+}
+
+/**
+ * Reason a leave range can't be requested, or null when it can
+ * `today` is the mess-local date ("YYYY-MM-DD")
+ */
+export function validateLeaveDates(
+  policy: LeavePolicy,
+  startDate: string,
+  endDate: string,
+  today: string
+): string | null {
+  if (daysBetween(startDate, endDate) < 0) {
+    return 'End date must be on or after the start date'
+  }
+
+  if (daysBetween(today, startDate) < policy.minNoticeDays) {
+    return policy.minNoticeDays === 1
+      ? 'Leave must be requested at least a day in advance'
+      : `Leave must be requested at least ${policy.minNoticeDays} days in advance`
+  }
+
+  if (countLeaveDays(startDate, endDate) > policy.maxLeaveDays) {
+    return `Leave can be at most ${policy.maxLeaveDays} days at a time`
+  }
+
+  return null
+}
+
+/**
+ * Days the plan is extended by when leave is approved
+ * Only leave days inside the plan period count, and leave shorter than
+ * the policy minimum earns nothing.
+ */
+export function calculateRebateDays(
+  policy: LeavePolicy,
+  leave: { startDate: string; endDate: string },
+  plan: { joinDate: string; endDate: string }
+): number {
+  const start = daysBetween(plan.joinDate, leave.startDate) > 0 ? leave.startDate : plan.joinDate
+  const end = daysBetween(leave.endDate, plan.endDate) > 0 ? leave.endDate : plan.endDate
+  const leaveDays = countLeaveDays(start, end)
+
+  if (leaveDays < Math.max(policy.minRebateDays, 1)) return 0
+  return Math.floor((leaveDays * policy.rebatePercent) / 100)
+}
+
+/**
+ * Load the leave policy
+ * Never throws - falls back to the default policy
+ */
+export async function getLeavePolicy(): Promise<LeavePolicy> {
+  const result = await getAppSetting<LeavePolicy>(LEAVE_POLICY_SETTING_KEY)
+
+  if (result.error) {
+    logger.warn('Using default leave policy', { reason: result.error.message })
+    return DEFAULT_LEAVE_POLICY
+  }
+
+  return normalizeLeavePolicy(result.value)
+}
+
+/**
+ * Save the leave policy
+ */
+export async function updateLeavePolicy(
+  policy: LeavePolicy
+): Promise<{ policy: LeavePolicy; error: null } | { policy: null; error: Error }> {
+  const normalized = normalizeLeavePolicy(policy)
+  if (normalized.maxLeaveDays < 1) {
+    return { policy: null, error: new Error('Maximum leave must be at least 1 day') }
+  }
+
+  const result = await setAppSetting(LEAVE_POLICY_SETTING_KEY, normalized)
+  if (result.error) {
+    return { policy: null, error: result.error }
+  }
+
+  return { policy: normalized, error: null }
+}
+
+/**
+ * Get leave requests, newest first
+ * Students only see their own (enforced by RLS)
+ */
+export async function getLeaveRequests(
+  params: { status?: LeaveStatus; studentId?: number } = {}
+): Promise<{ leaveRequests: LeaveRequest[]; error: null } | { leaveRequests: null; error: Error }> {
+  try {
+    let query = supabase
+      .from('LeaveRequest')
+      .select(`
+        *,
+        student:Student(id, name, rollNumber, joinDate, endDate)
+      `)
+      .order('createdAt', { ascending: false })
+
+    if (params.status) {
+      query = query.eq('status', params.status)
+    }
+
+    if (params.studentId) {
+      query = query.eq('studentId', params.studentId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Error fetching leave requests', error as Error)
+      return { leaveRequests: null, error: new Error(error.message) }
+    }
+
+    return { leaveRequests: (data || []) as LeaveRequest[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching leave requests', error as Error)
+    return {
+      leaveRequests: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch leave requests'),
+    }
+  }
+}
+
+/**
+ * Submit a leave request for the signed-in student
+ * Uses the request-leave Edge Function, which enforces the notice period
+ */
+export async function requestLeave(data: {
+  startDate: string
+  endDate: string
+  reason?: string
+}): Promise<{ leaveRequest: LeaveRequest | null; error: null } | { leaveRequest: null; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { leaveRequest: null, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('request-leave', {
+      body: data,
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      return { leaveRequest: null, error: new Error(functionError.message || 'Failed to submit leave request') }
+    }
+
+    if (result?.error) {
+      return { leaveRequest: null, error: new Error(result.error) }
+    }
+
+    return { leaveRequest: result?.leaveRequest ?? null, error: null }
+  } catch (error) {
+    logger.error('Error requesting leave', error as Error)
+    return {
+      leaveRequest: null,
+      error: error instanceof Error ? error : new Error('Failed to submit leave request'),
+    }
+  }
+}
+
+/**
+ * Approve or reject a pending leave request (admin only)
+ * Approval extends the student's plan by the rebate days
+ */
+export async function reviewLeaveRequest(
+  id: number,
+  decision: 'approved' | 'rejected',
+  note?: string
+): Promise<{ leaveRequest: LeaveRequest | null; error: null } | { leaveRequest: null; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { leaveRequest: null, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('review-leave', {
+      body: {
+        leaveRequestId: id,
+        decision,
+        note,
+      },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      return { leaveRequest: null, error: new Error(functionError.message || 'Failed to review leave request') }
+    }
+
+    if (result?.error) {
+      return { leaveRequest: null, error: new Error(result.error) }
+    }
+
+    return { leaveRequest: result?.leaveRequest ?? null, error: null }
+  } catch (error) {
+    logger.error('Error reviewing leave request', error as Error)
+    return {
+      leaveRequest: null,
+      error: error instanceof Error ? error : new Error('Failed to review leave request'),
+    }
+  }
+}
+
+/**
+ * Withdraw a leave request that hasn't been reviewed yet
+ */
+export async function cancelLeaveRequest(
+  id: number
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('LeaveRequest')
+      .update({
+        status: 'cancelled',
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (error) {
+      logger.error('Error cancelling leave request', error as Error, { id })
+      return { success: false, error: new Error(error.message) }
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: new Error('This leave request has already been reviewed') }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error cancelling leave request', error as Error, { id })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to cancel leave request'),
+    }
+  }
+}
+
+/**
+ * Approved leave overlapping a date range ("YYYY-MM-DD", both ends included)
+ */
+export async function getApprovedLeave(
+  from: string,
+  to: string
+): Promise<Pick<LeaveRequest, 'studentId' | 'startDate' | 'endDate'>[]> {
+  const { data, error } = await supabase
+    .from('LeaveRequest')
+    .select('studentId, startDate, endDate')
+    .eq('status', 'approved')
+    .lte('startDate', to)
+    .gte('endDate', from)
+
+  if (error) throw error
+
+  return data || []
+}
+
+/**
+ * IDs of students on approved leave on a date
+ */
+export async function getStudentIdsOnLeave(date: string): Promise<Set<number>> {
+  const { data, error } = await supabase
+    .from('LeaveRequest')
+    .select('studentId')
+    .eq('status', 'approved')
+    .lte('startDate', date)
+    .gte('endDate', date)
+
+  if (error) throw error
+
+  return new Set((data || []).map((leave) => leave.studentId as number))
+}
@@ -0,0 +1,286 @@
+import { format, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { formatReportCurrency, shareReport, type ReportCell, type ReportTable } from './reports'
+
+// Every charge and credit on a student's account (see 014_student_ledger.sql).
+// Plan terms, payments and guest meals are entered by the database from the
+// rows they come from; admins add fees, discounts and corrections here, and
+// refunds and credit notes through src/lib/refunds.ts.
+export type LedgerEntryKind =
+  | 'plan'
+  | 'guest_meal'
+  | 'fee'
+  | 'payment'
+  | 'refund'
+  | 'credit_note'
+  | 'discount'
+  | 'correction'
+
+export type LedgerAdjustmentKind = 'fee' | 'discount'
+
+export const LEDGER_KIND_LABELS: Record<LedgerEntryKind, string> = {
+  plan: 'Plan',
+  guest_meal: 'Guest meal',
+  fee: 'Fee',
+  payment: 'Payment',
+  refund: 'Refund',
+  credit_note: 'Credit note',
+  discount: 'Discount',
+  correction: 'Correction',
+}
+
+export interface LedgerEntry {
+  id: number
+  studentId: number
+  entryDate: string // YYYY-MM-DD
+  kind: LedgerEntryKind
+  description: string
+  debit: number // Adds to what the student owes
+  credit: number // Takes off what the student owes
+  periodId: number | null
+  paymentId: number | null
+  guestMealId: number | null
+  createdByEmail: string | null
+  createdAt: string
+}
+
+export interface StatementRange {
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+}
+
+export interface StatementLine {
+  entry: LedgerEntry
+  balance: number // Running balance after this entry; negative is credit
+}
+
+export interface Statement extends StatementRange {
+  openingBalance: number
+  lines: StatementLine[]
+  totalDebit: number
+  totalCredit: number
+  closingBalance: number
+}
+
+export interface LedgerAdjustmentData {
+  studentId: number
+  kind: LedgerAdjustmentKind
+  amount: number
+  description: string
+  entryDate: string // YYYY-MM-DD
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+const formatStatementDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+/**
+ * Balance shown to people: amounts owed as-is, credit marked "Cr"
+ */
+export function formatLedgerBalance(balance: number): string {
+  return balance < 0 ? `${formatReportCurrency(-balance)} Cr` : formatReportCurrency(balance)
+}
+
+/**
+ * Get a student's ledger, oldest first
+ */
+export async function getLedgerEntries(
+  studentId: number
+): Promise<{ entries: LedgerEntry[]; error: null } | { entries: null; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('LedgerEntry')
+      .select('id, studentId, entryDate, kind, description, debit, credit, periodId, paymentId, guestMealId, createdByEmail, createdAt')
+      .eq('studentId', studentId)
+      .order('entryDate', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching ledger', error as Error, { studentId })
+      return { entries: null, error: new Error(error.message) }
+    }
+
+    return {
+      entries: (data || []).map((row: any) => ({
+        ...row,
+        entryDate: String(row.entryDate).slice(0, 10),
+        debit: Number(row.debit || 0),
+        credit: Number(row.credit || 0),
+      })) as LedgerEntry[],
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Unexpected error fetching ledger', error as Error, { studentId })
+    return {
+      entries: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch statement'),
+    }
+  }
+}
+
+/**
+ * Statement of account for a date range
+ * Entries before the range are carried in as the opening balance; entries
+ * are expected oldest first, as getLedgerEntries returns them.
+ */
+export function buildStatement(entries: LedgerEntry[], range: StatementRange = {}): Statement {
+  let openingBalance = 0
+  let balance = 0
+  let totalDebit = 0
+  let totalCredit = 0
+  const lines: StatementLine[] = []
+
+  entries.forEach((entry) => {
+    if (range.to && entry.entryDate > range.to) return
+
+    balance = round(balance + entry.debit - entry.credit)
+
+    if (range.from && entry.entryDate < range.from) {
+      openingBalance = balance
+      return
+    }
+
+    totalDebit = round(totalDebit + entry.debit)
+    totalCredit = round(totalCredit + entry.credit)
+    lines.push({ entry, balance })
+  })
+
+  return {
+    from: range.from,
+    to: range.to,
+    openingBalance,
+    lines,
+    totalDebit,
+    totalCredit,
+    closingBalance: balance,
+  }
+}
+
+/**
+ * Statement as a report table, for PDF export
+ */
+export function buildStatementReport(
+  student: { name: string; rollNumber: string | null },
+  statement: Statement,
+  generatedAt: Date = new Date()
+): ReportTable {
+  const rows: ReportCell[][] = []
+
+  if (statement.from) {
+    rows.push([formatStatementDate(statement.from), 'Opening balance', null, null, statement.openingBalance])
+  }
+  statement.lines.forEach(({ entry, balance }) => {
+    rows.push([
+      formatStatementDate(entry.entryDate),
+      entry.description,
+      entry.debit > 0 ? entry.debit : null,
+      entry.credit > 0 ? entry.credit : null,
+      balance,
+    ])
+  })
+
+  const filters = [student.rollNumber ? `${student.name} (${student.rollNumber})` : student.name]
+  if (statement.from && statement.to) {
+    filters.push(`${formatStatementDate(statement.from)} - ${formatStatementDate(statement.to)}`)
+  } else if (statement.from) {
+    filters.push(`From ${formatStatementDate(statement.from)}`)
+  } else if (statement.to) {
+    filters.push(`Until ${formatStatementDate(statement.to)}`)
+  } else {
+    filters.push(`As of ${format(generatedAt, 'dd MMM yyyy')}`)
+  }
+
+  const slug = (student.rollNumber || student.name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+
+  return {
+    title: 'Statement of Account',
+    filename: `statement-${slug || 'student'}-${format(generatedAt, 'yyyy-MM-dd')}`,
+    filters,
+    columns: [
+      { header: 'Date' },
+      { header: 'Description' },
+      { header: 'Charges', type: 'currency' },
+      { header: 'Credits', type: 'currency' },
+      { header: 'Balance', type: 'currency' },
+    ],
+    rows,
+    summary: [
+      ...(statement.from ? [{ label: 'Opening Balance', value: formatLedgerBalance(statement.openingBalance) }] : []),
+      { label: 'Total Charges', value: formatReportCurrency(statement.totalDebit) },
+      { label: 'Total Credits', value: formatReportCurrency(statement.totalCredit) },
+      { label: 'Closing Balance', value: formatLedgerBalance(statement.closingBalance) },
+    ],
+  }
+}
+
+/**
+ * Export a student's statement as a PDF
+ */
+export async function exportStatement(
+  student: { id: number; name: string; rollNumber: string | null },
+  range: StatementRange = {}
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const result = await getLedgerEntries(student.id)
+    if (result.error) throw result.error
+
+    const report = buildStatementReport(student, buildStatement(result.entries, range))
+
+    await shareReport(report, 'pdf')
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error exporting statement', error as Error, { studentId: student.id })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to export statement'),
+    }
+  }
+}
+
+/**
+ * Charge a fee or give a discount, under the signed-in admin
+ */
+export async function addLedgerAdjustment(
+  data: LedgerAdjustmentData
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const amount = round(data.amount)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return { success: false, error: new Error('Amount must be greater than zero') }
+    }
+    if (!data.description.trim()) {
+      return { success: false, error: new Error('Description is required') }
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { success: false, error: new Error('Not authenticated') }
+    }
+
+    const { error } = await supabase.from('LedgerEntry').insert({
+      studentId: data.studentId,
+      entryDate: data.entryDate,
+      kind: data.kind,
+      description: data.description.trim(),
+      debit: data.kind === 'fee' ? amount : 0,
+      credit: data.kind === 'discount' ? amount : 0,
+      createdBy: user.id,
+      createdByEmail: user.email ?? null,
+    })
+
+    if (error) {
+      logger.error('Error adding ledger adjustment', error as Error, { studentId: data.studentId, kind: data.kind })
+      return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error adding ledger adjustment', error as Error, { studentId: data.studentId })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to add adjustment'),
+    }
+  }
+}
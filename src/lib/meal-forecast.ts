@@ -0,0 +1,203 @@
+import { addDays, format, parseISO, subWeeks } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { getApprovedLeave } from './leave'
+import { getMealSchedule, getMealWindow, parsePlanMeals, type MealKey } from './meal-schedule'
+import { isMealMarked, type MealMarks } from './attendance'
+
+// Past weeks looked at for each weekday's attendance rate
+export const FORECAST_HISTORY_WEEKS = 4
+
+const FETCH_PAGE_SIZE = 1000
+
+export interface MealForecast {
+  meal: MealKey
+  eligible: number // Plan covers the day and includes the meal, not on leave
+  onLeave: number
+  confirmed: number
+  optedOut: number
+  undecided: number
+  attendanceRate: number | null // Share of eligible students who ate this meal on the same weekday recently
+  expected: number
+}
+
+export interface DayForecast {
+  date: string
+  meals: MealForecast[]
+}
+
+interface ForecastStudent {
+  id: number
+  joinDate: string
+  endDate: string
+  meals: MealKey[]
+}
+
+/**
+ * Expected headcount for a meal
+ * Confirmed students count in full, students who haven't answered count at
+ * the historical attendance rate (everyone when there's no history).
+ */
+export function estimateHeadcount(counts: {
+  confirmed: number
+  undecided: number
+  attendanceRate: number | null
+}): number {
+  const rate = counts.attendanceRate ?? 1
+  return counts.confirmed + Math.round(counts.undecided * rate)
+}
+
+// Same plan/date rules as getAttendanceStats
+function isStudentExpected(
+  student: ForecastStudent,
+  date: string,
+  meal: MealKey,
+  leave: { studentId: number; startDate: string; endDate: string }[]
+): 'expected' | 'leave' | null {
+  if (student.joinDate.slice(0, 10) > date || student.endDate.slice(0, 10) < date) return null
+  if (!student.meals.includes(meal)) return null
+
+  const onLeave = leave.some(
+    (entry) => entry.studentId === student.id && entry.startDate <= date && entry.endDate >= date
+  )
+  return onLeave ? 'leave' : 'expected'
+}
+
+/**
+ * Expected headcount per meal for the next few days, starting today
+ */
+export async function getMealForecast(days: number = 3): Promise<DayForecast[]> {
+  try {
+    const schedule = await getMealSchedule()
+    const today = new Date()
+    const dates = Array.from({ length: days }, (_, index) => format(addDays(today, index), 'yyyy-MM-dd'))
+
+    // The same weekday in each of the past few weeks, per forecast date
+    const historyDates = new Map(
+      dates.map((date) => [
+        date,
+        Array.from({ length: FORECAST_HISTORY_WEEKS }, (_, week) =>
+          format(subWeeks(parseISO(date), week + 1), 'yyyy-MM-dd')
+        ),
+      ])
+    )
+    const allHistoryDates = Array.from(new Set(Array.from(historyDates.values()).flat()))
+    const firstDate = allHistoryDates.reduce((first, date) => (date < first ? date : first), dates[0])
+    const lastDate = dates[dates.length - 1]
+
+    // Currently active students; past plan dates still decide who was expected each day
+    const { data: students, error: studentsError } = await supabase
+      .from('Student')
+      .select('id, joinDate, endDate, plan:Plan(meals)')
+      .eq('isActive', true)
+      .lte('joinDate', lastDate)
+      .gte('endDate', firstDate)
+
+    if (studentsError) throw studentsError
+
+    const forecastStudents: ForecastStudent[] = (students || []).map((student) => ({
+      id: student.id,
+      joinDate: String(student.joinDate),
+      endDate: String(student.endDate),
+      meals: parsePlanMeals((student.plan as any)?.meals, schedule),
+    }))
+
+    // Supabase caps each response, so page through the records
+    const attendance: { studentId: number; date: string; mealMarks: MealMarks | null }[] = []
+    for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+      const { data, error: attendanceError } = await supabase
+        .from('Attendance')
+        .select('studentId, date, mealMarks')
+        .in('date', allHistoryDates)
+        .order('id', { ascending: true })
+        .range(from, from + FETCH_PAGE_SIZE - 1)
+
+      if (attendanceError) throw attendanceError
+
+      attendance.push(...(data || []))
+      if (!data || data.length < FETCH_PAGE_SIZE) break
+    }
+
+    const rsvps: { studentId: number; date: string; meal: MealKey; attending: boolean }[] = []
+    for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+      const { data, error: rsvpError } = await supabase
+        .from('MealRSVP')
+        .select('studentId, date, meal, attending')
+        .gte('date', dates[0])
+        .lte('date', lastDate)
+        .order('id', { ascending: true })
+        .range(from, from + FETCH_PAGE_SIZE - 1)
+
+      if (rsvpError) throw rsvpError
+
+      rsvps.push(...(data || []))
+      if (!data || data.length < FETCH_PAGE_SIZE) break
+    }
+
+    const leave = await getApprovedLeave(firstDate, lastDate)
+
+    const marksByDay = new Map<string, MealMarks>()
+    attendance.forEach((record) => {
+      marksByDay.set(`${record.studentId}:${String(record.date).slice(0, 10)}`, record.mealMarks || {})
+    })
+
+    const rsvpByMeal = new Map<string, boolean>()
+    rsvps.forEach((rsvp) => {
+      rsvpByMeal.set(`${rsvp.studentId}:${rsvp.date}:${rsvp.meal}`, rsvp.attending)
+    })
+
+    return dates.map((date) => {
+      const meals = schedule.mealTypes
+        .filter((type) => getMealWindow(schedule, type.key, parseISO(date)).enabled)
+        .map(({ key: meal }): MealForecast => {
+          let eligible = 0
+          let onLeave = 0
+          let confirmed = 0
+          let optedOut = 0
+
+          forecastStudents.forEach((student) => {
+            const status = isStudentExpected(student, date, meal, leave)
+            if (status === 'leave') onLeave++
+            if (status !== 'expected') return
+
+            eligible++
+            const rsvp = rsvpByMeal.get(`${student.id}:${date}:${meal}`)
+            if (rsvp === true) confirmed++
+            if (rsvp === false) optedOut++
+          })
+
+          let pastExpected = 0
+          let pastPresent = 0
+          historyDates.get(date)?.forEach((pastDate) => {
+            // Skip past days the meal wasn't served
+            if (!getMealWindow(schedule, meal, parseISO(pastDate)).enabled) return
+
+            forecastStudents.forEach((student) => {
+              if (isStudentExpected(student, pastDate, meal, leave) !== 'expected') return
+              pastExpected++
+              if (isMealMarked(marksByDay.get(`${student.id}:${pastDate}`), meal)) pastPresent++
+            })
+          })
+
+          const attendanceRate = pastExpected > 0 ? pastPresent / pastExpected : null
+          const undecided = eligible - confirmed - optedOut
+
+          return {
+            meal,
+            eligible,
+            onLeave,
+            confirmed,
+            optedOut,
+            undecided,
+            attendanceRate,
+            expected: estimateHeadcount({ confirmed, undecided, attendanceRate }),
+          }
+        })
+
+      return { date, meals }
+    })
+  } catch (error) {
+    logger.error('Error fetching meal forecast', error as Error)
+    throw error instanceof Error ? error : new Error('Failed to fetch meal forecast')
+  }
+}
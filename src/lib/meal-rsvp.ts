@@ -0,0 +1,85 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import type { MealKey } from './meal-schedule'
+
+// A student's answer for one upcoming meal. No RSVP means they haven't said.
+export interface MealRSVP {
+  id: number
+  studentId: number
+  date: string
+  meal: MealKey
+  attending: boolean
+  updatedAt: string
+}
+
+/**
+ * Get a student's RSVPs between two dates ("YYYY-MM-DD", both ends included)
+ */
+export async function getStudentRSVPs(
+  studentId: number,
+  from: string,
+  to: string
+): Promise<{ rsvps: MealRSVP[]; error: null } | { rsvps: null; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('MealRSVP')
+      .select('id, studentId, date, meal, attending, updatedAt')
+      .eq('studentId', studentId)
+      .gte('date', from)
+      .lte('date', to)
+
+    if (error) {
+      logger.error('Error fetching RSVPs', error as Error, { studentId })
+      return { rsvps: null, error: new Error(error.message) }
+    }
+
+    return { rsvps: (data || []) as MealRSVP[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching RSVPs', error as Error, { studentId })
+    return {
+      rsvps: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch RSVPs'),
+    }
+  }
+}
+
+/**
+ * Confirm (true), opt out of (false) or clear (null) the signed-in
+ * student's RSVP for a meal
+ * Uses the meal-rsvp Edge Function, which enforces the cut-off
+ */
+export async function setMealRSVP(
+  date: string,
+  meal: MealKey,
+  attending: boolean | null
+): Promise<{ rsvp: MealRSVP | null; error: null } | { rsvp: null; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { rsvp: null, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('meal-rsvp', {
+      body: { date, meal, attending },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      return { rsvp: null, error: new Error(functionError.message || 'Failed to update RSVP') }
+    }
+
+    if (result?.error) {
+      return { rsvp: null, error: new Error(result.error) }
+    }
+
+    return { rsvp: result?.rsvp ?? null, error: null }
+  } catch (error) {
+    logger.error('Error updating RSVP', error as Error)
+    return {
+      rsvp: null,
+      error: error instanceof Error ? error : new Error('Failed to update RSVP'),
+    }
+  }
+}
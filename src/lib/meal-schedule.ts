@@ -0,0 +1,425 @@
+import { getAppSetting, setAppSetting } from './settings'
+import { logger } from './logger'
+
+// Meal types are configured by the admin; the key is what plans and
+// attendance records store, so it never changes once created
+export type MealKey = string
+
+export interface MealType {
+  key: MealKey // e.g. "breakfast", "snacks"
+  name: string
+  icon: string // MaterialCommunityIcons name
+}
+
+export const DEFAULT_MEAL_TYPES: MealType[] = [
+  { key: 'breakfast', name: 'Breakfast', icon: 'weather-sunset-up' },
+  { key: 'lunch', name: 'Lunch', icon: 'weather-sunny' },
+  { key: 'dinner', name: 'Dinner', icon: 'weather-night' },
+]
+
+export const MEAL_ICON_OPTIONS = [
+  'weather-sunset-up',
+  'weather-sunny',
+  'weather-sunset',
+  'weather-night',
+  'coffee',
+  'tea',
+  'cookie',
+  'food-apple',
+  'food',
+  'silverware-fork-knife',
+]
+
+// Colours are assigned by position so new meal types don't need one picked
+const MEAL_COLORS = [
+  { color: '#F59E0B', background: '#FEF3C7', dark: '#D97706' },
+  { color: '#10B981', background: '#D1FAE5', dark: '#059669' },
+  { color: '#6366F1', background: '#E0E7FF', dark: '#4F46E5' },
+  { color: '#EC4899', background: '#FCE7F3', dark: '#DB2777' },
+  { color: '#06B6D4', background: '#CFFAFE', dark: '#0891B2' },
+  { color: '#8B5CF6', background: '#EDE9FE', dark: '#7C3AED' },
+]
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export interface MealWindow {
+  enabled: boolean // false when the meal isn't served that day
+  start: string // 24h "HH:mm"
+  end: string // 24h "HH:mm"
+}
+
+export type DaySchedule = Record<MealKey, MealWindow>
+
+export interface MealSchedule {
+  graceBeforeMinutes: number // Attendance opens this long before start
+  graceAfterMinutes: number // ...and stays open this long after end
+  rsvpCutoffMinutes: number // Students can RSVP until this long before a meal starts
+  mealTypes: MealType[] // In display order
+  days: DaySchedule[] // 7 entries, indexed like Date.getDay() (0 = Sunday)
+}
+
+export const MEAL_SCHEDULE_SETTING_KEY = 'meal_schedule'
+
+const DEFAULT_WINDOWS: Record<MealKey, MealWindow> = {
+  breakfast: { enabled: true, start: '07:30', end: '10:30' },
+  lunch: { enabled: true, start: '12:30', end: '15:30' },
+  dinner: { enabled: true, start: '19:30', end: '22:30' },
+}
+
+// New meal types start switched off until the admin sets their times
+export const NEW_MEAL_WINDOW: MealWindow = { enabled: false, start: '16:30', end: '17:30' }
+
+function defaultWindow(meal: MealKey): MealWindow {
+  return { ...(DEFAULT_WINDOWS[meal] ?? NEW_MEAL_WINDOW) }
+}
+
+function defaultDay(mealTypes: MealType[]): DaySchedule {
+  return Object.fromEntries(mealTypes.map((type) => [type.key, defaultWindow(type.key)]))
+}
+
+export const DEFAULT_MEAL_SCHEDULE: MealSchedule = {
+  graceBeforeMinutes: 30,
+  graceAfterMinutes: 30,
+  rsvpCutoffMinutes: 120,
+  mealTypes: DEFAULT_MEAL_TYPES,
+  days: Array.from({ length: 7 }, () => defaultDay(DEFAULT_MEAL_TYPES)),
+}
+
+// Last schedule loaded from the server, used by synchronous callers
+let cachedSchedule: MealSchedule = DEFAULT_MEAL_SCHEDULE
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+const MEAL_KEY_PATTERN = /^[a-z][a-z0-9_]*$/
+
+// Plans list "all" to mean every meal type
+const ALL_MEALS_TOKEN = 'all'
+
+/**
+ * Convert "HH:mm" to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Format "HH:mm" for display, e.g. "19:30" -> "7:30 PM"
+ */
+export function formatMealTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  const period = hours >= 12 ? 'PM' : 'AM'
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12
+  return `${displayHours}:${String(minutes).padStart(2, '0')} ${period}`
+}
+
+/**
+ * Format a meal window for display, e.g. "7:30 AM - 10:30 AM"
+ */
+export function formatMealWindow(window: MealWindow): string {
+  if (!window.enabled) return 'Not served'
+  return `${formatMealTime(window.start)} - ${formatMealTime(window.end)}`
+}
+
+/**
+ * Get the schedule that applies on a given date
+ */
+export function getDaySchedule(schedule: MealSchedule, date: Date = new Date()): DaySchedule {
+  return schedule.days[date.getDay()] ?? defaultDay(schedule.mealTypes)
+}
+
+/**
+ * Get a meal's window on a given date, disabled when it has none
+ */
+export function getMealWindow(schedule: MealSchedule, meal: MealKey, date: Date = new Date()): MealWindow {
+  return getDaySchedule(schedule, date)[meal] ?? { ...NEW_MEAL_WINDOW }
+}
+
+/**
+ * Display name of a meal type, e.g. "snacks" -> "Evening Snacks"
+ */
+export function getMealName(meal: MealKey, schedule: MealSchedule = cachedSchedule): string {
+  const type = schedule.mealTypes.find((mealType) => mealType.key === meal)
+  return type?.name ?? meal.charAt(0).toUpperCase() + meal.slice(1)
+}
+
+/**
+ * Icon of a meal type
+ */
+export function getMealIcon(meal: MealKey, schedule: MealSchedule = cachedSchedule): string {
+  return schedule.mealTypes.find((mealType) => mealType.key === meal)?.icon ?? 'silverware-fork-knife'
+}
+
+/**
+ * Colours of a meal type, assigned by its position in the list
+ */
+export function getMealColors(
+  meal: MealKey,
+  schedule: MealSchedule = cachedSchedule
+): { color: string; background: string; dark: string } {
+  const index = schedule.mealTypes.findIndex((mealType) => mealType.key === meal)
+  return MEAL_COLORS[Math.max(index, 0) % MEAL_COLORS.length]
+}
+
+/**
+ * Build a key for a new meal type from its name, e.g. "Evening Tea" -> "evening_tea"
+ */
+export function toMealKey(name: string): MealKey {
+  const key = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+  return /^[a-z]/.test(key) ? key : `meal_${key}`
+}
+
+/**
+ * Meal types included in a plan's `meals` string
+ * Plans store comma-separated meal type keys; older plans used names
+ * ("Breakfast, Lunch") or "All", which are matched too.
+ */
+export function parsePlanMeals(
+  meals: string | null | undefined,
+  schedule: MealSchedule = cachedSchedule
+): MealKey[] {
+  const tokens = (meals || '')
+    .split(',')
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean)
+
+  if (tokens.includes(ALL_MEALS_TOKEN)) {
+    return schedule.mealTypes.map((type) => type.key)
+  }
+
+  return schedule.mealTypes
+    .filter((type) => tokens.includes(type.key) || tokens.includes(type.name.toLowerCase()))
+    .map((type) => type.key)
+}
+
+/**
+ * Check whether a plan's `meals` string includes a meal type
+ */
+export function planIncludesMeal(
+  meals: string | string[] | null | undefined,
+  meal: MealKey,
+  schedule: MealSchedule = cachedSchedule
+): boolean {
+  const value = Array.isArray(meals) ? meals.join(',') : meals
+  return parsePlanMeals(value, schedule).includes(meal)
+}
+
+/**
+ * Serialize selected meal types for storage on a plan
+ */
+export function serializePlanMeals(meals: MealKey[]): string {
+  return meals.join(',')
+}
+
+/**
+ * Plan meals for display, e.g. "breakfast,snacks" -> "Breakfast, Evening Snacks"
+ */
+export function formatPlanMeals(
+  meals: string | null | undefined,
+  schedule: MealSchedule = cachedSchedule
+): string {
+  const keys = parsePlanMeals(meals, schedule)
+  return keys.length > 0 ? keys.map((meal) => getMealName(meal, schedule)).join(', ') : meals || ''
+}
+
+/**
+ * Get the meal whose window (including grace periods) contains `now`
+ */
+export function getCurrentMeal(
+  schedule: MealSchedule,
+  now: Date = new Date()
+): MealKey | null {
+  const day = getDaySchedule(schedule, now)
+  const totalMinutes = now.getHours() * 60 + now.getMinutes()
+
+  for (const { key: meal } of schedule.mealTypes) {
+    const window = day[meal]
+    if (!window?.enabled) continue
+
+    const opensAt = timeToMinutes(window.start) - schedule.graceBeforeMinutes
+    const closesAt = timeToMinutes(window.end) + schedule.graceAfterMinutes
+    if (totalMinutes >= opensAt && totalMinutes <= closesAt) {
+      return meal
+    }
+  }
+
+  return null
+}
+
+/**
+ * When RSVPs close for a meal on a date ("YYYY-MM-DD"), in device time
+ * Returns null when the meal isn't served that day
+ */
+export function getRSVPCutoff(schedule: MealSchedule, date: string, meal: MealKey): Date | null {
+  const [year, month, day] = date.split('-').map(Number)
+  const mealDate = new Date(year, month - 1, day)
+  const window = getMealWindow(schedule, meal, mealDate)
+  if (!window.enabled) return null
+
+  mealDate.setMinutes(timeToMinutes(window.start) - schedule.rsvpCutoffMinutes)
+  return mealDate
+}
+
+/**
+ * Fill in anything missing or malformed in a stored schedule with defaults
+ * Schedules saved before meal types were configurable get the default three.
+ */
+export function normalizeMealSchedule(raw: unknown): MealSchedule {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<MealSchedule>
+
+  const grace = (minutes: unknown, fallback: number) =>
+    typeof minutes === 'number' && Number.isFinite(minutes) && minutes >= 0 ? Math.round(minutes) : fallback
+
+  const storedTypes = Array.isArray(value.mealTypes)
+    ? value.mealTypes.filter(
+        (type): type is MealType =>
+          !!type && typeof type.key === 'string' && MEAL_KEY_PATTERN.test(type.key) && typeof type.name === 'string'
+      )
+    : []
+  const mealTypes = (storedTypes.length > 0 ? storedTypes : DEFAULT_MEAL_TYPES).map((type) => ({
+    key: type.key,
+    name: type.name.trim() || type.key,
+    icon: typeof type.icon === 'string' && type.icon ? type.icon : 'silverware-fork-knife',
+  }))
+
+  const days = Array.from({ length: 7 }, (_, index) => {
+    const storedDay = (Array.isArray(value.days) ? value.days[index] : undefined) as Partial<DaySchedule> | undefined
+    const day = defaultDay(mealTypes)
+
+    mealTypes.forEach(({ key: meal }) => {
+      const stored = storedDay?.[meal]
+      if (!stored) return
+      day[meal] = {
+        enabled: stored.enabled !== false,
+        start: TIME_PATTERN.test(stored.start) ? stored.start : day[meal].start,
+        end: TIME_PATTERN.test(stored.end) ? stored.end : day[meal].end,
+      }
+    })
+
+    return day
+  })
+
+  return {
+    graceBeforeMinutes: grace(value.graceBeforeMinutes, DEFAULT_MEAL_SCHEDULE.graceBeforeMinutes),
+    graceAfterMinutes: grace(value.graceAfterMinutes, DEFAULT_MEAL_SCHEDULE.graceAfterMinutes),
+    rsvpCutoffMinutes: grace(value.rsvpCutoffMinutes, DEFAULT_MEAL_SCHEDULE.rsvpCutoffMinutes),
+    mealTypes,
+    days,
+  }
+}
+
+/**
+ * Validate a schedule before saving
+ * Returns an error message, or null when the schedule is valid
+ */
+export function validateMealSchedule(schedule: MealSchedule): string | null {
+  if (schedule.graceBeforeMinutes < 0 || schedule.graceAfterMinutes < 0) {
+    return 'Grace periods cannot be negative'
+  }
+
+  if (schedule.rsvpCutoffMinutes < 0) {
+    return 'RSVP cut-off cannot be negative'
+  }
+
+  if (schedule.mealTypes.length === 0) {
+    return 'Add at least one meal'
+  }
+
+  const keys = new Set<string>()
+  const names = new Set<string>()
+  for (const type of schedule.mealTypes) {
+    if (!type.name.trim()) {
+      return 'Every meal needs a name'
+    }
+    if (!MEAL_KEY_PATTERN.test(type.key) || type.key === ALL_MEALS_TOKEN) {
+      return `${type.name}: choose a different name`
+    }
+    if (keys.has(type.key) || names.has(type.name.trim().toLowerCase())) {
+      return `There is more than one meal called ${type.name}`
+    }
+    keys.add(type.key)
+    names.add(type.name.trim().toLowerCase())
+  }
+
+  for (let dayIndex = 0; dayIndex < 7; dayIndex++) {
+    const day = schedule.days[dayIndex] ?? {}
+    const dayName = WEEKDAY_NAMES[dayIndex]
+    const windows: Array<{ name: string; start: number; end: number }> = []
+
+    for (const type of schedule.mealTypes) {
+      const window = day[type.key]
+      if (!window?.enabled) continue
+
+      if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+        return `${dayName} ${type.name}: use 24-hour HH:mm times (e.g. 07:30)`
+      }
+
+      const start = timeToMinutes(window.start)
+      const end = timeToMinutes(window.end)
+      if (end <= start) {
+        return `${dayName} ${type.name}: end time must be after start time`
+      }
+
+      windows.push({ name: type.name, start, end })
+    }
+
+    // Windows (with grace) must not overlap, otherwise a scan is ambiguous
+    windows.sort((a, b) => a.start - b.start)
+    for (let i = 1; i < windows.length; i++) {
+      const previous = windows[i - 1]
+      const current = windows[i]
+      if (current.start - schedule.graceBeforeMinutes <= previous.end + schedule.graceAfterMinutes) {
+        return `${dayName}: ${previous.name} and ${current.name} overlap once grace periods are included`
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Get the most recently loaded schedule without a network call
+ * Falls back to the default schedule until getMealSchedule() has run
+ */
+export function getCachedMealSchedule(): MealSchedule {
+  return cachedSchedule
+}
+
+/**
+ * Load the meal schedule
+ * Never throws - falls back to the last known (or default) schedule
+ */
+export async function getMealSchedule(): Promise<MealSchedule> {
+  const result = await getAppSetting<MealSchedule>(MEAL_SCHEDULE_SETTING_KEY)
+
+  if (result.error) {
+    logger.warn('Using cached meal schedule', { reason: result.error.message })
+    return cachedSchedule
+  }
+
+  cachedSchedule = normalizeMealSchedule(result.value)
+  return cachedSchedule
+}
+
+/**
+ * Save the meal schedule
+ */
+export async function updateMealSchedule(
+  schedule: MealSchedule
+): Promise<{ schedule: MealSchedule; error: null } | { schedule: null; error: Error }> {
+  const validationError = validateMealSchedule(schedule)
+  if (validationError) {
+    return { schedule: null, error: new Error(validationError) }
+  }
+
+  const result = await setAppSetting(MEAL_SCHEDULE_SETTING_KEY, schedule)
+  if (result.error) {
+    return { schedule: null, error: result.error }
+  }
+
+  cachedSchedule = normalizeMealSchedule(schedule)
+  return { schedule: cachedSchedule, error: null }
+}
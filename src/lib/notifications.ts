@@ -3,6 +3,7 @@ import { Platform } from 'react-native'
 import { getAttendanceInWindow, getTodayStats } from './attendance-tracking'
 import { format } from 'date-fns'
 import { logger } from './logger'
+import { getCurrentMeal, getMealSchedule, getMealName, type MealKey, type MealSchedule } from './meal-schedule'
 
 // Configure notification handler
 Notifications.setNotificationHandler({
@@ -18,11 +19,6 @@ export type NotificationFrequency = 5 | 10 | 15 | 30 | 60 // minutes
 export interface NotificationConfig {
   enabled: boolean
   frequency: NotificationFrequency
-  activeHours: {
-    breakfast: { start: number; end: number } // 7-10
-    lunch: { start: number; end: number } // 12-15
-    dinner: { start: number; end: number } // 19-22
-  }
   showStudentNames: boolean
   showWhenNoActivity: boolean
 }
@@ -30,11 +26,6 @@ export interface NotificationConfig {
 export const DEFAULT_CONFIG: NotificationConfig = {
   enabled: true,
   frequency: 10,
-  activeHours: {
-    breakfast: { start: 7, end: 10 },
-    lunch: { start: 12, end: 15 },
-    dinner: { start: 19, end: 22 },
-  },
   showStudentNames: true,
   showWhenNoActivity: false,
 }
@@ -75,19 +66,14 @@ export async function requestNotificationPermissions(): Promise<boolean> {
 }
 
 /**
- * Check if notification should be sent based on active hours
+ * Check if notification should be sent - only during a meal window
+ * from the meal schedule (grace periods included)
  */
 export function shouldSendNotification(
-  currentHour: number,
-  config: NotificationConfig
+  now: Date,
+  schedule: MealSchedule
 ): boolean {
-  const { activeHours } = config
-
-  return (
-    (currentHour >= activeHours.breakfast.start && currentHour < activeHours.breakfast.end) ||
-    (currentHour >= activeHours.lunch.start && currentHour < activeHours.lunch.end) ||
-    (currentHour >= activeHours.dinner.start && currentHour < activeHours.dinner.end)
-  )
+  return getCurrentMeal(schedule, now) !== null
 }
 
 /**
@@ -95,22 +81,16 @@ export function shouldSendNotification(
  */
 function formatNotificationMessage(
   timeWindow: { start: string; end: string },
-  meals: Array<{ meal: 'breakfast' | 'lunch' | 'dinner'; count: number; students: Array<{ name: string; rollNumber: string | null }> }>,
+  meals: Array<{ meal: MealKey; count: number; students: Array<{ name: string; rollNumber: string | null }> }>,
   todayStats: { total: number; present: number; percentage: number },
   config: NotificationConfig
 ): { title: string; body: string } {
-  const mealEmojis = {
+  const mealEmojis: Record<MealKey, string> = {
     breakfast: '🌅',
     lunch: '🍽️',
     dinner: '🌙',
   }
 
-  const mealNames = {
-    breakfast: 'Breakfast',
-    lunch: 'Lunch',
-    dinner: 'Dinner',
-  }
-
   if (meals.length === 0) {
     if (config.showWhenNoActivity) {
       return {
@@ -125,8 +105,8 @@ function formatNotificationMessage(
   let body = ''
   
   meals.forEach((mealData) => {
-    const emoji = mealEmojis[mealData.meal]
-    const name = mealNames[mealData.meal]
+    const emoji = mealEmojis[mealData.meal] ?? '🍴'
+    const name = getMealName(mealData.meal)
     
     body += `${emoji} ${name}: ${mealData.count} student${mealData.count !== 1 ? 's' : ''} marked\n`
     
@@ -177,10 +157,9 @@ export async function sendAttendanceNotification(
     }
 
     const now = new Date()
-    const currentHour = now.getHours()
 
-    // Check if within active hours
-    if (!shouldSendNotification(currentHour, config)) {
+    // Check if within a meal window
+    if (!shouldSendNotification(now, await getMealSchedule())) {
       return
     }
 
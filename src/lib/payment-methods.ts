@@ -0,0 +1,246 @@
+import { getAppSetting, setAppSetting } from './settings'
+import { logger } from './logger'
+
+// Payment methods are configured by the admin; the key is what payments and
+// refunds store in "method", so it never changes once created. The defaults
+// use the values payments were recorded with before methods were configurable.
+export interface PaymentMethod {
+  key: string // e.g. "Cash", "Cheque"
+  name: string
+  icon: string // MaterialCommunityIcons name
+  requiresReference: boolean // A UTR / cheque number must be entered
+  cashInHand: boolean // Counted as cash collected at the mess rather than in the bank
+}
+
+export const DEFAULT_PAYMENT_METHODS: PaymentMethod[] = [
+  { key: 'Cash', name: 'Cash', icon: 'cash', requiresReference: false, cashInHand: true },
+  { key: 'UPI', name: 'UPI', icon: 'cellphone', requiresReference: false, cashInHand: false },
+  { key: 'Online', name: 'Online', icon: 'credit-card', requiresReference: false, cashInHand: false },
+]
+
+export const PAYMENT_METHOD_ICON_OPTIONS = [
+  'cash',
+  'cellphone',
+  'credit-card',
+  'bank',
+  'bank-transfer',
+  'checkbook',
+  'wallet',
+  'qrcode',
+  'gift',
+  'currency-inr',
+]
+
+export const PAYMENT_METHODS_SETTING_KEY = 'payment_methods'
+
+export const MAX_PAYMENT_METHODS = 10
+
+const MAX_METHOD_NAME_LENGTH = 30
+
+// Colours are assigned by position so new methods don't need one picked;
+// the first three match the colours Cash, UPI and Online always had
+const PAYMENT_METHOD_COLORS = [
+  { color: '#10B981', background: '#D1FAE5', iconBackground: '#A7F3D0' },
+  { color: '#6366F1', background: '#E0E7FF', iconBackground: '#C7D2FE' },
+  { color: '#8B5CF6', background: '#EDE9FE', iconBackground: '#DDD6FE' },
+  { color: '#F59E0B', background: '#FEF3C7', iconBackground: '#FDE68A' },
+  { color: '#06B6D4', background: '#CFFAFE', iconBackground: '#A5F3FC' },
+  { color: '#EC4899', background: '#FCE7F3', iconBackground: '#FBCFE8' },
+]
+
+// Payments made with a method that has since been removed
+const UNKNOWN_METHOD_COLORS = { color: '#6B7280', background: '#F3F4F6', iconBackground: '#E5E7EB' }
+
+// Last methods loaded from the server, used by synchronous callers
+let cachedMethods: PaymentMethod[] = DEFAULT_PAYMENT_METHODS
+
+/**
+ * Build a key for a new method from its name, e.g. " Bank  Transfer " -> "Bank Transfer"
+ */
+export function toPaymentMethodKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_METHOD_NAME_LENGTH)
+}
+
+/**
+ * Fill in anything missing or malformed in the stored methods with defaults
+ */
+export function normalizePaymentMethods(raw: unknown): PaymentMethod[] {
+  const stored = Array.isArray(raw)
+    ? raw.filter(
+        (method): method is PaymentMethod =>
+          !!method && typeof method.key === 'string' && !!method.key.trim() && typeof method.name === 'string'
+      )
+    : []
+
+  return (stored.length > 0 ? stored : DEFAULT_PAYMENT_METHODS).map((method) => ({
+    key: method.key.trim(),
+    name: method.name.trim() || method.key.trim(),
+    icon: typeof method.icon === 'string' && method.icon ? method.icon : 'currency-inr',
+    requiresReference: method.requiresReference === true,
+    cashInHand: method.cashInHand === true,
+  }))
+}
+
+/**
+ * Validate the methods before saving
+ * Returns an error message, or null when they are valid
+ */
+export function validatePaymentMethods(methods: PaymentMethod[]): string | null {
+  if (methods.length === 0) {
+    return 'Add at least one payment method'
+  }
+
+  if (methods.length > MAX_PAYMENT_METHODS) {
+    return `At most ${MAX_PAYMENT_METHODS} payment methods can be added`
+  }
+
+  const keys = new Set<string>()
+  const names = new Set<string>()
+  for (const method of methods) {
+    const name = method.name.trim()
+    if (!name) {
+      return 'Every payment method needs a name'
+    }
+    if (name.length > MAX_METHOD_NAME_LENGTH) {
+      return `${name}: use at most ${MAX_METHOD_NAME_LENGTH} characters`
+    }
+    if (keys.has(method.key.toLowerCase()) || names.has(name.toLowerCase())) {
+      return `There is more than one payment method called ${name}`
+    }
+    keys.add(method.key.toLowerCase())
+    names.add(name.toLowerCase())
+  }
+
+  return null
+}
+
+/**
+ * Find a method by the key stored on a payment
+ */
+export function findPaymentMethod(
+  key: string | null | undefined,
+  methods: PaymentMethod[] = cachedMethods
+): PaymentMethod | undefined {
+  return key ? methods.find((method) => method.key === key) : undefined
+}
+
+/**
+ * Display name of a payment's method, e.g. "Bank Transfer"
+ */
+export function getPaymentMethodName(
+  key: string | null | undefined,
+  methods: PaymentMethod[] = cachedMethods
+): string {
+  return findPaymentMethod(key, methods)?.name ?? key ?? 'N/A'
+}
+
+/**
+ * Icon and colours of a payment's method, assigned by its position in the list
+ */
+export function getPaymentMethodStyle(
+  key: string | null | undefined,
+  methods: PaymentMethod[] = cachedMethods
+): { icon: string; color: string; background: string; iconBackground: string } {
+  const index = key ? methods.findIndex((method) => method.key === key) : -1
+  if (index < 0) {
+    return { icon: 'currency-inr', ...UNKNOWN_METHOD_COLORS }
+  }
+  return { icon: methods[index].icon, ...PAYMENT_METHOD_COLORS[index % PAYMENT_METHOD_COLORS.length] }
+}
+
+/**
+ * Methods whose payments reach the bank account, i.e. all but cash in hand
+ * Same rule as bank_payment_methods() in 020_payment_methods.sql.
+ */
+export function getBankPaymentMethods(methods: PaymentMethod[] = cachedMethods): PaymentMethod[] {
+  return methods.filter((method) => !method.cashInHand)
+}
+
+/**
+ * Key a confirmed UPI payment request is recorded with: UPI while it's set
+ * up, otherwise the first method that reaches the bank. Null when there is none.
+ */
+export function getUpiPaymentMethodKey(methods: PaymentMethod[] = cachedMethods): string | null {
+  const bankMethods = getBankPaymentMethods(methods)
+  return (bankMethods.find((method) => method.key === 'UPI') ?? bankMethods[0])?.key ?? null
+}
+
+/**
+ * Reason a payment's reference can't be saved, or null when it can
+ * Same rule as the create-payment Edge Function.
+ */
+export function validatePaymentReference(
+  key: string,
+  reference: string | null | undefined,
+  methods: PaymentMethod[] = cachedMethods
+): string | null {
+  const method = findPaymentMethod(key, methods)
+  if (method?.requiresReference && !reference?.trim()) {
+    return `Enter the reference number for ${method.name} payments`
+  }
+  return null
+}
+
+/**
+ * Reason money taken with this method and reference can't be recorded, or
+ * null when it can. Same rule as checkPaymentMethod() in the Edge Functions.
+ */
+export function validatePaymentMethodChoice(
+  key: string | null | undefined,
+  reference: string | null | undefined,
+  methods: PaymentMethod[] = cachedMethods
+): string | null {
+  if (!key) {
+    return 'Select how the payment was made'
+  }
+  if (!findPaymentMethod(key, methods)) {
+    return `Unknown payment method: ${key}`
+  }
+  return validatePaymentReference(key, reference, methods)
+}
+
+/**
+ * Get the most recently loaded methods without a network call
+ * Falls back to the defaults until getPaymentMethods() has run
+ */
+export function getCachedPaymentMethods(): PaymentMethod[] {
+  return cachedMethods
+}
+
+/**
+ * Load the payment methods
+ * Never throws - falls back to the last known (or default) methods
+ */
+export async function getPaymentMethods(): Promise<PaymentMethod[]> {
+  const result = await getAppSetting<PaymentMethod[]>(PAYMENT_METHODS_SETTING_KEY)
+
+  if (result.error) {
+    logger.warn('Using cached payment methods', { reason: result.error.message })
+    return cachedMethods
+  }
+
+  cachedMethods = normalizePaymentMethods(result.value)
+  return cachedMethods
+}
+
+/**
+ * Save the payment methods
+ * Removing a method keeps its past payments; they show under its key.
+ */
+export async function updatePaymentMethods(
+  methods: PaymentMethod[]
+): Promise<{ methods: PaymentMethod[]; error: null } | { methods: null; error: Error }> {
+  const validationError = validatePaymentMethods(methods)
+  if (validationError) {
+    return { methods: null, error: new Error(validationError) }
+  }
+
+  const normalized = normalizePaymentMethods(methods)
+  const result = await setAppSetting(PAYMENT_METHODS_SETTING_KEY, normalized)
+  if (result.error) {
+    return { methods: null, error: result.error }
+  }
+
+  cachedMethods = normalized
+  return { methods: normalized, error: null }
+}
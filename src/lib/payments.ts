@@ -1,17 +1,25 @@
 import { supabase } from './supabase'
 import { logger } from './logger'
+import { getCachedPaymentMethods, getPaymentMethods, type PaymentMethod } from './payment-methods'
 
 // Get Supabase URL from environment
 const getSupabaseUrl = () => {
   return process.env.EXPO_PUBLIC_SUPABASE_URL || ''
 }
 
+// 'missing': paid by a method that reaches the bank, but not in the imported bank statement
+export type PaymentStatementStatus = 'matched' | 'missing'
+
 export interface Payment {
   id: number
   studentId: number
   amount: number
   paymentDate: string
   method: string | null
+  reference: string | null // UTR, cheque number or transaction id
+  notes: string | null
+  receiptNumber: string | null // Issued by the database when the payment is recorded
+  statementStatus: PaymentStatementStatus | null // Set by bank statement imports covering the payment date
   createdAt: string
   updatedAt: string
   student: {
@@ -24,28 +32,35 @@ export interface Payment {
   }
 }
 
+// Amounts are collected less refunds paid out over the same days
 export interface PaymentStats {
   total: number
   today: number
   thisMonth: number
-  byMethod: {
-    cash: number
-    upi: number
-    online: number
-  }
+  refunded: number // Refunds paid out, already taken off the amounts above
+  byMethod: Record<string, number> // Keyed by payment method key
+  cashInHand: number // Methods marked as cash in hand
 }
 
+type StatsRow = { amount: number | string | null; method: string | null; date: string }
+
 export interface CreatePaymentData {
   studentId: number
   amount: number
   paymentDate: string
   method: string
+  reference?: string | null
+  notes?: string | null
+  upiRequestId?: number // Confirms this UPI payment request
+  overrideAmount?: boolean // Record an amount other than the one the student submitted
 }
 
 export interface UpdatePaymentData {
   amount?: number
   paymentDate?: string
   method?: string
+  reference?: string | null
+  notes?: string | null
 }
 
 export interface GetPaymentsParams {
@@ -56,6 +71,41 @@ export interface GetPaymentsParams {
   startDate?: string
   endDate?: string
   method?: string
+  statementStatus?: PaymentStatementStatus
+}
+
+export type PaymentDateFilter = 'all' | 'today' | 'week' | 'month'
+
+/**
+ * Date range ("YYYY-MM-DD") for a quick payment date filter
+ * Empty for 'all' so no date bounds are applied
+ */
+export function getPaymentDateRange(filter: PaymentDateFilter): { startDate?: string; endDate?: string } {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+
+  switch (filter) {
+    case 'today':
+      return {
+        startDate: today.toISOString().split('T')[0],
+        endDate: today.toISOString().split('T')[0],
+      }
+    case 'week':
+      const weekStart = new Date(today)
+      weekStart.setDate(today.getDate() - today.getDay())
+      return {
+        startDate: weekStart.toISOString().split('T')[0],
+        endDate: today.toISOString().split('T')[0],
+      }
+    case 'month':
+      const monthStart = new Date(today.getFullYear(), today.getMonth(), 1)
+      return {
+        startDate: monthStart.toISOString().split('T')[0],
+        endDate: today.toISOString().split('T')[0],
+      }
+    default:
+      return {}
+  }
 }
 
 /**
@@ -73,6 +123,7 @@ export async function getPayments(
       startDate,
       endDate,
       method,
+      statementStatus,
     } = params
 
     let query = supabase
@@ -108,6 +159,10 @@ export async function getPayments(
       query = query.eq('method', method)
     }
 
+    if (statementStatus) {
+      query = query.eq('statementStatus', statementStatus)
+    }
+
     // Apply search (search in student name or roll number)
     if (search) {
       // We'll need to filter by student name/rollNumber
@@ -209,6 +264,42 @@ export async function getPaymentById(
   }
 }
 
+/**
+ * Totals for the payment stats cards
+ * Refunds count against the day and method they were paid out on.
+ * Every configured method gets an entry, even with nothing collected.
+ */
+export function summarizePaymentStats(
+  payments: StatsRow[],
+  refunds: StatsRow[],
+  todayDate: string, // YYYY-MM-DD
+  startOfMonth: string, // YYYY-MM-DD
+  methods: PaymentMethod[] = getCachedPaymentMethods()
+): PaymentStats {
+  const rows = [
+    ...payments.map((p) => ({ ...p, amount: Number(p.amount || 0) })),
+    ...refunds.map((r) => ({ ...r, amount: -Number(r.amount || 0) })),
+  ]
+  const sum = (filter: (row: (typeof rows)[number]) => boolean) =>
+    Math.round(rows.filter(filter).reduce((total, row) => total + row.amount, 0) * 100) / 100
+
+  // Payments with a method that has since been removed still show under its key
+  const methodKeys = new Set(methods.map((method) => method.key))
+  rows.forEach((row) => row.method && methodKeys.add(row.method))
+  const cashKeys = new Set(methods.filter((method) => method.cashInHand).map((method) => method.key))
+
+  return {
+    total: sum(() => true),
+    today: sum((row) => row.date.slice(0, 10) === todayDate),
+    thisMonth: sum((row) => row.date.slice(0, 10) >= startOfMonth),
+    refunded: Math.round(refunds.reduce((total, r) => total + Number(r.amount || 0), 0) * 100) / 100,
+    byMethod: Object.fromEntries(
+      Array.from(methodKeys).map((key) => [key, sum((row) => row.method === key)])
+    ),
+    cashInHand: sum((row) => !!row.method && cashKeys.has(row.method)),
+  }
+}
+
 /**
  * Get payment statistics
  */
@@ -221,47 +312,32 @@ export async function getPaymentStats(
       .toISOString()
       .split('T')[0]
 
-    // Get all payments for stats
+    // Get all payments and refunds paid out for stats
     let query = supabase.from('Payment').select('amount, method, paymentDate')
+    let refundQuery = supabase.from('Refund').select('amount, method, refundDate').eq('type', 'refund')
 
     if (dateRange) {
       query = query.gte('paymentDate', dateRange.start).lte('paymentDate', dateRange.end)
+      refundQuery = refundQuery.gte('refundDate', dateRange.start).lte('refundDate', dateRange.end)
     }
 
-    const { data, error } = await query
+    const [{ data, error }, { data: refunds, error: refundsError }, methods] = await Promise.all([
+      query,
+      refundQuery,
+      getPaymentMethods(),
+    ])
 
     if (error) throw error
-
-    const payments = data || []
-
-    // Calculate stats
-    const total = payments.reduce((sum, p) => sum + Number(p.amount || 0), 0)
-    const today = payments
-      .filter((p) => p.paymentDate === todayDate)
-      .reduce((sum, p) => sum + Number(p.amount || 0), 0)
-    const thisMonth = payments
-      .filter((p) => p.paymentDate >= startOfMonth)
-      .reduce((sum, p) => sum + Number(p.amount || 0), 0)
-
-    const byMethod = {
-      cash: payments
-        .filter((p) => p.method === 'Cash')
-        .reduce((sum, p) => sum + Number(p.amount || 0), 0),
-      upi: payments
-        .filter((p) => p.method === 'UPI')
-        .reduce((sum, p) => sum + Number(p.amount || 0), 0),
-      online: payments
-        .filter((p) => p.method === 'Online')
-        .reduce((sum, p) => sum + Number(p.amount || 0), 0),
-    }
+    if (refundsError) throw refundsError
 
     return {
-      stats: {
-        total,
-        today,
-        thisMonth,
-        byMethod,
-      },
+      stats: summarizePaymentStats(
+        (data || []).map((p) => ({ amount: p.amount, method: p.method, date: String(p.paymentDate) })),
+        (refunds || []).map((r) => ({ amount: r.amount, method: r.method, date: String(r.refundDate) })),
+        todayDate,
+        startOfMonth,
+        methods
+      ),
       error: null,
     }
   } catch (error) {
@@ -322,6 +398,10 @@ export async function createPayment(
         amount: data.amount,
         paymentDate: data.paymentDate,
         method: data.method,
+        reference: data.reference?.trim() || null,
+        notes: data.notes?.trim() || null,
+        upiRequestId: data.upiRequestId ?? null,
+        overrideAmount: data.overrideAmount === true,
       }),
     })
 
@@ -366,20 +446,13 @@ export async function updatePayment(
       }
     }
 
-    // Get existing payment to calculate difference
-    const { data: existingPayment, error: fetchError } = await supabase
-      .from('Payment')
-      .select('studentId, amount')
-      .eq('id', id)
-      .single()
-
-    if (fetchError) throw fetchError
-
     // Update payment
     const updateData: any = {}
     if (data.amount !== undefined) updateData.amount = data.amount
     if (data.paymentDate !== undefined) updateData.paymentDate = data.paymentDate
     if (data.method !== undefined) updateData.method = data.method
+    if (data.reference !== undefined) updateData.reference = data.reference?.trim() || null
+    if (data.notes !== undefined) updateData.notes = data.notes?.trim() || null
 
     if (Object.keys(updateData).length === 0) {
       return {
@@ -389,6 +462,7 @@ export async function updatePayment(
       }
     }
 
+    // A changed amount moves the payment's period paid, which updates the student's balance
     const { data: updatedPayment, error: updateError } = await supabase
       .from('Payment')
       .update(updateData)
@@ -408,36 +482,6 @@ export async function updatePayment(
 
     if (updateError) throw updateError
 
-    // Update student balance if amount changed
-    if (data.amount !== undefined) {
-      const oldAmount = Number(existingPayment.amount || 0)
-      const newAmount = Number(data.amount)
-      const difference = newAmount - oldAmount
-
-      if (difference !== 0) {
-        const { data: studentData, error: studentError } = await supabase
-          .from('Student')
-          .select('paid, price')
-          .eq('id', existingPayment.studentId)
-          .single()
-
-        if (studentError) throw studentError
-
-        const newPaid = Number(studentData.paid || 0) + difference
-        const newBalance = Number(studentData.price || 0) - newPaid
-
-        const { error: balanceUpdateError } = await supabase
-          .from('Student')
-          .update({
-            paid: newPaid,
-            balance: newBalance,
-          })
-          .eq('id', existingPayment.studentId)
-
-        if (balanceUpdateError) throw balanceUpdateError
-      }
-    }
-
     return {
       success: true,
       payment: updatedPayment as Payment,
@@ -467,42 +511,15 @@ export async function deletePayment(
       }
     }
 
-    // Get payment to update student balance
-    const { data: payment, error: fetchError } = await supabase
-      .from('Payment')
-      .select('studentId, amount')
-      .eq('id', id)
-      .single()
-
-    if (fetchError) throw fetchError
-
-    // Delete payment
+    // Deleting takes the amount back off its period, which updates the student's balance
     const { error: deleteError } = await supabase.from('Payment').delete().eq('id', id)
 
+    // Refunds keep the payment they reversed (foreign key violation)
+    if (deleteError?.code === '23503') {
+      return { success: false, error: new Error('This payment has refunds against it and cannot be deleted') }
+    }
     if (deleteError) throw deleteError
 
-    // Update student balance
-    const { data: studentData, error: studentError } = await supabase
-      .from('Student')
-      .select('paid, price')
-      .eq('id', payment.studentId)
-      .single()
-
-    if (studentError) throw studentError
-
-    const newPaid = Number(studentData.paid || 0) - Number(payment.amount || 0)
-    const newBalance = Number(studentData.price || 0) - newPaid
-
-    const { error: updateError } = await supabase
-      .from('Student')
-      .update({
-        paid: newPaid,
-        balance: newBalance,
-      })
-      .eq('id', payment.studentId)
-
-    if (updateError) throw updateError
-
     return { success: true, error: null }
   } catch (error) {
     logger.error('Error deleting payment', error as Error)
@@ -1,232 +1,246 @@
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js'
 import { supabase } from './supabase'
-import { getStudentByUserId } from './students'
 import { logger } from './logger'
+import type { MealKey } from './meal-schedule'
+import { enqueueScan, getPendingScans, removeQueuedScan, markScanAttemptFailed, type QueuedScan } from './attendance-queue'
+
+export const QR_PAYLOAD_PREFIX = 'mess-management://attendance'
+
+export type QRRejectionReason = 'invalid' | 'expired' | 'replayed'
 
 /**
- * Validate QR code format
- * Accepts: mess-management://attendance, mess://attendance (backward compatible), or URL containing /attendance/mobile
+ * Parse a signed attendance QR payload
+ * Format: mess-management://attendance?t=<issuedAt>&n=<nonce>&s=<signature>
+ * Only the shape is checked here - the signature is verified server-side
  */
-export function validateQRCode(qrData: string): boolean {
-  if (!qrData || typeof qrData !== 'string') return false
-  
+export function parseQRPayload(
+  qrData: string
+): { issuedAt: number; nonce: string; signature: string } | null {
+  if (!qrData || typeof qrData !== 'string') return null
+
   const trimmed = qrData.trim()
-  
-  // Check for configured scheme (primary)
-  if (trimmed === 'mess-management://attendance') return true
-  
-  // Check for old scheme (backward compatibility)
-  if (trimmed === 'mess://attendance') return true
-  
-  // Check for URL format (backward compatible)
-  if (qrData.includes('/attendance/mobile')) return true
-  
-  return false
-}
+  if (!trimmed.startsWith(`${QR_PAYLOAD_PREFIX}?`)) return null
 
-/**
- * Get current meal based on time with grace periods (before and after)
- * Breakfast: 7:00 AM - 11:00 AM (grace: 30 min before 7:30, 30 min after 10:30)
- * Lunch: 12:00 PM - 4:00 PM (grace: 30 min before 12:30, 30 min after 3:30)
- * Dinner: 7:00 PM - 11:00 PM (grace: 30 min before 7:30, 30 min after 10:30)
- */
-export function getCurrentMeal(): 'breakfast' | 'lunch' | 'dinner' | null {
-  const now = new Date()
-  const hours = now.getHours()
-  const minutes = now.getMinutes()
-  const totalMinutes = hours * 60 + minutes
-  const gracePeriod = 30 // 30 minutes grace period
-
-  // Breakfast: 7:00 (420 min) to 11:00 (660 min)
-  // Normal: 7:30 (450 min) to 10:30 (630 min)
-  // Grace before: 7:00 (420 min) to 7:30 (450 min)
-  // Grace after: 10:30 (630 min) to 11:00 (660 min)
-  if (totalMinutes >= 450 - gracePeriod && totalMinutes <= 630 + gracePeriod) {
-    return 'breakfast'
-  }
+  const params = new URLSearchParams(trimmed.slice(QR_PAYLOAD_PREFIX.length + 1))
+  const issuedAt = Number(params.get('t'))
+  const nonce = params.get('n')
+  const signature = params.get('s')
 
-  // Lunch: 12:00 (720 min) to 4:00 PM (960 min)
-  // Normal: 12:30 (750 min) to 3:30 PM (930 min)
-  // Grace before: 12:00 (720 min) to 12:30 (750 min)
-  // Grace after: 3:30 PM (930 min) to 4:00 PM (960 min)
-  if (totalMinutes >= 750 - gracePeriod && totalMinutes <= 930 + gracePeriod) {
-    return 'lunch'
-  }
+  if (!Number.isInteger(issuedAt) || issuedAt <= 0 || !nonce || !signature) return null
 
-  // Dinner: 7:00 PM (1140 min) to 11:00 PM (1380 min)
-  // Normal: 7:30 PM (1170 min) to 10:30 PM (1350 min)
-  // Grace before: 7:00 PM (1140 min) to 7:30 PM (1170 min)
-  // Grace after: 10:30 PM (1350 min) to 11:00 PM (1380 min)
-  if (totalMinutes >= 1170 - gracePeriod && totalMinutes <= 1350 + gracePeriod) {
-    return 'dinner'
-  }
+  return { issuedAt, nonce, signature }
+}
 
-  return null
+/**
+ * Validate QR code format
+ * Static codes (mess-management://attendance, mess://attendance) are no longer
+ * accepted - only rotating, signed payloads from the QR generator screen.
+ */
+export function validateQRCode(qrData: string): boolean {
+  return parseQRPayload(qrData) !== null
 }
 
 export interface MarkAttendanceResult {
   success: boolean
   message: string
-  meal?: 'breakfast' | 'lunch' | 'dinner'
+  meal?: MealKey
   alreadyMarked?: boolean
+  rejectionReason?: QRRejectionReason
+  queued?: boolean // Saved on the device to sync when the connection returns
+  studentName?: string
 }
 
 /**
- * Mark attendance from QR scan (Direct Supabase - NO WEB APP DEPENDENCY)
+ * Send a scan to the mark-attendance Edge Function
+ * The student, meal window and plan rules are all resolved server-side
+ * from the JWT and server time, so the phone clock can't be gamed.
+ * Scans queued while offline are flagged `queued`; the server accepts them
+ * for a few minutes past the code's TTL and dates them by the code's signed
+ * issue time rather than when they arrive.
+ * An error means no verdict was received; `offline` is set only when the
+ * request never reached the server, the one case worth retrying later.
  */
-export async function markAttendanceFromQR(
-  userId: string
-): Promise<MarkAttendanceResult> {
+export async function submitAttendanceScan(
+  qrData: string,
+  queued = false
+): Promise<{ result: MarkAttendanceResult; error: null; offline?: false } | { result: null; error: Error; offline: boolean }> {
   try {
-    // Get student data
-    const studentResult = await getStudentByUserId(userId)
-    if (studentResult.error || !studentResult.student) {
-      return {
-        success: false,
-        message: 'Student profile not found. Please contact administrator.',
-      }
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { result: null, error: new Error('Not authenticated. Please log in again.'), offline: false }
     }
 
-    const student = studentResult.student
+    const { data, error } = await supabase.functions.invoke('mark-attendance', {
+      body: queued ? { payload: qrData, queued: true } : { payload: qrData },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
 
-    // Check meal time FIRST
-    const currentMeal = getCurrentMeal()
-    if (!currentMeal) {
-      return {
-        success: false,
-        message: 'No active meal time at the moment.\n\nPlease scan during meal hours to mark your attendance.',
+    if (error) {
+      if (error instanceof FunctionsFetchError) {
+        return { result: null, error: new Error(error.message || 'Failed to reach attendance service'), offline: true }
       }
-    }
 
-    // Check if student plan includes this meal
-    const planMeals = student.plan.meals.toLowerCase()
-    const mealLower = currentMeal.toLowerCase()
-    if (!planMeals.includes(mealLower) && !planMeals.includes('all')) {
+      // 401, 403, 5xx... - the server's own message says what went wrong
+      const body = error instanceof FunctionsHttpError
+        ? await error.context?.json?.().catch(() => null)
+        : null
       return {
-        success: false,
-        message: `Your meal plan does not include ${currentMeal}.\n\nPlease contact administrator to update your plan.`,
+        result: null,
+        error: new Error(body?.error || error.message || 'Attendance service error'),
+        offline: false,
       }
     }
 
-    // Check if plan is active
-    const today = new Date()
-    const endDate = new Date(student.endDate)
-    if (endDate < today) {
-      return {
-        success: false,
-        message: 'Your meal plan has expired. Please renew to continue.',
-      }
+    if (!data || typeof data.success !== 'boolean') {
+      return { result: null, error: new Error(data?.error || 'Unexpected response from attendance service'), offline: false }
     }
 
-    // Check if plan has started
-    const joinDate = new Date(student.joinDate)
-    if (joinDate > today) {
+    return { result: data as MarkAttendanceResult, error: null }
+  } catch (error) {
+    return {
+      result: null,
+      error: error instanceof Error ? error : new Error('Failed to reach attendance service'),
+      offline: error instanceof FunctionsFetchError,
+    }
+  }
+}
+
+/**
+ * Mark attendance from QR scan
+ * If the server can't be reached the scan is queued on the device and
+ * synced later by syncPendingScans(); any other error is shown as is
+ */
+export async function markAttendanceFromQR(qrData: string): Promise<MarkAttendanceResult> {
+  const scannedAt = new Date().toISOString()
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
       return {
         success: false,
-        message: 'Your meal plan has not started yet.',
+        message: 'Not authenticated. Please log in again.',
       }
     }
 
-    // Get today's date in YYYY-MM-DD format (using local date to avoid timezone issues)
-    const year = today.getFullYear()
-    const month = today.getMonth()
-    const day = today.getDate()
-    const todayStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`
-
-    // Check if attendance already exists for today
-    const { data: existing, error: checkError } = await supabase
-      .from('Attendance')
-      .select('id, breakfast, lunch, dinner')
-      .eq('studentId', student.id)
-      .eq('date', todayStr)
-      .maybeSingle()
-
-    if (checkError && checkError.code !== 'PGRST116') {
-      logger.error('Error checking existing attendance', checkError as Error)
+    const submission = await submitAttendanceScan(qrData)
+    if (submission.error === null) {
+      return submission.result
+    }
+
+    if (!submission.offline) {
+      logger.warn('Attendance scan was not accepted', { reason: submission.error.message })
       return {
         success: false,
-        message: 'Unable to check attendance. Please try again.',
+        message: submission.error.message,
       }
     }
 
-    // Check if meal already marked
-    if (existing && existing[currentMeal]) {
-      return {
-        success: true,
-        message: `✓ ${currentMeal.charAt(0).toUpperCase() + currentMeal.slice(1)} attendance already marked for today!`,
-        meal: currentMeal,
-        alreadyMarked: true,
-      }
+    logger.warn('Attendance scan could not be sent, queueing', { reason: submission.error.message })
+    await enqueueScan(session.user.id, qrData, scannedAt)
+
+    return {
+      success: false,
+      queued: true,
+      message: 'No connection to the server right now.\n\nYour scan has been saved and will be sent automatically once you are back online. It only counts if that is within a few minutes.',
     }
+  } catch (error) {
+    logger.error('Error marking attendance', error as Error)
+    return {
+      success: false,
+      message: error instanceof Error 
+        ? error.message 
+        : 'Unable to mark attendance. Please try again.',
+    }
+  }
+}
 
-    // Prepare attendance data
-    const attendanceData: {
-      studentId: number
-      date: string
-      breakfast: boolean
-      lunch: boolean
-      dinner: boolean
-      scannedAt?: string
-    } = {
-      studentId: student.id,
-      date: todayStr,
-      breakfast: existing?.breakfast || false,
-      lunch: existing?.lunch || false,
-      dinner: existing?.dinner || false,
+/**
+ * Mark the current meal for a student who types their roll number and PIN
+ * on the admin's device. Runs the same meal/plan checks as a QR scan;
+ * repeated wrong PINs lock the student out of the PIN pad for a while.
+ */
+export async function markAttendanceWithPin(
+  rollNumber: string,
+  pin: string
+): Promise<MarkAttendanceResult> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return {
+        success: false,
+        message: 'Not authenticated. Please log in again.',
+      }
     }
 
-    // Mark the current meal
-    attendanceData[currentMeal] = true
+    const { data, error } = await supabase.functions.invoke('pin-attendance', {
+      body: { rollNumber, pin },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
 
-    // Set scannedAt if this is a new record
-    if (!existing) {
-      attendanceData.scannedAt = new Date().toISOString()
+    if (error) {
+      throw new Error(error.message || 'Failed to reach attendance service')
     }
 
-    // Insert or update attendance
-    if (existing) {
-      // Update existing record
-      const { error: updateError } = await supabase
-        .from('Attendance')
-        .update(attendanceData)
-        .eq('id', existing.id)
-
-      if (updateError) {
-        logger.error('Error updating attendance', updateError as Error)
-        return {
-          success: false,
-          message: 'Unable to mark attendance. Please try again.',
-        }
-      }
-    } else {
-      // Insert new record
-      const { error: insertError } = await supabase
-        .from('Attendance')
-        .insert(attendanceData)
-
-      if (insertError) {
-        logger.error('Error inserting attendance', insertError as Error)
-        return {
-          success: false,
-          message: 'Unable to mark attendance. Please try again.',
-        }
-      }
+    if (!data || typeof data.success !== 'boolean') {
+      throw new Error(data?.error || 'Unexpected response from attendance service')
     }
 
-    // Success!
-    return {
-      success: true,
-      message: `Attendance marked successfully!`,
-      meal: currentMeal,
-    }
+    return data as MarkAttendanceResult
   } catch (error) {
-    logger.error('Error marking attendance', error as Error)
+    logger.error('Error marking attendance with PIN', error as Error)
     return {
       success: false,
-      message: error instanceof Error 
-        ? error.message 
+      message: error instanceof Error
+        ? error.message
         : 'Unable to mark attendance. Please try again.',
     }
   }
 }
 
+export interface SyncedScan {
+  scan: QueuedScan
+  result: MarkAttendanceResult
+}
+
+let syncInProgress: Promise<SyncedScan[]> | null = null
+
+/**
+ * Send queued offline scans for a user, oldest first
+ * Scans the server gives a verdict on (accepted or rejected) leave the queue;
+ * the rest stay for the next attempt. Concurrent calls share one run.
+ */
+export function syncPendingScans(userId: string): Promise<SyncedScan[]> {
+  if (syncInProgress) return syncInProgress
+
+  syncInProgress = (async () => {
+    const synced: SyncedScan[] = []
+    const pending = await getPendingScans(userId)
+
+    for (const scan of pending) {
+      const submission = await submitAttendanceScan(scan.payload, true)
+
+      if (submission.error) {
+        await markScanAttemptFailed(scan.id, submission.error.message)
+        // Still offline - no point trying the rest now
+        break
+      }
+
+      await removeQueuedScan(scan.id)
+      synced.push({ scan, result: submission.result })
+    }
+
+    if (synced.length > 0) {
+      logger.info('Synced queued attendance scans', { count: synced.length })
+    }
 
+    return synced
+  })()
+
+  return syncInProgress.finally(() => {
+    syncInProgress = null
+  })
+}
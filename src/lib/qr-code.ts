@@ -1,31 +1,54 @@
+import { supabase } from './supabase'
 import { logger } from './logger'
 
 export interface QRCodeData {
-  qrCode: string // QR code data string (for local generation)
-  url: string // The identifier encoded in the QR code
+  qrCode: string // Signed payload string encoded in the QR code
+  url: string // Same payload, kept for display/debugging
+  issuedAt: string // ISO timestamp when the server signed this code
+  expiresAt: string // ISO timestamp after which scans are rejected
+  rotationSeconds: number // How often the display should fetch a fresh code
 }
 
+// Used until the server tells us otherwise
+export const DEFAULT_QR_ROTATION_SECONDS = 30
+
 /**
- * Generate QR code locally (NO WEB APP DEPENDENCY)
- * Returns the data string that will be encoded in the QR code
+ * Generate a signed, time-bound attendance QR code
+ * The payload is signed server-side (attendance-qr-token Edge Function) so it
+ * can't be forged, and it expires shortly after the next rotation.
  */
 export async function generateQRCode(): Promise<QRCodeData> {
   try {
-    // Use configured scheme for deep linking support
-    // This matches the scheme in app.json: "mess-management"
-    // Also supports backward compatibility with "mess://"
-    const qrData = 'mess-management://attendance'
-    
-    // Return the data string - the component will render it using react-native-qrcode-svg
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('Not authenticated. Please log in again.')
+    }
+
+    const { data, error } = await supabase.functions.invoke('attendance-qr-token', {
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (error) {
+      throw new Error(error.message || 'Failed to generate QR code')
+    }
+
+    if (!data?.payload) {
+      throw new Error(data?.error || 'Failed to generate QR code')
+    }
+
     return {
-      qrCode: qrData, // Now this is the data string, not base64
-      url: qrData,
+      qrCode: data.payload,
+      url: data.payload,
+      issuedAt: data.issuedAt,
+      expiresAt: data.expiresAt,
+      rotationSeconds: data.rotationSeconds || DEFAULT_QR_ROTATION_SECONDS,
     }
   } catch (error) {
     logger.error('Error generating QR code', error as Error)
-    throw error instanceof Error 
-      ? error 
+    throw error instanceof Error
+      ? error
       : new Error('Failed to generate QR code. Please try again.')
   }
 }
-
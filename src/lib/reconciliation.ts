@@ -0,0 +1,242 @@
+import { format, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+
+// Balance checks compare each student's paid, balance and credit with the
+// terms, payments, guest meals and ledger entries behind them (see
+// 015_balance_reconciliation.sql). Checks run on demand from the app and
+// nightly through pg_cron; every run is kept in "BalanceCheckRun".
+
+// Same limit as the reconcile-balances Edge Function
+export const MAX_RECONCILE_STUDENTS = 100
+
+export type BalanceIssueType =
+  | 'payment_missing'
+  | 'payment_mismatch'
+  | 'plan_missing'
+  | 'plan_mismatch'
+  | 'guest_meal_missing'
+  | 'guest_meal_mismatch'
+  | 'period_paid'
+
+export interface BalanceIssue {
+  type: BalanceIssueType
+  recordId: number // Payment, subscription period or guest meal id
+  date: string | null
+  expected: number
+  recorded: number | null // What the ledger or period has; null when missing
+}
+
+export interface BalanceDiscrepancy {
+  studentId: number
+  name: string
+  rollNumber: string | null
+  storedPaid: number
+  expectedPaid: number
+  storedBalance: number
+  expectedBalance: number
+  storedCredit: number
+  expectedCredit: number
+  issues: BalanceIssue[]
+}
+
+export type BalanceCheckSource = 'manual' | 'scheduled'
+
+export interface BalanceCheckRun {
+  id: number
+  source: BalanceCheckSource
+  studentsChecked: number
+  discrepancyCount: number
+  discrepancies: BalanceDiscrepancy[]
+  ranByEmail: string | null
+  ranAt: string
+}
+
+export interface ReconcileResult {
+  studentId: number
+  success: boolean
+  error?: string
+}
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`
+
+const formatIssueDate = (date: string | null) => (date ? ` on ${format(parseISO(date), 'dd MMM yyyy')}` : '')
+
+/**
+ * One line explaining what's wrong with a record
+ */
+export function describeBalanceIssue(issue: BalanceIssue): string {
+  const on = formatIssueDate(issue.date)
+  const recorded = issue.recorded === null ? '' : formatAmount(issue.recorded)
+
+  switch (issue.type) {
+    case 'payment_missing':
+      return `Payment #${issue.recordId} of ${formatAmount(issue.expected)}${on} is not in the ledger`
+    case 'payment_mismatch':
+      return `Payment #${issue.recordId}${on} is ${formatAmount(issue.expected)} but the ledger has ${recorded}`
+    case 'plan_missing':
+      return `Plan term #${issue.recordId} of ${formatAmount(issue.expected)}${on} is not in the ledger`
+    case 'plan_mismatch':
+      return `Plan term #${issue.recordId}${on} costs ${formatAmount(issue.expected)} but the ledger has ${recorded}`
+    case 'guest_meal_missing':
+      return `Guest meal #${issue.recordId} of ${formatAmount(issue.expected)}${on} is not in the ledger`
+    case 'guest_meal_mismatch':
+      return `Guest meal #${issue.recordId}${on} is ${formatAmount(issue.expected)} but the ledger has ${recorded}`
+    case 'period_paid':
+      return `Plan term #${issue.recordId} shows ${recorded} paid; its payments add up to ${formatAmount(issue.expected)}`
+    default:
+      return `Record #${issue.recordId} does not match`
+  }
+}
+
+const toNumber = (value: unknown) => Number(value || 0)
+
+function normalizeDiscrepancy(row: any): BalanceDiscrepancy {
+  return {
+    studentId: Number(row.studentId),
+    name: row.name,
+    rollNumber: row.rollNumber ?? null,
+    storedPaid: toNumber(row.storedPaid),
+    expectedPaid: toNumber(row.expectedPaid),
+    storedBalance: toNumber(row.storedBalance),
+    expectedBalance: toNumber(row.expectedBalance),
+    storedCredit: toNumber(row.storedCredit),
+    expectedCredit: toNumber(row.expectedCredit),
+    issues: (Array.isArray(row.issues) ? row.issues : []).map((issue: any) => ({
+      type: issue.type,
+      recordId: Number(issue.recordId),
+      date: issue.date ? String(issue.date).slice(0, 10) : null,
+      expected: toNumber(issue.expected),
+      recorded: issue.recorded === null || issue.recorded === undefined ? null : Number(issue.recorded),
+    })),
+  }
+}
+
+function normalizeRun(row: any): BalanceCheckRun {
+  return {
+    id: row.id,
+    source: row.source,
+    studentsChecked: Number(row.studentsChecked || 0),
+    discrepancyCount: Number(row.discrepancyCount || 0),
+    discrepancies: (Array.isArray(row.discrepancies) ? row.discrepancies : []).map(normalizeDiscrepancy),
+    ranByEmail: row.ranByEmail ?? null,
+    ranAt: row.ranAt,
+  }
+}
+
+/**
+ * Get the most recent balance check, manual or scheduled
+ */
+export async function getLatestBalanceCheck(): Promise<
+  { run: BalanceCheckRun | null; error: null } | { run: null; error: Error }
+> {
+  try {
+    const { data, error } = await supabase
+      .from('BalanceCheckRun')
+      .select('*')
+      .order('ranAt', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching balance check', error as Error)
+      return { run: null, error: new Error(error.message) }
+    }
+
+    return { run: data ? normalizeRun(data) : null, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching balance check', error as Error)
+    return {
+      run: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch balance check'),
+    }
+  }
+}
+
+/**
+ * Check every student's balance now
+ */
+export async function runBalanceCheck(): Promise<
+  { run: BalanceCheckRun; error: null } | { run: null; error: Error }
+> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { run: null, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('reconcile-balances', {
+      body: { action: 'scan' },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      logger.error('Error checking balances', functionError as Error)
+      return { run: null, error: new Error(functionError.message || 'Failed to check balances') }
+    }
+
+    if (!result?.success || !result.run) {
+      return { run: null, error: new Error(result?.error || 'Failed to check balances') }
+    }
+
+    return { run: normalizeRun(result.run), error: null }
+  } catch (error) {
+    logger.error('Unexpected error checking balances', error as Error)
+    return {
+      run: null,
+      error: error instanceof Error ? error : new Error('Failed to check balances'),
+    }
+  }
+}
+
+/**
+ * Rebuild the chosen students' balances from their records
+ * Each correction is written to the audit log with the reason.
+ */
+export async function reconcileBalances(
+  studentIds: number[],
+  reason: string
+): Promise<{ results: ReconcileResult[]; error: null } | { results: null; error: Error }> {
+  try {
+    if (studentIds.length === 0) {
+      return { results: [], error: null }
+    }
+    if (studentIds.length > MAX_RECONCILE_STUDENTS) {
+      return { results: null, error: new Error(`Reconcile at most ${MAX_RECONCILE_STUDENTS} students at a time`) }
+    }
+    if (!reason.trim()) {
+      return { results: null, error: new Error('A reason is required') }
+    }
+
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { results: null, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('reconcile-balances', {
+      body: { action: 'apply', studentIds, reason: reason.trim() },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      logger.error('Error reconciling balances', functionError as Error)
+      return { results: null, error: new Error(functionError.message || 'Failed to reconcile balances') }
+    }
+
+    if (!result?.success) {
+      return { results: null, error: new Error(result?.error || 'Failed to reconcile balances') }
+    }
+
+    return { results: (result.results || []) as ReconcileResult[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error reconciling balances', error as Error)
+    return {
+      results: null,
+      error: error instanceof Error ? error : new Error('Failed to reconcile balances'),
+    }
+  }
+}
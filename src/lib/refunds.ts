@@ -0,0 +1,183 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+
+// Refunds pay money back to a student; credit notes take an amount off what
+// they owe. Both are issued by the create-refund Edge Function, which writes
+// the ledger entry in the same transaction (see 017_refunds_credit_notes.sql).
+export type RefundType = 'refund' | 'credit_note'
+
+export const REFUND_TYPE_LABELS: Record<RefundType, string> = {
+  refund: 'Refund',
+  credit_note: 'Credit Note',
+}
+
+// Same limit as the create-refund Edge Function
+export const MAX_REFUND_REASON_LENGTH = 500
+
+export interface Refund {
+  id: number
+  studentId: number
+  type: RefundType
+  amount: number
+  method: string | null
+  reason: string
+  refundDate: string // YYYY-MM-DD
+  paymentId: number | null
+  creditNoteNumber: string | null
+  createdByEmail: string | null
+  createdAt: string
+}
+
+export interface CreateRefundData {
+  studentId: number
+  type: RefundType
+  amount: number
+  method: string | null
+  reason: string
+  refundDate: string // YYYY-MM-DD
+  paymentId?: number | null
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * What's left of a payment after the refunds made against it
+ */
+export function getRefundableAmount(paymentAmount: number, refunds: Pick<Refund, 'type' | 'amount' | 'paymentId'>[], paymentId: number): number {
+  const refunded = refunds
+    .filter((refund) => refund.type === 'refund' && refund.paymentId === paymentId)
+    .reduce((sum, refund) => sum + refund.amount, 0)
+  return Math.max(round(paymentAmount - refunded), 0)
+}
+
+/**
+ * Reason a refund or credit note can't be issued, or null when it can
+ * `refundLimit` caps refunds only: the student's credit, or what's left of
+ * the payment being refunded.
+ */
+export function validateRefund(
+  data: Pick<CreateRefundData, 'type' | 'amount' | 'method' | 'reason'>,
+  refundLimit: number
+): string | null {
+  const amount = round(data.amount)
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return 'Enter an amount greater than zero'
+  }
+  if (!data.reason.trim()) {
+    return 'A reason is required'
+  }
+  if (data.reason.trim().length > MAX_REFUND_REASON_LENGTH) {
+    return `Reason can be at most ${MAX_REFUND_REASON_LENGTH} characters`
+  }
+  if (data.type === 'refund') {
+    if (!data.method) {
+      return 'Choose how the refund was paid'
+    }
+    if (amount > round(refundLimit)) {
+      return `Refund can be at most ₹${round(refundLimit).toFixed(2)}`
+    }
+  }
+  return null
+}
+
+function normalizeRefund(row: any): Refund {
+  return {
+    id: row.id,
+    studentId: row.studentId,
+    type: row.type,
+    amount: Number(row.amount || 0),
+    method: row.method ?? null,
+    reason: row.reason,
+    refundDate: String(row.refundDate).slice(0, 10),
+    paymentId: row.paymentId ?? null,
+    creditNoteNumber: row.creditNoteNumber ?? null,
+    createdByEmail: row.createdByEmail ?? null,
+    createdAt: row.createdAt,
+  }
+}
+
+/**
+ * Get refunds and credit notes, newest first
+ * Students only see their own (enforced by RLS)
+ */
+export async function getRefunds(
+  params: { studentId?: number; paymentId?: number } = {}
+): Promise<{ refunds: Refund[]; error: null } | { refunds: null; error: Error }> {
+  try {
+    let query = supabase
+      .from('Refund')
+      .select('id, studentId, type, amount, method, reason, refundDate, paymentId, creditNoteNumber, createdByEmail, createdAt')
+      .order('refundDate', { ascending: false })
+      .order('id', { ascending: false })
+
+    if (params.studentId) {
+      query = query.eq('studentId', params.studentId)
+    }
+
+    if (params.paymentId) {
+      query = query.eq('paymentId', params.paymentId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Error fetching refunds', error as Error, params)
+      return { refunds: null, error: new Error(error.message) }
+    }
+
+    return { refunds: (data || []).map(normalizeRefund), error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching refunds', error as Error, params)
+    return {
+      refunds: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch refunds'),
+    }
+  }
+}
+
+/**
+ * Issue a refund or credit note
+ * Limits are checked again on the server under a lock on the student.
+ */
+export async function createRefund(
+  data: CreateRefundData
+): Promise<{ refund: Refund; error: null } | { refund: null; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { refund: null, error: new Error('Not authenticated') }
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('create-refund', {
+      body: {
+        studentId: data.studentId,
+        type: data.type,
+        amount: round(data.amount),
+        method: data.type === 'refund' ? data.method : null,
+        reason: data.reason.trim(),
+        refundDate: data.refundDate,
+        paymentId: data.type === 'refund' ? data.paymentId ?? null : null,
+      },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      logger.error('Error issuing refund', functionError as Error, { studentId: data.studentId })
+      return { refund: null, error: new Error(functionError.message || 'Failed to issue refund') }
+    }
+
+    if (!result?.success || !result.refund) {
+      return { refund: null, error: new Error(result?.error || 'Failed to issue refund') }
+    }
+
+    return { refund: normalizeRefund(result.refund), error: null }
+  } catch (error) {
+    logger.error('Unexpected error issuing refund', error as Error, { studentId: data.studentId })
+    return {
+      refund: null,
+      error: error instanceof Error ? error : new Error('Failed to issue refund'),
+    }
+  }
+}
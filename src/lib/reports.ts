@@ -0,0 +1,640 @@
+import * as FileSystem from 'expo-file-system/legacy'
+import * as Print from 'expo-print'
+import * as Sharing from 'expo-sharing'
+import { eachDayOfInterval, endOfMonth, format, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { getStudents, type Student } from './students'
+import { getPayments, type Payment } from './payments'
+import { getPaymentMethodName, getPaymentMethods, type PaymentMethod } from './payment-methods'
+import { filterStudents, type FilterType } from './student-filters'
+import { getApprovedLeave } from './leave'
+import { formatPlanMeals, getMealSchedule, parsePlanMeals, type MealSchedule } from './meal-schedule'
+import type { MealMarks } from './attendance'
+
+// Reports are built on the device from Supabase data, then written out as
+// CSV (for spreadsheets) or rendered to PDF (for printing and sharing)
+export type ReportFormat = 'csv' | 'pdf'
+
+export type ReportCell = string | number | null
+
+export interface ReportColumn {
+  header: string // Used as-is in the CSV header row
+  label?: string // Shorter label for the PDF, defaults to header
+  group?: string // PDF columns in the same group share a header cell above them
+  type?: 'text' | 'number' | 'currency'
+}
+
+export interface ReportTable {
+  title: string
+  filename: string // Without extension
+  filters: string[] // Filters applied, shown under the PDF title
+  columns: ReportColumn[]
+  rows: ReportCell[][]
+  summary: { label: string; value: string }[]
+  landscape?: boolean
+}
+
+export interface StudentReportParams {
+  filter: FilterType
+  search?: string
+}
+
+export interface AttendanceReportParams extends StudentReportParams {
+  month: string // "YYYY-MM"
+}
+
+export interface PaymentReportParams {
+  startDate?: string
+  endDate?: string
+  method?: string
+  search?: string
+}
+
+// Attendance matrix cell codes
+export const ATTENDANCE_CELL = {
+  present: 'P',
+  absent: '',
+  leave: 'L',
+  notApplicable: '-', // Outside the plan period or meal not in the plan
+} as const
+
+const STUDENT_FILTER_LABELS: Record<FilterType, string> = {
+  all: 'All students',
+  active: 'Active',
+  inactive: 'Inactive',
+  expiring: 'Expiring within 7 days',
+  overdue: 'Balance due',
+}
+
+const FETCH_PAGE_SIZE = 500
+
+/**
+ * Format an amount the way the app shows money
+ */
+export function formatReportCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or line break
+ */
+export function escapeCsvValue(value: ReportCell): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Render a report as CSV - a header row followed by the data rows
+ */
+export function reportToCsv(report: ReportTable): string {
+  const lines = [report.columns.map((column) => escapeCsvValue(column.header)).join(',')]
+
+  report.rows.forEach((row) => {
+    lines.push(
+      row
+        .map((cell, index) =>
+          report.columns[index]?.type === 'currency' && typeof cell === 'number'
+            ? cell.toFixed(2)
+            : escapeCsvValue(cell)
+        )
+        .join(',')
+    )
+  })
+
+  return lines.join('\r\n')
+}
+
+/**
+ * Escape text for use in generated HTML
+ */
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const formatHtmlCell = (cell: ReportCell, column: ReportColumn | undefined): string => {
+  if (cell === null || cell === undefined) return ''
+  if (column?.type === 'currency' && typeof cell === 'number') return escapeHtml(formatReportCurrency(cell))
+  return escapeHtml(String(cell))
+}
+
+/**
+ * Render a report as a printable HTML document (input for the PDF)
+ */
+export function reportToHtml(report: ReportTable, generatedAt: Date = new Date()): string {
+  const hasGroups = report.columns.some((column) => column.group)
+  const alignClass = (column: ReportColumn) => (column.type && column.type !== 'text' ? ' class="num"' : '')
+
+  // Consecutive columns with the same group collapse into one header cell
+  let headerRows = ''
+  if (hasGroups) {
+    const groups: { label: string; span: number }[] = []
+    report.columns.forEach((column) => {
+      const last = groups[groups.length - 1]
+      if (column.group && last && last.label === column.group) {
+        last.span += 1
+      } else {
+        groups.push({ label: column.group || '', span: 1 })
+      }
+    })
+    headerRows += `<tr>${groups
+      .map((group) => `<th colspan="${group.span}">${escapeHtml(group.label)}</th>`)
+      .join('')}</tr>`
+  }
+  headerRows += `<tr>${report.columns
+    .map((column) => `<th${alignClass(column)}>${escapeHtml(column.label ?? column.header)}</th>`)
+    .join('')}</tr>`
+
+  const bodyRows = report.rows
+    .map(
+      (row) =>
+        `<tr>${row
+          .map((cell, index) => {
+            const column = report.columns[index]
+            return `<td${column ? alignClass(column) : ''}>${formatHtmlCell(cell, column)}</td>`
+          })
+          .join('')}</tr>`
+    )
+    .join('')
+
+  const summary = report.summary
+    .map((item) => `<div class="stat"><span>${escapeHtml(item.label)}</span><strong>${escapeHtml(item.value)}</strong></div>`)
+    .join('')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  @page { margin: 16px; }
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #1A1A1A; font-size: ${report.landscape ? 8 : 10}px; }
+  h1 { font-size: 18px; margin: 0 0 4px; color: #7B2CBF; }
+  .meta { color: #666; margin-bottom: 12px; }
+  .summary { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 12px; }
+  .stat { border: 1px solid #E5E7EB; border-radius: 6px; padding: 6px 10px; }
+  .stat span { display: block; color: #666; font-size: 9px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: #F3F4F6; font-weight: 600; }
+  th, td { border: 1px solid #E5E7EB; padding: ${report.landscape ? '2px 3px' : '4px 6px'}; text-align: left; }
+  .num { text-align: right; }
+  tr:nth-child(even) td { background: #FAFAFA; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(report.title)}</h1>
+  <div class="meta">${report.filters.map(escapeHtml).join(' • ')}${report.filters.length ? ' • ' : ''}Generated ${escapeHtml(format(generatedAt, 'dd MMM yyyy, h:mm a'))}</div>
+  <div class="summary">${summary}</div>
+  <table>
+    <thead>${headerRows}</thead>
+    <tbody>${bodyRows}</tbody>
+  </table>
+</body>
+</html>`
+}
+
+const isCurrentlyActive = (student: Student, today: Date) =>
+  student.isActive && new Date(student.endDate) >= today
+
+/**
+ * Student roster - one row per student
+ */
+export function buildStudentRoster(
+  students: Student[],
+  params: StudentReportParams,
+  schedule?: MealSchedule
+): ReportTable {
+  const today = new Date()
+  const sorted = [...students].sort((a, b) => a.name.localeCompare(b.name))
+
+  const rows: ReportCell[][] = sorted.map((student) => [
+    student.name,
+    student.rollNumber,
+    student.email,
+    student.contactNumber,
+    student.plan?.name ?? null,
+    formatPlanMeals(student.plan?.meals, schedule),
+    student.joinDate,
+    student.endDate,
+    isCurrentlyActive(student, today) ? 'Active' : 'Inactive',
+    student.price,
+    student.guestCharges,
+    student.paid,
+    student.balance,
+    student.credit,
+  ])
+
+  const sum = (pick: (student: Student) => number) =>
+    sorted.reduce((total, student) => total + (pick(student) || 0), 0)
+
+  return {
+    title: 'Student Roster',
+    filename: `student-roster-${format(today, 'yyyy-MM-dd')}`,
+    filters: describeStudentFilters(params),
+    columns: [
+      { header: 'Name' },
+      { header: 'Roll Number', label: 'Roll No' },
+      { header: 'Email' },
+      { header: 'Contact Number', label: 'Contact' },
+      { header: 'Plan' },
+      { header: 'Meals' },
+      { header: 'Join Date', label: 'Joined' },
+      { header: 'End Date', label: 'Ends' },
+      { header: 'Status' },
+      { header: 'Price', type: 'currency' },
+      { header: 'Guest Charges', label: 'Guests', type: 'currency' },
+      { header: 'Paid', type: 'currency' },
+      { header: 'Balance', type: 'currency' },
+      { header: 'Credit', type: 'currency' },
+    ],
+    rows,
+    summary: [
+      { label: 'Students', value: String(sorted.length) },
+      { label: 'Active', value: String(sorted.filter((student) => isCurrentlyActive(student, today)).length) },
+      { label: 'Total Paid', value: formatReportCurrency(sum((student) => student.paid)) },
+      { label: 'Total Balance', value: formatReportCurrency(sum((student) => student.balance)) },
+    ],
+    landscape: true,
+  }
+}
+
+/**
+ * Monthly attendance matrix - one row per student, one column per day and meal
+ */
+export function buildAttendanceMatrix(
+  students: Student[],
+  attendance: { studentId: number; date: string; mealMarks: MealMarks | null }[],
+  leave: { studentId: number; startDate: string; endDate: string }[],
+  params: AttendanceReportParams,
+  schedule: MealSchedule
+): ReportTable {
+  const monthStart = parseISO(`${params.month}-01`)
+  const days = eachDayOfInterval({ start: monthStart, end: endOfMonth(monthStart) }).map((day) =>
+    format(day, 'yyyy-MM-dd')
+  )
+  const meals = schedule.mealTypes
+
+  const marksByStudent = new Map<number, Map<string, MealMarks>>()
+  attendance.forEach((record) => {
+    if (!marksByStudent.has(record.studentId)) marksByStudent.set(record.studentId, new Map())
+    marksByStudent.get(record.studentId)!.set(record.date, record.mealMarks || {})
+  })
+
+  const isOnLeave = (studentId: number, date: string) =>
+    leave.some((entry) => entry.studentId === studentId && entry.startDate <= date && entry.endDate >= date)
+
+  const sorted = [...students].sort((a, b) => a.name.localeCompare(b.name))
+  const mealTotals: Record<string, number> = Object.fromEntries(meals.map((meal) => [meal.key, 0]))
+
+  const rows: ReportCell[][] = sorted.map((student) => {
+    const planMeals = parsePlanMeals(student.plan?.meals, schedule)
+    const studentMarks = marksByStudent.get(student.id)
+    const counts: Record<string, number> = Object.fromEntries(meals.map((meal) => [meal.key, 0]))
+
+    const cells: ReportCell[] = []
+    days.forEach((date) => {
+      const inPlan = date >= student.joinDate && date <= student.endDate
+      const onLeave = isOnLeave(student.id, date)
+      const marks = studentMarks?.get(date)
+
+      meals.forEach((meal) => {
+        if (marks?.[meal.key]) {
+          counts[meal.key] += 1
+          cells.push(ATTENDANCE_CELL.present)
+        } else if (!inPlan || !planMeals.includes(meal.key)) {
+          cells.push(ATTENDANCE_CELL.notApplicable)
+        } else if (onLeave) {
+          cells.push(ATTENDANCE_CELL.leave)
+        } else {
+          cells.push(ATTENDANCE_CELL.absent)
+        }
+      })
+    })
+
+    meals.forEach((meal) => {
+      mealTotals[meal.key] += counts[meal.key]
+    })
+
+    return [
+      student.name,
+      student.rollNumber,
+      ...cells,
+      ...meals.map((meal) => counts[meal.key]),
+      meals.reduce((total, meal) => total + counts[meal.key], 0),
+    ]
+  })
+
+  const columns: ReportColumn[] = [{ header: 'Name' }, { header: 'Roll Number', label: 'Roll No' }]
+  days.forEach((date) => {
+    const day = format(parseISO(date), 'dd')
+    meals.forEach((meal) => {
+      columns.push({ header: `${day} ${meal.name}`, label: meal.name.charAt(0).toUpperCase(), group: day })
+    })
+  })
+  meals.forEach((meal) => {
+    columns.push({ header: `Total ${meal.name}`, label: meal.name, group: 'Total', type: 'number' })
+  })
+  columns.push({ header: 'Total Meals', label: 'All', group: 'Total', type: 'number' })
+
+  return {
+    title: `Attendance - ${format(monthStart, 'MMMM yyyy')}`,
+    filename: `attendance-${params.month}`,
+    filters: [
+      ...describeStudentFilters(params),
+      `${ATTENDANCE_CELL.present} = present, ${ATTENDANCE_CELL.leave} = on leave, ${ATTENDANCE_CELL.notApplicable} = not in plan`,
+    ],
+    columns,
+    rows,
+    summary: [
+      { label: 'Students', value: String(sorted.length) },
+      ...meals.map((meal) => ({ label: meal.name, value: String(mealTotals[meal.key]) })),
+      {
+        label: 'Total Meals',
+        value: String(meals.reduce((total, meal) => total + mealTotals[meal.key], 0)),
+      },
+    ],
+    landscape: true,
+  }
+}
+
+/**
+ * Payments register - one row per payment, newest first
+ */
+export function buildPaymentsRegister(
+  payments: Payment[],
+  params: PaymentReportParams,
+  methods?: PaymentMethod[]
+): ReportTable {
+  const methodName = (method: string | null) => (method ? getPaymentMethodName(method, methods) : null)
+  const rows: ReportCell[][] = payments.map((payment) => [
+    payment.paymentDate,
+    payment.id,
+    payment.student?.name ?? null,
+    payment.student?.rollNumber ?? null,
+    methodName(payment.method),
+    payment.reference ?? null,
+    payment.amount,
+    payment.notes ?? null,
+  ])
+
+  const total = payments.reduce((sum, payment) => sum + Number(payment.amount || 0), 0)
+  const byMethod = new Map<string, number>()
+  payments.forEach((payment) => {
+    const method = methodName(payment.method) || 'Other'
+    byMethod.set(method, (byMethod.get(method) || 0) + Number(payment.amount || 0))
+  })
+
+  const filters: string[] = []
+  if (params.startDate && params.endDate) {
+    filters.push(`${format(parseISO(params.startDate), 'dd MMM yyyy')} - ${format(parseISO(params.endDate), 'dd MMM yyyy')}`)
+  } else if (params.startDate) {
+    filters.push(`From ${format(parseISO(params.startDate), 'dd MMM yyyy')}`)
+  } else if (params.endDate) {
+    filters.push(`Until ${format(parseISO(params.endDate), 'dd MMM yyyy')}`)
+  } else {
+    filters.push('All dates')
+  }
+  filters.push(params.method ? `Method: ${methodName(params.method)}` : 'All methods')
+  if (params.search?.trim()) filters.push(`Search: "${params.search.trim()}"`)
+
+  return {
+    title: 'Payments Register',
+    filename: `payments-${params.startDate || 'all'}${params.endDate ? `-to-${params.endDate}` : ''}`,
+    filters,
+    columns: [
+      { header: 'Date' },
+      { header: 'Payment ID', label: 'ID', type: 'number' },
+      { header: 'Student' },
+      { header: 'Roll Number', label: 'Roll No' },
+      { header: 'Method' },
+      { header: 'Reference', label: 'Ref.' },
+      { header: 'Amount', type: 'currency' },
+      { header: 'Notes' },
+    ],
+    rows,
+    summary: [
+      { label: 'Payments', value: String(payments.length) },
+      { label: 'Total Collected', value: formatReportCurrency(total) },
+      ...Array.from(byMethod.entries()).map(([method, amount]) => ({
+        label: method,
+        value: formatReportCurrency(amount),
+      })),
+    ],
+  }
+}
+
+function describeStudentFilters(params: StudentReportParams): string[] {
+  const filters = [STUDENT_FILTER_LABELS[params.filter]]
+  if (params.search?.trim()) filters.push(`Search: "${params.search.trim()}"`)
+  return filters
+}
+
+const getStorageDirectory = () => {
+  const storageDir = FileSystem.documentDirectory || FileSystem.cacheDirectory
+  if (!storageDir) {
+    throw new Error('File system not available. Please check app permissions.')
+  }
+  return storageDir
+}
+
+const shareFile = async (fileUri: string, reportFormat: ReportFormat, dialogTitle: string) => {
+  const isAvailable = await Sharing.isAvailableAsync()
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device')
+  }
+
+  await Sharing.shareAsync(fileUri, {
+    mimeType: reportFormat === 'csv' ? 'text/csv' : 'application/pdf',
+    dialogTitle,
+    UTI: reportFormat === 'csv' ? 'public.comma-separated-values-text' : 'com.adobe.pdf',
+  })
+}
+
+/**
+ * Render an HTML document to an A4 PDF and open the share sheet
+ * Also used for invoices and receipts.
+ */
+export async function shareHtmlAsPdf(
+  html: string,
+  filename: string, // Without extension
+  dialogTitle: string,
+  landscape: boolean = false
+): Promise<void> {
+  const fileUri = `${getStorageDirectory()}${filename}.pdf`
+
+  // A4, turned sideways for wide tables
+  const { uri } = await Print.printToFileAsync({
+    html,
+    width: landscape ? 842 : 595,
+    height: landscape ? 595 : 842,
+  })
+  // Give the PDF a readable name instead of the generated one
+  await FileSystem.deleteAsync(fileUri, { idempotent: true })
+  await FileSystem.moveAsync({ from: uri, to: fileUri })
+
+  await shareFile(fileUri, 'pdf', dialogTitle)
+}
+
+/**
+ * Write the report to a file and open the share sheet
+ */
+export async function shareReport(report: ReportTable, reportFormat: ReportFormat): Promise<void> {
+  if (reportFormat === 'pdf') {
+    await shareHtmlAsPdf(reportToHtml(report), report.filename, `Export ${report.title}`, report.landscape)
+    return
+  }
+
+  const fileUri = `${getStorageDirectory()}${report.filename}.csv`
+  await FileSystem.writeAsStringAsync(fileUri, reportToCsv(report), {
+    encoding: FileSystem.EncodingType.UTF8,
+  })
+
+  await shareFile(fileUri, 'csv', `Export ${report.title}`)
+}
+
+// Students matching the roster search, across all pages
+async function fetchAllStudents(search?: string): Promise<Student[]> {
+  const students: Student[] = []
+  let page = 1
+  let totalPages = 1
+
+  do {
+    const result = await getStudents({ page, limit: FETCH_PAGE_SIZE, search })
+    if (result.error) throw result.error
+    students.push(...result.students)
+    totalPages = result.pagination.totalPages
+    page += 1
+  } while (page <= totalPages)
+
+  return students
+}
+
+/**
+ * Export the student roster
+ */
+export async function exportStudentRoster(
+  params: StudentReportParams,
+  reportFormat: ReportFormat
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const [students, schedule] = await Promise.all([fetchAllStudents(params.search), getMealSchedule()])
+    const report = buildStudentRoster(filterStudents(students, params.filter), params, schedule)
+
+    await shareReport(report, reportFormat)
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error exporting student roster', error as Error, { format: reportFormat })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to export student roster'),
+    }
+  }
+}
+
+/**
+ * Export the monthly attendance matrix
+ */
+export async function exportAttendanceMatrix(
+  params: AttendanceReportParams,
+  reportFormat: ReportFormat
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const monthStart = `${params.month}-01`
+    const monthEnd = format(endOfMonth(parseISO(monthStart)), 'yyyy-MM-dd')
+
+    const [students, schedule, leave] = await Promise.all([
+      fetchAllStudents(params.search),
+      getMealSchedule(),
+      getApprovedLeave(monthStart, monthEnd),
+    ])
+
+    // Only students whose plan overlaps the month
+    const enrolled = filterStudents(students, params.filter).filter(
+      (student) => student.joinDate <= monthEnd && student.endDate >= monthStart
+    )
+
+    // Supabase caps each response, so page through the month's records
+    const attendance: { studentId: number; date: string; mealMarks: MealMarks | null }[] = []
+    const pageSize = 1000
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('Attendance')
+        .select('studentId, date, mealMarks')
+        .gte('date', monthStart)
+        .lte('date', monthEnd)
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1)
+
+      if (error) throw error
+
+      attendance.push(...(data || []))
+      if (!data || data.length < pageSize) break
+    }
+
+    const report = buildAttendanceMatrix(enrolled, attendance, leave, params, schedule)
+
+    await shareReport(report, reportFormat)
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error exporting attendance report', error as Error, { month: params.month, format: reportFormat })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to export attendance report'),
+    }
+  }
+}
+
+/**
+ * Export the payments register
+ */
+export async function exportPaymentsRegister(
+  params: PaymentReportParams,
+  reportFormat: ReportFormat
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const payments: Payment[] = []
+    let page = 1
+    let totalPages = 1
+
+    do {
+      const result = await getPayments({
+        page,
+        limit: FETCH_PAGE_SIZE,
+        startDate: params.startDate,
+        endDate: params.endDate,
+        method: params.method,
+      })
+      if (result.error) throw result.error
+      payments.push(...result.payments)
+      totalPages = result.pagination.totalPages
+      page += 1
+    } while (page <= totalPages)
+
+    // Same matching as the payments screen search
+    const query = params.search?.trim().toLowerCase()
+    const matching = query
+      ? payments.filter(
+          (payment) =>
+            payment.student?.name?.toLowerCase().includes(query) ||
+            payment.student?.rollNumber?.toLowerCase().includes(query)
+        )
+      : payments
+
+    const report = buildPaymentsRegister(matching, params, await getPaymentMethods())
+
+    await shareReport(report, reportFormat)
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error exporting payments register', error as Error, { format: reportFormat })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to export payments register'),
+    }
+  }
+}
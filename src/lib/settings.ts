@@ -0,0 +1,68 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+
+/**
+ * Get an app-wide setting stored in the AppSetting table
+ * Returns null when the key has never been saved
+ */
+export async function getAppSetting<T>(
+  key: string
+): Promise<{ value: T | null; error: null } | { value: null; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('AppSetting')
+      .select('value')
+      .eq('key', key)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching app setting', error as Error, { key })
+      return { value: null, error: new Error(error.message) }
+    }
+
+    return { value: (data?.value as T) ?? null, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching app setting', error as Error, { key })
+    return {
+      value: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch setting'),
+    }
+  }
+}
+
+/**
+ * Save an app-wide setting (admin only, enforced by RLS)
+ */
+export async function setAppSetting<T>(
+  key: string,
+  value: T
+): Promise<{ value: T; error: null } | { value: null; error: Error }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { error } = await supabase
+      .from('AppSetting')
+      .upsert(
+        {
+          key,
+          value,
+          updatedAt: new Date().toISOString(),
+          updatedBy: user?.id ?? null,
+        },
+        { onConflict: 'key' }
+      )
+
+    if (error) {
+      logger.error('Error saving app setting', error as Error, { key })
+      return { value: null, error: new Error(error.message) }
+    }
+
+    return { value, error: null }
+  } catch (error) {
+    logger.error('Unexpected error saving app setting', error as Error, { key })
+    return {
+      value: null,
+      error: error instanceof Error ? error : new Error('Failed to save setting'),
+    }
+  }
+}
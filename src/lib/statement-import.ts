@@ -0,0 +1,697 @@
+import { addDays, differenceInCalendarDays, format, isValid, parse, parseISO } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { normalizeCsvHeader, parseCsv, parseImportDate } from './csv'
+import { normalizeUpiReference } from './upi'
+import { getBankPaymentMethods, getPaymentMethods, getUpiPaymentMethodKey, type PaymentMethod } from './payment-methods'
+
+// Columns: the label shown to admins and the header spellings accepted
+// (compared after normalizeCsvHeader), most specific first. Banks name
+// these differently, so a credit / deposit column wins over a plain amount.
+export const STATEMENT_IMPORT_COLUMNS = {
+  date: {
+    label: 'date',
+    aliases: ['date', 'txndate', 'transactiondate', 'trandate', 'valuedate', 'valuedt', 'postingdate', 'postdate'],
+  },
+  amount: {
+    label: 'amount',
+    aliases: ['credit', 'creditamount', 'creditamt', 'deposit', 'deposits', 'depositamount', 'depositamt', 'amount', 'amt', 'transactionamount', 'txnamount'],
+  },
+} as const
+
+export const STATEMENT_OPTIONAL_COLUMNS = {
+  reference: {
+    label: 'reference',
+    aliases: ['utr', 'utrno', 'utrnumber', 'reference', 'referenceno', 'referencenumber', 'refno', 'ref', 'chqrefno', 'chequerefno', 'transactionid', 'txnid', 'rrn'],
+  },
+  payer: {
+    label: 'payer',
+    aliases: ['payer', 'payername', 'remitter', 'remittername', 'sender', 'name', 'vpa', 'payervpa', 'upiid', 'from'],
+  },
+  narration: {
+    label: 'narration',
+    aliases: ['narration', 'description', 'particulars', 'remarks', 'details', 'transactiondetails'],
+  },
+  type: {
+    label: 'type',
+    aliases: ['crdr', 'drcr', 'type', 'transactiontype', 'txntype'],
+  },
+} as const
+
+type StatementImportField = keyof typeof STATEMENT_IMPORT_COLUMNS | keyof typeof STATEMENT_OPTIONAL_COLUMNS
+
+// Rows applied in one import-bank-statement request (and one transaction)
+export const MAX_STATEMENT_IMPORT_ROWS = 1000
+
+// Banks put account details above the table; the header is looked for this far down
+const MAX_PREAMBLE_ROWS = 20
+
+// Statement dates beyond the formats accepted for other imports
+const STATEMENT_DATE_FORMATS = ['dd-MMM-yyyy', 'dd MMM yyyy', 'd MMM yyyy', 'dd-MMM-yy', 'dd/MM/yy', 'dd-MM-yy']
+
+// A payment recorded a few days either side of the credit is the same transfer
+const MATCH_WINDOW_DAYS = 3
+
+// Share of a student's name that must appear in the payer details
+const MIN_NAME_SIMILARITY = 0.5
+
+// Words in narrations that never belong to a name
+const NARRATION_NOISE = ['upi', 'neft', 'imps', 'rtgs', 'ref', 'utr', 'txn', 'cr', 'dr', 'by', 'to', 'from', 'transfer', 'payment', 'mr', 'mrs', 'ms']
+
+// How the credit reached the bank, going by its narration
+export type StatementPaymentMethod = 'UPI' | 'Online'
+
+// One credit in the file, as read before looking anything up
+export interface StatementImportEntry {
+  line: number // Line in the CSV file (the header's line is counted)
+  date: string // "YYYY-MM-DD" when valid, otherwise as written
+  amount: number
+  reference: string | null // Normalised like UPI references
+  payer: string // Payer name / VPA, or the narration when there is no payer column
+  method: StatementPaymentMethod
+  errors: string[]
+}
+
+export interface StatementImportFile {
+  entries: StatementImportEntry[]
+  startDate: string | null // First and last valid dates, debits included
+  endDate: string | null
+  skippedCount: number // Debits and rows without an amount
+}
+
+export interface StatementImportStudent {
+  id: number
+  name: string
+  rollNumber: string | null
+  balance: number
+}
+
+export interface StatementImportPayment {
+  id: number
+  studentId: number
+  studentName: string
+  amount: number
+  paymentDate: string // "YYYY-MM-DD"
+  method: string | null
+  reference: string | null
+  statementStatus: 'matched' | 'missing' | null
+}
+
+export interface StatementImportRequest {
+  id: number
+  studentId: number
+  studentName: string
+  amount: number
+  reference: string
+}
+
+export interface StatementImportContext {
+  students: StatementImportStudent[]
+  payments: StatementImportPayment[] // Recorded around the statement's dates
+  requests: StatementImportRequest[] // Pending UPI payment requests
+  methods: PaymentMethod[] // Configured payment methods
+}
+
+// recorded: already a payment; request: confirms a pending UPI payment;
+// new: a payment is proposed for the student; unmatched: nobody found
+export type StatementRowStatus = 'recorded' | 'request' | 'new' | 'unmatched' | 'error'
+
+export interface StatementImportRow extends Omit<StatementImportEntry, 'method'> {
+  method: string // Method key a new payment for this credit is recorded with
+  status: StatementRowStatus
+  paymentId: number | null
+  requestId: number | null
+  studentId: number | null
+  studentName: string | null
+  matchedBy: 'reference' | 'amount and name' | 'name' | 'assigned' | null
+  notes: string[] // Things worth a second look, e.g. an amount that differs
+}
+
+export interface StatementImportPreview {
+  rows: StatementImportRow[]
+  startDate: string | null
+  endDate: string | null
+  recordedCount: number
+  requestCount: number
+  newCount: number
+  unmatchedCount: number
+  errorCount: number
+  skippedCount: number
+  missingPayments: StatementImportPayment[] // Payments by bank methods that the bank never saw
+}
+
+export interface StatementImportResult {
+  matched: number
+  confirmed: number
+  created: number
+  missing: number
+}
+
+/**
+ * Read an amount cell, e.g. "3,500.00", "₹3500", "3500 CR" or "(200.00)"
+ * Debits come back negative. Returns undefined for a blank cell and null
+ * when it can't be understood.
+ */
+export function parseStatementAmount(value: string): number | undefined | null {
+  let text = value.trim().replace(/^(₹|rs\.?|inr)\s*/i, '').replace(/,/g, '').replace(/\s+/g, '')
+  if (!text || text === '-') return undefined
+
+  let sign = 1
+  const suffix = text.match(/(cr|dr)\.?$/i)
+  if (suffix) {
+    if (suffix[1].toLowerCase() === 'dr') sign = -1
+    text = text.slice(0, suffix.index)
+  }
+  if (/^\(.*\)$/.test(text)) {
+    sign = -sign
+    text = text.slice(1, -1)
+  }
+  if (text.startsWith('-')) {
+    sign = -sign
+    text = text.slice(1)
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null
+  return sign * Math.round(parseFloat(text) * 100) / 100
+}
+
+/**
+ * Parse a statement date, including bank formats like "02-Jul-2025"
+ * A trailing time ("02/07/2025 10:15") is ignored.
+ */
+export function parseStatementDate(value: string): string | null {
+  const trimmed = value.trim().replace(/[ T]+\d{1,2}:\d{2}(:\d{2})?(\s*[ap]m)?$/i, '')
+  const date = parseImportDate(trimmed)
+  if (date) return date
+
+  for (const dateFormat of STATEMENT_DATE_FORMATS) {
+    const parsed = parse(trimmed, dateFormat, new Date())
+    if (isValid(parsed) && format(parsed, dateFormat).toLowerCase() === trimmed.toLowerCase()) {
+      return format(parsed, 'yyyy-MM-dd')
+    }
+  }
+  return null
+}
+
+/**
+ * The 12-digit UTR in a narration like "UPI/412345678901/ASHA RAO/asha@okaxis"
+ */
+export function extractUtr(text: string): string | null {
+  const match = text.match(/(?:^|\D)(\d{12})(?!\d)/)
+  return match ? match[1] : null
+}
+
+function nameTokens(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((token) => token.length >= 2 && !NARRATION_NOISE.includes(token))
+}
+
+/**
+ * Share (0 to 1) of the words in a student's name found in the payer details
+ * VPAs run names together ("asharao@okaxis"), so longer words also count
+ * when they appear inside one.
+ */
+export function nameSimilarity(studentName: string, payer: string): number {
+  const target = nameTokens(studentName)
+  if (target.length === 0) return 0
+
+  const words = nameTokens(payer)
+  const matched = target.filter(
+    (token) => words.includes(token) || (token.length >= 3 && words.some((word) => word.length > token.length && word.includes(token)))
+  )
+  return matched.length / target.length
+}
+
+function findColumn(header: string[], aliases: readonly string[]): number | undefined {
+  for (const alias of aliases) {
+    const index = header.indexOf(alias)
+    if (index >= 0) return index
+  }
+  return undefined
+}
+
+/**
+ * Read a bank statement CSV, keeping only the credits
+ */
+export function parseStatementImport(
+  text: string
+): { file: StatementImportFile; error: null } | { file: null; error: Error } {
+  const records = parseCsv(text)
+
+  if (records.length === 0) {
+    return { file: null, error: new Error('The file is empty') }
+  }
+
+  // Find the header below any account details
+  let headerIndex = -1
+  let columns: Partial<Record<StatementImportField, number>> = {}
+
+  for (let i = 0; i < Math.min(records.length, MAX_PREAMBLE_ROWS); i += 1) {
+    const normalized = records[i].map(normalizeCsvHeader)
+    const date = findColumn(normalized, STATEMENT_IMPORT_COLUMNS.date.aliases)
+    const amount = findColumn(normalized, STATEMENT_IMPORT_COLUMNS.amount.aliases)
+
+    if (date !== undefined && amount !== undefined) {
+      headerIndex = i
+      columns = {
+        date,
+        amount,
+        reference: findColumn(normalized, STATEMENT_OPTIONAL_COLUMNS.reference.aliases),
+        payer: findColumn(normalized, STATEMENT_OPTIONAL_COLUMNS.payer.aliases),
+        narration: findColumn(normalized, STATEMENT_OPTIONAL_COLUMNS.narration.aliases),
+        type: findColumn(normalized, STATEMENT_OPTIONAL_COLUMNS.type.aliases),
+      }
+      break
+    }
+  }
+
+  if (headerIndex < 0) {
+    return {
+      file: null,
+      error: new Error(`No header with ${Object.values(STATEMENT_IMPORT_COLUMNS).map((column) => column.label).join(' and ')} columns found`),
+    }
+  }
+
+  const rows = records.slice(headerIndex + 1)
+  if (rows.length === 0) {
+    return { file: null, error: new Error('The file has no transactions') }
+  }
+
+  if (rows.length > MAX_STATEMENT_IMPORT_ROWS) {
+    return { file: null, error: new Error(`At most ${MAX_STATEMENT_IMPORT_ROWS} rows can be imported at once`) }
+  }
+
+  const dates: string[] = []
+  const entries: StatementImportEntry[] = []
+  let skippedCount = 0
+
+  rows.forEach((record, index) => {
+    const cell = (column: number | undefined) => (column === undefined ? '' : (record[column] ?? '').trim())
+
+    const rawDate = cell(columns.date)
+    const date = rawDate ? parseStatementDate(rawDate) : null
+    if (date) dates.push(date)
+
+    const rawAmount = cell(columns.amount)
+    let amount = parseStatementAmount(rawAmount)
+    if (amount && /^d/i.test(cell(columns.type))) {
+      amount = -Math.abs(amount)
+    }
+
+    // Debits, balances and footer lines aren't payments
+    if (amount === undefined || (amount !== null && amount <= 0)) {
+      skippedCount += 1
+      return
+    }
+
+    const errors: string[] = []
+    const narration = cell(columns.narration)
+    const payer = cell(columns.payer) || narration
+    const rawReference = normalizeUpiReference(cell(columns.reference))
+    const reference = /^[A-Z0-9]{6,35}$/.test(rawReference)
+      ? rawReference
+      : extractUtr(rawReference) || extractUtr(narration) || extractUtr(payer)
+
+    if (amount === null) errors.push(`Invalid amount "${rawAmount}"`)
+
+    if (!rawDate) {
+      errors.push('Date is required')
+    } else if (!date) {
+      errors.push(`Invalid date "${rawDate}"`)
+    }
+
+    entries.push({
+      line: headerIndex + index + 2,
+      date: date ?? rawDate,
+      amount: amount ?? 0,
+      reference: reference || null,
+      payer,
+      method: /upi|@/i.test(`${narration} ${payer}`) ? 'UPI' : 'Online',
+      errors,
+    })
+  })
+
+  if (entries.length === 0) {
+    return { file: null, error: new Error('The file has no credits to import') }
+  }
+
+  dates.sort()
+
+  return {
+    file: {
+      entries,
+      startDate: dates[0] ?? null,
+      endDate: dates[dates.length - 1] ?? null,
+      skippedCount,
+    },
+    error: null,
+  }
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(differenceInCalendarDays(parseISO(a), parseISO(b)))
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005
+}
+
+/**
+ * Match the statement's credits to payments, UPI payment requests and students
+ * Each payment and request is matched at most once: by reference first, then
+ * by amount, date and payer name. Credits nobody recorded are proposed as new
+ * payments when the payer name points to one student.
+ */
+export function previewStatementImport(
+  file: StatementImportFile,
+  context: StatementImportContext
+): StatementImportPreview {
+  const usedPayments = new Set<number>()
+  const usedRequests = new Set<number>()
+  const seenReferences = new Map<string, number>()
+
+  const paymentsByReference = new Map(
+    context.payments.filter((payment) => payment.reference).map((payment) => [payment.reference!.toUpperCase(), payment])
+  )
+  const requestsByReference = new Map(context.requests.map((request) => [request.reference.toUpperCase(), request]))
+
+  // Only methods that reach the bank can turn up in the statement
+  const bankMethods = getBankPaymentMethods(context.methods).map((method) => method.key)
+  const upiMethod = getUpiPaymentMethodKey(context.methods)
+
+  const rows = file.entries.map((entry): StatementImportRow => {
+    const row: StatementImportRow = {
+      ...entry,
+      method: bankMethods.includes(entry.method)
+        ? entry.method
+        : (entry.method === 'UPI' ? upiMethod : bankMethods[0]) ?? entry.method,
+      errors: [...entry.errors],
+      status: 'unmatched',
+      paymentId: null,
+      requestId: null,
+      studentId: null,
+      studentName: null,
+      matchedBy: null,
+      notes: [],
+    }
+
+    if (entry.reference) {
+      if (seenReferences.has(entry.reference)) {
+        row.errors.push(`Same reference as line ${seenReferences.get(entry.reference)}`)
+      } else {
+        seenReferences.set(entry.reference, entry.line)
+      }
+    }
+
+    if (row.errors.length > 0) {
+      row.status = 'error'
+      return row
+    }
+
+    const byReference = entry.reference ? paymentsByReference.get(entry.reference) : undefined
+    if (byReference && !usedPayments.has(byReference.id)) {
+      usedPayments.add(byReference.id)
+      if (!sameAmount(byReference.amount, entry.amount)) {
+        row.notes.push(`Recorded as ₹${byReference.amount.toLocaleString('en-IN')}`)
+      }
+      return { ...row, status: 'recorded', paymentId: byReference.id, studentId: byReference.studentId, studentName: byReference.studentName, matchedBy: 'reference' }
+    }
+
+    const request = entry.reference ? requestsByReference.get(entry.reference) : undefined
+    if (request && !usedRequests.has(request.id)) {
+      usedRequests.add(request.id)
+      if (!sameAmount(request.amount, entry.amount)) {
+        row.notes.push(`Student submitted ₹${request.amount.toLocaleString('en-IN')}; the bank amount is recorded`)
+      }
+      return { ...row, status: 'request', requestId: request.id, studentId: request.studentId, studentName: request.studentName, matchedBy: 'reference' }
+    }
+
+    // Payments entered without a reference (or with a different one typed in)
+    const candidates = context.payments
+      .filter((payment) =>
+        !usedPayments.has(payment.id) &&
+        (!payment.reference || !entry.reference) &&
+        sameAmount(payment.amount, entry.amount) &&
+        daysApart(payment.paymentDate, entry.date) <= MATCH_WINDOW_DAYS
+      )
+      .map((payment) => ({ payment, score: nameSimilarity(payment.studentName, entry.payer) }))
+      .filter((candidate) => candidate.score >= MIN_NAME_SIMILARITY)
+      .sort((a, b) => b.score - a.score || daysApart(a.payment.paymentDate, entry.date) - daysApart(b.payment.paymentDate, entry.date))
+
+    if (candidates.length > 0) {
+      const { payment } = candidates[0]
+      usedPayments.add(payment.id)
+      return { ...row, status: 'recorded', paymentId: payment.id, studentId: payment.studentId, studentName: payment.studentName, matchedBy: 'amount and name' }
+    }
+
+    // Nobody recorded it - look for the student by name, then by what they owe
+    const scored = context.students
+      .map((student) => ({ student, score: nameSimilarity(student.name, entry.payer) }))
+      .filter((candidate) => candidate.score >= MIN_NAME_SIMILARITY)
+    const best = Math.max(0, ...scored.map((candidate) => candidate.score))
+    let likely = scored.filter((candidate) => candidate.score === best)
+
+    if (likely.length > 1) {
+      const owing = likely.filter((candidate) => sameAmount(candidate.student.balance, entry.amount))
+      if (owing.length === 1) likely = owing
+    }
+
+    if (likely.length === 1) {
+      const { student } = likely[0]
+      return { ...row, status: 'new', studentId: student.id, studentName: student.name, matchedBy: 'name' }
+    }
+
+    if (likely.length > 1) {
+      row.notes.push(`Could be ${likely.slice(0, 3).map((candidate) => candidate.student.name).join(', ')}${likely.length > 3 ? '…' : ''}`)
+    }
+    return row
+  })
+
+  const missingPayments = file.startDate && file.endDate
+    ? context.payments.filter((payment) =>
+      !!payment.method && bankMethods.includes(payment.method) &&
+      payment.statementStatus !== 'matched' &&
+      !usedPayments.has(payment.id) &&
+      payment.paymentDate >= file.startDate! &&
+      payment.paymentDate <= file.endDate!
+    )
+    : []
+
+  return summarizeStatementPreview({
+    rows,
+    startDate: file.startDate,
+    endDate: file.endDate,
+    skippedCount: file.skippedCount,
+    missingPayments,
+  })
+}
+
+function summarizeStatementPreview(
+  preview: Pick<StatementImportPreview, 'rows' | 'startDate' | 'endDate' | 'skippedCount' | 'missingPayments'>
+): StatementImportPreview {
+  const count = (status: StatementRowStatus) => preview.rows.filter((row) => row.status === status).length
+
+  return {
+    ...preview,
+    recordedCount: count('recorded'),
+    requestCount: count('request'),
+    newCount: count('new'),
+    unmatchedCount: count('unmatched'),
+    errorCount: count('error'),
+  }
+}
+
+/**
+ * Propose a new payment for a credit to the student the admin picked,
+ * or leave it out of the import when student is null
+ */
+export function assignStatementRow(
+  preview: StatementImportPreview,
+  line: number,
+  student: { id: number; name: string } | null
+): StatementImportPreview {
+  return summarizeStatementPreview({
+    ...preview,
+    rows: preview.rows.map((row) => {
+      if (row.line !== line || (row.status !== 'new' && row.status !== 'unmatched')) return row
+      return student
+        ? { ...row, status: 'new', studentId: student.id, studentName: student.name, matchedBy: 'assigned' }
+        : { ...row, status: 'unmatched', studentId: null, studentName: null, matchedBy: null }
+    }),
+  })
+}
+
+/**
+ * Look up the students, payments and UPI payment requests the file is checked against
+ */
+export async function loadStatementImportContext(
+  file: StatementImportFile
+): Promise<{ context: StatementImportContext; error: null } | { context: null; error: Error }> {
+  try {
+    const students: StatementImportStudent[] = []
+
+    // Page through - any student may have paid
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await supabase
+        .from('Student')
+        .select('id, name, rollNumber, balance')
+        .order('id')
+        .range(from, from + 999)
+
+      if (error) throw error
+
+      data?.forEach((student) => {
+        students.push({
+          id: student.id,
+          name: student.name,
+          rollNumber: student.rollNumber ?? null,
+          balance: Number(student.balance || 0),
+        })
+      })
+
+      if (!data || data.length < 1000) break
+    }
+
+    const studentNames = new Map(students.map((student) => [student.id, student.name]))
+    const payments: StatementImportPayment[] = []
+
+    if (file.startDate && file.endDate) {
+      const start = format(addDays(parseISO(file.startDate), -MATCH_WINDOW_DAYS), 'yyyy-MM-dd')
+      const end = format(addDays(parseISO(file.endDate), MATCH_WINDOW_DAYS + 1), 'yyyy-MM-dd')
+
+      for (let from = 0; ; from += 1000) {
+        const { data, error } = await supabase
+          .from('Payment')
+          .select('id, studentId, amount, paymentDate, method, reference, statementStatus')
+          .gte('paymentDate', start)
+          .lt('paymentDate', end)
+          .order('id')
+          .range(from, from + 999)
+
+        if (error) throw error
+
+        data?.forEach((payment) => {
+          payments.push({
+            id: payment.id,
+            studentId: payment.studentId,
+            studentName: studentNames.get(payment.studentId) ?? '',
+            amount: Number(payment.amount || 0),
+            paymentDate: String(payment.paymentDate).slice(0, 10),
+            method: payment.method ?? null,
+            reference: payment.reference ?? null,
+            statementStatus: payment.statementStatus ?? null,
+          })
+        })
+
+        if (!data || data.length < 1000) break
+      }
+    }
+
+    const { data: requests, error: requestsError } = await supabase
+      .from('UpiPaymentRequest')
+      .select('id, studentId, amount, reference')
+      .eq('status', 'pending')
+
+    if (requestsError) throw requestsError
+
+    const methods = await getPaymentMethods()
+
+    return {
+      context: {
+        students,
+        payments,
+        requests: (requests || []).map((request) => ({
+          id: request.id,
+          studentId: request.studentId,
+          studentName: studentNames.get(request.studentId) ?? '',
+          amount: Number(request.amount || 0),
+          reference: request.reference,
+        })),
+        methods,
+      },
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Error loading bank statement import data', error as Error)
+    return {
+      context: null,
+      error: error instanceof Error ? error : new Error('Failed to check the statement against payments'),
+    }
+  }
+}
+
+/**
+ * Apply the matched rows and mark the payments the bank never saw, all in one transaction
+ */
+export async function applyStatementImport(
+  preview: StatementImportPreview,
+  fileName: string
+): Promise<{ result: StatementImportResult; error: null } | { result: null; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { result: null, error: new Error('Not authenticated') }
+    }
+
+    if (preview.errorCount > 0) {
+      return { result: null, error: new Error('Fix the rows with errors before importing') }
+    }
+
+    if (!preview.startDate || !preview.endDate) {
+      return { result: null, error: new Error('The statement has no dates') }
+    }
+
+    const rows = preview.rows.flatMap((row): Record<string, unknown>[] => {
+      const base = { line: row.line, reference: row.reference }
+      switch (row.status) {
+        case 'recorded':
+          return [{ ...base, action: 'match', paymentId: row.paymentId }]
+        case 'request':
+          return [{ ...base, action: 'confirm', requestId: row.requestId, amount: row.amount, date: row.date }]
+        case 'new':
+          return [{ ...base, action: 'create', studentId: row.studentId, amount: row.amount, date: row.date, method: row.method }]
+        default:
+          return []
+      }
+    })
+
+    const { data, error: functionError } = await supabase.functions.invoke('import-bank-statement', {
+      body: {
+        fileName,
+        startDate: preview.startDate,
+        endDate: preview.endDate,
+        rows,
+      },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      logger.error('Error importing bank statement', functionError as Error)
+      return { result: null, error: new Error(functionError.message || 'Failed to import statement') }
+    }
+
+    if (!data?.success) {
+      return { result: null, error: new Error(data?.error || 'Failed to import statement') }
+    }
+
+    return {
+      result: {
+        matched: Number(data.result?.matched) || 0,
+        confirmed: Number(data.result?.confirmed) || 0,
+        created: Number(data.result?.created) || 0,
+        missing: Number(data.result?.missing) || 0,
+      },
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Unexpected error importing bank statement', error as Error)
+    return {
+      result: null,
+      error: error instanceof Error ? error : new Error('Failed to import statement'),
+    }
+  }
+}
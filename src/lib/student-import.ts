@@ -0,0 +1,347 @@
+import { format } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { normalizeCsvHeader, parseCsv, parseImportDate } from './csv'
+import { getCachedPaymentMethods, validatePaymentMethodChoice, type PaymentMethod } from './payment-methods'
+import type { Plan } from './plans'
+import type { ReportTable } from './reports'
+
+// Columns the import understands: the label shown to admins and the header
+// spellings accepted for each (compared after normalizeCsvHeader)
+export const STUDENT_IMPORT_COLUMNS = {
+  name: { label: 'name', aliases: ['name', 'studentname', 'fullname'] },
+  email: { label: 'email', aliases: ['email', 'emailaddress'] },
+  contactNumber: { label: 'contact', aliases: ['contact', 'contactnumber', 'phone', 'mobile', 'mobilenumber'] },
+  planName: { label: 'plan', aliases: ['plan', 'planname'] },
+  joinDate: { label: 'join date', aliases: ['joindate', 'joiningdate', 'startdate'] },
+  paid: { label: 'paid', aliases: ['paid', 'amountpaid'] },
+  method: { label: 'method', aliases: ['method', 'paymentmethod', 'paymentmode', 'mode'] },
+  reference: { label: 'reference', aliases: ['reference', 'referenceno', 'referencenumber', 'utr'] },
+} as const
+
+type StudentImportField = keyof typeof STUDENT_IMPORT_COLUMNS
+
+const REQUIRED_FIELDS: StudentImportField[] = ['name', 'email', 'contactNumber', 'planName', 'joinDate']
+
+// Rows sent to the admin-import-students function per request
+export const STUDENT_IMPORT_BATCH_SIZE = 25
+
+export const MAX_STUDENT_IMPORT_ROWS = 500
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export interface StudentImportRow {
+  line: number // Line in the CSV file (the header is line 1)
+  name: string
+  email: string
+  contactNumber: string
+  planName: string
+  planId: number | null
+  joinDate: string // "YYYY-MM-DD" when valid, otherwise as written
+  paid: number
+  method: string | null // Key of the payment method paid was taken with
+  reference: string | null
+  errors: string[]
+}
+
+export interface StudentImportPreview {
+  rows: StudentImportRow[]
+  validCount: number
+  errorCount: number
+}
+
+export interface StudentImportResult {
+  line: number
+  name: string
+  email: string
+  success: boolean
+  studentId?: number
+  rollNumber?: string
+  pin?: string
+  password?: string
+  error?: string
+}
+
+/**
+ * Map each known field to its column index from the header row
+ */
+function mapImportColumns(header: string[]): Partial<Record<StudentImportField, number>> {
+  const normalized = header.map(normalizeCsvHeader)
+  const columns: Partial<Record<StudentImportField, number>> = {}
+
+  ;(Object.keys(STUDENT_IMPORT_COLUMNS) as StudentImportField[]).forEach((field) => {
+    const index = normalized.findIndex((name) => (STUDENT_IMPORT_COLUMNS[field].aliases as readonly string[]).includes(name))
+    if (index >= 0) columns[field] = index
+  })
+
+  return columns
+}
+
+/**
+ * Read and validate an import CSV without creating anything
+ * `registeredEmails` are emails that already belong to a student. An
+ * amount paid needs the method it was taken with, by name or key.
+ */
+export function parseStudentImport(
+  text: string,
+  plans: Pick<Plan, 'id' | 'name'>[],
+  registeredEmails: Set<string> = new Set(),
+  methods: PaymentMethod[] = getCachedPaymentMethods()
+): { preview: StudentImportPreview; error: null } | { preview: null; error: Error } {
+  const [header, ...records] = parseCsv(text)
+
+  if (!header) {
+    return { preview: null, error: new Error('The file is empty') }
+  }
+
+  const columns = mapImportColumns(header)
+  const missing = REQUIRED_FIELDS.filter((field) => columns[field] === undefined)
+  if (missing.length > 0) {
+    return {
+      preview: null,
+      error: new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.map((field) => STUDENT_IMPORT_COLUMNS[field].label).join(', ')}`),
+    }
+  }
+
+  if (records.length === 0) {
+    return { preview: null, error: new Error('The file has no student rows') }
+  }
+
+  if (records.length > MAX_STUDENT_IMPORT_ROWS) {
+    return { preview: null, error: new Error(`At most ${MAX_STUDENT_IMPORT_ROWS} students can be imported at once`) }
+  }
+
+  const planByName = new Map(plans.map((plan) => [plan.name.trim().toLowerCase(), plan.id]))
+  const methodByName = new Map<string, string>()
+  methods.forEach((method) => {
+    methodByName.set(method.key.toLowerCase(), method.key)
+    methodByName.set(method.name.trim().toLowerCase(), method.key)
+  })
+  const seenEmails = new Map<string, number>()
+
+  const rows = records.map((record, index) => {
+    const value = (field: StudentImportField) => {
+      const column = columns[field]
+      return column === undefined ? '' : (record[column] ?? '').trim()
+    }
+
+    const line = index + 2
+    const errors: string[] = []
+    const email = value('email').toLowerCase()
+    const planName = value('planName')
+    const rawJoinDate = value('joinDate')
+    const rawPaid = value('paid').replace(/[₹,\s]/g, '')
+
+    if (!value('name')) errors.push('Name is required')
+
+    if (!email) {
+      errors.push('Email is required')
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push('Invalid email')
+    } else if (registeredEmails.has(email)) {
+      errors.push('Email already registered')
+    } else if (seenEmails.has(email)) {
+      errors.push(`Duplicate of line ${seenEmails.get(email)}`)
+    } else {
+      seenEmails.set(email, line)
+    }
+
+    if (!value('contactNumber')) errors.push('Contact number is required')
+
+    const planId = planByName.get(planName.toLowerCase()) ?? null
+    if (!planName) {
+      errors.push('Plan is required')
+    } else if (planId === null) {
+      errors.push(`Unknown plan "${planName}"`)
+    }
+
+    const joinDate = rawJoinDate ? parseImportDate(rawJoinDate) : null
+    if (!rawJoinDate) {
+      errors.push('Join date is required')
+    } else if (!joinDate) {
+      errors.push(`Invalid join date "${rawJoinDate}" (use YYYY-MM-DD or DD/MM/YYYY)`)
+    }
+
+    const paid = rawPaid ? Number(rawPaid) : 0
+    if (!Number.isFinite(paid) || paid < 0) {
+      errors.push(`Invalid paid amount "${value('paid')}"`)
+    }
+
+    const rawMethod = value('method')
+    const method = rawMethod ? methodByName.get(rawMethod.toLowerCase()) ?? rawMethod : null
+    const reference = value('reference') || null
+    if (paid > 0) {
+      const methodError = validatePaymentMethodChoice(method, reference, methods)
+      if (methodError) errors.push(methodError)
+    }
+
+    return {
+      line,
+      name: value('name'),
+      email,
+      contactNumber: value('contactNumber'),
+      planName,
+      planId,
+      joinDate: joinDate ?? rawJoinDate,
+      paid: Number.isFinite(paid) ? paid : 0,
+      method,
+      reference,
+      errors,
+    }
+  })
+
+  const errorCount = rows.filter((row) => row.errors.length > 0).length
+
+  return {
+    preview: { rows, validCount: rows.length - errorCount, errorCount },
+    error: null,
+  }
+}
+
+/**
+ * Emails from the list that already belong to a student
+ */
+export async function getRegisteredEmails(
+  emails: string[]
+): Promise<{ emails: Set<string>; error: null } | { emails: null; error: Error }> {
+  try {
+    const unique = [...new Set(emails.map((email) => email.trim().toLowerCase()).filter(Boolean))]
+    const registered = new Set<string>()
+
+    // Keep each request's filter list short
+    for (let i = 0; i < unique.length; i += 100) {
+      const { data, error } = await supabase
+        .from('Student')
+        .select('email')
+        .in('email', unique.slice(i, i + 100))
+
+      if (error) throw error
+
+      data?.forEach((student) => registered.add(String(student.email).toLowerCase()))
+    }
+
+    return { emails: registered, error: null }
+  } catch (error) {
+    logger.error('Error checking registered emails', error as Error)
+    return {
+      emails: null,
+      error: error instanceof Error ? error : new Error('Failed to check existing students'),
+    }
+  }
+}
+
+/**
+ * Create students for the valid preview rows, in batches
+ * A failed batch marks its rows as failed and the import carries on.
+ */
+export async function importStudents(
+  rows: StudentImportRow[],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ results: StudentImportResult[]; error: null } | { results: null; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { results: null, error: new Error('Not authenticated') }
+    }
+
+    const valid = rows.filter((row) => row.errors.length === 0 && row.planId !== null)
+    const results: StudentImportResult[] = []
+
+    for (let i = 0; i < valid.length; i += STUDENT_IMPORT_BATCH_SIZE) {
+      const batch = valid.slice(i, i + STUDENT_IMPORT_BATCH_SIZE)
+
+      const { data: result, error: functionError } = await supabase.functions.invoke('admin-import-students', {
+        body: {
+          students: batch.map((row) => ({
+            line: row.line,
+            name: row.name,
+            email: row.email,
+            contactNumber: row.contactNumber,
+            planId: row.planId,
+            joinDate: row.joinDate,
+            paid: row.paid,
+            method: row.method,
+            reference: row.reference,
+          })),
+        },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      })
+
+      const batchError = functionError?.message || (!result?.success ? result?.error || 'Failed to import students' : null)
+
+      if (batchError) {
+        logger.error('Error importing student batch', new Error(batchError), { firstLine: batch[0]?.line })
+        batch.forEach((row) => {
+          results.push({ line: row.line, name: row.name, email: row.email, success: false, error: batchError })
+        })
+      } else {
+        results.push(...(result.results as StudentImportResult[]))
+      }
+
+      onProgress?.(Math.min(i + batch.length, valid.length), valid.length)
+    }
+
+    return { results: results.sort((a, b) => a.line - b.line), error: null }
+  } catch (error) {
+    logger.error('Unexpected error importing students', error as Error)
+    return {
+      results: null,
+      error: error instanceof Error ? error : new Error('Failed to import students'),
+    }
+  }
+}
+
+/**
+ * Results file for the admin to hand out credentials from
+ * Rows skipped in the preview are listed with their validation errors.
+ */
+export function buildStudentImportResults(
+  results: StudentImportResult[],
+  skipped: StudentImportRow[] = []
+): ReportTable {
+  const rows = [
+    ...results.map((result) => ({
+      line: result.line,
+      cells: [
+        result.line,
+        result.name,
+        result.email,
+        result.success ? 'Created' : 'Failed',
+        result.rollNumber ?? null,
+        result.password ?? null,
+        result.pin ?? null,
+        result.error ?? null,
+      ],
+    })),
+    ...skipped.map((row) => ({
+      line: row.line,
+      cells: [row.line, row.name, row.email, 'Skipped', null, null, null, row.errors.join('; ')],
+    })),
+  ].sort((a, b) => a.line - b.line)
+
+  const created = results.filter((result) => result.success).length
+
+  return {
+    title: 'Student Import Results',
+    filename: `student-import-${format(new Date(), 'yyyy-MM-dd-HHmm')}`,
+    filters: ['Contains temporary passwords - share securely and delete after use'],
+    columns: [
+      { header: 'Line', type: 'number' },
+      { header: 'Name' },
+      { header: 'Email' },
+      { header: 'Status' },
+      { header: 'Roll Number' },
+      { header: 'Temporary Password' },
+      { header: 'PIN' },
+      { header: 'Error' },
+    ],
+    rows: rows.map((row) => row.cells),
+    summary: [
+      { label: 'Created', value: String(created) },
+      { label: 'Failed', value: String(results.length - created) },
+      { label: 'Skipped', value: String(skipped.length) },
+    ],
+  }
+}
@@ -1,7 +1,7 @@
 import { supabase } from './supabase'
-import * as FileSystem from 'expo-file-system'
-import * as Sharing from 'expo-sharing'
 import { logger } from './logger'
+import { correctCurrentPeriodPaid, updateCurrentPeriod, type CurrentPeriodChanges } from './subscriptions'
+import type { InstallmentInput } from './installments'
 
 export interface Student {
   id: number
@@ -24,6 +24,7 @@ export interface Student {
   paid: number
   balance: number
   credit: number
+  guestCharges: number // Guest meals charged on top of the plan price
   pin: string
   isActive: boolean
   createdAt?: string
@@ -39,6 +40,8 @@ export interface CreateStudentData {
   joinDate: string
   endDate?: string
   paid?: number
+  method?: string // How paid was taken; required when paid is above zero
+  reference?: string | null
 }
 
 export interface UpdateStudentData {
@@ -55,12 +58,18 @@ export interface ExtendPlanData {
   days: number
   startDate: string // YYYY-MM-DD format
   paid?: number
+  method?: string // How paid was taken; required when paid is above zero
+  reference?: string | null
 }
 
 export interface RenewPlanData {
   planId: number
   paid?: number
+  method?: string // How paid was taken; required when paid is above zero
+  reference?: string | null
   extendFromCurrent?: boolean
+  applyCredit?: boolean // Put the student's credit towards the new term (default true)
+  installments?: InstallmentInput[] // Pay the new term in parts; amounts add up to the plan price
 }
 
 export interface StudentStats {
@@ -85,7 +94,7 @@ export async function getStudents(params: {
 
     let query = supabase
       .from('Student')
-      .select('id, name, rollNumber, email, contactNumber, planId, joinDate, endDate, price, paid, balance, credit, pin, isActive, createdAt, updatedAt, plan:Plan(id, name, meals, price, durationDays)', { count: 'exact' })
+      .select('id, name, rollNumber, email, contactNumber, planId, joinDate, endDate, price, paid, balance, credit, guestCharges, pin, isActive, createdAt, updatedAt, plan:Plan(id, name, meals, price, durationDays)', { count: 'exact' })
 
     // Apply filters
     if (search && search.trim().length >= 2) {
@@ -131,6 +140,7 @@ export async function getStudents(params: {
       paid: typeof student.paid === 'string' ? parseFloat(student.paid) : student.paid,
       balance: typeof student.balance === 'string' ? parseFloat(student.balance) : student.balance,
       credit: typeof student.credit === 'string' ? parseFloat(student.credit) : student.credit,
+      guestCharges: Number(student.guestCharges || 0),
       pin: student.pin,
       isActive: student.isActive,
       createdAt: student.createdAt,
@@ -220,7 +230,7 @@ export async function getStudentByEmail(email: string): Promise<{ student: Stude
     // We'll take the first result (most recent based on createdAt)
     const { data, error } = await supabase
       .from('Student')
-      .select('id, name, rollNumber, email, contactNumber, planId, joinDate, endDate, price, paid, balance, credit, pin, isActive, createdAt, updatedAt, plan:Plan(id, name, meals, price, durationDays)')
+      .select('id, name, rollNumber, email, contactNumber, planId, joinDate, endDate, price, paid, balance, credit, guestCharges, pin, isActive, createdAt, updatedAt, plan:Plan(id, name, meals, price, durationDays)')
       .eq('email', normalizedEmail)
       .order('createdAt', { ascending: false }) // Get most recent first
       .limit(1)
@@ -272,6 +282,7 @@ export async function getStudentByEmail(email: string): Promise<{ student: Stude
       paid: typeof studentData.paid === 'string' ? parseFloat(studentData.paid) : studentData.paid,
       balance: typeof studentData.balance === 'string' ? parseFloat(studentData.balance) : studentData.balance,
       credit: typeof studentData.credit === 'string' ? parseFloat(studentData.credit) : studentData.credit,
+      guestCharges: Number(studentData.guestCharges || 0),
       pin: studentData.pin,
       isActive: studentData.isActive,
       createdAt: studentData.createdAt,
@@ -298,7 +309,7 @@ export async function getStudentByUserId(userId: string): Promise<{ student: Stu
     
     const { data, error } = await supabase
       .from('Student')
-      .select('id, name, rollNumber, email, contactNumber, planId, joinDate, endDate, price, paid, balance, credit, pin, isActive, createdAt, updatedAt, user_id, plan:Plan(id, name, meals, price, durationDays)')
+      .select('id, name, rollNumber, email, contactNumber, planId, joinDate, endDate, price, paid, balance, credit, guestCharges, pin, isActive, createdAt, updatedAt, user_id, plan:Plan(id, name, meals, price, durationDays)')
       .eq('user_id', userId)
       .maybeSingle()
 
@@ -340,6 +351,7 @@ export async function getStudentByUserId(userId: string): Promise<{ student: Stu
       paid: typeof data.paid === 'string' ? parseFloat(data.paid) : data.paid,
       balance: typeof data.balance === 'string' ? parseFloat(data.balance) : data.balance,
       credit: typeof data.credit === 'string' ? parseFloat(data.credit) : data.credit,
+      guestCharges: Number(data.guestCharges || 0),
       pin: data.pin,
       isActive: data.isActive,
       createdAt: data.createdAt,
@@ -363,7 +375,7 @@ export async function getStudentById(id: number): Promise<{ student: Student | n
   try {
     const { data, error } = await supabase
       .from('Student')
-      .select('id, name, rollNumber, email, contactNumber, planId, joinDate, endDate, price, paid, balance, credit, pin, isActive, createdAt, updatedAt, plan:Plan(id, name, meals, price, durationDays)')
+      .select('id, name, rollNumber, email, contactNumber, planId, joinDate, endDate, price, paid, balance, credit, guestCharges, pin, isActive, createdAt, updatedAt, plan:Plan(id, name, meals, price, durationDays)')
       .eq('id', id)
       .single()
 
@@ -396,6 +408,7 @@ export async function getStudentById(id: number): Promise<{ student: Student | n
       paid: typeof data.paid === 'string' ? parseFloat(data.paid) : data.paid,
       balance: typeof data.balance === 'string' ? parseFloat(data.balance) : data.balance,
       credit: typeof data.credit === 'string' ? parseFloat(data.credit) : data.credit,
+      guestCharges: Number(data.guestCharges || 0),
       pin: data.pin,
       isActive: data.isActive,
       createdAt: data.createdAt,
@@ -438,6 +451,8 @@ export async function createStudent(data: CreateStudentData): Promise<{ student:
         joinDate: data.joinDate,
         endDate: data.endDate,
         paid: data.paid ?? 0,
+        method: data.method,
+        reference: data.reference ?? null,
       },
       headers: {
         Authorization: `Bearer ${session.access_token}`,
@@ -501,25 +516,14 @@ export async function updateStudent(
     if (data.contactNumber !== undefined) {
       updateData.contactNumber = data.contactNumber.trim()
     }
+    // Dates belong to the current plan period and paid to the ledger; the
+    // student's columns (and balance) are derived from them
+    const periodChanges: CurrentPeriodChanges = {}
     if (data.joinDate !== undefined) {
-      updateData.joinDate = new Date(data.joinDate).toISOString().split('T')[0]
+      periodChanges.startDate = new Date(data.joinDate).toISOString().split('T')[0]
     }
     if (data.endDate !== undefined) {
-      updateData.endDate = new Date(data.endDate).toISOString().split('T')[0]
-    }
-    if (data.paid !== undefined) {
-      // Recalculate balance if paid amount changes
-      const { data: existingStudent } = await supabase
-        .from('Student')
-        .select('price')
-        .eq('id', id)
-        .single()
-
-      if (existingStudent) {
-        const price = typeof existingStudent.price === 'string' ? parseFloat(existingStudent.price) : existingStudent.price
-        updateData.paid = data.paid
-        updateData.balance = price - data.paid
-      }
+      periodChanges.endDate = new Date(data.endDate).toISOString().split('T')[0]
     }
     if (data.pin !== undefined) {
       // Validate PIN is 4 digits
@@ -529,14 +533,30 @@ export async function updateStudent(
       updateData.pin = data.pin
     }
 
-    const { error } = await supabase
-      .from('Student')
-      .update(updateData)
-      .eq('id', id)
+    if (Object.keys(updateData).length > 0) {
+      const { error } = await supabase
+        .from('Student')
+        .update(updateData)
+        .eq('id', id)
 
-    if (error) {
-      logger.error('Error updating student', error as Error)
-      return { student: null, error: new Error(error.message) }
+      if (error) {
+        logger.error('Error updating student', error as Error)
+        return { student: null, error: new Error(error.message) }
+      }
+    }
+
+    if (Object.keys(periodChanges).length > 0) {
+      const periodResult = await updateCurrentPeriod(id, periodChanges)
+      if (periodResult.error) {
+        return { student: null, error: periodResult.error }
+      }
+    }
+
+    if (data.paid !== undefined) {
+      const paidResult = await correctCurrentPeriodPaid(id, data.paid)
+      if (paidResult.error) {
+        return { student: null, error: paidResult.error }
+      }
     }
 
     // Fetch updated student
@@ -594,6 +614,8 @@ export async function extendPlan(
         days: data.days,
         startDate: data.startDate,
         paid: data.paid || 0,
+        method: data.method,
+        reference: data.reference ?? null,
       },
       headers: {
         Authorization: `Bearer ${session.access_token}`,
@@ -640,7 +662,11 @@ export async function renewPlan(
         studentId: id,
         planId: data.planId,
         paid: data.paid || 0,
+        method: data.method,
+        reference: data.reference ?? null,
         extendFromCurrent: data.extendFromCurrent || false,
+        applyCredit: data.applyCredit ?? true,
+        installments: data.installments ?? [],
       },
       headers: {
         Authorization: `Bearer ${session.access_token}`,
@@ -667,108 +693,6 @@ export async function renewPlan(
   }
 }
 
-/**
- * Export student details as CSV
- * @param studentId - Optional student ID to export specific student, or undefined to export all
- * @param search - Optional search term to filter students
- */
-export async function exportStudents(studentId?: number, search?: string): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    const webAppUrl = process.env.EXPO_PUBLIC_WEB_APP_URL
-    if (!webAppUrl) {
-      return { success: false, error: new Error('Web app URL not configured. Please set EXPO_PUBLIC_WEB_APP_URL in environment variables.') }
-    }
-
-    // Get current session for authentication
-    const { data: { session } } = await supabase.auth.getSession()
-    if (!session) {
-      return { success: false, error: new Error('Not authenticated. Please log in again.') }
-    }
-
-    // Build query parameters
-    const params = new URLSearchParams()
-    if (studentId) {
-      params.append('studentId', studentId.toString())
-    }
-    if (search && search.trim().length >= 2) {
-      params.append('search', search.trim())
-    }
-
-    const response = await fetch(`${webAppUrl}/api/students/export?${params}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${session.access_token}`,
-      },
-    })
-
-    if (!response.ok) {
-      if (response.status === 401 || response.status === 403) {
-        return { success: false, error: new Error('Authentication failed. Please log in again.') }
-      }
-      if (response.status >= 500) {
-        return { success: false, error: new Error('Server error. Please try again later.') }
-      }
-      
-      const errorData = await response.json().catch(() => ({ error: 'Failed to export students' }))
-      return { success: false, error: new Error(errorData.error || errorData.message || 'Failed to export students') }
-    }
-
-    // Get CSV data
-    const csvText = await response.text()
-    
-    // Save and share the CSV file
-    // Use documentDirectory as it's more reliable than cacheDirectory
-    const storageDir = FileSystem.documentDirectory || FileSystem.cacheDirectory
-    if (!storageDir) {
-      return { success: false, error: new Error('File system not available. Please check app permissions.') }
-    }
-
-    const filename = studentId 
-      ? `student-${studentId}-${new Date().toISOString().split('T')[0]}.csv`
-      : `students-${new Date().toISOString().split('T')[0]}.csv`
-    const fileUri = `${storageDir}${filename}`
-
-    // Write CSV to file
-    await FileSystem.writeAsStringAsync(fileUri, csvText, {
-      encoding: FileSystem.EncodingType.UTF8,
-    })
-
-    // Share the file
-    const isAvailable = await Sharing.isAvailableAsync()
-    if (isAvailable) {
-      await Sharing.shareAsync(fileUri, {
-        mimeType: 'text/csv',
-        dialogTitle: 'Export Student Details',
-        UTI: 'public.comma-separated-values-text',
-      })
-    } else {
-      return { success: false, error: new Error('Sharing is not available on this device') }
-    }
-
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Error exporting students', error as Error)
-    
-    if (error instanceof TypeError) {
-      if (error.message.includes('fetch') || error.message.includes('Network')) {
-        return { success: false, error: new Error('Network error. Please check your internet connection.') }
-      }
-      if (error.message.includes('Failed to fetch')) {
-        return { success: false, error: new Error('Cannot connect to server. The web app may be down or the URL is incorrect.') }
-      }
-    }
-    
-    const errorMessage = error instanceof Error 
-      ? error.message 
-      : 'Failed to export student details. Please try again later.'
-    
-    return {
-      success: false,
-      error: new Error(errorMessage),
-    }
-  }
-}
-
 /**
  * Send credentials email via web app API
  * @param studentId - The student ID
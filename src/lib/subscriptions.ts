@@ -0,0 +1,183 @@
+import { format } from 'date-fns'
+import { supabase } from './supabase'
+import { logger } from './logger'
+
+// How a term started: the student joining, or a renewal onto a plan.
+// Extensions amend the current term rather than starting a new one.
+export type SubscriptionPeriodKind = 'join' | 'renewal'
+
+export const SUBSCRIPTION_PERIOD_KIND_LABELS: Record<SubscriptionPeriodKind, string> = {
+  join: 'Joined',
+  renewal: 'Renewed',
+}
+
+// One term of a student's subscription. The plan columns on "Student"
+// (planId, joinDate, endDate, price, paid) mirror the latest term and
+// paid is what the ledger credits to the term (see src/lib/ledger.ts).
+export interface SubscriptionPeriod {
+  id: number
+  studentId: number
+  planId: number
+  kind: SubscriptionPeriodKind
+  startDate: string
+  endDate: string
+  price: number
+  paid: number
+  extendedDays: number
+  invoiceNumber: string | null
+  createdByEmail: string | null
+  createdAt: string
+  plan: {
+    id: number
+    name: string
+  } | null
+}
+
+export interface CurrentPeriodChanges {
+  startDate?: string
+  endDate?: string
+}
+
+/**
+ * Amount still owed on a term (never below zero)
+ */
+export function getPeriodDue(period: Pick<SubscriptionPeriod, 'price' | 'paid'>): number {
+  return Math.max(Math.round((period.price - period.paid) * 100) / 100, 0)
+}
+
+/**
+ * Get a student's terms, newest first
+ */
+export async function getSubscriptionPeriods(
+  studentId: number
+): Promise<{ periods: SubscriptionPeriod[]; error: null } | { periods: null; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('SubscriptionPeriod')
+      .select('id, studentId, planId, kind, startDate, endDate, price, paid, extendedDays, invoiceNumber, createdByEmail, createdAt, plan:Plan(id, name)')
+      .eq('studentId', studentId)
+      .order('startDate', { ascending: false })
+      .order('id', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching subscription periods', error as Error, { studentId })
+      return { periods: null, error: new Error(error.message) }
+    }
+
+    return {
+      periods: (data || []).map((row: any) => ({
+        ...row,
+        startDate: String(row.startDate).slice(0, 10),
+        endDate: String(row.endDate).slice(0, 10),
+        price: Number(row.price || 0),
+        paid: Number(row.paid || 0),
+        extendedDays: Number(row.extendedDays || 0),
+      })) as SubscriptionPeriod[],
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Unexpected error fetching subscription periods', error as Error, { studentId })
+    return {
+      periods: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch plan history'),
+    }
+  }
+}
+
+/**
+ * Correct the dates of a student's current term
+ * The student's own columns follow automatically.
+ */
+export async function updateCurrentPeriod(
+  studentId: number,
+  changes: CurrentPeriodChanges
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data: period, error: fetchError } = await supabase
+      .from('SubscriptionPeriod')
+      .select('id')
+      .eq('studentId', studentId)
+      .order('startDate', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (fetchError) throw fetchError
+    if (!period) {
+      return { success: false, error: new Error('Student has no plan period') }
+    }
+
+    const { error: updateError } = await supabase
+      .from('SubscriptionPeriod')
+      .update({ ...changes, updatedAt: new Date().toISOString() })
+      .eq('id', period.id)
+
+    if (updateError) throw updateError
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error updating current subscription period', error as Error, { studentId })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to update plan period'),
+    }
+  }
+}
+
+/**
+ * Set what's been paid on the current term by posting the difference to the
+ * ledger as a correction, so the change shows on the statement
+ */
+export async function correctCurrentPeriodPaid(
+  studentId: number,
+  paid: number
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data: period, error: fetchError } = await supabase
+      .from('SubscriptionPeriod')
+      .select('id, paid')
+      .eq('studentId', studentId)
+      .order('startDate', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (fetchError) throw fetchError
+    if (!period) {
+      return { success: false, error: new Error('Student has no plan period') }
+    }
+
+    const target = Math.round(paid * 100) / 100
+    const difference = Math.round((target - Number(period.paid || 0)) * 100) / 100
+    if (difference === 0) {
+      return { success: true, error: null }
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return { success: false, error: new Error('Not authenticated') }
+    }
+
+    const { error: insertError } = await supabase.from('LedgerEntry').insert({
+      studentId,
+      periodId: period.id,
+      entryDate: format(new Date(), 'yyyy-MM-dd'),
+      kind: 'correction',
+      description: `Paid this term corrected to ₹${target.toFixed(2)}`,
+      debit: difference < 0 ? -difference : 0,
+      credit: difference > 0 ? difference : 0,
+      createdBy: user.id,
+      createdByEmail: user.email ?? null,
+    })
+
+    if (insertError) throw insertError
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error correcting paid amount', error as Error, { studentId })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to update paid amount'),
+    }
+  }
+}
@@ -0,0 +1,320 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { readFileAsArrayBuffer, validateImageFile } from './announcements'
+
+// Students pay the mess VPA from their UPI app and submit the UTR for an
+// admin to verify (see 018_upi_payment_requests.sql). Confirming a request
+// records the payment through createPayment() with the reference on it.
+export type UpiRequestStatus = 'pending' | 'confirmed' | 'rejected' | 'cancelled'
+
+export interface UpiPaymentRequest {
+  id: number
+  studentId: number
+  amount: number
+  reference: string
+  screenshotPath: string | null
+  status: UpiRequestStatus
+  paymentId: number | null
+  reviewedAt: string | null
+  reviewNote: string | null
+  createdAt: string
+  student?: {
+    id: number
+    name: string
+    rollNumber: string | null
+    balance: number
+  }
+}
+
+export const UPI_STATUS_LABELS: Record<UpiRequestStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+}
+
+export const UPI_STATUS_COLORS: Record<UpiRequestStatus, { color: string; background: string }> = {
+  pending: { color: '#B45309', background: '#FEF3C7' },
+  confirmed: { color: '#047857', background: '#D1FAE5' },
+  rejected: { color: '#B91C1C', background: '#FEE2E2' },
+  cancelled: { color: '#4B5563', background: '#F3F4F6' },
+}
+
+const SCREENSHOT_BUCKET = 'payment-screenshots'
+
+/**
+ * A UTR / transaction id as it is stored: no spaces, upper case
+ */
+export function normalizeUpiReference(reference: string): string {
+  return reference.replace(/\s+/g, '').toUpperCase()
+}
+
+/**
+ * Reason a UTR / transaction id can't be submitted, or null when it can
+ * Same rule as the submit-upi-payment Edge Function.
+ */
+export function validateUpiReference(reference: string): string | null {
+  const normalized = normalizeUpiReference(reference)
+  if (!normalized) {
+    return 'Enter the UTR / transaction ID shown in your UPI app'
+  }
+  if (!/^[A-Z0-9]{6,35}$/.test(normalized)) {
+    return 'The reference should be 6 to 35 letters or digits'
+  }
+  return null
+}
+
+/**
+ * upi://pay link for the amount, opened by any UPI app or scanned as a QR
+ */
+export function buildUpiLink(params: {
+  vpa: string
+  payeeName: string
+  amount: number
+  note?: string
+}): string {
+  const query = [
+    ['pa', params.vpa.trim()],
+    ['pn', params.payeeName.trim()],
+    ['am', (Math.round(params.amount * 100) / 100).toFixed(2)],
+    ['cu', 'INR'],
+    ...(params.note ? [['tn', params.note.trim().slice(0, 50)]] : []),
+  ]
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&')
+
+  return `upi://pay?${query}`
+}
+
+function normalizeUpiRequest(row: any): UpiPaymentRequest {
+  return {
+    id: row.id,
+    studentId: row.studentId,
+    amount: Number(row.amount || 0),
+    reference: row.reference,
+    screenshotPath: row.screenshotPath ?? null,
+    status: row.status,
+    paymentId: row.paymentId ?? null,
+    reviewedAt: row.reviewedAt ?? null,
+    reviewNote: row.reviewNote ?? null,
+    createdAt: row.createdAt,
+    student: row.student
+      ? { ...row.student, balance: Number(row.student.balance || 0) }
+      : undefined,
+  }
+}
+
+/**
+ * Get UPI payment requests, oldest first so the queue is worked in order
+ * Students only see their own (enforced by RLS)
+ */
+export async function getUpiPaymentRequests(
+  params: { status?: UpiRequestStatus; studentId?: number } = {}
+): Promise<{ requests: UpiPaymentRequest[]; error: null } | { requests: null; error: Error }> {
+  try {
+    let query = supabase
+      .from('UpiPaymentRequest')
+      .select(`
+        id, studentId, amount, reference, screenshotPath, status, paymentId, reviewedAt, reviewNote, createdAt,
+        student:Student(id, name, rollNumber, balance)
+      `)
+      .order('createdAt', { ascending: params.status === 'pending' })
+
+    if (params.status) {
+      query = query.eq('status', params.status)
+    }
+
+    if (params.studentId) {
+      query = query.eq('studentId', params.studentId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Error fetching UPI payment requests', error as Error, params)
+      return { requests: null, error: new Error(error.message) }
+    }
+
+    return { requests: (data || []).map(normalizeUpiRequest), error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching UPI payment requests', error as Error, params)
+    return {
+      requests: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch UPI payments'),
+    }
+  }
+}
+
+/**
+ * Submit a UPI payment for the signed-in student to be verified
+ * The screenshot, if any, is uploaded to the student's own folder first.
+ */
+export async function submitUpiPayment(data: {
+  amount: number
+  reference: string
+  screenshotUri?: string | null
+}): Promise<{ request: UpiPaymentRequest; error: null } | { request: null; error: Error }> {
+  try {
+    const referenceError = validateUpiReference(data.reference)
+    if (referenceError) {
+      return { request: null, error: new Error(referenceError) }
+    }
+
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { request: null, error: new Error('Not authenticated') }
+    }
+
+    let screenshotPath: string | null = null
+    if (data.screenshotUri) {
+      const validation = await validateImageFile(data.screenshotUri)
+      if ('error' in validation) {
+        return { request: null, error: validation.error }
+      }
+
+      const extension = data.screenshotUri.split('.').pop()?.toLowerCase() || 'jpg'
+      const filePath = `${session.user.id}/${Date.now()}.${extension}`
+      const { error: uploadError } = await supabase.storage
+        .from(SCREENSHOT_BUCKET)
+        .upload(filePath, await readFileAsArrayBuffer(data.screenshotUri), {
+          contentType: `image/${extension === 'jpg' ? 'jpeg' : extension}`,
+        })
+
+      if (uploadError) {
+        return { request: null, error: new Error(`Failed to upload screenshot: ${uploadError.message}`) }
+      }
+      screenshotPath = filePath
+    }
+
+    const { data: result, error: functionError } = await supabase.functions.invoke('submit-upi-payment', {
+      body: {
+        amount: Math.round(data.amount * 100) / 100,
+        reference: normalizeUpiReference(data.reference),
+        screenshotPath,
+      },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+    })
+
+    if (functionError) {
+      return { request: null, error: new Error(functionError.message || 'Failed to submit payment') }
+    }
+
+    if (result?.error || !result?.paymentRequest) {
+      return { request: null, error: new Error(result?.error || 'Failed to submit payment') }
+    }
+
+    return { request: normalizeUpiRequest(result.paymentRequest), error: null }
+  } catch (error) {
+    logger.error('Error submitting UPI payment', error as Error)
+    return {
+      request: null,
+      error: error instanceof Error ? error : new Error('Failed to submit payment'),
+    }
+  }
+}
+
+/**
+ * Withdraw a UPI payment that hasn't been reviewed yet
+ */
+export async function cancelUpiPaymentRequest(
+  id: number
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('UpiPaymentRequest')
+      .update({
+        status: 'cancelled',
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (error) {
+      logger.error('Error cancelling UPI payment request', error as Error, { id })
+      return { success: false, error: new Error(error.message) }
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: new Error('This payment has already been reviewed') }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error cancelling UPI payment request', error as Error, { id })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to cancel payment'),
+    }
+  }
+}
+
+/**
+ * Reject a UPI payment that couldn't be found in the bank statement (admin only)
+ */
+export async function rejectUpiPaymentRequest(
+  id: number,
+  note: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { success: false, error: new Error('Not authenticated') }
+    }
+
+    const { data, error } = await supabase
+      .from('UpiPaymentRequest')
+      .update({
+        status: 'rejected',
+        reviewNote: note.trim() || null,
+        reviewedBy: session.user.id,
+        reviewedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (error) {
+      logger.error('Error rejecting UPI payment request', error as Error, { id })
+      return { success: false, error: new Error(error.message) }
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: new Error('This payment has already been reviewed') }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error rejecting UPI payment request', error as Error, { id })
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to reject payment'),
+    }
+  }
+}
+
+/**
+ * Short-lived link to a payment screenshot
+ */
+export async function getUpiScreenshotUrl(
+  path: string
+): Promise<{ url: string; error: null } | { url: null; error: Error }> {
+  try {
+    const { data, error } = await supabase.storage.from(SCREENSHOT_BUCKET).createSignedUrl(path, 10 * 60)
+
+    if (error || !data?.signedUrl) {
+      return { url: null, error: new Error(error?.message || 'Screenshot not found') }
+    }
+
+    return { url: data.signedUrl, error: null }
+  } catch (error) {
+    logger.error('Error loading payment screenshot', error as Error, { path })
+    return {
+      url: null,
+      error: error instanceof Error ? error : new Error('Failed to load screenshot'),
+    }
+  }
+}
@@ -0,0 +1,135 @@
+// Meal/plan rules shared by every way a student can be marked present
+// (QR scan, PIN pad). Messages match what the app has always shown.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  getCurrentMeal,
+  getMealName,
+  getMessLocalTime,
+  loadMealSchedule,
+  parsePlanMeals,
+  type MealKey,
+} from './meal-schedule.ts'
+
+// Same shape as MarkAttendanceResult in src/lib/qr-attendance.ts
+export interface MarkAttendanceResult {
+  success: boolean
+  message: string
+  meal?: MealKey
+  alreadyMarked?: boolean
+  rejectionReason?: 'invalid' | 'expired' | 'replayed'
+  studentName?: string
+}
+
+export interface AttendanceStudent {
+  id: number
+  name: string
+  joinDate: string
+  endDate: string
+  isActive: boolean
+  plan: { meals?: string } | null
+}
+
+// Who marked a meal and how; stored in "Attendance"."mealMarks"
+export interface AttendanceMarker {
+  source: 'qr' | 'pin'
+  userId: string
+  email?: string
+}
+
+export const ATTENDANCE_STUDENT_SELECT = 'id, name, joinDate, endDate, isActive, plan:Plan(meals)'
+
+/**
+ * Mark the meal being served at `at` for a student, enforcing the meal
+ * schedule, plan meals and plan dates. `live` is false for scans that were
+ * queued offline and are being judged after the fact.
+ */
+export async function markStudentAttendance(
+  supabase: SupabaseClient,
+  student: AttendanceStudent,
+  at: Date,
+  live: boolean,
+  marker: AttendanceMarker
+): Promise<MarkAttendanceResult> {
+  const local = getMessLocalTime(at)
+  const schedule = await loadMealSchedule(supabase)
+  const currentMeal = getCurrentMeal(schedule, local)
+  if (!currentMeal) {
+    return {
+      success: false,
+      message: live
+        ? 'No active meal time at the moment.\n\nPlease scan during meal hours to mark your attendance.'
+        : 'This scan was not made during meal hours.',
+    }
+  }
+
+  // Check if student plan includes this meal
+  const mealName = getMealName(schedule, currentMeal)
+  if (!parsePlanMeals(schedule, student.plan?.meals).includes(currentMeal)) {
+    return {
+      success: false,
+      message: `Your meal plan does not include ${mealName.toLowerCase()}.\n\nPlease contact administrator to update your plan.`,
+    }
+  }
+
+  if (!student.isActive) {
+    return {
+      success: false,
+      message: 'Your account is inactive. Please contact administrator.',
+    }
+  }
+
+  // Check if plan is active (compare mess-local calendar dates)
+  const endDate = String(student.endDate).slice(0, 10)
+  if (endDate < local.date) {
+    return {
+      success: false,
+      message: 'Your meal plan has expired. Please renew to continue.',
+    }
+  }
+
+  // Check if plan has started
+  const joinDate = String(student.joinDate).slice(0, 10)
+  if (joinDate > local.date) {
+    return {
+      success: false,
+      message: 'Your meal plan has not started yet.',
+    }
+  }
+
+  // Atomic upsert on (studentId, date) - concurrent marks can't clobber other meals
+  const { data: alreadyMarked, error: markError } = await supabase.rpc('mark_meal_attendance', {
+    p_student_id: student.id,
+    p_date: local.date,
+    p_meal: currentMeal,
+    p_scanned_at: at.toISOString(),
+    p_source: marker.source,
+    p_marked_by: marker.userId,
+    p_marked_by_email: marker.email ?? null,
+  })
+
+  if (markError) {
+    console.error('Error marking attendance:', markError)
+    return {
+      success: false,
+      message: 'Unable to mark attendance. Please try again.',
+    }
+  }
+
+  if (alreadyMarked) {
+    return {
+      success: true,
+      message: `✓ ${mealName} attendance already marked for ${live ? 'today' : local.date}!`,
+      meal: currentMeal,
+      alreadyMarked: true,
+      studentName: student.name,
+    }
+  }
+
+  return {
+    success: true,
+    message: 'Attendance marked successfully!',
+    meal: currentMeal,
+    studentName: student.name,
+  }
+}
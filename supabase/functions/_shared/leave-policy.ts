@@ -0,0 +1,105 @@
+// Server-side copy of the leave rules in src/lib/leave.ts.
+// The policy lives in AppSetting under 'leave_policy'.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface LeavePolicy {
+  minNoticeDays: number
+  minRebateDays: number
+  rebatePercent: number
+  maxLeaveDays: number
+}
+
+const DEFAULT_LEAVE_POLICY: LeavePolicy = {
+  minNoticeDays: 1,
+  minRebateDays: 3,
+  rebatePercent: 100,
+  maxLeaveDays: 30,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toUTC = (date: string) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+export function normalizeLeavePolicy(raw: unknown): LeavePolicy {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<LeavePolicy>
+
+  const whole = (number: unknown, fallback: number, max = Infinity) =>
+    typeof number === 'number' && Number.isFinite(number) && number >= 0
+      ? Math.min(Math.round(number), max)
+      : fallback
+
+  return {
+    minNoticeDays: whole(value.minNoticeDays, DEFAULT_LEAVE_POLICY.minNoticeDays),
+    minRebateDays: whole(value.minRebateDays, DEFAULT_LEAVE_POLICY.minRebateDays),
+    rebatePercent: whole(value.rebatePercent, DEFAULT_LEAVE_POLICY.rebatePercent, 100),
+    maxLeaveDays: whole(value.maxLeaveDays, DEFAULT_LEAVE_POLICY.maxLeaveDays) || DEFAULT_LEAVE_POLICY.maxLeaveDays,
+  }
+}
+
+export async function loadLeavePolicy(supabase: SupabaseClient): Promise<LeavePolicy> {
+  const { data, error } = await supabase
+    .from('AppSetting')
+    .select('value')
+    .eq('key', 'leave_policy')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading leave policy, using defaults:', error)
+  }
+
+  return normalizeLeavePolicy(data?.value)
+}
+
+/**
+ * Whole days from `from` to `to` ("YYYY-MM-DD"), negative when `to` is earlier
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUTC(to) - toUTC(from)) / DAY_MS)
+}
+
+/**
+ * Reason a leave request can't be submitted, or null when it can
+ */
+export function validateLeaveDates(
+  policy: LeavePolicy,
+  startDate: string,
+  endDate: string,
+  today: string
+): string | null {
+  if (daysBetween(startDate, endDate) < 0) {
+    return 'End date must be on or after the start date'
+  }
+
+  if (daysBetween(today, startDate) < policy.minNoticeDays) {
+    return policy.minNoticeDays === 1
+      ? 'Leave must be requested at least a day in advance'
+      : `Leave must be requested at least ${policy.minNoticeDays} days in advance`
+  }
+
+  if (daysBetween(startDate, endDate) + 1 > policy.maxLeaveDays) {
+    return `Leave can be at most ${policy.maxLeaveDays} days at a time`
+  }
+
+  return null
+}
+
+/**
+ * Days the plan is extended by for approved leave. Only leave days that
+ * fall inside the plan count, and short leave earns nothing.
+ */
+export function calculateRebateDays(
+  policy: LeavePolicy,
+  leave: { startDate: string; endDate: string },
+  plan: { joinDate: string; endDate: string }
+): number {
+  const start = daysBetween(plan.joinDate, leave.startDate) > 0 ? leave.startDate : plan.joinDate
+  const end = daysBetween(leave.endDate, plan.endDate) > 0 ? leave.endDate : plan.endDate
+  const leaveDays = daysBetween(start.slice(0, 10), end.slice(0, 10)) + 1
+
+  if (leaveDays < Math.max(policy.minRebateDays, 1)) return 0
+  return Math.floor((leaveDays * policy.rebatePercent) / 100)
+}
@@ -0,0 +1,44 @@
+// Amounts paid when a student joins, renews or extends are recorded as
+// payments (see record_payment in 014_student_ledger.sql), so they get a
+// receipt, show in the payment register and can be refunded like any other.
+// The payment's ledger entry, its term's paid and the balance follow from
+// the triggers on "Payment".
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface PeriodPayment {
+  studentId: number
+  periodId: number
+  amount: number
+  paymentDate: string // YYYY-MM-DD
+  method?: string | null // Key of the method the admin chose; required for an amount above zero
+  reference?: string | null
+}
+
+/**
+ * Record a payment against a term. Returns the payment id, or null for a
+ * zero amount; throws on failure.
+ */
+export async function recordPeriodPayment(supabase: SupabaseClient, payment: PeriodPayment): Promise<number | null> {
+  const amount = Math.round((payment.amount || 0) * 100) / 100
+  if (amount <= 0) return null
+
+  if (!payment.method) {
+    throw new Error('A payment method is required')
+  }
+
+  const { data, error } = await supabase.rpc('record_payment', {
+    p_student_id: payment.studentId,
+    p_amount: amount,
+    p_payment_date: payment.paymentDate,
+    p_method: payment.method,
+    p_reference: payment.reference ?? null,
+    p_period_id: payment.periodId,
+  })
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Failed to record payment')
+  }
+
+  return data
+}
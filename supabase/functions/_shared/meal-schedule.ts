@@ -0,0 +1,206 @@
+// Server-side copy of the meal schedule rules in src/lib/meal-schedule.ts.
+// The schedule lives in AppSetting under 'meal_schedule'; times are local to
+// the mess (MESS_TIMEZONE, default Asia/Kolkata), never the caller's clock.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Meal types are configured by the admin (see src/lib/meal-schedule.ts)
+export type MealKey = string
+
+export interface MealType {
+  key: MealKey
+  name: string
+  icon: string
+}
+
+export interface MealWindow {
+  enabled: boolean
+  start: string // "HH:mm"
+  end: string // "HH:mm"
+}
+
+export type DaySchedule = Record<MealKey, MealWindow>
+
+export interface MealSchedule {
+  graceBeforeMinutes: number
+  graceAfterMinutes: number
+  rsvpCutoffMinutes: number // RSVPs close this long before a meal starts
+  mealTypes: MealType[] // in display order
+  days: DaySchedule[] // indexed like Date.getDay() (0 = Sunday)
+}
+
+export interface MessLocalTime {
+  date: string // "YYYY-MM-DD"
+  weekday: number // 0 = Sunday
+  minutes: number // minutes since midnight
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+const MEAL_KEY_PATTERN = /^[a-z][a-z0-9_]*$/
+
+const DEFAULT_MEAL_TYPES: MealType[] = [
+  { key: 'breakfast', name: 'Breakfast', icon: 'weather-sunset-up' },
+  { key: 'lunch', name: 'Lunch', icon: 'weather-sunny' },
+  { key: 'dinner', name: 'Dinner', icon: 'weather-night' },
+]
+
+const DEFAULT_WINDOWS: Record<MealKey, MealWindow> = {
+  breakfast: { enabled: true, start: '07:30', end: '10:30' },
+  lunch: { enabled: true, start: '12:30', end: '15:30' },
+  dinner: { enabled: true, start: '19:30', end: '22:30' },
+}
+
+const NEW_MEAL_WINDOW: MealWindow = { enabled: false, start: '16:30', end: '17:30' }
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export function normalizeMealSchedule(raw: unknown): MealSchedule {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<MealSchedule>
+
+  const grace = (minutes: unknown, fallback = 30) =>
+    typeof minutes === 'number' && Number.isFinite(minutes) && minutes >= 0 ? Math.round(minutes) : fallback
+
+  const storedTypes = Array.isArray(value.mealTypes)
+    ? value.mealTypes.filter(
+        (type) => !!type && typeof type.key === 'string' && MEAL_KEY_PATTERN.test(type.key) && typeof type.name === 'string'
+      )
+    : []
+  const mealTypes = (storedTypes.length > 0 ? storedTypes : DEFAULT_MEAL_TYPES).map((type) => ({
+    key: type.key,
+    name: type.name.trim() || type.key,
+    icon: type.icon || 'silverware-fork-knife',
+  }))
+
+  const days = Array.from({ length: 7 }, (_, index) => {
+    const storedDay = (Array.isArray(value.days) ? value.days[index] : undefined) as Partial<DaySchedule> | undefined
+    const day = {} as DaySchedule
+
+    mealTypes.forEach(({ key: meal }) => {
+      const fallback = DEFAULT_WINDOWS[meal] ?? NEW_MEAL_WINDOW
+      const stored = storedDay?.[meal]
+      day[meal] = {
+        enabled: stored ? stored.enabled !== false : fallback.enabled,
+        start: stored && TIME_PATTERN.test(stored.start) ? stored.start : fallback.start,
+        end: stored && TIME_PATTERN.test(stored.end) ? stored.end : fallback.end,
+      }
+    })
+
+    return day
+  })
+
+  return {
+    graceBeforeMinutes: grace(value.graceBeforeMinutes),
+    graceAfterMinutes: grace(value.graceAfterMinutes),
+    rsvpCutoffMinutes: grace(value.rsvpCutoffMinutes, 120),
+    mealTypes,
+    days,
+  }
+}
+
+export function getMealName(schedule: MealSchedule, meal: MealKey): string {
+  return schedule.mealTypes.find((type) => type.key === meal)?.name ?? meal
+}
+
+/**
+ * Meal types in a plan's comma-separated `meals` (keys, legacy names or "all")
+ */
+export function parsePlanMeals(schedule: MealSchedule, meals: string | null | undefined): MealKey[] {
+  const tokens = (meals || '')
+    .split(',')
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean)
+
+  return schedule.mealTypes
+    .filter((type) => tokens.includes('all') || tokens.includes(type.key) || tokens.includes(type.name.toLowerCase()))
+    .map((type) => type.key)
+}
+
+export async function loadMealSchedule(supabase: SupabaseClient): Promise<MealSchedule> {
+  const { data, error } = await supabase
+    .from('AppSetting')
+    .select('value')
+    .eq('key', 'meal_schedule')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading meal schedule, using defaults:', error)
+  }
+
+  return normalizeMealSchedule(data?.value)
+}
+
+export function getMessTimeZone(): string {
+  return Deno.env.get('MESS_TIMEZONE') || 'Asia/Kolkata'
+}
+
+/**
+ * Wall-clock date/time at the mess for a given instant
+ */
+export function getMessLocalTime(at: Date, timeZone: string = getMessTimeZone()): MessLocalTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, part.value])
+  )
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  }
+}
+
+/**
+ * Meal whose window (grace periods included) contains the given local time
+ */
+export function getCurrentMeal(schedule: MealSchedule, local: MessLocalTime): MealKey | null {
+  const day = schedule.days[local.weekday] ?? {}
+
+  for (const { key: meal } of schedule.mealTypes) {
+    const window = day[meal]
+    if (!window?.enabled) continue
+
+    const opensAt = timeToMinutes(window.start) - schedule.graceBeforeMinutes
+    const closesAt = timeToMinutes(window.end) + schedule.graceAfterMinutes
+    if (local.minutes >= opensAt && local.minutes <= closesAt) {
+      return meal
+    }
+  }
+
+  return null
+}
+
+/**
+ * Minutes from the given local time until a meal starts on `date`
+ * ("YYYY-MM-DD"), or null when the meal isn't served that day
+ */
+export function minutesUntilMeal(
+  schedule: MealSchedule,
+  local: MessLocalTime,
+  date: string,
+  meal: MealKey
+): number | null {
+  const [year, month, day] = date.split('-').map(Number)
+  const dateUTC = Date.UTC(year, month - 1, day)
+  const window = schedule.days[new Date(dateUTC).getUTCDay()]?.[meal]
+  if (!window?.enabled) return null
+
+  const [localYear, localMonth, localDay] = local.date.split('-').map(Number)
+  const daysAhead = Math.round((dateUTC - Date.UTC(localYear, localMonth - 1, localDay)) / (24 * 60 * 60 * 1000))
+  return daysAhead * 24 * 60 + timeToMinutes(window.start) - local.minutes
+}
@@ -0,0 +1,93 @@
+// Server-side copy of the payment method rules in src/lib/payment-methods.ts.
+// The methods live in AppSetting under 'payment_methods'; payments store the
+// method's key.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface PaymentMethod {
+  key: string
+  name: string
+  icon: string
+  requiresReference: boolean
+  cashInHand: boolean
+}
+
+const DEFAULT_PAYMENT_METHODS: PaymentMethod[] = [
+  { key: 'Cash', name: 'Cash', icon: 'cash', requiresReference: false, cashInHand: true },
+  { key: 'UPI', name: 'UPI', icon: 'cellphone', requiresReference: false, cashInHand: false },
+  { key: 'Online', name: 'Online', icon: 'credit-card', requiresReference: false, cashInHand: false },
+]
+
+// A method as stored; anything but the key and name may be missing
+interface StoredPaymentMethod {
+  key: string
+  name: string
+  icon?: unknown
+  requiresReference?: unknown
+  cashInHand?: unknown
+}
+
+function isStoredPaymentMethod(value: unknown): value is StoredPaymentMethod {
+  if (!value || typeof value !== 'object') return false
+  const { key, name } = value as Record<string, unknown>
+  return typeof key === 'string' && !!key.trim() && typeof name === 'string'
+}
+
+export function normalizePaymentMethods(raw: unknown): PaymentMethod[] {
+  const stored: StoredPaymentMethod[] = Array.isArray(raw) ? raw.filter(isStoredPaymentMethod) : []
+
+  return (stored.length > 0 ? stored : DEFAULT_PAYMENT_METHODS).map((method) => ({
+    key: method.key.trim(),
+    name: method.name.trim() || method.key.trim(),
+    icon: typeof method.icon === 'string' && method.icon ? method.icon : 'currency-inr',
+    requiresReference: method.requiresReference === true,
+    cashInHand: method.cashInHand === true,
+  }))
+}
+
+export async function loadPaymentMethods(supabase: SupabaseClient): Promise<PaymentMethod[]> {
+  const { data, error } = await supabase
+    .from('AppSetting')
+    .select('value')
+    .eq('key', 'payment_methods')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading payment methods, using defaults:', error)
+  }
+
+  return normalizePaymentMethods(data?.value)
+}
+
+/**
+ * Reference as typed by the admin, without spaces and upper-cased, or null
+ * Same clean-up as the create-payment Edge Function.
+ */
+export function normalizePaymentReference(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.replace(/\s+/g, '').toUpperCase() : null
+}
+
+/**
+ * Reason a payment with this method and reference can't be recorded, or null
+ */
+export function checkPaymentMethod(
+  methods: PaymentMethod[],
+  key: string,
+  reference: string | null
+): string | null {
+  const method = methods.find((candidate) => candidate.key === key)
+  if (!method) {
+    return `Unknown payment method: ${key}`
+  }
+  if (method.requiresReference && !reference) {
+    return `Enter the reference number for ${method.name} payments`
+  }
+  return null
+}
+
+/**
+ * Methods whose payments reach the bank account, i.e. all but cash in hand
+ */
+export function getBankPaymentMethods(methods: PaymentMethod[]): PaymentMethod[] {
+  return methods.filter((method) => !method.cashInHand)
+}
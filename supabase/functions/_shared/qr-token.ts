@@ -0,0 +1,105 @@
+// Signed, time-bound attendance QR payloads.
+//
+// Payload format:
+//   mess-management://attendance?t=<issuedAt seconds>&n=<nonce>&s=<signature>
+// where signature = base64url(HMAC-SHA256(QR_SIGNING_SECRET, "<t>.<n>"))
+
+export const QR_PAYLOAD_PREFIX = 'mess-management://attendance'
+
+export type QRRejectionReason = 'invalid' | 'expired'
+
+export interface QRTokenClaims {
+  issuedAt: number // Unix seconds
+  nonce: string
+}
+
+const encoder = new TextEncoder()
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+
+async function sign(secret: string, claims: QRTokenClaims): Promise<string> {
+  const key = await importKey(secret)
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${claims.issuedAt}.${claims.nonce}`))
+  return toBase64Url(new Uint8Array(signature))
+}
+
+// Constant-time comparison so signatures can't be guessed byte by byte
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i += 1) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+export function generateNonce(): string {
+  const bytes = new Uint8Array(9)
+  crypto.getRandomValues(bytes)
+  return toBase64Url(bytes)
+}
+
+export async function createQRPayload(secret: string, claims: QRTokenClaims): Promise<string> {
+  const signature = await sign(secret, claims)
+  return `${QR_PAYLOAD_PREFIX}?t=${claims.issuedAt}&n=${claims.nonce}&s=${signature}`
+}
+
+export function parseQRPayload(payload: string): (QRTokenClaims & { signature: string }) | null {
+  if (!payload || typeof payload !== 'string') return null
+
+  const trimmed = payload.trim()
+  if (!trimmed.startsWith(`${QR_PAYLOAD_PREFIX}?`)) return null
+
+  const params = new URLSearchParams(trimmed.slice(QR_PAYLOAD_PREFIX.length + 1))
+  const issuedAt = Number(params.get('t'))
+  const nonce = params.get('n')
+  const signature = params.get('s')
+
+  if (!Number.isInteger(issuedAt) || issuedAt <= 0 || !nonce || !signature) return null
+
+  return { issuedAt, nonce, signature }
+}
+
+/**
+ * Verify a scanned payload against the signing secret.
+ * `at` is the moment the scan happened (defaults to now).
+ */
+export async function verifyQRPayload(
+  secret: string,
+  payload: string,
+  options: { ttlSeconds: number; at?: Date }
+): Promise<{ valid: true; claims: QRTokenClaims } | { valid: false; reason: QRRejectionReason }> {
+  const parsed = parseQRPayload(payload)
+  if (!parsed) return { valid: false, reason: 'invalid' }
+
+  const expected = await sign(secret, parsed)
+  if (!safeEqual(expected, parsed.signature)) return { valid: false, reason: 'invalid' }
+
+  const atSeconds = Math.floor((options.at ?? new Date()).getTime() / 1000)
+  // Allow a little clock skew for codes issued "in the future"
+  if (parsed.issuedAt > atSeconds + 5) return { valid: false, reason: 'invalid' }
+  if (atSeconds - parsed.issuedAt > options.ttlSeconds) return { valid: false, reason: 'expired' }
+
+  return { valid: true, claims: { issuedAt: parsed.issuedAt, nonce: parsed.nonce } }
+}
+
+export function getQRSettings() {
+  const secret = Deno.env.get('QR_SIGNING_SECRET') || ''
+  const rotationSeconds = Number(Deno.env.get('QR_ROTATION_SECONDS')) || 30
+  // A code stays valid for one extra rotation so a scan that started just before the swap still works
+  const ttlSeconds = Number(Deno.env.get('QR_TOKEN_TTL_SECONDS')) || rotationSeconds * 2
+  return { secret, rotationSeconds, ttlSeconds }
+}
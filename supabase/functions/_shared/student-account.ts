@@ -0,0 +1,203 @@
+// Creating a student login: auth user + 'student' profile + "Student" row
+// + the opening "SubscriptionPeriod" and what was paid on joining.
+// Used by admin-create-student (one at a time) and admin-import-students (CSV).
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { recordPeriodPayment } from './ledger.ts'
+
+export interface StudentAccountPlan {
+  id: number
+  price: number | string
+  durationDays: number
+}
+
+export interface NewStudentAccount {
+  name: string
+  email: string // Already trimmed and lower-cased
+  contactNumber: string
+  plan: StudentAccountPlan
+  joinDate: Date
+  endDate?: Date // Defaults to joinDate + plan duration
+  paid: number
+  paymentMethod?: string | null // Key of the method paid was taken with; required when paid is above zero
+  paymentReference?: string | null
+  rollNumber: string
+  createdBy?: { id: string; email?: string | null } // Admin adding the student
+}
+
+export interface CreatedStudentAccount {
+  studentId: number
+  authUserId: string
+  rollNumber: string
+  pin: string
+  password: string
+}
+
+export const formatDate = (date: Date) => date.toISOString().split('T')[0]
+
+export const generatePassword = () => {
+  const length = 10
+  const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*'
+  let password = ''
+  password += 'abcdefghijklmnopqrstuvwxyz'[Math.floor(Math.random() * 26)]
+  password += 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'[Math.floor(Math.random() * 26)]
+  password += '0123456789'[Math.floor(Math.random() * 10)]
+  password += '!@#$%^&*'[Math.floor(Math.random() * 8)]
+  for (let i = password.length; i < length; i += 1) {
+    password += charset[Math.floor(Math.random() * charset.length)]
+  }
+  return password.split('').sort(() => Math.random() - 0.5).join('')
+}
+
+export const generatePin = () => Math.floor(1000 + Math.random() * 9000).toString()
+
+export const formatRollNumber = (sequence: number) => `STU-${String(sequence).padStart(4, '0')}`
+
+/**
+ * Highest STU-#### sequence in use (0 when there are none yet)
+ */
+export async function getLastRollSequence(supabase: SupabaseClient): Promise<number> {
+  const { data: rollNumbers } = await supabase
+    .from('Student')
+    .select('rollNumber')
+    .like('rollNumber', 'STU-%')
+    .order('rollNumber', { ascending: false })
+    .limit(1)
+
+  const match = rollNumbers?.[0]?.rollNumber?.match(/STU-(\d+)/)
+  const lastNum = match?.[1] ? parseInt(match[1], 10) : 0
+  return Number.isNaN(lastNum) ? 0 : lastNum
+}
+
+/**
+ * Opening balance for a new student: whatever the plan price isn't covered
+ * by the first payment is due, anything paid beyond it is credit
+ */
+export function calculateOpeningBalance(price: number | string, paid: number) {
+  const planPrice = typeof price === 'string' ? parseFloat(price) : price
+  const paidRounded = Math.round((paid || 0) * 100) / 100
+  const priceRounded = Math.round(planPrice * 100) / 100
+
+  return {
+    price: planPrice,
+    paid: paidRounded,
+    balance: Math.max(Math.round((priceRounded - paidRounded) * 100) / 100, 0),
+    credit: Math.max(Math.round((paidRounded > priceRounded ? paidRounded - priceRounded : 0) * 100) / 100, 0),
+  }
+}
+
+/**
+ * Create the auth user, profile, student row and opening period. If a later
+ * step fails the earlier ones are undone so the email can be used again.
+ * Throws with a message suitable for showing to the admin.
+ */
+export async function createStudentAccount(
+  supabase: SupabaseClient,
+  account: NewStudentAccount
+): Promise<CreatedStudentAccount> {
+  const pin = generatePin()
+  const password = generatePassword()
+
+  const { data: createdUser, error: createUserError } = await supabase.auth.admin.createUser({
+    email: account.email,
+    password,
+    email_confirm: true,
+  })
+
+  if (createUserError || !createdUser?.user) {
+    console.error('Failed to create auth user:', createUserError)
+    throw new Error(createUserError?.message || 'Failed to create auth user')
+  }
+
+  const authUserId = createdUser.user.id
+
+  const undoAuthUser = async () => {
+    try {
+      await supabase.from('profiles').delete().eq('user_id', authUserId)
+      await supabase.auth.admin.deleteUser(authUserId)
+    } catch (cleanupError) {
+      console.error('Failed to clean up auth user:', cleanupError)
+    }
+  }
+
+  const { error: profileInsertError } = await supabase.from('profiles').insert({
+    user_id: authUserId,
+    role: 'student',
+    email: account.email,
+  })
+
+  if (profileInsertError) {
+    console.error('Failed to create profile:', profileInsertError)
+    await undoAuthUser()
+    throw new Error(profileInsertError.message || 'Failed to create profile')
+  }
+
+  const endDate =
+    account.endDate ?? new Date(account.joinDate.getTime() + account.plan.durationDays * 24 * 60 * 60 * 1000)
+  const amounts = calculateOpeningBalance(account.plan.price, account.paid)
+
+  const { data: studentInsert, error: studentError } = await supabase
+    .from('Student')
+    .insert({
+      name: account.name.trim(),
+      email: account.email,
+      contactNumber: account.contactNumber.trim(),
+      planId: account.plan.id,
+      rollNumber: account.rollNumber,
+      joinDate: formatDate(account.joinDate),
+      endDate: formatDate(endDate),
+      ...amounts,
+      pin,
+      isActive: true,
+      user_id: authUserId,
+    })
+    .select('id')
+    .single()
+
+  if (studentError || !studentInsert) {
+    console.error('Failed to create student:', studentError)
+    await undoAuthUser()
+    throw new Error(studentError?.message || 'Failed to create student')
+  }
+
+  // The student's plan columns are derived from their periods from here on
+  const { data: period, error: periodError } = await supabase
+    .from('SubscriptionPeriod')
+    .insert({
+      studentId: studentInsert.id,
+      planId: account.plan.id,
+      kind: 'join',
+      startDate: formatDate(account.joinDate),
+      endDate: formatDate(endDate),
+      price: amounts.price,
+      createdBy: account.createdBy?.id ?? null,
+      createdByEmail: account.createdBy?.email ?? null,
+    })
+    .select('id')
+    .single()
+
+  if (periodError || !period) {
+    console.error('Failed to create subscription period:', periodError)
+    await supabase.from('Student').delete().eq('id', studentInsert.id)
+    await undoAuthUser()
+    throw new Error(periodError?.message || 'Failed to create subscription period')
+  }
+
+  try {
+    await recordPeriodPayment(supabase, {
+      studentId: studentInsert.id,
+      periodId: period.id,
+      amount: amounts.paid,
+      paymentDate: formatDate(account.joinDate),
+      method: account.paymentMethod,
+      reference: account.paymentReference,
+    })
+  } catch (ledgerError) {
+    console.error('Failed to record joining payment:', ledgerError)
+    await supabase.from('Student').delete().eq('id', studentInsert.id)
+    await undoAuthUser()
+    throw ledgerError
+  }
+
+  return { studentId: studentInsert.id, authUserId, rollNumber: account.rollNumber, pin, password }
+}
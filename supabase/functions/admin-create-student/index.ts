@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkPaymentMethod, loadPaymentMethods, normalizePaymentReference } from '../_shared/payment-methods.ts'
+import { createStudentAccount, formatRollNumber, getLastRollSequence } from '../_shared/student-account.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,22 +16,8 @@ interface CreateStudentRequest {
   joinDate: string
   endDate?: string
   paid?: number
-}
-
-const formatDate = (date: Date) => date.toISOString().split('T')[0]
-
-const generatePassword = () => {
-  const length = 10
-  const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*'
-  let password = ''
-  password += 'abcdefghijklmnopqrstuvwxyz'[Math.floor(Math.random() * 26)]
-  password += 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'[Math.floor(Math.random() * 26)]
-  password += '0123456789'[Math.floor(Math.random() * 10)]
-  password += '!@#$%^&*'[Math.floor(Math.random() * 8)]
-  for (let i = password.length; i < length; i += 1) {
-    password += charset[Math.floor(Math.random() * charset.length)]
-  }
-  return password.split('').sort(() => Math.random() - 0.5).join('')
+  method?: string // How paid was taken; required when paid is above zero
+  reference?: string | null
 }
 
 serve(async (req) => {
@@ -81,7 +69,8 @@ serve(async (req) => {
     }
 
     const body: CreateStudentRequest = await req.json()
-    const { name, email, contactNumber, planId, joinDate, endDate, paid = 0 } = body
+    const { name, email, contactNumber, planId, joinDate, endDate, paid = 0, method } = body
+    const reference = normalizePaymentReference(body.reference)
 
     if (!name || !email || !contactNumber || !planId || !joinDate) {
       return new Response(JSON.stringify({ error: 'Missing required fields' }), {
@@ -126,89 +115,37 @@ serve(async (req) => {
       })
     }
 
-    const endDateObj = endDate ? new Date(endDate) : new Date(joinDateObj.getTime() + plan.durationDays * 24 * 60 * 60 * 1000)
-
-    const { data: rollNumbers } = await supabase
-      .from('Student')
-      .select('rollNumber')
-      .like('rollNumber', 'STU-%')
-      .order('rollNumber', { ascending: false })
-      .limit(1)
-
-    let rollNumber = 'STU-0001'
-    if (rollNumbers && rollNumbers.length > 0 && rollNumbers[0]?.rollNumber) {
-      const match = rollNumbers[0].rollNumber.match(/STU-(\d+)/)
-      if (match?.[1]) {
-        const lastNum = parseInt(match[1], 10)
-        if (!Number.isNaN(lastNum)) {
-          rollNumber = `STU-${String(lastNum + 1).padStart(4, '0')}`
-        }
+    // What's paid on joining is recorded with the method the admin chose
+    if (paid > 0) {
+      const methodError = checkPaymentMethod(await loadPaymentMethods(supabase), String(method ?? ''), reference)
+      if (methodError) {
+        return new Response(JSON.stringify({ error: methodError }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
       }
     }
 
-    const pin = Math.floor(1000 + Math.random() * 9000).toString()
-    const password = generatePassword()
+    const endDateObj = endDate ? new Date(endDate) : undefined
+    const rollNumber = formatRollNumber((await getLastRollSequence(supabase)) + 1)
 
-    const { data: createdUser, error: createUserError } = await supabase.auth.admin.createUser({
-      email: normalizedEmail,
-      password,
-      email_confirm: true,
-    })
-
-    if (createUserError || !createdUser.user) {
-      console.error('Failed to create auth user:', createUserError)
-      return new Response(JSON.stringify({ error: createUserError?.message || 'Failed to create auth user' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      })
-    }
-
-    const authUserId = createdUser.user.id
-
-    const { error: profileInsertError } = await supabase.from('profiles').insert({
-      user_id: authUserId,
-      role: 'student',
-      email: normalizedEmail,
-    })
-
-    if (profileInsertError) {
-      console.error('Failed to create profile:', profileInsertError)
-      return new Response(JSON.stringify({ error: profileInsertError.message || 'Failed to create profile' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      })
-    }
-
-    const planPrice = typeof plan.price === 'string' ? parseFloat(plan.price) : plan.price
-    const paidRounded = Math.round((paid || 0) * 100) / 100
-    const priceRounded = Math.round(planPrice * 100) / 100
-    const balance = Math.max(Math.round((priceRounded - paidRounded) * 100) / 100, 0)
-    const credit = Math.max(Math.round((paidRounded > priceRounded ? paidRounded - priceRounded : 0) * 100) / 100, 0)
-
-    const { data: studentInsert, error: studentError } = await supabase
-      .from('Student')
-      .insert({
-        name: name.trim(),
+    let account
+    try {
+      account = await createStudentAccount(supabase, {
+        name,
         email: normalizedEmail,
-        contactNumber: contactNumber.trim(),
-        planId,
+        contactNumber,
+        plan,
+        joinDate: joinDateObj,
+        endDate: endDateObj,
+        paid,
+        paymentMethod: method,
+        paymentReference: reference,
         rollNumber,
-        joinDate: formatDate(joinDateObj),
-        endDate: formatDate(endDateObj),
-        price: planPrice,
-        paid: paidRounded,
-        balance,
-        credit,
-        pin,
-        isActive: true,
-        user_id: authUserId,
+        createdBy: { id: user.id, email: user.email },
       })
-      .select('id')
-      .single()
-
-    if (studentError || !studentInsert) {
-      console.error('Failed to create student:', studentError)
-      return new Response(JSON.stringify({ error: studentError?.message || 'Failed to create student' }), {
+    } catch (createError) {
+      return new Response(JSON.stringify({ error: createError instanceof Error ? createError.message : 'Failed to create student' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
@@ -235,7 +172,7 @@ serve(async (req) => {
         updatedAt,
         plan:Plan(id, name, meals, price, durationDays)
       `)
-      .eq('id', studentInsert.id)
+      .eq('id', account.studentId)
       .single()
 
     if (fetchError || !studentWithPlan) {
@@ -246,7 +183,7 @@ serve(async (req) => {
       })
     }
 
-    return new Response(JSON.stringify({ success: true, student: { ...studentWithPlan, password } }), {
+    return new Response(JSON.stringify({ success: true, student: { ...studentWithPlan, password: account.password } }), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     })
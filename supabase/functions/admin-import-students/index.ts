@@ -0,0 +1,252 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkPaymentMethod, loadPaymentMethods, normalizePaymentReference } from '../_shared/payment-methods.ts'
+import {
+  createStudentAccount,
+  formatRollNumber,
+  getLastRollSequence,
+  type StudentAccountPlan,
+} from '../_shared/student-account.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// The app sends large imports in several requests of at most this many rows
+const MAX_STUDENTS_PER_REQUEST = 25
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+interface ImportStudentRow {
+  line: number // CSV line, echoed back so the app can match results
+  name: string
+  email: string
+  contactNumber: string
+  planId: number
+  joinDate: string // "YYYY-MM-DD"
+  paid?: number
+  method?: string // Key of the method paid was taken with; required when paid is above zero
+  reference?: string | null
+}
+
+interface ImportStudentsRequest {
+  students: ImportStudentRow[]
+}
+
+// Same shape as StudentImportResult in src/lib/student-import.ts
+interface ImportStudentResult {
+  line: number
+  name: string
+  email: string
+  success: boolean
+  studentId?: number
+  rollNumber?: string
+  pin?: string
+  password?: string
+  error?: string
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (!supabaseUrl || !serviceKey) {
+      return new Response(JSON.stringify({ error: 'Server configuration error' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const supabase = createClient(supabaseUrl, serviceKey)
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || profile?.role !== 'admin') {
+      return new Response(JSON.stringify({ error: 'Admin access required' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { students }: ImportStudentsRequest = await req.json()
+
+    if (!Array.isArray(students) || students.length === 0) {
+      return new Response(JSON.stringify({ error: 'No students to import' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    if (students.length > MAX_STUDENTS_PER_REQUEST) {
+      return new Response(JSON.stringify({ error: `At most ${MAX_STUDENTS_PER_REQUEST} students per request` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Load everything the rows refer to up front
+    const planIds = [...new Set(students.map((row) => Number(row.planId)).filter(Boolean))]
+    const { data: plans, error: plansError } = await supabase
+      .from('Plan')
+      .select('id, price, durationDays')
+      .in('id', planIds.length > 0 ? planIds : [0])
+
+    if (plansError) throw plansError
+
+    const planMap = new Map<number, StudentAccountPlan>(
+      (plans || []).map((plan: StudentAccountPlan) => [plan.id, plan])
+    )
+
+    const emails = students.map((row) => String(row.email || '').trim().toLowerCase()).filter(Boolean)
+    const { data: existing, error: existingError } = await supabase
+      .from('Student')
+      .select('email')
+      .in('email', emails.length > 0 ? emails : [''])
+
+    if (existingError) throw existingError
+
+    const takenEmails = new Set((existing || []).map((student) => String(student.email).toLowerCase()))
+    const paymentMethods = await loadPaymentMethods(supabase)
+
+    // Roll numbers continue from the highest one in use
+    let rollSequence = await getLastRollSequence(supabase)
+    const results: ImportStudentResult[] = []
+
+    // One at a time - each row needs its own auth user and roll number
+    for (const row of students) {
+      const name = String(row.name || '').trim()
+      const email = String(row.email || '').trim().toLowerCase()
+      const contactNumber = String(row.contactNumber || '').trim()
+      const paid = Number(row.paid || 0)
+      const reference = normalizePaymentReference(row.reference)
+      const plan = planMap.get(Number(row.planId))
+      const fail = (error: string) => results.push({ line: row.line, name, email, success: false, error })
+
+      if (!name || !email || !contactNumber || !row.planId || !row.joinDate) {
+        fail('Missing required fields')
+        continue
+      }
+      if (!EMAIL_PATTERN.test(email)) {
+        fail('Invalid email')
+        continue
+      }
+      if (takenEmails.has(email)) {
+        fail('Email already in use')
+        continue
+      }
+      if (!plan) {
+        fail('Plan not found')
+        continue
+      }
+
+      const joinDate = new Date(`${row.joinDate}T00:00:00Z`)
+      if (!DATE_PATTERN.test(row.joinDate) || Number.isNaN(joinDate.getTime())) {
+        fail('Invalid join date')
+        continue
+      }
+      if (!Number.isFinite(paid) || paid < 0) {
+        fail('Invalid paid amount')
+        continue
+      }
+
+      const methodError = paid > 0 ? checkPaymentMethod(paymentMethods, String(row.method ?? ''), reference) : null
+      if (methodError) {
+        fail(methodError)
+        continue
+      }
+
+      try {
+        const account = await createStudentAccount(supabase, {
+          name,
+          email,
+          contactNumber,
+          plan,
+          joinDate,
+          paid,
+          paymentMethod: row.method,
+          paymentReference: reference,
+          rollNumber: formatRollNumber(rollSequence + 1),
+          createdBy: { id: user.id, email: user.email },
+        })
+
+        rollSequence += 1
+        takenEmails.add(email)
+        results.push({
+          line: row.line,
+          name,
+          email,
+          success: true,
+          studentId: account.studentId,
+          rollNumber: account.rollNumber,
+          pin: account.pin,
+          password: account.password,
+        })
+      } catch (createError) {
+        fail(createError instanceof Error ? createError.message : 'Failed to create student')
+      }
+    }
+
+    const created = results.filter((result) => result.success)
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: 'IMPORT_STUDENTS',
+          entity: 'Student',
+          entityId: null,
+          details: {
+            requested: students.length,
+            created: created.length,
+            failed: results.length - created.length,
+            studentIds: created.map((result) => result.studentId),
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(JSON.stringify({ success: true, results }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Error in admin-import-students function:', error)
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+})
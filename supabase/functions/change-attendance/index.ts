@@ -0,0 +1,262 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getMealName, loadMealSchedule, parsePlanMeals } from '../_shared/meal-schedule.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Same limits as src/lib/attendance.ts and src/lib/attendance-history.ts
+const MAX_CHANGES = 500
+const MAX_REASON_LENGTH = 500
+
+// Either an existing record by id, or a student's record for a day
+interface AttendanceChangeRequestRow {
+  attendanceId?: number
+  studentId?: number
+  date?: string // "YYYY-MM-DD"
+  meals?: Record<string, boolean> // true marks a meal, false unmarks it
+  delete?: boolean // Remove the whole record
+}
+
+interface ChangeAttendanceRequest {
+  changes: AttendanceChangeRequestRow[]
+  source?: 'manual' | 'bulk'
+  reason: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Check if user is admin (check profiles table)
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { changes, source = 'manual', reason }: ChangeAttendanceRequest = await req.json()
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : ''
+
+    if (!trimmedReason || trimmedReason.length > MAX_REASON_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `A reason of at most ${MAX_REASON_LENGTH} characters is required` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (source !== 'manual' && source !== 'bulk') {
+      return new Response(
+        JSON.stringify({ error: 'Invalid source' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!Array.isArray(changes) || changes.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No attendance changes given' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (changes.length > MAX_CHANGES) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_CHANGES} records can be changed at once` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Find the student each existing record belongs to
+    const attendanceIds = [...new Set(
+      changes.map((change) => Number(change.attendanceId)).filter(Number.isInteger)
+    )]
+    const recordStudents = new Map<number, number>()
+
+    for (let i = 0; i < attendanceIds.length; i += 200) {
+      const { data, error: recordsError } = await supabase
+        .from('Attendance')
+        .select('id, studentId')
+        .in('id', attendanceIds.slice(i, i + 200))
+
+      if (recordsError) throw recordsError
+
+      ;(data || []).forEach((record) => recordStudents.set(record.id, record.studentId))
+    }
+
+    const studentIdOf = (change: AttendanceChangeRequestRow) =>
+      change.attendanceId !== undefined
+        ? recordStudents.get(Number(change.attendanceId))
+        : Number(change.studentId)
+
+    // Load the plans of the students being marked, a few at a time
+    const schedule = await loadMealSchedule(supabase)
+    const mealKeys = new Set(schedule.mealTypes.map((type) => type.key))
+    const studentIds = [...new Set(changes.map(studentIdOf).filter(Number.isInteger))] as number[]
+    const planMeals = new Map<number, string[]>()
+
+    for (let i = 0; i < studentIds.length; i += 200) {
+      const { data, error: studentsError } = await supabase
+        .from('Student')
+        .select('id, plan:Plan(meals)')
+        .in('id', studentIds.slice(i, i + 200))
+
+      if (studentsError) throw studentsError
+
+      ;(data || []).forEach((student) => {
+        planMeals.set(student.id, parsePlanMeals(schedule, student.plan?.meals))
+      })
+    }
+
+    // Check every change before touching anything - they apply together or not at all
+    for (const change of changes) {
+      if (change.attendanceId !== undefined) {
+        if (!recordStudents.has(Number(change.attendanceId))) {
+          return new Response(
+            JSON.stringify({ error: 'Attendance record not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+      } else if (typeof change.date !== 'string' || !DATE_PATTERN.test(change.date)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid date' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const meals = planMeals.get(studentIdOf(change) as number)
+      if (!meals) {
+        return new Response(
+          JSON.stringify({ error: 'Student not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (change.delete === true) {
+        if (change.attendanceId === undefined) {
+          return new Response(
+            JSON.stringify({ error: 'Only an existing record can be deleted' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+        continue
+      }
+
+      const entries = Object.entries(change.meals || {})
+      if (entries.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'No meals given' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      for (const [meal, value] of entries) {
+        if (!mealKeys.has(meal) || typeof value !== 'boolean') {
+          return new Response(
+            JSON.stringify({ error: `Invalid meal: ${meal}` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+        if (value && !meals.includes(meal)) {
+          return new Response(
+            JSON.stringify({ error: `Student plan does not include ${getMealName(schedule, meal)}` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+      }
+    }
+
+    // Use RPC function so the records and their history entries change in one transaction
+    const { data: changed, error: rpcError } = await supabase.rpc('change_attendance', {
+      p_changes: changes.map((change) =>
+        change.attendanceId !== undefined
+          ? { attendanceId: Number(change.attendanceId), meals: change.meals, delete: change.delete === true }
+          : { studentId: Number(change.studentId), date: change.date, meals: change.meals }
+      ),
+      p_source: source,
+      p_reason: trimmedReason,
+      p_changed_by: user.id,
+      p_changed_by_email: user.email ?? null,
+    })
+
+    if (rpcError) {
+      console.error('RPC Error:', rpcError)
+      return new Response(
+        JSON.stringify({ error: `Failed to change attendance: ${rpcError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: 'CHANGE_ATTENDANCE',
+          entity: 'Attendance',
+          entityId: null,
+          details: {
+            changes: changes.length,
+            changed,
+            students: studentIds.length,
+            source,
+            reason: trimmedReason,
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, changed }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in change-attendance function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -1,16 +1,24 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkPaymentMethod, loadPaymentMethods } from '../_shared/payment-methods.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Same limit as src/lib/payments.ts
+const MAX_NOTES_LENGTH = 500
+
 interface CreatePaymentRequest {
   studentId: number
   amount: number
   paymentDate: string
   method: string
+  reference?: string | null // UTR, cheque number or transaction id
+  notes?: string | null
+  upiRequestId?: number | null // UPI payment request this confirms
+  overrideAmount?: boolean // Record an amount other than the one the student submitted
 }
 
 serve(async (req) => {
@@ -61,7 +69,10 @@ serve(async (req) => {
 
     // Get request body
     const body: CreatePaymentRequest = await req.json()
-    const { studentId, amount, paymentDate, method } = body
+    const { studentId, amount, paymentDate, method, upiRequestId } = body
+    let reference = typeof body.reference === 'string' && body.reference.trim()
+      ? body.reference.replace(/\s+/g, '').toUpperCase()
+      : null
 
     // Validation
     if (!studentId || !amount || amount <= 0 || !paymentDate || !method) {
@@ -71,10 +82,61 @@ serve(async (req) => {
       )
     }
 
+    const notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null
+    if (notes && notes.length > MAX_NOTES_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `Notes can be at most ${MAX_NOTES_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // A confirmed UPI request is recorded with the UTR the student submitted,
+    // and for the amount they said they paid unless the admin overrides it
+    if (upiRequestId) {
+      const { data: upiRequest, error: upiRequestError } = await supabase
+        .from('UpiPaymentRequest')
+        .select('id, amount, reference, status')
+        .eq('id', upiRequestId)
+        .eq('studentId', studentId)
+        .maybeSingle()
+
+      if (upiRequestError || !upiRequest) {
+        return new Response(
+          JSON.stringify({ error: 'UPI payment not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (upiRequest.status !== 'pending') {
+        return new Response(
+          JSON.stringify({ error: 'This UPI payment has already been reviewed' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (Math.round(Number(upiRequest.amount) * 100) !== Math.round(amount * 100) && body.overrideAmount !== true) {
+        return new Response(
+          JSON.stringify({ error: `The student submitted ₹${Number(upiRequest.amount).toLocaleString('en-IN')}; confirm the different amount to record it` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      reference = upiRequest.reference
+    }
+
+    // Methods are configured by the admin (AppSetting 'payment_methods')
+    const methodError = checkPaymentMethod(await loadPaymentMethods(supabase), method, reference)
+    if (methodError) {
+      return new Response(
+        JSON.stringify({ error: methodError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Check if student exists and is active
     const { data: student, error: studentError } = await supabase
       .from('Student')
-      .select('id, paid, price, isActive')
+      .select('id, isActive')
       .eq('id', studentId)
       .single()
 
@@ -92,45 +154,80 @@ serve(async (req) => {
       )
     }
 
-    // Calculate current balance and validate payment amount
-    const existingPaid = Number(student.paid || 0)
-    const studentPrice = Number(student.price || 0)
-    const currentBalance = Math.round((studentPrice - existingPaid) * 100) / 100
+    // Claim the UPI request first so a double tap can't record it twice
+    if (upiRequestId) {
+      const { data: claimedRequest, error: claimError } = await supabase
+        .from('UpiPaymentRequest')
+        .update({
+          status: 'confirmed',
+          reviewedBy: user.id,
+          reviewedAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        })
+        .eq('id', upiRequestId)
+        .eq('studentId', studentId)
+        .eq('status', 'pending')
+        .select('id')
+        .maybeSingle()
 
-    // Prevent payments exceeding the remaining balance
-    if (amount > currentBalance) {
-      return new Response(
-        JSON.stringify({
-          error: `Payment amount (₹${amount.toFixed(2)}) exceeds remaining balance (₹${currentBalance.toFixed(2)}). Maximum allowed: ₹${currentBalance.toFixed(2)}`
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      if (claimError) {
+        console.error('Error claiming UPI payment request:', claimError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to confirm UPI payment' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (!claimedRequest) {
+        return new Response(
+          JSON.stringify({ error: 'This UPI payment has already been reviewed' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
     }
 
-    const newPaid = Math.round((existingPaid + amount) * 100) / 100
-    const newBalance = Math.max(Math.round((studentPrice - newPaid) * 100) / 100, 0)
-    const credit = 0 // Credit system removed - always set to 0
+    // Put the request back so it can be reviewed again
+    const releaseUpiRequest = async () => {
+      if (!upiRequestId) return
+      await supabase
+        .from('UpiPaymentRequest')
+        .update({ status: 'pending', reviewedBy: null, reviewedAt: null })
+        .eq('id', upiRequestId)
+    }
 
-    // Use RPC function for transaction-safe payment creation
-    // This ensures both payment creation and student balance update happen atomically
-    const { data: result, error: rpcError } = await supabase.rpc('create_payment_transaction', {
+    // The payment's ledger entry, its period and the balance are all
+    // updated by triggers in the same transaction. Anything paid beyond the
+    // balance is kept as credit (see 017_refunds_credit_notes.sql)
+    const { data: paymentId, error: rpcError } = await supabase.rpc('record_payment', {
       p_student_id: studentId,
       p_amount: amount,
       p_payment_date: paymentDate,
       p_method: method,
-      p_new_paid: newPaid,
-      p_new_balance: newBalance,
-      p_new_credit: credit,
+      p_reference: reference,
+      p_notes: notes,
     })
 
     if (rpcError) {
       console.error('RPC Error:', rpcError)
+      await releaseUpiRequest()
       return new Response(
         JSON.stringify({ error: `Failed to create payment: ${rpcError.message}` }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
+    if (upiRequestId) {
+      const { error: linkError } = await supabase
+        .from('UpiPaymentRequest')
+        .update({ paymentId })
+        .eq('id', upiRequestId)
+
+      if (linkError) {
+        // The payment stands; only the link back from the request is missing
+        console.error('Error linking UPI payment request:', linkError)
+      }
+    }
+
     // Fetch the created payment with student details
     const { data: paymentData, error: paymentFetchError } = await supabase
       .from('Payment')
@@ -146,7 +243,7 @@ serve(async (req) => {
           credit
         )
       `)
-      .eq('id', result.payment_id)
+      .eq('id', paymentId)
       .single()
 
     if (paymentFetchError) {
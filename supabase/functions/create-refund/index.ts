@@ -0,0 +1,178 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { loadPaymentMethods } from '../_shared/payment-methods.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_REASON_LENGTH = 500
+
+interface CreateRefundRequest {
+  studentId: number
+  type: 'refund' | 'credit_note'
+  amount: number
+  method?: string | null // Required for refunds
+  reason: string
+  refundDate: string // YYYY-MM-DD
+  paymentId?: number | null // Payment a refund reverses
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Check if user is admin (check profiles table)
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const body: CreateRefundRequest = await req.json()
+    const { studentId, type, amount, method, reason, refundDate, paymentId } = body
+
+    // Validation
+    if (!studentId || !amount || amount <= 0 || !refundDate || !['refund', 'credit_note'].includes(type)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid refund data. studentId, type, amount and refundDate are required.' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (type === 'refund' && !method) {
+      return new Response(
+        JSON.stringify({ error: 'Refund method is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (type === 'refund') {
+      const methods = await loadPaymentMethods(supabase)
+      if (!methods.some((candidate) => candidate.key === method)) {
+        return new Response(
+          JSON.stringify({ error: `Unknown payment method: ${method}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : ''
+    if (!trimmedReason || trimmedReason.length > MAX_REASON_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `A reason of up to ${MAX_REASON_LENGTH} characters is required` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // The ledger entry, credit note number and the student's balance are
+    // all written in one transaction; the function checks the limits under
+    // a lock on the student
+    const { data: refundId, error: rpcError } = await supabase.rpc('record_refund', {
+      p_student_id: studentId,
+      p_type: type,
+      p_amount: amount,
+      p_method: type === 'refund' ? method : null,
+      p_reason: trimmedReason,
+      p_refund_date: refundDate,
+      p_payment_id: type === 'refund' ? paymentId ?? null : null,
+      p_created_by: user.id,
+      p_created_by_email: user.email ?? null,
+    })
+
+    if (rpcError) {
+      console.error('RPC Error:', rpcError)
+      return new Response(
+        JSON.stringify({ error: rpcError.message }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: refund, error: refundFetchError } = await supabase
+      .from('Refund')
+      .select('*')
+      .eq('id', refundId)
+      .single()
+
+    if (refundFetchError) {
+      return new Response(
+        JSON.stringify({ error: 'Refund recorded but failed to fetch details' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: type === 'refund' ? 'ISSUE_REFUND' : 'ISSUE_CREDIT_NOTE',
+          entity: 'Student',
+          entityId: studentId,
+          details: {
+            refundId,
+            amount: refund.amount,
+            method: refund.method,
+            paymentId: refund.paymentId,
+            creditNoteNumber: refund.creditNoteNumber,
+            reason: trimmedReason,
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        refund,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in create-refund function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
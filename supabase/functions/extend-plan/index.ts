@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { recordPeriodPayment } from '../_shared/ledger.ts'
+import { checkPaymentMethod, loadPaymentMethods, normalizePaymentReference } from '../_shared/payment-methods.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -39,7 +41,8 @@ serve(async (req) => {
     }
 
     // Get request body
-    const { studentId, days, startDate, paid = 0 } = await req.json()
+    const { studentId, days, startDate, paid = 0, method, reference } = await req.json()
+    const paymentReference = normalizePaymentReference(reference)
 
     // Validation
     if (!studentId || !days || days <= 0) {
@@ -117,22 +120,77 @@ serve(async (req) => {
     // Manager can enter any payment amount (no extension cost calculation)
     const newPayment = paid || 0
 
-    // Calculate balance (no credit system, price stays the same)
-    const planPrice = typeof existingStudent.price === 'number' ? existingStudent.price : parseFloat(existingStudent.price) || 0
-    const existingPaid = typeof existingStudent.paid === 'number' ? existingStudent.paid : parseFloat(existingStudent.paid) || 0
-    const newPaid = Math.round((existingPaid + newPayment) * 100) / 100
-    // Price remains the same (no automatic extension cost calculation)
-    const balance = Math.max(Math.round((planPrice - newPaid) * 100) / 100, 0)
+    // Recorded with the method the admin chose, checked like any other payment
+    if (newPayment > 0) {
+      const methodError = checkPaymentMethod(await loadPaymentMethods(supabase), String(method ?? ''), paymentReference)
+      if (methodError) {
+        return new Response(
+          JSON.stringify({ error: methodError }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    // Extending amends the current term: later end date, price stays the same
+    const { data: period, error: periodError } = await supabase
+      .from('SubscriptionPeriod')
+      .select('id, extendedDays')
+      .eq('studentId', studentId)
+      .order('startDate', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(1)
+      .single()
 
-    // Update student in transaction
+    if (periodError || !period) {
+      return new Response(
+        JSON.stringify({ error: 'Student has no plan period to extend' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // The payment is recorded against the term being extended
+    let paymentId: number | null
+    try {
+      paymentId = await recordPeriodPayment(supabase, {
+        studentId,
+        periodId: period.id,
+        amount: newPayment,
+        paymentDate: todayUTC.toISOString().split('T')[0],
+        method,
+        reference: paymentReference,
+      })
+    } catch (ledgerError) {
+      console.error('Error recording extension payment:', ledgerError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to update student plan' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { error: periodUpdateError } = await supabase
+      .from('SubscriptionPeriod')
+      .update({
+        endDate: newEndDate.toISOString().split('T')[0],
+        extendedDays: Number(period.extendedDays || 0) + daysToAdd,
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', period.id)
+
+    if (periodUpdateError) {
+      console.error('Error updating subscription period:', periodUpdateError)
+      if (paymentId) {
+        await supabase.from('Payment').delete().eq('id', paymentId)
+      }
+      return new Response(
+        JSON.stringify({ error: 'Failed to update student plan' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // End date, paid and balance on the student follow the period
     const { data: updatedStudent, error: updateError } = await supabase
       .from('Student')
       .update({
-        endDate: newEndDate.toISOString().split('T')[0],
-        // Price remains the same (no automatic extension cost calculation)
-        paid: Math.round(newPaid * 100) / 100,
-        balance: Math.round(balance * 100) / 100,
-        credit: 0, // Credit system removed - always set to 0
         isActive: true, // Reactivate if inactive
       })
       .eq('id', studentId)
@@ -162,11 +220,13 @@ serve(async (req) => {
           entityId: studentId,
           details: {
             action: 'extend_plan',
+            periodId: period.id,
             days: days,
             startDate: startDate,
             oldEndDate: existingStudent.endDate,
             newEndDate: newEndDate.toISOString().split('T')[0],
             paid: newPayment,
+            method: newPayment > 0 ? method : null,
           },
         })
     } catch (auditError) {
@@ -0,0 +1,268 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getMealName, loadMealSchedule } from '../_shared/meal-schedule.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_GUESTS = 50
+
+type GuestMealRequest =
+  | {
+      action: 'record'
+      studentId: number
+      date: string
+      meal: string
+      count: number
+      rate: number
+      note?: string
+    }
+  | {
+      action: 'delete'
+      guestMealId: number
+    }
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Check if user is admin (check profiles table)
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const body: GuestMealRequest = await req.json()
+
+    if (body.action === 'delete') {
+      if (!body.guestMealId) {
+        return new Response(
+          JSON.stringify({ error: 'guestMealId is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: existing } = await supabase
+        .from('GuestMeal')
+        .select('*')
+        .eq('id', body.guestMealId)
+        .maybeSingle()
+
+      if (!existing) {
+        return new Response(
+          JSON.stringify({ error: 'Guest meal not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Removes the row and takes the charge back off the host's balance
+      const { error: rpcError } = await supabase.rpc('delete_guest_meal', { p_id: body.guestMealId })
+
+      if (rpcError) {
+        console.error('RPC Error:', rpcError)
+        return new Response(
+          JSON.stringify({ error: `Failed to delete guest meal: ${rpcError.message}` }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Create audit log (if AuditLog table exists)
+      try {
+        await supabase
+          .from('AuditLog')
+          .insert({
+            userId: user.id,
+            userEmail: user.email,
+            action: 'DELETE_GUEST_MEAL',
+            entity: 'GuestMeal',
+            entityId: existing.id,
+            details: {
+              studentId: existing.studentId,
+              date: existing.date,
+              meal: existing.meal,
+              count: existing.count,
+              rate: existing.rate,
+              amount: existing.amount,
+            },
+          })
+      } catch (auditError) {
+        // Don't fail if audit log fails
+        console.error('Error creating audit log:', auditError)
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (body.action !== 'record') {
+      return new Response(
+        JSON.stringify({ error: "Invalid request: action must be 'record' or 'delete'" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { studentId, date, meal, count, rate } = body
+    const note = typeof body.note === 'string' ? body.note.trim() : ''
+
+    // Validation
+    if (!studentId || typeof date !== 'string' || !DATE_PATTERN.test(date) || typeof meal !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Invalid guest meal data. studentId, date (YYYY-MM-DD) and meal are required.' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_GUESTS) {
+      return new Response(
+        JSON.stringify({ error: `Number of guests must be between 1 and ${MAX_GUESTS}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+      return new Response(
+        JSON.stringify({ error: 'Guest rate must be zero or more' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const schedule = await loadMealSchedule(supabase)
+    if (!schedule.mealTypes.some((type) => type.key === meal)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown meal: ${meal}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Guests are charged to the host, so the host must be an active student
+    const { data: student, error: studentError } = await supabase
+      .from('Student')
+      .select('id, name, isActive')
+      .eq('id', studentId)
+      .single()
+
+    if (studentError || !student) {
+      return new Response(
+        JSON.stringify({ error: 'Student not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!student.isActive) {
+      return new Response(
+        JSON.stringify({ error: 'Cannot charge guest meals to an inactive student' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Use RPC function so the guest meal and the balance change happen atomically
+    const { data: guestMealId, error: rpcError } = await supabase.rpc('record_guest_meal', {
+      p_student_id: studentId,
+      p_date: date,
+      p_meal: meal,
+      p_count: count,
+      p_rate: Math.round(rate * 100) / 100,
+      p_note: note || null,
+      p_created_by: user.id,
+      p_created_by_email: user.email ?? null,
+    })
+
+    if (rpcError) {
+      console.error('RPC Error:', rpcError)
+      return new Response(
+        JSON.stringify({ error: `Failed to record guest meal: ${rpcError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: guestMeal, error: fetchError } = await supabase
+      .from('GuestMeal')
+      .select('*, student:Student(id, name, rollNumber)')
+      .eq('id', guestMealId)
+      .single()
+
+    if (fetchError) {
+      return new Response(
+        JSON.stringify({ error: 'Guest meal recorded but failed to fetch details' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: 'RECORD_GUEST_MEAL',
+          entity: 'GuestMeal',
+          entityId: guestMeal.id,
+          details: {
+            studentId: student.id,
+            studentName: student.name,
+            date,
+            meal: getMealName(schedule, meal),
+            count,
+            rate: guestMeal.rate,
+            amount: guestMeal.amount,
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, guestMeal }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in guest-meal function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,234 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getMealName, getMessLocalTime, loadMealSchedule, parsePlanMeals } from '../_shared/meal-schedule.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Same limits as src/lib/attendance-import.ts and src/lib/attendance-history.ts
+const MAX_ROWS = 2000
+const MAX_REASON_LENGTH = 500
+
+interface ImportAttendanceRow {
+  line: number // CSV line, used in error messages
+  studentId: number
+  date: string // "YYYY-MM-DD"
+  meals: Record<string, boolean> // true marks a meal, false unmarks it
+}
+
+interface ImportAttendanceRequest {
+  rows: ImportAttendanceRow[]
+  reason: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Check if user is admin (check profiles table)
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { rows, reason }: ImportAttendanceRequest = await req.json()
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : ''
+
+    if (!trimmedReason || trimmedReason.length > MAX_REASON_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `A reason of at most ${MAX_REASON_LENGTH} characters is required` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No attendance rows to import' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (rows.length > MAX_ROWS) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_ROWS} rows can be imported at once` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const schedule = await loadMealSchedule(supabase)
+    const mealKeys = new Set(schedule.mealTypes.map((type) => type.key))
+    const today = getMessLocalTime(new Date()).date
+
+    // Load the students the rows refer to, a few at a time
+    const studentIds = [...new Set(rows.map((row) => Number(row.studentId)).filter(Number.isInteger))]
+    const students = new Map<number, { id: number; joinDate: string; endDate: string; meals: string[] }>()
+
+    for (let i = 0; i < studentIds.length; i += 200) {
+      const { data, error: studentsError } = await supabase
+        .from('Student')
+        .select('id, joinDate, endDate, plan:Plan(meals)')
+        .in('id', studentIds.slice(i, i + 200))
+
+      if (studentsError) throw studentsError
+
+      ;(data || []).forEach((student) => {
+        students.set(student.id, {
+          id: student.id,
+          joinDate: String(student.joinDate).slice(0, 10),
+          endDate: String(student.endDate).slice(0, 10),
+          meals: parsePlanMeals(schedule, student.plan?.meals),
+        })
+      })
+    }
+
+    // Check every row before touching anything - the import is all or nothing
+    const errors: string[] = []
+    const seen = new Set<string>()
+
+    for (const row of rows) {
+      const line = `Line ${row.line ?? '?'}`
+      const student = students.get(Number(row.studentId))
+
+      if (!student) {
+        errors.push(`${line}: student not found`)
+        continue
+      }
+      if (typeof row.date !== 'string' || !DATE_PATTERN.test(row.date)) {
+        errors.push(`${line}: invalid date`)
+        continue
+      }
+      if (row.date > today) {
+        errors.push(`${line}: date is in the future`)
+        continue
+      }
+      if (row.date < student.joinDate || row.date > student.endDate) {
+        errors.push(`${line}: date is outside the student's plan`)
+        continue
+      }
+
+      const key = `${student.id}:${row.date}`
+      if (seen.has(key)) {
+        errors.push(`${line}: student and date appear more than once`)
+        continue
+      }
+      seen.add(key)
+
+      const entries = Object.entries(row.meals || {})
+      if (entries.length === 0) {
+        errors.push(`${line}: no meals given`)
+        continue
+      }
+
+      for (const [meal, value] of entries) {
+        if (!mealKeys.has(meal) || typeof value !== 'boolean') {
+          errors.push(`${line}: invalid meal ${meal}`)
+          break
+        }
+        if (value && !student.meals.includes(meal)) {
+          errors.push(`${line}: plan does not include ${getMealName(schedule, meal)}`)
+          break
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.slice(0, 5).join('; ') + (errors.length > 5 ? ` (+${errors.length - 5} more)` : '') }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Use RPC function so the whole file is applied in one transaction
+    const { data: changed, error: rpcError } = await supabase.rpc('import_attendance', {
+      p_rows: rows.map((row) => ({ studentId: Number(row.studentId), date: row.date, meals: row.meals })),
+      p_reason: trimmedReason,
+      p_changed_by: user.id,
+      p_changed_by_email: user.email ?? null,
+    })
+
+    if (rpcError) {
+      console.error('RPC Error:', rpcError)
+      return new Response(
+        JSON.stringify({ error: `Failed to import attendance: ${rpcError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const dates = rows.map((row) => row.date).sort()
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: 'IMPORT_ATTENDANCE',
+          entity: 'Attendance',
+          entityId: null,
+          details: {
+            rows: rows.length,
+            changed,
+            students: studentIds.length,
+            from: dates[0],
+            to: dates[dates.length - 1],
+            reason: trimmedReason,
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, changed }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in import-attendance function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
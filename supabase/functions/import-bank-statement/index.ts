@@ -0,0 +1,219 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getBankPaymentMethods, loadPaymentMethods } from '../_shared/payment-methods.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Same limits as src/lib/statement-import.ts
+const MAX_ROWS = 1000
+
+interface StatementImportRow {
+  line: number // CSV line, used in error messages
+  action: 'match' | 'confirm' | 'create'
+  paymentId?: number // match
+  requestId?: number // confirm
+  studentId?: number // create
+  amount?: number
+  date?: string // "YYYY-MM-DD"
+  method?: string
+  reference?: string | null
+}
+
+interface ImportBankStatementRequest {
+  fileName: string
+  startDate: string
+  endDate: string
+  rows: StatementImportRow[]
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Check if user is admin (check profiles table)
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { fileName, startDate, endDate, rows }: ImportBankStatementRequest = await req.json()
+
+    if (
+      typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) ||
+      typeof endDate !== 'string' || !DATE_PATTERN.test(endDate) ||
+      endDate < startDate
+    ) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid statement dates' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!Array.isArray(rows)) {
+      return new Response(
+        JSON.stringify({ error: 'No statement rows to import' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (rows.length > MAX_ROWS) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_ROWS} rows can be imported at once` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // New payments for credits are recorded with a method that reaches the
+    // bank (AppSetting 'payment_methods'), as import_bank_statement checks
+    const bankMethods = getBankPaymentMethods(await loadPaymentMethods(supabase)).map((method) => method.key)
+
+    // Check every row before touching anything - the import is all or nothing
+    const errors: string[] = []
+    const references = new Set<string>()
+
+    for (const row of rows) {
+      const line = `Line ${row.line ?? '?'}`
+      const reference = typeof row.reference === 'string' ? row.reference.replace(/\s+/g, '').toUpperCase() : ''
+
+      if (reference) {
+        if (references.has(reference)) {
+          errors.push(`${line}: reference ${reference} appears more than once`)
+          continue
+        }
+        references.add(reference)
+      }
+
+      if (row.action === 'match') {
+        if (!Number.isInteger(Number(row.paymentId))) errors.push(`${line}: payment not given`)
+        continue
+      }
+
+      if (row.action !== 'confirm' && row.action !== 'create') {
+        errors.push(`${line}: invalid action`)
+        continue
+      }
+
+      const amount = Math.round(Number(row.amount) * 100) / 100
+      if (!Number.isFinite(amount) || amount <= 0) {
+        errors.push(`${line}: invalid amount`)
+      } else if (typeof row.date !== 'string' || !DATE_PATTERN.test(row.date) || row.date < startDate || row.date > endDate) {
+        errors.push(`${line}: invalid date`)
+      } else if (row.action === 'confirm' && !Number.isInteger(Number(row.requestId))) {
+        errors.push(`${line}: UPI payment not given`)
+      } else if (row.action === 'create' && !Number.isInteger(Number(row.studentId))) {
+        errors.push(`${line}: student not given`)
+      } else if (row.action === 'create' && !bankMethods.includes(row.method ?? '')) {
+        errors.push(`${line}: invalid payment method`)
+      }
+    }
+
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.slice(0, 5).join('; ') + (errors.length > 5 ? ` (+${errors.length - 5} more)` : '') }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Use RPC function so the whole statement is applied in one transaction
+    const { data: result, error: rpcError } = await supabase.rpc('import_bank_statement', {
+      p_file_name: typeof fileName === 'string' && fileName.trim() ? fileName.trim().slice(0, 200) : 'statement.csv',
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_rows: rows.map((row) => ({
+        action: row.action,
+        paymentId: row.paymentId ?? null,
+        requestId: row.requestId ?? null,
+        studentId: row.studentId ?? null,
+        amount: row.amount ?? null,
+        date: row.date ?? null,
+        method: row.method ?? null,
+        reference: row.reference ?? null,
+      })),
+      p_imported_by: user.id,
+      p_imported_by_email: user.email ?? null,
+    })
+
+    if (rpcError) {
+      console.error('RPC Error:', rpcError)
+      return new Response(
+        JSON.stringify({ error: `Failed to import statement: ${rpcError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: 'IMPORT_BANK_STATEMENT',
+          entity: 'BankStatementImport',
+          entityId: result?.importId ?? null,
+          details: {
+            fileName,
+            from: startDate,
+            to: endDate,
+            rows: rows.length,
+            ...result,
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, result }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in import-bank-statement function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,190 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Same limit as the reason dialog in the app
+const MAX_REASON_LENGTH = 500
+
+// 'run' charges late fees now, as the daily run does (see
+// 022_late_fees.sql); 'waive' takes a fee back off and logs why
+type LateFeesRequest =
+  | { action: 'run' }
+  | { action: 'waive'; lateFeeId: number; reason: string }
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Check if user is admin (check profiles table)
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const body: LateFeesRequest = await req.json()
+
+    if (body.action === 'run') {
+      const { data: runId, error: runError } = await supabase.rpc('run_late_fees', {
+        p_source: 'manual',
+        p_ran_by: user.id,
+        p_ran_by_email: user.email ?? null,
+      })
+
+      if (runError) {
+        console.error('RPC Error:', runError)
+        return new Response(
+          JSON.stringify({ error: `Failed to charge late fees: ${runError.message}` }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: run, error: fetchError } = await supabase
+        .from('LateFeeRun')
+        .select('*')
+        .eq('id', runId)
+        .single()
+
+      if (fetchError || !run) {
+        return new Response(
+          JSON.stringify({ error: 'Late fees charged but failed to fetch the result' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, run }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (body.action !== 'waive') {
+      return new Response(
+        JSON.stringify({ error: 'Unknown action' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const trimmedReason = typeof body.reason === 'string' ? body.reason.trim() : ''
+    if (!trimmedReason || trimmedReason.length > MAX_REASON_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `A reason of at most ${MAX_REASON_LENGTH} characters is required` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const lateFeeId = Number(body.lateFeeId)
+    if (!Number.isInteger(lateFeeId) || lateFeeId <= 0) {
+      return new Response(
+        JSON.stringify({ error: 'A valid late fee is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: lateFee, error: lateFeeError } = await supabase
+      .from('LateFee')
+      .select('id, studentId, periodId, ruleId, ruleName, amount, amountDue, dueDate')
+      .eq('id', lateFeeId)
+      .maybeSingle()
+
+    if (lateFeeError || !lateFee) {
+      return new Response(
+        JSON.stringify({ error: 'Late fee not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Already waived, not waivable or removed by hand: the function says which
+    const { data: waiverEntryId, error: waiveError } = await supabase.rpc('waive_late_fee', {
+      p_late_fee_id: lateFeeId,
+      p_reason: trimmedReason,
+      p_waived_by: user.id,
+      p_waived_by_email: user.email ?? null,
+    })
+
+    if (waiveError) {
+      console.error('RPC Error:', waiveError)
+      return new Response(
+        JSON.stringify({ error: waiveError.message }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: 'WAIVE_LATE_FEE',
+          entity: 'LateFee',
+          entityId: lateFeeId,
+          details: {
+            reason: trimmedReason,
+            studentId: lateFee.studentId,
+            periodId: lateFee.periodId,
+            ruleId: lateFee.ruleId,
+            ruleName: lateFee.ruleName,
+            amount: lateFee.amount,
+            amountDue: lateFee.amountDue,
+            dueDate: lateFee.dueDate,
+            waiverEntryId,
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, waiverEntryId }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in late-fees function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,163 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getQRSettings, verifyQRPayload } from '../_shared/qr-token.ts'
+import {
+  ATTENDANCE_STUDENT_SELECT,
+  markStudentAttendance,
+  type AttendanceStudent,
+  type MarkAttendanceResult,
+} from '../_shared/attendance.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const QR_REJECTION_MESSAGES = {
+  invalid: 'This is not a valid mess attendance QR code.\n\nPlease scan the live code displayed at the mess counter.',
+  expired: 'This QR code has expired.\n\nThe code at the counter refreshes every few seconds - please scan it again.',
+  replayed: 'This QR code has already been used from your account.\n\nPlease scan the live code displayed at the mess counter.',
+}
+
+// A scan queued offline is accepted for this long past the code's normal
+// TTL. Kept short: the queued flag comes from the client, and a longer window
+// would let a forwarded photo of the code be redeemed from anywhere.
+const QUEUED_SCAN_GRACE_MINUTES = 5
+
+// Business outcomes (wrong meal time, expired plan...) are 200s so the app can show the message
+const attendanceResult = (result: MarkAttendanceResult) =>
+  new Response(
+    JSON.stringify(result),
+    { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { secret, ttlSeconds } = getQRSettings()
+    if (!secret) {
+      return new Response(
+        JSON.stringify({ error: 'QR signing secret not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { payload, queued } = await req.json()
+    if (!payload || typeof payload !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'QR payload is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Resolve the student from the token, never from the request body
+    const { data: student, error: studentError } = await supabase
+      .from('Student')
+      .select(ATTENDANCE_STUDENT_SELECT)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (studentError || !student) {
+      return attendanceResult({
+        success: false,
+        message: 'Student profile not found. Please contact administrator.',
+      })
+    }
+
+    // Verify the signed QR payload before anything is written, against the
+    // time the server received it. A code still inside its TTL is a live
+    // scan whatever the client says. Only a scan queued offline that arrives
+    // after that gets the short grace period, and as it can't prove when it
+    // was made it is dated by the code's signed issue time, not the phone's.
+    const receivedAt = new Date()
+    let verification = await verifyQRPayload(secret, payload, { ttlSeconds, at: receivedAt })
+    let live = true
+
+    if (verification.valid === false && verification.reason === 'expired' && queued === true) {
+      verification = await verifyQRPayload(secret, payload, {
+        ttlSeconds: ttlSeconds + QUEUED_SCAN_GRACE_MINUTES * 60,
+        at: receivedAt,
+      })
+      live = false
+    }
+
+    if (verification.valid === false) {
+      return attendanceResult({
+        success: false,
+        message: !live && verification.reason === 'expired'
+          ? `This offline scan reached the server more than ${QUEUED_SCAN_GRACE_MINUTES} minutes after the code was shown and can't be accepted.\n\nPlease ask the administrator to mark your attendance.`
+          : QR_REJECTION_MESSAGES[verification.reason],
+        rejectionReason: verification.reason,
+      })
+    }
+
+    const scanTime = live ? receivedAt : new Date(verification.claims.issuedAt * 1000)
+
+    // Each code can be redeemed once per student; the unique constraint rejects replays
+    const { error: scanError } = await supabase
+      .from('AttendanceQRScan')
+      .insert({
+        nonce: verification.claims.nonce,
+        studentId: student.id,
+      })
+
+    if (scanError) {
+      if (scanError.code === '23505') {
+        return attendanceResult({
+          success: false,
+          message: QR_REJECTION_MESSAGES.replayed,
+          rejectionReason: 'replayed',
+        })
+      }
+      console.error('Error recording QR scan:', scanError)
+      return attendanceResult({
+        success: false,
+        message: 'Unable to mark attendance. Please try again.',
+      })
+    }
+
+    // Meal time is judged at the moment of the scan
+    return attendanceResult(
+      await markStudentAttendance(supabase, student as AttendanceStudent, scanTime, live, {
+        source: 'qr',
+        userId: user.id,
+        email: user.email,
+      })
+    )
+  } catch (error) {
+    console.error('Error in mark-attendance function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,181 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  getMealName,
+  getMessLocalTime,
+  loadMealSchedule,
+  minutesUntilMeal,
+  parsePlanMeals,
+} from '../_shared/meal-schedule.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Students can RSVP for meals up to this many days ahead
+const RSVP_DAYS_AHEAD = 7
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // attending: true confirms, false opts out, null clears the RSVP
+    const { date, meal, attending } = await req.json()
+
+    if (typeof date !== 'string' || !DATE_PATTERN.test(date) || typeof meal !== 'string' ||
+        !(typeof attending === 'boolean' || attending === null)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid request: date (YYYY-MM-DD), meal and attending are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Resolve the student from the token, never from the request body
+    const { data: student, error: studentError } = await supabase
+      .from('Student')
+      .select('id, joinDate, endDate, isActive, plan:Plan(meals)')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (studentError || !student) {
+      return new Response(
+        JSON.stringify({ error: 'Student profile not found. Please contact administrator.' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const schedule = await loadMealSchedule(supabase)
+    const mealName = getMealName(schedule, meal)
+
+    if (!student.isActive ||
+        String(student.joinDate).slice(0, 10) > date ||
+        String(student.endDate).slice(0, 10) < date) {
+      return new Response(
+        JSON.stringify({ error: 'Your meal plan does not cover this day' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!parsePlanMeals(schedule, student.plan?.meals).includes(meal)) {
+      return new Response(
+        JSON.stringify({ error: `Your meal plan does not include ${mealName.toLowerCase()}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Cut-off is judged with mess-local server time, never the phone's clock
+    const local = getMessLocalTime(new Date())
+    const minutesLeft = minutesUntilMeal(schedule, local, date, meal)
+
+    if (minutesLeft === null) {
+      return new Response(
+        JSON.stringify({ error: `${mealName} is not served on this day` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (minutesLeft < schedule.rsvpCutoffMinutes) {
+      return new Response(
+        JSON.stringify({ error: `RSVP for ${mealName.toLowerCase()} has closed` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (minutesLeft > (RSVP_DAYS_AHEAD + 1) * 24 * 60) {
+      return new Response(
+        JSON.stringify({ error: `You can only RSVP up to ${RSVP_DAYS_AHEAD} days ahead` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (attending === null) {
+      const { error: deleteError } = await supabase
+        .from('MealRSVP')
+        .delete()
+        .eq('studentId', student.id)
+        .eq('date', date)
+        .eq('meal', meal)
+
+      if (deleteError) {
+        console.error('Error clearing RSVP:', deleteError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to update RSVP' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ message: 'RSVP cleared', rsvp: null }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: rsvp, error: upsertError } = await supabase
+      .from('MealRSVP')
+      .upsert(
+        {
+          studentId: student.id,
+          date,
+          meal,
+          attending,
+          updatedAt: new Date().toISOString(),
+        },
+        { onConflict: 'studentId,date,meal' }
+      )
+      .select('*')
+      .single()
+
+    if (upsertError) {
+      console.error('Error saving RSVP:', upsertError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to update RSVP' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: attending ? `${mealName} confirmed` : `Opted out of ${mealName.toLowerCase()}`,
+        rsvp,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in meal-rsvp function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
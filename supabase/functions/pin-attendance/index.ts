@@ -0,0 +1,200 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  ATTENDANCE_STUDENT_SELECT,
+  markStudentAttendance,
+  type AttendanceStudent,
+  type MarkAttendanceResult,
+} from '../_shared/attendance.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Wrong PINs allowed before the student is locked out of the PIN pad
+const PIN_MAX_ATTEMPTS = 5
+const PIN_LOCKOUT_MINUTES = 15
+
+// Business outcomes (wrong PIN, expired plan...) are 200s so the app can show the message
+const attendanceResult = (result: MarkAttendanceResult) =>
+  new Response(
+    JSON.stringify(result),
+    { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
+// Compare without short-circuiting so response time doesn't leak matching digits
+function pinMatches(expected: string, actual: string): boolean {
+  if (expected.length !== actual.length) return false
+  let diff = 0
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // The PIN pad runs on the admin's device (attendance screen or kiosk)
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { rollNumber, pin } = await req.json()
+    if (!rollNumber || typeof rollNumber !== 'string' || !pin || typeof pin !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Roll number and PIN are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: students, error: studentError } = await supabase
+      .from('Student')
+      .select(`${ATTENDANCE_STUDENT_SELECT}, pin, pinFailedAttempts, pinLockedUntil`)
+      .eq('rollNumber', rollNumber.trim())
+      .limit(2)
+
+    if (studentError) {
+      console.error('Error fetching student:', studentError)
+      return attendanceResult({
+        success: false,
+        message: 'Unable to mark attendance. Please try again.',
+      })
+    }
+
+    if (!students || students.length === 0) {
+      return attendanceResult({
+        success: false,
+        message: 'No student found with this roll number.',
+      })
+    }
+
+    if (students.length > 1) {
+      return attendanceResult({
+        success: false,
+        message: 'More than one student has this roll number.\n\nPlease ask the administrator to mark your attendance.',
+      })
+    }
+
+    const student = students[0]
+    const now = new Date()
+
+    if (student.pinLockedUntil && new Date(student.pinLockedUntil) > now) {
+      const minutesLeft = Math.ceil((new Date(student.pinLockedUntil).getTime() - now.getTime()) / 60000)
+      return attendanceResult({
+        success: false,
+        message: `Too many wrong PINs.\n\nPIN entry is locked for ${minutesLeft} more minute${minutesLeft === 1 ? '' : 's'}.`,
+      })
+    }
+
+    if (!student.pin || !pinMatches(String(student.pin), pin)) {
+      // A lockout that has run out starts a fresh count
+      const previousAttempts = student.pinLockedUntil ? 0 : student.pinFailedAttempts || 0
+      const attempts = previousAttempts + 1
+      const locked = attempts >= PIN_MAX_ATTEMPTS
+
+      const { error: updateError } = await supabase
+        .from('Student')
+        .update({
+          pinFailedAttempts: locked ? 0 : attempts,
+          pinLockedUntil: locked
+            ? new Date(now.getTime() + PIN_LOCKOUT_MINUTES * 60 * 1000).toISOString()
+            : null,
+        })
+        .eq('id', student.id)
+
+      if (updateError) {
+        console.error('Error recording failed PIN attempt:', updateError)
+      }
+
+      const attemptsLeft = PIN_MAX_ATTEMPTS - attempts
+      return attendanceResult({
+        success: false,
+        message: locked
+          ? `Too many wrong PINs.\n\nPIN entry is locked for ${PIN_LOCKOUT_MINUTES} minutes.`
+          : `Incorrect PIN. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`,
+      })
+    }
+
+    if (student.pinFailedAttempts || student.pinLockedUntil) {
+      await supabase
+        .from('Student')
+        .update({ pinFailedAttempts: 0, pinLockedUntil: null })
+        .eq('id', student.id)
+    }
+
+    const result = await markStudentAttendance(supabase, student as AttendanceStudent, now, true, {
+      source: 'pin',
+      userId: user.id,
+      email: user.email,
+    })
+
+    // Record who keyed the PIN in so PIN marks can be told apart from QR scans
+    if (result.success && !result.alreadyMarked) {
+      try {
+        await supabase.from('AuditLog').insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: 'MARK_ATTENDANCE',
+          entity: 'Attendance',
+          entityId: student.id,
+          details: {
+            source: 'pin',
+            meal: result.meal,
+            markedAt: now.toISOString(),
+          },
+        })
+      } catch (auditError) {
+        console.error('Error creating audit log:', auditError)
+        // Don't fail the request if audit log fails
+      }
+    }
+
+    return attendanceResult(result)
+  } catch (error) {
+    console.error('Error in pin-attendance function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,190 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Same limits as src/lib/reconciliation.ts
+const MAX_STUDENTS = 100
+const MAX_REASON_LENGTH = 500
+
+// 'scan' checks every student and keeps the result (see
+// 015_balance_reconciliation.sql); 'apply' rebuilds the chosen students'
+// ledgers from their records and logs each correction
+type ReconcileBalancesRequest =
+  | { action: 'scan' }
+  | { action: 'apply'; studentIds: number[]; reason: string }
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Check if user is admin (check profiles table)
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const body: ReconcileBalancesRequest = await req.json()
+
+    if (body.action === 'scan') {
+      const { data: runId, error: runError } = await supabase.rpc('run_balance_check', {
+        p_source: 'manual',
+        p_ran_by: user.id,
+        p_ran_by_email: user.email ?? null,
+      })
+
+      if (runError) {
+        console.error('RPC Error:', runError)
+        return new Response(
+          JSON.stringify({ error: `Failed to check balances: ${runError.message}` }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: run, error: fetchError } = await supabase
+        .from('BalanceCheckRun')
+        .select('*')
+        .eq('id', runId)
+        .single()
+
+      if (fetchError || !run) {
+        return new Response(
+          JSON.stringify({ error: 'Balances checked but failed to fetch the result' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, run }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (body.action !== 'apply') {
+      return new Response(
+        JSON.stringify({ error: 'Unknown action' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const trimmedReason = typeof body.reason === 'string' ? body.reason.trim() : ''
+    if (!trimmedReason || trimmedReason.length > MAX_REASON_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `A reason of at most ${MAX_REASON_LENGTH} characters is required` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const studentIds = Array.isArray(body.studentIds)
+      ? Array.from(new Set(body.studentIds.map(Number).filter((id) => Number.isInteger(id) && id > 0)))
+      : []
+
+    if (studentIds.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No students to reconcile' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (studentIds.length > MAX_STUDENTS) {
+      return new Response(
+        JSON.stringify({ error: `Reconcile at most ${MAX_STUDENTS} students at a time` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const results: { studentId: number; success: boolean; error?: string }[] = []
+
+    // One at a time so each student's correction stands on its own
+    for (const studentId of studentIds) {
+      const { data: found } = await supabase.rpc('balance_discrepancies', { p_student_id: studentId })
+      const discrepancy = Array.isArray(found) ? found[0] ?? null : null
+
+      const { data: outcome, error: reconcileError } = await supabase.rpc('reconcile_student', {
+        p_student_id: studentId,
+      })
+
+      if (reconcileError) {
+        console.error('Error reconciling student:', studentId, reconcileError)
+        results.push({ studentId, success: false, error: reconcileError.message })
+        continue
+      }
+
+      // Create audit log (if AuditLog table exists)
+      try {
+        await supabase
+          .from('AuditLog')
+          .insert({
+            userId: user.id,
+            userEmail: user.email,
+            action: 'RECONCILE_BALANCE',
+            entity: 'Student',
+            entityId: studentId,
+            details: {
+              reason: trimmedReason,
+              before: outcome?.before ?? null,
+              after: outcome?.after ?? null,
+              entriesAdded: outcome?.entriesAdded ?? 0,
+              entriesFixed: outcome?.entriesFixed ?? 0,
+              issues: discrepancy?.issues ?? [],
+            },
+          })
+      } catch (auditError) {
+        // Don't fail if audit log fails
+        console.error('Error creating audit log:', auditError)
+      }
+
+      results.push({ studentId, success: true })
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in reconcile-balances function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
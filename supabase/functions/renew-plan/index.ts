@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkPaymentMethod, loadPaymentMethods, normalizePaymentReference } from '../_shared/payment-methods.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -39,7 +40,17 @@ serve(async (req) => {
     }
 
     // Get request body
-    const { studentId, planId, paid = 0, extendFromCurrent = false, startDate } = await req.json()
+    const {
+      studentId,
+      planId,
+      paid = 0,
+      method,
+      reference,
+      extendFromCurrent = false,
+      startDate,
+      applyCredit = true,
+      installments = [],
+    } = await req.json()
 
     // Validation
     if (!studentId || !planId) {
@@ -56,6 +67,15 @@ serve(async (req) => {
       )
     }
 
+    if (!Array.isArray(installments)) {
+      return new Response(
+        JSON.stringify({ error: 'Installments must be a list' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const paymentReference = normalizePaymentReference(reference)
+
     // Verify user is admin (check profile)
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
@@ -136,7 +156,7 @@ serve(async (req) => {
       newEndDate.setDate(newEndDate.getDate() + newPlan.durationDays)
     }
 
-    // Calculate balance (no credit system)
+    // The new term is charged at the plan's current price
     const planPrice = typeof newPlan.price === 'number' ? newPlan.price : parseFloat(newPlan.price) || 0
     const newPayment = paid || 0
     
@@ -148,37 +168,65 @@ serve(async (req) => {
       )
     }
     
-    const existingPaid = typeof existingStudent.paid === 'number' ? existingStudent.paid : parseFloat(existingStudent.paid) || 0
-    const totalPaid = Math.round((existingPaid + newPayment) * 100) / 100
-    
-    // Calculate balance
-    const balance = Math.max(Math.round((planPrice - totalPaid) * 100) / 100, 0)
-    const credit = 0 // Credit system removed - always set to 0
+    // What's paid now is recorded with the method the admin chose, checked
+    // against the configured methods like any other payment
+    if (newPayment > 0) {
+      const methodError = checkPaymentMethod(await loadPaymentMethods(supabase), String(method ?? ''), paymentReference)
+      if (methodError) {
+        return new Response(
+          JSON.stringify({ error: methodError }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
 
-    // Update student
+    // The renewal is a new term; earlier terms keep their price and paid,
+    // and anything still owed on them stays in the balance. The term, its
+    // schedule, the payment and the credit are written in one transaction,
+    // so a bad schedule leaves nothing behind
+    const { data: renewal, error: renewError } = await supabase.rpc('renew_plan', {
+      p_student_id: studentId,
+      p_plan_id: planId,
+      p_start_date: newJoinDate.toISOString().split('T')[0],
+      p_end_date: newEndDate.toISOString().split('T')[0],
+      p_price: Math.round(planPrice * 100) / 100,
+      p_paid: newPayment,
+      p_payment_date: today.toISOString().split('T')[0],
+      p_method: newPayment > 0 ? method : null,
+      p_reference: newPayment > 0 ? paymentReference : null,
+      p_installments: installments.map((installment: { dueDate?: unknown; amount?: unknown }) => ({
+        dueDate: installment?.dueDate ?? null,
+        amount: installment?.amount ?? null,
+      })),
+      p_apply_credit: applyCredit === true,
+      p_created_by: user.id,
+      p_created_by_email: user.email ?? null,
+    })
+
+    if (renewError || !renewal) {
+      console.error('RPC Error:', renewError)
+      return new Response(
+        JSON.stringify({ error: `Failed to renew plan: ${renewError?.message || 'no result'}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const creditApplied = Number(renewal.creditApplied || 0)
+
+    // Plan, dates and amounts on the student follow the new period
     const { data: updatedStudent, error: updateError } = await supabase
       .from('Student')
-      .update({
-        planId: planId,
-        price: planPrice,
-        joinDate: newJoinDate.toISOString().split('T')[0],
-        endDate: newEndDate.toISOString().split('T')[0],
-        paid: Math.round(totalPaid * 100) / 100,
-        balance: Math.round(balance * 100) / 100,
-        credit: Math.round(credit * 100) / 100,
-        isActive: true, // Reactivate if inactive
-      })
-      .eq('id', studentId)
       .select(`
         *,
         plan:Plan(*)
       `)
+      .eq('id', studentId)
       .single()
 
     if (updateError) {
-      console.error('Error updating student:', updateError)
+      console.error('Error fetching student:', updateError)
       return new Response(
-        JSON.stringify({ error: 'Failed to update student plan' }),
+        JSON.stringify({ error: 'Plan renewed but failed to fetch the student' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
@@ -199,8 +247,13 @@ serve(async (req) => {
             newPlanId: planId,
             oldEndDate: existingStudent.endDate,
             newEndDate: newEndDate.toISOString().split('T')[0],
+            periodId: renewal.periodId,
+            paymentId: renewal.paymentId,
             paid: newPayment,
-            totalPaid: totalPaid,
+            method: newPayment > 0 ? method : null,
+            creditApplied,
+            installments: installments.length,
+            balance: updatedStudent.balance,
           },
         })
     } catch (auditError) {
@@ -212,6 +265,7 @@ serve(async (req) => {
       JSON.stringify({
         message: 'Plan renewed successfully',
         student: updatedStudent,
+        creditApplied,
       }),
       { 
         status: 200, 
@@ -0,0 +1,174 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getMessLocalTime } from '../_shared/meal-schedule.ts'
+import { loadLeavePolicy, validateLeaveDates } from '../_shared/leave-policy.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { startDate, endDate, reason } = await req.json()
+
+    if (typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) ||
+        typeof endDate !== 'string' || !DATE_PATTERN.test(endDate)) {
+      return new Response(
+        JSON.stringify({ error: 'Start and end dates are required (YYYY-MM-DD)' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Resolve the student from the token, never from the request body
+    const { data: student, error: studentError } = await supabase
+      .from('Student')
+      .select('id, name, joinDate, endDate, isActive')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (studentError || !student) {
+      return new Response(
+        JSON.stringify({ error: 'Student profile not found. Please contact administrator.' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!student.isActive) {
+      return new Response(
+        JSON.stringify({ error: 'Your account is inactive. Please contact administrator.' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Notice is counted from the mess-local date on the server, not the phone's clock
+    const policy = await loadLeavePolicy(supabase)
+    const today = getMessLocalTime(new Date()).date
+    const invalidReason = validateLeaveDates(policy, startDate, endDate, today)
+    if (invalidReason) {
+      return new Response(
+        JSON.stringify({ error: invalidReason }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (startDate > String(student.endDate).slice(0, 10)) {
+      return new Response(
+        JSON.stringify({ error: 'Leave must start before your meal plan ends' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // One open request per day
+    const { data: overlapping, error: overlapError } = await supabase
+      .from('LeaveRequest')
+      .select('id')
+      .eq('studentId', student.id)
+      .in('status', ['pending', 'approved'])
+      .lte('startDate', endDate)
+      .gte('endDate', startDate)
+      .limit(1)
+
+    if (overlapError) {
+      console.error('Error checking overlapping leave:', overlapError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to submit leave request' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (overlapping && overlapping.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'You already have a leave request covering some of these days' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: leaveRequest, error: insertError } = await supabase
+      .from('LeaveRequest')
+      .insert({
+        studentId: student.id,
+        startDate,
+        endDate,
+        reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+      })
+      .select('*')
+      .single()
+
+    if (insertError) {
+      console.error('Error creating leave request:', insertError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to submit leave request' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: 'REQUEST_LEAVE',
+          entity: 'LeaveRequest',
+          entityId: leaveRequest.id,
+          details: {
+            studentId: student.id,
+            studentName: student.name,
+            startDate,
+            endDate,
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: 'Leave request submitted',
+        leaveRequest,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in request-leave function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
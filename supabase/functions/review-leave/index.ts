@@ -0,0 +1,171 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { calculateRebateDays, loadLeavePolicy } from '../_shared/leave-policy.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Verify user is admin (check profile)
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { leaveRequestId, decision, note } = await req.json()
+
+    if (!leaveRequestId || (decision !== 'approved' && decision !== 'rejected')) {
+      return new Response(
+        JSON.stringify({ error: "Invalid request: leaveRequestId and decision ('approved' or 'rejected') are required" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: leaveRequest, error: leaveError } = await supabase
+      .from('LeaveRequest')
+      .select(`
+        *,
+        student:Student(id, name, joinDate, endDate)
+      `)
+      .eq('id', leaveRequestId)
+      .maybeSingle()
+
+    if (leaveError || !leaveRequest) {
+      return new Response(
+        JSON.stringify({ error: 'Leave request not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (leaveRequest.status !== 'pending') {
+      return new Response(
+        JSON.stringify({ error: `This leave request is already ${leaveRequest.status}` }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const student = leaveRequest.student
+    const oldEndDate = String(student.endDate).slice(0, 10)
+    let rebateDays = 0
+
+    if (decision === 'approved') {
+      const policy = await loadLeavePolicy(supabase)
+      rebateDays = calculateRebateDays(policy, leaveRequest, {
+        joinDate: String(student.joinDate).slice(0, 10),
+        endDate: oldEndDate,
+      })
+    }
+
+    // Claim the request and move the current term's end date in one
+    // transaction, so a double tap can't extend the plan twice
+    const { data: review, error: reviewError } = await supabase.rpc('review_leave_request', {
+      p_leave_request_id: leaveRequestId,
+      p_decision: decision,
+      p_rebate_days: rebateDays,
+      p_reviewed_by: user.id,
+      p_note: typeof note === 'string' ? note : null,
+    })
+
+    if (reviewError) {
+      console.error('RPC Error:', reviewError)
+      return new Response(
+        JSON.stringify({ error: `Failed to review leave request: ${reviewError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!review) {
+      return new Response(
+        JSON.stringify({ error: 'This leave request has already been reviewed' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const updatedRequest = review.leaveRequest
+    const newEndDate = review.newEndDate ? String(review.newEndDate).slice(0, 10) : oldEndDate
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: decision === 'approved' ? 'APPROVE_LEAVE' : 'REJECT_LEAVE',
+          entity: 'LeaveRequest',
+          entityId: leaveRequestId,
+          details: {
+            studentId: student.id,
+            studentName: student.name,
+            startDate: leaveRequest.startDate,
+            endDate: leaveRequest.endDate,
+            rebateDays,
+            oldEndDate,
+            newEndDate,
+            note: updatedRequest.reviewNote,
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: decision === 'approved' ? 'Leave approved' : 'Leave rejected',
+        leaveRequest: updatedRequest,
+        newEndDate,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in review-leave function:', error)
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,176 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// UTRs are 12 digits; other apps show longer alphanumeric transaction ids
+const REFERENCE_PATTERN = /^[A-Z0-9]{6,35}$/
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { amount, reference, screenshotPath } = await req.json()
+
+    const normalizedReference = typeof reference === 'string' ? reference.replace(/\s+/g, '').toUpperCase() : ''
+    const roundedAmount = Math.round(Number(amount) * 100) / 100
+
+    if (!Number.isFinite(roundedAmount) || roundedAmount <= 0) {
+      return new Response(
+        JSON.stringify({ error: 'Enter the amount you paid' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!REFERENCE_PATTERN.test(normalizedReference)) {
+      return new Response(
+        JSON.stringify({ error: 'Enter the UTR / transaction ID shown in your UPI app' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Screenshots may only come from the student's own folder
+    if (screenshotPath != null && (typeof screenshotPath !== 'string' || !screenshotPath.startsWith(`${user.id}/`))) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid screenshot' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Resolve the student from the token, never from the request body
+    const { data: student, error: studentError } = await supabase
+      .from('Student')
+      .select('id, name, isActive')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (studentError || !student) {
+      return new Response(
+        JSON.stringify({ error: 'Student profile not found. Please contact administrator.' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!student.isActive) {
+      return new Response(
+        JSON.stringify({ error: 'Your account is inactive. Please contact administrator.' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // The same transfer can only be claimed once
+    const { data: existingPayment, error: paymentCheckError } = await supabase
+      .from('Payment')
+      .select('id')
+      .ilike('reference', normalizedReference)
+      .limit(1)
+
+    if (paymentCheckError) {
+      console.error('Error checking payment reference:', paymentCheckError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to submit payment' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (existingPayment && existingPayment.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'A payment with this reference has already been recorded' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: paymentRequest, error: insertError } = await supabase
+      .from('UpiPaymentRequest')
+      .insert({
+        studentId: student.id,
+        amount: roundedAmount,
+        reference: normalizedReference,
+        screenshotPath: screenshotPath ?? null,
+      })
+      .select('*')
+      .single()
+
+    if (insertError) {
+      // upi_payment_request_reference_unique
+      if (insertError.code === '23505') {
+        return new Response(
+          JSON.stringify({ error: 'This reference has already been submitted' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      console.error('Error creating UPI payment request:', insertError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to submit payment' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create audit log (if AuditLog table exists)
+    try {
+      await supabase
+        .from('AuditLog')
+        .insert({
+          userId: user.id,
+          userEmail: user.email,
+          action: 'SUBMIT_UPI_PAYMENT',
+          entity: 'UpiPaymentRequest',
+          entityId: paymentRequest.id,
+          details: {
+            studentId: student.id,
+            studentName: student.name,
+            amount: roundedAmount,
+            reference: normalizedReference,
+          },
+        })
+    } catch (auditError) {
+      // Don't fail if audit log fails
+      console.error('Error creating audit log:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: 'Payment submitted for verification',
+        paymentRequest,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error in submit-upi-payment function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
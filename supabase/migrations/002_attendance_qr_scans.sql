@@ -0,0 +1,33 @@
+-- ============================================
+-- Rotating attendance QR codes
+-- ============================================
+-- Every redeemed QR nonce is recorded per student so the same
+-- signed payload cannot be used twice from one account.
+--
+-- Edge function secrets (set via `supabase secrets set`):
+--   QR_SIGNING_SECRET      - required, long random string
+--   QR_ROTATION_SECONDS    - optional, default 30
+--   QR_TOKEN_TTL_SECONDS   - optional, default 2 x rotation
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "AttendanceQRScan" (
+  id BIGSERIAL PRIMARY KEY,
+  nonce TEXT NOT NULL,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  "scannedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT attendance_qr_scan_unique UNIQUE (nonce, "studentId")
+);
+
+CREATE INDEX IF NOT EXISTS attendance_qr_scan_scanned_at_idx
+  ON "AttendanceQRScan" ("scannedAt");
+
+-- Only edge functions (service role) touch this table
+ALTER TABLE "AttendanceQRScan" ENABLE ROW LEVEL SECURITY;
+
+-- Old nonces are useless once expired; prune them daily
+-- (run after enabling pg_cron, see PLAN_EXPIRY_NOTIFICATIONS_SETUP.md)
+-- SELECT cron.schedule(
+--   'prune-attendance-qr-scans',
+--   '30 3 * * *',
+--   $$ DELETE FROM "AttendanceQRScan" WHERE "scannedAt" < NOW() - INTERVAL '2 days' $$
+-- );
@@ -0,0 +1,41 @@
+-- ============================================
+-- App-wide settings
+-- ============================================
+-- Key/value store for settings admins edit from the app
+-- (e.g. 'meal_schedule'). Values are JSON; the app falls
+-- back to built-in defaults when a key is missing.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "AppSetting" (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE "AppSetting" ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in needs the schedule (students see meal timings)
+DROP POLICY IF EXISTS "Authenticated users can read settings" ON "AppSetting";
+CREATE POLICY "Authenticated users can read settings"
+  ON "AppSetting" FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage settings" ON "AppSetting";
+CREATE POLICY "Admins can manage settings"
+  ON "AppSetting" FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
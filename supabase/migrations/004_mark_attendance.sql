@@ -0,0 +1,123 @@
+-- ============================================
+-- Server-side attendance marking
+-- ============================================
+-- Students no longer write to "Attendance" directly; the
+-- mark-attendance edge function validates the scan against
+-- server time and calls mark_meal_attendance().
+--
+-- Edge function secrets (set via `supabase secrets set`):
+--   MESS_TIMEZONE   - optional, IANA zone of the mess, default Asia/Kolkata
+-- ============================================
+
+-- One attendance row per student per day.
+-- If this fails, merge the duplicate rows first:
+--   SELECT "studentId", date, COUNT(*) FROM "Attendance"
+--   GROUP BY "studentId", date HAVING COUNT(*) > 1;
+CREATE UNIQUE INDEX IF NOT EXISTS attendance_student_date_unique
+  ON "Attendance" ("studentId", date);
+
+-- Marks one meal without touching the others.
+-- Returns true when the meal was already marked.
+CREATE OR REPLACE FUNCTION mark_meal_attendance(
+  p_student_id INTEGER,
+  p_date DATE,
+  p_meal TEXT,
+  p_scanned_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_already_marked BOOLEAN := FALSE;
+BEGIN
+  IF p_meal NOT IN ('breakfast', 'lunch', 'dinner') THEN
+    RAISE EXCEPTION 'Invalid meal: %', p_meal;
+  END IF;
+
+  -- Lock the existing row (if any) so concurrent scans serialize
+  SELECT CASE p_meal
+      WHEN 'breakfast' THEN breakfast
+      WHEN 'lunch' THEN lunch
+      ELSE dinner
+    END
+  INTO v_already_marked
+  FROM "Attendance"
+  WHERE "studentId" = p_student_id AND date = p_date
+  FOR UPDATE;
+
+  IF COALESCE(v_already_marked, FALSE) THEN
+    RETURN TRUE;
+  END IF;
+
+  INSERT INTO "Attendance" ("studentId", date, breakfast, lunch, dinner, "scannedAt", "updatedAt")
+  VALUES (
+    p_student_id,
+    p_date,
+    p_meal = 'breakfast',
+    p_meal = 'lunch',
+    p_meal = 'dinner',
+    p_scanned_at,
+    NOW()
+  )
+  ON CONFLICT ("studentId", date) DO UPDATE SET
+    breakfast = "Attendance".breakfast OR EXCLUDED.breakfast,
+    lunch = "Attendance".lunch OR EXCLUDED.lunch,
+    dinner = "Attendance".dinner OR EXCLUDED.dinner,
+    "updatedAt" = NOW();
+
+  RETURN FALSE;
+END;
+$$;
+
+-- Only the service role (edge functions) may call it
+REVOKE ALL ON FUNCTION mark_meal_attendance(INTEGER, DATE, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Students can read their own attendance but not write it.
+-- Drop every older policy that let anyone insert/update "Attendance"
+-- (whatever it was named); admins get theirs back below.
+ALTER TABLE "Attendance" ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'Attendance'
+    AND cmd IN ('INSERT', 'UPDATE', 'ALL')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON "Attendance"', v_policy.policyname);
+  END LOOP;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Students can view own attendance" ON "Attendance";
+CREATE POLICY "Students can view own attendance"
+  ON "Attendance" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "Attendance"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage attendance" ON "Attendance";
+CREATE POLICY "Admins can manage attendance"
+  ON "Attendance" FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
@@ -0,0 +1,16 @@
+-- ============================================
+-- Roll number + PIN attendance
+-- ============================================
+-- Students without a working phone type their roll number and
+-- 4-digit PIN on the admin's device. The pin-attendance edge
+-- function checks the PIN and locks the student out of the PIN
+-- pad after repeated wrong attempts.
+-- ============================================
+
+ALTER TABLE "Student"
+  ADD COLUMN IF NOT EXISTS "pinFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "pinLockedUntil" TIMESTAMPTZ;
+
+-- PIN lookups go by roll number
+CREATE INDEX IF NOT EXISTS student_roll_number_idx
+  ON "Student" ("rollNumber");
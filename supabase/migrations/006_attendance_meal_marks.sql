@@ -0,0 +1,92 @@
+-- ============================================
+-- Per-meal mark details on attendance
+-- ============================================
+-- "mealMarks" records when, how and by whom each meal was marked:
+--   { "lunch": { "at": "...", "source": "qr", "by": "<uuid>", "byEmail": "..." } }
+-- source is one of: qr, pin, manual, bulk, import.
+-- Rows marked before this migration have no entry and show
+-- without details.
+-- ============================================
+
+ALTER TABLE "Attendance"
+  ADD COLUMN IF NOT EXISTS "mealMarks" JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- The old signature can't record the source; replace it
+DROP FUNCTION IF EXISTS mark_meal_attendance(INTEGER, DATE, TEXT, TIMESTAMPTZ);
+
+-- Marks one meal without touching the others.
+-- Returns true when the meal was already marked.
+CREATE OR REPLACE FUNCTION mark_meal_attendance(
+  p_student_id INTEGER,
+  p_date DATE,
+  p_meal TEXT,
+  p_scanned_at TIMESTAMPTZ DEFAULT NOW(),
+  p_source TEXT DEFAULT 'qr',
+  p_marked_by UUID DEFAULT NULL,
+  p_marked_by_email TEXT DEFAULT NULL
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_already_marked BOOLEAN := FALSE;
+  v_mark JSONB;
+BEGIN
+  IF p_meal NOT IN ('breakfast', 'lunch', 'dinner') THEN
+    RAISE EXCEPTION 'Invalid meal: %', p_meal;
+  END IF;
+
+  IF p_source NOT IN ('qr', 'pin', 'manual', 'bulk', 'import') THEN
+    RAISE EXCEPTION 'Invalid source: %', p_source;
+  END IF;
+
+  -- Lock the existing row (if any) so concurrent scans serialize
+  SELECT CASE p_meal
+      WHEN 'breakfast' THEN breakfast
+      WHEN 'lunch' THEN lunch
+      ELSE dinner
+    END
+  INTO v_already_marked
+  FROM "Attendance"
+  WHERE "studentId" = p_student_id AND date = p_date
+  FOR UPDATE;
+
+  IF COALESCE(v_already_marked, FALSE) THEN
+    RETURN TRUE;
+  END IF;
+
+  v_mark := jsonb_build_object(
+    p_meal,
+    jsonb_strip_nulls(jsonb_build_object(
+      'at', p_scanned_at,
+      'source', p_source,
+      'by', p_marked_by,
+      'byEmail', p_marked_by_email
+    ))
+  );
+
+  INSERT INTO "Attendance" ("studentId", date, breakfast, lunch, dinner, "scannedAt", "mealMarks", "updatedAt")
+  VALUES (
+    p_student_id,
+    p_date,
+    p_meal = 'breakfast',
+    p_meal = 'lunch',
+    p_meal = 'dinner',
+    p_scanned_at,
+    v_mark,
+    NOW()
+  )
+  ON CONFLICT ("studentId", date) DO UPDATE SET
+    breakfast = "Attendance".breakfast OR EXCLUDED.breakfast,
+    lunch = "Attendance".lunch OR EXCLUDED.lunch,
+    dinner = "Attendance".dinner OR EXCLUDED.dinner,
+    "mealMarks" = "Attendance"."mealMarks" || EXCLUDED."mealMarks",
+    "updatedAt" = NOW();
+
+  RETURN FALSE;
+END;
+$$;
+
+-- Only the service role (edge functions) may call it
+REVOKE ALL ON FUNCTION mark_meal_attendance(INTEGER, DATE, TEXT, TIMESTAMPTZ, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
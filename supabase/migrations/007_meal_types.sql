@@ -0,0 +1,96 @@
+-- ============================================
+-- Configurable meal types
+-- ============================================
+-- Meal types (key, name, icon) now live in the 'meal_schedule' app
+-- setting next to their time windows. "mealMarks" becomes the only
+-- record of which meals were attended; the breakfast/lunch/dinner
+-- columns are kept as generated columns so existing reports and
+-- queries keep working for the default meal types.
+--
+-- Plan.meals stays a comma-separated list, now of meal type keys.
+-- ============================================
+
+-- Rows marked before 006 have booleans but no mark details
+UPDATE "Attendance"
+SET "mealMarks" = "mealMarks"
+  || CASE WHEN breakfast AND NOT "mealMarks" ? 'breakfast' THEN '{"breakfast": {}}'::jsonb ELSE '{}'::jsonb END
+  || CASE WHEN lunch AND NOT "mealMarks" ? 'lunch' THEN '{"lunch": {}}'::jsonb ELSE '{}'::jsonb END
+  || CASE WHEN dinner AND NOT "mealMarks" ? 'dinner' THEN '{"dinner": {}}'::jsonb ELSE '{}'::jsonb END
+WHERE breakfast OR lunch OR dinner;
+
+-- Store plan meals as keys ("Breakfast, Lunch" -> "breakfast,lunch")
+UPDATE "Plan"
+SET meals = regexp_replace(lower(meals), '\s+', '', 'g')
+WHERE meals IS NOT NULL AND meals <> regexp_replace(lower(meals), '\s+', '', 'g');
+
+-- The booleans now follow "mealMarks"
+ALTER TABLE "Attendance" DROP COLUMN breakfast;
+ALTER TABLE "Attendance" DROP COLUMN lunch;
+ALTER TABLE "Attendance" DROP COLUMN dinner;
+
+ALTER TABLE "Attendance"
+  ADD COLUMN breakfast BOOLEAN GENERATED ALWAYS AS ("mealMarks" ? 'breakfast') STORED,
+  ADD COLUMN lunch BOOLEAN GENERATED ALWAYS AS ("mealMarks" ? 'lunch') STORED,
+  ADD COLUMN dinner BOOLEAN GENERATED ALWAYS AS ("mealMarks" ? 'dinner') STORED;
+
+-- Marks one meal without touching the others.
+-- Returns true when the meal was already marked.
+CREATE OR REPLACE FUNCTION mark_meal_attendance(
+  p_student_id INTEGER,
+  p_date DATE,
+  p_meal TEXT,
+  p_scanned_at TIMESTAMPTZ DEFAULT NOW(),
+  p_source TEXT DEFAULT 'qr',
+  p_marked_by UUID DEFAULT NULL,
+  p_marked_by_email TEXT DEFAULT NULL
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_marks JSONB;
+  v_mark JSONB;
+BEGIN
+  -- Any configured meal type key
+  IF p_meal IS NULL OR p_meal !~ '^[a-z][a-z0-9_]*$' OR p_meal = 'all' THEN
+    RAISE EXCEPTION 'Invalid meal: %', p_meal;
+  END IF;
+
+  IF p_source NOT IN ('qr', 'pin', 'manual', 'bulk', 'import') THEN
+    RAISE EXCEPTION 'Invalid source: %', p_source;
+  END IF;
+
+  -- Lock the existing row (if any) so concurrent scans serialize
+  SELECT "mealMarks"
+  INTO v_marks
+  FROM "Attendance"
+  WHERE "studentId" = p_student_id AND date = p_date
+  FOR UPDATE;
+
+  IF v_marks IS NOT NULL AND v_marks ? p_meal THEN
+    RETURN TRUE;
+  END IF;
+
+  v_mark := jsonb_build_object(
+    p_meal,
+    jsonb_strip_nulls(jsonb_build_object(
+      'at', p_scanned_at,
+      'source', p_source,
+      'by', p_marked_by,
+      'byEmail', p_marked_by_email
+    ))
+  );
+
+  INSERT INTO "Attendance" ("studentId", date, "scannedAt", "mealMarks", "updatedAt")
+  VALUES (p_student_id, p_date, p_scanned_at, v_mark, NOW())
+  ON CONFLICT ("studentId", date) DO UPDATE SET
+    "mealMarks" = "Attendance"."mealMarks" || EXCLUDED."mealMarks",
+    "updatedAt" = NOW();
+
+  RETURN FALSE;
+END;
+$$;
+
+-- Only the service role (edge functions) may call it
+REVOKE ALL ON FUNCTION mark_meal_attendance(INTEGER, DATE, TEXT, TIMESTAMPTZ, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
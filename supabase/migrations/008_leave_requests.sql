@@ -0,0 +1,74 @@
+-- ============================================
+-- Student leave (mess-off) requests
+-- ============================================
+-- Students ask for date ranges they will be away; admins approve or
+-- reject them. Approving extends the student's plan "endDate" by the
+-- rebate days worked out from the 'leave_policy' app setting.
+--
+-- Requests are created and reviewed through the request-leave and
+-- review-leave edge functions so the notice period and rebate are
+-- enforced server-side.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "LeaveRequest" (
+  id BIGSERIAL PRIMARY KEY,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  "startDate" DATE NOT NULL,
+  "endDate" DATE NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  "rebateDays" INTEGER NOT NULL DEFAULT 0,
+  "reviewedBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "reviewedAt" TIMESTAMPTZ,
+  "reviewNote" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT leave_request_dates CHECK ("endDate" >= "startDate"),
+  CONSTRAINT leave_request_status CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS leave_request_student_idx
+  ON "LeaveRequest" ("studentId", "startDate");
+
+-- Attendance looks up approved leave covering a date
+CREATE INDEX IF NOT EXISTS leave_request_approved_dates_idx
+  ON "LeaveRequest" ("startDate", "endDate")
+  WHERE status = 'approved';
+
+ALTER TABLE "LeaveRequest" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own leave requests" ON "LeaveRequest";
+CREATE POLICY "Students can view own leave requests"
+  ON "LeaveRequest" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "LeaveRequest"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+-- Students may withdraw a request that hasn't been reviewed yet
+DROP POLICY IF EXISTS "Students can cancel own pending leave requests" ON "LeaveRequest";
+CREATE POLICY "Students can cancel own pending leave requests"
+  ON "LeaveRequest" FOR UPDATE
+  USING (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "LeaveRequest"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  )
+  WITH CHECK (status = 'cancelled');
+
+DROP POLICY IF EXISTS "Admins can view leave requests" ON "LeaveRequest";
+CREATE POLICY "Admins can view leave requests"
+  ON "LeaveRequest" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
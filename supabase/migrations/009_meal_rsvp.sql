@@ -0,0 +1,47 @@
+-- ============================================
+-- Meal RSVPs for the kitchen headcount forecast
+-- ============================================
+-- Students confirm or opt out of upcoming meals before the cut-off set
+-- in the 'meal_schedule' app setting ("rsvpCutoffMinutes"). No row means
+-- the student hasn't said either way.
+--
+-- RSVPs are written by the meal-rsvp edge function, which enforces the
+-- cut-off with server time.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "MealRSVP" (
+  id BIGSERIAL PRIMARY KEY,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  meal TEXT NOT NULL,
+  attending BOOLEAN NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT meal_rsvp_unique UNIQUE ("studentId", date, meal)
+);
+
+CREATE INDEX IF NOT EXISTS meal_rsvp_date_idx ON "MealRSVP" (date, meal);
+
+ALTER TABLE "MealRSVP" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own RSVPs" ON "MealRSVP";
+CREATE POLICY "Students can view own RSVPs"
+  ON "MealRSVP" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "MealRSVP"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view RSVPs" ON "MealRSVP";
+CREATE POLICY "Admins can view RSVPs"
+  ON "MealRSVP" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
@@ -0,0 +1,128 @@
+-- ============================================
+-- Guest meals charged to a host student
+-- ============================================
+-- Admins record guests a student brings for a meal (count x per-meal
+-- rate). The total is kept on "Student"."guestCharges" and counts
+-- toward the balance next to the plan price:
+--
+--   balance = price + "guestCharges" - paid
+--
+-- Recording and removing guest meals goes through the guest-meal Edge
+-- Function, which calls the functions below so the charge and the
+-- balance always change together.
+-- ============================================
+
+ALTER TABLE "Student"
+  ADD COLUMN IF NOT EXISTS "guestCharges" NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS "GuestMeal" (
+  id BIGSERIAL PRIMARY KEY,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  meal TEXT NOT NULL,
+  count INTEGER NOT NULL CHECK (count > 0),
+  rate NUMERIC(10, 2) NOT NULL CHECK (rate >= 0),
+  amount NUMERIC(10, 2) GENERATED ALWAYS AS (count * rate) STORED,
+  note TEXT,
+  "createdBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "createdByEmail" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS guest_meal_date_idx ON "GuestMeal" (date, meal);
+CREATE INDEX IF NOT EXISTS guest_meal_student_idx ON "GuestMeal" ("studentId", date);
+
+ALTER TABLE "GuestMeal" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own guest meals" ON "GuestMeal";
+CREATE POLICY "Students can view own guest meals"
+  ON "GuestMeal" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "GuestMeal"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view guest meals" ON "GuestMeal";
+CREATE POLICY "Admins can view guest meals"
+  ON "GuestMeal" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Records guest meals and adds the charge to the host's balance.
+-- Returns the new "GuestMeal" id.
+CREATE OR REPLACE FUNCTION record_guest_meal(
+  p_student_id INTEGER,
+  p_date DATE,
+  p_meal TEXT,
+  p_count INTEGER,
+  p_rate NUMERIC,
+  p_note TEXT,
+  p_created_by UUID,
+  p_created_by_email TEXT
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+  v_amount NUMERIC;
+BEGIN
+  IF p_meal IS NULL OR p_meal !~ '^[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Invalid meal: %', p_meal;
+  END IF;
+
+  INSERT INTO "GuestMeal" ("studentId", date, meal, count, rate, note, "createdBy", "createdByEmail")
+  VALUES (p_student_id, p_date, p_meal, p_count, ROUND(p_rate, 2), NULLIF(TRIM(p_note), ''), p_created_by, p_created_by_email)
+  RETURNING id, amount INTO v_id, v_amount;
+
+  UPDATE "Student"
+  SET "guestCharges" = "guestCharges" + v_amount,
+      balance = GREATEST(ROUND(price + "guestCharges" + v_amount - paid, 2), 0)
+  WHERE id = p_student_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Removes a guest meal recorded by mistake and takes its charge back off.
+-- Returns the host student's id
+CREATE OR REPLACE FUNCTION delete_guest_meal(p_id BIGINT) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student_id INTEGER;
+  v_amount NUMERIC;
+BEGIN
+  DELETE FROM "GuestMeal"
+  WHERE id = p_id
+  RETURNING "studentId", amount INTO v_student_id, v_amount;
+
+  IF v_student_id IS NULL THEN
+    RAISE EXCEPTION 'Guest meal not found';
+  END IF;
+
+  UPDATE "Student"
+  SET "guestCharges" = GREATEST("guestCharges" - v_amount, 0),
+      balance = GREATEST(ROUND(price + GREATEST("guestCharges" - v_amount, 0) - paid, 2), 0)
+  WHERE id = v_student_id;
+
+  RETURN v_student_id;
+END;
+$$;
+
+-- Only the Edge Function (service role) may call these
+REVOKE ALL ON FUNCTION record_guest_meal(INTEGER, DATE, TEXT, INTEGER, NUMERIC, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION delete_guest_meal(BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_guest_meal(INTEGER, DATE, TEXT, INTEGER, NUMERIC, TEXT, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION delete_guest_meal(BIGINT) TO service_role;
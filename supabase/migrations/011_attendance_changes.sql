@@ -0,0 +1,205 @@
+-- ============================================
+-- Attendance change history
+-- ============================================
+-- Every manual edit or deletion of an attendance record made from the
+-- admin app is logged with the meals marked before and after, who made
+-- it, when, and the reason they gave. Entries are never updated or
+-- deleted, so the history can settle "I was marked absent but I ate".
+--
+-- Admins change attendance only through change_attendance(), called by
+-- the change-attendance Edge Function, which applies the change and its
+-- history entry in one transaction. Admins can no longer write to
+-- "Attendance" or "AttendanceChange" directly.
+--
+-- "attendanceId" has no foreign key: the entry outlives a deleted record.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "AttendanceChange" (
+  id BIGSERIAL PRIMARY KEY,
+  "attendanceId" INTEGER,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  "previousMarks" JSONB NOT NULL DEFAULT '{}'::jsonb,
+  "newMarks" JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) > 0),
+  "changedBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "changedByEmail" TEXT,
+  "changedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS attendance_change_student_date_idx
+  ON "AttendanceChange" ("studentId", date, "changedAt" DESC);
+
+ALTER TABLE "AttendanceChange" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view attendance changes" ON "AttendanceChange";
+CREATE POLICY "Admins can view attendance changes"
+  ON "AttendanceChange" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Entries are written only by change_attendance() and import_attendance()
+DROP POLICY IF EXISTS "Admins can log attendance changes" ON "AttendanceChange";
+
+-- Admins read attendance here; changes go through change_attendance()
+DROP POLICY IF EXISTS "Admins can manage attendance" ON "Attendance";
+DROP POLICY IF EXISTS "Admins can view attendance" ON "Attendance";
+CREATE POLICY "Admins can view attendance"
+  ON "Attendance" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- p_changes: [
+--   { "studentId": 1, "date": "2025-07-01", "meals": { "lunch": true } },
+--   { "attendanceId": 7, "meals": { "dinner": false } },
+--   { "attendanceId": 8, "delete": true }
+-- ]
+-- true marks a meal, false unmarks it, meals left out are untouched.
+-- A record left with no meals is deleted. New marks carry p_source
+-- ('manual' or 'bulk'). Returns the number of records that changed.
+CREATE OR REPLACE FUNCTION change_attendance(
+  p_changes JSONB,
+  p_source TEXT,
+  p_reason TEXT,
+  p_changed_by UUID,
+  p_changed_by_email TEXT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_change JSONB;
+  v_meal TEXT;
+  v_value JSONB;
+  v_student_id INTEGER;
+  v_date DATE;
+  v_id INTEGER;
+  v_previous JSONB;
+  v_next JSONB;
+  v_mark JSONB;
+  v_changed INTEGER := 0;
+BEGIN
+  IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF p_source NOT IN ('manual', 'bulk') THEN
+    RAISE EXCEPTION 'Invalid source: %', p_source;
+  END IF;
+
+  IF jsonb_typeof(p_changes) <> 'array' THEN
+    RAISE EXCEPTION 'Changes must be an array';
+  END IF;
+
+  v_mark := jsonb_strip_nulls(jsonb_build_object(
+    'at', NOW(),
+    'source', p_source,
+    'by', p_changed_by,
+    'byEmail', p_changed_by_email
+  ));
+
+  FOR v_change IN SELECT * FROM jsonb_array_elements(p_changes)
+  LOOP
+    v_id := NULL;
+    v_previous := NULL;
+
+    -- Lock the record (if any) so live scans wait for the change
+    IF v_change->>'attendanceId' IS NOT NULL THEN
+      SELECT id, "studentId", date, "mealMarks"
+      INTO v_id, v_student_id, v_date, v_previous
+      FROM "Attendance"
+      WHERE id = (v_change->>'attendanceId')::INTEGER
+      FOR UPDATE;
+
+      IF v_id IS NULL THEN
+        RAISE EXCEPTION 'Attendance record not found';
+      END IF;
+    ELSE
+      v_student_id := (v_change->>'studentId')::INTEGER;
+      v_date := (v_change->>'date')::DATE;
+
+      IF NOT EXISTS (SELECT 1 FROM "Student" WHERE id = v_student_id) THEN
+        RAISE EXCEPTION 'Student not found: %', v_student_id;
+      END IF;
+
+      SELECT id, "mealMarks"
+      INTO v_id, v_previous
+      FROM "Attendance"
+      WHERE "studentId" = v_student_id AND date = v_date
+      FOR UPDATE;
+    END IF;
+
+    IF (v_change->>'delete')::BOOLEAN IS TRUE THEN
+      IF v_id IS NULL THEN
+        RAISE EXCEPTION 'Attendance record not found';
+      END IF;
+      v_next := '{}'::jsonb;
+    ELSE
+      v_next := COALESCE(v_previous, '{}'::jsonb);
+
+      FOR v_meal, v_value IN SELECT * FROM jsonb_each(COALESCE(v_change->'meals', '{}'::jsonb))
+      LOOP
+        IF v_meal !~ '^[a-z][a-z0-9_]*$' OR v_meal = 'all' THEN
+          RAISE EXCEPTION 'Invalid meal: %', v_meal;
+        END IF;
+
+        -- Meals already marked keep their original mark
+        IF v_value = 'true'::jsonb AND NOT v_next ? v_meal THEN
+          v_next := v_next || jsonb_build_object(v_meal, v_mark);
+        ELSIF v_value = 'false'::jsonb THEN
+          v_next := v_next - v_meal;
+        END IF;
+      END LOOP;
+
+      IF v_next = COALESCE(v_previous, '{}'::jsonb) THEN
+        CONTINUE;
+      END IF;
+    END IF;
+
+    IF v_id IS NULL THEN
+      INSERT INTO "Attendance" ("studentId", date, "scannedAt", "mealMarks", "updatedAt")
+      VALUES (v_student_id, v_date, NULL, v_next, NOW())
+      RETURNING id INTO v_id;
+
+      INSERT INTO "AttendanceChange"
+        ("attendanceId", "studentId", date, action, "previousMarks", "newMarks", reason, "changedBy", "changedByEmail")
+      VALUES (v_id, v_student_id, v_date, 'create', '{}'::jsonb, v_next, TRIM(p_reason), p_changed_by, p_changed_by_email);
+    ELSIF v_next = '{}'::jsonb THEN
+      DELETE FROM "Attendance" WHERE id = v_id;
+
+      INSERT INTO "AttendanceChange"
+        ("attendanceId", "studentId", date, action, "previousMarks", "newMarks", reason, "changedBy", "changedByEmail")
+      VALUES (v_id, v_student_id, v_date, 'delete', COALESCE(v_previous, '{}'::jsonb), '{}'::jsonb, TRIM(p_reason), p_changed_by, p_changed_by_email);
+    ELSE
+      UPDATE "Attendance"
+      SET "mealMarks" = v_next,
+          "updatedAt" = NOW()
+      WHERE id = v_id;
+
+      INSERT INTO "AttendanceChange"
+        ("attendanceId", "studentId", date, action, "previousMarks", "newMarks", reason, "changedBy", "changedByEmail")
+      VALUES (v_id, v_student_id, v_date, 'update', COALESCE(v_previous, '{}'::jsonb), v_next, TRIM(p_reason), p_changed_by, p_changed_by_email);
+    END IF;
+
+    v_changed := v_changed + 1;
+  END LOOP;
+
+  RETURN v_changed;
+END;
+$$;
+
+-- Only the Edge Function (service role) may call it
+REVOKE ALL ON FUNCTION change_attendance(JSONB, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION change_attendance(JSONB, TEXT, TEXT, UUID, TEXT) TO service_role;
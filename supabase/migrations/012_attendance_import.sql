@@ -0,0 +1,130 @@
+-- ============================================
+-- Attendance import from a spreadsheet
+-- ============================================
+-- When the QR system is down, staff take attendance on paper and
+-- import it later as a CSV keyed by roll number and date. The
+-- import-attendance edge function validates the file and calls
+-- import_attendance(), which applies every row in one transaction:
+-- either the whole file goes in or none of it does.
+--
+-- Imported marks carry source 'import' in "mealMarks", and each
+-- changed record is logged in "AttendanceChange" with source
+-- 'import' so the history shows it came from a file.
+-- ============================================
+
+ALTER TABLE "AttendanceChange"
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('manual', 'import'));
+
+-- p_rows: [{ "studentId": 1, "date": "2025-07-01", "meals": { "lunch": true, "dinner": false } }]
+-- true marks a meal, false unmarks it, meals left out are untouched.
+-- Returns the number of attendance records that changed.
+CREATE OR REPLACE FUNCTION import_attendance(
+  p_rows JSONB,
+  p_reason TEXT,
+  p_changed_by UUID,
+  p_changed_by_email TEXT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_meal TEXT;
+  v_value JSONB;
+  v_student_id INTEGER;
+  v_date DATE;
+  v_id INTEGER;
+  v_previous JSONB;
+  v_next JSONB;
+  v_mark JSONB;
+  v_changed INTEGER := 0;
+BEGIN
+  IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'Rows must be an array';
+  END IF;
+
+  v_mark := jsonb_strip_nulls(jsonb_build_object(
+    'at', NOW(),
+    'source', 'import',
+    'by', p_changed_by,
+    'byEmail', p_changed_by_email
+  ));
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+  LOOP
+    v_student_id := (v_row->>'studentId')::INTEGER;
+    v_date := (v_row->>'date')::DATE;
+
+    IF NOT EXISTS (SELECT 1 FROM "Student" WHERE id = v_student_id) THEN
+      RAISE EXCEPTION 'Student not found: %', v_student_id;
+    END IF;
+
+    -- Lock the existing row (if any) so live scans wait for the import
+    SELECT id, "mealMarks"
+    INTO v_id, v_previous
+    FROM "Attendance"
+    WHERE "studentId" = v_student_id AND date = v_date
+    FOR UPDATE;
+
+    v_next := COALESCE(v_previous, '{}'::jsonb);
+
+    FOR v_meal, v_value IN SELECT * FROM jsonb_each(v_row->'meals')
+    LOOP
+      IF v_meal !~ '^[a-z][a-z0-9_]*$' OR v_meal = 'all' THEN
+        RAISE EXCEPTION 'Invalid meal: %', v_meal;
+      END IF;
+
+      -- Meals already marked keep their original mark
+      IF v_value = 'true'::jsonb AND NOT v_next ? v_meal THEN
+        v_next := v_next || jsonb_build_object(v_meal, v_mark);
+      ELSIF v_value = 'false'::jsonb THEN
+        v_next := v_next - v_meal;
+      END IF;
+    END LOOP;
+
+    IF v_next = COALESCE(v_previous, '{}'::jsonb) THEN
+      CONTINUE;
+    END IF;
+
+    IF v_id IS NULL THEN
+      INSERT INTO "Attendance" ("studentId", date, "scannedAt", "mealMarks", "updatedAt")
+      VALUES (v_student_id, v_date, NULL, v_next, NOW())
+      RETURNING id INTO v_id;
+
+      INSERT INTO "AttendanceChange"
+        ("attendanceId", "studentId", date, action, "previousMarks", "newMarks", reason, source, "changedBy", "changedByEmail")
+      VALUES (v_id, v_student_id, v_date, 'create', '{}'::jsonb, v_next, TRIM(p_reason), 'import', p_changed_by, p_changed_by_email);
+    ELSIF v_next = '{}'::jsonb THEN
+      -- Every meal unmarked: drop the record like a manual delete
+      DELETE FROM "Attendance" WHERE id = v_id;
+
+      INSERT INTO "AttendanceChange"
+        ("attendanceId", "studentId", date, action, "previousMarks", "newMarks", reason, source, "changedBy", "changedByEmail")
+      VALUES (v_id, v_student_id, v_date, 'delete', v_previous, '{}'::jsonb, TRIM(p_reason), 'import', p_changed_by, p_changed_by_email);
+    ELSE
+      UPDATE "Attendance"
+      SET "mealMarks" = v_next,
+          "updatedAt" = NOW()
+      WHERE id = v_id;
+
+      INSERT INTO "AttendanceChange"
+        ("attendanceId", "studentId", date, action, "previousMarks", "newMarks", reason, source, "changedBy", "changedByEmail")
+      VALUES (v_id, v_student_id, v_date, 'update', v_previous, v_next, TRIM(p_reason), 'import', p_changed_by, p_changed_by_email);
+    END IF;
+
+    v_changed := v_changed + 1;
+  END LOOP;
+
+  RETURN v_changed;
+END;
+$$;
+
+-- Only the Edge Function (service role) may call it
+REVOKE ALL ON FUNCTION import_attendance(JSONB, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_attendance(JSONB, TEXT, UUID, TEXT) TO service_role;
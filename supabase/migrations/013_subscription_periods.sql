@@ -0,0 +1,292 @@
+-- ============================================
+-- Subscription periods
+-- ============================================
+-- Each term a student signs up for (joining, a renewal onto a plan) is a
+-- row in "SubscriptionPeriod" with its own plan, dates, price and the
+-- amount paid toward it. Renewals add a period; extensions and approved
+-- leave amend the current one. Nothing is overwritten, so earlier terms keep their
+-- numbers.
+--
+-- The plan columns on "Student" are now derived, kept in sync by the
+-- triggers below:
+--
+--   planId, joinDate, endDate, price, paid = the current (latest) period
+--   balance = sum(period price - paid) + "guestCharges", never below 0
+--
+-- so an unpaid earlier term stays owed after a renewal. Payments are
+-- tagged with the period they were made in and count toward its paid.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "SubscriptionPeriod" (
+  id BIGSERIAL PRIMARY KEY,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  "planId" INTEGER NOT NULL REFERENCES "Plan"(id),
+  kind TEXT NOT NULL DEFAULT 'renewal' CHECK (kind IN ('join', 'renewal')),
+  "startDate" DATE NOT NULL,
+  "endDate" DATE NOT NULL,
+  price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+  paid NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (paid >= 0),
+  "extendedDays" INTEGER NOT NULL DEFAULT 0, -- Added by extensions
+  "createdBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "createdByEmail" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT subscription_period_dates CHECK ("endDate" >= "startDate")
+);
+
+CREATE INDEX IF NOT EXISTS subscription_period_student_idx
+  ON "SubscriptionPeriod" ("studentId", "startDate" DESC);
+
+ALTER TABLE "Payment"
+  ADD COLUMN IF NOT EXISTS "periodId" BIGINT REFERENCES "SubscriptionPeriod"(id) ON DELETE SET NULL;
+
+-- One opening period per existing student, from the columns as they are
+INSERT INTO "SubscriptionPeriod" ("studentId", "planId", kind, "startDate", "endDate", price, paid)
+SELECT s.id, s."planId", 'join', s."joinDate"::date, GREATEST(s."endDate"::date, s."joinDate"::date),
+       GREATEST(COALESCE(s.price, 0), 0), GREATEST(COALESCE(s.paid, 0), 0)
+FROM "Student" s
+WHERE NOT EXISTS (SELECT 1 FROM "SubscriptionPeriod" p WHERE p."studentId" = s.id);
+
+-- Existing payments are already included in that period's paid
+UPDATE "Payment" pay
+SET "periodId" = p.id
+FROM "SubscriptionPeriod" p
+WHERE p."studentId" = pay."studentId"
+AND pay."periodId" IS NULL;
+
+ALTER TABLE "SubscriptionPeriod" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own subscription periods" ON "SubscriptionPeriod";
+CREATE POLICY "Students can view own subscription periods"
+  ON "SubscriptionPeriod" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "SubscriptionPeriod"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view subscription periods" ON "SubscriptionPeriod";
+CREATE POLICY "Admins can view subscription periods"
+  ON "SubscriptionPeriod" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Editing a student's dates or paid amount corrects their current period
+DROP POLICY IF EXISTS "Admins can update subscription periods" ON "SubscriptionPeriod";
+CREATE POLICY "Admins can update subscription periods"
+  ON "SubscriptionPeriod" FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Keeps the derived "Student" columns in line with the periods, whoever
+-- writes the row (guest meals, payments, edits)
+CREATE OR REPLACE FUNCTION sync_student_subscription() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current "SubscriptionPeriod"%ROWTYPE;
+  v_due NUMERIC;
+BEGIN
+  SELECT * INTO v_current
+  FROM "SubscriptionPeriod"
+  WHERE "studentId" = NEW.id
+  ORDER BY "startDate" DESC, id DESC
+  LIMIT 1;
+
+  -- A new student's first period is added right after the student
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(price - paid), 0) INTO v_due
+  FROM "SubscriptionPeriod"
+  WHERE "studentId" = NEW.id;
+
+  NEW."planId" := v_current."planId";
+  NEW."joinDate" := v_current."startDate";
+  NEW."endDate" := v_current."endDate";
+  NEW.price := v_current.price;
+  NEW.paid := v_current.paid;
+  NEW.balance := GREATEST(ROUND(v_due + COALESCE(NEW."guestCharges", 0), 2), 0);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS student_subscription_sync ON "Student";
+CREATE TRIGGER student_subscription_sync
+  BEFORE UPDATE ON "Student"
+  FOR EACH ROW EXECUTE FUNCTION sync_student_subscription();
+
+-- Any change to a period re-derives its student
+CREATE OR REPLACE FUNCTION touch_period_student() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE "Student" SET "updatedAt" = NOW() WHERE id = OLD."studentId";
+    RETURN OLD;
+  END IF;
+
+  UPDATE "Student" SET "updatedAt" = NOW() WHERE id = NEW."studentId";
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS subscription_period_touch_student ON "SubscriptionPeriod";
+CREATE TRIGGER subscription_period_touch_student
+  AFTER INSERT OR UPDATE OR DELETE ON "SubscriptionPeriod"
+  FOR EACH ROW EXECUTE FUNCTION touch_period_student();
+
+-- A payment belongs to the period covering its date (the latest one when
+-- it's dated after every period)
+CREATE OR REPLACE FUNCTION assign_payment_period() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW."periodId" IS NULL THEN
+    SELECT id INTO NEW."periodId"
+    FROM "SubscriptionPeriod"
+    WHERE "studentId" = NEW."studentId"
+    ORDER BY ("startDate" <= NEW."paymentDate"::date) DESC, "startDate" DESC, id DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payment_assign_period ON "Payment";
+CREATE TRIGGER payment_assign_period
+  BEFORE INSERT ON "Payment"
+  FOR EACH ROW EXECUTE FUNCTION assign_payment_period();
+
+-- Adding, changing or removing a payment moves its period's paid with it
+CREATE OR REPLACE FUNCTION apply_payment_to_period() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD."periodId" IS NOT NULL THEN
+    UPDATE "SubscriptionPeriod"
+    SET paid = GREATEST(paid - OLD.amount, 0),
+        "updatedAt" = NOW()
+    WHERE id = OLD."periodId";
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW."periodId" IS NOT NULL THEN
+    UPDATE "SubscriptionPeriod"
+    SET paid = paid + NEW.amount,
+        "updatedAt" = NOW()
+    WHERE id = NEW."periodId";
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payment_apply_to_period ON "Payment";
+CREATE TRIGGER payment_apply_to_period
+  AFTER INSERT OR DELETE OR UPDATE OF amount, "periodId" ON "Payment"
+  FOR EACH ROW EXECUTE FUNCTION apply_payment_to_period();
+
+-- Reviews a pending leave request. An approval's rebate days extend the
+-- current period in the same transaction that claims the request, so the
+-- plan is extended exactly once. Returns null when the request is no
+-- longer pending.
+CREATE OR REPLACE FUNCTION review_leave_request(
+  p_leave_request_id BIGINT,
+  p_decision TEXT,
+  p_rebate_days INTEGER,
+  p_reviewed_by UUID,
+  p_note TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request "LeaveRequest"%ROWTYPE;
+  v_period "SubscriptionPeriod"%ROWTYPE;
+  v_rebate INTEGER := CASE WHEN p_decision = 'approved' THEN GREATEST(COALESCE(p_rebate_days, 0), 0) ELSE 0 END;
+  v_new_end DATE;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid decision: %', p_decision;
+  END IF;
+
+  UPDATE "LeaveRequest"
+  SET status = p_decision,
+      "rebateDays" = v_rebate,
+      "reviewedBy" = p_reviewed_by,
+      "reviewedAt" = NOW(),
+      "reviewNote" = NULLIF(TRIM(p_note), ''),
+      "updatedAt" = NOW()
+  WHERE id = p_leave_request_id
+  AND status = 'pending'
+  RETURNING * INTO v_request;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_period
+  FROM "SubscriptionPeriod"
+  WHERE "studentId" = v_request."studentId"
+  ORDER BY "startDate" DESC, id DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    IF v_rebate > 0 THEN
+      RAISE EXCEPTION 'Student has no plan period to extend';
+    END IF;
+    RETURN jsonb_build_object('leaveRequest', to_jsonb(v_request), 'periodId', NULL, 'oldEndDate', NULL, 'newEndDate', NULL);
+  END IF;
+
+  v_new_end := v_period."endDate" + v_rebate;
+
+  IF v_rebate > 0 THEN
+    UPDATE "SubscriptionPeriod"
+    SET "endDate" = v_new_end,
+        "extendedDays" = "extendedDays" + v_rebate,
+        "updatedAt" = NOW()
+    WHERE id = v_period.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'leaveRequest', to_jsonb(v_request),
+    'periodId', v_period.id,
+    'oldEndDate', v_period."endDate",
+    'newEndDate', v_new_end
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION review_leave_request(BIGINT, TEXT, INTEGER, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION review_leave_request(BIGINT, TEXT, INTEGER, UUID, TEXT) TO service_role;
+
+-- Bring every student in line with their opening period
+UPDATE "Student" SET "updatedAt" = NOW();
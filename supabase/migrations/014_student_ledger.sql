@@ -0,0 +1,366 @@
+-- ============================================
+-- Student ledger
+-- ============================================
+-- Every amount a student is charged or credited is an entry in
+-- "LedgerEntry": a debit (plan terms, guest meals, fees, refunds paid
+-- out) or a credit (payments, discounts). Balances are no longer worked
+-- out by each Edge Function; they are read off the ledger:
+--
+--   net = sum(debit) - sum(credit)
+--   "Student".balance = max(net, 0), "Student".credit = max(-net, 0)
+--   "SubscriptionPeriod".paid = payments (and corrections) tagged to it
+--
+-- Entries for plan terms, payments and guest meals are written by the
+-- triggers below from the rows they come from, so they can't drift.
+-- Admins add fees, discounts and corrections directly.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "LedgerEntry" (
+  id BIGSERIAL PRIMARY KEY,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  "entryDate" DATE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('plan', 'guest_meal', 'fee', 'payment', 'refund', 'discount', 'correction')),
+  description TEXT NOT NULL,
+  debit NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  "periodId" BIGINT REFERENCES "SubscriptionPeriod"(id) ON DELETE CASCADE,
+  "paymentId" BIGINT REFERENCES "Payment"(id) ON DELETE CASCADE,
+  "guestMealId" BIGINT REFERENCES "GuestMeal"(id) ON DELETE CASCADE,
+  "createdBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "createdByEmail" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT ledger_entry_one_side CHECK (debit = 0 OR credit = 0)
+);
+
+CREATE INDEX IF NOT EXISTS ledger_entry_student_idx ON "LedgerEntry" ("studentId", "entryDate", id);
+CREATE INDEX IF NOT EXISTS ledger_entry_period_idx ON "LedgerEntry" ("periodId");
+CREATE UNIQUE INDEX IF NOT EXISTS ledger_entry_payment_idx ON "LedgerEntry" ("paymentId") WHERE "paymentId" IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS ledger_entry_guest_meal_idx ON "LedgerEntry" ("guestMealId") WHERE "guestMealId" IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS ledger_entry_plan_idx ON "LedgerEntry" ("periodId") WHERE kind = 'plan';
+
+ALTER TABLE "LedgerEntry" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own ledger" ON "LedgerEntry";
+CREATE POLICY "Students can view own ledger"
+  ON "LedgerEntry" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "LedgerEntry"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view ledger" ON "LedgerEntry";
+CREATE POLICY "Admins can view ledger"
+  ON "LedgerEntry" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Only the entries admins make by hand; the rest come from triggers
+DROP POLICY IF EXISTS "Admins can add ledger adjustments" ON "LedgerEntry";
+CREATE POLICY "Admins can add ledger adjustments"
+  ON "LedgerEntry" FOR INSERT
+  WITH CHECK (
+    kind IN ('fee', 'discount', 'correction')
+    AND "paymentId" IS NULL
+    AND "guestMealId" IS NULL
+    AND "createdBy" = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can remove ledger adjustments" ON "LedgerEntry";
+CREATE POLICY "Admins can remove ledger adjustments"
+  ON "LedgerEntry" FOR DELETE
+  USING (
+    kind IN ('fee', 'discount')
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Payments now reach their period through the ledger
+DROP TRIGGER IF EXISTS payment_apply_to_period ON "Payment";
+DROP FUNCTION IF EXISTS apply_payment_to_period();
+
+-- ============================================
+-- Backfill from what's recorded so far
+-- ============================================
+
+INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, debit, "periodId", "createdBy", "createdByEmail")
+SELECT sp."studentId", sp."startDate", 'plan', COALESCE(p.name, 'Plan') || ' plan', sp.price, sp.id, sp."createdBy", sp."createdByEmail"
+FROM "SubscriptionPeriod" sp
+LEFT JOIN "Plan" p ON p.id = sp."planId"
+WHERE NOT EXISTS (SELECT 1 FROM "LedgerEntry" le WHERE le."periodId" = sp.id AND le.kind = 'plan');
+
+INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, credit, "periodId", "paymentId")
+SELECT pay."studentId", pay."paymentDate"::date, 'payment',
+       'Payment' || COALESCE(' (' || NULLIF(pay.method, '') || ')', ''), pay.amount, pay."periodId", pay.id
+FROM "Payment" pay
+WHERE NOT EXISTS (SELECT 1 FROM "LedgerEntry" le WHERE le."paymentId" = pay.id);
+
+-- Amounts paid at joining, renewal or extension were only ever added to "paid"
+INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, credit, "periodId")
+SELECT sp."studentId", sp."startDate", 'payment', 'Earlier payments', sp.paid - COALESCE(paid_in.total, 0), sp.id
+FROM "SubscriptionPeriod" sp
+LEFT JOIN (
+  SELECT "periodId", SUM(credit) AS total
+  FROM "LedgerEntry"
+  WHERE "paymentId" IS NOT NULL
+  GROUP BY "periodId"
+) paid_in ON paid_in."periodId" = sp.id
+WHERE sp.paid - COALESCE(paid_in.total, 0) > 0;
+
+INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, debit, "guestMealId", "createdBy", "createdByEmail")
+SELECT gm."studentId", gm.date, 'guest_meal',
+       gm.count || CASE WHEN gm.count = 1 THEN ' guest' ELSE ' guests' END || ' (' || gm.meal || ')',
+       gm.amount, gm.id, gm."createdBy", gm."createdByEmail"
+FROM "GuestMeal" gm
+WHERE NOT EXISTS (SELECT 1 FROM "LedgerEntry" le WHERE le."guestMealId" = gm.id);
+
+-- ============================================
+-- Sources -> ledger
+-- ============================================
+
+CREATE OR REPLACE FUNCTION ledger_from_period() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_description TEXT;
+BEGIN
+  SELECT COALESCE(name, 'Plan') || ' plan' INTO v_description FROM "Plan" WHERE id = NEW."planId";
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, debit, "periodId", "createdBy", "createdByEmail")
+    VALUES (NEW."studentId", NEW."startDate", 'plan', COALESCE(v_description, 'Plan'), NEW.price, NEW.id, NEW."createdBy", NEW."createdByEmail");
+  ELSE
+    UPDATE "LedgerEntry"
+    SET "entryDate" = NEW."startDate",
+        description = COALESCE(v_description, 'Plan'),
+        debit = NEW.price
+    WHERE "periodId" = NEW.id AND kind = 'plan';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS subscription_period_ledger ON "SubscriptionPeriod";
+CREATE TRIGGER subscription_period_ledger
+  AFTER INSERT OR UPDATE OF price, "startDate", "planId" ON "SubscriptionPeriod"
+  FOR EACH ROW EXECUTE FUNCTION ledger_from_period();
+
+-- Deleting a payment removes its entry through the foreign key
+CREATE OR REPLACE FUNCTION ledger_from_payment() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, credit, "periodId", "paymentId")
+    VALUES (
+      NEW."studentId", NEW."paymentDate"::date, 'payment',
+      'Payment' || COALESCE(' (' || NULLIF(NEW.method, '') || ')', ''),
+      NEW.amount, NEW."periodId", NEW.id
+    );
+  ELSE
+    UPDATE "LedgerEntry"
+    SET "entryDate" = NEW."paymentDate"::date,
+        description = 'Payment' || COALESCE(' (' || NULLIF(NEW.method, '') || ')', ''),
+        credit = NEW.amount,
+        "periodId" = NEW."periodId"
+    WHERE "paymentId" = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payment_ledger ON "Payment";
+CREATE TRIGGER payment_ledger
+  AFTER INSERT OR UPDATE OF amount, "paymentDate", method, "periodId" ON "Payment"
+  FOR EACH ROW EXECUTE FUNCTION ledger_from_payment();
+
+CREATE OR REPLACE FUNCTION ledger_from_guest_meal() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, debit, "guestMealId", "createdBy", "createdByEmail")
+  VALUES (
+    NEW."studentId", NEW.date, 'guest_meal',
+    NEW.count || CASE WHEN NEW.count = 1 THEN ' guest' ELSE ' guests' END || ' (' || NEW.meal || ')',
+    NEW.amount, NEW.id, NEW."createdBy", NEW."createdByEmail"
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guest_meal_ledger ON "GuestMeal";
+CREATE TRIGGER guest_meal_ledger
+  AFTER INSERT ON "GuestMeal"
+  FOR EACH ROW EXECUTE FUNCTION ledger_from_guest_meal();
+
+-- ============================================
+-- Ledger -> periods and students
+-- ============================================
+
+CREATE OR REPLACE FUNCTION refresh_period_paid(p_period_id BIGINT) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE "SubscriptionPeriod"
+  SET paid = GREATEST((
+        SELECT COALESCE(SUM(credit - debit), 0)
+        FROM "LedgerEntry"
+        WHERE "periodId" = p_period_id
+        AND kind IN ('payment', 'correction')
+      ), 0),
+      "updatedAt" = NOW()
+  WHERE id = p_period_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ledger_entry_changed() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD."periodId" IS NOT NULL THEN
+    PERFORM refresh_period_paid(OLD."periodId");
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW."periodId" IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW."periodId" IS DISTINCT FROM OLD."periodId") THEN
+    PERFORM refresh_period_paid(NEW."periodId");
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    UPDATE "Student" SET "updatedAt" = NOW() WHERE id = OLD."studentId";
+    RETURN OLD;
+  END IF;
+
+  UPDATE "Student" SET "updatedAt" = NOW() WHERE id = NEW."studentId";
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_entry_sync ON "LedgerEntry";
+CREATE TRIGGER ledger_entry_sync
+  AFTER INSERT OR UPDATE OR DELETE ON "LedgerEntry"
+  FOR EACH ROW EXECUTE FUNCTION ledger_entry_changed();
+
+-- Same as 013, with the balance read off the ledger
+CREATE OR REPLACE FUNCTION sync_student_subscription() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current "SubscriptionPeriod"%ROWTYPE;
+  v_net NUMERIC;
+BEGIN
+  SELECT * INTO v_current
+  FROM "SubscriptionPeriod"
+  WHERE "studentId" = NEW.id
+  ORDER BY "startDate" DESC, id DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    NEW."planId" := v_current."planId";
+    NEW."joinDate" := v_current."startDate";
+    NEW."endDate" := v_current."endDate";
+    NEW.price := v_current.price;
+    NEW.paid := v_current.paid;
+  END IF;
+
+  SELECT COALESCE(SUM(debit - credit), 0) INTO v_net
+  FROM "LedgerEntry"
+  WHERE "studentId" = NEW.id;
+
+  NEW.balance := GREATEST(ROUND(v_net, 2), 0);
+  NEW.credit := GREATEST(ROUND(-v_net, 2), 0);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Records a payment if it doesn't exceed what's owed; the triggers above
+-- add it to the ledger, its period and the balance. It goes to p_period_id
+-- when given (e.g. what's paid on renewal goes to the new term), otherwise
+-- to the period covering its date. Returns the payment id.
+CREATE OR REPLACE FUNCTION record_payment(
+  p_student_id INTEGER,
+  p_amount NUMERIC,
+  p_payment_date TIMESTAMPTZ,
+  p_method TEXT,
+  p_period_id BIGINT DEFAULT NULL
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_id BIGINT;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  -- Lock the student so two payments can't both pass the check
+  SELECT balance INTO v_balance FROM "Student" WHERE id = p_student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  IF ROUND(p_amount, 2) > v_balance THEN
+    RAISE EXCEPTION 'Payment amount (₹%) exceeds remaining balance (₹%)', ROUND(p_amount, 2), v_balance;
+  END IF;
+
+  IF p_period_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM "SubscriptionPeriod" WHERE id = p_period_id AND "studentId" = p_student_id
+  ) THEN
+    RAISE EXCEPTION 'Plan term not found';
+  END IF;
+
+  INSERT INTO "Payment" ("studentId", amount, "paymentDate", method, "periodId", "createdAt", "updatedAt")
+  VALUES (p_student_id, ROUND(p_amount, 2), p_payment_date, p_method, p_period_id, NOW(), NOW())
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, BIGINT) TO service_role;
+
+-- Re-derive every period and student from the backfilled ledger
+UPDATE "SubscriptionPeriod" sp
+SET paid = GREATEST((
+      SELECT COALESCE(SUM(credit - debit), 0)
+      FROM "LedgerEntry"
+      WHERE "periodId" = sp.id
+      AND kind IN ('payment', 'correction')
+    ), 0);
+
+UPDATE "Student" SET "updatedAt" = NOW();
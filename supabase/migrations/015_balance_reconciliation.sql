@@ -0,0 +1,333 @@
+-- ============================================
+-- Balance reconciliation
+-- ============================================
+-- Checks every student's money against the records it comes from:
+--   * each plan term, payment and guest meal has a matching ledger entry
+--   * each term's paid is its payments plus the paid-on-joining/renewal and
+--     correction entries made against it
+--   * the student's paid, balance and credit match all of the above
+-- balance_discrepancies() lists the students that don't add up and why,
+-- reconcile_student() rebuilds a student's ledger entries from the source
+-- rows, and run_balance_check() keeps the result of each scan so a
+-- scheduled run can be looked at later.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "BalanceCheckRun" (
+  id BIGSERIAL PRIMARY KEY,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'scheduled')),
+  "studentsChecked" INTEGER NOT NULL DEFAULT 0,
+  "discrepancyCount" INTEGER NOT NULL DEFAULT 0,
+  discrepancies JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "ranBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "ranByEmail" TEXT,
+  "ranAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS balance_check_run_ran_at_idx ON "BalanceCheckRun" ("ranAt" DESC);
+
+ALTER TABLE "BalanceCheckRun" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view balance checks" ON "BalanceCheckRun";
+CREATE POLICY "Admins can view balance checks"
+  ON "BalanceCheckRun" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Students whose recorded amounts don't match their records; pass an id to
+-- check one student. Each issue names the record it comes from.
+CREATE OR REPLACE FUNCTION balance_discrepancies(p_student_id INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  "studentId" INTEGER,
+  name TEXT,
+  "rollNumber" TEXT,
+  "storedPaid" NUMERIC,
+  "expectedPaid" NUMERIC,
+  "storedBalance" NUMERIC,
+  "expectedBalance" NUMERIC,
+  "storedCredit" NUMERIC,
+  "expectedCredit" NUMERIC,
+  issues JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH students AS (
+    SELECT s.id, s.name, s."rollNumber",
+           ROUND(COALESCE(s.paid, 0)::numeric, 2) AS paid,
+           ROUND(COALESCE(s.balance, 0)::numeric, 2) AS balance,
+           ROUND(COALESCE(s.credit, 0)::numeric, 2) AS credit
+    FROM "Student" s
+    WHERE p_student_id IS NULL OR s.id = p_student_id
+  ),
+  -- Entries admins write directly and carried-over earlier payments, with no source row
+  manual AS (
+    SELECT le."studentId", le."periodId", le.kind, le.debit, le.credit
+    FROM "LedgerEntry" le
+    WHERE le.kind <> 'plan' AND le."paymentId" IS NULL AND le."guestMealId" IS NULL
+  ),
+  periods AS (
+    SELECT sp.id, sp."studentId", ROUND(sp.paid, 2) AS stored,
+           GREATEST(ROUND(
+             COALESCE((SELECT SUM(pay.amount::numeric) FROM "Payment" pay WHERE pay."periodId" = sp.id), 0)
+             + COALESCE((SELECT SUM(m.credit - m.debit) FROM manual m WHERE m."periodId" = sp.id AND m.kind IN ('payment', 'correction')), 0),
+           2), 0) AS expected,
+           ROW_NUMBER() OVER (PARTITION BY sp."studentId" ORDER BY sp."startDate" DESC, sp.id DESC) AS position
+    FROM "SubscriptionPeriod" sp
+    WHERE sp."studentId" IN (SELECT id FROM students)
+  ),
+  totals AS (
+    SELECT s.id,
+           ROUND(
+             COALESCE((SELECT SUM(sp.price) FROM "SubscriptionPeriod" sp WHERE sp."studentId" = s.id), 0)
+             + COALESCE((SELECT SUM(gm.amount) FROM "GuestMeal" gm WHERE gm."studentId" = s.id), 0)
+             - COALESCE((SELECT SUM(pay.amount::numeric) FROM "Payment" pay WHERE pay."studentId" = s.id), 0)
+             + COALESCE((SELECT SUM(m.debit - m.credit) FROM manual m WHERE m."studentId" = s.id), 0),
+           2) AS net
+    FROM students s
+  ),
+  record_issues AS (
+    SELECT pay."studentId",
+           jsonb_build_object(
+             'type', CASE WHEN le.id IS NULL THEN 'payment_missing' ELSE 'payment_mismatch' END,
+             'recordId', pay.id,
+             'date', pay."paymentDate"::date,
+             'expected', ROUND(pay.amount::numeric, 2),
+             'recorded', le.credit
+           ) AS issue
+    FROM "Payment" pay
+    LEFT JOIN "LedgerEntry" le ON le."paymentId" = pay.id
+    WHERE pay."studentId" IN (SELECT id FROM students)
+    AND (
+      le.id IS NULL
+      OR le.credit <> ROUND(pay.amount::numeric, 2)
+      OR le."studentId" <> pay."studentId"
+      OR le."periodId" IS DISTINCT FROM pay."periodId"
+    )
+
+    UNION ALL
+
+    SELECT sp."studentId",
+           jsonb_build_object(
+             'type', CASE WHEN le.id IS NULL THEN 'plan_missing' ELSE 'plan_mismatch' END,
+             'recordId', sp.id,
+             'date', sp."startDate",
+             'expected', sp.price,
+             'recorded', le.debit
+           )
+    FROM "SubscriptionPeriod" sp
+    LEFT JOIN "LedgerEntry" le ON le."periodId" = sp.id AND le.kind = 'plan'
+    WHERE sp."studentId" IN (SELECT id FROM students)
+    AND (le.id IS NULL OR le.debit <> sp.price)
+
+    UNION ALL
+
+    SELECT gm."studentId",
+           jsonb_build_object(
+             'type', CASE WHEN le.id IS NULL THEN 'guest_meal_missing' ELSE 'guest_meal_mismatch' END,
+             'recordId', gm.id,
+             'date', gm.date,
+             'expected', gm.amount,
+             'recorded', le.debit
+           )
+    FROM "GuestMeal" gm
+    LEFT JOIN "LedgerEntry" le ON le."guestMealId" = gm.id
+    WHERE gm."studentId" IN (SELECT id FROM students)
+    AND (le.id IS NULL OR le.debit <> gm.amount)
+
+    UNION ALL
+
+    SELECT p."studentId",
+           jsonb_build_object(
+             'type', 'period_paid',
+             'recordId', p.id,
+             'date', NULL,
+             'expected', p.expected,
+             'recorded', p.stored
+           )
+    FROM periods p
+    WHERE p.stored <> p.expected
+  ),
+  grouped AS (
+    SELECT ri."studentId", jsonb_agg(ri.issue) AS issues
+    FROM record_issues ri
+    GROUP BY ri."studentId"
+  )
+  SELECT s.id,
+         s.name,
+         s."rollNumber",
+         s.paid,
+         COALESCE(cur.expected, s.paid),
+         s.balance,
+         GREATEST(t.net, 0),
+         s.credit,
+         GREATEST(-t.net, 0),
+         COALESCE(g.issues, '[]'::jsonb)
+  FROM students s
+  JOIN totals t ON t.id = s.id
+  LEFT JOIN periods cur ON cur."studentId" = s.id AND cur.position = 1
+  LEFT JOIN grouped g ON g."studentId" = s.id
+  WHERE g.issues IS NOT NULL
+     OR s.paid <> COALESCE(cur.expected, s.paid)
+     OR s.balance <> GREATEST(t.net, 0)
+     OR s.credit <> GREATEST(-t.net, 0)
+  ORDER BY s.name;
+$$;
+
+-- Rebuilds a student's ledger entries from their terms, payments and guest
+-- meals, then re-derives paid and balance. Returns the amounts before and
+-- after, and how many entries were added or fixed.
+CREATE OR REPLACE FUNCTION reconcile_student(p_student_id INTEGER) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before JSONB;
+  v_after JSONB;
+  v_added INTEGER := 0;
+  v_fixed INTEGER := 0;
+  v_count INTEGER;
+  v_period_id BIGINT;
+BEGIN
+  -- Lock the student so payments can't land halfway through
+  SELECT jsonb_build_object('paid', paid, 'balance', balance, 'credit', credit) INTO v_before
+  FROM "Student"
+  WHERE id = p_student_id
+  FOR UPDATE;
+
+  IF v_before IS NULL THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  -- Plan terms
+  INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, debit, "periodId", "createdBy", "createdByEmail")
+  SELECT sp."studentId", sp."startDate", 'plan', COALESCE(p.name, 'Plan') || ' plan', sp.price, sp.id, sp."createdBy", sp."createdByEmail"
+  FROM "SubscriptionPeriod" sp
+  LEFT JOIN "Plan" p ON p.id = sp."planId"
+  WHERE sp."studentId" = p_student_id
+  AND NOT EXISTS (SELECT 1 FROM "LedgerEntry" le WHERE le."periodId" = sp.id AND le.kind = 'plan');
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_added := v_added + v_count;
+
+  UPDATE "LedgerEntry" le
+  SET debit = sp.price, "entryDate" = sp."startDate"
+  FROM "SubscriptionPeriod" sp
+  WHERE le."periodId" = sp.id AND le.kind = 'plan'
+  AND sp."studentId" = p_student_id
+  AND le.debit <> sp.price;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_fixed := v_fixed + v_count;
+
+  -- Payments
+  INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, credit, "periodId", "paymentId")
+  SELECT pay."studentId", pay."paymentDate"::date, 'payment',
+         'Payment' || COALESCE(' (' || NULLIF(pay.method, '') || ')', ''), ROUND(pay.amount::numeric, 2), pay."periodId", pay.id
+  FROM "Payment" pay
+  WHERE pay."studentId" = p_student_id
+  AND NOT EXISTS (SELECT 1 FROM "LedgerEntry" le WHERE le."paymentId" = pay.id);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_added := v_added + v_count;
+
+  UPDATE "LedgerEntry" le
+  SET credit = ROUND(pay.amount::numeric, 2),
+      "studentId" = pay."studentId",
+      "periodId" = pay."periodId",
+      "entryDate" = pay."paymentDate"::date
+  FROM "Payment" pay
+  WHERE le."paymentId" = pay.id
+  AND pay."studentId" = p_student_id
+  AND (
+    le.credit <> ROUND(pay.amount::numeric, 2)
+    OR le."studentId" <> pay."studentId"
+    OR le."periodId" IS DISTINCT FROM pay."periodId"
+  );
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_fixed := v_fixed + v_count;
+
+  -- Guest meals
+  INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, debit, "guestMealId", "createdBy", "createdByEmail")
+  SELECT gm."studentId", gm.date, 'guest_meal',
+         gm.count || CASE WHEN gm.count = 1 THEN ' guest' ELSE ' guests' END || ' (' || gm.meal || ')',
+         gm.amount, gm.id, gm."createdBy", gm."createdByEmail"
+  FROM "GuestMeal" gm
+  WHERE gm."studentId" = p_student_id
+  AND NOT EXISTS (SELECT 1 FROM "LedgerEntry" le WHERE le."guestMealId" = gm.id);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_added := v_added + v_count;
+
+  UPDATE "LedgerEntry" le
+  SET debit = gm.amount
+  FROM "GuestMeal" gm
+  WHERE le."guestMealId" = gm.id
+  AND gm."studentId" = p_student_id
+  AND le.debit <> gm.amount;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_fixed := v_fixed + v_count;
+
+  FOR v_period_id IN SELECT id FROM "SubscriptionPeriod" WHERE "studentId" = p_student_id LOOP
+    PERFORM refresh_period_paid(v_period_id);
+  END LOOP;
+
+  UPDATE "Student" SET "updatedAt" = NOW() WHERE id = p_student_id;
+
+  SELECT jsonb_build_object('paid', paid, 'balance', balance, 'credit', credit) INTO v_after
+  FROM "Student"
+  WHERE id = p_student_id;
+
+  RETURN jsonb_build_object(
+    'before', v_before,
+    'after', v_after,
+    'entriesAdded', v_added,
+    'entriesFixed', v_fixed
+  );
+END;
+$$;
+
+-- Scans every student and keeps the result. Returns the run id.
+CREATE OR REPLACE FUNCTION run_balance_check(
+  p_source TEXT,
+  p_ran_by UUID DEFAULT NULL,
+  p_ran_by_email TEXT DEFAULT NULL
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  INSERT INTO "BalanceCheckRun" (source, "studentsChecked", "discrepancyCount", discrepancies, "ranBy", "ranByEmail")
+  SELECT p_source,
+         (SELECT COUNT(*) FROM "Student"),
+         COUNT(d.*),
+         COALESCE(jsonb_agg(to_jsonb(d.*)), '[]'::jsonb),
+         p_ran_by,
+         p_ran_by_email
+  FROM balance_discrepancies() d
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Only the Edge Function (service role) and pg_cron may call these
+REVOKE ALL ON FUNCTION balance_discrepancies(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reconcile_student(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION run_balance_check(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION balance_discrepancies(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION reconcile_student(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION run_balance_check(TEXT, UUID, TEXT) TO service_role;
+
+-- Nightly check (run after enabling pg_cron, see PLAN_EXPIRY_NOTIFICATIONS_SETUP.md)
+-- SELECT cron.schedule(
+--   'balance-check-nightly',
+--   '0 2 * * *',
+--   $$ SELECT run_balance_check('scheduled') $$
+-- );
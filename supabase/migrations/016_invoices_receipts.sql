@@ -0,0 +1,148 @@
+-- ============================================
+-- Invoice and receipt numbers
+-- ============================================
+-- Every plan term gets an invoice number and every payment a receipt
+-- number when it's recorded. Numbers come from a series set in AppSetting
+-- under 'billing' (see src/lib/billing.ts):
+--
+--   invoiceFormat / receiptFormat  e.g. 'MESS/{FY}/{SEQ}'
+--     {FY}   financial year of the issue date, e.g. 2026-27
+--     {YYYY} calendar year of the issue date
+--     {SEQ}  running number, zero-padded to sequenceDigits
+--   fiscalYearStartMonth           1-12, default 4 (April)
+--
+-- Each distinct prefix (the format with {FY}/{YYYY} filled in) counts from
+-- 1, so a new financial year starts a new series. Numbers are handed out
+-- under a row lock and never reused.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "DocumentSequence" (
+  kind TEXT NOT NULL CHECK (kind IN ('invoice', 'receipt')),
+  series TEXT NOT NULL,
+  "lastNumber" INTEGER NOT NULL DEFAULT 0,
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (kind, series)
+);
+
+-- Only reached through next_document_number()
+ALTER TABLE "DocumentSequence" ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE "SubscriptionPeriod" ADD COLUMN IF NOT EXISTS "invoiceNumber" TEXT;
+ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS "receiptNumber" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS subscription_period_invoice_number_idx ON "SubscriptionPeriod" ("invoiceNumber");
+CREATE UNIQUE INDEX IF NOT EXISTS payment_receipt_number_idx ON "Payment" ("receiptNumber");
+
+CREATE OR REPLACE FUNCTION next_document_number(p_kind TEXT, p_date DATE) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_format TEXT;
+  v_digits INTEGER;
+  v_start_month INTEGER;
+  v_fy_start INTEGER;
+  v_fy TEXT;
+  v_series TEXT;
+  v_next INTEGER;
+BEGIN
+  SELECT value INTO v_settings FROM "AppSetting" WHERE key = 'billing';
+
+  v_format := COALESCE(
+    NULLIF(TRIM(v_settings->>(p_kind || 'Format')), ''),
+    CASE p_kind WHEN 'invoice' THEN 'INV/{FY}/{SEQ}' ELSE 'RCPT/{FY}/{SEQ}' END
+  );
+  IF position('{SEQ}' IN v_format) = 0 THEN
+    v_format := v_format || '/{SEQ}';
+  END IF;
+
+  v_digits := LEAST(GREATEST(COALESCE((v_settings->>'sequenceDigits')::INTEGER, 4), 1), 8);
+  v_start_month := LEAST(GREATEST(COALESCE((v_settings->>'fiscalYearStartMonth')::INTEGER, 4), 1), 12);
+
+  v_fy_start := EXTRACT(YEAR FROM p_date)::INTEGER
+    - CASE WHEN EXTRACT(MONTH FROM p_date) < v_start_month THEN 1 ELSE 0 END;
+  v_fy := CASE
+    WHEN v_start_month = 1 THEN v_fy_start::TEXT
+    ELSE v_fy_start || '-' || lpad(((v_fy_start + 1) % 100)::TEXT, 2, '0')
+  END;
+
+  v_series := replace(replace(v_format, '{FY}', v_fy), '{YYYY}', EXTRACT(YEAR FROM p_date)::TEXT);
+
+  INSERT INTO "DocumentSequence" (kind, series, "lastNumber")
+  VALUES (p_kind, v_series, 1)
+  ON CONFLICT (kind, series)
+  DO UPDATE SET "lastNumber" = "DocumentSequence"."lastNumber" + 1, "updatedAt" = NOW()
+  RETURNING "lastNumber" INTO v_next;
+
+  RETURN replace(v_series, '{SEQ}', lpad(v_next::TEXT, v_digits, '0'));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION next_document_number(TEXT, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION next_document_number(TEXT, DATE) TO service_role;
+
+-- Existing terms and payments, numbered in the order they happened
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT id, "startDate" FROM "SubscriptionPeriod"
+    WHERE "invoiceNumber" IS NULL
+    ORDER BY "createdAt", id
+  LOOP
+    UPDATE "SubscriptionPeriod"
+    SET "invoiceNumber" = next_document_number('invoice', r."startDate")
+    WHERE id = r.id;
+  END LOOP;
+
+  FOR r IN
+    SELECT id, "paymentDate"::date AS "paymentDate" FROM "Payment"
+    WHERE "receiptNumber" IS NULL
+    ORDER BY "paymentDate", id
+  LOOP
+    UPDATE "Payment"
+    SET "receiptNumber" = next_document_number('receipt', r."paymentDate")
+    WHERE id = r.id;
+  END LOOP;
+END;
+$$;
+
+-- New rows are numbered by the day they're recorded at the mess
+CREATE OR REPLACE FUNCTION assign_invoice_number() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW."invoiceNumber" IS NULL THEN
+    NEW."invoiceNumber" := next_document_number('invoice', (NOW() AT TIME ZONE 'Asia/Kolkata')::date);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS subscription_period_invoice_number ON "SubscriptionPeriod";
+CREATE TRIGGER subscription_period_invoice_number
+  BEFORE INSERT ON "SubscriptionPeriod"
+  FOR EACH ROW EXECUTE FUNCTION assign_invoice_number();
+
+CREATE OR REPLACE FUNCTION assign_receipt_number() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW."receiptNumber" IS NULL THEN
+    NEW."receiptNumber" := next_document_number('receipt', (NOW() AT TIME ZONE 'Asia/Kolkata')::date);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payment_receipt_number ON "Payment";
+CREATE TRIGGER payment_receipt_number
+  BEFORE INSERT ON "Payment"
+  FOR EACH ROW EXECUTE FUNCTION assign_receipt_number();
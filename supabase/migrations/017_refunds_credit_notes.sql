@@ -0,0 +1,490 @@
+-- ============================================
+-- Refunds and credit notes
+-- ============================================
+-- A refund is money paid back to a student; it goes on the ledger as a
+-- charge ('refund' debit) and is limited to what they have in credit, or to
+-- what's left of the payment it reverses. A credit note takes an amount off
+-- what a student owes ('credit_note' credit), e.g. for the unused part of a
+-- term when they leave, and is numbered from the 'creditNoteFormat' series in
+-- the billing settings.
+--
+-- A refund of a payment goes against the same term as the payment, so the
+-- term's paid drops by what was given back.
+--
+-- Payments may now be more than the balance; the difference is kept as
+-- credit, and renew-plan applies it to the next term (apply_credit_to_period).
+-- ============================================
+
+ALTER TABLE "LedgerEntry" DROP CONSTRAINT IF EXISTS "LedgerEntry_kind_check";
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_kind_check"
+  CHECK (kind IN ('plan', 'guest_meal', 'fee', 'payment', 'refund', 'credit_note', 'discount', 'correction'));
+
+ALTER TABLE "DocumentSequence" DROP CONSTRAINT IF EXISTS "DocumentSequence_kind_check";
+ALTER TABLE "DocumentSequence" ADD CONSTRAINT "DocumentSequence_kind_check"
+  CHECK (kind IN ('invoice', 'receipt', 'credit_note'));
+
+CREATE TABLE IF NOT EXISTS "Refund" (
+  id BIGSERIAL PRIMARY KEY,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('refund', 'credit_note')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  method TEXT, -- How a refund was paid out; not set for credit notes
+  reason TEXT NOT NULL,
+  "refundDate" DATE NOT NULL,
+  "paymentId" BIGINT REFERENCES "Payment"(id) ON DELETE RESTRICT, -- Payment a refund reverses
+  "creditNoteNumber" TEXT UNIQUE,
+  "ledgerEntryId" BIGINT NOT NULL REFERENCES "LedgerEntry"(id) ON DELETE RESTRICT,
+  "createdBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "createdByEmail" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT refund_method CHECK (type = 'credit_note' OR method IS NOT NULL),
+  CONSTRAINT refund_payment CHECK (type = 'refund' OR "paymentId" IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS refund_student_idx ON "Refund" ("studentId", "refundDate" DESC);
+CREATE INDEX IF NOT EXISTS refund_payment_idx ON "Refund" ("paymentId") WHERE "paymentId" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS refund_date_idx ON "Refund" ("refundDate");
+
+-- Issued through record_refund() only
+ALTER TABLE "Refund" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own refunds" ON "Refund";
+CREATE POLICY "Students can view own refunds"
+  ON "Refund" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "Refund"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view refunds" ON "Refund";
+CREATE POLICY "Admins can view refunds"
+  ON "Refund" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Credit notes get their own series
+CREATE OR REPLACE FUNCTION next_document_number(p_kind TEXT, p_date DATE) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_format TEXT;
+  v_digits INTEGER;
+  v_start_month INTEGER;
+  v_fy_start INTEGER;
+  v_fy TEXT;
+  v_series TEXT;
+  v_next INTEGER;
+BEGIN
+  SELECT value INTO v_settings FROM "AppSetting" WHERE key = 'billing';
+
+  v_format := COALESCE(
+    NULLIF(TRIM(v_settings->>(CASE p_kind WHEN 'credit_note' THEN 'creditNoteFormat' ELSE p_kind || 'Format' END)), ''),
+    CASE p_kind
+      WHEN 'invoice' THEN 'INV/{FY}/{SEQ}'
+      WHEN 'credit_note' THEN 'CN/{FY}/{SEQ}'
+      ELSE 'RCPT/{FY}/{SEQ}'
+    END
+  );
+  IF position('{SEQ}' IN v_format) = 0 THEN
+    v_format := v_format || '/{SEQ}';
+  END IF;
+
+  v_digits := LEAST(GREATEST(COALESCE((v_settings->>'sequenceDigits')::INTEGER, 4), 1), 8);
+  v_start_month := LEAST(GREATEST(COALESCE((v_settings->>'fiscalYearStartMonth')::INTEGER, 4), 1), 12);
+
+  v_fy_start := EXTRACT(YEAR FROM p_date)::INTEGER
+    - CASE WHEN EXTRACT(MONTH FROM p_date) < v_start_month THEN 1 ELSE 0 END;
+  v_fy := CASE
+    WHEN v_start_month = 1 THEN v_fy_start::TEXT
+    ELSE v_fy_start || '-' || lpad(((v_fy_start + 1) % 100)::TEXT, 2, '0')
+  END;
+
+  v_series := replace(replace(v_format, '{FY}', v_fy), '{YYYY}', EXTRACT(YEAR FROM p_date)::TEXT);
+
+  INSERT INTO "DocumentSequence" (kind, series, "lastNumber")
+  VALUES (p_kind, v_series, 1)
+  ON CONFLICT (kind, series)
+  DO UPDATE SET "lastNumber" = "DocumentSequence"."lastNumber" + 1, "updatedAt" = NOW()
+  RETURNING "lastNumber" INTO v_next;
+
+  RETURN replace(v_series, '{SEQ}', lpad(v_next::TEXT, v_digits, '0'));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION next_document_number(TEXT, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION next_document_number(TEXT, DATE) TO service_role;
+
+-- Payments beyond the balance are kept as credit
+CREATE OR REPLACE FUNCTION record_payment(
+  p_student_id INTEGER,
+  p_amount NUMERIC,
+  p_payment_date TIMESTAMPTZ,
+  p_method TEXT,
+  p_period_id BIGINT DEFAULT NULL
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  PERFORM 1 FROM "Student" WHERE id = p_student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  IF p_period_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM "SubscriptionPeriod" WHERE id = p_period_id AND "studentId" = p_student_id
+  ) THEN
+    RAISE EXCEPTION 'Plan term not found';
+  END IF;
+
+  INSERT INTO "Payment" ("studentId", amount, "paymentDate", method, "periodId", "createdAt", "updatedAt")
+  VALUES (p_student_id, ROUND(p_amount, 2), p_payment_date, p_method, p_period_id, NOW(), NOW())
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, BIGINT) TO service_role;
+
+-- A term's paid is what was paid against it less what was refunded from it
+CREATE OR REPLACE FUNCTION refresh_period_paid(p_period_id BIGINT) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE "SubscriptionPeriod"
+  SET paid = GREATEST((
+        SELECT COALESCE(SUM(credit - debit), 0)
+        FROM "LedgerEntry"
+        WHERE "periodId" = p_period_id
+        AND kind IN ('payment', 'correction', 'refund')
+      ), 0),
+      "updatedAt" = NOW()
+  WHERE id = p_period_id;
+END;
+$$;
+
+-- Same check as in 015_balance_reconciliation.sql, with refunds taken off
+-- the paid of the term they came from
+CREATE OR REPLACE FUNCTION balance_discrepancies(p_student_id INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  "studentId" INTEGER,
+  name TEXT,
+  "rollNumber" TEXT,
+  "storedPaid" NUMERIC,
+  "expectedPaid" NUMERIC,
+  "storedBalance" NUMERIC,
+  "expectedBalance" NUMERIC,
+  "storedCredit" NUMERIC,
+  "expectedCredit" NUMERIC,
+  issues JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH students AS (
+    SELECT s.id, s.name, s."rollNumber",
+           ROUND(COALESCE(s.paid, 0)::numeric, 2) AS paid,
+           ROUND(COALESCE(s.balance, 0)::numeric, 2) AS balance,
+           ROUND(COALESCE(s.credit, 0)::numeric, 2) AS credit
+    FROM "Student" s
+    WHERE p_student_id IS NULL OR s.id = p_student_id
+  ),
+  -- Entries admins write directly and carried-over earlier payments, with no source row
+  manual AS (
+    SELECT le."studentId", le."periodId", le.kind, le.debit, le.credit
+    FROM "LedgerEntry" le
+    WHERE le.kind <> 'plan' AND le."paymentId" IS NULL AND le."guestMealId" IS NULL
+  ),
+  periods AS (
+    SELECT sp.id, sp."studentId", ROUND(sp.paid, 2) AS stored,
+           GREATEST(ROUND(
+             COALESCE((SELECT SUM(pay.amount::numeric) FROM "Payment" pay WHERE pay."periodId" = sp.id), 0)
+             + COALESCE((SELECT SUM(m.credit - m.debit) FROM manual m WHERE m."periodId" = sp.id AND m.kind IN ('payment', 'correction', 'refund')), 0),
+           2), 0) AS expected,
+           ROW_NUMBER() OVER (PARTITION BY sp."studentId" ORDER BY sp."startDate" DESC, sp.id DESC) AS position
+    FROM "SubscriptionPeriod" sp
+    WHERE sp."studentId" IN (SELECT id FROM students)
+  ),
+  totals AS (
+    SELECT s.id,
+           ROUND(
+             COALESCE((SELECT SUM(sp.price) FROM "SubscriptionPeriod" sp WHERE sp."studentId" = s.id), 0)
+             + COALESCE((SELECT SUM(gm.amount) FROM "GuestMeal" gm WHERE gm."studentId" = s.id), 0)
+             - COALESCE((SELECT SUM(pay.amount::numeric) FROM "Payment" pay WHERE pay."studentId" = s.id), 0)
+             + COALESCE((SELECT SUM(m.debit - m.credit) FROM manual m WHERE m."studentId" = s.id), 0),
+           2) AS net
+    FROM students s
+  ),
+  record_issues AS (
+    SELECT pay."studentId",
+           jsonb_build_object(
+             'type', CASE WHEN le.id IS NULL THEN 'payment_missing' ELSE 'payment_mismatch' END,
+             'recordId', pay.id,
+             'date', pay."paymentDate"::date,
+             'expected', ROUND(pay.amount::numeric, 2),
+             'recorded', le.credit
+           ) AS issue
+    FROM "Payment" pay
+    LEFT JOIN "LedgerEntry" le ON le."paymentId" = pay.id
+    WHERE pay."studentId" IN (SELECT id FROM students)
+    AND (
+      le.id IS NULL
+      OR le.credit <> ROUND(pay.amount::numeric, 2)
+      OR le."studentId" <> pay."studentId"
+      OR le."periodId" IS DISTINCT FROM pay."periodId"
+    )
+
+    UNION ALL
+
+    SELECT sp."studentId",
+           jsonb_build_object(
+             'type', CASE WHEN le.id IS NULL THEN 'plan_missing' ELSE 'plan_mismatch' END,
+             'recordId', sp.id,
+             'date', sp."startDate",
+             'expected', sp.price,
+             'recorded', le.debit
+           )
+    FROM "SubscriptionPeriod" sp
+    LEFT JOIN "LedgerEntry" le ON le."periodId" = sp.id AND le.kind = 'plan'
+    WHERE sp."studentId" IN (SELECT id FROM students)
+    AND (le.id IS NULL OR le.debit <> sp.price)
+
+    UNION ALL
+
+    SELECT gm."studentId",
+           jsonb_build_object(
+             'type', CASE WHEN le.id IS NULL THEN 'guest_meal_missing' ELSE 'guest_meal_mismatch' END,
+             'recordId', gm.id,
+             'date', gm.date,
+             'expected', gm.amount,
+             'recorded', le.debit
+           )
+    FROM "GuestMeal" gm
+    LEFT JOIN "LedgerEntry" le ON le."guestMealId" = gm.id
+    WHERE gm."studentId" IN (SELECT id FROM students)
+    AND (le.id IS NULL OR le.debit <> gm.amount)
+
+    UNION ALL
+
+    SELECT p."studentId",
+           jsonb_build_object(
+             'type', 'period_paid',
+             'recordId', p.id,
+             'date', NULL,
+             'expected', p.expected,
+             'recorded', p.stored
+           )
+    FROM periods p
+    WHERE p.stored <> p.expected
+  ),
+  grouped AS (
+    SELECT ri."studentId", jsonb_agg(ri.issue) AS issues
+    FROM record_issues ri
+    GROUP BY ri."studentId"
+  )
+  SELECT s.id,
+         s.name,
+         s."rollNumber",
+         s.paid,
+         COALESCE(cur.expected, s.paid),
+         s.balance,
+         GREATEST(t.net, 0),
+         s.credit,
+         GREATEST(-t.net, 0),
+         COALESCE(g.issues, '[]'::jsonb)
+  FROM students s
+  JOIN totals t ON t.id = s.id
+  LEFT JOIN periods cur ON cur."studentId" = s.id AND cur.position = 1
+  LEFT JOIN grouped g ON g."studentId" = s.id
+  WHERE g.issues IS NOT NULL
+     OR s.paid <> COALESCE(cur.expected, s.paid)
+     OR s.balance <> GREATEST(t.net, 0)
+     OR s.credit <> GREATEST(-t.net, 0)
+  ORDER BY s.name;
+$$;
+
+REVOKE ALL ON FUNCTION balance_discrepancies(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION balance_discrepancies(INTEGER) TO service_role;
+
+-- Issues a refund or credit note with its ledger entry. The student is
+-- locked so two refunds can't both spend the same credit. Returns the id.
+CREATE OR REPLACE FUNCTION record_refund(
+  p_student_id INTEGER,
+  p_type TEXT,
+  p_amount NUMERIC,
+  p_method TEXT,
+  p_reason TEXT,
+  p_refund_date DATE,
+  p_payment_id BIGINT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL,
+  p_created_by_email TEXT DEFAULT NULL
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amount NUMERIC := ROUND(p_amount, 2);
+  v_credit NUMERIC;
+  v_payment "Payment"%ROWTYPE;
+  v_refunded NUMERIC;
+  v_number TEXT;
+  v_description TEXT;
+  v_entry_id BIGINT;
+  v_id BIGINT;
+BEGIN
+  IF p_type NOT IN ('refund', 'credit_note') THEN
+    RAISE EXCEPTION 'Unknown refund type %', p_type;
+  END IF;
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT credit INTO v_credit FROM "Student" WHERE id = p_student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  IF p_type = 'refund' THEN
+    IF COALESCE(TRIM(p_method), '') = '' THEN
+      RAISE EXCEPTION 'Refund method is required';
+    END IF;
+
+    IF p_payment_id IS NOT NULL THEN
+      SELECT * INTO v_payment FROM "Payment" WHERE id = p_payment_id AND "studentId" = p_student_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found for this student';
+      END IF;
+
+      SELECT COALESCE(SUM(amount), 0) INTO v_refunded FROM "Refund" WHERE "paymentId" = p_payment_id;
+      IF v_amount > ROUND(v_payment.amount::numeric, 2) - v_refunded THEN
+        RAISE EXCEPTION 'Refund (₹%) is more than what is left of the payment (₹%)',
+          v_amount, ROUND(v_payment.amount::numeric, 2) - v_refunded;
+      END IF;
+
+      v_description := 'Refund of payment on ' || to_char(v_payment."paymentDate", 'DD Mon YYYY') || ' (' || TRIM(p_method) || ')';
+    ELSE
+      IF v_amount > COALESCE(v_credit, 0) THEN
+        RAISE EXCEPTION 'Refund (₹%) is more than the student''s credit (₹%)', v_amount, COALESCE(v_credit, 0);
+      END IF;
+
+      v_description := 'Refund of credit (' || TRIM(p_method) || ')';
+    END IF;
+  ELSE
+    v_number := next_document_number('credit_note', p_refund_date);
+    v_description := 'Credit note ' || v_number;
+  END IF;
+
+  v_description := v_description || ': ' || TRIM(p_reason);
+
+  INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, debit, credit, "periodId", "createdBy", "createdByEmail")
+  VALUES (
+    p_student_id,
+    p_refund_date,
+    p_type,
+    v_description,
+    CASE WHEN p_type = 'refund' THEN v_amount ELSE 0 END,
+    CASE WHEN p_type = 'credit_note' THEN v_amount ELSE 0 END,
+    CASE WHEN p_type = 'refund' AND p_payment_id IS NOT NULL THEN v_payment."periodId" END,
+    p_created_by,
+    p_created_by_email
+  )
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO "Refund" (
+    "studentId", type, amount, method, reason, "refundDate", "paymentId",
+    "creditNoteNumber", "ledgerEntryId", "createdBy", "createdByEmail"
+  )
+  VALUES (
+    p_student_id, p_type, v_amount, NULLIF(TRIM(p_method), ''), TRIM(p_reason), p_refund_date,
+    CASE WHEN p_type = 'refund' THEN p_payment_id END,
+    v_number, v_entry_id, p_created_by, p_created_by_email
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_refund(INTEGER, TEXT, NUMERIC, TEXT, TEXT, DATE, BIGINT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_refund(INTEGER, TEXT, NUMERIC, TEXT, TEXT, DATE, BIGINT, UUID, TEXT) TO service_role;
+
+-- Moves credit from earlier terms onto a term, up to what's still owed on
+-- it. The two correction entries cancel out, so the balance doesn't change;
+-- the term's paid goes up by the amount moved. Returns the amount.
+CREATE OR REPLACE FUNCTION apply_credit_to_period(
+  p_period_id BIGINT,
+  p_created_by UUID DEFAULT NULL,
+  p_created_by_email TEXT DEFAULT NULL
+) RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period "SubscriptionPeriod"%ROWTYPE;
+  v_earlier NUMERIC;
+  v_amount NUMERIC;
+  v_today DATE := (NOW() AT TIME ZONE 'Asia/Kolkata')::date;
+BEGIN
+  SELECT * INTO v_period FROM "SubscriptionPeriod" WHERE id = p_period_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan term not found';
+  END IF;
+
+  PERFORM 1 FROM "Student" WHERE id = v_period."studentId" FOR UPDATE;
+
+  -- Everything on the account except this term's own entries
+  SELECT COALESCE(SUM(debit - credit), 0) INTO v_earlier
+  FROM "LedgerEntry"
+  WHERE "studentId" = v_period."studentId"
+  AND "periodId" IS DISTINCT FROM p_period_id;
+
+  v_amount := LEAST(GREATEST(-v_earlier, 0), GREATEST(v_period.price - v_period.paid, 0));
+
+  IF v_amount <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, debit, "createdBy", "createdByEmail")
+  VALUES (v_period."studentId", v_today, 'correction', 'Credit carried forward to next term', v_amount, p_created_by, p_created_by_email);
+
+  INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, credit, "periodId", "createdBy", "createdByEmail")
+  VALUES (v_period."studentId", v_today, 'correction', 'Credit from earlier terms', v_amount, p_period_id, p_created_by, p_created_by_email);
+
+  RETURN v_amount;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_credit_to_period(BIGINT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_credit_to_period(BIGINT, UUID, TEXT) TO service_role;
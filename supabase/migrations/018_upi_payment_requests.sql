@@ -0,0 +1,185 @@
+-- ============================================
+-- UPI payment requests
+-- ============================================
+-- Students pay the mess VPA (the 'upiVpa' billing setting) from their UPI
+-- app and submit the UTR / transaction reference, optionally with a
+-- screenshot. Admins check the reference against the bank and confirm it,
+-- which records the Payment through the create-payment edge function with
+-- the reference stored on it, or reject it with a note.
+--
+-- Requests are submitted through the submit-upi-payment edge function so
+-- the student is taken from the token and duplicate references are caught.
+-- Screenshots go to the private 'payment-screenshots' bucket under the
+-- student's user id.
+-- ============================================
+
+ALTER TABLE "Payment"
+  ADD COLUMN IF NOT EXISTS reference TEXT; -- UTR or transaction id for UPI / online payments
+
+-- The same transfer can't be recorded twice
+CREATE UNIQUE INDEX IF NOT EXISTS payment_reference_unique
+  ON "Payment" (UPPER(reference))
+  WHERE reference IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "UpiPaymentRequest" (
+  id BIGSERIAL PRIMARY KEY,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  reference TEXT NOT NULL,
+  "screenshotPath" TEXT, -- Object in the 'payment-screenshots' bucket
+  status TEXT NOT NULL DEFAULT 'pending',
+  "paymentId" BIGINT REFERENCES "Payment"(id) ON DELETE SET NULL,
+  "reviewedBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "reviewedAt" TIMESTAMPTZ,
+  "reviewNote" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT upi_payment_request_status CHECK (status IN ('pending', 'confirmed', 'rejected', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS upi_payment_request_student_idx
+  ON "UpiPaymentRequest" ("studentId", "createdAt" DESC);
+
+CREATE INDEX IF NOT EXISTS upi_payment_request_status_idx
+  ON "UpiPaymentRequest" (status, "createdAt");
+
+-- A reference can be waiting or confirmed only once; rejected ones can be resubmitted
+CREATE UNIQUE INDEX IF NOT EXISTS upi_payment_request_reference_unique
+  ON "UpiPaymentRequest" (UPPER(reference))
+  WHERE status IN ('pending', 'confirmed');
+
+ALTER TABLE "UpiPaymentRequest" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own UPI payment requests" ON "UpiPaymentRequest";
+CREATE POLICY "Students can view own UPI payment requests"
+  ON "UpiPaymentRequest" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "UpiPaymentRequest"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+-- Students may withdraw a request that hasn't been reviewed yet
+DROP POLICY IF EXISTS "Students can cancel own pending UPI payment requests" ON "UpiPaymentRequest";
+CREATE POLICY "Students can cancel own pending UPI payment requests"
+  ON "UpiPaymentRequest" FOR UPDATE
+  USING (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "UpiPaymentRequest"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  )
+  WITH CHECK (status = 'cancelled');
+
+DROP POLICY IF EXISTS "Admins can view UPI payment requests" ON "UpiPaymentRequest";
+CREATE POLICY "Admins can view UPI payment requests"
+  ON "UpiPaymentRequest" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Confirming goes through create-payment; admins only reject directly
+DROP POLICY IF EXISTS "Admins can reject UPI payment requests" ON "UpiPaymentRequest";
+CREATE POLICY "Admins can reject UPI payment requests"
+  ON "UpiPaymentRequest" FOR UPDATE
+  USING (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (status = 'rejected');
+
+-- Payment screenshots, one folder per student user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-screenshots', 'payment-screenshots', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Students can upload own payment screenshots" ON storage.objects;
+CREATE POLICY "Students can upload own payment screenshots"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'payment-screenshots'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Students can view own payment screenshots" ON storage.objects;
+CREATE POLICY "Students can view own payment screenshots"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'payment-screenshots'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Admins can view payment screenshots" ON storage.objects;
+CREATE POLICY "Admins can view payment screenshots"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'payment-screenshots'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Payments may carry the transfer reference
+DROP FUNCTION IF EXISTS record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, BIGINT);
+
+CREATE OR REPLACE FUNCTION record_payment(
+  p_student_id INTEGER,
+  p_amount NUMERIC,
+  p_payment_date TIMESTAMPTZ,
+  p_method TEXT,
+  p_reference TEXT DEFAULT NULL,
+  p_period_id BIGINT DEFAULT NULL
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  PERFORM 1 FROM "Student" WHERE id = p_student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  IF NULLIF(TRIM(p_reference), '') IS NOT NULL AND EXISTS (
+    SELECT 1 FROM "Payment" WHERE UPPER(reference) = UPPER(TRIM(p_reference))
+  ) THEN
+    RAISE EXCEPTION 'A payment with reference % has already been recorded', TRIM(p_reference);
+  END IF;
+
+  IF p_period_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM "SubscriptionPeriod" WHERE id = p_period_id AND "studentId" = p_student_id
+  ) THEN
+    RAISE EXCEPTION 'Plan term not found';
+  END IF;
+
+  INSERT INTO "Payment" ("studentId", amount, "paymentDate", method, reference, "periodId", "createdAt", "updatedAt")
+  VALUES (p_student_id, ROUND(p_amount, 2), p_payment_date, p_method, NULLIF(TRIM(p_reference), ''), p_period_id, NOW(), NOW())
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, TEXT, BIGINT) TO service_role;
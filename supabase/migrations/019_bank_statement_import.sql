@@ -0,0 +1,217 @@
+-- ============================================
+-- Bank statement import
+-- ============================================
+-- At month-end the accountant imports the bank's CSV statement instead of
+-- ticking payments off by hand. The app matches each credit to a recorded
+-- payment, a pending UPI payment request or a student, and the
+-- import-bank-statement edge function applies the reviewed rows through
+-- import_bank_statement() in one transaction:
+--
+--   match   - an existing payment is marked as seen in the statement
+--   confirm - a pending UPI payment request is confirmed and recorded
+--   create  - a new payment is recorded for a credit nobody entered
+--
+-- UPI / Online payments dated inside the statement that no row matched are
+-- marked 'missing' so they can be followed up from the payments list.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "BankStatementImport" (
+  id BIGSERIAL PRIMARY KEY,
+  "fileName" TEXT NOT NULL,
+  "startDate" DATE NOT NULL, -- First and last transaction dates in the file
+  "endDate" DATE NOT NULL,
+  "rowCount" INTEGER NOT NULL DEFAULT 0,
+  "matchedCount" INTEGER NOT NULL DEFAULT 0,
+  "confirmedCount" INTEGER NOT NULL DEFAULT 0,
+  "createdCount" INTEGER NOT NULL DEFAULT 0,
+  "missingCount" INTEGER NOT NULL DEFAULT 0,
+  "importedBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "importedByEmail" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT bank_statement_import_range CHECK ("endDate" >= "startDate")
+);
+
+ALTER TABLE "BankStatementImport" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view bank statement imports" ON "BankStatementImport";
+CREATE POLICY "Admins can view bank statement imports"
+  ON "BankStatementImport" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- NULL until a statement covering the payment date is imported
+ALTER TABLE "Payment"
+  ADD COLUMN IF NOT EXISTS "statementStatus" TEXT
+    CHECK ("statementStatus" IN ('matched', 'missing')),
+  ADD COLUMN IF NOT EXISTS "statementImportId" BIGINT
+    REFERENCES "BankStatementImport"(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS payment_statement_status_idx
+  ON "Payment" ("statementStatus")
+  WHERE "statementStatus" IS NOT NULL;
+
+-- p_rows: [
+--   { "action": "match", "paymentId": 12, "reference": "412345678901" },
+--   { "action": "confirm", "requestId": 3, "amount": 3500, "date": "2025-07-02", "reference": "..." },
+--   { "action": "create", "studentId": 7, "amount": 3500, "date": "2025-07-02", "method": "UPI", "reference": "..." }
+-- ]
+-- Returns { importId, matched, confirmed, created, missing }.
+CREATE OR REPLACE FUNCTION import_bank_statement(
+  p_file_name TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_rows JSONB,
+  p_imported_by UUID,
+  p_imported_by_email TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_import_id BIGINT;
+  v_row JSONB;
+  v_action TEXT;
+  v_reference TEXT;
+  v_payment_id BIGINT;
+  v_request "UpiPaymentRequest"%ROWTYPE;
+  v_seen BIGINT[] := '{}';
+  v_matched INTEGER := 0;
+  v_confirmed INTEGER := 0;
+  v_created INTEGER := 0;
+  v_missing INTEGER := 0;
+BEGIN
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'Rows must be an array';
+  END IF;
+
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'Invalid statement dates';
+  END IF;
+
+  INSERT INTO "BankStatementImport" ("fileName", "startDate", "endDate", "rowCount", "importedBy", "importedByEmail")
+  VALUES (p_file_name, p_start_date, p_end_date, jsonb_array_length(p_rows), p_imported_by, p_imported_by_email)
+  RETURNING id INTO v_import_id;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+  LOOP
+    v_action := v_row->>'action';
+    v_reference := NULLIF(UPPER(REGEXP_REPLACE(COALESCE(v_row->>'reference', ''), '\s', '', 'g')), '');
+
+    IF v_action = 'match' THEN
+      v_payment_id := (v_row->>'paymentId')::BIGINT;
+
+      -- Fill in the reference from the statement when the payment has none
+      -- and no other payment uses it
+      UPDATE "Payment"
+      SET "statementStatus" = 'matched',
+          "statementImportId" = v_import_id,
+          reference = CASE
+            WHEN reference IS NULL AND v_reference IS NOT NULL AND NOT EXISTS (
+              SELECT 1 FROM "Payment" other WHERE UPPER(other.reference) = v_reference
+            ) THEN v_reference
+            ELSE reference
+          END,
+          "updatedAt" = NOW()
+      WHERE id = v_payment_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found: %', v_payment_id;
+      END IF;
+
+      v_matched := v_matched + 1;
+
+    ELSIF v_action = 'confirm' THEN
+      SELECT * INTO v_request
+      FROM "UpiPaymentRequest"
+      WHERE id = (v_row->>'requestId')::BIGINT
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'UPI payment % is no longer pending', COALESCE(v_request.reference, v_row->>'requestId');
+      END IF;
+
+      v_payment_id := record_payment(
+        v_request."studentId",
+        (v_row->>'amount')::NUMERIC,
+        (v_row->>'date')::DATE::TIMESTAMPTZ,
+        'UPI',
+        v_request.reference
+      );
+
+      UPDATE "UpiPaymentRequest"
+      SET status = 'confirmed',
+          "paymentId" = v_payment_id,
+          "reviewedBy" = p_imported_by,
+          "reviewedAt" = NOW(),
+          "reviewNote" = 'Matched in bank statement',
+          "updatedAt" = NOW()
+      WHERE id = v_request.id;
+
+      v_confirmed := v_confirmed + 1;
+
+    ELSIF v_action = 'create' THEN
+      v_payment_id := record_payment(
+        (v_row->>'studentId')::INTEGER,
+        (v_row->>'amount')::NUMERIC,
+        (v_row->>'date')::DATE::TIMESTAMPTZ,
+        COALESCE(NULLIF(TRIM(v_row->>'method'), ''), 'Online'),
+        v_reference
+      );
+
+      v_created := v_created + 1;
+
+    ELSE
+      RAISE EXCEPTION 'Invalid action: %', v_action;
+    END IF;
+
+    IF v_payment_id = ANY(v_seen) THEN
+      RAISE EXCEPTION 'Payment % matches more than one statement row', v_payment_id;
+    END IF;
+    v_seen := v_seen || v_payment_id;
+
+    IF v_action <> 'match' THEN
+      UPDATE "Payment"
+      SET "statementStatus" = 'matched',
+          "statementImportId" = v_import_id
+      WHERE id = v_payment_id;
+    END IF;
+  END LOOP;
+
+  -- Transfers recorded in the app that the bank never saw. Payments matched
+  -- by an earlier statement keep their status.
+  UPDATE "Payment"
+  SET "statementStatus" = 'missing',
+      "statementImportId" = v_import_id,
+      "updatedAt" = NOW()
+  WHERE method IN ('UPI', 'Online')
+    AND "paymentDate"::date BETWEEN p_start_date AND p_end_date
+    AND COALESCE("statementStatus", 'missing') = 'missing'
+    AND NOT (id = ANY(v_seen));
+
+  GET DIAGNOSTICS v_missing = ROW_COUNT;
+
+  UPDATE "BankStatementImport"
+  SET "matchedCount" = v_matched,
+      "confirmedCount" = v_confirmed,
+      "createdCount" = v_created,
+      "missingCount" = v_missing
+  WHERE id = v_import_id;
+
+  RETURN jsonb_build_object(
+    'importId', v_import_id,
+    'matched', v_matched,
+    'confirmed', v_confirmed,
+    'created', v_created,
+    'missing', v_missing
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_bank_statement(TEXT, DATE, DATE, JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_bank_statement(TEXT, DATE, DATE, JSONB, UUID, TEXT) TO service_role;
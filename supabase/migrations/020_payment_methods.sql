@@ -0,0 +1,293 @@
+-- ============================================
+-- Configurable payment methods
+-- ============================================
+-- Payment methods (name, icon, whether a reference number is required,
+-- whether it counts as cash in hand) are managed by admins and stored in
+-- AppSetting under 'payment_methods'. "Payment".method keeps the method's
+-- key, so payments recorded as Cash / UPI / Online stay as they are.
+--
+-- Payments get free-text notes next to the reference (cheque number, UTR,
+-- bank name...). The create-payment edge function checks the method exists
+-- and that a reference is given when the method requires one.
+--
+-- Bank statement imports follow the methods too: any method that isn't cash
+-- in hand reaches the bank, so its payments are matched against statements
+-- and marked missing when the bank never saw them.
+-- ============================================
+
+ALTER TABLE "Payment"
+  ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Payments may carry notes
+DROP FUNCTION IF EXISTS record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, TEXT, BIGINT);
+
+CREATE OR REPLACE FUNCTION record_payment(
+  p_student_id INTEGER,
+  p_amount NUMERIC,
+  p_payment_date TIMESTAMPTZ,
+  p_method TEXT,
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_period_id BIGINT DEFAULT NULL
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  IF NULLIF(TRIM(p_method), '') IS NULL THEN
+    RAISE EXCEPTION 'Payment method is required';
+  END IF;
+
+  PERFORM 1 FROM "Student" WHERE id = p_student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  IF NULLIF(TRIM(p_reference), '') IS NOT NULL AND EXISTS (
+    SELECT 1 FROM "Payment" WHERE UPPER(reference) = UPPER(TRIM(p_reference))
+  ) THEN
+    RAISE EXCEPTION 'A payment with reference % has already been recorded', TRIM(p_reference);
+  END IF;
+
+  IF p_period_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM "SubscriptionPeriod" WHERE id = p_period_id AND "studentId" = p_student_id
+  ) THEN
+    RAISE EXCEPTION 'Plan term not found';
+  END IF;
+
+  INSERT INTO "Payment" ("studentId", amount, "paymentDate", method, reference, notes, "periodId", "createdAt", "updatedAt")
+  VALUES (
+    p_student_id,
+    ROUND(p_amount, 2),
+    p_payment_date,
+    TRIM(p_method),
+    NULLIF(TRIM(p_reference), ''),
+    NULLIF(TRIM(p_notes), ''),
+    p_period_id,
+    NOW(),
+    NOW()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, TEXT, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment(INTEGER, NUMERIC, TIMESTAMPTZ, TEXT, TEXT, TEXT, BIGINT) TO service_role;
+
+-- Keys of the methods that reach the bank, i.e. all but cash in hand, in the
+-- order they're listed. Same fallback as normalizePaymentMethods() in the
+-- app: UPI and Online until methods are configured.
+CREATE OR REPLACE FUNCTION bank_payment_methods() RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH stored AS (
+    SELECT item.method, item.ordinal
+    FROM "AppSetting" setting
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE WHEN jsonb_typeof(setting.value) = 'array' THEN setting.value ELSE '[]'::jsonb END
+    ) WITH ORDINALITY AS item(method, ordinal)
+    WHERE setting.key = 'payment_methods'
+      AND jsonb_typeof(item.method->'key') = 'string'
+      AND TRIM(item.method->>'key') <> ''
+      AND jsonb_typeof(item.method->'name') = 'string'
+  )
+  SELECT CASE
+    WHEN NOT EXISTS (SELECT 1 FROM stored) THEN ARRAY['UPI', 'Online']
+    ELSE COALESCE(
+      (
+        SELECT array_agg(TRIM(method->>'key') ORDER BY ordinal)
+        FROM stored
+        WHERE (method->'cashInHand' = 'true'::jsonb) IS NOT TRUE
+      ),
+      '{}'
+    )
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION bank_payment_methods() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION bank_payment_methods() TO service_role;
+
+-- Statement imports record and flag payments by the configured bank methods
+-- rather than UPI / Online
+CREATE OR REPLACE FUNCTION import_bank_statement(
+  p_file_name TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_rows JSONB,
+  p_imported_by UUID,
+  p_imported_by_email TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_import_id BIGINT;
+  v_row JSONB;
+  v_action TEXT;
+  v_reference TEXT;
+  v_payment_id BIGINT;
+  v_method TEXT;
+  v_bank_methods TEXT[] := bank_payment_methods();
+  v_request "UpiPaymentRequest"%ROWTYPE;
+  v_seen BIGINT[] := '{}';
+  v_matched INTEGER := 0;
+  v_confirmed INTEGER := 0;
+  v_created INTEGER := 0;
+  v_missing INTEGER := 0;
+BEGIN
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'Rows must be an array';
+  END IF;
+
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'Invalid statement dates';
+  END IF;
+
+  INSERT INTO "BankStatementImport" ("fileName", "startDate", "endDate", "rowCount", "importedBy", "importedByEmail")
+  VALUES (p_file_name, p_start_date, p_end_date, jsonb_array_length(p_rows), p_imported_by, p_imported_by_email)
+  RETURNING id INTO v_import_id;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+  LOOP
+    v_action := v_row->>'action';
+    v_reference := NULLIF(UPPER(REGEXP_REPLACE(COALESCE(v_row->>'reference', ''), '\s', '', 'g')), '');
+
+    IF v_action = 'match' THEN
+      v_payment_id := (v_row->>'paymentId')::BIGINT;
+
+      -- Fill in the reference from the statement when the payment has none
+      -- and no other payment uses it
+      UPDATE "Payment"
+      SET "statementStatus" = 'matched',
+          "statementImportId" = v_import_id,
+          reference = CASE
+            WHEN reference IS NULL AND v_reference IS NOT NULL AND NOT EXISTS (
+              SELECT 1 FROM "Payment" other WHERE UPPER(other.reference) = v_reference
+            ) THEN v_reference
+            ELSE reference
+          END,
+          "updatedAt" = NOW()
+      WHERE id = v_payment_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found: %', v_payment_id;
+      END IF;
+
+      v_matched := v_matched + 1;
+
+    ELSIF v_action = 'confirm' THEN
+      SELECT * INTO v_request
+      FROM "UpiPaymentRequest"
+      WHERE id = (v_row->>'requestId')::BIGINT
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'UPI payment % is no longer pending', COALESCE(v_request.reference, v_row->>'requestId');
+      END IF;
+
+      -- Recorded as UPI while it's set up, as the app does
+      v_method := CASE WHEN 'UPI' = ANY(v_bank_methods) THEN 'UPI' ELSE v_bank_methods[1] END;
+
+      IF v_method IS NULL THEN
+        RAISE EXCEPTION 'No payment method reaches the bank';
+      END IF;
+
+      v_payment_id := record_payment(
+        v_request."studentId",
+        (v_row->>'amount')::NUMERIC,
+        (v_row->>'date')::DATE::TIMESTAMPTZ,
+        v_method,
+        v_request.reference
+      );
+
+      UPDATE "UpiPaymentRequest"
+      SET status = 'confirmed',
+          "paymentId" = v_payment_id,
+          "reviewedBy" = p_imported_by,
+          "reviewedAt" = NOW(),
+          "reviewNote" = 'Matched in bank statement',
+          "updatedAt" = NOW()
+      WHERE id = v_request.id;
+
+      v_confirmed := v_confirmed + 1;
+
+    ELSIF v_action = 'create' THEN
+      v_method := TRIM(v_row->>'method');
+
+      IF v_method IS NULL OR NOT (v_method = ANY(v_bank_methods)) THEN
+        RAISE EXCEPTION 'Invalid payment method: %', COALESCE(v_method, '');
+      END IF;
+
+      v_payment_id := record_payment(
+        (v_row->>'studentId')::INTEGER,
+        (v_row->>'amount')::NUMERIC,
+        (v_row->>'date')::DATE::TIMESTAMPTZ,
+        v_method,
+        v_reference
+      );
+
+      v_created := v_created + 1;
+
+    ELSE
+      RAISE EXCEPTION 'Invalid action: %', v_action;
+    END IF;
+
+    IF v_payment_id = ANY(v_seen) THEN
+      RAISE EXCEPTION 'Payment % matches more than one statement row', v_payment_id;
+    END IF;
+    v_seen := v_seen || v_payment_id;
+
+    IF v_action <> 'match' THEN
+      UPDATE "Payment"
+      SET "statementStatus" = 'matched',
+          "statementImportId" = v_import_id
+      WHERE id = v_payment_id;
+    END IF;
+  END LOOP;
+
+  -- Payments by methods that reach the bank but that it never saw. Payments matched
+  -- by an earlier statement keep their status.
+  UPDATE "Payment"
+  SET "statementStatus" = 'missing',
+      "statementImportId" = v_import_id,
+      "updatedAt" = NOW()
+  WHERE method = ANY(v_bank_methods)
+    AND "paymentDate"::date BETWEEN p_start_date AND p_end_date
+    AND COALESCE("statementStatus", 'missing') = 'missing'
+    AND NOT (id = ANY(v_seen));
+
+  GET DIAGNOSTICS v_missing = ROW_COUNT;
+
+  UPDATE "BankStatementImport"
+  SET "matchedCount" = v_matched,
+      "confirmedCount" = v_confirmed,
+      "createdCount" = v_created,
+      "missingCount" = v_missing
+  WHERE id = v_import_id;
+
+  RETURN jsonb_build_object(
+    'importId', v_import_id,
+    'matched', v_matched,
+    'confirmed', v_confirmed,
+    'created', v_created,
+    'missing', v_missing
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_bank_statement(TEXT, DATE, DATE, JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_bank_statement(TEXT, DATE, DATE, JSONB, UUID, TEXT) TO service_role;
@@ -0,0 +1,257 @@
+-- ============================================
+-- Installment schedules
+-- ============================================
+-- A plan term can be paid in parts: "Installment" holds the amount and due
+-- date of each part. The schedule is set when the term is created on
+-- renewal, or attached to an existing term (one started on joining or by
+-- an import) later. Its amounts add up to the term's price.
+--
+-- Installments don't change how payments are recorded. What's been paid on
+-- the term ("SubscriptionPeriod".paid, from the ledger) is allocated to its
+-- installments in due date order by the trigger below, so each
+-- installment's paid follows every payment, edit and deletion:
+--
+--   installment 1 paid = min(amount, term paid)
+--   installment 2 paid = min(amount, term paid - installment 1 amount) ...
+--
+-- An installment is overdue once its due date has passed with paid < amount.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "Installment" (
+  id BIGSERIAL PRIMARY KEY,
+  "periodId" BIGINT NOT NULL REFERENCES "SubscriptionPeriod"(id) ON DELETE CASCADE,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  "dueDate" DATE NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  paid NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (paid >= 0),
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS installment_period_idx ON "Installment" ("periodId", "dueDate", id);
+CREATE INDEX IF NOT EXISTS installment_due_idx ON "Installment" ("dueDate");
+CREATE INDEX IF NOT EXISTS installment_student_idx ON "Installment" ("studentId", "dueDate");
+
+ALTER TABLE "Installment" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own installments" ON "Installment";
+CREATE POLICY "Students can view own installments"
+  ON "Installment" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "Installment"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view installments" ON "Installment";
+CREATE POLICY "Admins can view installments"
+  ON "Installment" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Spreads the term's paid over its installments, earliest due first
+CREATE OR REPLACE FUNCTION allocate_installments(p_period_id BIGINT) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_remaining NUMERIC;
+  v_installment RECORD;
+  v_paid NUMERIC;
+BEGIN
+  SELECT paid INTO v_remaining FROM "SubscriptionPeriod" WHERE id = p_period_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_installment IN
+    SELECT id, amount, paid FROM "Installment"
+    WHERE "periodId" = p_period_id
+    ORDER BY "dueDate", id
+  LOOP
+    v_paid := LEAST(v_installment.amount, GREATEST(v_remaining, 0));
+    v_remaining := v_remaining - v_paid;
+
+    IF v_paid IS DISTINCT FROM v_installment.paid THEN
+      UPDATE "Installment"
+      SET paid = v_paid,
+          "updatedAt" = NOW()
+      WHERE id = v_installment.id;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION period_paid_changed() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM allocate_installments(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS subscription_period_allocate_installments ON "SubscriptionPeriod";
+CREATE TRIGGER subscription_period_allocate_installments
+  AFTER UPDATE OF paid ON "SubscriptionPeriod"
+  FOR EACH ROW
+  WHEN (OLD.paid IS DISTINCT FROM NEW.paid)
+  EXECUTE FUNCTION period_paid_changed();
+
+-- Replaces a term's schedule. p_installments is an array of
+-- { "dueDate": "YYYY-MM-DD", "amount": number }; an empty array removes
+-- the schedule. Returns the number of installments.
+CREATE OR REPLACE FUNCTION set_period_installments(
+  p_period_id BIGINT,
+  p_installments JSONB
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period "SubscriptionPeriod"%ROWTYPE;
+  v_count INTEGER;
+  v_days INTEGER;
+  v_total NUMERIC;
+BEGIN
+  SELECT * INTO v_period FROM "SubscriptionPeriod" WHERE id = p_period_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan term not found';
+  END IF;
+
+  IF p_installments IS NULL OR jsonb_typeof(p_installments) <> 'array' THEN
+    RAISE EXCEPTION 'Installments must be a list';
+  END IF;
+
+  v_count := jsonb_array_length(p_installments);
+
+  IF v_count = 1 OR v_count > 6 THEN
+    RAISE EXCEPTION 'A term can be split into 2 to 6 installments';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_installments) item
+    WHERE (item->>'dueDate') IS NULL
+    OR (item->>'amount') IS NULL
+    OR (item->>'amount')::NUMERIC <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every installment needs a due date and an amount above zero';
+  END IF;
+
+  -- One part per day at most: a due date is the deadline late fees key on
+  v_days := GREATEST(v_period."endDate" - v_period."startDate", 1);
+
+  IF v_count > v_days THEN
+    RAISE EXCEPTION 'A %-day term can be split into at most % installments', v_days, v_days;
+  END IF;
+
+  IF (
+    SELECT COUNT(DISTINCT (item->>'dueDate')::DATE)
+    FROM jsonb_array_elements(p_installments) item
+  ) < v_count THEN
+    RAISE EXCEPTION 'Two installments are due on the same day';
+  END IF;
+
+  SELECT COALESCE(SUM(ROUND((item->>'amount')::NUMERIC, 2)), 0) INTO v_total
+  FROM jsonb_array_elements(p_installments) item;
+
+  IF v_count > 0 AND v_total <> v_period.price THEN
+    RAISE EXCEPTION 'Installments add up to %, but the term costs %', v_total, v_period.price;
+  END IF;
+
+  DELETE FROM "Installment" WHERE "periodId" = p_period_id;
+
+  INSERT INTO "Installment" ("periodId", "studentId", "dueDate", amount)
+  SELECT p_period_id, v_period."studentId", (item->>'dueDate')::DATE, ROUND((item->>'amount')::NUMERIC, 2)
+  FROM jsonb_array_elements(p_installments) item;
+
+  PERFORM allocate_installments(p_period_id);
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION allocate_installments(BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION set_period_installments(BIGINT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION allocate_installments(BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION set_period_installments(BIGINT, JSONB) TO service_role;
+
+-- Starts a renewal term with its schedule, the payment taken now and any
+-- credit carried over, all in one transaction: if any part fails nothing
+-- is kept, not even the invoice number. p_installments is the same list
+-- set_period_installments takes; an empty array means no schedule.
+-- p_method and p_reference are how the admin says p_paid was taken, as
+-- for any other payment.
+-- Returns { periodId, paymentId, creditApplied }.
+CREATE OR REPLACE FUNCTION renew_plan(
+  p_student_id INTEGER,
+  p_plan_id INTEGER,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_price NUMERIC,
+  p_paid NUMERIC,
+  p_payment_date DATE,
+  p_method TEXT,
+  p_reference TEXT,
+  p_installments JSONB,
+  p_apply_credit BOOLEAN,
+  p_created_by UUID,
+  p_created_by_email TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period_id BIGINT;
+  v_payment_id BIGINT;
+  v_credit NUMERIC := 0;
+BEGIN
+  INSERT INTO "SubscriptionPeriod" ("studentId", "planId", kind, "startDate", "endDate", price, "createdBy", "createdByEmail")
+  VALUES (p_student_id, p_plan_id, 'renewal', p_start_date, p_end_date, ROUND(p_price, 2), p_created_by, p_created_by_email)
+  RETURNING id INTO v_period_id;
+
+  IF jsonb_array_length(COALESCE(p_installments, '[]'::jsonb)) > 0 THEN
+    PERFORM set_period_installments(v_period_id, p_installments);
+  END IF;
+
+  IF COALESCE(p_paid, 0) > 0 THEN
+    IF p_method IS NULL OR LENGTH(TRIM(p_method)) = 0 THEN
+      RAISE EXCEPTION 'A payment method is required';
+    END IF;
+
+    v_payment_id := record_payment(
+      p_student_id, p_paid, p_payment_date::TIMESTAMPTZ, p_method,
+      p_reference => p_reference,
+      p_period_id => v_period_id
+    );
+  END IF;
+
+  IF p_apply_credit THEN
+    v_credit := apply_credit_to_period(v_period_id, p_created_by, p_created_by_email);
+  END IF;
+
+  UPDATE "Student"
+  SET "isActive" = TRUE,
+      "updatedAt" = NOW()
+  WHERE id = p_student_id;
+
+  RETURN jsonb_build_object('periodId', v_period_id, 'paymentId', v_payment_id, 'creditApplied', v_credit);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION renew_plan(INTEGER, INTEGER, DATE, DATE, NUMERIC, NUMERIC, DATE, TEXT, TEXT, JSONB, BOOLEAN, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION renew_plan(INTEGER, INTEGER, DATE, DATE, NUMERIC, NUMERIC, DATE, TEXT, TEXT, JSONB, BOOLEAN, UUID, TEXT) TO service_role;
@@ -0,0 +1,377 @@
+-- ============================================
+-- Late fees
+-- ============================================
+-- Late fee rules are set by admins in AppSetting under 'late_fee_rules', as
+-- a list of:
+--
+--   { "id": "...", "name": "Late fee", "graceDays": 7,
+--     "type": "flat" | "percent", "amount": 100, "cap": 500 | null,
+--     "waivable": true }
+--
+-- A term is late under a rule when it still has money due the day after
+-- "startDate" + graceDays. What's due is the term's price less what's been
+-- paid on it, up to the student's balance (a student in credit owes
+-- nothing). A term paid in installments (see 021_installments.sql) is
+-- instead late on each installment still not fully paid the day after its
+-- "dueDate" + graceDays, and what's due is what's left of that installment.
+-- The fee is the flat amount, or the percentage of what's due capped at cap.
+--
+-- run_late_fees() charges each late deadline once per rule: a 'fee' entry
+-- in the ledger, a "LateFee" row recording what it was charged on, and a
+-- notification to the student. It runs daily through pg_cron and on demand
+-- from the app; every run is kept in "LateFeeRun". Days are the mess's
+-- (Asia/Kolkata), not the database server's. Only deadlines in the last 30
+-- days are charged, so a missed day is caught up and a new rule doesn't
+-- reach back to old terms.
+--
+-- waive_late_fee() takes a waivable fee back off with a 'discount' entry
+-- and keeps who waived it and why; the late-fees Edge Function also
+-- writes it to "AuditLog". Once a fee is waived, neither its entry nor the
+-- waiver's can be deleted by hand.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "LateFeeRun" (
+  id BIGSERIAL PRIMARY KEY,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'scheduled')),
+  "feesCharged" INTEGER NOT NULL DEFAULT 0,
+  "totalCharged" NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  "ranBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "ranByEmail" TEXT,
+  "ranAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS late_fee_run_ran_at_idx ON "LateFeeRun" ("ranAt" DESC);
+
+CREATE TABLE IF NOT EXISTS "LateFee" (
+  id BIGSERIAL PRIMARY KEY,
+  "studentId" INTEGER NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+  "periodId" BIGINT NOT NULL REFERENCES "SubscriptionPeriod"(id) ON DELETE CASCADE,
+  "installmentId" BIGINT REFERENCES "Installment"(id) ON DELETE SET NULL, -- When charged on an installment
+  "ruleId" TEXT NOT NULL,
+  "ruleName" TEXT NOT NULL,
+  "dueDate" DATE NOT NULL, -- Last day to pay before the fee applied
+  "amountDue" NUMERIC(10, 2) NOT NULL, -- What was still due when it was charged
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  waivable BOOLEAN NOT NULL DEFAULT true,
+  "ledgerEntryId" BIGINT REFERENCES "LedgerEntry"(id) ON DELETE SET NULL,
+  "runId" BIGINT REFERENCES "LateFeeRun"(id) ON DELETE SET NULL,
+  "waivedAt" TIMESTAMPTZ,
+  "waivedBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "waivedByEmail" TEXT,
+  "waiveReason" TEXT,
+  "waiverEntryId" BIGINT REFERENCES "LedgerEntry"(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Each rule charges a deadline at most once, even after the fee is waived
+-- or the term's schedule is set again with the same due dates
+CREATE UNIQUE INDEX IF NOT EXISTS late_fee_period_rule_idx ON "LateFee" ("periodId", "ruleId", "dueDate");
+CREATE INDEX IF NOT EXISTS late_fee_student_idx ON "LateFee" ("studentId", "createdAt" DESC);
+
+ALTER TABLE "LateFeeRun" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "LateFee" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view late fee runs" ON "LateFeeRun";
+CREATE POLICY "Admins can view late fee runs"
+  ON "LateFeeRun" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Students can view own late fees" ON "LateFee";
+CREATE POLICY "Students can view own late fees"
+  ON "LateFee" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Student" s
+      WHERE s.id = "LateFee"."studentId"
+      AND s."user_id" = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view late fees" ON "LateFee";
+CREATE POLICY "Admins can view late fees"
+  ON "LateFee" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- A waiver and the fee it cancels stay on the statement together, so a
+-- waived fee never loses its discount or leaves the discount behind
+DROP POLICY IF EXISTS "Admins can remove ledger adjustments" ON "LedgerEntry";
+CREATE POLICY "Admins can remove ledger adjustments"
+  ON "LedgerEntry" FOR DELETE
+  USING (
+    kind IN ('fee', 'discount')
+    AND NOT EXISTS (
+      SELECT 1 FROM "LateFee" lf
+      WHERE lf."waiverEntryId" = "LedgerEntry".id
+      OR (lf."ledgerEntryId" = "LedgerEntry".id AND lf."waivedAt" IS NOT NULL)
+    )
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Late fee notices are sent by the system, not an admin, so they stay out
+-- of each admin's sent announcements
+ALTER TABLE IF EXISTS "AdminNotification" ALTER COLUMN "sentBy" DROP NOT NULL;
+
+-- The fee a rule charges on an amount due (same as calculateLateFee() in
+-- src/lib/late-fees.ts)
+CREATE OR REPLACE FUNCTION late_fee_amount(p_amount_due NUMERIC, p_rule JSONB) RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_amount_due <= 0 THEN 0
+    WHEN p_rule->>'type' = 'flat' THEN ROUND((p_rule->>'amount')::NUMERIC, 2)
+    WHEN jsonb_typeof(p_rule->'cap') = 'number' AND (p_rule->>'cap')::NUMERIC > 0
+      THEN LEAST(ROUND(p_amount_due * (p_rule->>'amount')::NUMERIC / 100, 2), ROUND((p_rule->>'cap')::NUMERIC, 2))
+    ELSE ROUND(p_amount_due * (p_rule->>'amount')::NUMERIC / 100, 2)
+  END;
+$$;
+
+-- Charges every late term and installment under every rule. Returns the
+-- run id.
+CREATE OR REPLACE FUNCTION run_late_fees(
+  p_source TEXT,
+  p_ran_by UUID DEFAULT NULL,
+  p_ran_by_email TEXT DEFAULT NULL
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id BIGINT;
+  v_rules JSONB;
+  v_rule JSONB;
+  v_term RECORD;
+  v_fee NUMERIC;
+  v_entry_id BIGINT;
+  v_late_fee_id BIGINT;
+  v_notification_id BIGINT;
+  v_count INTEGER := 0;
+  v_total NUMERIC := 0;
+  v_today DATE := (NOW() AT TIME ZONE 'Asia/Kolkata')::date;
+BEGIN
+  -- A manual run and the daily one can't charge the same term twice
+  PERFORM pg_advisory_xact_lock(hashtext('run_late_fees'));
+
+  INSERT INTO "LateFeeRun" (source, "ranBy", "ranByEmail")
+  VALUES (p_source, p_ran_by, p_ran_by_email)
+  RETURNING id INTO v_run_id;
+
+  SELECT value INTO v_rules FROM "AppSetting" WHERE key = 'late_fee_rules';
+
+  IF v_rules IS NULL OR jsonb_typeof(v_rules) <> 'array' THEN
+    RETURN v_run_id;
+  END IF;
+
+  -- Rules that can't be applied are skipped rather than failing the run
+  FOR v_rule IN
+    SELECT rule FROM jsonb_array_elements(v_rules) rule
+    WHERE jsonb_typeof(rule->'id') = 'string' AND rule->>'id' <> ''
+    AND jsonb_typeof(rule->'graceDays') = 'number' AND (rule->>'graceDays')::NUMERIC >= 0
+    AND rule->>'type' IN ('flat', 'percent')
+    AND jsonb_typeof(rule->'amount') = 'number' AND (rule->>'amount')::NUMERIC > 0
+  LOOP
+    FOR v_term IN
+      SELECT *
+      FROM (
+        -- Terms without a schedule are due as a whole from their start
+        SELECT sp.id, sp."studentId", NULL::BIGINT AS "installmentId",
+               sp."startDate" + FLOOR((v_rule->>'graceDays')::NUMERIC)::INTEGER AS "dueDate",
+               LEAST(sp.price - sp.paid, COALESCE(s.balance, 0)) AS "amountDue"
+        FROM "SubscriptionPeriod" sp
+        JOIN "Student" s ON s.id = sp."studentId"
+        WHERE s."isActive" = true
+        AND NOT EXISTS (SELECT 1 FROM "Installment" i WHERE i."periodId" = sp.id)
+
+        UNION ALL
+
+        -- Terms with one are due installment by installment
+        SELECT i."periodId", i."studentId", i.id,
+               i."dueDate" + FLOOR((v_rule->>'graceDays')::NUMERIC)::INTEGER,
+               LEAST(i.amount - i.paid, COALESCE(s.balance, 0))
+        FROM "Installment" i
+        JOIN "Student" s ON s.id = i."studentId"
+        WHERE s."isActive" = true
+        AND i.paid < i.amount
+      ) due
+      WHERE due."dueDate" < v_today
+      AND due."dueDate" >= v_today - 30
+      AND NOT EXISTS (
+        SELECT 1 FROM "LateFee" lf
+        WHERE lf."periodId" = due.id AND lf."ruleId" = v_rule->>'id' AND lf."dueDate" = due."dueDate"
+      )
+      ORDER BY due.id, due."dueDate"
+    LOOP
+      v_fee := late_fee_amount(v_term."amountDue", v_rule);
+
+      IF v_fee <= 0 THEN
+        CONTINUE;
+      END IF;
+
+      -- Claim the deadline first: two installments due the same day are
+      -- one deadline, so only the first charges and the run carries on
+      INSERT INTO "LateFee" (
+        "studentId", "periodId", "installmentId", "ruleId", "ruleName", "dueDate", "amountDue", amount, waivable, "runId"
+      )
+      VALUES (
+        v_term."studentId",
+        v_term.id,
+        v_term."installmentId",
+        v_rule->>'id',
+        COALESCE(NULLIF(TRIM(v_rule->>'name'), ''), 'Late fee'),
+        v_term."dueDate",
+        v_term."amountDue",
+        v_fee,
+        v_rule->'waivable' IS DISTINCT FROM 'false'::jsonb,
+        v_run_id
+      )
+      ON CONFLICT ("periodId", "ruleId", "dueDate") DO NOTHING
+      RETURNING id INTO v_late_fee_id;
+
+      IF v_late_fee_id IS NULL THEN
+        CONTINUE;
+      END IF;
+
+      INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, debit, "periodId", "createdBy", "createdByEmail")
+      VALUES (
+        v_term."studentId",
+        v_today,
+        'fee',
+        COALESCE(NULLIF(TRIM(v_rule->>'name'), ''), 'Late fee'),
+        v_fee,
+        v_term.id,
+        p_ran_by,
+        p_ran_by_email
+      )
+      RETURNING id INTO v_entry_id;
+
+      UPDATE "LateFee" SET "ledgerEntryId" = v_entry_id WHERE id = v_late_fee_id;
+
+      INSERT INTO "AdminNotification" (title, message, "sentBy", "targetType", "targetStudentIds", "totalSent", "readCount")
+      VALUES (
+        'Late fee added',
+        'A late fee of ₹' || to_char(v_fee, 'FM999999990.00') || ' has been added to your balance. ₹'
+          || to_char(v_term."amountDue", 'FM999999990.00') || ' of your plan was still due on '
+          || to_char(v_term."dueDate", 'DD Mon YYYY') || ', '
+          || FLOOR((v_rule->>'graceDays')::NUMERIC)::INTEGER
+          || CASE WHEN v_term."installmentId" IS NULL
+               THEN ' days after your term started.'
+               ELSE ' days after an installment was due.'
+             END,
+        NULL,
+        'custom',
+        jsonb_build_array(v_term."studentId")::TEXT,
+        1,
+        0
+      )
+      RETURNING id INTO v_notification_id;
+
+      INSERT INTO "AdminNotificationRecipient" ("notificationId", "studentId", read, "pushSent")
+      VALUES (v_notification_id, v_term."studentId", false, false);
+
+      v_count := v_count + 1;
+      v_total := v_total + v_fee;
+    END LOOP;
+  END LOOP;
+
+  UPDATE "LateFeeRun"
+  SET "feesCharged" = v_count,
+      "totalCharged" = v_total
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+-- Takes a late fee back off the student's balance. Returns the waiver's
+-- ledger entry id.
+CREATE OR REPLACE FUNCTION waive_late_fee(
+  p_late_fee_id BIGINT,
+  p_reason TEXT,
+  p_waived_by UUID,
+  p_waived_by_email TEXT DEFAULT NULL
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fee "LateFee"%ROWTYPE;
+  v_entry_id BIGINT;
+BEGIN
+  SELECT * INTO v_fee FROM "LateFee" WHERE id = p_late_fee_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Late fee not found';
+  END IF;
+
+  IF v_fee."waivedAt" IS NOT NULL THEN
+    RAISE EXCEPTION 'This late fee has already been waived';
+  END IF;
+
+  IF NOT v_fee.waivable THEN
+    RAISE EXCEPTION 'This late fee can''t be waived';
+  END IF;
+
+  -- The fee's entry was deleted from the statement by hand
+  IF v_fee."ledgerEntryId" IS NULL THEN
+    RAISE EXCEPTION 'This late fee is no longer on the statement';
+  END IF;
+
+  IF p_reason IS NULL OR TRIM(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  INSERT INTO "LedgerEntry" ("studentId", "entryDate", kind, description, credit, "periodId", "createdBy", "createdByEmail")
+  VALUES (
+    v_fee."studentId",
+    (NOW() AT TIME ZONE 'Asia/Kolkata')::date,
+    'discount',
+    v_fee."ruleName" || ' waived',
+    v_fee.amount,
+    v_fee."periodId",
+    p_waived_by,
+    p_waived_by_email
+  )
+  RETURNING id INTO v_entry_id;
+
+  UPDATE "LateFee"
+  SET "waivedAt" = NOW(),
+      "waivedBy" = p_waived_by,
+      "waivedByEmail" = p_waived_by_email,
+      "waiveReason" = TRIM(p_reason),
+      "waiverEntryId" = v_entry_id
+  WHERE id = p_late_fee_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Only the Edge Function (service role) and pg_cron may call these
+REVOKE ALL ON FUNCTION run_late_fees(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION waive_late_fee(BIGINT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION run_late_fees(TEXT, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION waive_late_fee(BIGINT, TEXT, UUID, TEXT) TO service_role;
+
+-- Daily run (run after enabling pg_cron, see PLAN_EXPIRY_NOTIFICATIONS_SETUP.md)
+-- SELECT cron.schedule(
+--   'late-fees-daily',
+--   '30 2 * * *',
+--   $$ SELECT run_late_fees('scheduled') $$
+-- );